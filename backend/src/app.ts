@@ -6,9 +6,12 @@ import { env } from "./config/env";
 import { apiRouter } from "./routes";
 
 export const app = express();
+app.set("trust proxy", env.TRUST_PROXY); // so req.ip is the client, not the load balancer
 
 // adding middleware: functions that run on every single request
 app.use(morgan("dev")); // http request logging to terminal
+// payment webhooks keep their raw body so the provider signature can be verified against it
+app.use("/api/payments/webhooks", express.raw({ type: "application/json", limit: "100kb" }));
 app.use(express.json()); // parse json request bodies; if client sends json, express reads the body and sets req.body to the parsed object
 app.use(cookieParser()); // parse the cookie header into req.cookies object
 
@@ -1,12 +1,47 @@
 // setup cookie config
-import type { CookieOptions } from "express";
+import type { CookieOptions, Response } from "express";
+import { env } from "./env";
 
 export const AUTH_COOKIE_NAME = "felicity_auth";
+export const REFRESH_COOKIE_NAME = "felicity_refresh";
 
 export const authCookieOptions: CookieOptions = {
   httpOnly: true,
   sameSite: "none",
   secure: true,
-  maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days in milliseconds
+  maxAge: env.ACCESS_TOKEN_TTL_MINUTES * 60 * 1000,
   path: "/",
 };
+
+// the refresh token is only ever sent to the auth routes
+export const refreshCookieOptions: CookieOptions = {
+  httpOnly: true,
+  sameSite: "none",
+  secure: true,
+  maxAge: env.REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000,
+  path: "/api/auth",
+};
+
+export function setSessionCookies(
+  res: Response,
+  tokens: { accessToken: string; refreshToken?: string },
+): void {
+  res.cookie(AUTH_COOKIE_NAME, tokens.accessToken, authCookieOptions);
+  if (tokens.refreshToken) {
+    res.cookie(REFRESH_COOKIE_NAME, tokens.refreshToken, refreshCookieOptions);
+  }
+}
+
+export function clearSessionCookies(res: Response): void {
+  for (const [name, options] of [
+    [AUTH_COOKIE_NAME, authCookieOptions],
+    [REFRESH_COOKIE_NAME, refreshCookieOptions],
+  ] as const) {
+    res.clearCookie(name, {
+      httpOnly: options.httpOnly,
+      sameSite: options.sameSite,
+      secure: options.secure,
+      path: options.path,
+    });
+  }
+}
@@ -40,9 +40,68 @@ const envSchema = z.object({
       "IIIT_EMAIL_DOMAINS must contain at least one domain",
     ),
 
+  SCHEDULER_POLL_INTERVAL_MS: z.coerce.number().int().min(1000).default(30000),
+  EMAIL_OUTBOX_POLL_INTERVAL_MS: z.coerce.number().int().min(1000).default(10000),
+  // attempts before an email is marked dead and left for an admin to resend
+  EMAIL_OUTBOX_MAX_ATTEMPTS: z.coerce.number().int().min(1).max(20).default(6),
+  // access jwts are short-lived; the refresh cookie keeps the session going
+  ACCESS_TOKEN_TTL_MINUTES: z.coerce.number().int().min(1).max(60).default(15),
+  // idle sessions expire after this many days without a refresh
+  REFRESH_TOKEN_TTL_DAYS: z.coerce.number().int().min(1).max(90).default(30),
+  // failed sign-ins before an account / a client IP is locked out
+  LOGIN_MAX_FAILURES_PER_ACCOUNT: z.coerce.number().int().min(3).max(100).default(10),
+  LOGIN_MAX_FAILURES_PER_IP: z.coerce.number().int().min(5).max(1000).default(50),
+  // first lockout length; repeated lockouts double it, up to a day
+  LOGIN_LOCKOUT_MINUTES: z.coerce.number().int().min(1).max(1440).default(15),
+  // express "trust proxy": "true", a hop count, or a list of proxy addresses; needed for per-IP limits behind a proxy
+  TRUST_PROXY: z
+    .string()
+    .trim()
+    .default("false")
+    .transform((raw): boolean | number | string => {
+      if (raw === "true") return true;
+      if (raw === "false") return false;
+      if (/^\d+$/.test(raw)) return Number(raw);
+      return raw;
+    }),
+  PASSWORD_RESET_TOKEN_TTL_MINUTES: z.coerce.number().int().min(5).max(1440).default(30),
+  // reset emails per address per hour; extra requests get the same response but no email
+  PASSWORD_RESET_MAX_REQUESTS_PER_HOUR: z.coerce.number().int().min(1).max(20).default(3),
+  // paid registrations hold their seat this long while an organizer checks the payment proof
+  PAYMENT_HOLD_HOURS: z.coerce.number().int().min(1).max(720).default(48),
+  // online checkout for paid registrations and merch orders; "local" is the stand-in checkout for development
+  PAYMENT_PROVIDER: z.enum(["none", "local"]).default("none"),
+  // shared secret the provider signs its webhooks with
+  PAYMENT_WEBHOOK_SECRET: z.string().min(32).optional(),
+  // where the provider reaches this api (checkout pages and webhooks); defaults to localhost:PORT
+  PUBLIC_API_URL: z.string().url().optional(),
+  // minutes before startDate; events can override with their own list
+  REMINDER_OFFSETS_MINUTES: z
+    .string()
+    .default("1440,60")
+    .transform((raw) =>
+      raw
+        .split(",")
+        .map((value) => value.trim())
+        .filter((value) => value.length > 0)
+        .map(Number),
+    )
+    .refine(
+      (offsets) => offsets.every((offset) => Number.isInteger(offset) && offset > 0),
+      "REMINDER_OFFSETS_MINUTES must be a comma separated list of positive whole minutes",
+    ),
+
   ADMIN_EMAIL: z.string().email().optional(),
   ADMIN_PASSWORD: z.string().min(8).optional(),
   ADMIN_NAME: z.string().min(1).default("System Admin"),
+}).superRefine((value, ctx) => {
+  if (value.PAYMENT_PROVIDER !== "none" && !value.PAYMENT_WEBHOOK_SECRET) {
+    ctx.addIssue({
+      code: "custom",
+      path: ["PAYMENT_WEBHOOK_SECRET"],
+      message: "PAYMENT_WEBHOOK_SECRET is required when PAYMENT_PROVIDER is set",
+    });
+  }
 });
 
 const parsed = envSchema.safeParse(process.env);
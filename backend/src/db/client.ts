@@ -20,6 +20,16 @@ export function getDb(): Db {
   return db;
 }
 
+// the slice of Db an in-memory test stand-in provides
+export type TestDb = {
+  collection(name: string): object;
+};
+
+// tests hand in a stand-in instead of connecting to a server
+export function setDb(testDb: TestDb | null): void {
+  db = testDb as Db | null;
+}
+
 export async function closeDb(): Promise<void> {
   await client?.close();
   client = null;
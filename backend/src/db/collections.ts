@@ -7,7 +7,29 @@ export const collections = {
   organizerPasswordResetRequests: "organizer_password_reset_requests",
   attendances: "attendances",
   attendanceAuditLogs: "attendance_audit_logs",
+  attendanceManifests: "attendance_manifests",
   announcements: "announcements",
+  ticketSigningKeys: "ticket_signing_keys",
+  discussionMessages: "discussion_messages",
+  discussionMutes: "discussion_mutes",
+  feedback: "feedback",
+  scheduledJobs: "scheduled_jobs",
+  reminderSends: "reminder_sends",
+  emailOutbox: "email_outbox",
+  passwordResetTokens: "password_reset_tokens",
+  sessions: "sessions",
+  loginChallenges: "login_challenges",
+  platformSettings: "platform_settings",
+  loginThrottles: "login_throttles",
+  securityAuditLogs: "security_audit_logs",
+  organizerTeamMembers: "organizer_team_members",
+  scannerTokens: "scanner_tokens",
+  certificates: "certificates",
+  certificateTemplates: "certificate_templates",
+  eventTeams: "event_teams",
+  refundRequests: "refund_requests",
+  paymentOrders: "payment_orders",
+  paymentWebhookEvents: "payment_webhook_events",
 } as const;
 
 export type CollectionName = (typeof collections)[keyof typeof collections];
@@ -11,10 +11,17 @@ export async function ensureDbIndexes(): Promise<void> {
 
   await db.collection("registrations").createIndex({ eventId: 1 });
   await db.collection("registrations").createIndex({ userId: 1 });
+  await db
+    .collection("registrations")
+    .createIndex({ eventId: 1, status: 1, waitlistedAt: 1 });
 
   await db.collection("tickets").createIndex({ ticketId: 1 }, { unique: true });
   await db.collection("tickets").createIndex({ userId: 1, createdAt: -1 });
 
+  await db
+    .collection("ticket_signing_keys")
+    .createIndex({ kid: 1 }, { unique: true });
+
   await db
     .collection("organizer_password_reset_requests")
     .createIndex({ organizerId: 1, createdAt: -1 });
@@ -22,8 +29,9 @@ export async function ensureDbIndexes(): Promise<void> {
     .collection("organizer_password_reset_requests")
     .createIndex({ status: 1, createdAt: -1 });
 
+  // one record per participation and checkpoint; scans beyond the first only bump scanCount
   await db.collection("attendances").createIndex(
-    { participationId: 1 },
+    { participationId: 1, checkpointKey: 1 },
     { unique: true },
   );
   await db.collection("attendances").createIndex({ eventId: 1, markedAt: -1 });
@@ -34,4 +42,132 @@ export async function ensureDbIndexes(): Promise<void> {
   await db
     .collection("attendance_audit_logs")
     .createIndex({ participationId: 1, createdAt: -1 });
+
+  await db
+    .collection("attendance_manifests")
+    .createIndex({ eventId: 1, downloadedBy: 1, generatedAt: 1 });
+
+  await db
+    .collection("announcements")
+    .createIndex({ eventId: 1, createdAt: -1 });
+  await db
+    .collection("announcements")
+    .createIndex({ "recipients.userId": 1, eventId: 1 });
+
+  await db
+    .collection("discussion_messages")
+    .createIndex({ eventId: 1, parentId: 1, pinned: -1, createdAt: -1 });
+  await db.collection("discussion_messages").createIndex({ parentId: 1, createdAt: 1 });
+
+  await db
+    .collection("discussion_mutes")
+    .createIndex({ eventId: 1, userId: 1 }, { unique: true });
+
+  await db
+    .collection("feedback")
+    .createIndex({ eventId: 1, submitterKey: 1 }, { unique: true });
+  await db.collection("feedback").createIndex({ eventId: 1, rating: 1 });
+
+  await db.collection("scheduled_jobs").createIndex({ key: 1 }, { unique: true });
+  await db.collection("scheduled_jobs").createIndex({ status: 1, runAt: 1 });
+  await db.collection("scheduled_jobs").createIndex({ eventId: 1 });
+
+  await db
+    .collection("reminder_sends")
+    .createIndex({ participationId: 1, offsetMinutes: 1 }, { unique: true });
+  await db.collection("reminder_sends").createIndex({ eventId: 1, offsetMinutes: 1 });
+
+  await db.collection("email_outbox").createIndex({ status: 1, nextAttemptAt: 1 });
+  await db.collection("email_outbox").createIndex({ kind: 1, status: 1, createdAt: -1 });
+  await db.collection("email_outbox").createIndex({ "refs.announcementId": 1 });
+  await db.collection("email_outbox").createIndex({ createdAt: -1 });
+
+  await db
+    .collection("password_reset_tokens")
+    .createIndex({ tokenHash: 1 }, { unique: true });
+  await db.collection("password_reset_tokens").createIndex({ email: 1, createdAt: -1 });
+  // keep a day of history for the per-email rate limit, then let mongo drop it
+  await db
+    .collection("password_reset_tokens")
+    .createIndex({ createdAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+  await db.collection("sessions").createIndex({ jti: 1 }, { unique: true });
+  await db.collection("sessions").createIndex({ refreshTokenHash: 1 }, { unique: true });
+  await db.collection("sessions").createIndex({ previousRefreshTokenHash: 1 });
+  await db.collection("sessions").createIndex({ userId: 1, lastSeenAt: -1 });
+  // idle sessions disappear once their refresh token can no longer be used
+  await db
+    .collection("sessions")
+    .createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+  await db
+    .collection("login_challenges")
+    .createIndex({ tokenHash: 1 }, { unique: true });
+  await db
+    .collection("login_challenges")
+    .createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+  await db
+    .collection("login_throttles")
+    .createIndex({ scope: 1, key: 1 }, { unique: true });
+  await db.collection("login_throttles").createIndex({ lockedUntil: -1 });
+  await db
+    .collection("login_throttles")
+    .createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+  await db.collection("security_audit_logs").createIndex({ createdAt: -1 });
+  await db.collection("security_audit_logs").createIndex({ action: 1, createdAt: -1 });
+  await db.collection("security_audit_logs").createIndex({ actorUserId: 1, createdAt: -1 });
+  await db.collection("security_audit_logs").createIndex({ targetUserId: 1, createdAt: -1 });
+  await db.collection("security_audit_logs").createIndex({ ip: 1, createdAt: -1 });
+
+  await db
+    .collection("organizer_team_members")
+    .createIndex({ organizerId: 1, userId: 1 }, { unique: true });
+  await db.collection("organizer_team_members").createIndex({ userId: 1, status: 1 });
+
+  await db
+    .collection("scanner_tokens")
+    .createIndex({ tokenHash: 1 }, { unique: true });
+  await db.collection("scanner_tokens").createIndex({ eventId: 1, createdAt: -1 });
+
+  await db.collection("certificates").createIndex({ code: 1 }, { unique: true });
+  await db
+    .collection("certificates")
+    .createIndex({ participationId: 1 }, { unique: true });
+  await db.collection("certificates").createIndex({ eventId: 1, issuedAt: -1 });
+  await db.collection("certificates").createIndex({ userId: 1, issuedAt: -1 });
+
+  await db
+    .collection("certificate_templates")
+    .createIndex({ organizerId: 1, createdAt: -1 });
+
+  await db.collection("event_teams").createIndex({ inviteCode: 1 }, { unique: true });
+  await db
+    .collection("event_teams")
+    .createIndex({ eventId: 1, nameKey: 1 }, { unique: true });
+  await db
+    .collection("registrations")
+    .createIndex({ teamId: 1, status: 1 }, { sparse: true });
+  await db
+    .collection("registrations")
+    .createIndex({ eventId: 1, paymentHoldExpiresAt: 1 }, { sparse: true });
+
+  // one refund request per cancelled participation
+  await db
+    .collection("refund_requests")
+    .createIndex({ participationId: 1 }, { unique: true });
+  await db.collection("refund_requests").createIndex({ eventId: 1, requestedAt: -1 });
+  await db.collection("refund_requests").createIndex({ status: 1, requestedAt: -1 });
+
+  await db
+    .collection("payment_orders")
+    .createIndex({ provider: 1, providerOrderId: 1 }, { unique: true });
+  await db
+    .collection("payment_orders")
+    .createIndex({ participationId: 1, createdAt: -1 });
+  // a webhook delivered twice is only applied once
+  await db
+    .collection("payment_webhook_events")
+    .createIndex({ provider: 1, eventId: 1 }, { unique: true });
 }
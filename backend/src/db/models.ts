@@ -22,6 +22,20 @@ export type UserDoc = {
   contactNumber?: string;
   isDisabled?: boolean;
   archivedAt?: Date;
+  twoFactor?: TwoFactorState;
+};
+
+// TOTP secrets are stored encrypted (see utils/twoFactor.ts)
+export type TwoFactorState = {
+  enabled: boolean;
+  secretCiphertext?: string;
+  // written by /security/2fa/setup and promoted to secretCiphertext once a code is confirmed
+  pendingSecretCiphertext?: string;
+  pendingCreatedAt?: Date;
+  // highest time step accepted so far, so a code can't be replayed inside its window
+  lastUsedStep?: number;
+  recoveryCodeHashes?: string[];
+  enabledAt?: Date;
 };
 
 export type UserInsert = Omit<UserDoc, "_id">; // removes the _id attribute
@@ -42,6 +56,7 @@ export type EventInsert = Omit<EventDoc, "_id">;
 export const registrationStatuses = [
   "pending",
   "confirmed",
+  "waitlisted",
   "cancelled",
   "rejected",
 ] as const;
@@ -92,8 +107,23 @@ export type RegistrationDoc = {
   updatedAt?: Date;
   eventType?: RegistrationEventType;
   ticketId?: string;
+  waitlistedAt?: Date;
+  promotedAt?: Date;
+  // team events: the event_teams entry this member registered into
+  teamId?: ObjectId;
+  // approval events: the organizer's (or auto-decision's) verdict on a pending registration
+  review?: {
+    decision: "accepted" | "rejected";
+    message: string | null;
+    reviewedAt: Date;
+    reviewedBy: ObjectId | null;
+  };
+  // paid NORMAL registrations awaiting payment review: the seat is released if nobody decides by then
+  paymentHoldExpiresAt?: Date;
+  paymentHoldExpiredAt?: Date;
   normalResponses?: RegistrationFormResponse[];
   merchPurchase?: MerchPurchaseSnapshot;
+  reminderOptOut?: boolean;
 };
 
 export type RegistrationInsert = Omit<RegistrationDoc, "_id">;
@@ -117,10 +147,18 @@ export const paymentMethods = [
   "cash",
   "card",
   "other",
+  // paid through the configured payment provider's checkout
+  "online",
 ] as const;
 export type PaymentMethod = (typeof paymentMethods)[number];
 
-export const paymentStatuses = ["pending", "approved", "rejected"] as const;
+export const paymentStatuses = [
+  "pending",
+  "approved",
+  "rejected",
+  "refunded",
+  "partially_refunded",
+] as const;
 export type PaymentStatus = (typeof paymentStatuses)[number];
 
 export type PaymentDoc = {
@@ -131,6 +169,9 @@ export type PaymentDoc = {
   proofUrl?: string;
   status: PaymentStatus;
   createdAt: Date;
+  // set once a refund request for this payment was processed
+  refundedAmount?: number;
+  refundedAt?: Date;
 };
 
 export type PaymentInsert = Omit<PaymentDoc, "_id">;
@@ -159,3 +200,37 @@ export type OrganizerPasswordResetRequestInsert = Omit<
   OrganizerPasswordResetRequestDoc,
   "_id"
 >;
+
+// participant self-service reset links; only the sha-256 of the token is stored
+export type PasswordResetTokenDoc = {
+  _id: ObjectId;
+  userId: ObjectId;
+  email: string;
+  tokenHash: string;
+  createdAt: Date;
+  expiresAt: Date;
+  usedAt?: Date;
+  // set when a newer link is issued for the same account
+  supersededAt?: Date;
+};
+
+export type LoginChallengePurpose = "verify" | "setup";
+
+// password accepted, second factor (or enrolment) still outstanding
+export type LoginChallengeDoc = {
+  _id: ObjectId;
+  userId: ObjectId;
+  purpose: LoginChallengePurpose;
+  tokenHash: string;
+  attempts: number;
+  createdAt: Date;
+  expiresAt: Date;
+  completedAt?: Date;
+};
+
+export type SecuritySettingsDoc = {
+  _id: "security";
+  requireOrganizerTwoFactor: boolean;
+  updatedAt: Date;
+  updatedByAdminId?: ObjectId;
+};
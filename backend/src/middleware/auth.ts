@@ -4,50 +4,64 @@ import { AUTH_COOKIE_NAME } from "../config/cookies";
 import { getDb } from "../db/client";
 import type { UserDoc, UserRole } from "../db/models";
 import { verifyJwt } from "../utils/jwt";
+import { resolveOrganizerAccess, type TeamMemberRole } from "../utils/organizerTeam";
+import { resolveScannerToken, SCANNER_TOKEN_HEADER } from "../utils/scannerTokens";
+import { findActiveSession, getClientMeta, touchSession } from "../utils/sessions";
 
-// reads jwt from auth cookie, verifies it and sets req.user = {id, role}
-export async function requireAuth(
-  req: Request,
-  res: Response,
-  next: NextFunction,
-): Promise<void> {
-  const token = req.cookies?.[AUTH_COOKIE_NAME];
+export type AuthResolution =
+  | { ok: true; user: { id: string; role: UserRole; sessionId: string } }
+  | { ok: false; status: 401 | 403; message: string };
+
+// the session and account checks behind a verified token; open sockets re-run them on every emit
+export async function resolveSessionUser(claims: {
+  id: string;
+  role: UserRole;
+  sessionId: string;
+}): Promise<AuthResolution> {
+  // the session behind the token must still be live, so logouts and revocations apply immediately
+  const session = await findActiveSession(claims.sessionId);
+  if (!session || session.userId.toString() !== claims.id) {
+    return { ok: false, status: 401, message: "Not authenticated" };
+  }
+
+  // look the user up on every authenticated request so deleted accounts stop working immediately
+  const users = getDb().collection<UserDoc>("users");
+  const user = await users.findOne({
+    _id: new ObjectId(claims.id),
+    role: claims.role,
+  });
+
+  if (!user) {
+    return { ok: false, status: 401, message: "Not authenticated" };
+  }
 
+  // block disabled organizers on every authenticated request
+  if (user.role === "organizer" && user.isDisabled === true) {
+    return { ok: false, status: 403, message: "Organizer account is disabled" };
+  }
+
+  await touchSession(session);
+  return {
+    ok: true,
+    user: { id: claims.id, role: claims.role, sessionId: claims.sessionId },
+  };
+}
+
+// verifies a raw auth token; shared by requireAuth and the realtime socket handshake
+export async function resolveAuthToken(token: unknown): Promise<AuthResolution> {
   if (!token || typeof token !== "string") {
-    res.status(401).json({ error: { message: "Not authenticated" } });
-    return;
+    return { ok: false, status: 401, message: "Not authenticated" };
   }
 
   try {
     const payload = verifyJwt(token); // verifyJwt is defined in utils/jwt.ts
     // if invalid token, error thrown, and handled in the catch block
 
-    // block disabled organizers on every authenticated request
-    // special check only for organizer role, because only organizers could be disabled at some point --> so we have to look up the DB and check if the organizer is disabled or not
-    // technically, a JWT with a valid signature can be used even if the user no longer exists in DB
-    // eg: a stolen JWT still works until it expires, because we don't re-check participants/admins
-    if (payload.role === "organizer") {
-      const users = getDb().collection<UserDoc>("users");
-      const organizer = await users.findOne({
-        _id: new ObjectId(payload.userId),
-        role: "organizer",
-      });
-
-      if (!organizer) {
-        res.status(401).json({ error: { message: "Not authenticated" } });
-        return;
-      }
-
-      if (organizer.isDisabled === true) {
-        res
-          .status(403)
-          .json({ error: { message: "Organizer account is disabled" } });
-        return;
-      }
-    }
-
-    req.user = { id: payload.userId, role: payload.role };
-    next();
+    return await resolveSessionUser({
+      id: payload.userId,
+      role: payload.role,
+      sessionId: payload.jti,
+    });
   } catch (err) {
     // treat jwt/objectid parse failures as unauthenticated requests
     if (
@@ -56,10 +70,29 @@ export async function requireAuth(
         err.message.includes("ObjectId") ||
         err.message.includes("BSON")) // could be thrown by the `new ObjectId()` function call in the try block
     ) {
-      res.status(401).json({ error: { message: "Not authenticated" } });
+      return { ok: false, status: 401, message: "Not authenticated" };
+    }
+
+    throw err;
+  }
+}
+
+// reads jwt from auth cookie, verifies it and sets req.user = {id, role, sessionId}
+export async function requireAuth(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const resolution = await resolveAuthToken(req.cookies?.[AUTH_COOKIE_NAME]);
+    if (!resolution.ok) {
+      res.status(resolution.status).json({ error: { message: resolution.message } });
       return;
     }
 
+    req.user = resolution.user;
+    next();
+  } catch (err) {
     next(err);
   }
 }
@@ -85,3 +118,79 @@ export function requireRole(...roles: UserRole[]) {
     next();
   };
 }
+
+// organizer routes: the organizer account always passes; participants pass only as active team
+// members of the club behind :eventId (or ?organizerId=) holding one of the listed roles.
+// sets req.organizerAccess so handlers scope their queries to that club
+export function requireOrganizerAccess(...teamRoles: TeamMemberRole[]) {
+  return async function middleware(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ error: { message: "Not authenticated" } });
+        return;
+      }
+
+      const result = await resolveOrganizerAccess({
+        user,
+        allowedTeamRoles: teamRoles,
+        eventId: req.params.eventId,
+        organizerId: req.query.organizerId,
+      });
+      if (!result.ok) {
+        res.status(result.status).json({ error: { message: result.message } });
+        return;
+      }
+
+      req.organizerAccess = result.access;
+      next();
+    } catch (err) {
+      next(err);
+    }
+  };
+}
+
+// paired gate devices only: the request must carry a live scanner token; sets req.scannerDevice
+export async function requireScannerToken(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const resolution = await resolveScannerToken({
+      token: req.get(SCANNER_TOKEN_HEADER),
+      eventId: req.params.eventId,
+      ip: getClientMeta(req).ip,
+    });
+    if (!resolution.ok) {
+      res.status(resolution.status).json({ error: { message: resolution.message } });
+      return;
+    }
+
+    req.scannerDevice = resolution.device;
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
+
+// scan and lookup routes: a request with a scanner token is handled as that device;
+// anything else goes through the normal login and organizer/team checks
+export function requireScannerAccess(...teamRoles: TeamMemberRole[]) {
+  const organizerAccess = requireOrganizerAccess(...teamRoles);
+
+  return async function middleware(req: Request, res: Response, next: NextFunction) {
+    if (req.get(SCANNER_TOKEN_HEADER) !== undefined) {
+      await requireScannerToken(req, res, next);
+      return;
+    }
+
+    await requireAuth(req, res, (err?: unknown) => {
+      if (err) {
+        next(err);
+        return;
+      }
+      void organizerAccess(req, res, next);
+    });
+  };
+}
@@ -0,0 +1,93 @@
+// stand-in provider for development: the checkout is a page served by this api, and paying (or
+// declining) there sends the same signed webhook a real provider would
+import crypto from "node:crypto";
+import { z } from "zod";
+import { env } from "../config/env";
+import {
+  type PaymentProvider,
+  paymentWebhookEventTypes,
+  type PaymentWebhookEvent,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from "./provider";
+
+export const localPaymentSignatureHeader = "x-local-payment-signature";
+
+const localWebhookEventSchema = z.object({
+  id: z.string().min(1).max(100),
+  type: z.enum(paymentWebhookEventTypes),
+  providerOrderId: z.string().min(1).max(100),
+  amount: z.number().min(0),
+});
+
+export function getPublicApiUrl(): string {
+  return (env.PUBLIC_API_URL ?? `http://localhost:${env.PORT}`).replace(/\/+$/, "");
+}
+
+function getWebhookSecret(): string {
+  if (!env.PAYMENT_WEBHOOK_SECRET) {
+    throw new Error("PAYMENT_WEBHOOK_SECRET is not configured");
+  }
+  return env.PAYMENT_WEBHOOK_SECRET;
+}
+
+export const localPaymentProvider: PaymentProvider = {
+  name: "local",
+
+  async createCheckout() {
+    const providerOrderId = `local_${crypto.randomBytes(12).toString("hex")}`;
+    return {
+      providerOrderId,
+      checkoutUrl: `${getPublicApiUrl()}/api/payments/local/checkout/${providerOrderId}`,
+    };
+  },
+
+  parseWebhook(rawBody, headers) {
+    if (
+      !verifyWebhookSignature({
+        secret: getWebhookSecret(),
+        rawBody,
+        header: headers[localPaymentSignatureHeader],
+      })
+    ) {
+      return null;
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(rawBody.toString("utf8"));
+    } catch {
+      return null;
+    }
+    const parsed = localWebhookEventSchema.safeParse(payload);
+    return parsed.success ? parsed.data : null;
+  },
+};
+
+// the simulated checkout's webhook sender: delivers the outcome to our own webhook endpoint
+export async function sendLocalPaymentWebhook(params: {
+  type: PaymentWebhookEvent["type"];
+  providerOrderId: string;
+  amount: number;
+}): Promise<void> {
+  const event: PaymentWebhookEvent = {
+    id: `evt_${crypto.randomBytes(12).toString("hex")}`,
+    type: params.type,
+    providerOrderId: params.providerOrderId,
+    amount: params.amount,
+  };
+  const rawBody = Buffer.from(JSON.stringify(event), "utf8");
+
+  const response = await fetch(`${getPublicApiUrl()}/api/payments/webhooks/local`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      [localPaymentSignatureHeader]: signWebhookPayload(getWebhookSecret(), rawBody),
+    },
+    body: rawBody,
+  });
+
+  if (!response.ok) {
+    throw new Error(`local payment webhook failed with status ${response.status}`);
+  }
+}
@@ -0,0 +1,100 @@
+import "../test/env";
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { ObjectId } from "mongodb";
+import { collections } from "../db/collections";
+import { type MemoryDb, useMemoryDb } from "../test/memoryDb";
+import { handlePaymentWebhook } from "./orders";
+import type { PaymentWebhookEvent } from "./provider";
+
+describe("handlePaymentWebhook", () => {
+  let db: MemoryDb;
+  const orderId = new ObjectId();
+  const failedEvent: PaymentWebhookEvent = {
+    id: "evt_failed_1",
+    type: "payment.failed",
+    providerOrderId: "local_order_1",
+    amount: 250,
+  };
+
+  beforeEach(async () => {
+    db = await useMemoryDb();
+    const now = new Date();
+    await db.collection(collections.paymentOrders).insertOne({
+      _id: orderId,
+      provider: "local",
+      providerOrderId: "local_order_1",
+      checkoutUrl: "http://localhost:4000/api/payments/local/checkout/local_order_1",
+      participationId: new ObjectId(),
+      paymentId: new ObjectId(),
+      eventId: new ObjectId(),
+      userId: new ObjectId(),
+      amount: 250,
+      description: "Registration",
+      status: "open",
+      expiresAt: new Date(now.getTime() + 60 * 60 * 1000),
+      createdAt: now,
+      updatedAt: now,
+    });
+  });
+
+  async function readOrderStatus() {
+    return (await db.collection(collections.paymentOrders).findOne({ _id: orderId }))?.status;
+  }
+
+  it("applies an event once and acknowledges redeliveries with the first outcome", async () => {
+    const first = await handlePaymentWebhook({ provider: "local", event: failedEvent });
+    const again = await handlePaymentWebhook({ provider: "local", event: failedEvent });
+
+    assert.deepEqual(first, { duplicate: false, outcome: "failed" });
+    assert.deepEqual(again, { duplicate: true, outcome: "failed" });
+    assert.equal(await readOrderStatus(), "failed");
+    assert.equal(await db.collection(collections.paymentWebhookEvents).countDocuments(), 1);
+  });
+
+  it("retries an event whose earlier delivery never finished processing", async () => {
+    await db.collection(collections.paymentWebhookEvents).insertOne({
+      _id: new ObjectId(),
+      provider: "local",
+      eventId: failedEvent.id,
+      type: failedEvent.type,
+      providerOrderId: failedEvent.providerOrderId,
+      receivedAt: new Date(),
+    });
+
+    const result = await handlePaymentWebhook({ provider: "local", event: failedEvent });
+
+    assert.deepEqual(result, { duplicate: false, outcome: "failed" });
+    assert.equal(await readOrderStatus(), "failed");
+  });
+
+  it("ignores a different event for an order that already moved on", async () => {
+    await handlePaymentWebhook({ provider: "local", event: failedEvent });
+
+    const result = await handlePaymentWebhook({
+      provider: "local",
+      event: { ...failedEvent, id: "evt_failed_2" },
+    });
+
+    assert.deepEqual(result, { duplicate: false, outcome: "ignored" });
+  });
+
+  it("leaves the order alone when the amount does not match", async () => {
+    const result = await handlePaymentWebhook({
+      provider: "local",
+      event: { ...failedEvent, amount: 1 },
+    });
+
+    assert.deepEqual(result, { duplicate: false, outcome: "amount_mismatch" });
+    assert.equal(await readOrderStatus(), "open");
+  });
+
+  it("records events for orders it does not know", async () => {
+    const result = await handlePaymentWebhook({
+      provider: "local",
+      event: { ...failedEvent, id: "evt_unknown", providerOrderId: "local_missing" },
+    });
+
+    assert.deepEqual(result, { duplicate: false, outcome: "unknown_order" });
+  });
+});
@@ -0,0 +1,289 @@
+// online payments: an order opens a provider checkout for a pending payment, and the provider's
+// webhook settles it, confirming the registration or merch order without a manual review
+import { ObjectId } from "mongodb";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+import { approveMerchOrder } from "../utils/merchOrders";
+import { approveRegistrationPayment } from "../utils/paymentHolds";
+import type { PaymentProvider, PaymentProviderName, PaymentWebhookEvent } from "./provider";
+
+// superseded: the participant opened a newer checkout for the same payment
+export const paymentOrderStatuses = ["open", "paid", "failed", "superseded"] as const;
+export type PaymentOrderStatus = (typeof paymentOrderStatuses)[number];
+
+export type StoredPaymentOrderDoc = {
+  _id: ObjectId;
+  provider: PaymentProviderName;
+  providerOrderId: string;
+  checkoutUrl: string;
+  participationId: ObjectId;
+  paymentId: ObjectId;
+  eventId: ObjectId;
+  userId: ObjectId;
+  amount: number;
+  description: string;
+  status: PaymentOrderStatus;
+  // the checkout closes with the seat hold of its participation
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  paidAt?: Date;
+  failedAt?: Date;
+  // a paid order either confirmed its participation or records why it could not
+  settledAt?: Date;
+  settlementError?: string;
+};
+
+type StoredPaymentWebhookEventDoc = {
+  _id: ObjectId;
+  provider: PaymentProviderName;
+  eventId: string;
+  type: PaymentWebhookEvent["type"];
+  providerOrderId: string;
+  receivedAt: Date;
+  processedAt?: Date;
+  outcome?: string;
+};
+
+type OrderEventDoc = {
+  _id: ObjectId;
+  name: string;
+  type: "NORMAL" | "MERCH";
+  merchConfig?:
+    | {
+        variants: { sku: string; stock: number }[];
+      }
+    | undefined;
+};
+
+type OrderParticipationDoc = {
+  _id: ObjectId;
+  eventId: ObjectId;
+  userId: ObjectId;
+  status: "pending" | "confirmed" | "waitlisted" | "cancelled" | "rejected";
+  paymentHoldExpiresAt?: Date;
+};
+
+type OrderPaymentDoc = {
+  _id: ObjectId;
+  registrationId: ObjectId;
+  method: string;
+  amount: number;
+  status: "pending" | "approved" | "rejected";
+};
+
+function getPaymentOrdersCollection() {
+  return getDb().collection<StoredPaymentOrderDoc>(collections.paymentOrders);
+}
+
+// opens a checkout for a participation holding its seat on a pending online payment; null when
+// there is no such payment. Earlier open checkouts for it are superseded
+export async function openPaymentCheckout(params: {
+  provider: PaymentProvider;
+  event: Pick<OrderEventDoc, "_id" | "name">;
+  participationId: ObjectId;
+  now?: Date;
+}): Promise<StoredPaymentOrderDoc | null> {
+  const db = getDb();
+  const orders = getPaymentOrdersCollection();
+  const now = params.now ?? new Date();
+
+  const participation = await db
+    .collection<OrderParticipationDoc>(collections.registrations)
+    .findOne({
+      _id: params.participationId,
+      eventId: params.event._id,
+      status: "pending",
+      paymentHoldExpiresAt: { $gt: now },
+    });
+  if (!participation?.paymentHoldExpiresAt) return null;
+
+  const payment = await db
+    .collection<OrderPaymentDoc>(collections.payments)
+    .findOne({ registrationId: participation._id, status: "pending", method: "online" });
+  if (!payment) return null;
+
+  const orderId = new ObjectId();
+  const description = params.event.name;
+  const expiresAt = participation.paymentHoldExpiresAt;
+
+  await orders.updateMany(
+    { participationId: participation._id, status: "open" },
+    { $set: { status: "superseded", updatedAt: now } },
+  );
+
+  const checkout = await params.provider.createCheckout({
+    orderId: orderId.toString(),
+    amount: payment.amount,
+    description,
+    expiresAt,
+  });
+
+  const order: StoredPaymentOrderDoc = {
+    _id: orderId,
+    provider: params.provider.name,
+    providerOrderId: checkout.providerOrderId,
+    checkoutUrl: checkout.checkoutUrl,
+    participationId: participation._id,
+    paymentId: payment._id,
+    eventId: participation.eventId,
+    userId: participation.userId,
+    amount: payment.amount,
+    description,
+    status: "open",
+    expiresAt,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await orders.insertOne(order);
+  return order;
+}
+
+// a failed checkout leaves the seat held; the participant can start another from the event page
+export async function openPaymentCheckoutSafe(
+  params: Parameters<typeof openPaymentCheckout>[0],
+): Promise<StoredPaymentOrderDoc | null> {
+  try {
+    return await openPaymentCheckout(params);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "unknown error";
+    console.warn(`payment checkout failed: ${message}`);
+    return null;
+  }
+}
+
+// confirms the participation a paid order was for; the error is kept on the order for organizers
+async function settlePaidOrder(order: StoredPaymentOrderDoc, now: Date): Promise<string | null> {
+  const event = await getDb()
+    .collection<OrderEventDoc>(collections.events)
+    .findOne({ _id: order.eventId });
+
+  let settlementError: string | null = null;
+  if (!event) {
+    settlementError = "Event not found";
+  } else if (event.type === "MERCH") {
+    const approval = await approveMerchOrder({ event, participationId: order.participationId, now });
+    if ("error" in approval) settlementError = approval.error;
+  } else {
+    const ticket = await approveRegistrationPayment({
+      event,
+      participationId: order.participationId,
+      now,
+    });
+    if (!ticket) settlementError = "Registration is no longer awaiting payment";
+  }
+
+  await getPaymentOrdersCollection().updateOne(
+    { _id: order._id },
+    settlementError
+      ? { $set: { settlementError, updatedAt: now } }
+      : { $set: { settledAt: now, updatedAt: now } },
+  );
+  if (settlementError) {
+    console.warn(`payment order ${order._id.toString()} paid but not settled: ${settlementError}`);
+  }
+  return settlementError;
+}
+
+async function applyWebhookEvent(
+  provider: PaymentProviderName,
+  event: PaymentWebhookEvent,
+  now: Date,
+): Promise<string> {
+  const orders = getPaymentOrdersCollection();
+  const order = await orders.findOne({ provider, providerOrderId: event.providerOrderId });
+  if (!order) return "unknown_order";
+  if (event.amount !== order.amount) {
+    console.warn(
+      `payment webhook ${event.id} reports ${event.amount} for order ${order._id.toString()} of ${order.amount}`,
+    );
+    return "amount_mismatch";
+  }
+
+  if (event.type === "payment.failed") {
+    const failed = await orders.updateOne(
+      { _id: order._id, status: "open" },
+      { $set: { status: "failed", failedAt: now, updatedAt: now } },
+    );
+    return failed.modifiedCount === 1 ? "failed" : "ignored";
+  }
+
+  // money moved, so a superseded checkout that still got paid settles too
+  const paid = await orders.findOneAndUpdate(
+    { _id: order._id, status: { $in: ["open", "superseded"] } },
+    { $set: { status: "paid", paidAt: now, updatedAt: now } },
+    { returnDocument: "after" },
+  );
+  // a redelivery after a crash between marking the order paid and settling it
+  const toSettle =
+    paid ??
+    (order.status === "paid" && !order.settledAt && !order.settlementError ? order : null);
+  if (!toSettle) return "ignored";
+
+  return (await settlePaidOrder(toSettle, now)) ? "paid_unsettled" : "settled";
+}
+
+// applies a verified webhook once; repeated deliveries of the same event are acknowledged and skipped
+export async function handlePaymentWebhook(params: {
+  provider: PaymentProviderName;
+  event: PaymentWebhookEvent;
+  now?: Date;
+}): Promise<{ duplicate: boolean; outcome: string }> {
+  const webhookEvents = getDb().collection<StoredPaymentWebhookEventDoc>(
+    collections.paymentWebhookEvents,
+  );
+  const now = params.now ?? new Date();
+
+  try {
+    await webhookEvents.insertOne({
+      _id: new ObjectId(),
+      provider: params.provider,
+      eventId: params.event.id,
+      type: params.event.type,
+      providerOrderId: params.event.providerOrderId,
+      receivedAt: now,
+    });
+  } catch (err) {
+    if ((err as { code?: number }).code !== 11000) throw err;
+    const existing = await webhookEvents.findOne({
+      provider: params.provider,
+      eventId: params.event.id,
+    });
+    // an unfinished earlier attempt is retried; the order transitions are conditional anyway
+    if (existing?.processedAt) {
+      return { duplicate: true, outcome: existing.outcome ?? "ignored" };
+    }
+  }
+
+  const outcome = await applyWebhookEvent(params.provider, params.event, now);
+  await webhookEvents.updateOne(
+    { provider: params.provider, eventId: params.event.id },
+    { $set: { processedAt: new Date(), outcome } },
+  );
+  return { duplicate: false, outcome };
+}
+
+// a paid order is what lets an organizer resolve an online payment by hand
+export async function hasPaidPaymentOrder(paymentId: ObjectId): Promise<boolean> {
+  const order = await getPaymentOrdersCollection().findOne(
+    { paymentId, status: "paid" },
+    { projection: { _id: 1 } },
+  );
+  return order !== null;
+}
+
+export function toPaymentOrderResponse(order: StoredPaymentOrderDoc) {
+  return {
+    id: order._id.toString(),
+    provider: order.provider,
+    participationId: order.participationId.toString(),
+    amount: order.amount,
+    status: order.status,
+    checkoutUrl: order.checkoutUrl,
+    expiresAt: order.expiresAt,
+    createdAt: order.createdAt,
+    paidAt: order.paidAt ?? null,
+    settledAt: order.settledAt ?? null,
+    settlementError: order.settlementError ?? null,
+  };
+}
@@ -0,0 +1,84 @@
+import "../test/env";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { env } from "../config/env";
+import { localPaymentProvider, localPaymentSignatureHeader } from "./localProvider";
+import { signWebhookPayload, verifyWebhookSignature } from "./provider";
+
+const secret = "whsec_test_secret";
+const rawBody = Buffer.from(JSON.stringify({ id: "evt_1", type: "payment.succeeded" }), "utf8");
+const signedAt = new Date("2026-03-01T10:00:00Z");
+
+describe("verifyWebhookSignature", () => {
+  it("accepts a payload signed with the same secret", () => {
+    const header = signWebhookPayload(secret, rawBody, signedAt);
+
+    assert.match(header, /^t=\d+,v1=[0-9a-f]{64}$/);
+    assert.equal(verifyWebhookSignature({ secret, rawBody, header, now: signedAt }), true);
+  });
+
+  it("rejects a changed body or a different secret", () => {
+    const header = signWebhookPayload(secret, rawBody, signedAt);
+    const tampered = Buffer.from(rawBody.toString("utf8").replace("evt_1", "evt_2"), "utf8");
+
+    assert.equal(
+      verifyWebhookSignature({ secret, rawBody: tampered, header, now: signedAt }),
+      false,
+    );
+    assert.equal(
+      verifyWebhookSignature({ secret: "other", rawBody, header, now: signedAt }),
+      false,
+    );
+  });
+
+  it("rejects a signature moved to another timestamp", () => {
+    const header = signWebhookPayload(secret, rawBody, signedAt);
+    const shifted = header.replace(/^t=(\d+)/, (_, seconds: string) => `t=${Number(seconds) + 1}`);
+
+    assert.equal(
+      verifyWebhookSignature({ secret, rawBody, header: shifted, now: signedAt }),
+      false,
+    );
+  });
+
+  it("refuses deliveries outside the five minute tolerance", () => {
+    const header = signWebhookPayload(secret, rawBody, signedAt);
+    const at = (offsetSeconds: number) => new Date(signedAt.getTime() + offsetSeconds * 1000);
+
+    assert.equal(verifyWebhookSignature({ secret, rawBody, header, now: at(299) }), true);
+    assert.equal(verifyWebhookSignature({ secret, rawBody, header, now: at(301) }), false);
+    assert.equal(verifyWebhookSignature({ secret, rawBody, header, now: at(-301) }), false);
+  });
+
+  it("rejects missing, repeated and malformed headers", () => {
+    const header = signWebhookPayload(secret, rawBody, signedAt);
+    const check = (value: string | string[] | undefined) =>
+      verifyWebhookSignature({ secret, rawBody, header: value, now: signedAt });
+
+    assert.equal(check(undefined), false);
+    assert.equal(check([header, header]), false);
+    assert.equal(check(""), false);
+    assert.equal(check(header.replace(/v1=[0-9a-f]+/, "v1=abc")), false);
+    assert.equal(check(header.replace(/^t=\d+/, "t=soon")), false);
+  });
+});
+
+describe("localPaymentProvider.parseWebhook", () => {
+  const event = { id: "evt_1", type: "payment.succeeded", providerOrderId: "local_1", amount: 250 };
+  const body = Buffer.from(JSON.stringify(event), "utf8");
+  const webhookSecret = env.PAYMENT_WEBHOOK_SECRET ?? "";
+
+  it("returns the event for a correctly signed delivery", () => {
+    const headers = { [localPaymentSignatureHeader]: signWebhookPayload(webhookSecret, body) };
+
+    assert.deepEqual(localPaymentProvider.parseWebhook(body, headers), event);
+  });
+
+  it("returns null for unsigned deliveries and unknown event types", () => {
+    assert.equal(localPaymentProvider.parseWebhook(body, {}), null);
+
+    const unknown = Buffer.from(JSON.stringify({ ...event, type: "payment.disputed" }), "utf8");
+    const headers = { [localPaymentSignatureHeader]: signWebhookPayload(webhookSecret, unknown) };
+    assert.equal(localPaymentProvider.parseWebhook(unknown, headers), null);
+  });
+});
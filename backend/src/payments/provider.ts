@@ -0,0 +1,79 @@
+// what a payment provider has to offer: a hosted checkout for an order, and signed webhooks
+// telling us how the checkout ended
+import crypto from "node:crypto";
+import type { IncomingHttpHeaders } from "node:http";
+
+export const paymentProviderNames = ["local"] as const;
+export type PaymentProviderName = (typeof paymentProviderNames)[number];
+
+export type PaymentCheckoutRequest = {
+  orderId: string;
+  amount: number;
+  description: string;
+  expiresAt: Date;
+};
+
+export type PaymentCheckout = {
+  providerOrderId: string;
+  checkoutUrl: string;
+};
+
+export const paymentWebhookEventTypes = ["payment.succeeded", "payment.failed"] as const;
+export type PaymentWebhookEventType = (typeof paymentWebhookEventTypes)[number];
+
+export type PaymentWebhookEvent = {
+  // unique per delivery attempt of one event; redeliveries reuse it
+  id: string;
+  type: PaymentWebhookEventType;
+  providerOrderId: string;
+  amount: number;
+};
+
+export type PaymentProvider = {
+  name: PaymentProviderName;
+  createCheckout(request: PaymentCheckoutRequest): Promise<PaymentCheckout>;
+  // null when the signature does not verify or the payload is not an event we understand
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentWebhookEvent | null;
+};
+
+// signed webhooks older than this are refused, so a captured delivery cannot be replayed later
+const webhookToleranceSeconds = 5 * 60;
+
+function computeSignature(secret: string, timestamp: number, rawBody: Buffer): string {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.`)
+    .update(rawBody)
+    .digest("hex");
+}
+
+// header value in the "t=<unix seconds>,v1=<hex hmac>" form
+export function signWebhookPayload(secret: string, rawBody: Buffer, now = new Date()): string {
+  const timestamp = Math.floor(now.getTime() / 1000);
+  return `t=${timestamp},v1=${computeSignature(secret, timestamp, rawBody)}`;
+}
+
+export function verifyWebhookSignature(params: {
+  secret: string;
+  rawBody: Buffer;
+  header: string | string[] | undefined;
+  now?: Date;
+}): boolean {
+  if (typeof params.header !== "string") return false;
+
+  const parts = new Map(
+    params.header.split(",").map((part) => {
+      const [key = "", ...rest] = part.trim().split("=");
+      return [key, rest.join("=")] as const;
+    }),
+  );
+  const timestamp = Number(parts.get("t"));
+  const signature = parts.get("v1") ?? "";
+  if (!Number.isInteger(timestamp) || !/^[0-9a-f]{64}$/.test(signature)) return false;
+
+  const nowSeconds = Math.floor((params.now ?? new Date()).getTime() / 1000);
+  if (Math.abs(nowSeconds - timestamp) > webhookToleranceSeconds) return false;
+
+  const expected = Buffer.from(computeSignature(params.secret, timestamp, params.rawBody), "hex");
+  return crypto.timingSafeEqual(expected, Buffer.from(signature, "hex"));
+}
@@ -0,0 +1,17 @@
+// the provider PAYMENT_PROVIDER selects; null keeps online payments switched off
+import { env } from "../config/env";
+import { localPaymentProvider } from "./localProvider";
+import type { PaymentProvider, PaymentProviderName } from "./provider";
+
+const paymentProviders: Record<PaymentProviderName, PaymentProvider> = {
+  local: localPaymentProvider,
+};
+
+export function getActivePaymentProvider(): PaymentProvider | null {
+  if (env.PAYMENT_PROVIDER === "none") return null;
+  return paymentProviders[env.PAYMENT_PROVIDER];
+}
+
+export function isOnlinePaymentEnabled(): boolean {
+  return getActivePaymentProvider() !== null;
+}
@@ -0,0 +1,219 @@
+// socket.io server for live updates (currently the per-event discussion forum)
+// writes go through REST routes; this module only authenticates sockets, manages rooms and fans out events
+import type { Server as HttpServer } from "node:http";
+import { ObjectId } from "mongodb";
+import { Server } from "socket.io";
+import { AUTH_COOKIE_NAME } from "../config/cookies";
+import { env } from "../config/env";
+import type { UserRole } from "../db/models";
+import { resolveAuthToken, resolveSessionUser } from "../middleware/auth";
+import { loadDiscussionAccess, onDiscussionAccessChanged } from "../utils/discussion";
+import { onSessionsRevoked } from "../utils/sessions";
+
+export const REALTIME_PATH = "/api/realtime";
+
+type JoinAck = (result: { ok: boolean; message?: string }) => void;
+
+type ClientToServerEvents = {
+  "discussion:join": (payload: { eventId?: unknown }, ack?: JoinAck) => void;
+  "discussion:leave": (payload: { eventId?: unknown }) => void;
+};
+
+type ServerToClientEvents = {
+  "discussion:message": (payload: unknown) => void;
+  "discussion:message-updated": (payload: unknown) => void;
+  "discussion:message-deleted": (payload: unknown) => void;
+  "discussion:mute-updated": (payload: unknown) => void;
+};
+
+export type DiscussionRealtimeEventName = keyof ServerToClientEvents;
+
+type SocketData = {
+  user: { id: string; role: UserRole; sessionId: string };
+};
+
+let io: Server<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData> | null =
+  null;
+
+function discussionRoom(eventId: string): string {
+  return `discussion:${eventId}`;
+}
+
+// every socket of a user, so access changes can reach all of their tabs and devices
+function userRoom(userId: string): string {
+  return `user:${userId}`;
+}
+
+// minimal cookie header lookup; the handshake does not go through cookie-parser
+function readCookie(header: string | undefined, name: string): string | undefined {
+  if (!header) return undefined;
+
+  for (const part of header.split(";")) {
+    const separatorIndex = part.indexOf("=");
+    if (separatorIndex === -1) continue;
+    if (part.slice(0, separatorIndex).trim() !== name) continue;
+
+    try {
+      return decodeURIComponent(part.slice(separatorIndex + 1).trim());
+    } catch {
+      return undefined;
+    }
+  }
+
+  return undefined;
+}
+
+export function attachRealtimeServer(httpServer: HttpServer): void {
+  const server = new Server<
+    ClientToServerEvents,
+    ServerToClientEvents,
+    Record<string, never>,
+    SocketData
+  >(httpServer, {
+    path: REALTIME_PATH,
+    cors: { origin: env.CLIENT_ORIGIN, credentials: true },
+  });
+
+  // same cookie + disabled-organizer checks as requireAuth
+  server.use(async (socket, next) => {
+    try {
+      const resolution = await resolveAuthToken(
+        readCookie(socket.handshake.headers.cookie, AUTH_COOKIE_NAME),
+      );
+      if (!resolution.ok) {
+        next(new Error(resolution.message));
+        return;
+      }
+
+      socket.data.user = resolution.user;
+      next();
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Realtime authentication failed"));
+    }
+  });
+
+  server.on("connection", (socket) => {
+    void socket.join(userRoom(socket.data.user.id));
+
+    // the handshake check goes stale: sessions get revoked and accounts disabled while connected
+    socket.use((_packet, next) => {
+      resolveSessionUser(socket.data.user).then(
+        (resolution) => {
+          if (resolution.ok) {
+            next();
+            return;
+          }
+          next(new Error(resolution.message));
+          socket.disconnect(true);
+        },
+        (err: unknown) => {
+          next(err instanceof Error ? err : new Error("Realtime authentication failed"));
+        },
+      );
+    });
+
+    socket.on("discussion:join", async (payload, ack) => {
+      try {
+        const rawEventId = payload?.eventId;
+        if (typeof rawEventId !== "string" || !ObjectId.isValid(rawEventId)) {
+          ack?.({ ok: false, message: "Invalid event id" });
+          return;
+        }
+
+        const access = await loadDiscussionAccess({
+          eventId: new ObjectId(rawEventId),
+          userId: new ObjectId(socket.data.user.id),
+          role: socket.data.user.role,
+        });
+        if (!access) {
+          ack?.({ ok: false, message: "Forbidden" });
+          return;
+        }
+
+        await socket.join(discussionRoom(rawEventId));
+        ack?.({ ok: true });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "unknown error";
+        console.warn(`discussion join failed: ${message}`);
+        ack?.({ ok: false, message: "Failed to join discussion" });
+      }
+    });
+
+    socket.on("discussion:leave", async (payload) => {
+      const rawEventId = payload?.eventId;
+      if (typeof rawEventId !== "string") return;
+      await socket.leave(discussionRoom(rawEventId));
+    });
+  });
+
+  onSessionsRevoked((userIds) => {
+    void revalidateUserSocketsSafe(userIds.map((userId) => userId.toString()));
+  });
+  onDiscussionAccessChanged((params) => {
+    void syncDiscussionAccessSafe(params);
+  });
+
+  io = server;
+}
+
+// disconnects the user's sockets whose session was revoked or whose account was disabled
+export async function revalidateUserSockets(userIds: string[]): Promise<void> {
+  if (!io) return;
+
+  for (const userId of userIds) {
+    const sockets = await io.in(userRoom(userId)).fetchSockets();
+    for (const socket of sockets) {
+      const resolution = await resolveSessionUser(socket.data.user);
+      if (!resolution.ok) socket.disconnect(true);
+    }
+  }
+}
+
+export async function revalidateUserSocketsSafe(userIds: string[]): Promise<void> {
+  try {
+    await revalidateUserSockets(userIds);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "unknown error";
+    console.warn(`realtime socket revalidation failed: ${message}`);
+  }
+}
+
+// takes the user's sockets out of an event's discussion once their participation no longer grants access
+export async function syncDiscussionAccess(params: {
+  eventId: ObjectId;
+  userId: ObjectId;
+}): Promise<void> {
+  if (!io) return;
+
+  const room = discussionRoom(params.eventId.toString());
+  const sockets = await io.in(userRoom(params.userId.toString())).fetchSockets();
+  const joined = sockets.find((socket) => socket.rooms.has(room));
+  if (!joined) return;
+
+  const access = await loadDiscussionAccess({
+    eventId: params.eventId,
+    userId: params.userId,
+    role: joined.data.user.role,
+  });
+  if (!access) io.in(userRoom(params.userId.toString())).socketsLeave(room);
+}
+
+export async function syncDiscussionAccessSafe(params: {
+  eventId: ObjectId;
+  userId: ObjectId;
+}): Promise<void> {
+  try {
+    await syncDiscussionAccess(params);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "unknown error";
+    console.warn(`discussion access sync failed: ${message}`);
+  }
+}
+
+export function emitDiscussionEvent(
+  eventId: ObjectId,
+  name: DiscussionRealtimeEventName,
+  payload: unknown,
+): void {
+  io?.to(discussionRoom(eventId.toString())).emit(name, payload);
+}
@@ -2,7 +2,7 @@ import { randomBytes } from "node:crypto";
 import fs from "node:fs/promises";
 import path from "node:path";
 import { Router } from "express";
-import { type Collection, ObjectId } from "mongodb";
+import { type Collection, type Filter, ObjectId } from "mongodb";
 import { z } from "zod";
 import { env } from "../config/env";
 import { getDb } from "../db/client";
@@ -12,7 +12,46 @@ import type {
   OrganizerPasswordResetRequestStatus,
   UserDoc,
 } from "../db/models";
+import {
+  emailOutboxKinds,
+  emailOutboxStatuses,
+  requeueOutboxEmails,
+  type StoredOutboxEmailDoc,
+} from "../utils/emailOutbox";
 import { hashPassword } from "../utils/password";
+import {
+  refundRequestStatuses,
+  type StoredRefundRequestDoc,
+  toRefundRequestResponse,
+} from "../utils/refunds";
+import { toCsvString } from "../utils/csv";
+import {
+  clearLoginThrottle,
+  listLoginThrottles,
+  loginThrottleScopes,
+  type StoredLoginThrottleDoc,
+} from "../utils/loginThrottle";
+import {
+  listSecurityAuditLogs,
+  recordSecurityEventSafe,
+  requestActor,
+  securityAuditActions,
+  securityAuditOutcomes,
+  toAuditParty,
+  toSecurityAuditResponse,
+} from "../utils/securityAudit";
+import { revokeUserSessions } from "../utils/sessions";
+import { revalidateUserSocketsSafe } from "../realtime/socket";
+import {
+  disableTwoFactor,
+  getSecuritySettings,
+  updateSecuritySettings,
+} from "../utils/twoFactor";
+import {
+  listTicketSigningKeys,
+  rotateTicketSigningKey,
+  type StoredTicketSigningKeyDoc,
+} from "../utils/ticketSigning";
 
 export const adminRouter = Router();
 
@@ -26,6 +65,58 @@ const resolvePasswordResetRequestSchema = z.object({
   comment: z.string().trim().max(500).optional(),
 });
 
+const securitySettingsSchema = z.object({
+  requireOrganizerTwoFactor: z.boolean(),
+});
+
+const loginLockoutsQuerySchema = z.object({
+  scope: z.enum(loginThrottleScopes).optional(),
+  // "false" also lists keys with recent failures that aren't blocked right now
+  active: z
+    .enum(["true", "false"])
+    .default("true")
+    .transform((value) => value === "true"),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+const emailOutboxQuerySchema = z.object({
+  status: z.enum(emailOutboxStatuses).optional(),
+  kind: z.enum(emailOutboxKinds).optional(),
+  toEmail: z.string().trim().toLowerCase().max(254).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+const refundRequestsQuerySchema = z.object({
+  status: z.enum(refundRequestStatuses).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+const resendDeadEmailsSchema = z.object({
+  kind: z.enum(emailOutboxKinds).optional(),
+});
+
+const auditLogsQuerySchema = z.object({
+  action: z.enum(securityAuditActions).optional(),
+  outcome: z.enum(securityAuditOutcomes).optional(),
+  // matches the actor or the target of an entry
+  userId: z
+    .string()
+    .trim()
+    .refine((value) => ObjectId.isValid(value), "Invalid user id")
+    .transform((value) => new ObjectId(value))
+    .optional(),
+  email: z.string().trim().toLowerCase().min(1).max(254).optional(),
+  ip: z.string().trim().min(1).max(100).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  format: z.enum(["json", "csv"]).default("json"),
+});
+
+// csv exports ignore paging but stop here
+const AUDIT_LOG_CSV_MAX_ROWS = 10000;
+
 type AdminPasswordResetRequestResponse = {
   id: string;
   organizerId: string;
@@ -68,10 +159,37 @@ function toOrganizerResponse(user: UserDoc) {
     role: user.role,
     isDisabled: user.isDisabled === true,
     isArchived: Boolean(user.archivedAt),
+    twoFactorEnabled: user.twoFactor?.enabled === true,
     createdAt: user.createdAt,
   };
 }
 
+function toLoginLockoutResponse(
+  throttle: StoredLoginThrottleDoc,
+  account: UserDoc | undefined,
+  now: Date,
+) {
+  const locked = Boolean(throttle.lockedUntil && throttle.lockedUntil > now);
+  const delayed = Boolean(throttle.nextAttemptAt && throttle.nextAttemptAt > now);
+
+  return {
+    id: throttle._id.toString(),
+    scope: throttle.scope,
+    key: throttle.key,
+    failures: throttle.failures,
+    lockCount: throttle.lockCount,
+    status: locked ? "locked" : delayed ? "delayed" : "idle",
+    lockedUntil: locked ? throttle.lockedUntil : null,
+    nextAttemptAt: delayed ? throttle.nextAttemptAt : null,
+    firstFailureAt: throttle.firstFailureAt,
+    lastFailureAt: throttle.lastFailureAt,
+    lastIp: throttle.lastIp ?? null,
+    account: account
+      ? { id: account._id.toString(), name: account.name, role: account.role }
+      : null,
+  };
+}
+
 function generateOrganizerPassword(): string {
   return `Org#${randomBytes(9).toString("base64url")}`;
 }
@@ -111,6 +229,16 @@ function parsePasswordResetRequestId(rawId: string): ObjectId | null {
   return new ObjectId(rawId);
 }
 
+function parseLoginLockoutId(rawId: string): ObjectId | null {
+  if (!ObjectId.isValid(rawId)) return null;
+  return new ObjectId(rawId);
+}
+
+function parseEmailOutboxId(rawId: string): ObjectId | null {
+  if (!ObjectId.isValid(rawId)) return null;
+  return new ObjectId(rawId);
+}
+
 function collectUploadedFilenames(
   registrations: OrganizerRegistrationDoc[],
 ): string[] {
@@ -183,6 +311,44 @@ function toAdminPasswordResetRequestResponse(params: {
   };
 }
 
+function toTicketSigningKeyResponse(key: StoredTicketSigningKeyDoc) {
+  return {
+    kid: key.kid,
+    algorithm: key.algorithm,
+    status: key.status,
+    publicKeyPem: key.publicKeyPem,
+    createdAt: key.createdAt,
+    retiredAt: key.retiredAt ?? null,
+  };
+}
+
+// the signed qr payload is a ticket credential, so only its presence is exposed;
+// password reset bodies carry a live reset link and are never shown
+function toOutboxEmailResponse(email: StoredOutboxEmailDoc, includeBody = false) {
+  const showBody = includeBody && email.kind !== "password_reset";
+
+  return {
+    id: email._id.toString(),
+    kind: email.kind,
+    toEmail: email.toEmail,
+    subject: email.subject,
+    status: email.status,
+    attempts: email.attempts,
+    resendCount: email.resendCount,
+    nextAttemptAt: email.status === "queued" ? email.nextAttemptAt : null,
+    lastAttemptAt: email.lastAttemptAt ?? null,
+    lastError: email.lastError ?? null,
+    hasTicketQr: Boolean(email.qrPayload),
+    certificateCode: email.certificateCode ?? null,
+    eventId: email.refs.eventId?.toString() ?? null,
+    createdAt: email.createdAt,
+    sentAt: email.sentAt ?? null,
+    deadAt: email.deadAt ?? null,
+    bodyHidden: includeBody && !showBody,
+    ...(showBody ? { text: email.text, html: email.html } : {}),
+  };
+}
+
 adminRouter.post("/organizers", async (req, res, next) => {
   try {
     const parsed = createOrganizerSchema.safeParse(req.body);
@@ -216,6 +382,11 @@ adminRouter.post("/organizers", async (req, res, next) => {
     };
 
     await users.insertOne(organizer);
+    await recordSecurityEventSafe(req, {
+      action: "organizer_created",
+      actor: requestActor(req),
+      target: toAuditParty(organizer),
+    });
 
     return res.status(201).json({
       organizer: toOrganizerResponse(organizer),
@@ -361,6 +532,10 @@ adminRouter.patch("/password-reset-requests/:requestId", async (req, res, next)
         { _id: organizer._id, role: "organizer" },
         { $set: { passwordHash: nextPasswordHash, isDisabled: false } },
       );
+      const revokedSessions = await revokeUserSessions({
+        userId: organizer._id,
+        reason: "password_reset",
+      });
 
       await requests.updateOne(
         { _id: requestId },
@@ -369,6 +544,13 @@ adminRouter.patch("/password-reset-requests/:requestId", async (req, res, next)
           : { $set: baseSetPayload, $unset: { adminComment: "" } },
       );
 
+      await recordSecurityEventSafe(req, {
+        action: "organizer_password_reset_approved",
+        actor: requestActor(req),
+        target: toAuditParty(organizer),
+        details: { requestId: requestId.toString(), revokedSessions },
+      });
+
       const updated = await requests.findOne({ _id: requestId });
       if (!updated) {
         return res.status(404).json({ error: { message: "Request not found" } });
@@ -390,6 +572,12 @@ adminRouter.patch("/password-reset-requests/:requestId", async (req, res, next)
       { _id: requestId },
       cleanedComment ? { $set: baseSetPayload } : { $set: baseSetPayload, $unset: { adminComment: "" } },
     );
+    await recordSecurityEventSafe(req, {
+      action: "organizer_password_reset_rejected",
+      actor: requestActor(req),
+      target: toAuditParty(organizer),
+      details: { requestId: requestId.toString() },
+    });
 
     const updated = await requests.findOne({ _id: requestId });
     if (!updated) {
@@ -418,14 +606,22 @@ adminRouter.patch("/organizers/:organizerId/disable", async (req, res, next) =>
     const users = db.collection<UserDoc>(collections.users);
 
     // disable organizer login without deleting data
-    const result = await users.updateOne(
+    const organizer = await users.findOneAndUpdate(
       { _id: organizerId, role: "organizer" },
       { $set: { isDisabled: true } },
     );
 
-    if (result.matchedCount === 0) {
+    if (!organizer) {
       return res.status(404).json({ error: { message: "Organizer not found" } });
     }
+    // open realtime connections outlive the login check
+    await revalidateUserSocketsSafe([organizerId.toString()]);
+
+    await recordSecurityEventSafe(req, {
+      action: "organizer_disabled",
+      actor: requestActor(req),
+      target: toAuditParty(organizer),
+    });
 
     return res.json({ ok: true });
   } catch (err) {
@@ -458,6 +654,11 @@ adminRouter.patch("/organizers/:organizerId/enable", async (req, res, next) => {
       { _id: organizerId, role: "organizer" },
       { $set: { isDisabled: false } },
     );
+    await recordSecurityEventSafe(req, {
+      action: "organizer_enabled",
+      actor: requestActor(req),
+      target: toAuditParty(organizer),
+    });
 
     return res.json({ ok: true });
   } catch (err) {
@@ -493,6 +694,11 @@ adminRouter.patch("/organizers/:organizerId/archive", async (req, res, next) =>
       { _id: organizerId, role: "organizer" },
       { $set: { isDisabled: true, archivedAt } },
     );
+    await recordSecurityEventSafe(req, {
+      action: "organizer_archived",
+      actor: requestActor(req),
+      target: toAuditParty(organizer),
+    });
 
     return res.json({ ok: true });
   } catch (err) {
@@ -525,6 +731,10 @@ adminRouter.delete("/organizers/:organizerId", async (req, res, next) => {
     const attendanceAuditLogs = db.collection(collections.attendanceAuditLogs);
     const resetRequests = db.collection(collections.organizerPasswordResetRequests);
     const announcements = db.collection(collections.announcements);
+    const teamMembers = db.collection(collections.organizerTeamMembers);
+    const scannerTokens = db.collection(collections.scannerTokens);
+    const refundRequests = db.collection(collections.refundRequests);
+    const paymentOrders = db.collection(collections.paymentOrders);
 
     const organizerEvents = await events
       .find({ organizerId }, { projection: { _id: 1, organizerId: 1 } })
@@ -563,6 +773,10 @@ adminRouter.delete("/organizers/:organizerId", async (req, res, next) => {
     if (registrationIds.length > 0) {
       await payments.deleteMany({ registrationId: { $in: registrationIds } });
     }
+    if (organizerEventIds.length > 0) {
+      await refundRequests.deleteMany({ eventId: { $in: organizerEventIds } });
+      await paymentOrders.deleteMany({ eventId: { $in: organizerEventIds } });
+    }
 
     const ticketDeleteFilters: Record<string, unknown>[] = [];
     if (organizerEventIds.length > 0) {
@@ -619,11 +833,24 @@ adminRouter.delete("/organizers/:organizerId", async (req, res, next) => {
     }
 
     await resetRequests.deleteMany({ organizerId });
+    await teamMembers.deleteMany({ organizerId });
+    await scannerTokens.deleteMany({ organizerId });
     await users.updateMany(
       { role: "participant", followedOrganizerIds: organizerId },
       { $pull: { followedOrganizerIds: organizerId } },
     );
     await users.deleteOne({ _id: organizerId, role: "organizer" });
+    await revalidateUserSocketsSafe([organizerId.toString()]);
+    // the security audit trail is kept; the entry carries the organizer's email for later lookups
+    await recordSecurityEventSafe(req, {
+      action: "organizer_deleted",
+      actor: requestActor(req),
+      target: toAuditParty(organizer),
+      details: {
+        events: organizerEventIds.length,
+        participations: registrationIds.length,
+      },
+    });
 
     await cleanupUploadedFiles(uploadedFilenames);
 
@@ -639,3 +866,403 @@ adminRouter.delete("/organizers/:organizerId", async (req, res, next) => {
     return next(err);
   }
 });
+
+// lost authenticator and recovery codes: clear the organizer's 2FA so they can enrol again
+adminRouter.post("/organizers/:organizerId/2fa/reset", async (req, res, next) => {
+  try {
+    const organizerId = parseOrganizerId(req.params.organizerId);
+    if (!organizerId) {
+      return res.status(400).json({ error: { message: "Invalid organizer id" } });
+    }
+
+    const users = getDb().collection<UserDoc>(collections.users);
+    const organizer = await users.findOne({ _id: organizerId, role: "organizer" });
+    if (!organizer) {
+      return res.status(404).json({ error: { message: "Organizer not found" } });
+    }
+
+    await disableTwoFactor(organizer._id);
+    await revokeUserSessions({ userId: organizer._id, reason: "two_factor_reset" });
+    await recordSecurityEventSafe(req, {
+      action: "organizer_two_factor_reset",
+      actor: requestActor(req),
+      target: toAuditParty(organizer),
+    });
+
+    return res.json({ ok: true });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+adminRouter.get("/security-settings", async (_req, res, next) => {
+  try {
+    const settings = await getSecuritySettings();
+    return res.json({
+      settings: { requireOrganizerTwoFactor: settings.requireOrganizerTwoFactor },
+    });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// requiring organizer 2FA signs out organizers who haven't enrolled, so they hit the setup step on next login
+adminRouter.patch("/security-settings", async (req, res, next) => {
+  try {
+    const parsed = securitySettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: { message: "Invalid request", details: parsed.error.flatten() },
+      });
+    }
+
+    const settings = await updateSecuritySettings({
+      requireOrganizerTwoFactor: parsed.data.requireOrganizerTwoFactor,
+      ...(req.user ? { adminId: new ObjectId(req.user.id) } : {}),
+    });
+
+    let signedOutOrganizers = 0;
+    if (settings.requireOrganizerTwoFactor) {
+      const users = getDb().collection<UserDoc>(collections.users);
+      const unenrolled = await users
+        .find(
+          { role: "organizer", "twoFactor.enabled": { $ne: true } },
+          { projection: { _id: 1 } },
+        )
+        .toArray();
+
+      for (const organizer of unenrolled) {
+        const revoked = await revokeUserSessions({
+          userId: organizer._id,
+          reason: "two_factor_required",
+        });
+        if (revoked > 0) signedOutOrganizers += 1;
+      }
+    }
+
+    await recordSecurityEventSafe(req, {
+      action: "security_settings_updated",
+      actor: requestActor(req),
+      details: {
+        requireOrganizerTwoFactor: settings.requireOrganizerTwoFactor,
+        signedOutOrganizers,
+      },
+    });
+
+    return res.json({
+      settings: { requireOrganizerTwoFactor: settings.requireOrganizerTwoFactor },
+      signedOutOrganizers,
+    });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// accounts and client addresses currently locked out (or slowed down) after failed sign-ins
+adminRouter.get("/login-lockouts", async (req, res, next) => {
+  try {
+    const parsed = loginLockoutsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: { message: "Invalid query", details: parsed.error.flatten() },
+      });
+    }
+
+    const throttles = await listLoginThrottles({
+      scope: parsed.data.scope,
+      activeOnly: parsed.data.active,
+      limit: parsed.data.limit,
+    });
+
+    const accountEmails = throttles
+      .filter((throttle) => throttle.scope === "account")
+      .map((throttle) => throttle.key);
+    const accounts =
+      accountEmails.length > 0
+        ? await getDb()
+            .collection<UserDoc>(collections.users)
+            .find({ email: { $in: accountEmails } })
+            .toArray()
+        : [];
+    const accountsByEmail = new Map(accounts.map((account) => [account.email, account]));
+
+    const now = new Date();
+    return res.json({
+      lockouts: throttles.map((throttle) =>
+        toLoginLockoutResponse(
+          throttle,
+          throttle.scope === "account" ? accountsByEmail.get(throttle.key) : undefined,
+          now,
+        ),
+      ),
+    });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// lift a lockout early and forget its failure history
+adminRouter.delete("/login-lockouts/:lockoutId", async (req, res, next) => {
+  try {
+    const lockoutId = parseLoginLockoutId(req.params.lockoutId);
+    if (!lockoutId) {
+      return res.status(400).json({ error: { message: "Invalid lockout id" } });
+    }
+
+    const cleared = await clearLoginThrottle(lockoutId);
+    if (!cleared) {
+      return res.status(404).json({ error: { message: "Lockout not found" } });
+    }
+
+    await recordSecurityEventSafe(req, {
+      action: "login_lockout_cleared",
+      actor: requestActor(req),
+      ...(cleared.scope === "account" ? { target: { email: cleared.key } } : {}),
+      details: { scope: cleared.scope, key: cleared.key, failures: cleared.failures },
+    });
+
+    return res.json({ ok: true });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// security audit trail, newest first; format=csv exports every matching entry (up to the cap)
+adminRouter.get("/audit-logs", async (req, res, next) => {
+  try {
+    const parsed = auditLogsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: { message: "Invalid query", details: parsed.error.flatten() },
+      });
+    }
+
+    const { page, limit, format, ...query } = parsed.data;
+
+    if (format === "csv") {
+      const { logs } = await listSecurityAuditLogs(query, {
+        skip: 0,
+        limit: AUDIT_LOG_CSV_MAX_ROWS,
+      });
+      const rows = logs.map(toSecurityAuditResponse);
+      const csv = toCsvString(rows, [
+        { header: "Time", value: (row) => row.createdAt },
+        { header: "Action", value: (row) => row.action },
+        { header: "Outcome", value: (row) => row.outcome },
+        { header: "Actor Email", value: (row) => row.actor?.email },
+        { header: "Actor Role", value: (row) => row.actor?.role },
+        { header: "Actor ID", value: (row) => row.actor?.id },
+        { header: "Target Email", value: (row) => row.target?.email },
+        { header: "Target Role", value: (row) => row.target?.role },
+        { header: "Target ID", value: (row) => row.target?.id },
+        { header: "IP", value: (row) => row.ip },
+        { header: "User Agent", value: (row) => row.userAgent },
+        {
+          header: "Details",
+          value: (row) =>
+            Object.entries(row.details).map(([key, value]) => `${key}=${String(value)}`),
+        },
+      ]);
+
+      const filename = `security-audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename=\"${filename}\"`);
+      return res.send(csv);
+    }
+
+    const { logs, total } = await listSecurityAuditLogs(query, {
+      skip: (page - 1) * limit,
+      limit,
+    });
+
+    return res.json({ logs: logs.map(toSecurityAuditResponse), total, page, limit });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+adminRouter.get("/ticket-signing-keys", async (_req, res, next) => {
+  try {
+    const keys = await listTicketSigningKeys();
+    return res.json({ keys: keys.map(toTicketSigningKeyResponse) });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// retire the active QR signing key; tickets signed with older keys stay valid
+adminRouter.post("/ticket-signing-keys/rotate", async (_req, res, next) => {
+  try {
+    const key = await rotateTicketSigningKey();
+    return res.status(201).json({ key: toTicketSigningKeyResponse(key) });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// outbox listing with per-status counts; newest first
+// cancellation refunds across all events, newest first; processing happens per participation
+adminRouter.get("/refunds", async (req, res, next) => {
+  try {
+    const parsed = refundRequestsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: { message: "Invalid request", details: parsed.error.flatten() },
+      });
+    }
+
+    const db = getDb();
+    const filter: Filter<StoredRefundRequestDoc> = {};
+    if (parsed.data.status) filter.status = parsed.data.status;
+
+    const refunds = await db
+      .collection<StoredRefundRequestDoc>(collections.refundRequests)
+      .find(filter)
+      .sort({ requestedAt: -1 })
+      .limit(parsed.data.limit)
+      .toArray();
+
+    const eventIds = Array.from(new Set(refunds.map((refund) => refund.eventId.toString()))).map(
+      (id) => new ObjectId(id),
+    );
+    const userIds = Array.from(new Set(refunds.map((refund) => refund.userId.toString()))).map(
+      (id) => new ObjectId(id),
+    );
+    const [events, participants] = await Promise.all([
+      eventIds.length > 0
+        ? db
+            .collection<{ _id: ObjectId; name: string }>(collections.events)
+            .find({ _id: { $in: eventIds } }, { projection: { _id: 1, name: 1 } })
+            .toArray()
+        : [],
+      userIds.length > 0
+        ? db
+            .collection<UserDoc>(collections.users)
+            .find({ _id: { $in: userIds } }, { projection: { _id: 1, name: 1, email: 1 } })
+            .toArray()
+        : [],
+    ]);
+    const eventNamesById = new Map(events.map((event) => [event._id.toString(), event.name]));
+    const participantsById = new Map(participants.map((user) => [user._id.toString(), user]));
+
+    return res.json({
+      refunds: refunds.map((refund) => {
+        const participant = participantsById.get(refund.userId.toString());
+        return {
+          ...toRefundRequestResponse(refund),
+          eventName: eventNamesById.get(refund.eventId.toString()) ?? null,
+          participantName: participant?.name ?? null,
+          participantEmail: participant?.email ?? null,
+        };
+      }),
+    });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+adminRouter.get("/email-outbox", async (req, res, next) => {
+  try {
+    const parsed = emailOutboxQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: { message: "Invalid request", details: parsed.error.flatten() },
+      });
+    }
+
+    const outbox = getDb().collection<StoredOutboxEmailDoc>(collections.emailOutbox);
+    const filter: Filter<StoredOutboxEmailDoc> = {};
+    if (parsed.data.status) filter.status = parsed.data.status;
+    if (parsed.data.kind) filter.kind = parsed.data.kind;
+    if (parsed.data.toEmail) filter.toEmail = parsed.data.toEmail;
+
+    const [emails, statusCounts] = await Promise.all([
+      outbox.find(filter).sort({ createdAt: -1 }).limit(parsed.data.limit).toArray(),
+      outbox
+        .aggregate<{ _id: string; count: number }>([
+          { $group: { _id: "$status", count: { $sum: 1 } } },
+        ])
+        .toArray(),
+    ]);
+
+    const counts = { queued: 0, sending: 0, sent: 0, dead: 0 };
+    for (const entry of statusCounts) {
+      if (entry._id in counts) counts[entry._id as keyof typeof counts] = entry.count;
+    }
+
+    return res.json({
+      counts,
+      emails: emails.map((email) => toOutboxEmailResponse(email)),
+    });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+adminRouter.get("/email-outbox/:emailId", async (req, res, next) => {
+  try {
+    const emailId = parseEmailOutboxId(req.params.emailId);
+    if (!emailId) {
+      return res.status(400).json({ error: { message: "Invalid email id" } });
+    }
+
+    const email = await getDb()
+      .collection<StoredOutboxEmailDoc>(collections.emailOutbox)
+      .findOne({ _id: emailId });
+    if (!email) {
+      return res.status(404).json({ error: { message: "Email not found" } });
+    }
+
+    return res.json({ email: toOutboxEmailResponse(email, true) });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// resend one dead email, or push a retrying one to the front of the queue
+adminRouter.post("/email-outbox/:emailId/resend", async (req, res, next) => {
+  try {
+    const emailId = parseEmailOutboxId(req.params.emailId);
+    if (!emailId) {
+      return res.status(400).json({ error: { message: "Invalid email id" } });
+    }
+
+    const outbox = getDb().collection<StoredOutboxEmailDoc>(collections.emailOutbox);
+    const email = await outbox.findOne({ _id: emailId });
+    if (!email) {
+      return res.status(404).json({ error: { message: "Email not found" } });
+    }
+
+    const requeued = await requeueOutboxEmails({ _id: emailId });
+    if (requeued === 0) {
+      return res.status(409).json({
+        error: { message: `Email is ${email.status} and cannot be resent` },
+      });
+    }
+
+    const updated = await outbox.findOne({ _id: emailId });
+    return res.json({ email: toOutboxEmailResponse(updated ?? email) });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// requeue every dead email, optionally only one kind
+adminRouter.post("/email-outbox/resend-dead", async (req, res, next) => {
+  try {
+    const parsed = resendDeadEmailsSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: { message: "Invalid request", details: parsed.error.flatten() },
+      });
+    }
+
+    const requeued = await requeueOutboxEmails({
+      status: "dead",
+      ...(parsed.data.kind ? { kind: parsed.data.kind } : {}),
+    });
+    return res.json({ requeued });
+  } catch (err) {
+    return next(err);
+  }
+});
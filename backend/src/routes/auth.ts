@@ -1,16 +1,54 @@
-import { Router } from "express";
+import crypto from "node:crypto";
+import { type Request, type Response, Router } from "express";
 import { ObjectId } from "mongodb";
 import { z } from "zod";
 import { env } from "../config/env";
 import { getDb } from "../db/client";
+import { collections } from "../db/collections";
 import { requireAuth } from "../middleware/auth";
+import { buildPasswordResetEmail } from "../utils/email";
+import { queueEmail } from "../utils/emailOutbox";
 import { hashPassword, verifyPassword } from "../utils/password";
-import { signJwt } from "../utils/jwt";
-import { AUTH_COOKIE_NAME, authCookieOptions } from "../config/cookies";
+import { verifyJwt } from "../utils/jwt";
+import {
+  checkLoginThrottle,
+  clearAccountLoginFailures,
+  type LoginThrottleCheck,
+  recordLoginFailure,
+} from "../utils/loginThrottle";
+import {
+  completeLoginChallenge,
+  confirmTwoFactorSetup,
+  createLoginChallenge,
+  findLoginChallenge,
+  getSecuritySettings,
+  isTwoFactorRequiredFor,
+  startTwoFactorSetup,
+  verifySecondFactor,
+} from "../utils/twoFactor";
+import {
+  recordSecurityEventSafe,
+  toAuditParty,
+} from "../utils/securityAudit";
+import {
+  createSession,
+  getClientMeta,
+  refreshSession,
+  revokeSession,
+  revokeSessionByRefreshToken,
+  revokeUserSessions,
+} from "../utils/sessions";
+import {
+  AUTH_COOKIE_NAME,
+  clearSessionCookies,
+  REFRESH_COOKIE_NAME,
+  setSessionCookies,
+} from "../config/cookies";
 import {
   participantTypes,
   userRoles,
   type ParticipantType,
+  type PasswordResetTokenDoc,
   type UserDoc,
 } from "../db/models";
 
@@ -47,6 +85,43 @@ const loginSchema = z.object({
   password: z.string().min(1),
 });
 
+const challengeTokenSchema = z.string().trim().min(1).max(200);
+
+const loginTwoFactorSchema = z
+  .object({
+    challengeToken: challengeTokenSchema,
+    code: z.string().trim().min(6).max(10).optional(),
+    recoveryCode: z.string().trim().min(8).max(20).optional(),
+  })
+  .refine((data) => Boolean(data.code) !== Boolean(data.recoveryCode), {
+    message: "Provide either an authentication code or a recovery code",
+    path: ["code"],
+  });
+
+const loginTwoFactorSetupSchema = z.object({
+  challengeToken: challengeTokenSchema,
+});
+
+const loginTwoFactorSetupConfirmSchema = z.object({
+  challengeToken: challengeTokenSchema,
+  code: z.string().trim().min(6).max(10),
+});
+
+const forgotPasswordSchema = z.object({
+  email: z.email(),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().trim().min(1).max(200),
+  newPassword: z.string().min(8),
+});
+
+// same reply whether or not the account exists, so the endpoint can't be used to probe emails
+const FORGOT_PASSWORD_RESPONSE = {
+  ok: true,
+  message: "If a participant account exists for that email, a reset link has been sent.",
+};
+
 // DO NOT send passwordHash to the client --> this function removes passwordHash from the user object
 function toPublicUser(user: {
   _id: ObjectId;
@@ -80,6 +155,76 @@ function isIiitEmail(email: string): boolean {
   );
 }
 
+function hashResetToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+type LoginMethod = "password" | "two_factor_code" | "recovery_code" | "two_factor_setup";
+
+type LoginFailureReason =
+  | "unknown_account"
+  | "bad_password"
+  | "account_disabled"
+  | "throttled"
+  | "bad_two_factor_code";
+
+async function startUserSession(
+  req: Request,
+  res: Response,
+  user: UserDoc,
+  method: LoginMethod,
+): Promise<void> {
+  const issued = await createSession({
+    userId: user._id,
+    role: user.role,
+    client: getClientMeta(req),
+  });
+  setSessionCookies(res, issued);
+
+  await recordSecurityEventSafe(req, {
+    action: "login_succeeded",
+    actor: toAuditParty(user),
+    target: toAuditParty(user),
+    details: { method },
+  });
+}
+
+// failed attempts are logged against the account that was tried, known or not
+async function auditLoginFailure(
+  req: Request,
+  params: { email: string; user?: UserDoc; reason: LoginFailureReason },
+): Promise<void> {
+  await recordSecurityEventSafe(req, {
+    action: "login_failed",
+    outcome: "failure",
+    target: params.user ? toAuditParty(params.user) : { email: params.email },
+    details: { reason: params.reason },
+  });
+}
+
+function rejectThrottledLogin(
+  res: Response,
+  check: Exclude<LoginThrottleCheck, { allowed: true }>,
+) {
+  res.setHeader("Retry-After", String(check.retryAfterSeconds));
+  return res.status(429).json({
+    error: {
+      message: check.locked
+        ? "Too many failed sign-in attempts. Sign-in is temporarily locked, try again later."
+        : `Too many failed sign-in attempts. Wait ${check.retryAfterSeconds} seconds and try again.`,
+      retryAfterSeconds: check.retryAfterSeconds,
+    },
+  });
+}
+
+// user behind a login challenge, re-checked because the account may have changed since the password step
+async function loadChallengeUser(userId: ObjectId): Promise<UserDoc | null> {
+  const user = await getDb().collection<UserDoc>(collections.users).findOne({ _id: userId });
+  if (!user) return null;
+  if (user.role === "organizer" && user.isDisabled === true) return null;
+  return user;
+}
+
 function splitFullName(rawName: string): { firstName: string; lastName: string } {
   const normalized = rawName.trim().replace(/\s+/g, " ");
   if (!normalized) {
@@ -186,12 +331,13 @@ authRouter.post("/signup", async (req, res, next) => {
 
     const insertResult = await users.insertOne(userToInsert);
 
-    // sign jwt token for user, and put it in the response cookie
-    const token = signJwt({
-      userId: insertResult.insertedId.toString(),
+    // start a session for the new user and put its tokens in the response cookies
+    const issued = await createSession({
+      userId: insertResult.insertedId,
       role: "participant",
+      client: getClientMeta(req),
     });
-    res.cookie(AUTH_COOKIE_NAME, token, authCookieOptions);
+    setSessionCookies(res, issued);
 
     const user = {
       _id: insertResult.insertedId,
@@ -231,9 +377,19 @@ authRouter.post("/login", async (req, res, next) => {
     const db = getDb();
     const users = db.collection<UserDoc>("users");
     const email = parsed.data.email.toLowerCase();
+    const client = getClientMeta(req);
+
+    // unknown emails are throttled the same way, so lockouts don't reveal which accounts exist
+    const throttle = await checkLoginThrottle({ email, ip: client.ip });
+    if (!throttle.allowed) {
+      await auditLoginFailure(req, { email, reason: "throttled" });
+      return rejectThrottledLogin(res, throttle);
+    }
 
     const user = await users.findOne({ email });
     if (!user) {
+      await recordLoginFailure({ email, ip: client.ip });
+      await auditLoginFailure(req, { email, reason: "unknown_account" });
       return res
         .status(401)
         .json({ error: { message: "Invalid credentials" } });
@@ -241,6 +397,8 @@ authRouter.post("/login", async (req, res, next) => {
 
     const ok = await verifyPassword(parsed.data.password, user.passwordHash);
     if (!ok) {
+      await recordLoginFailure({ email, ip: client.ip });
+      await auditLoginFailure(req, { email, user, reason: "bad_password" });
       return res
         .status(401)
         .json({ error: { message: "Invalid credentials" } });
@@ -248,35 +406,402 @@ authRouter.post("/login", async (req, res, next) => {
 
     // block organizer login when admin disables the account
     if (user.role === "organizer" && user.isDisabled === true) {
+      await auditLoginFailure(req, { email, user, reason: "account_disabled" });
       return res
         .status(403)
         .json({ error: { message: "Organizer account is disabled" } });
     }
 
-    const token = signJwt({
-      userId: user._id.toString(),
-      role: user.role,
+    // password alone is not enough: hand back a challenge for the code (or enrolment) step
+    const securitySettings = await getSecuritySettings();
+    if (isTwoFactorRequiredFor(user, securitySettings)) {
+      const purpose = user.twoFactor?.enabled === true ? "verify" : "setup";
+      const challenge = await createLoginChallenge({ userId: user._id, purpose });
+
+      return res.json({
+        twoFactor: {
+          purpose,
+          challengeToken: challenge.token,
+          expiresAt: challenge.expiresAt,
+        },
+      });
+    }
+
+    await clearAccountLoginFailures(user.email);
+    await startUserSession(req, res, user, "password");
+
+    return res.json({
+      user: toPublicUser(user),
     });
+  } catch (err) {
+    return next(err);
+  }
+});
 
-    res.cookie(AUTH_COOKIE_NAME, token, authCookieOptions);
+// second login step: TOTP code or a one-time recovery code
+authRouter.post("/login/2fa", async (req, res, next) => {
+  try {
+    const parsed = loginTwoFactorSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: { message: "Invalid request", details: parsed.error.flatten() },
+      });
+    }
+
+    const challenge = await findLoginChallenge({
+      token: parsed.data.challengeToken,
+      purpose: "verify",
+      countAttempt: true,
+    });
+    if (!challenge) {
+      return res
+        .status(401)
+        .json({ error: { message: "Sign-in expired, please log in again" } });
+    }
+
+    const user = await loadChallengeUser(challenge.userId);
+    if (!user) {
+      return res
+        .status(401)
+        .json({ error: { message: "Sign-in expired, please log in again" } });
+    }
+
+    // wrong codes count against the account like wrong passwords
+    const client = getClientMeta(req);
+    const throttle = await checkLoginThrottle({ email: user.email, ip: client.ip });
+    if (!throttle.allowed) {
+      await auditLoginFailure(req, { email: user.email, user, reason: "throttled" });
+      return rejectThrottledLogin(res, throttle);
+    }
+
+    const result = await verifySecondFactor(user, {
+      code: parsed.data.code,
+      recoveryCode: parsed.data.recoveryCode,
+    });
+    if (!result.ok) {
+      await recordLoginFailure({ email: user.email, ip: client.ip });
+      await auditLoginFailure(req, { email: user.email, user, reason: "bad_two_factor_code" });
+      return res
+        .status(401)
+        .json({ error: { message: "Invalid authentication code" } });
+    }
+
+    if (!(await completeLoginChallenge(challenge._id))) {
+      return res
+        .status(401)
+        .json({ error: { message: "Sign-in expired, please log in again" } });
+    }
+
+    await clearAccountLoginFailures(user.email);
+    await startUserSession(
+      req,
+      res,
+      user,
+      parsed.data.recoveryCode ? "recovery_code" : "two_factor_code",
+    );
 
     return res.json({
       user: toPublicUser(user),
+      recoveryCodesRemaining: result.recoveryCodesRemaining,
     });
   } catch (err) {
     return next(err);
   }
 });
 
-authRouter.post("/logout", (req, res) => {
-  res.clearCookie(AUTH_COOKIE_NAME, {
-    httpOnly: authCookieOptions.httpOnly,
-    sameSite: authCookieOptions.sameSite,
-    secure: authCookieOptions.secure,
-    path: authCookieOptions.path,
-  });
+// organizers who must use 2FA but haven't enrolled yet get their QR code here, mid-login
+authRouter.post("/login/2fa/setup", async (req, res, next) => {
+  try {
+    const parsed = loginTwoFactorSetupSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: { message: "Invalid request", details: parsed.error.flatten() },
+      });
+    }
+
+    const challenge = await findLoginChallenge({
+      token: parsed.data.challengeToken,
+      purpose: "setup",
+      countAttempt: false,
+    });
+    const user = challenge ? await loadChallengeUser(challenge.userId) : null;
+    if (!user) {
+      return res
+        .status(401)
+        .json({ error: { message: "Sign-in expired, please log in again" } });
+    }
+
+    if (user.twoFactor?.enabled === true) {
+      return res
+        .status(409)
+        .json({ error: { message: "Two-factor authentication is already enabled" } });
+    }
+
+    return res.json(await startTwoFactorSetup(user));
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// finishes mid-login enrolment and signs the user in; recovery codes are shown exactly once
+authRouter.post("/login/2fa/setup/confirm", async (req, res, next) => {
+  try {
+    const parsed = loginTwoFactorSetupConfirmSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: { message: "Invalid request", details: parsed.error.flatten() },
+      });
+    }
+
+    const challenge = await findLoginChallenge({
+      token: parsed.data.challengeToken,
+      purpose: "setup",
+      countAttempt: true,
+    });
+    const user = challenge ? await loadChallengeUser(challenge.userId) : null;
+    if (!challenge || !user) {
+      return res
+        .status(401)
+        .json({ error: { message: "Sign-in expired, please log in again" } });
+    }
+
+    const client = getClientMeta(req);
+    const throttle = await checkLoginThrottle({ email: user.email, ip: client.ip });
+    if (!throttle.allowed) {
+      await auditLoginFailure(req, { email: user.email, user, reason: "throttled" });
+      return rejectThrottledLogin(res, throttle);
+    }
+
+    const confirmed = await confirmTwoFactorSetup(user._id, parsed.data.code);
+    if (!confirmed) {
+      await recordLoginFailure({ email: user.email, ip: client.ip });
+      await auditLoginFailure(req, { email: user.email, user, reason: "bad_two_factor_code" });
+      return res
+        .status(400)
+        .json({ error: { message: "Invalid authentication code" } });
+    }
+
+    if (!(await completeLoginChallenge(challenge._id))) {
+      return res
+        .status(401)
+        .json({ error: { message: "Sign-in expired, please log in again" } });
+    }
+
+    await clearAccountLoginFailures(user.email);
+    await startUserSession(req, res, user, "two_factor_setup");
+
+    return res.status(201).json({
+      user: toPublicUser(user),
+      recoveryCodes: confirmed.recoveryCodes,
+    });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// swaps the refresh cookie for a new access token (and a new refresh token)
+authRouter.post("/refresh", async (req, res, next) => {
+  try {
+    const refreshToken: unknown = req.cookies?.[REFRESH_COOKIE_NAME];
+    if (typeof refreshToken !== "string" || !refreshToken) {
+      return res.status(401).json({ error: { message: "Not authenticated" } });
+    }
+
+    const result = await refreshSession(refreshToken, getClientMeta(req));
+    if (result.status === "invalid") {
+      clearSessionCookies(res);
+      return res.status(401).json({ error: { message: "Session expired" } });
+    }
+
+    const users = getDb().collection<UserDoc>(collections.users);
+    const user = await users.findOne({ _id: result.session.userId, role: result.session.role });
+    if (!user) {
+      await revokeSession({ filter: { _id: result.session._id }, reason: "user_revoked" });
+      clearSessionCookies(res);
+      return res.status(401).json({ error: { message: "Not authenticated" } });
+    }
+
+    if (user.role === "organizer" && user.isDisabled === true) {
+      clearSessionCookies(res);
+      return res
+        .status(403)
+        .json({ error: { message: "Organizer account is disabled" } });
+    }
+
+    setSessionCookies(
+      res,
+      result.status === "rotated"
+        ? { accessToken: result.accessToken, refreshToken: result.refreshToken }
+        : { accessToken: result.accessToken },
+    );
+    return res.json({ user: toPublicUser(user) });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// ends the current session server-side; works with an expired access token via the refresh cookie
+authRouter.post("/logout", async (req, res, next) => {
+  try {
+    const accessToken: unknown = req.cookies?.[AUTH_COOKIE_NAME];
+    const refreshToken: unknown = req.cookies?.[REFRESH_COOKIE_NAME];
+
+    let signedOut: { userId: ObjectId; role: UserDoc["role"] } | null = null;
+    if (typeof refreshToken === "string" && refreshToken) {
+      signedOut = await revokeSessionByRefreshToken(refreshToken, "logout");
+    } else if (typeof accessToken === "string" && accessToken) {
+      try {
+        const payload = verifyJwt(accessToken);
+        if (await revokeSession({ filter: { jti: payload.jti }, reason: "logout" })) {
+          signedOut = { userId: new ObjectId(payload.userId), role: payload.role };
+        }
+      } catch {
+        // an unusable access token has nothing left to revoke
+      }
+    }
 
-  return res.json({ ok: true });
+    if (signedOut) {
+      const party = { userId: signedOut.userId, role: signedOut.role };
+      await recordSecurityEventSafe(req, { action: "logout", actor: party, target: party });
+    }
+
+    clearSessionCookies(res);
+    return res.json({ ok: true });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// participant asks for a single-use reset link by email; organizers go through the admin reset workflow
+authRouter.post("/forgot-password", async (req, res, next) => {
+  try {
+    const parsed = forgotPasswordSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: { message: "Invalid request", details: parsed.error.flatten() },
+      });
+    }
+
+    const db = getDb();
+    const users = db.collection<UserDoc>(collections.users);
+    const resetTokens = db.collection<PasswordResetTokenDoc>(
+      collections.passwordResetTokens,
+    );
+    const email = parsed.data.email.toLowerCase().trim();
+    const now = new Date();
+
+    const user = await users.findOne({ email, role: "participant" });
+    if (!user) return res.json(FORGOT_PASSWORD_RESPONSE);
+
+    const recentRequests = await resetTokens.countDocuments({
+      email,
+      createdAt: { $gte: new Date(now.getTime() - 60 * 60 * 1000) },
+    });
+    if (recentRequests >= env.PASSWORD_RESET_MAX_REQUESTS_PER_HOUR) {
+      return res.json(FORGOT_PASSWORD_RESPONSE);
+    }
+
+    // only the newest link works
+    await resetTokens.updateMany(
+      { userId: user._id, usedAt: { $exists: false }, supersededAt: { $exists: false } },
+      { $set: { supersededAt: now } },
+    );
+
+    const token = crypto.randomBytes(32).toString("base64url");
+    await resetTokens.insertOne({
+      _id: new ObjectId(),
+      userId: user._id,
+      email,
+      tokenHash: hashResetToken(token),
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + env.PASSWORD_RESET_TOKEN_TTL_MINUTES * 60 * 1000),
+    });
+
+    const resetUrl = new URL("/reset-password", env.CLIENT_ORIGIN);
+    resetUrl.searchParams.set("token", token);
+    await queueEmail({
+      kind: "password_reset",
+      email: buildPasswordResetEmail({
+        toEmail: user.email,
+        toName: user.firstName || user.name,
+        resetUrl: resetUrl.toString(),
+        expiresInMinutes: env.PASSWORD_RESET_TOKEN_TTL_MINUTES,
+      }),
+      refs: { userId: user._id },
+    });
+
+    return res.json(FORGOT_PASSWORD_RESPONSE);
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// consumes a reset link, sets the new password and signs the account out everywhere
+authRouter.post("/reset-password", async (req, res, next) => {
+  try {
+    const parsed = resetPasswordSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: { message: "Invalid request", details: parsed.error.flatten() },
+      });
+    }
+
+    const db = getDb();
+    const users = db.collection<UserDoc>(collections.users);
+    const resetTokens = db.collection<PasswordResetTokenDoc>(
+      collections.passwordResetTokens,
+    );
+    const now = new Date();
+
+    // claim the token atomically so two concurrent submits can't both use it
+    const resetToken = await resetTokens.findOneAndUpdate(
+      {
+        tokenHash: hashResetToken(parsed.data.token),
+        usedAt: { $exists: false },
+        supersededAt: { $exists: false },
+        expiresAt: { $gt: now },
+      },
+      { $set: { usedAt: now } },
+      { returnDocument: "after" },
+    );
+    if (!resetToken) {
+      return res
+        .status(400)
+        .json({ error: { message: "Reset link is invalid or has expired" } });
+    }
+
+    const passwordHash = await hashPassword(parsed.data.newPassword);
+    const updated = await users.updateOne(
+      { _id: resetToken.userId, role: "participant" },
+      { $set: { passwordHash } },
+    );
+    if (updated.matchedCount === 0) {
+      return res
+        .status(400)
+        .json({ error: { message: "Reset link is invalid or has expired" } });
+    }
+
+    const revokedSessions = await revokeUserSessions({
+      userId: resetToken.userId,
+      reason: "password_reset",
+    });
+    const party = {
+      userId: resetToken.userId,
+      email: resetToken.email,
+      role: "participant" as const,
+    };
+    await recordSecurityEventSafe(req, {
+      action: "password_reset_completed",
+      actor: party,
+      target: party,
+      details: { via: "reset_link", revokedSessions },
+    });
+
+    clearSessionCookies(res);
+    return res.json({ ok: true });
+  } catch (err) {
+    return next(err);
+  }
 });
 
 authRouter.get("/me", requireAuth, async (req, res, next) => {
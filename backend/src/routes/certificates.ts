@@ -0,0 +1,620 @@
+import { type Request, Router } from "express";
+import { ObjectId } from "mongodb";
+import { z } from "zod";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+import { requireAuth, requireOrganizerAccess, requireRole } from "../middleware/auth";
+import {
+  findCertificateByCode,
+  renderCertificatePdf,
+  type StoredCertificateDoc,
+} from "../utils/certificatePdf";
+import {
+  type CertificateEventDoc,
+  type CertificateParticipationDoc,
+  checkCertificateEligibility,
+  DEFAULT_CERTIFICATE_DESIGN,
+  emailEventCertificates,
+  isCertificateValid,
+  issueCertificate,
+  listCertificateEligibleParticipations,
+  type StoredCertificateTemplateDoc,
+  toCertificateResponse,
+  toCertificateTemplateResponse,
+} from "../utils/certificates";
+
+export const certificatesRouter = Router();
+
+const certificateDesignSchema = z.object({
+  title: z.string().trim().min(1).max(120),
+  body: z.string().trim().min(1).max(1000),
+  signatoryName: z.string().trim().max(80).nullable().optional().default(null),
+  signatoryTitle: z.string().trim().max(80).nullable().optional().default(null),
+  accentColor: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, "Use a hex color like #1f4e79")
+    .optional()
+    .default(DEFAULT_CERTIFICATE_DESIGN.accentColor),
+});
+
+const certificateTemplateSchema = certificateDesignSchema.extend({
+  name: z.string().trim().min(1).max(80),
+});
+
+const eventCertificateTemplateSchema = z.object({
+  templateId: z.string().nullable(),
+});
+
+const emailCertificatesSchema = z.object({
+  resend: z.boolean().optional().default(false),
+});
+
+const PREVIEW_CERTIFICATE = {
+  code: "PREV-IEWX-XXXX",
+  participantName: "Participant Name",
+  eventName: "Sample Event",
+  eventStartDate: new Date(),
+  eventEndDate: new Date(),
+};
+
+function parseObjectId(rawId: unknown): ObjectId | null {
+  if (typeof rawId !== "string") return null;
+  if (!ObjectId.isValid(rawId)) return null;
+  return new ObjectId(rawId);
+}
+
+function getActingOrganizerId(req: Request): ObjectId | null {
+  return req.organizerAccess?.organizerId ?? null;
+}
+
+// empty signatory fields mean no signature line
+function normalizeSignatory(value: string | null): string | null {
+  return value && value.length > 0 ? value : null;
+}
+
+function toCertificateFilename(certificate: StoredCertificateDoc): string {
+  const safeEventName = certificate.eventName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${safeEventName || "event"}-certificate-${certificate.code}.pdf`;
+}
+
+async function loadActingOrganizerEvent(req: Request): Promise<CertificateEventDoc | null> {
+  const eventId = parseObjectId(req.params.eventId);
+  const organizerId = getActingOrganizerId(req);
+  if (!eventId || !organizerId) return null;
+
+  return getDb()
+    .collection<CertificateEventDoc>(collections.events)
+    .findOne({ _id: eventId, organizerId });
+}
+
+async function loadOrganizerName(organizerId: ObjectId): Promise<string> {
+  const organizer = await getDb()
+    .collection<{ _id: ObjectId; name: string }>(collections.users)
+    .findOne({ _id: organizerId }, { projection: { name: 1 } });
+  return organizer?.name ?? "The organizer";
+}
+
+// anyone (e.g. a recruiter) checks that a certificate code is genuine and still stands
+certificatesRouter.get("/verify/:code", async (req, res, next) => {
+  try {
+    const certificate = await findCertificateByCode(req.params.code);
+    if (!certificate) {
+      return res.status(404).json({ error: { message: "Certificate not found" } });
+    }
+
+    return res.json({
+      valid: await isCertificateValid(certificate),
+      certificate: {
+        code: certificate.code,
+        participantName: certificate.participantName,
+        eventName: certificate.eventName,
+        organizerName: certificate.organizerName,
+        eventStartDate: certificate.eventStartDate,
+        eventEndDate: certificate.eventEndDate,
+        issuedAt: certificate.issuedAt,
+      },
+    });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// participant lists their certificates, issuing any that are due
+certificatesRouter.get(
+  "/mine",
+  requireAuth,
+  requireRole("participant"),
+  async (req, res, next) => {
+    try {
+      const userId = parseObjectId(req.user?.id);
+      if (!userId) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const db = getDb();
+      const certificates = db.collection<StoredCertificateDoc>(collections.certificates);
+      const issuedParticipationIds = await certificates.distinct("participationId", { userId });
+
+      // issue whatever became available since the last visit
+      const participations = await db
+        .collection<CertificateParticipationDoc>(collections.registrations)
+        .find({ userId, status: "confirmed", _id: { $nin: issuedParticipationIds } })
+        .toArray();
+      if (participations.length > 0) {
+        const [completedEvents, attendedIds] = await Promise.all([
+          db
+            .collection<CertificateEventDoc>(collections.events)
+            .find({
+              _id: { $in: participations.map((participation) => participation.eventId) },
+              status: "COMPLETED",
+            })
+            .toArray(),
+          db.collection(collections.attendances).distinct("participationId", {
+            participationId: { $in: participations.map((participation) => participation._id) },
+          }),
+        ]);
+        const eventById = new Map(completedEvents.map((event) => [event._id.toString(), event]));
+        const attended = new Set(attendedIds.map((id: ObjectId) => id.toString()));
+
+        for (const participation of participations) {
+          const event = eventById.get(participation.eventId.toString());
+          if (!event || !attended.has(participation._id.toString())) continue;
+          await issueCertificate({ event, participation });
+        }
+      }
+
+      const found = await certificates.find({ userId }).sort({ eventStartDate: -1 }).toArray();
+      return res.json({ certificates: found.map(toCertificateResponse) });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// participant checks whether a certificate is available for an event
+certificatesRouter.get(
+  "/events/:eventId/me",
+  requireAuth,
+  requireRole("participant"),
+  async (req, res, next) => {
+    try {
+      const eventId = parseObjectId(req.params.eventId);
+      if (!eventId) {
+        return res.status(400).json({ error: { message: "Invalid event id" } });
+      }
+
+      const userId = parseObjectId(req.user?.id);
+      if (!userId) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const db = getDb();
+      const event = await db
+        .collection<CertificateEventDoc>(collections.events)
+        .findOne({ _id: eventId });
+      if (!event || event.status === "DRAFT") {
+        return res.status(404).json({ error: { message: "Event not found" } });
+      }
+
+      const certificate = await db
+        .collection<StoredCertificateDoc>(collections.certificates)
+        .findOne({ eventId, userId });
+      if (certificate) {
+        return res.json({
+          eligible: true,
+          reason: null,
+          certificate: toCertificateResponse(certificate),
+        });
+      }
+
+      const eligibility = await checkCertificateEligibility({ event, userId });
+      return res.json({
+        eligible: eligibility.eligible,
+        reason: eligibility.eligible ? null : eligibility.reason,
+        certificate: null,
+      });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// participant downloads their certificate pdf (issued on first download)
+certificatesRouter.get(
+  "/events/:eventId/pdf",
+  requireAuth,
+  requireRole("participant"),
+  async (req, res, next) => {
+    try {
+      const eventId = parseObjectId(req.params.eventId);
+      if (!eventId) {
+        return res.status(400).json({ error: { message: "Invalid event id" } });
+      }
+
+      const userId = parseObjectId(req.user?.id);
+      if (!userId) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const db = getDb();
+      let certificate = await db
+        .collection<StoredCertificateDoc>(collections.certificates)
+        .findOne({ eventId, userId });
+      if (!certificate) {
+        const event = await db
+          .collection<CertificateEventDoc>(collections.events)
+          .findOne({ _id: eventId });
+        if (!event || event.status === "DRAFT") {
+          return res.status(404).json({ error: { message: "Event not found" } });
+        }
+
+        const eligibility = await checkCertificateEligibility({ event, userId });
+        if (!eligibility.eligible) {
+          return res.status(403).json({ error: { message: eligibility.reason } });
+        }
+        certificate = await issueCertificate({
+          event,
+          participation: eligibility.participation,
+        });
+      }
+
+      const pdf = await renderCertificatePdf(certificate);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${toCertificateFilename(certificate)}"`,
+      );
+      return res.send(pdf);
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// organizer lists their certificate templates
+certificatesRouter.get(
+  "/organizer/templates",
+  requireAuth,
+  requireOrganizerAccess("editor"),
+  async (req, res, next) => {
+    try {
+      const organizerId = getActingOrganizerId(req);
+      if (!organizerId) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const templates = await getDb()
+        .collection<StoredCertificateTemplateDoc>(collections.certificateTemplates)
+        .find({ organizerId })
+        .sort({ createdAt: -1 })
+        .toArray();
+
+      return res.json({
+        templates: templates.map(toCertificateTemplateResponse),
+        defaultDesign: DEFAULT_CERTIFICATE_DESIGN,
+      });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// organizer creates a certificate template
+certificatesRouter.post(
+  "/organizer/templates",
+  requireAuth,
+  requireOrganizerAccess("editor"),
+  async (req, res, next) => {
+    try {
+      const parsed = certificateTemplateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: {
+            message: "Invalid request",
+            details: parsed.error.flatten(),
+          },
+        });
+      }
+
+      const organizerId = getActingOrganizerId(req);
+      if (!organizerId) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const now = new Date();
+      const template: StoredCertificateTemplateDoc = {
+        _id: new ObjectId(),
+        organizerId,
+        name: parsed.data.name,
+        title: parsed.data.title,
+        body: parsed.data.body,
+        signatoryName: normalizeSignatory(parsed.data.signatoryName),
+        signatoryTitle: normalizeSignatory(parsed.data.signatoryTitle),
+        accentColor: parsed.data.accentColor,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await getDb()
+        .collection<StoredCertificateTemplateDoc>(collections.certificateTemplates)
+        .insertOne(template);
+
+      return res.status(201).json({ template: toCertificateTemplateResponse(template) });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// organizer edits a template; certificates already issued keep their old design
+certificatesRouter.put(
+  "/organizer/templates/:templateId",
+  requireAuth,
+  requireOrganizerAccess("editor"),
+  async (req, res, next) => {
+    try {
+      const templateId = parseObjectId(req.params.templateId);
+      if (!templateId) {
+        return res.status(400).json({ error: { message: "Invalid template id" } });
+      }
+
+      const parsed = certificateTemplateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: {
+            message: "Invalid request",
+            details: parsed.error.flatten(),
+          },
+        });
+      }
+
+      const organizerId = getActingOrganizerId(req);
+      if (!organizerId) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const template = await getDb()
+        .collection<StoredCertificateTemplateDoc>(collections.certificateTemplates)
+        .findOneAndUpdate(
+          { _id: templateId, organizerId },
+          {
+            $set: {
+              name: parsed.data.name,
+              title: parsed.data.title,
+              body: parsed.data.body,
+              signatoryName: normalizeSignatory(parsed.data.signatoryName),
+              signatoryTitle: normalizeSignatory(parsed.data.signatoryTitle),
+              accentColor: parsed.data.accentColor,
+              updatedAt: new Date(),
+            },
+          },
+          { returnDocument: "after" },
+        );
+      if (!template) {
+        return res.status(404).json({ error: { message: "Template not found" } });
+      }
+
+      return res.json({ template: toCertificateTemplateResponse(template) });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// organizer deletes a template; events using it fall back to the default design
+certificatesRouter.delete(
+  "/organizer/templates/:templateId",
+  requireAuth,
+  requireOrganizerAccess("editor"),
+  async (req, res, next) => {
+    try {
+      const templateId = parseObjectId(req.params.templateId);
+      if (!templateId) {
+        return res.status(400).json({ error: { message: "Invalid template id" } });
+      }
+
+      const organizerId = getActingOrganizerId(req);
+      if (!organizerId) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const db = getDb();
+      const deleted = await db
+        .collection<StoredCertificateTemplateDoc>(collections.certificateTemplates)
+        .findOneAndDelete({ _id: templateId, organizerId });
+      if (!deleted) {
+        return res.status(404).json({ error: { message: "Template not found" } });
+      }
+
+      await db
+        .collection<CertificateEventDoc>(collections.events)
+        .updateMany(
+          { organizerId, certificateTemplateId: templateId },
+          { $set: { certificateTemplateId: null } },
+        );
+
+      return res.json({ ok: true });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// organizer previews a (possibly unsaved) design as a sample pdf
+certificatesRouter.post(
+  "/organizer/templates/preview",
+  requireAuth,
+  requireOrganizerAccess("editor"),
+  async (req, res, next) => {
+    try {
+      const parsed = certificateDesignSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: {
+            message: "Invalid request",
+            details: parsed.error.flatten(),
+          },
+        });
+      }
+
+      const organizerId = getActingOrganizerId(req);
+      if (!organizerId) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const pdf = await renderCertificatePdf({
+        ...PREVIEW_CERTIFICATE,
+        organizerName: await loadOrganizerName(organizerId),
+        design: {
+          ...parsed.data,
+          signatoryName: normalizeSignatory(parsed.data.signatoryName),
+          signatoryTitle: normalizeSignatory(parsed.data.signatoryTitle),
+        },
+        issuedAt: new Date(),
+      });
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", 'inline; filename="certificate-preview.pdf"');
+      return res.send(pdf);
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// organizer sees the event's template choice and how many certificates went out
+certificatesRouter.get(
+  "/organizer/events/:eventId",
+  requireAuth,
+  requireOrganizerAccess("editor"),
+  async (req, res, next) => {
+    try {
+      const event = await loadActingOrganizerEvent(req);
+      if (!event) {
+        return res.status(404).json({ error: { message: "Event not found" } });
+      }
+
+      const db = getDb();
+      const [eligible, certificates, templates] = await Promise.all([
+        listCertificateEligibleParticipations(event._id),
+        db
+          .collection<StoredCertificateDoc>(collections.certificates)
+          .find({ eventId: event._id })
+          .sort({ participantName: 1 })
+          .toArray(),
+        db
+          .collection<StoredCertificateTemplateDoc>(collections.certificateTemplates)
+          .find({ organizerId: event.organizerId })
+          .sort({ createdAt: -1 })
+          .toArray(),
+      ]);
+
+      return res.json({
+        eventStatus: event.status,
+        templateId: event.certificateTemplateId?.toString() ?? null,
+        templates: templates.map((template) => ({
+          id: template._id.toString(),
+          name: template.name,
+        })),
+        summary: {
+          eligible: eligible.length,
+          issued: certificates.length,
+          emailed: certificates.filter((certificate) => certificate.emailedAt).length,
+          emailQueued: certificates.filter(
+            (certificate) => certificate.outboxEmailId && !certificate.emailedAt,
+          ).length,
+        },
+        certificates: certificates.map(toCertificateResponse),
+      });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// organizer picks the template for an event (null = default design)
+certificatesRouter.put(
+  "/organizer/events/:eventId/template",
+  requireAuth,
+  requireOrganizerAccess("editor"),
+  async (req, res, next) => {
+    try {
+      const parsed = eventCertificateTemplateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: {
+            message: "Invalid request",
+            details: parsed.error.flatten(),
+          },
+        });
+      }
+
+      const event = await loadActingOrganizerEvent(req);
+      if (!event) {
+        return res.status(404).json({ error: { message: "Event not found" } });
+      }
+
+      let templateId: ObjectId | null = null;
+      if (parsed.data.templateId !== null) {
+        templateId = parseObjectId(parsed.data.templateId);
+        const template = templateId
+          ? await getDb()
+              .collection<StoredCertificateTemplateDoc>(collections.certificateTemplates)
+              .findOne({ _id: templateId, organizerId: event.organizerId })
+          : null;
+        if (!template) {
+          return res.status(404).json({ error: { message: "Template not found" } });
+        }
+      }
+
+      await getDb()
+        .collection<CertificateEventDoc>(collections.events)
+        .updateOne(
+          { _id: event._id },
+          { $set: { certificateTemplateId: templateId, updatedAt: new Date() } },
+        );
+
+      return res.json({ templateId: templateId?.toString() ?? null });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// organizer emails certificates to every attendee; already-emailed ones are skipped unless resend
+certificatesRouter.post(
+  "/organizer/events/:eventId/email",
+  requireAuth,
+  requireOrganizerAccess("editor"),
+  async (req, res, next) => {
+    try {
+      const parsed = emailCertificatesSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: {
+            message: "Invalid request",
+            details: parsed.error.flatten(),
+          },
+        });
+      }
+
+      const event = await loadActingOrganizerEvent(req);
+      if (!event) {
+        return res.status(404).json({ error: { message: "Event not found" } });
+      }
+      if (event.status !== "COMPLETED") {
+        return res.status(409).json({
+          error: { message: "Certificates can be sent once the event is completed" },
+        });
+      }
+
+      const result = await emailEventCertificates({ event, resend: parsed.data.resend });
+      return res.json(result);
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
@@ -0,0 +1,462 @@
+import { type Request, Router } from "express";
+import { ObjectId } from "mongodb";
+import { z } from "zod";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+import { requireAuth } from "../middleware/auth";
+import { emitDiscussionEvent } from "../realtime/socket";
+import {
+  type DiscussionAccess,
+  isMutedInDiscussion,
+  loadDiscussionAccess,
+  type StoredDiscussionMessageDoc,
+  type StoredDiscussionMuteDoc,
+  toDiscussionMessageResponse,
+} from "../utils/discussion";
+
+export const discussionRouter = Router();
+
+type DiscussionUserDoc = {
+  _id: ObjectId;
+  role: string;
+  name: string;
+  email: string;
+};
+
+type AccessFailure = { status: 400 | 401 | 403; message: string };
+
+const MAX_THREADS = 200;
+
+const createMessageSchema = z.object({
+  content: z.string().trim().min(1).max(2000),
+  parentId: z.string().trim().optional(),
+});
+
+const pinMessageSchema = z.object({
+  pinned: z.boolean(),
+});
+
+const muteUserSchema = z.object({
+  userId: z.string().trim().min(1),
+  reason: z.string().trim().max(300).optional(),
+});
+
+function parseObjectId(rawId: unknown): ObjectId | null {
+  if (typeof rawId !== "string") return null;
+  if (!ObjectId.isValid(rawId)) return null;
+  return new ObjectId(rawId);
+}
+
+// resolves the caller's forum access for :eventId (owning organizer or registered participant)
+async function resolveRequestAccess(
+  req: Request,
+): Promise<DiscussionAccess | AccessFailure> {
+  const eventId = parseObjectId(req.params.eventId);
+  if (!eventId) return { status: 400, message: "Invalid event id" };
+
+  const authUser = req.user;
+  if (!authUser) return { status: 401, message: "Not authenticated" };
+
+  const userId = parseObjectId(authUser.id);
+  if (!userId) return { status: 401, message: "Not authenticated" };
+
+  const access = await loadDiscussionAccess({ eventId, userId, role: authUser.role });
+  if (!access) return { status: 403, message: "Forbidden" };
+
+  return access;
+}
+
+function isAccessFailure(
+  value: DiscussionAccess | AccessFailure,
+): value is AccessFailure {
+  return "status" in value;
+}
+
+// load the forum for an event: threads with replies, pinned threads first
+discussionRouter.get("/events/:eventId", requireAuth, async (req, res, next) => {
+  try {
+    const access = await resolveRequestAccess(req);
+    if (isAccessFailure(access)) {
+      return res.status(access.status).json({ error: { message: access.message } });
+    }
+
+    const db = getDb();
+    const messages = db.collection<StoredDiscussionMessageDoc>(
+      collections.discussionMessages,
+    );
+    const mutes = db.collection<StoredDiscussionMuteDoc>(collections.discussionMutes);
+
+    const threads = await messages
+      .find({ eventId: access.event._id, parentId: null })
+      .sort({ pinned: -1, pinnedAt: -1, lastReplyAt: -1, createdAt: -1 })
+      .limit(MAX_THREADS)
+      .toArray();
+
+    const replies = await messages
+      .find({
+        eventId: access.event._id,
+        parentId: { $in: threads.map((thread) => thread._id) },
+      })
+      .sort({ createdAt: 1 })
+      .toArray();
+
+    const repliesByThread = new Map<string, StoredDiscussionMessageDoc[]>();
+    for (const reply of replies) {
+      if (!reply.parentId) continue;
+      const key = reply.parentId.toString();
+      const bucket = repliesByThread.get(key) ?? [];
+      bucket.push(reply);
+      repliesByThread.set(key, bucket);
+    }
+
+    const eventMutes = await mutes
+      .find({ eventId: access.event._id })
+      .sort({ createdAt: -1 })
+      .toArray();
+
+    return res.json({
+      event: {
+        id: access.event._id.toString(),
+        name: access.event.name,
+      },
+      viewer: {
+        userId: access.userId.toString(),
+        role: access.authorRole,
+        canModerate: access.canModerate,
+        isMuted: eventMutes.some((mute) => mute.userId.equals(access.userId)),
+      },
+      threads: threads.map((thread) => ({
+        ...toDiscussionMessageResponse(thread),
+        replies: (repliesByThread.get(thread._id.toString()) ?? []).map(
+          toDiscussionMessageResponse,
+        ),
+      })),
+      mutedUsers: access.canModerate
+        ? eventMutes.map((mute) => ({
+            userId: mute.userId.toString(),
+            reason: mute.reason ?? null,
+            createdAt: mute.createdAt,
+          }))
+        : [],
+    });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// post a new thread or a reply; replies to replies are attached to the thread root
+discussionRouter.post(
+  "/events/:eventId/messages",
+  requireAuth,
+  async (req, res, next) => {
+    try {
+      const parsed = createMessageSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: {
+            message: "Invalid request",
+            details: parsed.error.flatten(),
+          },
+        });
+      }
+
+      const access = await resolveRequestAccess(req);
+      if (isAccessFailure(access)) {
+        return res.status(access.status).json({ error: { message: access.message } });
+      }
+
+      if (
+        !access.canModerate &&
+        (await isMutedInDiscussion({ eventId: access.event._id, userId: access.userId }))
+      ) {
+        return res
+          .status(403)
+          .json({ error: { message: "You are muted in this discussion" } });
+      }
+
+      const messages = getDb().collection<StoredDiscussionMessageDoc>(
+        collections.discussionMessages,
+      );
+
+      let threadRootId: ObjectId | null = null;
+      if (parsed.data.parentId) {
+        const parentId = parseObjectId(parsed.data.parentId);
+        if (!parentId) {
+          return res.status(400).json({ error: { message: "Invalid parent id" } });
+        }
+
+        const parent = await messages.findOne({
+          _id: parentId,
+          eventId: access.event._id,
+        });
+        if (!parent) {
+          return res.status(404).json({ error: { message: "Message not found" } });
+        }
+
+        threadRootId = parent.parentId ?? parent._id;
+        const threadRoot = parent.parentId
+          ? await messages.findOne({ _id: threadRootId })
+          : parent;
+        if (!threadRoot || threadRoot.deletedAt) {
+          return res
+            .status(409)
+            .json({ error: { message: "Thread has been deleted" } });
+        }
+      }
+
+      const now = new Date();
+      const message: StoredDiscussionMessageDoc = {
+        _id: new ObjectId(),
+        eventId: access.event._id,
+        authorId: access.userId,
+        authorRole: access.authorRole,
+        authorName: access.authorName,
+        parentId: threadRootId,
+        content: parsed.data.content,
+        pinned: false,
+        createdAt: now,
+        updatedAt: now,
+        replyCount: 0,
+      };
+
+      await messages.insertOne(message);
+
+      if (threadRootId) {
+        const updatedThread = await messages.findOneAndUpdate(
+          { _id: threadRootId },
+          { $inc: { replyCount: 1 }, $set: { lastReplyAt: now } },
+          { returnDocument: "after" },
+        );
+        if (updatedThread) {
+          emitDiscussionEvent(
+            access.event._id,
+            "discussion:message-updated",
+            toDiscussionMessageResponse(updatedThread),
+          );
+        }
+      }
+
+      const response = toDiscussionMessageResponse(message);
+      emitDiscussionEvent(access.event._id, "discussion:message", response);
+
+      return res.status(201).json({ message: response });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// organizer pins or unpins a thread
+discussionRouter.patch(
+  "/events/:eventId/messages/:messageId/pin",
+  requireAuth,
+  async (req, res, next) => {
+    try {
+      const parsed = pinMessageSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: {
+            message: "Invalid request",
+            details: parsed.error.flatten(),
+          },
+        });
+      }
+
+      const access = await resolveRequestAccess(req);
+      if (isAccessFailure(access)) {
+        return res.status(access.status).json({ error: { message: access.message } });
+      }
+      if (!access.canModerate) {
+        return res.status(403).json({ error: { message: "Forbidden" } });
+      }
+
+      const messageId = parseObjectId(req.params.messageId);
+      if (!messageId) {
+        return res.status(400).json({ error: { message: "Invalid message id" } });
+      }
+
+      const now = new Date();
+      const updated = await getDb()
+        .collection<StoredDiscussionMessageDoc>(collections.discussionMessages)
+        .findOneAndUpdate(
+          {
+            _id: messageId,
+            eventId: access.event._id,
+            parentId: null,
+            deletedAt: { $exists: false },
+          },
+          parsed.data.pinned
+            ? { $set: { pinned: true, pinnedAt: now, updatedAt: now } }
+            : { $set: { pinned: false, updatedAt: now }, $unset: { pinnedAt: "" } },
+          { returnDocument: "after" },
+        );
+      if (!updated) {
+        return res.status(404).json({ error: { message: "Thread not found" } });
+      }
+
+      const response = toDiscussionMessageResponse(updated);
+      emitDiscussionEvent(access.event._id, "discussion:message-updated", response);
+
+      return res.json({ message: response });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// author deletes own message, organizer deletes any message (soft delete keeps replies readable)
+discussionRouter.delete(
+  "/events/:eventId/messages/:messageId",
+  requireAuth,
+  async (req, res, next) => {
+    try {
+      const access = await resolveRequestAccess(req);
+      if (isAccessFailure(access)) {
+        return res.status(access.status).json({ error: { message: access.message } });
+      }
+
+      const messageId = parseObjectId(req.params.messageId);
+      if (!messageId) {
+        return res.status(400).json({ error: { message: "Invalid message id" } });
+      }
+
+      const messages = getDb().collection<StoredDiscussionMessageDoc>(
+        collections.discussionMessages,
+      );
+
+      const message = await messages.findOne({
+        _id: messageId,
+        eventId: access.event._id,
+      });
+      if (!message || message.deletedAt) {
+        return res.status(404).json({ error: { message: "Message not found" } });
+      }
+
+      if (!access.canModerate && !message.authorId.equals(access.userId)) {
+        return res.status(403).json({ error: { message: "Forbidden" } });
+      }
+
+      const now = new Date();
+      const deleted = await messages.findOneAndUpdate(
+        { _id: message._id, deletedAt: { $exists: false } },
+        {
+          $set: { deletedAt: now, deletedBy: access.userId, pinned: false, updatedAt: now },
+          $unset: { pinnedAt: "" },
+        },
+        { returnDocument: "after" },
+      );
+      if (!deleted) {
+        return res.status(404).json({ error: { message: "Message not found" } });
+      }
+
+      const response = toDiscussionMessageResponse(deleted);
+      emitDiscussionEvent(access.event._id, "discussion:message-deleted", response);
+
+      return res.json({ message: response });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// organizer mutes a participant in this event's forum
+discussionRouter.post(
+  "/events/:eventId/mutes",
+  requireAuth,
+  async (req, res, next) => {
+    try {
+      const parsed = muteUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: {
+            message: "Invalid request",
+            details: parsed.error.flatten(),
+          },
+        });
+      }
+
+      const access = await resolveRequestAccess(req);
+      if (isAccessFailure(access)) {
+        return res.status(access.status).json({ error: { message: access.message } });
+      }
+      if (!access.canModerate) {
+        return res.status(403).json({ error: { message: "Forbidden" } });
+      }
+
+      const targetUserId = parseObjectId(parsed.data.userId);
+      if (!targetUserId) {
+        return res.status(400).json({ error: { message: "Invalid user id" } });
+      }
+
+      const db = getDb();
+      const target = await db
+        .collection<DiscussionUserDoc>(collections.users)
+        .findOne({ _id: targetUserId });
+      if (!target || target.role !== "participant") {
+        return res.status(404).json({ error: { message: "Participant not found" } });
+      }
+
+      const now = new Date();
+      await db.collection<StoredDiscussionMuteDoc>(collections.discussionMutes).updateOne(
+        { eventId: access.event._id, userId: targetUserId },
+        {
+          $set: {
+            mutedBy: access.userId,
+            createdAt: now,
+            ...(parsed.data.reason ? { reason: parsed.data.reason } : {}),
+          },
+          $setOnInsert: { _id: new ObjectId() },
+        },
+        { upsert: true },
+      );
+
+      const mute = {
+        userId: targetUserId.toString(),
+        muted: true,
+        reason: parsed.data.reason ?? null,
+        createdAt: now,
+      };
+      emitDiscussionEvent(access.event._id, "discussion:mute-updated", mute);
+
+      return res.status(201).json({ mute });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// organizer lifts a mute
+discussionRouter.delete(
+  "/events/:eventId/mutes/:userId",
+  requireAuth,
+  async (req, res, next) => {
+    try {
+      const access = await resolveRequestAccess(req);
+      if (isAccessFailure(access)) {
+        return res.status(access.status).json({ error: { message: access.message } });
+      }
+      if (!access.canModerate) {
+        return res.status(403).json({ error: { message: "Forbidden" } });
+      }
+
+      const targetUserId = parseObjectId(req.params.userId);
+      if (!targetUserId) {
+        return res.status(400).json({ error: { message: "Invalid user id" } });
+      }
+
+      const result = await getDb()
+        .collection<StoredDiscussionMuteDoc>(collections.discussionMutes)
+        .deleteOne({ eventId: access.event._id, userId: targetUserId });
+      if (result.deletedCount === 0) {
+        return res.status(404).json({ error: { message: "Mute not found" } });
+      }
+
+      const mute = { userId: targetUserId.toString(), muted: false };
+      emitDiscussionEvent(access.event._id, "discussion:mute-updated", mute);
+
+      return res.json({ mute });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
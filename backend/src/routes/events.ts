@@ -1,15 +1,63 @@
 import { type Request, Router } from "express";
-import { ObjectId, type Collection } from "mongodb";
+import { ObjectId, type Collection, type Filter } from "mongodb";
 import { z } from "zod";
 import { getDb } from "../db/client";
 import { collections } from "../db/collections";
-import { requireAuth, requireRole } from "../middleware/auth";
+import {
+  requireAuth,
+  requireOrganizerAccess,
+  requireScannerAccess,
+  requireScannerToken,
+  resolveAuthToken,
+} from "../middleware/auth";
 import type { RegistrationDoc } from "../db/models";
 import { toCsvString } from "../utils/csv";
 import { AUTH_COOKIE_NAME } from "../config/cookies";
-import { verifyJwt } from "../utils/jwt";
-import { postEventAnnouncementToDiscordSafe } from "../utils/discord";
 import type { StoredTicketDoc } from "../utils/tickets";
+import type { TeamMemberRole } from "../utils/organizerTeam";
+import {
+  buildScannerPairingUrl,
+  issueScannerToken,
+  listScannerTokens,
+  revokeScannerToken,
+  type ScannerDevice,
+  toScannerTokenResponse,
+} from "../utils/scannerTokens";
+import { recordSecurityEventSafe, requestActor } from "../utils/securityAudit";
+import { signAttendanceManifest, verifyTicketQrPayload } from "../utils/ticketSigning";
+import {
+  type AnnouncementRecipient,
+  deliverAnnouncementEmailsSafe,
+  type StoredAnnouncementDoc,
+  summarizeAnnouncementDelivery,
+} from "../utils/announcements";
+import {
+  announceEventPublished,
+  deriveDisplayStatus,
+  validateOrganizerStatusTransition,
+} from "../utils/eventStatus";
+import { requeueOutboxEmails } from "../utils/emailOutbox";
+import { promoteWaitlistedParticipationsSafe } from "../utils/waitlist";
+import {
+  type EventTeamConfig,
+  getEventTeamConfig,
+  loadEventTeamsByIds,
+  type StoredEventTeamDoc,
+} from "../utils/eventTeams";
+import { isAwaitingPaymentReview } from "../utils/paymentHolds";
+import {
+  getRetainedPaymentAmount,
+  normalizeRefundPolicy,
+  type RefundPolicy,
+  type StoredRefundRequestDoc,
+} from "../utils/refunds";
+import type { StoredPaymentOrderDoc } from "../payments/orders";
+import {
+  type ApprovalAutoDecision,
+  isAwaitingReview,
+  type RegistrationReview,
+} from "../utils/registrationReview";
+import { cancelEventJobs, syncEventJobsSafe } from "../scheduler";
 
 export const eventsRouter = Router();
 
@@ -29,9 +77,19 @@ const publicQueryStatuses = [
 ] as const;
 const publicPersistedStatuses = ["PUBLISHED", "CLOSED", "COMPLETED"] as const;
 
+// offline scan batches per sync request
+const OFFLINE_SYNC_MAX_SCANS = 500;
+// device clocks drift; scans slightly outside the allowed window are clamped, further ones rejected
+const OFFLINE_SCAN_CLOCK_SKEW_MS = 5 * 60 * 1000;
+// events without configured checkpoints keep the single entry scan they always had
+const DEFAULT_ATTENDANCE_CHECKPOINT: AttendanceCheckpoint = {
+  key: "main",
+  name: "Entry",
+  scanLimit: 1,
+};
+
 type EventType = (typeof eventTypes)[number];
 type PersistedEventStatus = (typeof persistedEventStatuses)[number];
-type DisplayEventStatus = PersistedEventStatus | "ONGOING";
 type PublicQueryStatus = (typeof publicQueryStatuses)[number];
 
 type StoredEventDoc = {
@@ -44,10 +102,26 @@ type StoredEventDoc = {
   regFee: number;
   regDeadline: Date;
   regLimit: number;
+  // denormalized count of pending/confirmed participations, reserved atomically
+  seatsTaken?: number;
   startDate: Date;
   endDate: Date;
   organizerId: ObjectId;
   status: PersistedEventStatus;
+  // drafts only: the scheduler publishes the event at this time
+  scheduledPublishAt?: Date | null;
+  // minutes before startDate; null/missing uses the server default, [] disables reminders
+  reminderOffsetsMinutes?: number[] | null;
+  // missing on events that never configured checkpoints; see getAttendanceCheckpoints
+  attendanceCheckpoints?: AttendanceCheckpoint[];
+  // NORMAL events only; null/missing means individual registrations
+  teamConfig?: EventTeamConfig | null;
+  // NORMAL events only; registrations stay pending until an organizer accepts them
+  requiresApproval?: boolean;
+  // settles registrations still awaiting review at this time
+  approvalAutoDecision?: ApprovalAutoDecision | null;
+  // null/missing means cancellations are not refunded
+  refundPolicy?: RefundPolicy | null;
   createdAt: Date;
   updatedAt?: Date;
   normalForm?:
@@ -82,6 +156,13 @@ type NormalFormField = {
   order: number;
 }; // for typescript type-checks
 
+type AttendanceCheckpoint = {
+  key: string;
+  name: string;
+  // scans one ticket gets here, e.g. 1 for a gate entry or 3 for a three-meal coupon
+  scanLimit: number;
+};
+
 type MerchVariant = {
   sku: string;
   label: string;
@@ -89,7 +170,12 @@ type MerchVariant = {
   priceDelta?: number | undefined;
 };
 
-type ParticipationStatus = "pending" | "confirmed" | "cancelled" | "rejected";
+type ParticipationStatus =
+  | "pending"
+  | "confirmed"
+  | "waitlisted"
+  | "cancelled"
+  | "rejected";
 
 type StoredNormalResponse = {
   key: string;
@@ -123,6 +209,10 @@ type StoredParticipationDoc = {
   updatedAt?: Date;
   eventType?: EventType;
   ticketId?: string;
+  waitlistedAt?: Date;
+  teamId?: ObjectId;
+  review?: RegistrationReview;
+  paymentHoldExpiresAt?: Date;
   normalResponses?: StoredNormalResponse[] | undefined;
   merchPurchase?: MerchPurchaseSnapshot | undefined;
 };
@@ -142,12 +232,16 @@ type EventAnalyticsSummary = {
   activeParticipations: number;
   confirmedCount: number;
   pendingCount: number;
+  waitlistedCount: number;
   cancelledCount: number;
   rejectedCount: number;
   normalCount: number;
   merchCount: number;
   registrations24h: number;
   estimatedRevenue: number;
+  // from the payment records: paid back on cancellations, and collected net of refunds
+  refundedAmount: number;
+  netRevenue: number;
   attendanceMarked: number;
   attendanceRate: number;
 };
@@ -170,25 +264,34 @@ type ParticipantPreferenceDoc = {
 type StoredPaymentDoc = {
   _id: ObjectId;
   registrationId: ObjectId;
-  method: "upi" | "bank_transfer" | "cash" | "card" | "other";
+  method: "upi" | "bank_transfer" | "cash" | "card" | "other" | "online";
   amount: number;
   proofUrl?: string;
-  status: "pending" | "approved" | "rejected";
+  status: "pending" | "approved" | "rejected" | "refunded" | "partially_refunded";
   createdAt: Date;
+  refundedAmount?: number;
 };
 
+// one per participation and checkpoint
 type StoredAttendanceDoc = {
   _id: ObjectId;
   eventId: ObjectId;
   participationId: ObjectId;
   userId: ObjectId;
+  checkpointKey: string;
+  // counted scans, capped by the checkpoint's scanLimit
+  scanCount: number;
+  // first scan at this checkpoint
   markedAt: Date;
+  lastScannedAt: Date;
 };
 
-type AttendanceAuditAction =
-  | "scan_mark_present"
-  | "manual_mark_present"
-  | "manual_mark_absent";
+const attendanceAuditActions = [
+  "scan_mark_present",
+  "manual_mark_present",
+  "manual_mark_absent",
+] as const;
+type AttendanceAuditAction = (typeof attendanceAuditActions)[number];
 
 type StoredAttendanceAuditDoc = {
   _id: ObjectId;
@@ -196,6 +299,16 @@ type StoredAttendanceAuditDoc = {
   participationId: ObjectId;
   userId: ObjectId;
   actorOrganizerId: ObjectId;
+  // set when a team member acted for the club rather than the organizer account
+  actorUserId?: ObjectId;
+  actorTeamRole?: TeamMemberRole;
+  // set when a paired gate device scanned with its scanner token; the label is copied so
+  // entries still read correctly after the token is revoked
+  scannerTokenId?: ObjectId;
+  scannerLabel?: string;
+  // offline scans keep the original scan time in createdAt; this is when they reached the server
+  syncedAt?: Date;
+  checkpointKey: string;
   action: AttendanceAuditAction;
   reason?: string;
   previousIsPresent: boolean;
@@ -205,11 +318,26 @@ type StoredAttendanceAuditDoc = {
   createdAt: Date;
 };
 
+// one per offline manifest handed out; synced scans are bounded by when their manifest was
+// downloaded as recorded here, not by a time the device reports
+type StoredAttendanceManifestDoc = {
+  _id: ObjectId;
+  eventId: ObjectId;
+  downloadedBy: ObjectId;
+  generatedAt: Date;
+  ticketCount: number;
+};
+
+type TeamActor = {
+  userId: ObjectId;
+  role: TeamMemberRole;
+};
+
 type TicketQrPayloadData = {
-  ticketId?: string;
-  eventId?: ObjectId;
-  userId?: ObjectId;
-  participationId?: ObjectId;
+  ticketId: string;
+  eventId: ObjectId;
+  userId: ObjectId;
+  participationId: ObjectId;
 };
 
 type ParticipantViewerContext = {
@@ -272,6 +400,122 @@ const merchConfigSchema = z.object({
   perParticipantLimit: z.number().int().min(1).max(1000).default(1),
 });
 
+const attendanceCheckpointSchema = z.object({
+  key: z
+    .string()
+    .trim()
+    .regex(/^[a-z0-9][a-z0-9_-]{0,39}$/, "key must be lowercase letters, digits, - or _"),
+  name: z.string().trim().min(1).max(80),
+  scanLimit: z.number().int().min(1).max(50).default(1),
+});
+
+const attendanceCheckpointsSchema = z
+  .array(attendanceCheckpointSchema)
+  .min(1)
+  .max(30)
+  .superRefine((checkpoints, ctx) => {
+    const seen = new Set<string>();
+    checkpoints.forEach((checkpoint, index) => {
+      if (seen.has(checkpoint.key)) {
+        ctx.addIssue({
+          code: "custom",
+          path: [index, "key"],
+          message: `Duplicate checkpoint key "${checkpoint.key}"`,
+        });
+      }
+      seen.add(checkpoint.key);
+    });
+  });
+
+// team sizes count the leader
+const teamConfigSchema = z
+  .object({
+    minSize: z.number().int().min(1).max(20),
+    maxSize: z.number().int().min(2).max(20),
+  })
+  .refine((config) => config.minSize <= config.maxSize, {
+    path: ["maxSize"],
+    message: "maxSize must be at least minSize",
+  });
+
+const approvalAutoDecisionSchema = z.object({
+  at: z.coerce.date(),
+  decision: z.enum(["accept", "reject"]),
+});
+
+// up to five tiers, e.g. 100% a week out and 50% two days out; later cancellations refund nothing
+const refundPolicySchema = z
+  .object({
+    tiers: z
+      .array(
+        z.object({
+          hoursBeforeStart: z.number().int().min(0).max(8760),
+          percent: z.number().int().min(0).max(100),
+        }),
+      )
+      .min(1)
+      .max(5)
+      .superRefine((tiers, ctx) => {
+        const seen = new Set<number>();
+        tiers.forEach((tier, index) => {
+          if (seen.has(tier.hoursBeforeStart)) {
+            ctx.addIssue({
+              code: "custom",
+              path: [index, "hoursBeforeStart"],
+              message: "Each tier needs a different hoursBeforeStart",
+            });
+          }
+          seen.add(tier.hoursBeforeStart);
+        });
+      }),
+  })
+  .transform(normalizeRefundPolicy);
+
+// 5 minutes up to 30 days before start
+const reminderOffsetsSchema = z.array(z.number().int().min(5).max(43200)).max(5);
+
+// approval mode is for individual NORMAL registrations; the auto-decision runs once registration
+// has closed and before the event ends
+function validateApprovalSettings(settings: {
+  type: EventType;
+  requiresApproval: boolean;
+  teamConfig: EventTeamConfig | null;
+  approvalAutoDecision: ApprovalAutoDecision | null;
+  regDeadline: Date;
+  endDate: Date;
+}): { field: "requiresApproval" | "approvalAutoDecision"; message: string } | null {
+  if (settings.requiresApproval && settings.type === "MERCH") {
+    return {
+      field: "requiresApproval",
+      message: "requiresApproval is not allowed for MERCH events",
+    };
+  }
+  if (settings.requiresApproval && settings.teamConfig) {
+    return {
+      field: "requiresApproval",
+      message: "Team events cannot require registration approval",
+    };
+  }
+  if (!settings.approvalAutoDecision) return null;
+
+  if (!settings.requiresApproval) {
+    return {
+      field: "approvalAutoDecision",
+      message: "approvalAutoDecision requires requiresApproval",
+    };
+  }
+  if (
+    settings.approvalAutoDecision.at < settings.regDeadline ||
+    settings.approvalAutoDecision.at >= settings.endDate
+  ) {
+    return {
+      field: "approvalAutoDecision",
+      message: "Auto-decision time must be between regDeadline and endDate",
+    };
+  }
+  return null;
+}
+
 const createEventSchema = z
   .object({
     name: z.string().trim().min(1).max(160),
@@ -286,8 +530,22 @@ const createEventSchema = z
     endDate: z.coerce.date(),
     normalForm: normalFormSchema.optional(),
     merchConfig: merchConfigSchema.optional(),
+    scheduledPublishAt: z.coerce.date().nullable().optional(),
+    reminderOffsetsMinutes: reminderOffsetsSchema.nullable().optional(),
+    attendanceCheckpoints: attendanceCheckpointsSchema.optional(),
+    teamConfig: teamConfigSchema.nullable().optional(),
+    requiresApproval: z.boolean().optional(),
+    approvalAutoDecision: approvalAutoDecisionSchema.nullable().optional(),
+    refundPolicy: refundPolicySchema.nullable().optional(),
   })
   .superRefine((data, ctx) => {
+    if (data.scheduledPublishAt && data.scheduledPublishAt <= new Date()) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["scheduledPublishAt"],
+        message: "scheduledPublishAt must be in the future",
+      });
+    }
     if (data.endDate <= data.startDate) {
       ctx.addIssue({
         code: "custom",
@@ -319,6 +577,30 @@ const createEventSchema = z
       });
     }
 
+    if (data.type === "MERCH" && data.teamConfig) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["teamConfig"],
+        message: "teamConfig is not allowed for MERCH events",
+      });
+    }
+
+    const approvalError = validateApprovalSettings({
+      type: data.type,
+      requiresApproval: data.requiresApproval ?? false,
+      teamConfig: data.teamConfig ?? null,
+      approvalAutoDecision: data.approvalAutoDecision ?? null,
+      regDeadline: data.regDeadline,
+      endDate: data.endDate,
+    });
+    if (approvalError) {
+      ctx.addIssue({
+        code: "custom",
+        path: [approvalError.field],
+        message: approvalError.message,
+      });
+    }
+
     if (data.type === "MERCH" && !data.merchConfig) {
       ctx.addIssue({
         code: "custom",
@@ -349,16 +631,31 @@ const updateEventSchema = z.object({
   endDate: z.coerce.date().optional(),
   normalForm: normalFormSchema.optional(),
   merchConfig: merchConfigSchema.optional(),
+  // null clears a pending scheduled publish
+  scheduledPublishAt: z.coerce.date().nullable().optional(),
+  // null goes back to the default reminder offsets
+  reminderOffsetsMinutes: reminderOffsetsSchema.nullable().optional(),
+  // null switches back to individual registrations
+  teamConfig: teamConfigSchema.nullable().optional(),
+  requiresApproval: z.boolean().optional(),
+  // null turns the auto-decision off
+  approvalAutoDecision: approvalAutoDecisionSchema.nullable().optional(),
+  // null stops refunding cancellations; requests already opened are unaffected
+  refundPolicy: refundPolicySchema.nullable().optional(),
 });
 
 const updateEventStatusSchema = z.object({
   status: z.enum(persistedEventStatuses),
 });
 
+// checkpointKey defaults to the event's first checkpoint
+const checkpointKeySchema = z.string().trim().min(1).max(40).optional();
+
 const markAttendanceSchema = z
   .object({
     ticketId: z.string().trim().min(1).max(120).optional(),
     qrPayload: z.string().trim().min(1).max(8000).optional(),
+    checkpointKey: checkpointKeySchema,
   })
   .superRefine((data, ctx) => {
     if (!data.ticketId && !data.qrPayload) {
@@ -370,10 +667,81 @@ const markAttendanceSchema = z
     }
   });
 
+const createAnnouncementSchema = z.object({
+  // ends up in the email subject, which has to stay on one line
+  title: z
+    .string()
+    .trim()
+    .min(1)
+    .max(160)
+    .regex(/^[^\r\n]*$/, "Title must be a single line"),
+  message: z.string().trim().min(1).max(5000),
+  audience: z
+    .object({
+      statuses: z
+        .array(z.enum(["pending", "confirmed", "waitlisted", "cancelled", "rejected"]))
+        .min(1)
+        .default(["pending", "confirmed", "waitlisted"]),
+      attendance: z.enum(["any", "present", "absent"]).default("any"),
+    })
+    .default({ statuses: ["pending", "confirmed", "waitlisted"], attendance: "any" }),
+  sendEmail: z.boolean().default(true),
+});
+
 const overrideAttendanceSchema = z.object({
   participationId: z.string().trim().min(1),
   present: z.boolean(),
   reason: z.string().trim().min(3).max(500),
+  checkpointKey: checkpointKeySchema,
+});
+
+const offlineScanSchema = z
+  .object({
+    // generated on the scanning device so it can match results back to its queue
+    clientScanId: z.string().trim().min(1).max(100),
+    ticketId: z.string().trim().min(1).max(120).optional(),
+    qrPayload: z.string().trim().min(1).max(8000).optional(),
+    checkpointKey: checkpointKeySchema,
+    scannedAt: z.coerce.date(),
+    // id of the offline manifest the device checked the scan against; no scan can predate it
+    manifestId: z.string().trim().min(1).max(40).optional(),
+  })
+  .refine((data) => Boolean(data.ticketId || data.qrPayload), {
+    message: "ticketId or qrPayload is required",
+    path: ["ticketId"],
+  });
+
+const syncAttendanceSchema = z.object({
+  scans: z.array(offlineScanSchema).min(1).max(OFFLINE_SYNC_MAX_SCANS),
+});
+
+const updateAttendanceCheckpointsSchema = z.object({
+  checkpoints: attendanceCheckpointsSchema,
+});
+
+const attendanceAuditQuerySchema = z.object({
+  action: z.enum(attendanceAuditActions).optional(),
+  // "organizer" for the organizer account, "member:<userId>" or "device:<scannerTokenId>"
+  actor: z
+    .string()
+    .trim()
+    .regex(/^(organizer|member:[0-9a-f]{24}|device:[0-9a-f]{24})$/i, "Invalid actor")
+    .optional(),
+  // a participation or user id, or part of a participant's name or email
+  participant: z.string().trim().min(1).max(120).optional(),
+  checkpointKey: z.string().trim().min(1).max(40).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  format: z.enum(["json", "csv"]).default("json"),
+});
+
+// csv exports ignore paging but stop here
+const ATTENDANCE_AUDIT_CSV_MAX_ROWS = 10000;
+
+const createScannerTokenSchema = z.object({
+  label: z.string().trim().min(1).max(60),
 });
 
 const publicEventsQuerySchema = z
@@ -403,8 +771,15 @@ function parseObjectId(rawId: unknown): ObjectId | null {
   return new ObjectId(rawId);
 }
 
-function getOrganizerObjectId(userId: string): ObjectId | null {
-  return parseObjectId(userId);
+// the club an organizer route acts for; the organizer's own id unless a team member is acting
+function getActingOrganizerId(req: Request): ObjectId | null {
+  return req.organizerAccess?.organizerId ?? req.scannerDevice?.organizerId ?? null;
+}
+
+function getTeamActor(req: Request): TeamActor | undefined {
+  const access = req.organizerAccess;
+  if (!access?.teamRole) return undefined;
+  return { userId: access.actorUserId, role: access.teamRole };
 }
 
 function readQueryStringValue(value: unknown): string | undefined {
@@ -423,35 +798,174 @@ function readQueryBooleanValue(value: unknown): boolean | undefined {
   return undefined;
 }
 
-function parseTicketQrPayload(raw: string): TicketQrPayloadData | null {
-  try {
-    const parsed = JSON.parse(raw) as unknown;
-    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
-      return null;
-    }
-    const payload = parsed as Record<string, unknown>;
-
-    const ticketId =
-      typeof payload.ticketId === "string" && payload.ticketId.trim().length > 0
-        ? payload.ticketId.trim()
-        : undefined;
-    const eventId = parseObjectId(payload.eventId);
-    const userId = parseObjectId(payload.userId);
-    const participationId = parseObjectId(payload.participationId);
-
-    if (!ticketId && !participationId) {
-      return null;
+// only payloads carrying a valid server signature are trusted
+async function readSignedTicketQrPayload(
+  raw: string,
+): Promise<TicketQrPayloadData | null> {
+  const claims = await verifyTicketQrPayload(raw);
+  if (!claims) return null;
+
+  const eventId = parseObjectId(claims.eventId);
+  const userId = parseObjectId(claims.userId);
+  const participationId = parseObjectId(claims.participationId);
+  if (!eventId || !userId || !participationId) return null;
+
+  return {
+    ticketId: claims.ticketId,
+    eventId,
+    userId,
+    participationId,
+  };
+}
+
+function getAttendanceCheckpoints(event: StoredEventDoc): AttendanceCheckpoint[] {
+  return event.attendanceCheckpoints && event.attendanceCheckpoints.length > 0
+    ? event.attendanceCheckpoints
+    : [DEFAULT_ATTENDANCE_CHECKPOINT];
+}
+
+// no key picks the event's first checkpoint; null when the key isn't one of the event's
+function resolveAttendanceCheckpoint(
+  event: StoredEventDoc,
+  checkpointKey: string | undefined,
+): AttendanceCheckpoint | null {
+  const checkpoints = getAttendanceCheckpoints(event);
+  if (!checkpointKey) return checkpoints[0] ?? null;
+  return checkpoints.find((checkpoint) => checkpoint.key === checkpointKey) ?? null;
+}
+
+function isDuplicateKeyError(err: unknown): boolean {
+  return Boolean(
+    err &&
+      typeof err === "object" &&
+      "code" in err &&
+      (err as { code?: number }).code === 11000,
+  );
+}
+
+type CheckpointScanOutcome =
+  | { counted: true; previous: StoredAttendanceDoc | null; attendance: StoredAttendanceDoc }
+  | { counted: false; attendance: StoredAttendanceDoc };
+
+// counts one scan at a checkpoint. the scanCount filter keeps the limit under concurrent scans:
+// a full checkpoint falls through to an upsert insert, which the unique index rejects
+async function recordCheckpointScan(params: {
+  attendances: Collection<StoredAttendanceDoc>;
+  eventId: ObjectId;
+  participationId: ObjectId;
+  userId: ObjectId;
+  checkpoint: AttendanceCheckpoint;
+  scannedAt: Date;
+}): Promise<CheckpointScanOutcome> {
+  const { attendances, checkpoint, scannedAt } = params;
+  const attendanceFilter = {
+    participationId: params.participationId,
+    checkpointKey: checkpoint.key,
+  };
+
+  // two first scans can race to the insert; the loser retries once against the winner's record
+  for (let attempt = 0; ; attempt += 1) {
+    const _id = new ObjectId();
+    try {
+      const previous = await attendances.findOneAndUpdate(
+        { ...attendanceFilter, scanCount: { $lt: checkpoint.scanLimit } },
+        {
+          $inc: { scanCount: 1 },
+          $min: { markedAt: scannedAt },
+          $max: { lastScannedAt: scannedAt },
+          $setOnInsert: { _id, eventId: params.eventId, userId: params.userId },
+        },
+        { upsert: true, returnDocument: "before" },
+      );
+
+      return {
+        counted: true,
+        previous,
+        attendance: previous
+          ? {
+              ...previous,
+              scanCount: previous.scanCount + 1,
+              markedAt: previous.markedAt < scannedAt ? previous.markedAt : scannedAt,
+              lastScannedAt:
+                previous.lastScannedAt > scannedAt ? previous.lastScannedAt : scannedAt,
+            }
+          : {
+              _id,
+              eventId: params.eventId,
+              participationId: params.participationId,
+              userId: params.userId,
+              checkpointKey: checkpoint.key,
+              scanCount: 1,
+              markedAt: scannedAt,
+              lastScannedAt: scannedAt,
+            },
+      };
+    } catch (err: unknown) {
+      if (!isDuplicateKeyError(err)) throw err;
+
+      const current = await attendances.findOne(attendanceFilter);
+      if (!current) throw err;
+      if (current.scanCount >= checkpoint.scanLimit || attempt > 0) {
+        return { counted: false, attendance: current };
+      }
     }
+  }
+}
+
+function toAttendanceResponse(attendance: StoredAttendanceDoc) {
+  return {
+    id: attendance._id.toString(),
+    eventId: attendance.eventId.toString(),
+    participationId: attendance.participationId.toString(),
+    userId: attendance.userId.toString(),
+    checkpointKey: attendance.checkpointKey,
+    scanCount: attendance.scanCount,
+    markedAt: attendance.markedAt,
+    lastScannedAt: attendance.lastScannedAt,
+  };
+}
 
+// per-checkpoint view of one participation's attendance records, in the event's checkpoint order
+function toCheckpointAttendanceResponse(
+  checkpoints: AttendanceCheckpoint[],
+  attendances: StoredAttendanceDoc[],
+) {
+  return checkpoints.map((checkpoint) => {
+    const attendance = attendances.find((entry) => entry.checkpointKey === checkpoint.key);
     return {
-      ...(ticketId ? { ticketId } : {}),
-      ...(eventId ? { eventId } : {}),
-      ...(userId ? { userId } : {}),
-      ...(participationId ? { participationId } : {}),
+      key: checkpoint.key,
+      name: checkpoint.name,
+      scanLimit: checkpoint.scanLimit,
+      scanCount: attendance?.scanCount ?? 0,
+      markedAt: attendance?.markedAt ?? null,
+      lastScannedAt: attendance?.lastScannedAt ?? null,
     };
-  } catch {
-    return null;
+  });
+}
+
+function groupAttendancesByParticipationId(
+  attendances: StoredAttendanceDoc[],
+): Map<string, StoredAttendanceDoc[]> {
+  const grouped = new Map<string, StoredAttendanceDoc[]>();
+  for (const attendance of attendances) {
+    const key = attendance.participationId.toString();
+    const list = grouped.get(key);
+    if (list) {
+      list.push(attendance);
+    } else {
+      grouped.set(key, [attendance]);
+    }
+  }
+  return grouped;
+}
+
+// earliest scan at any checkpoint, which is what "present" means for the event as a whole
+function earliestMarkedAt(attendances: StoredAttendanceDoc[]): Date | null {
+  let earliest: Date | null = null;
+  for (const attendance of attendances) {
+    if (!earliest || attendance.markedAt < earliest) earliest = attendance.markedAt;
   }
+  return earliest;
 }
 
 async function appendAttendanceAuditLog(params: {
@@ -459,7 +973,10 @@ async function appendAttendanceAuditLog(params: {
   eventId: ObjectId;
   participationId: ObjectId;
   userId: ObjectId;
+  checkpointKey: string;
   actorOrganizerId: ObjectId;
+  teamActor: TeamActor | undefined;
+  scannerDevice: ScannerDevice | undefined;
   action: AttendanceAuditAction;
   reason?: string;
   previousIsPresent: boolean;
@@ -467,6 +984,7 @@ async function appendAttendanceAuditLog(params: {
   nextIsPresent: boolean;
   nextMarkedAt: Date | null;
   createdAt: Date;
+  syncedAt?: Date;
 }): Promise<void> {
   const baseDoc = {
     _id: new ObjectId(),
@@ -474,12 +992,20 @@ async function appendAttendanceAuditLog(params: {
     participationId: params.participationId,
     userId: params.userId,
     actorOrganizerId: params.actorOrganizerId,
+    ...(params.teamActor
+      ? { actorUserId: params.teamActor.userId, actorTeamRole: params.teamActor.role }
+      : {}),
+    ...(params.scannerDevice
+      ? { scannerTokenId: params.scannerDevice.tokenId, scannerLabel: params.scannerDevice.label }
+      : {}),
     action: params.action,
     previousIsPresent: params.previousIsPresent,
     previousMarkedAt: params.previousMarkedAt,
     nextIsPresent: params.nextIsPresent,
     nextMarkedAt: params.nextMarkedAt,
     createdAt: params.createdAt,
+    ...(params.syncedAt ? { syncedAt: params.syncedAt } : {}),
+    checkpointKey: params.checkpointKey,
   };
   const reason = params.reason?.trim();
   const doc: StoredAttendanceAuditDoc = reason
@@ -489,6 +1015,418 @@ async function appendAttendanceAuditLog(params: {
   await params.attendanceAuditLogs.insertOne(doc);
 }
 
+type AttendanceAuditActorNames = {
+  organizerNameById: Map<string, string>;
+  memberNameById: Map<string, string>;
+};
+
+async function loadAttendanceAuditActorNames(
+  entries: StoredAttendanceAuditDoc[],
+): Promise<AttendanceAuditActorNames> {
+  const users = getDb().collection<OrganizerUserDoc | ParticipantUserDoc>(collections.users);
+  const actorOrganizerIds = [
+    ...new Set(entries.map((entry) => entry.actorOrganizerId.toString())),
+  ].map((id) => new ObjectId(id));
+  const actorMemberIds = [
+    ...new Set(
+      entries.flatMap((entry) => (entry.actorUserId ? [entry.actorUserId.toString()] : [])),
+    ),
+  ].map((id) => new ObjectId(id));
+
+  const organizerActors =
+    actorOrganizerIds.length > 0
+      ? await users
+          .find({
+            _id: { $in: actorOrganizerIds },
+            role: "organizer",
+          })
+          .toArray()
+      : [];
+  const memberActors =
+    actorMemberIds.length > 0
+      ? await users.find({ _id: { $in: actorMemberIds } }).toArray()
+      : [];
+
+  return {
+    organizerNameById: new Map(
+      organizerActors.map((entry) => [entry._id.toString(), entry.name]),
+    ),
+    memberNameById: new Map(memberActors.map((entry) => [entry._id.toString(), entry.name])),
+  };
+}
+
+function buildAttendanceAuditFilter(
+  eventId: ObjectId,
+  query: Omit<z.infer<typeof attendanceAuditQuerySchema>, "page" | "limit" | "format">,
+  participantsById: Map<string, ParticipantUserDoc>,
+): Filter<StoredAttendanceAuditDoc> {
+  const filter: Filter<StoredAttendanceAuditDoc> = { eventId };
+  if (query.action) filter.action = query.action;
+  if (query.checkpointKey) filter.checkpointKey = query.checkpointKey;
+
+  if (query.actor === "organizer") {
+    filter.actorUserId = { $exists: false };
+    filter.scannerTokenId = { $exists: false };
+  } else if (query.actor?.startsWith("member:")) {
+    filter.actorUserId = new ObjectId(query.actor.slice("member:".length));
+  } else if (query.actor?.startsWith("device:")) {
+    filter.scannerTokenId = new ObjectId(query.actor.slice("device:".length));
+  }
+
+  if (query.participant) {
+    if (ObjectId.isValid(query.participant) && query.participant.length === 24) {
+      const id = new ObjectId(query.participant);
+      filter.$or = [{ participationId: id }, { userId: id }];
+    } else {
+      const needle = query.participant.toLowerCase();
+      filter.userId = {
+        $in: [...participantsById.values()]
+          .filter(
+            (participant) =>
+              participant.name.toLowerCase().includes(needle) ||
+              participant.email.toLowerCase().includes(needle),
+          )
+          .map((participant) => participant._id),
+      };
+    }
+  }
+
+  if (query.from || query.to) {
+    filter.createdAt = {
+      ...(query.from ? { $gte: query.from } : {}),
+      ...(query.to ? { $lte: query.to } : {}),
+    };
+  }
+
+  return filter;
+}
+
+// everyone who has changed attendance for the event, for the audit actor filter
+async function listAttendanceAuditActors(
+  attendanceAuditLogs: Collection<StoredAttendanceAuditDoc>,
+  eventId: ObjectId,
+  actorNames: AttendanceAuditActorNames,
+) {
+  const [memberIds, devices] = await Promise.all([
+    attendanceAuditLogs.distinct("actorUserId", { eventId }),
+    attendanceAuditLogs
+      .aggregate<{ _id: ObjectId; label: string }>([
+        { $match: { eventId, scannerTokenId: { $exists: true } } },
+        { $sort: { createdAt: 1 } },
+        { $group: { _id: "$scannerTokenId", label: { $last: "$scannerLabel" } } },
+      ])
+      .toArray(),
+  ]);
+
+  return [
+    { value: "organizer", label: "Organizer account" },
+    ...memberIds.flatMap((memberId) =>
+      memberId
+        ? [
+            {
+              value: `member:${memberId.toString()}`,
+              label: actorNames.memberNameById.get(memberId.toString()) ?? "Former team member",
+            },
+          ]
+        : [],
+    ),
+    ...devices.map((device) => ({
+      value: `device:${device._id.toString()}`,
+      label: `Device: ${device.label}`,
+    })),
+  ];
+}
+
+function toAttendanceAuditResponse(
+  entry: StoredAttendanceAuditDoc,
+  actorNames: AttendanceAuditActorNames,
+  participantsById: Map<string, ParticipantUserDoc>,
+) {
+  return {
+    id: entry._id.toString(),
+    eventId: entry.eventId.toString(),
+    participationId: entry.participationId.toString(),
+    userId: entry.userId.toString(),
+    participantName:
+      participantsById.get(entry.userId.toString())?.name ?? "Unknown participant",
+    actorOrganizerId: entry.actorOrganizerId.toString(),
+    actorOrganizerName:
+      actorNames.organizerNameById.get(entry.actorOrganizerId.toString()) ?? null,
+    actorMember: entry.actorUserId
+      ? {
+          id: entry.actorUserId.toString(),
+          name:
+            actorNames.memberNameById.get(entry.actorUserId.toString()) ??
+            "Former team member",
+          role: entry.actorTeamRole ?? null,
+        }
+      : null,
+    device:
+      entry.scannerTokenId && entry.scannerLabel
+        ? { id: entry.scannerTokenId.toString(), label: entry.scannerLabel }
+        : null,
+    action: entry.action,
+    reason: entry.reason ?? null,
+    previousIsPresent: entry.previousIsPresent,
+    previousMarkedAt: entry.previousMarkedAt,
+    nextIsPresent: entry.nextIsPresent,
+    nextMarkedAt: entry.nextMarkedAt,
+    createdAt: entry.createdAt,
+    syncedAt: entry.syncedAt ?? null,
+    checkpointKey: entry.checkpointKey,
+  };
+}
+
+type AttendanceTicketResolution =
+  | {
+      ok: true;
+      event: StoredEventDoc;
+      checkpoint: AttendanceCheckpoint;
+      ticket: StoredTicketDoc;
+      participation: StoredParticipationDoc;
+    }
+  | { ok: false; status: 400 | 404; message: string };
+
+// shared by scan, lookup and sync: the event and checkpoint being scanned, and the ticket and
+// participation behind a ticket id or signed qr
+async function resolveAttendanceTicket(params: {
+  eventId: ObjectId;
+  organizerId: ObjectId;
+  checkpointKey: string | undefined;
+  ticketId?: string | undefined;
+  qrPayload?: string | undefined;
+}): Promise<AttendanceTicketResolution> {
+  // signature is checked before any DB lookup so forged payloads never reach the database
+  const rawTicketId = params.ticketId?.trim();
+  const rawQrPayload = params.qrPayload?.trim();
+  const qrData = rawQrPayload ? await readSignedTicketQrPayload(rawQrPayload) : null;
+  if (rawQrPayload && !qrData) {
+    return { ok: false, status: 400, message: "Invalid or unsigned qrPayload" };
+  }
+  if (qrData && !qrData.eventId.equals(params.eventId)) {
+    return { ok: false, status: 400, message: "Ticket does not belong to this event" };
+  }
+
+  const db = getDb();
+  const event = await db
+    .collection<StoredEventDoc>(collections.events)
+    .findOne({ _id: params.eventId, organizerId: params.organizerId });
+  if (!event) {
+    return { ok: false, status: 404, message: "Event not found" };
+  }
+
+  const checkpoint = resolveAttendanceCheckpoint(event, params.checkpointKey);
+  if (!checkpoint) {
+    return { ok: false, status: 400, message: "Unknown checkpoint for this event" };
+  }
+
+  const ticketId = rawTicketId ?? qrData?.ticketId;
+  const ticket = ticketId
+    ? await db.collection<StoredTicketDoc>(collections.tickets).findOne({ ticketId })
+    : null;
+  if (!ticket) {
+    return { ok: false, status: 404, message: "Ticket not found" };
+  }
+
+  if (!ticket.eventId.equals(params.eventId)) {
+    return { ok: false, status: 400, message: "Ticket does not belong to this event" };
+  }
+
+  if (
+    qrData &&
+    (qrData.ticketId !== ticket.ticketId ||
+      !qrData.eventId.equals(ticket.eventId) ||
+      !qrData.userId.equals(ticket.userId) ||
+      !qrData.participationId.equals(ticket.participationId))
+  ) {
+    return { ok: false, status: 400, message: "Invalid qrPayload" };
+  }
+
+  const participation = await db
+    .collection<StoredParticipationDoc>(collections.registrations)
+    .findOne({ _id: ticket.participationId, eventId: ticket.eventId });
+  if (!participation) {
+    return { ok: false, status: 404, message: "Participation not found for this ticket" };
+  }
+
+  return { ok: true, event, checkpoint, ticket, participation };
+}
+
+type OfflineScanStatus =
+  | "marked"
+  | "moved_earlier"
+  | "already_marked"
+  | "superseded"
+  | "rejected";
+
+type OfflineScanResult = {
+  clientScanId: string;
+  status: OfflineScanStatus;
+  message: string | null;
+  ticketId: string | null;
+  participantName: string | null;
+  checkpointKey: string | null;
+  scanCount: number | null;
+  markedAt: Date | null;
+};
+
+// one queued offline scan against the live attendance records
+async function applyOfflineScan(params: {
+  eventId: ObjectId;
+  organizerId: ObjectId;
+  scan: z.infer<typeof offlineScanSchema>;
+  eventStartDate: Date;
+  // when the scan's manifest was downloaded; null when the server has no record of it
+  manifestGeneratedAt: Date | null;
+  syncedAt: Date;
+  teamActor: TeamActor | undefined;
+  scannerDevice: ScannerDevice | undefined;
+}): Promise<OfflineScanResult> {
+  const { scan, syncedAt } = params;
+  const reject = (message: string, ticketId: string | null = null): OfflineScanResult => ({
+    clientScanId: scan.clientScanId,
+    status: "rejected",
+    message,
+    ticketId,
+    participantName: null,
+    checkpointKey: scan.checkpointKey ?? null,
+    scanCount: null,
+    markedAt: null,
+  });
+
+  if (scan.scannedAt.getTime() > syncedAt.getTime() + OFFLINE_SCAN_CLOCK_SKEW_MS) {
+    return reject("Scan time is in the future");
+  }
+  if (scan.scannedAt.getTime() < params.eventStartDate.getTime() - OFFLINE_SCAN_CLOCK_SKEW_MS) {
+    return reject("Scan time is before the event started");
+  }
+  const { manifestGeneratedAt } = params;
+  if (!manifestGeneratedAt) {
+    return reject("Scan was not checked against an offline manifest downloaded by this account");
+  }
+  if (scan.scannedAt.getTime() < manifestGeneratedAt.getTime() - OFFLINE_SCAN_CLOCK_SKEW_MS) {
+    return reject("Scan time is before the offline manifest was downloaded");
+  }
+  // a backdated scan would otherwise move attendance earlier than anyone could have arrived
+  const earliestAt = Math.max(params.eventStartDate.getTime(), manifestGeneratedAt.getTime());
+  let scannedAt = scan.scannedAt;
+  if (scannedAt.getTime() < earliestAt) scannedAt = new Date(earliestAt);
+  if (scannedAt > syncedAt) scannedAt = syncedAt;
+
+  const resolved = await resolveAttendanceTicket({
+    eventId: params.eventId,
+    organizerId: params.organizerId,
+    checkpointKey: scan.checkpointKey,
+    ticketId: scan.ticketId,
+    qrPayload: scan.qrPayload,
+  });
+  if (!resolved.ok) return reject(resolved.message, scan.ticketId ?? null);
+  const { checkpoint, ticket, participation } = resolved;
+
+  if (participation.status !== "confirmed") {
+    return reject(
+      `Cannot mark attendance for ${participation.status} participation`,
+      ticket.ticketId,
+    );
+  }
+
+  const db = getDb();
+  const attendances = db.collection<StoredAttendanceDoc>(collections.attendances);
+  const attendanceAuditLogs = db.collection<StoredAttendanceAuditDoc>(
+    collections.attendanceAuditLogs,
+  );
+  const participant = await db
+    .collection<ParticipantUserDoc>(collections.users)
+    .findOne({ _id: participation.userId, role: "participant" });
+  const participantName = participant?.name ?? "Unknown participant";
+  const result = (
+    status: OfflineScanStatus,
+    attendance: StoredAttendanceDoc | null,
+    message: string | null = null,
+  ): OfflineScanResult => ({
+    clientScanId: scan.clientScanId,
+    status,
+    message,
+    ticketId: ticket.ticketId,
+    participantName,
+    checkpointKey: checkpoint.key,
+    scanCount: attendance?.scanCount ?? null,
+    markedAt: attendance?.markedAt ?? null,
+  });
+  const audit = (previousMarkedAt: Date | null, nextMarkedAt: Date) =>
+    appendAttendanceAuditLog({
+      attendanceAuditLogs,
+      eventId: ticket.eventId,
+      participationId: ticket.participationId,
+      userId: ticket.userId,
+      checkpointKey: checkpoint.key,
+      actorOrganizerId: params.organizerId,
+      teamActor: params.teamActor,
+      scannerDevice: params.scannerDevice,
+      action: "scan_mark_present",
+      previousIsPresent: previousMarkedAt !== null,
+      previousMarkedAt,
+      nextIsPresent: true,
+      nextMarkedAt,
+      createdAt: scannedAt,
+      syncedAt,
+    });
+
+  const existing = await attendances.findOne({
+    participationId: participation._id,
+    checkpointKey: checkpoint.key,
+  });
+  if (!existing) {
+    // a manual override made after this scan was a deliberate call; the stale scan doesn't undo it
+    const laterOverride = await attendanceAuditLogs.findOne({
+      participationId: participation._id,
+      checkpointKey: checkpoint.key,
+      action: { $in: ["manual_mark_present", "manual_mark_absent"] },
+      createdAt: { $gt: scannedAt },
+    });
+    if (laterOverride) {
+      return result("superseded", null, "Attendance was changed manually after this scan");
+    }
+  }
+
+  const outcome = await recordCheckpointScan({
+    attendances,
+    eventId: ticket.eventId,
+    participationId: ticket.participationId,
+    userId: ticket.userId,
+    checkpoint,
+    scannedAt,
+  });
+  if (outcome.counted) {
+    const previousMarkedAt = outcome.previous?.markedAt ?? null;
+    await audit(previousMarkedAt, outcome.attendance.markedAt);
+    return result(
+      previousMarkedAt && previousMarkedAt > scannedAt ? "moved_earlier" : "marked",
+      outcome.attendance,
+    );
+  }
+
+  // the checkpoint is used up; an earlier offline scan still sets the first-scan time
+  const current = outcome.attendance;
+  if (current.markedAt <= scannedAt) {
+    return result("already_marked", current);
+  }
+
+  // conditional on the time we read, so two racing syncs can only move it earlier
+  const moved = await attendances.findOneAndUpdate(
+    { _id: current._id, markedAt: current.markedAt },
+    { $set: { markedAt: scannedAt } },
+    { returnDocument: "after" },
+  );
+  if (!moved) {
+    const latest = await attendances.findOne({ _id: current._id });
+    return result("already_marked", latest ?? current);
+  }
+
+  await audit(current.markedAt, scannedAt);
+  return result("moved_earlier", moved);
+}
+
 function normalizeSearchText(value: string): string {
   return value
     .toLowerCase()
@@ -585,60 +1523,6 @@ function buildPublicEventsFilter(
   return filter;
 }
 
-function deriveDisplayStatus(
-  event: StoredEventDoc,
-  now: Date,
-): DisplayEventStatus {
-  if (
-    event.status === "PUBLISHED" &&
-    now >= event.startDate &&
-    now <= event.endDate
-  ) {
-    return "ONGOING";
-  }
-
-  return event.status;
-}
-
-function validateOrganizerStatusTransition(
-  event: StoredEventDoc,
-  nextStatus: PersistedEventStatus,
-  now: Date,
-): string | null {
-  if (event.status === nextStatus) return null;
-
-  if (event.status === "COMPLETED") {
-    return "Completed events cannot change status";
-  }
-
-  if (event.status === "DRAFT") {
-    if (nextStatus !== "PUBLISHED") {
-      return "Draft events can only be moved to PUBLISHED";
-    }
-    return null;
-  }
-
-  if (event.status === "PUBLISHED") {
-    if (nextStatus === "CLOSED") return null;
-
-    if (nextStatus === "COMPLETED") {
-      if (deriveDisplayStatus(event, now) === "ONGOING") return null;
-      return "Only ongoing events can be marked completed";
-    }
-
-    return "Published events can only be moved to CLOSED";
-  }
-
-  if (event.status === "CLOSED") {
-    if (nextStatus !== "COMPLETED") {
-      return "Closed events can only be moved to COMPLETED";
-    }
-    return null;
-  }
-
-  return "Invalid event status transition";
-}
-
 function sanitizeNormalFormByType(
   eventType: EventType,
   normalForm: StoredEventDoc["normalForm"],
@@ -675,6 +1559,16 @@ function toEventResponse(event: StoredEventDoc) {
     organizerId: event.organizerId.toString(),
     status: event.status,
     displayStatus: deriveDisplayStatus(event, new Date()),
+    scheduledPublishAt: event.scheduledPublishAt ?? null,
+    reminderOffsetsMinutes: event.reminderOffsetsMinutes ?? null,
+    attendanceCheckpoints: getAttendanceCheckpoints(event),
+    teamConfig: getEventTeamConfig(event),
+    requiresApproval: event.type === "NORMAL" && event.requiresApproval === true,
+    approvalAutoDecision:
+      event.type === "NORMAL" && event.requiresApproval
+        ? (event.approvalAutoDecision ?? null)
+        : null,
+    refundPolicy: event.refundPolicy ?? null,
     createdAt: event.createdAt,
     updatedAt: event.updatedAt,
     normalForm: sanitizeNormalFormByType(event.type, event.normalForm),
@@ -699,14 +1593,12 @@ function toPublicEventResponse(event: StoredEventDoc) {
 async function getOptionalParticipantViewer(
   req: Request,
 ): Promise<ParticipantViewerContext | null> {
-  const token = req.cookies?.[AUTH_COOKIE_NAME];
-  if (!token || typeof token !== "string") return null;
-
   try {
-    const payload = verifyJwt(token);
-    if (payload.role !== "participant") return null;
+    // same checks as requireAuth, so signed-out sessions are not personalized
+    const resolution = await resolveAuthToken(req.cookies?.[AUTH_COOKIE_NAME]);
+    if (!resolution.ok || resolution.user.role !== "participant") return null;
 
-    const participantId = parseObjectId(payload.userId);
+    const participantId = parseObjectId(resolution.user.id);
     if (!participantId) return null;
 
     const users = getDb().collection<ParticipantPreferenceDoc>(collections.users);
@@ -764,8 +1656,9 @@ function scoreEventForParticipant(
   return score;
 }
 
+// waitlisted entries hold no seat or ticket, so they are not counted as active
 function isActiveParticipationStatus(status: ParticipationStatus): boolean {
-  return status !== "cancelled" && status !== "rejected";
+  return status === "pending" || status === "confirmed";
 }
 
 function resolveParticipationEventType(
@@ -791,11 +1684,56 @@ function formatNormalResponseValue(response: StoredNormalResponse): string {
   return String(response.value);
 }
 
+function toAnnouncementResponse(announcement: StoredAnnouncementDoc) {
+  return {
+    id: announcement._id.toString(),
+    eventId: announcement.eventId.toString(),
+    title: announcement.title,
+    message: announcement.message,
+    audience: announcement.audience,
+    emailEnabled: announcement.emailEnabled,
+    delivery: summarizeAnnouncementDelivery(announcement.recipients),
+    recipients: announcement.recipients.map((recipient) => ({
+      participationId: recipient.participationId.toString(),
+      userId: recipient.userId.toString(),
+      name: recipient.name,
+      email: recipient.email,
+      deliveryStatus: recipient.deliveryStatus,
+      deliveryError: recipient.deliveryError ?? null,
+      deliveredAt: recipient.deliveredAt ?? null,
+    })),
+    createdAt: announcement.createdAt,
+  };
+}
+
+// latest online checkout per payment, so organizers can tell an unpaid checkout from a paid one
+async function loadPaymentOrdersByPaymentId(
+  eventId: ObjectId,
+): Promise<Map<string, StoredPaymentOrderDoc>> {
+  const orders = await getDb()
+    .collection<StoredPaymentOrderDoc>(collections.paymentOrders)
+    .find({ eventId })
+    .sort({ createdAt: 1 })
+    .toArray();
+  return new Map(orders.map((entry) => [entry.paymentId.toString(), entry]));
+}
+
+async function loadRefundRequestsByParticipationId(
+  eventId: ObjectId,
+): Promise<Map<string, StoredRefundRequestDoc>> {
+  const refundRequests = await getDb()
+    .collection<StoredRefundRequestDoc>(collections.refundRequests)
+    .find({ eventId })
+    .toArray();
+  return new Map(refundRequests.map((entry) => [entry.participationId.toString(), entry]));
+}
+
 function buildEventAnalyticsSummary(
   event: StoredEventDoc,
   participations: StoredParticipationDoc[],
   now: Date,
   attendanceMarked = 0,
+  payments: StoredPaymentDoc[] = [],
 ): EventAnalyticsSummary {
   const since = new Date(now.getTime() - 24 * 60 * 60 * 1000);
   const summary: EventAnalyticsSummary = {
@@ -803,16 +1741,24 @@ function buildEventAnalyticsSummary(
     activeParticipations: 0,
     confirmedCount: 0,
     pendingCount: 0,
+    waitlistedCount: 0,
     cancelledCount: 0,
     rejectedCount: 0,
     normalCount: 0,
     merchCount: 0,
     registrations24h: 0,
     estimatedRevenue: 0,
+    refundedAmount: 0,
+    netRevenue: 0,
     attendanceMarked,
     attendanceRate: 0,
   };
 
+  for (const payment of payments) {
+    summary.refundedAmount += payment.refundedAmount ?? 0;
+    summary.netRevenue += getRetainedPaymentAmount(payment);
+  }
+
   for (const participation of participations) {
     const eventType = resolveParticipationEventType(participation, event.type);
     if (eventType === "MERCH") {
@@ -830,6 +1776,8 @@ function buildEventAnalyticsSummary(
       }
     } else if (participation.status === "pending") {
       summary.pendingCount += 1;
+    } else if (participation.status === "waitlisted") {
+      summary.waitlistedCount += 1;
     } else if (participation.status === "cancelled") {
       summary.cancelledCount += 1;
     } else if (participation.status === "rejected") {
@@ -853,6 +1801,32 @@ function buildEventAnalyticsSummary(
   return summary;
 }
 
+// per checkpoint: distinct participants scanned, total counted scans, and the share of active
+// participations that were scanned there
+function buildCheckpointAnalytics(
+  checkpoints: AttendanceCheckpoint[],
+  attendances: StoredAttendanceDoc[],
+  activeParticipations: number,
+) {
+  return checkpoints.map((checkpoint) => {
+    const atCheckpoint = attendances.filter(
+      (attendance) => attendance.checkpointKey === checkpoint.key,
+    );
+    const attendedCount = atCheckpoint.length;
+    return {
+      key: checkpoint.key,
+      name: checkpoint.name,
+      scanLimit: checkpoint.scanLimit,
+      attendedCount,
+      totalScans: atCheckpoint.reduce((sum, attendance) => sum + attendance.scanCount, 0),
+      attendanceRate:
+        activeParticipations > 0
+          ? Number(((attendedCount / activeParticipations) * 100).toFixed(2))
+          : 0,
+    };
+  });
+}
+
 async function loadOrganizerEventParticipants(params: {
   eventId: ObjectId;
   organizerId: ObjectId;
@@ -893,18 +1867,60 @@ async function loadOrganizerEventParticipants(params: {
     participants.map((participant) => [participant._id.toString(), participant]),
   );
 
+  const teamIds = [
+    ...new Set(
+      foundParticipations.flatMap((entry) => (entry.teamId ? [entry.teamId.toString()] : [])),
+    ),
+  ].map((id) => new ObjectId(id));
+  const teamsById = await loadEventTeamsByIds(teamIds);
+
   return {
     event,
     participations: foundParticipations,
     participantsById,
+    teamsById,
   };
 }
 
+// each team with all its participations (left members included), leader first, teams by name
+function groupParticipationsByTeam(
+  participations: StoredParticipationDoc[],
+  teamsById: Map<string, StoredEventTeamDoc>,
+) {
+  const membersByTeamId = new Map<string, StoredParticipationDoc[]>();
+  for (const participation of participations) {
+    if (!participation.teamId) continue;
+    const key = participation.teamId.toString();
+    const members = membersByTeamId.get(key) ?? [];
+    members.push(participation);
+    membersByTeamId.set(key, members);
+  }
+
+  return [...teamsById.values()]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((team) => ({
+      team,
+      members: (membersByTeamId.get(team._id.toString()) ?? []).sort(
+        (a, b) =>
+          Number(b.userId.equals(team.leaderId)) - Number(a.userId.equals(team.leaderId)) ||
+          a.createdAt.getTime() - b.createdAt.getTime(),
+      ),
+    }));
+}
+
+function getTeamRole(
+  participation: StoredParticipationDoc,
+  team: StoredEventTeamDoc | undefined,
+): "leader" | "member" | null {
+  if (!team) return null;
+  return team.leaderId.equals(participation.userId) ? "leader" : "member";
+}
+
 // organizer creates a new event draft with validated form/merch config
 eventsRouter.post(
   "/organizer",
   requireAuth,
-  requireRole("organizer"),
+  requireOrganizerAccess("editor"),
   async (req, res, next) => {
     try {
       const parsed = createEventSchema.safeParse(req.body);
@@ -924,7 +1940,7 @@ eventsRouter.post(
           .json({ error: { message: "Not authenticated" } });
       }
 
-      const organizerId = getOrganizerObjectId(authUser.id);
+      const organizerId = getActingOrganizerId(req);
       if (!organizerId) {
         return res
           .status(401)
@@ -945,10 +1961,26 @@ eventsRouter.post(
         regFee: parsed.data.regFee,
         regDeadline: parsed.data.regDeadline,
         regLimit: parsed.data.regLimit,
+        seatsTaken: 0,
         startDate: parsed.data.startDate,
         endDate: parsed.data.endDate,
         organizerId,
         status: "DRAFT",
+        scheduledPublishAt: parsed.data.scheduledPublishAt ?? null,
+        reminderOffsetsMinutes: parsed.data.reminderOffsetsMinutes ?? null,
+        ...(parsed.data.attendanceCheckpoints
+          ? { attendanceCheckpoints: parsed.data.attendanceCheckpoints }
+          : {}),
+        ...(parsed.data.type === "NORMAL" && parsed.data.teamConfig
+          ? { teamConfig: parsed.data.teamConfig }
+          : {}),
+        ...(parsed.data.type === "NORMAL" && parsed.data.requiresApproval
+          ? {
+              requiresApproval: true,
+              approvalAutoDecision: parsed.data.approvalAutoDecision ?? null,
+            }
+          : {}),
+        ...(parsed.data.refundPolicy ? { refundPolicy: parsed.data.refundPolicy } : {}),
         createdAt: now,
         updatedAt: now,
         normalForm:
@@ -970,6 +2002,7 @@ eventsRouter.post(
       };
 
       await events.insertOne(event);
+      await syncEventJobsSafe(event);
 
       return res.status(201).json({ event: toEventResponse(event) });
     } catch (err) {
@@ -982,7 +2015,7 @@ eventsRouter.post(
 eventsRouter.get(
   "/organizer",
   requireAuth,
-  requireRole("organizer"),
+  requireOrganizerAccess("scanner", "finance", "editor"),
   async (req, res, next) => {
     try {
       const authUser = req.user;
@@ -992,7 +2025,7 @@ eventsRouter.get(
           .json({ error: { message: "Not authenticated" } });
       }
 
-      const organizerId = getOrganizerObjectId(authUser.id);
+      const organizerId = getActingOrganizerId(req);
       if (!organizerId) {
         return res
           .status(401)
@@ -1017,7 +2050,7 @@ eventsRouter.get(
 eventsRouter.get(
   "/organizer/analytics/summary",
   requireAuth,
-  requireRole("organizer"),
+  requireOrganizerAccess("finance", "editor"),
   async (req, res, next) => {
     try {
       const authUser = req.user;
@@ -1027,7 +2060,7 @@ eventsRouter.get(
           .json({ error: { message: "Not authenticated" } });
       }
 
-      const organizerId = getOrganizerObjectId(authUser.id);
+      const organizerId = getActingOrganizerId(req);
       if (!organizerId) {
         return res
           .status(401)
@@ -1063,6 +2096,8 @@ eventsRouter.get(
             rejectedCount: 0,
             registrations24h: 0,
             estimatedRevenue: 0,
+            refundedAmount: 0,
+            netRevenue: 0,
             attendanceMarked: 0,
             attendanceRate: 0,
           },
@@ -1093,6 +2128,8 @@ eventsRouter.get(
             rejectedCount: 0,
             registrations24h: 0,
             estimatedRevenue: 0,
+            refundedAmount: 0,
+            netRevenue: 0,
             attendanceMarked: 0,
             attendanceRate: 0,
           },
@@ -1107,6 +2144,13 @@ eventsRouter.get(
       const allAttendances = await attendances
         .find({ eventId: { $in: eventIds } })
         .toArray();
+      const allPayments =
+        allParticipations.length > 0
+          ? await db
+              .collection<StoredPaymentDoc>(collections.payments)
+              .find({ registrationId: { $in: allParticipations.map((entry) => entry._id) } })
+              .toArray()
+          : [];
 
       const participationsByEventId = new Map<string, StoredParticipationDoc[]>();
       for (const participation of allParticipations) {
@@ -1119,22 +2163,38 @@ eventsRouter.get(
         }
       }
 
-      const attendanceByEventId = new Map<string, number>();
+      const eventIdByParticipationId = new Map(
+        allParticipations.map((entry) => [entry._id.toString(), entry.eventId.toString()]),
+      );
+      const paymentsByEventId = new Map<string, StoredPaymentDoc[]>();
+      for (const payment of allPayments) {
+        const eventId = eventIdByParticipationId.get(payment.registrationId.toString());
+        if (!eventId) continue;
+        const list = paymentsByEventId.get(eventId) ?? [];
+        list.push(payment);
+        paymentsByEventId.set(eventId, list);
+      }
+
+      // a participation counts once however many checkpoints it was scanned at
+      const attendedByEventId = new Map<string, Set<string>>();
       for (const attendance of allAttendances) {
         const key = attendance.eventId.toString();
-        attendanceByEventId.set(key, (attendanceByEventId.get(key) ?? 0) + 1);
+        const attended = attendedByEventId.get(key) ?? new Set<string>();
+        attended.add(attendance.participationId.toString());
+        attendedByEventId.set(key, attended);
       }
 
       const now = new Date();
       const eventSummaries = completedEvents.map((event) => {
         const eventParticipations =
           participationsByEventId.get(event._id.toString()) ?? [];
-        const attendanceMarked = attendanceByEventId.get(event._id.toString()) ?? 0;
+        const attendanceMarked = attendedByEventId.get(event._id.toString())?.size ?? 0;
         const analytics = buildEventAnalyticsSummary(
           event,
           eventParticipations,
           now,
           attendanceMarked,
+          paymentsByEventId.get(event._id.toString()) ?? [],
         );
         return {
           event,
@@ -1186,6 +2246,14 @@ eventsRouter.get(
           (sum, item) => sum + item.analytics.estimatedRevenue,
           0,
         ),
+        refundedAmount: eventSummaries.reduce(
+          (sum, item) => sum + item.analytics.refundedAmount,
+          0,
+        ),
+        netRevenue: eventSummaries.reduce(
+          (sum, item) => sum + item.analytics.netRevenue,
+          0,
+        ),
         attendanceMarked: eventSummaries.reduce(
           (sum, item) => sum + item.analytics.attendanceMarked,
           0,
@@ -1227,6 +2295,7 @@ eventsRouter.get(
           activeParticipations: item.analytics.activeParticipations,
           registrations24h: item.analytics.registrations24h,
           estimatedRevenue: item.analytics.estimatedRevenue,
+          netRevenue: item.analytics.netRevenue,
           attendanceMarked: item.analytics.attendanceMarked,
           attendanceRate: item.analytics.attendanceRate,
         }));
@@ -1242,7 +2311,7 @@ eventsRouter.get(
 eventsRouter.get(
   "/organizer/:eventId/participants",
   requireAuth,
-  requireRole("organizer"),
+  requireOrganizerAccess("scanner", "finance", "editor"),
   async (req, res, next) => {
     try {
       const eventId = parseObjectId(req.params.eventId);
@@ -1257,7 +2326,7 @@ eventsRouter.get(
           .json({ error: { message: "Not authenticated" } });
       }
 
-      const organizerId = getOrganizerObjectId(authUser.id);
+      const organizerId = getActingOrganizerId(req);
       if (!organizerId) {
         return res
           .status(401)
@@ -1277,9 +2346,6 @@ eventsRouter.get(
       const attendanceAuditLogs = db.collection<StoredAttendanceAuditDoc>(
         collections.attendanceAuditLogs,
       );
-      const users = db.collection<OrganizerUserDoc | ParticipantUserDoc>(
-        collections.users,
-      );
       const participationIds = loaded.participations.map((entry) => entry._id);
 
       const foundPayments =
@@ -1293,6 +2359,10 @@ eventsRouter.get(
       const paymentByParticipationId = new Map(
         foundPayments.map((entry) => [entry.registrationId.toString(), entry]),
       );
+      const refundByParticipationId = await loadRefundRequestsByParticipationId(
+        loaded.event._id,
+      );
+      const orderByPaymentId = await loadPaymentOrdersByPaymentId(loaded.event._id);
 
       const foundAttendances =
         participationIds.length > 0
@@ -1302,9 +2372,8 @@ eventsRouter.get(
               })
               .toArray()
           : [];
-      const attendanceByParticipationId = new Map(
-        foundAttendances.map((entry) => [entry.participationId.toString(), entry]),
-      );
+      const attendancesByParticipationId = groupAttendancesByParticipationId(foundAttendances);
+      const checkpoints = getAttendanceCheckpoints(loaded.event);
 
       const rawAttendanceAuditTrail = await attendanceAuditLogs
         .find({ eventId: loaded.event._id })
@@ -1312,41 +2381,37 @@ eventsRouter.get(
         .limit(100)
         .toArray();
 
-      const actorOrganizerIds = [
-        ...new Set(
-          rawAttendanceAuditTrail.map((entry) => entry.actorOrganizerId.toString()),
-        ),
-      ].map((id) => new ObjectId(id));
-
-      const organizerActors =
-        actorOrganizerIds.length > 0
-          ? await users
-              .find({
-                _id: { $in: actorOrganizerIds },
-                role: "organizer",
-              })
-              .toArray()
-          : [];
-      const organizerNameById = new Map(
-        organizerActors.map((entry) => [entry._id.toString(), entry.name]),
-      );
+      const auditActorNames = await loadAttendanceAuditActorNames(rawAttendanceAuditTrail);
 
       const now = new Date();
-      const analytics = buildEventAnalyticsSummary(
+      const eventAnalytics = buildEventAnalyticsSummary(
         loaded.event,
         loaded.participations,
         now,
-        foundAttendances.length,
+        attendancesByParticipationId.size,
+        foundPayments,
       );
+      const analytics = {
+        ...eventAnalytics,
+        checkpoints: buildCheckpointAnalytics(
+          checkpoints,
+          foundAttendances,
+          eventAnalytics.activeParticipations,
+        ),
+      };
 
       const participants = loaded.participations.map((participation) => {
         const participant = loaded.participantsById.get(
           participation.userId.toString(),
         );
         const payment = paymentByParticipationId.get(participation._id.toString());
-        const attendance = attendanceByParticipationId.get(
-          participation._id.toString(),
-        );
+        const refund = refundByParticipationId.get(participation._id.toString());
+        const checkout = payment ? orderByPaymentId.get(payment._id.toString()) : undefined;
+        const participationAttendances =
+          attendancesByParticipationId.get(participation._id.toString()) ?? [];
+        const team = participation.teamId
+          ? loaded.teamsById.get(participation.teamId.toString())
+          : undefined;
 
         return {
           id: participation._id.toString(),
@@ -1386,7 +2451,25 @@ eventsRouter.get(
                 }
               : undefined,
           })),
-          teamName: null,
+          teamName: team?.name ?? null,
+          team: team
+            ? {
+                id: team._id.toString(),
+                name: team.name,
+                status: team.status,
+                role: getTeamRole(participation, team),
+              }
+            : null,
+          awaitingReview: isAwaitingReview(loaded.event, participation),
+          review: participation.review
+            ? {
+                decision: participation.review.decision,
+                message: participation.review.message,
+                reviewedAt: participation.review.reviewedAt,
+                // null when the event's auto-decision settled it
+                reviewedBy: participation.review.reviewedBy?.toString() ?? null,
+              }
+            : null,
           payment: payment
             ? {
                 status: payment.status,
@@ -1394,11 +2477,34 @@ eventsRouter.get(
                 method: payment.method,
                 proofUrl: payment.proofUrl ?? null,
                 createdAt: payment.createdAt,
+                refundedAmount: payment.refundedAmount ?? null,
+                checkout: checkout
+                  ? {
+                      status: checkout.status,
+                      paidAt: checkout.paidAt ?? null,
+                      settlementError: checkout.settlementError ?? null,
+                    }
+                  : null,
               }
             : null,
+          refund: refund
+            ? {
+                percent: refund.percent,
+                amount: refund.amount,
+                status: refund.status,
+                requestedAt: refund.requestedAt,
+                processedAt: refund.processedAt ?? null,
+                reference: refund.reference ?? null,
+              }
+            : null,
+          // set while the seat is held for payment review
+          paymentHoldExpiresAt: isAwaitingPaymentReview(participation)
+            ? (participation.paymentHoldExpiresAt ?? null)
+            : null,
           attendance: {
-            isPresent: Boolean(attendance),
-            markedAt: attendance?.markedAt ?? null,
+            isPresent: participationAttendances.length > 0,
+            markedAt: earliestMarkedAt(participationAttendances),
+            checkpoints: toCheckpointAttendanceResponse(checkpoints, participationAttendances),
           },
           merchPurchase: participation.merchPurchase ?? null,
         };
@@ -1406,27 +2512,27 @@ eventsRouter.get(
 
       return res.json({
         event: toEventResponse(loaded.event),
+        // null for the organizer account; team members get their role so the UI can trim itself
+        teamRole: req.organizerAccess?.teamRole ?? null,
         analytics,
         participants,
-        attendanceAuditTrail: rawAttendanceAuditTrail.map((entry) => ({
-          id: entry._id.toString(),
-          eventId: entry.eventId.toString(),
-          participationId: entry.participationId.toString(),
-          userId: entry.userId.toString(),
-          participantName:
-            loaded.participantsById.get(entry.userId.toString())?.name ??
-            "Unknown participant",
-          actorOrganizerId: entry.actorOrganizerId.toString(),
-          actorOrganizerName:
-            organizerNameById.get(entry.actorOrganizerId.toString()) ?? null,
-          action: entry.action,
-          reason: entry.reason ?? null,
-          previousIsPresent: entry.previousIsPresent,
-          previousMarkedAt: entry.previousMarkedAt,
-          nextIsPresent: entry.nextIsPresent,
-          nextMarkedAt: entry.nextMarkedAt,
-          createdAt: entry.createdAt,
-        })),
+        teams: groupParticipationsByTeam(loaded.participations, loaded.teamsById).map(
+          ({ team, members }) => ({
+            id: team._id.toString(),
+            name: team.name,
+            status: team.status,
+            inviteCode: team.inviteCode,
+            leaderId: team.leaderId.toString(),
+            confirmedAt: team.confirmedAt ?? null,
+            activeMembers: members.filter((member) =>
+              isActiveParticipationStatus(member.status),
+            ).length,
+            participationIds: members.map((member) => member._id.toString()),
+          }),
+        ),
+        attendanceAuditTrail: rawAttendanceAuditTrail.map((entry) =>
+          toAttendanceAuditResponse(entry, auditActorNames, loaded.participantsById),
+        ),
       });
     } catch (err) {
       return next(err);
@@ -1434,11 +2540,11 @@ eventsRouter.get(
   },
 );
 
-// organizer marks attendance by scanning ticket QR payload or entering ticket id
-eventsRouter.post(
-  "/organizer/:eventId/attendance/scan",
+// organizer reads the full attendance audit log with filters, paging and csv export
+eventsRouter.get(
+  "/organizer/:eventId/attendance/audit",
   requireAuth,
-  requireRole("organizer"),
+  requireOrganizerAccess("scanner", "finance", "editor"),
   async (req, res, next) => {
     try {
       const eventId = parseObjectId(req.params.eventId);
@@ -1446,94 +2552,226 @@ eventsRouter.post(
         return res.status(400).json({ error: { message: "Invalid event id" } });
       }
 
-      const parsed = markAttendanceSchema.safeParse(req.body);
+      const parsed = attendanceAuditQuerySchema.safeParse(req.query);
       if (!parsed.success) {
         return res.status(400).json({
-          error: { message: "Invalid request", details: parsed.error.flatten() },
+          error: { message: "Invalid query", details: parsed.error.flatten() },
         });
       }
 
-      const authUser = req.user;
-      if (!authUser) {
-        return res.status(401).json({ error: { message: "Not authenticated" } });
+      const organizerId = getActingOrganizerId(req);
+      if (!organizerId) {
+        return res
+          .status(401)
+          .json({ error: { message: "Not authenticated" } });
+      }
+
+      const loaded = await loadOrganizerEventParticipants({ eventId, organizerId });
+      if (!loaded) {
+        return res.status(404).json({ error: { message: "Event not found" } });
+      }
+
+      const { page, limit, format, ...query } = parsed.data;
+      const attendanceAuditLogs = getDb().collection<StoredAttendanceAuditDoc>(
+        collections.attendanceAuditLogs,
+      );
+      const filter = buildAttendanceAuditFilter(eventId, query, loaded.participantsById);
+      const checkpointNameByKey = new Map(
+        getAttendanceCheckpoints(loaded.event).map((checkpoint) => [
+          checkpoint.key,
+          checkpoint.name,
+        ]),
+      );
+
+      if (format === "csv") {
+        const entries = await attendanceAuditLogs
+          .find(filter)
+          .sort({ createdAt: -1, _id: -1 })
+          .limit(ATTENDANCE_AUDIT_CSV_MAX_ROWS)
+          .toArray();
+        const actorNames = await loadAttendanceAuditActorNames(entries);
+        const rows = entries.map((entry) =>
+          toAttendanceAuditResponse(entry, actorNames, loaded.participantsById),
+        );
+
+        const csv = toCsvString(rows, [
+          { header: "Time", value: (row) => row.createdAt },
+          { header: "Synced At", value: (row) => row.syncedAt },
+          { header: "Action", value: (row) => row.action },
+          {
+            header: "Checkpoint",
+            value: (row) => checkpointNameByKey.get(row.checkpointKey) ?? row.checkpointKey,
+          },
+          { header: "Participant", value: (row) => row.participantName },
+          {
+            header: "Participant Email",
+            value: (row) => loaded.participantsById.get(row.userId)?.email,
+          },
+          { header: "Participation ID", value: (row) => row.participationId },
+          {
+            header: "Actor",
+            value: (row) =>
+              row.device
+                ? `Device: ${row.device.label}`
+                : (row.actorMember?.name ?? row.actorOrganizerName ?? "Organizer"),
+          },
+          { header: "Actor Role", value: (row) => row.actorMember?.role ?? null },
+          { header: "Previously Present", value: (row) => row.previousIsPresent },
+          { header: "Previously Marked At", value: (row) => row.previousMarkedAt },
+          { header: "Now Present", value: (row) => row.nextIsPresent },
+          { header: "Now Marked At", value: (row) => row.nextMarkedAt },
+          { header: "Reason", value: (row) => row.reason },
+        ]);
+
+        const safeEventName = loaded.event.name
+          .toLowerCase()
+          .replace(/[^a-z0-9]+/g, "-")
+          .replace(/^-+|-+$/g, "")
+          .slice(0, 60);
+        const filename = `${safeEventName || "event"}-attendance-audit.csv`;
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+        return res.send(csv);
+      }
+
+      const [entries, total] = await Promise.all([
+        attendanceAuditLogs
+          .find(filter)
+          .sort({ createdAt: -1, _id: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .toArray(),
+        attendanceAuditLogs.countDocuments(filter),
+      ]);
+      const actorNames = await loadAttendanceAuditActorNames(entries);
+
+      return res.json({
+        entries: entries.map((entry) =>
+          toAttendanceAuditResponse(entry, actorNames, loaded.participantsById),
+        ),
+        total,
+        page,
+        limit,
+        actors: await listAttendanceAuditActors(attendanceAuditLogs, eventId, actorNames),
+      });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// organizer replaces the event's attendance checkpoints. allowed at any stage so checkpoints can
+// be added mid-fest; a checkpoint that already has scans can be renamed but not removed
+eventsRouter.put(
+  "/organizer/:eventId/attendance/checkpoints",
+  requireAuth,
+  requireOrganizerAccess("editor"),
+  async (req, res, next) => {
+    try {
+      const eventId = parseObjectId(req.params.eventId);
+      if (!eventId) {
+        return res.status(400).json({ error: { message: "Invalid event id" } });
       }
 
-      const organizerId = getOrganizerObjectId(authUser.id);
+      const parsed = updateAttendanceCheckpointsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: { message: "Invalid request", details: parsed.error.flatten() },
+        });
+      }
+
+      const organizerId = getActingOrganizerId(req);
       if (!organizerId) {
         return res.status(401).json({ error: { message: "Not authenticated" } });
       }
 
       const db = getDb();
       const events = db.collection<StoredEventDoc>(collections.events);
-      const participations = db.collection<StoredParticipationDoc>(
-        collections.registrations,
-      );
-      const tickets = db.collection<StoredTicketDoc>(collections.tickets);
-      const attendances = db.collection<StoredAttendanceDoc>(collections.attendances);
-      const attendanceAuditLogs = db.collection<StoredAttendanceAuditDoc>(
-        collections.attendanceAuditLogs,
-      );
-      const users = db.collection<ParticipantUserDoc>(collections.users);
-
-      const event = await events.findOne({ _id: eventId, organizerId });
-      if (!event) {
+      const existing = await events.findOne({ _id: eventId, organizerId });
+      if (!existing) {
         return res.status(404).json({ error: { message: "Event not found" } });
       }
 
-      const body = parsed.data;
-      const rawTicketId = body.ticketId?.trim();
-      const rawQrPayload = body.qrPayload?.trim();
-      const qrData = rawQrPayload ? parseTicketQrPayload(rawQrPayload) : null;
-      if (rawQrPayload && !qrData) {
-        return res.status(400).json({ error: { message: "Invalid qrPayload" } });
+      const nextKeys = new Set(parsed.data.checkpoints.map((checkpoint) => checkpoint.key));
+      const scannedKeys = await db
+        .collection<StoredAttendanceDoc>(collections.attendances)
+        .distinct("checkpointKey", { eventId });
+      const removedWithScans = getAttendanceCheckpoints(existing).filter(
+        (checkpoint) => scannedKeys.includes(checkpoint.key) && !nextKeys.has(checkpoint.key),
+      );
+      if (removedWithScans.length > 0) {
+        return res.status(409).json({
+          error: {
+            message: `Checkpoints with scans cannot be removed: ${removedWithScans
+              .map((checkpoint) => checkpoint.name)
+              .join(", ")}`,
+          },
+        });
       }
 
-      const ticketId = rawTicketId ?? qrData?.ticketId;
-      let ticket: StoredTicketDoc | null = null;
-
-      if (ticketId) {
-        ticket = await tickets.findOne({ ticketId });
-      } else if (qrData?.participationId) {
-        ticket = await tickets.findOne({ participationId: qrData.participationId });
+      const updated = await events.findOneAndUpdate(
+        { _id: eventId, organizerId },
+        {
+          $set: {
+            attendanceCheckpoints: parsed.data.checkpoints,
+            updatedAt: new Date(),
+          },
+        },
+        { returnDocument: "after" },
+      );
+      if (!updated) {
+        return res.status(404).json({ error: { message: "Event not found" } });
       }
 
-      if (!ticket) {
-        return res.status(404).json({ error: { message: "Ticket not found" } });
+      return res.json({ event: toEventResponse(updated) });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// organizer, scanner team member or paired gate device marks attendance by ticket QR or ticket id.
+// each checkpoint counts scans up to its own limit; a used-up ticket comes back as alreadyMarked
+eventsRouter.post(
+  "/organizer/:eventId/attendance/scan",
+  requireScannerAccess("scanner"),
+  async (req, res, next) => {
+    try {
+      const eventId = parseObjectId(req.params.eventId);
+      if (!eventId) {
+        return res.status(400).json({ error: { message: "Invalid event id" } });
       }
 
-      if (!ticket.eventId.equals(eventId)) {
-        return res
-          .status(400)
-          .json({ error: { message: "Ticket does not belong to this event" } });
+      const parsed = markAttendanceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: { message: "Invalid request", details: parsed.error.flatten() },
+        });
       }
 
-      if (qrData) {
-        if (qrData.ticketId && qrData.ticketId !== ticket.ticketId) {
-          return res.status(400).json({ error: { message: "Invalid qrPayload" } });
-        }
-        if (qrData.eventId && !qrData.eventId.equals(ticket.eventId)) {
-          return res.status(400).json({ error: { message: "Invalid qrPayload" } });
-        }
-        if (qrData.userId && !qrData.userId.equals(ticket.userId)) {
-          return res.status(400).json({ error: { message: "Invalid qrPayload" } });
-        }
-        if (
-          qrData.participationId &&
-          !qrData.participationId.equals(ticket.participationId)
-        ) {
-          return res.status(400).json({ error: { message: "Invalid qrPayload" } });
-        }
+      const organizerId = getActingOrganizerId(req);
+      if (!organizerId) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
       }
 
-      const participation = await participations.findOne({
-        _id: ticket.participationId,
-        eventId: ticket.eventId,
+      const resolved = await resolveAttendanceTicket({
+        eventId,
+        organizerId,
+        checkpointKey: parsed.data.checkpointKey,
+        ticketId: parsed.data.ticketId,
+        qrPayload: parsed.data.qrPayload,
       });
-      if (!participation) {
-        return res
-          .status(404)
-          .json({ error: { message: "Participation not found for this ticket" } });
+      if (!resolved.ok) {
+        return res.status(resolved.status).json({ error: { message: resolved.message } });
       }
+      const { checkpoint, ticket, participation } = resolved;
+
+      const db = getDb();
+      const attendances = db.collection<StoredAttendanceDoc>(collections.attendances);
+      const attendanceAuditLogs = db.collection<StoredAttendanceAuditDoc>(
+        collections.attendanceAuditLogs,
+      );
+      const users = db.collection<ParticipantUserDoc>(collections.users);
 
       if (participation.status !== "confirmed") {
         return res.status(409).json({
@@ -1543,128 +2781,141 @@ eventsRouter.post(
         });
       }
 
-      const existing = await attendances.findOne({
-        participationId: participation._id,
-      });
       const participant = await users.findOne({
         _id: participation.userId,
         role: "participant",
       });
 
-      if (existing) {
-        return res.json({
-          alreadyMarked: true,
-          attendance: {
-            id: existing._id.toString(),
-            eventId: existing.eventId.toString(),
-            participationId: existing.participationId.toString(),
-            userId: existing.userId.toString(),
-            markedAt: existing.markedAt,
-          },
-          ticket: {
-            id: ticket.ticketId,
-            eventId: ticket.eventId.toString(),
-            participationId: ticket.participationId.toString(),
-          },
-          participant: participant
-            ? {
-                id: participant._id.toString(),
-                name: participant.name,
-                email: participant.email,
-              }
-            : {
-                id: participation.userId.toString(),
-                name: "Unknown participant",
-                email: null,
-              },
-        });
-      }
-
       const now = new Date();
-      const attendance: StoredAttendanceDoc = {
-        _id: new ObjectId(),
+      const outcome = await recordCheckpointScan({
+        attendances,
         eventId: ticket.eventId,
         participationId: ticket.participationId,
         userId: ticket.userId,
-        markedAt: now,
-      };
-
-      try {
-        await attendances.insertOne(attendance);
-      } catch (err: unknown) {
-        const duplicate =
-          err &&
-          typeof err === "object" &&
-          "code" in err &&
-          (err as { code?: number }).code === 11000;
-
-        if (!duplicate) {
-          throw err;
-        }
+        checkpoint,
+        scannedAt: now,
+      });
 
-        const current = await attendances.findOne({
-          participationId: participation._id,
+      if (outcome.counted) {
+        await appendAttendanceAuditLog({
+          attendanceAuditLogs,
+          eventId: ticket.eventId,
+          participationId: ticket.participationId,
+          userId: ticket.userId,
+          checkpointKey: checkpoint.key,
+          actorOrganizerId: organizerId,
+          teamActor: getTeamActor(req),
+          scannerDevice: req.scannerDevice,
+          action: "scan_mark_present",
+          previousIsPresent: Boolean(outcome.previous),
+          previousMarkedAt: outcome.previous?.markedAt ?? null,
+          nextIsPresent: true,
+          nextMarkedAt: outcome.attendance.markedAt,
+          createdAt: now,
         });
-        if (!current) {
-          throw err;
-        }
+      }
 
-        return res.json({
-          alreadyMarked: true,
-          attendance: {
-            id: current._id.toString(),
-            eventId: current.eventId.toString(),
-            participationId: current.participationId.toString(),
-            userId: current.userId.toString(),
-            markedAt: current.markedAt,
-          },
-          ticket: {
-            id: ticket.ticketId,
-            eventId: ticket.eventId.toString(),
-            participationId: ticket.participationId.toString(),
-          },
-          participant: participant
-            ? {
-                id: participant._id.toString(),
-                name: participant.name,
-                email: participant.email,
-              }
-            : {
-                id: participation.userId.toString(),
-                name: "Unknown participant",
-                email: null,
-              },
+      return res.status(outcome.counted ? 201 : 200).json({
+        alreadyMarked: !outcome.counted,
+        checkpoint: {
+          ...checkpoint,
+          scansRemaining: Math.max(checkpoint.scanLimit - outcome.attendance.scanCount, 0),
+        },
+        attendance: toAttendanceResponse(outcome.attendance),
+        ticket: {
+          id: ticket.ticketId,
+          eventId: ticket.eventId.toString(),
+          participationId: ticket.participationId.toString(),
+        },
+        participant: participant
+          ? {
+              id: participant._id.toString(),
+              name: participant.name,
+              email: participant.email,
+            }
+          : {
+              id: participation.userId.toString(),
+              name: "Unknown participant",
+              email: null,
+            },
+      });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// organizer, scanner team member or paired gate device checks a ticket without marking attendance.
+// a POST so signed qr payloads stay out of request logs
+eventsRouter.post(
+  "/organizer/:eventId/attendance/lookup",
+  requireScannerAccess("scanner"),
+  async (req, res, next) => {
+    try {
+      const eventId = parseObjectId(req.params.eventId);
+      if (!eventId) {
+        return res.status(400).json({ error: { message: "Invalid event id" } });
+      }
+
+      const parsed = markAttendanceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: { message: "Invalid request", details: parsed.error.flatten() },
         });
       }
 
-      await appendAttendanceAuditLog({
-        attendanceAuditLogs,
-        eventId: ticket.eventId,
-        participationId: ticket.participationId,
-        userId: ticket.userId,
-        actorOrganizerId: organizerId,
-        action: "scan_mark_present",
-        previousIsPresent: false,
-        previousMarkedAt: null,
-        nextIsPresent: true,
-        nextMarkedAt: attendance.markedAt,
-        createdAt: now,
+      const organizerId = getActingOrganizerId(req);
+      if (!organizerId) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const resolved = await resolveAttendanceTicket({
+        eventId,
+        organizerId,
+        checkpointKey: parsed.data.checkpointKey,
+        ticketId: parsed.data.ticketId,
+        qrPayload: parsed.data.qrPayload,
       });
+      if (!resolved.ok) {
+        return res.status(resolved.status).json({ error: { message: resolved.message } });
+      }
+      const { event, checkpoint, ticket, participation } = resolved;
 
-      return res.status(201).json({
-        alreadyMarked: false,
-        attendance: {
-          id: attendance._id.toString(),
-          eventId: attendance.eventId.toString(),
-          participationId: attendance.participationId.toString(),
-          userId: attendance.userId.toString(),
-          markedAt: attendance.markedAt,
-        },
+      const db = getDb();
+      const [participationAttendances, participant] = await Promise.all([
+        db
+          .collection<StoredAttendanceDoc>(collections.attendances)
+          .find({ participationId: participation._id })
+          .toArray(),
+        db
+          .collection<ParticipantUserDoc>(collections.users)
+          .findOne({ _id: participation.userId, role: "participant" }),
+      ]);
+      const attendance = participationAttendances.find(
+        (entry) => entry.checkpointKey === checkpoint.key,
+      );
+
+      return res.json({
         ticket: {
           id: ticket.ticketId,
           eventId: ticket.eventId.toString(),
           participationId: ticket.participationId.toString(),
         },
+        participationStatus: participation.status,
+        checkpoint: {
+          ...checkpoint,
+          scansRemaining: Math.max(checkpoint.scanLimit - (attendance?.scanCount ?? 0), 0),
+        },
+        // isPresent and markedAt are for the looked-up checkpoint; checkpoints covers all of them
+        attendance: {
+          isPresent: Boolean(attendance),
+          markedAt: attendance?.markedAt ?? null,
+          scanCount: attendance?.scanCount ?? 0,
+          checkpoints: toCheckpointAttendanceResponse(
+            getAttendanceCheckpoints(event),
+            participationAttendances,
+          ),
+        },
         participant: participant
           ? {
               id: participant._id.toString(),
@@ -1683,11 +2934,186 @@ eventsRouter.post(
   },
 );
 
-// organizer manually overrides attendance for exceptional cases with mandatory reason
+// organizer or scanner team member downloads a signed list of valid tickets, so scanning can carry
+// on locally while the venue network is down. paired gate devices only scan online: the list
+// names every ticket holder, so it stays behind an organizer login
+eventsRouter.get(
+  "/organizer/:eventId/attendance/manifest",
+  requireAuth,
+  requireOrganizerAccess("scanner"),
+  async (req, res, next) => {
+    try {
+      const eventId = parseObjectId(req.params.eventId);
+      if (!eventId) {
+        return res.status(400).json({ error: { message: "Invalid event id" } });
+      }
+
+      const organizerId = getActingOrganizerId(req);
+      const downloadedBy = req.organizerAccess?.actorUserId;
+      if (!organizerId || !downloadedBy) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const loaded = await loadOrganizerEventParticipants({ eventId, organizerId });
+      if (!loaded) {
+        return res.status(404).json({ error: { message: "Event not found" } });
+      }
+
+      const confirmed = loaded.participations.filter(
+        (participation) => participation.status === "confirmed",
+      );
+      const db = getDb();
+      const [foundTickets, foundAttendances] = await Promise.all([
+        confirmed.length > 0
+          ? db
+              .collection<StoredTicketDoc>(collections.tickets)
+              .find({ eventId, participationId: { $in: confirmed.map((entry) => entry._id) } })
+              .toArray()
+          : Promise.resolve([]),
+        db.collection<StoredAttendanceDoc>(collections.attendances).find({ eventId }).toArray(),
+      ]);
+      const attendancesByParticipationId = groupAttendancesByParticipationId(foundAttendances);
+
+      const manifestId = new ObjectId();
+      const generatedAt = new Date();
+      const manifest = signAttendanceManifest({
+        manifestId: manifestId.toString(),
+        eventId: eventId.toString(),
+        eventName: loaded.event.name,
+        generatedAt: generatedAt.toISOString(),
+        validUntil: loaded.event.endDate.toISOString(),
+        checkpoints: getAttendanceCheckpoints(loaded.event),
+        tickets: foundTickets.map((ticket) => {
+          const participationAttendances =
+            attendancesByParticipationId.get(ticket.participationId.toString()) ?? [];
+          return {
+            ticketId: ticket.ticketId,
+            participationId: ticket.participationId.toString(),
+            userId: ticket.userId.toString(),
+            participantName:
+              loaded.participantsById.get(ticket.userId.toString())?.name ??
+              "Unknown participant",
+            isPresent: participationAttendances.length > 0,
+            markedAt: earliestMarkedAt(participationAttendances)?.toISOString() ?? null,
+            // counted scans per checkpoint key, so devices can enforce scan limits offline
+            scanCounts: Object.fromEntries(
+              participationAttendances.map((entry) => [entry.checkpointKey, entry.scanCount]),
+            ),
+          };
+        }),
+      });
+
+      await db.collection<StoredAttendanceManifestDoc>(collections.attendanceManifests).insertOne({
+        _id: manifestId,
+        eventId,
+        downloadedBy,
+        generatedAt,
+        ticketCount: foundTickets.length,
+      });
+
+      return res.json({
+        manifest,
+        manifestId: manifestId.toString(),
+        ticketCount: foundTickets.length,
+        generatedAt,
+      });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// organizer or scanner team member uploads scans queued while offline against a manifest.
+// scans apply oldest first; the earliest scan of a ticket at a checkpoint sets its attendance time
+eventsRouter.post(
+  "/organizer/:eventId/attendance/sync",
+  requireAuth,
+  requireOrganizerAccess("scanner"),
+  async (req, res, next) => {
+    try {
+      const eventId = parseObjectId(req.params.eventId);
+      if (!eventId) {
+        return res.status(400).json({ error: { message: "Invalid event id" } });
+      }
+
+      const parsed = syncAttendanceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: { message: "Invalid request", details: parsed.error.flatten() },
+        });
+      }
+
+      const organizerId = getActingOrganizerId(req);
+      const actorUserId = req.organizerAccess?.actorUserId;
+      if (!organizerId || !actorUserId) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const db = getDb();
+      const event = await db
+        .collection<StoredEventDoc>(collections.events)
+        .findOne({ _id: eventId, organizerId });
+      if (!event) {
+        return res.status(404).json({ error: { message: "Event not found" } });
+      }
+
+      // only manifests this account downloaded count; scans queued without a manifest id fall
+      // back to the first one
+      const manifests = await db
+        .collection<StoredAttendanceManifestDoc>(collections.attendanceManifests)
+        .find({ eventId, downloadedBy: actorUserId }, { projection: { generatedAt: 1 } })
+        .sort({ generatedAt: 1 })
+        .toArray();
+      const manifestGeneratedAtById = new Map(
+        manifests.map((manifest) => [manifest._id.toString(), manifest.generatedAt]),
+      );
+      const firstManifestAt = manifests[0]?.generatedAt ?? null;
+
+      const syncedAt = new Date();
+      const scans = [...parsed.data.scans].sort(
+        (left, right) => left.scannedAt.getTime() - right.scannedAt.getTime(),
+      );
+
+      const results: OfflineScanResult[] = [];
+      for (const scan of scans) {
+        results.push(
+          await applyOfflineScan({
+            eventId,
+            organizerId,
+            scan,
+            eventStartDate: event.startDate,
+            manifestGeneratedAt: scan.manifestId
+              ? (manifestGeneratedAtById.get(scan.manifestId) ?? null)
+              : firstManifestAt,
+            syncedAt,
+            teamActor: getTeamActor(req),
+            scannerDevice: req.scannerDevice,
+          }),
+        );
+      }
+
+      return res.json({
+        syncedAt,
+        summary: {
+          marked: results.filter((result) => result.status === "marked").length,
+          movedEarlier: results.filter((result) => result.status === "moved_earlier").length,
+          alreadyMarked: results.filter((result) => result.status === "already_marked").length,
+          superseded: results.filter((result) => result.status === "superseded").length,
+          rejected: results.filter((result) => result.status === "rejected").length,
+        },
+        results,
+      });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// organizer manually overrides attendance at one checkpoint for exceptional cases with mandatory reason
 eventsRouter.patch(
   "/organizer/:eventId/attendance/override",
   requireAuth,
-  requireRole("organizer"),
+  requireOrganizerAccess("scanner"),
   async (req, res, next) => {
     try {
       const eventId = parseObjectId(req.params.eventId);
@@ -1707,7 +3133,7 @@ eventsRouter.patch(
         return res.status(401).json({ error: { message: "Not authenticated" } });
       }
 
-      const organizerId = getOrganizerObjectId(authUser.id);
+      const organizerId = getActingOrganizerId(req);
       if (!organizerId) {
         return res.status(401).json({ error: { message: "Not authenticated" } });
       }
@@ -1735,6 +3161,13 @@ eventsRouter.patch(
         return res.status(404).json({ error: { message: "Event not found" } });
       }
 
+      const checkpoint = resolveAttendanceCheckpoint(event, parsed.data.checkpointKey);
+      if (!checkpoint) {
+        return res
+          .status(400)
+          .json({ error: { message: "Unknown checkpoint for this event" } });
+      }
+
       const participation = await participations.findOne({
         _id: participationId,
         eventId,
@@ -1758,9 +3191,11 @@ eventsRouter.patch(
         role: "participant",
       });
 
-      const existingAttendance = await attendances.findOne({
+      const attendanceFilter = {
         participationId: participation._id,
-      });
+        checkpointKey: checkpoint.key,
+      };
+      const existingAttendance = await attendances.findOne(attendanceFilter);
       const beforeIsPresent = Boolean(existingAttendance);
       const beforeMarkedAt = existingAttendance?.markedAt ?? null;
 
@@ -1774,26 +3209,21 @@ eventsRouter.patch(
             eventId,
             participationId: participation._id,
             userId: participation.userId,
+            checkpointKey: checkpoint.key,
+            scanCount: 1,
             markedAt: now,
+            lastScannedAt: now,
           };
 
           try {
             await attendances.insertOne(created);
             nextAttendance = created;
           } catch (err: unknown) {
-            const duplicate =
-              err &&
-              typeof err === "object" &&
-              "code" in err &&
-              (err as { code?: number }).code === 11000;
-
-            if (!duplicate) {
+            if (!isDuplicateKeyError(err)) {
               throw err;
             }
 
-            const current = await attendances.findOne({
-              participationId: participation._id,
-            });
+            const current = await attendances.findOne(attendanceFilter);
             if (!current) {
               throw err;
             }
@@ -1817,7 +3247,10 @@ eventsRouter.patch(
           eventId,
           participationId: participation._id,
           userId: participation.userId,
+          checkpointKey: checkpoint.key,
           actorOrganizerId: organizerId,
+          teamActor: getTeamActor(req),
+          scannerDevice: undefined,
           action: parsed.data.present ? "manual_mark_present" : "manual_mark_absent",
           reason: parsed.data.reason.trim(),
           previousIsPresent: beforeIsPresent,
@@ -1830,15 +3263,8 @@ eventsRouter.patch(
 
       return res.json({
         alreadyInState: !changed,
-        attendance: nextAttendance
-          ? {
-              id: nextAttendance._id.toString(),
-              eventId: nextAttendance.eventId.toString(),
-              participationId: nextAttendance.participationId.toString(),
-              userId: nextAttendance.userId.toString(),
-              markedAt: nextAttendance.markedAt,
-            }
-          : null,
+        checkpoint,
+        attendance: nextAttendance ? toAttendanceResponse(nextAttendance) : null,
         participant: participant
           ? {
               id: participant._id.toString(),
@@ -1861,7 +3287,7 @@ eventsRouter.patch(
 eventsRouter.get(
   "/organizer/:eventId/participants.csv",
   requireAuth,
-  requireRole("organizer"),
+  requireOrganizerAccess("finance", "editor"),
   async (req, res, next) => {
     try {
       const eventId = parseObjectId(req.params.eventId);
@@ -1876,7 +3302,7 @@ eventsRouter.get(
           .json({ error: { message: "Not authenticated" } });
       }
 
-      const organizerId = getOrganizerObjectId(authUser.id);
+      const organizerId = getActingOrganizerId(req);
       if (!organizerId) {
         return res
           .status(401)
@@ -1904,6 +3330,9 @@ eventsRouter.get(
       const paymentByParticipationId = new Map(
         foundPayments.map((entry) => [entry.registrationId.toString(), entry]),
       );
+      const refundByParticipationId = await loadRefundRequestsByParticipationId(
+        loaded.event._id,
+      );
 
       const foundAttendances =
         participationIds.length > 0
@@ -1911,18 +3340,29 @@ eventsRouter.get(
               .find({ participationId: { $in: participationIds } })
               .toArray()
           : [];
-      const attendanceByParticipationId = new Map(
-        foundAttendances.map((entry) => [entry.participationId.toString(), entry]),
-      );
+      const attendancesByParticipationId = groupAttendancesByParticipationId(foundAttendances);
+      const checkpoints = getAttendanceCheckpoints(loaded.event);
 
-      const rows = loaded.participations.map((participation) => {
+      // team members sit together under their team, individual registrations follow
+      const orderedParticipations = [
+        ...groupParticipationsByTeam(loaded.participations, loaded.teamsById).flatMap(
+          ({ members }) => members,
+        ),
+        ...loaded.participations.filter((participation) => !participation.teamId),
+      ];
+
+      const rows = orderedParticipations.map((participation) => {
         const participant = loaded.participantsById.get(
           participation.userId.toString(),
         );
         const payment = paymentByParticipationId.get(participation._id.toString());
-        const attendance = attendanceByParticipationId.get(
-          participation._id.toString(),
-        );
+        const refund = refundByParticipationId.get(participation._id.toString());
+        const participationAttendances =
+          attendancesByParticipationId.get(participation._id.toString()) ?? [];
+        const attendanceMarkedAt = earliestMarkedAt(participationAttendances);
+        const team = participation.teamId
+          ? loaded.teamsById.get(participation.teamId.toString())
+          : undefined;
 
         return {
           participationId: participation._id.toString(),
@@ -1941,12 +3381,29 @@ eventsRouter.get(
           merchQuantity: participation.merchPurchase?.quantity ?? "",
           merchUnitPrice: participation.merchPurchase?.unitPrice ?? "",
           merchTotalAmount: participation.merchPurchase?.totalAmount ?? "",
-          teamName: "",
+          teamName: team?.name ?? "",
+          teamRole: getTeamRole(participation, team) ?? "",
+          teamStatus: team?.status ?? "",
+          reviewDecision: isAwaitingReview(loaded.event, participation)
+            ? "awaiting"
+            : (participation.review?.decision ?? ""),
+          reviewedAt: participation.review?.reviewedAt ?? "",
           paymentStatus: payment?.status ?? "",
           paymentAmount: payment?.amount ?? "",
           paymentMethod: payment?.method ?? "",
-          attendanceMarked: attendance ? "yes" : "no",
-          attendanceMarkedAt: attendance?.markedAt ?? "",
+          paymentRefundedAmount: payment?.refundedAmount ?? "",
+          refundStatus: refund?.status ?? "",
+          refundAmount: refund?.amount ?? "",
+          refundReference: refund?.reference ?? "",
+          refundProcessedAt: refund?.processedAt ?? "",
+          paymentHoldExpiresAt: isAwaitingPaymentReview(participation)
+            ? (participation.paymentHoldExpiresAt ?? "")
+            : "",
+          attendanceMarked: attendanceMarkedAt ? "yes" : "no",
+          attendanceMarkedAt: attendanceMarkedAt ?? "",
+          checkpointAttendance: new Map(
+            participationAttendances.map((entry) => [entry.checkpointKey, entry]),
+          ),
           normalResponses: (participation.normalResponses ?? [])
             .map((response) => `${response.label}: ${formatNormalResponseValue(response)}`)
             .join(" || "),
@@ -1974,11 +3431,34 @@ eventsRouter.get(
         { header: "merchUnitPrice", value: (row) => row.merchUnitPrice },
         { header: "merchTotalAmount", value: (row) => row.merchTotalAmount },
         { header: "teamName", value: (row) => row.teamName },
+        { header: "teamRole", value: (row) => row.teamRole },
+        { header: "teamStatus", value: (row) => row.teamStatus },
+        { header: "reviewDecision", value: (row) => row.reviewDecision },
+        { header: "reviewedAt", value: (row) => row.reviewedAt },
         { header: "paymentStatus", value: (row) => row.paymentStatus },
         { header: "paymentAmount", value: (row) => row.paymentAmount },
         { header: "paymentMethod", value: (row) => row.paymentMethod },
+        { header: "paymentRefundedAmount", value: (row) => row.paymentRefundedAmount },
+        { header: "refundStatus", value: (row) => row.refundStatus },
+        { header: "refundAmount", value: (row) => row.refundAmount },
+        { header: "refundReference", value: (row) => row.refundReference },
+        { header: "refundProcessedAt", value: (row) => row.refundProcessedAt },
+        { header: "paymentHoldExpiresAt", value: (row) => row.paymentHoldExpiresAt },
         { header: "attendanceMarked", value: (row) => row.attendanceMarked },
         { header: "attendanceMarkedAt", value: (row) => row.attendanceMarkedAt },
+        // two columns per checkpoint, keyed so renamed checkpoints keep stable headers
+        ...checkpoints.flatMap((checkpoint) => [
+          {
+            header: `checkpoint:${checkpoint.key}:scans`,
+            value: (row: (typeof rows)[number]) =>
+              row.checkpointAttendance.get(checkpoint.key)?.scanCount ?? 0,
+          },
+          {
+            header: `checkpoint:${checkpoint.key}:firstScanAt`,
+            value: (row: (typeof rows)[number]) =>
+              row.checkpointAttendance.get(checkpoint.key)?.markedAt ?? "",
+          },
+        ]),
         { header: "normalResponses", value: (row) => row.normalResponses },
       ]);
 
@@ -1998,11 +3478,381 @@ eventsRouter.get(
   },
 );
 
+// organizer posts an announcement to a targeted slice of the event's participants
+eventsRouter.post(
+  "/organizer/:eventId/announcements",
+  requireAuth,
+  requireOrganizerAccess("editor"),
+  async (req, res, next) => {
+    try {
+      const eventId = parseObjectId(req.params.eventId);
+      if (!eventId) {
+        return res.status(400).json({ error: { message: "Invalid event id" } });
+      }
+
+      const parsed = createAnnouncementSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: { message: "Invalid request", details: parsed.error.flatten() },
+        });
+      }
+
+      const authUser = req.user;
+      if (!authUser) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const organizerId = getActingOrganizerId(req);
+      if (!organizerId) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const loaded = await loadOrganizerEventParticipants({ eventId, organizerId });
+      if (!loaded) {
+        return res.status(404).json({ error: { message: "Event not found" } });
+      }
+
+      const db = getDb();
+      const announcements = db.collection<StoredAnnouncementDoc>(
+        collections.announcements,
+      );
+      const attendances = db.collection<StoredAttendanceDoc>(
+        collections.attendances,
+      );
+
+      const { audience } = parsed.data;
+      const targeted = loaded.participations.filter((participation) =>
+        audience.statuses.includes(participation.status),
+      );
+
+      let presentParticipationIds = new Set<string>();
+      if (audience.attendance !== "any" && targeted.length > 0) {
+        const foundAttendances = await attendances
+          .find({ participationId: { $in: targeted.map((entry) => entry._id) } })
+          .toArray();
+        presentParticipationIds = new Set(
+          foundAttendances.map((entry) => entry.participationId.toString()),
+        );
+      }
+
+      // participations are sorted newest first, so each user keeps their latest one
+      const seenUserIds = new Set<string>();
+      const now = new Date();
+      const recipients: AnnouncementRecipient[] = [];
+      for (const participation of targeted) {
+        const isPresent = presentParticipationIds.has(participation._id.toString());
+        if (audience.attendance === "present" && !isPresent) continue;
+        if (audience.attendance === "absent" && isPresent) continue;
+
+        const userKey = participation.userId.toString();
+        if (seenUserIds.has(userKey)) continue;
+        seenUserIds.add(userKey);
+
+        const participant = loaded.participantsById.get(userKey);
+        if (!participant) continue;
+
+        recipients.push({
+          participationId: participation._id,
+          userId: participation.userId,
+          email: participant.email,
+          name: participant.name,
+          deliveryStatus: parsed.data.sendEmail ? "pending" : "skipped",
+        });
+      }
+
+      const announcement: StoredAnnouncementDoc = {
+        _id: new ObjectId(),
+        eventId,
+        organizerId,
+        title: parsed.data.title,
+        message: parsed.data.message,
+        audience,
+        emailEnabled: parsed.data.sendEmail,
+        recipients,
+        createdAt: now,
+      };
+
+      await announcements.insertOne(announcement);
+
+      // emails go out after the response; delivery status is visible in the list endpoint
+      if (announcement.emailEnabled && recipients.length > 0) {
+        void deliverAnnouncementEmailsSafe(announcement._id);
+      }
+
+      return res
+        .status(201)
+        .json({ announcement: toAnnouncementResponse(announcement) });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// organizer lists event announcements with per-recipient delivery status
+eventsRouter.get(
+  "/organizer/:eventId/announcements",
+  requireAuth,
+  requireOrganizerAccess("editor"),
+  async (req, res, next) => {
+    try {
+      const eventId = parseObjectId(req.params.eventId);
+      if (!eventId) {
+        return res.status(400).json({ error: { message: "Invalid event id" } });
+      }
+
+      const authUser = req.user;
+      if (!authUser) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const organizerId = getActingOrganizerId(req);
+      if (!organizerId) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const db = getDb();
+      const events = db.collection<StoredEventDoc>(collections.events);
+      const announcements = db.collection<StoredAnnouncementDoc>(
+        collections.announcements,
+      );
+
+      const event = await events.findOne({ _id: eventId, organizerId });
+      if (!event) {
+        return res.status(404).json({ error: { message: "Event not found" } });
+      }
+
+      const found = await announcements
+        .find({ eventId })
+        .sort({ createdAt: -1 })
+        .toArray();
+
+      return res.json({ announcements: found.map(toAnnouncementResponse) });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// organizer retries email delivery for recipients whose send failed
+eventsRouter.post(
+  "/organizer/:eventId/announcements/:announcementId/retry",
+  requireAuth,
+  requireOrganizerAccess("editor"),
+  async (req, res, next) => {
+    try {
+      const eventId = parseObjectId(req.params.eventId);
+      const announcementId = parseObjectId(req.params.announcementId);
+      if (!eventId || !announcementId) {
+        return res.status(400).json({ error: { message: "Invalid id" } });
+      }
+
+      const authUser = req.user;
+      if (!authUser) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const organizerId = getActingOrganizerId(req);
+      if (!organizerId) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const announcements = getDb().collection<StoredAnnouncementDoc>(
+        collections.announcements,
+      );
+
+      const announcement = await announcements.findOne({
+        _id: announcementId,
+        eventId,
+        organizerId,
+      });
+      if (!announcement) {
+        return res
+          .status(404)
+          .json({ error: { message: "Announcement not found" } });
+      }
+
+      if (!announcement.emailEnabled) {
+        return res.status(409).json({
+          error: { message: "Email delivery is disabled for this announcement" },
+        });
+      }
+
+      // requeued outbox emails flip their recipients back to pending through the outbox listener
+      const failedOutboxEmailIds = announcement.recipients.flatMap((recipient) =>
+        recipient.deliveryStatus === "failed" && recipient.outboxEmailId
+          ? [recipient.outboxEmailId]
+          : [],
+      );
+      await requeueOutboxEmails({ _id: { $in: failedOutboxEmailIds } });
+
+      // failures recorded before the outbox existed have nothing to requeue, so queue them fresh
+      await announcements.updateOne(
+        { _id: announcement._id },
+        { $set: { "recipients.$[r].deliveryStatus": "pending" } },
+        {
+          arrayFilters: [
+            { "r.deliveryStatus": "failed", "r.outboxEmailId": { $exists: false } },
+          ],
+        },
+      );
+      void deliverAnnouncementEmailsSafe(announcement._id);
+
+      const updated = await announcements.findOne({ _id: announcement._id });
+      return res.json({
+        announcement: toAnnouncementResponse(updated ?? announcement),
+      });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// organizer or editor lists the gate devices paired for an event
+eventsRouter.get(
+  "/organizer/:eventId/scanner-tokens",
+  requireAuth,
+  requireOrganizerAccess("editor"),
+  async (req, res, next) => {
+    try {
+      const eventId = parseObjectId(req.params.eventId);
+      if (!eventId) {
+        return res.status(400).json({ error: { message: "Invalid event id" } });
+      }
+
+      const organizerId = getActingOrganizerId(req);
+      if (!organizerId) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const event = await getDb()
+        .collection<StoredEventDoc>(collections.events)
+        .findOne({ _id: eventId, organizerId });
+      if (!event) {
+        return res.status(404).json({ error: { message: "Event not found" } });
+      }
+
+      const tokens = await listScannerTokens(eventId);
+      return res.json({
+        validUntil: event.endDate,
+        tokens: tokens.map(toScannerTokenResponse),
+      });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// organizer or editor pairs a gate device; the raw token is returned once, inside the pairing url
+eventsRouter.post(
+  "/organizer/:eventId/scanner-tokens",
+  requireAuth,
+  requireOrganizerAccess("editor"),
+  async (req, res, next) => {
+    try {
+      const eventId = parseObjectId(req.params.eventId);
+      if (!eventId) {
+        return res.status(400).json({ error: { message: "Invalid event id" } });
+      }
+
+      const parsed = createScannerTokenSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: { message: "Invalid request", details: parsed.error.flatten() },
+        });
+      }
+
+      const access = req.organizerAccess;
+      if (!access) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const event = await getDb()
+        .collection<StoredEventDoc>(collections.events)
+        .findOne({ _id: eventId, organizerId: access.organizerId });
+      if (!event) {
+        return res.status(404).json({ error: { message: "Event not found" } });
+      }
+
+      if (event.endDate <= new Date()) {
+        return res.status(409).json({ error: { message: "Event has already ended" } });
+      }
+
+      const issued = await issueScannerToken({
+        eventId,
+        organizerId: access.organizerId,
+        label: parsed.data.label,
+        createdByUserId: access.actorUserId,
+      });
+
+      await recordSecurityEventSafe(req, {
+        action: "scanner_token_created",
+        actor: requestActor(req),
+        details: { eventId: eventId.toString(), device: issued.doc.label },
+      });
+
+      return res.status(201).json({
+        token: toScannerTokenResponse(issued.doc),
+        pairingUrl: buildScannerPairingUrl(issued.token),
+        validUntil: event.endDate,
+      });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// organizer or editor revokes a gate device; its next scan is rejected
+eventsRouter.delete(
+  "/organizer/:eventId/scanner-tokens/:tokenId",
+  requireAuth,
+  requireOrganizerAccess("editor"),
+  async (req, res, next) => {
+    try {
+      const eventId = parseObjectId(req.params.eventId);
+      const tokenId = parseObjectId(req.params.tokenId);
+      if (!eventId || !tokenId) {
+        return res.status(400).json({ error: { message: "Invalid id" } });
+      }
+
+      const access = req.organizerAccess;
+      if (!access) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const event = await getDb()
+        .collection<StoredEventDoc>(collections.events)
+        .findOne({ _id: eventId, organizerId: access.organizerId });
+      if (!event) {
+        return res.status(404).json({ error: { message: "Event not found" } });
+      }
+
+      const revoked = await revokeScannerToken({
+        eventId,
+        tokenId,
+        revokedByUserId: access.actorUserId,
+      });
+      if (!revoked) {
+        return res.status(404).json({ error: { message: "Scanner token not found" } });
+      }
+
+      await recordSecurityEventSafe(req, {
+        action: "scanner_token_revoked",
+        actor: requestActor(req),
+        details: { eventId: eventId.toString(), device: revoked.label },
+      });
+
+      return res.json({ token: toScannerTokenResponse(revoked) });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
 // organizer gets one own event by id for edit/view
 eventsRouter.get(
   "/organizer/:eventId",
   requireAuth,
-  requireRole("organizer"),
+  requireOrganizerAccess("scanner", "finance", "editor"),
   async (req, res, next) => {
     try {
       const eventId = parseObjectId(req.params.eventId);
@@ -2017,7 +3867,7 @@ eventsRouter.get(
           .json({ error: { message: "Not authenticated" } });
       }
 
-      const organizerId = getOrganizerObjectId(authUser.id);
+      const organizerId = getActingOrganizerId(req);
       if (!organizerId) {
         return res
           .status(401)
@@ -2043,7 +3893,7 @@ eventsRouter.get(
 eventsRouter.patch(
   "/organizer/:eventId",
   requireAuth,
-  requireRole("organizer"),
+  requireOrganizerAccess("editor"),
   async (req, res, next) => {
     try {
       const eventId = parseObjectId(req.params.eventId);
@@ -2074,7 +3924,7 @@ eventsRouter.patch(
           .json({ error: { message: "Not authenticated" } });
       }
 
-      const organizerId = getOrganizerObjectId(authUser.id);
+      const organizerId = getActingOrganizerId(req);
       if (!organizerId) {
         return res
           .status(401)
@@ -2119,6 +3969,9 @@ eventsRouter.patch(
           "description",
           "regDeadline",
           "regLimit",
+          "reminderOffsetsMinutes",
+          "approvalAutoDecision",
+          "refundPolicy",
         ]);
         const invalidFields = requestedFields.filter(
           (field) => !allowedPublishedFields.has(field),
@@ -2127,7 +3980,7 @@ eventsRouter.patch(
           return res.status(400).json({
             error: {
               message:
-                "Published events allow only description update, deadline extension, and limit increase",
+                "Published events allow only description update, deadline extension, limit increase, reminder, auto-decision and refund policy changes",
             },
           });
         }
@@ -2169,6 +4022,39 @@ eventsRouter.patch(
         }
       }
 
+      if (parsed.data.teamConfig !== undefined) {
+        const registrationCount = await db
+          .collection<StoredParticipationDoc>(collections.registrations)
+          .countDocuments({ eventId });
+
+        if (registrationCount > 0) {
+          return res.status(400).json({
+            error: {
+              message:
+                "Team settings are locked after first registration and cannot be edited",
+            },
+          });
+        }
+      }
+
+      if (
+        parsed.data.requiresApproval !== undefined &&
+        parsed.data.requiresApproval !== (existing.requiresApproval ?? false)
+      ) {
+        const registrationCount = await db
+          .collection<StoredParticipationDoc>(collections.registrations)
+          .countDocuments({ eventId });
+
+        if (registrationCount > 0) {
+          return res.status(400).json({
+            error: {
+              message:
+                "Approval mode is locked after first registration and cannot be changed",
+            },
+          });
+        }
+      }
+
       const nextStartDate = parsed.data.startDate ?? existing.startDate;
       const nextEndDate = parsed.data.endDate ?? existing.endDate;
       if (nextEndDate <= nextStartDate) {
@@ -2186,6 +4072,15 @@ eventsRouter.patch(
         });
       }
 
+      if (
+        parsed.data.scheduledPublishAt &&
+        parsed.data.scheduledPublishAt <= new Date()
+      ) {
+        return res.status(400).json({
+          error: { message: "scheduledPublishAt must be in the future" },
+        });
+      }
+
       const nextType = parsed.data.type ?? existing.type;
       const nextNormalForm =
         parsed.data.normalForm !== undefined
@@ -2227,6 +4122,34 @@ eventsRouter.patch(
             error: { message: "normalForm is not allowed for MERCH events" },
           });
         }
+
+        if (parsed.data.teamConfig) {
+          return res.status(400).json({
+            error: { message: "teamConfig is not allowed for MERCH events" },
+          });
+        }
+      }
+
+      const nextRequiresApproval =
+        parsed.data.requiresApproval ?? existing.requiresApproval ?? false;
+      const approvalError = validateApprovalSettings({
+        type: nextType,
+        requiresApproval: nextRequiresApproval,
+        teamConfig:
+          parsed.data.teamConfig !== undefined
+            ? parsed.data.teamConfig
+            : (existing.teamConfig ?? null),
+        // switching approval off drops the auto-decision with it
+        approvalAutoDecision: nextRequiresApproval
+          ? parsed.data.approvalAutoDecision !== undefined
+            ? parsed.data.approvalAutoDecision
+            : (existing.approvalAutoDecision ?? null)
+          : (parsed.data.approvalAutoDecision ?? null),
+        regDeadline: nextRegDeadline,
+        endDate: nextEndDate,
+      });
+      if (approvalError) {
+        return res.status(400).json({ error: { message: approvalError.message } });
       }
 
       const updatedAt = new Date();
@@ -2254,6 +4177,25 @@ eventsRouter.patch(
       }
       if (parsed.data.endDate !== undefined)
         updatePayload.endDate = parsed.data.endDate;
+      if (parsed.data.scheduledPublishAt !== undefined) {
+        updatePayload.scheduledPublishAt = parsed.data.scheduledPublishAt;
+      }
+      if (parsed.data.reminderOffsetsMinutes !== undefined) {
+        updatePayload.reminderOffsetsMinutes = parsed.data.reminderOffsetsMinutes;
+      }
+      if (parsed.data.teamConfig !== undefined) {
+        updatePayload.teamConfig = parsed.data.teamConfig;
+      }
+      if (parsed.data.requiresApproval !== undefined) {
+        updatePayload.requiresApproval = parsed.data.requiresApproval;
+        if (!parsed.data.requiresApproval) updatePayload.approvalAutoDecision = null;
+      }
+      if (parsed.data.approvalAutoDecision !== undefined && nextRequiresApproval) {
+        updatePayload.approvalAutoDecision = parsed.data.approvalAutoDecision;
+      }
+      if (parsed.data.refundPolicy !== undefined) {
+        updatePayload.refundPolicy = parsed.data.refundPolicy;
+      }
 
       if (parsed.data.normalForm !== undefined) {
         updatePayload.normalForm =
@@ -2288,6 +4230,9 @@ eventsRouter.patch(
 
         if (parsed.data.type === "MERCH") {
           updatePayload.normalForm = undefined;
+          updatePayload.teamConfig = null;
+          updatePayload.requiresApproval = false;
+          updatePayload.approvalAutoDecision = null;
           const merchSource = nextMerchConfig;
           updatePayload.merchConfig = merchSource
             ? {
@@ -2304,10 +4249,18 @@ eventsRouter.patch(
         { $set: updatePayload },
       );
 
+      if (
+        updatePayload.regLimit !== undefined &&
+        updatePayload.regLimit > existing.regLimit
+      ) {
+        await promoteWaitlistedParticipationsSafe({ eventId, now: updatedAt });
+      }
+
       const updatedEvent = {
         ...existing,
         ...updatePayload,
       } as StoredEventDoc;
+      await syncEventJobsSafe(updatedEvent);
 
       return res.json({ event: toEventResponse(updatedEvent) });
     } catch (err) {
@@ -2320,7 +4273,7 @@ eventsRouter.patch(
 eventsRouter.patch(
   "/organizer/:eventId/status",
   requireAuth,
-  requireRole("organizer"),
+  requireOrganizerAccess("editor"),
   async (req, res, next) => {
     try {
       const eventId = parseObjectId(req.params.eventId);
@@ -2345,7 +4298,7 @@ eventsRouter.patch(
           .json({ error: { message: "Not authenticated" } });
       }
 
-      const organizerId = getOrganizerObjectId(authUser.id);
+      const organizerId = getActingOrganizerId(req);
       if (!organizerId) {
         return res
           .status(401)
@@ -2372,38 +4325,30 @@ eventsRouter.patch(
         });
       }
 
+      const isPublishing =
+        parsed.data.status === "PUBLISHED" && existing.status !== "PUBLISHED";
+
       await events.updateOne(
         { _id: eventId, organizerId },
-        { $set: { status: parsed.data.status, updatedAt } },
+        {
+          $set: {
+            status: parsed.data.status,
+            updatedAt,
+            ...(isPublishing ? { scheduledPublishAt: null } : {}),
+          },
+        },
       );
 
       const updatedEvent: StoredEventDoc = {
         ...existing,
         status: parsed.data.status,
         updatedAt,
+        ...(isPublishing ? { scheduledPublishAt: null } : {}),
       };
+      await syncEventJobsSafe(updatedEvent);
 
-      if (
-        parsed.data.status === "PUBLISHED" &&
-        existing.status !== "PUBLISHED"
-      ) {
-        const users = db.collection<OrganizerUserDoc>(collections.users);
-        const organizer = await users.findOne({
-          _id: organizerId,
-          role: "organizer",
-        });
-
-        if (organizer?.discordWebhookUrl) {
-          await postEventAnnouncementToDiscordSafe({
-            webhookUrl: organizer.discordWebhookUrl,
-            organizerName: organizer.name,
-            eventName: existing.name,
-            eventType: existing.type,
-            regDeadline: existing.regDeadline,
-            startDate: existing.startDate,
-            endDate: existing.endDate,
-          });
-        }
+      if (isPublishing) {
+        await announceEventPublished(existing);
       }
 
       return res.json({ event: toEventResponse(updatedEvent) });
@@ -2417,7 +4362,7 @@ eventsRouter.patch(
 eventsRouter.delete(
   "/organizer/:eventId",
   requireAuth,
-  requireRole("organizer"),
+  requireOrganizerAccess(),
   async (req, res, next) => {
     try {
       const eventId = parseObjectId(req.params.eventId);
@@ -2432,7 +4377,7 @@ eventsRouter.delete(
           .json({ error: { message: "Not authenticated" } });
       }
 
-      const organizerId = getOrganizerObjectId(authUser.id);
+      const organizerId = getActingOrganizerId(req);
       if (!organizerId) {
         return res
           .status(401)
@@ -2454,6 +4399,8 @@ eventsRouter.delete(
       }
 
       await events.deleteOne({ _id: eventId, organizerId });
+      await db.collection(collections.scannerTokens).deleteMany({ eventId });
+      await cancelEventJobs(eventId);
 
       return res.json({ ok: true });
     } catch (err) {
@@ -2462,6 +4409,36 @@ eventsRouter.delete(
   },
 );
 
+// paired gate device checks which event it scans for; used right after pairing
+eventsRouter.get("/scanner/device", requireScannerToken, async (req, res, next) => {
+  try {
+    const device = req.scannerDevice;
+    if (!device) {
+      return res.status(401).json({ error: { message: "Invalid or expired scanner token" } });
+    }
+
+    const event = await getDb()
+      .collection<StoredEventDoc>(collections.events)
+      .findOne({ _id: device.eventId });
+    if (!event) {
+      return res.status(404).json({ error: { message: "Event not found" } });
+    }
+
+    return res.json({
+      device: { id: device.tokenId.toString(), label: device.label },
+      event: {
+        id: event._id.toString(),
+        name: event.name,
+        startDate: event.startDate,
+        endDate: event.endDate,
+        attendanceCheckpoints: getAttendanceCheckpoints(event),
+      },
+    });
+  } catch (err) {
+    return next(err);
+  }
+});
+
 // public event listing with filters (search, type, eligibility, status, date range)
 eventsRouter.get("/", async (req, res, next) => {
   try {
@@ -0,0 +1,380 @@
+import crypto from "node:crypto";
+import { Router } from "express";
+import { ObjectId } from "mongodb";
+import { z } from "zod";
+import { env } from "../config/env";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+import { requireAuth, requireRole } from "../middleware/auth";
+import { toCsvString } from "../utils/csv";
+
+export const feedbackRouter = Router();
+
+type PersistedEventStatus = "DRAFT" | "PUBLISHED" | "CLOSED" | "COMPLETED";
+
+type FeedbackEventDoc = {
+  _id: ObjectId;
+  name: string;
+  organizerId: ObjectId;
+  status: PersistedEventStatus;
+};
+
+type FeedbackParticipationDoc = {
+  _id: ObjectId;
+  eventId: ObjectId;
+  userId: ObjectId;
+  status: string;
+};
+
+// deliberately has no userId/participationId: submitterKey is a keyed hash used only for
+// one-per-participant dedupe, and the stored date is truncated to the day
+type StoredFeedbackDoc = {
+  _id: ObjectId;
+  eventId: ObjectId;
+  submitterKey: string;
+  rating: number;
+  comment: string;
+  submittedOn: string;
+};
+
+type FeedbackEligibility =
+  | { eligible: true }
+  | { eligible: false; reason: string };
+
+const feedbackRatings = [1, 2, 3, 4, 5] as const;
+
+const submitFeedbackSchema = z.object({
+  rating: z.number().int().min(1).max(5),
+  comment: z.string().trim().max(2000).optional().default(""),
+});
+
+const feedbackQuerySchema = z.object({
+  rating: z.coerce.number().int().min(1).max(5).optional(),
+});
+
+function parseObjectId(rawId: unknown): ObjectId | null {
+  if (typeof rawId !== "string") return null;
+  if (!ObjectId.isValid(rawId)) return null;
+  return new ObjectId(rawId);
+}
+
+function readQueryStringValue(value: unknown): string | undefined {
+  if (typeof value === "string") return value;
+  if (Array.isArray(value) && typeof value[0] === "string") return value[0];
+  return undefined;
+}
+
+function buildSubmitterKey(eventId: ObjectId, userId: ObjectId): string {
+  return crypto
+    .createHmac("sha256", env.JWT_SECRET)
+    .update(`feedback:${eventId.toString()}:${userId.toString()}`)
+    .digest("hex");
+}
+
+// no _id either: an ObjectId embeds its creation time
+function toFeedbackResponse(feedback: StoredFeedbackDoc) {
+  return {
+    rating: feedback.rating,
+    comment: feedback.comment,
+    submittedOn: feedback.submittedOn,
+  };
+}
+
+// completed event + confirmed participation + attendance record
+async function checkFeedbackEligibility(params: {
+  event: FeedbackEventDoc;
+  userId: ObjectId;
+}): Promise<FeedbackEligibility> {
+  if (params.event.status !== "COMPLETED") {
+    return { eligible: false, reason: "Feedback opens once the event is completed" };
+  }
+
+  const db = getDb();
+  const participation = await db
+    .collection<FeedbackParticipationDoc>(collections.registrations)
+    .findOne({ eventId: params.event._id, userId: params.userId, status: "confirmed" });
+  if (!participation) {
+    return { eligible: false, reason: "Only confirmed participants can leave feedback" };
+  }
+
+  const attendance = await db
+    .collection(collections.attendances)
+    .findOne({ participationId: participation._id }, { projection: { _id: 1 } });
+  if (!attendance) {
+    return { eligible: false, reason: "Only participants who attended can leave feedback" };
+  }
+
+  return { eligible: true };
+}
+
+async function loadOwnedEvent(
+  eventIdRaw: unknown,
+  organizerIdRaw: string,
+): Promise<FeedbackEventDoc | null> {
+  const eventId = parseObjectId(eventIdRaw);
+  const organizerId = parseObjectId(organizerIdRaw);
+  if (!eventId || !organizerId) return null;
+
+  return getDb()
+    .collection<FeedbackEventDoc>(collections.events)
+    .findOne({ _id: eventId, organizerId });
+}
+
+// participant checks whether they can (still) leave feedback for an event
+feedbackRouter.get(
+  "/events/:eventId/me",
+  requireAuth,
+  requireRole("participant"),
+  async (req, res, next) => {
+    try {
+      const eventId = parseObjectId(req.params.eventId);
+      if (!eventId) {
+        return res.status(400).json({ error: { message: "Invalid event id" } });
+      }
+
+      const authUser = req.user;
+      if (!authUser) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const userId = parseObjectId(authUser.id);
+      if (!userId) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const db = getDb();
+      const event = await db
+        .collection<FeedbackEventDoc>(collections.events)
+        .findOne({ _id: eventId });
+      if (!event || event.status === "DRAFT") {
+        return res.status(404).json({ error: { message: "Event not found" } });
+      }
+
+      const submitted =
+        (await db.collection<StoredFeedbackDoc>(collections.feedback).countDocuments({
+          eventId,
+          submitterKey: buildSubmitterKey(eventId, userId),
+        })) > 0;
+      const eligibility = await checkFeedbackEligibility({ event, userId });
+
+      return res.json({
+        submitted,
+        eligible: eligibility.eligible && !submitted,
+        reason: submitted
+          ? "Feedback already submitted"
+          : eligibility.eligible
+            ? null
+            : eligibility.reason,
+      });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// participant submits anonymous feedback (once per event)
+feedbackRouter.post(
+  "/events/:eventId",
+  requireAuth,
+  requireRole("participant"),
+  async (req, res, next) => {
+    try {
+      const eventId = parseObjectId(req.params.eventId);
+      if (!eventId) {
+        return res.status(400).json({ error: { message: "Invalid event id" } });
+      }
+
+      const parsed = submitFeedbackSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: {
+            message: "Invalid request",
+            details: parsed.error.flatten(),
+          },
+        });
+      }
+
+      const authUser = req.user;
+      if (!authUser) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const userId = parseObjectId(authUser.id);
+      if (!userId) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const db = getDb();
+      const event = await db
+        .collection<FeedbackEventDoc>(collections.events)
+        .findOne({ _id: eventId });
+      if (!event || event.status === "DRAFT") {
+        return res.status(404).json({ error: { message: "Event not found" } });
+      }
+
+      const eligibility = await checkFeedbackEligibility({ event, userId });
+      if (!eligibility.eligible) {
+        return res.status(403).json({ error: { message: eligibility.reason } });
+      }
+
+      const feedback: StoredFeedbackDoc = {
+        _id: new ObjectId(),
+        eventId,
+        submitterKey: buildSubmitterKey(eventId, userId),
+        rating: parsed.data.rating,
+        comment: parsed.data.comment,
+        submittedOn: new Date().toISOString().slice(0, 10),
+      };
+
+      try {
+        await db.collection<StoredFeedbackDoc>(collections.feedback).insertOne(feedback);
+      } catch (err) {
+        // unique (eventId, submitterKey) index
+        if (
+          err &&
+          typeof err === "object" &&
+          "code" in err &&
+          (err as { code?: number }).code === 11000
+        ) {
+          return res
+            .status(409)
+            .json({ error: { message: "Feedback already submitted" } });
+        }
+        throw err;
+      }
+
+      return res.status(201).json({ submitted: true });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// organizer gets aggregate feedback for own event, optionally filtered by rating
+feedbackRouter.get(
+  "/organizer/events/:eventId",
+  requireAuth,
+  requireRole("organizer"),
+  async (req, res, next) => {
+    try {
+      const parsedQuery = feedbackQuerySchema.safeParse({
+        rating: readQueryStringValue(req.query.rating),
+      });
+      if (!parsedQuery.success) {
+        return res.status(400).json({
+          error: {
+            message: "Invalid request",
+            details: parsedQuery.error.flatten(),
+          },
+        });
+      }
+
+      const authUser = req.user;
+      if (!authUser) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const event = await loadOwnedEvent(req.params.eventId, authUser.id);
+      if (!event) {
+        return res.status(404).json({ error: { message: "Event not found" } });
+      }
+
+      const allFeedback = await getDb()
+        .collection<StoredFeedbackDoc>(collections.feedback)
+        .find({ eventId: event._id })
+        .sort({ submittedOn: -1, rating: -1 })
+        .toArray();
+
+      const distribution = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+      let ratingTotal = 0;
+      for (const feedback of allFeedback) {
+        const rating = feedback.rating as (typeof feedbackRatings)[number];
+        if (feedbackRatings.includes(rating)) distribution[rating] += 1;
+        ratingTotal += feedback.rating;
+      }
+
+      const filtered =
+        parsedQuery.data.rating === undefined
+          ? allFeedback
+          : allFeedback.filter((feedback) => feedback.rating === parsedQuery.data.rating);
+
+      return res.json({
+        summary: {
+          count: allFeedback.length,
+          averageRating:
+            allFeedback.length > 0
+              ? Math.round((ratingTotal / allFeedback.length) * 100) / 100
+              : null,
+          distribution,
+          withComments: allFeedback.filter((feedback) => feedback.comment.length > 0)
+            .length,
+        },
+        feedback: filtered.map(toFeedbackResponse),
+      });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// organizer exports feedback as csv (same rating filter as the list)
+feedbackRouter.get(
+  "/organizer/events/:eventId/feedback.csv",
+  requireAuth,
+  requireRole("organizer"),
+  async (req, res, next) => {
+    try {
+      const parsedQuery = feedbackQuerySchema.safeParse({
+        rating: readQueryStringValue(req.query.rating),
+      });
+      if (!parsedQuery.success) {
+        return res.status(400).json({
+          error: {
+            message: "Invalid request",
+            details: parsedQuery.error.flatten(),
+          },
+        });
+      }
+
+      const authUser = req.user;
+      if (!authUser) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const event = await loadOwnedEvent(req.params.eventId, authUser.id);
+      if (!event) {
+        return res.status(404).json({ error: { message: "Event not found" } });
+      }
+
+      const rows = await getDb()
+        .collection<StoredFeedbackDoc>(collections.feedback)
+        .find({
+          eventId: event._id,
+          ...(parsedQuery.data.rating !== undefined
+            ? { rating: parsedQuery.data.rating }
+            : {}),
+        })
+        .sort({ submittedOn: -1, rating: -1 })
+        .toArray();
+
+      const csv = toCsvString(rows, [
+        { header: "rating", value: (row) => row.rating },
+        { header: "comment", value: (row) => row.comment },
+        { header: "submittedOn", value: (row) => row.submittedOn },
+      ]);
+
+      const safeEventName = event.name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "")
+        .slice(0, 60);
+      const filename = `${safeEventName || "event"}-feedback.csv`;
+
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      return res.send(csv);
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
@@ -1,7 +1,10 @@
 import { Router } from "express";
 import { requireAuth, requireRole } from "../middleware/auth";
 import { adminRouter } from "./admin";
+import { certificatesRouter } from "./certificates";
+import { discussionRouter } from "./discussion";
 import { eventsRouter } from "./events";
+import { feedbackRouter } from "./feedback";
 import { healthRouter } from "./health";
 import { organizersRouter } from "./organizers";
 import { authRouter } from "./auth";
@@ -9,6 +12,7 @@ import { securityRouter } from "./security";
 import { participationsRouter } from "./participations";
 import { ticketsRouter } from "./tickets";
 import { participantsRouter } from "./participants";
+import { paymentsRouter } from "./payments";
 import { uploadsRouter } from "./uploads";
 
 export const apiRouter = Router();
@@ -20,6 +24,10 @@ apiRouter.use("/events", eventsRouter);
 apiRouter.use("/organizers", organizersRouter);
 apiRouter.use("/participations", participationsRouter);
 apiRouter.use("/participants", participantsRouter);
+apiRouter.use("/payments", paymentsRouter);
 apiRouter.use("/tickets", ticketsRouter);
 apiRouter.use("/uploads", uploadsRouter);
+apiRouter.use("/discussion", discussionRouter);
+apiRouter.use("/feedback", feedbackRouter);
+apiRouter.use("/certificates", certificatesRouter);
 apiRouter.use("/admin", requireAuth, requireRole("admin"), adminRouter);
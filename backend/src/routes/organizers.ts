@@ -14,6 +14,13 @@ import type {
   UserDoc,
 } from "../db/models";
 import { requireAuth, requireRole } from "../middleware/auth";
+import {
+  listOrganizerTeam,
+  type StoredTeamMemberDoc,
+  teamMemberRoles,
+  toTeamMemberResponse,
+} from "../utils/organizerTeam";
+import { recordSecurityEventSafe, requestActor, toAuditParty } from "../utils/securityAudit";
 
 export const organizersRouter = Router();
 
@@ -67,6 +74,15 @@ const organizerPasswordResetRequestCreateSchema = z.object({
   reason: z.string().trim().min(8).max(500),
 });
 
+const inviteTeamMemberSchema = z.object({
+  email: z.email(),
+  role: z.enum(teamMemberRoles),
+});
+
+const updateTeamMemberSchema = z.object({
+  role: z.enum(teamMemberRoles),
+});
+
 function parseObjectId(rawId: unknown): ObjectId | null {
   if (typeof rawId !== "string") return null;
   if (!ObjectId.isValid(rawId)) return null;
@@ -476,3 +492,212 @@ organizersRouter.get(
     }
   },
 );
+
+// organizer lists team members and pending invites
+organizersRouter.get(
+  "/me/team",
+  requireAuth,
+  requireRole("organizer"),
+  async (req, res, next) => {
+    try {
+      const authUser = req.user;
+      if (!authUser) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const organizerId = parseObjectId(authUser.id);
+      if (!organizerId) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const members = await listOrganizerTeam(organizerId);
+      const users =
+        members.length > 0
+          ? await getDb()
+              .collection<UserDoc>(collections.users)
+              .find({ _id: { $in: members.map((member) => member.userId) } })
+              .toArray()
+          : [];
+      const usersById = new Map(users.map((user) => [user._id.toString(), user]));
+
+      return res.json({
+        members: members.map((member) =>
+          toTeamMemberResponse(member, usersById.get(member.userId.toString())),
+        ),
+      });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// organizer invites an existing participant account; the invite is accepted from the participant's side
+organizersRouter.post(
+  "/me/team",
+  requireAuth,
+  requireRole("organizer"),
+  async (req, res, next) => {
+    try {
+      const authUser = req.user;
+      if (!authUser) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const organizerId = parseObjectId(authUser.id);
+      if (!organizerId) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const parsed = inviteTeamMemberSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: { message: "Invalid request", details: parsed.error.flatten() },
+        });
+      }
+
+      const db = getDb();
+      const users = db.collection<UserDoc>(collections.users);
+      const team = db.collection<StoredTeamMemberDoc>(collections.organizerTeamMembers);
+
+      const user = await users.findOne({
+        email: parsed.data.email.toLowerCase().trim(),
+        role: "participant",
+      });
+      if (!user) {
+        return res.status(404).json({
+          error: { message: "No participant account uses that email" },
+        });
+      }
+
+      const now = new Date();
+      const member: StoredTeamMemberDoc = {
+        _id: new ObjectId(),
+        organizerId,
+        userId: user._id,
+        role: parsed.data.role,
+        status: "invited",
+        invitedAt: now,
+        updatedAt: now,
+      };
+      await team.insertOne(member);
+
+      await recordSecurityEventSafe(req, {
+        action: "team_member_invited",
+        actor: requestActor(req),
+        target: toAuditParty(user),
+        details: { role: member.role },
+      });
+
+      return res.status(201).json({ member: toTeamMemberResponse(member, user) });
+    } catch (err: unknown) {
+      if (
+        err &&
+        typeof err === "object" &&
+        "code" in err &&
+        (err as { code?: number }).code === 11000
+      ) {
+        return res
+          .status(409)
+          .json({ error: { message: "This participant is already on your team" } });
+      }
+      return next(err);
+    }
+  },
+);
+
+// organizer changes a team member's role
+organizersRouter.patch(
+  "/me/team/:memberId",
+  requireAuth,
+  requireRole("organizer"),
+  async (req, res, next) => {
+    try {
+      const authUser = req.user;
+      if (!authUser) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const organizerId = parseObjectId(authUser.id);
+      if (!organizerId) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const memberId = parseObjectId(req.params.memberId);
+      if (!memberId) {
+        return res.status(400).json({ error: { message: "Invalid member id" } });
+      }
+
+      const parsed = updateTeamMemberSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: { message: "Invalid request", details: parsed.error.flatten() },
+        });
+      }
+
+      const db = getDb();
+      const team = db.collection<StoredTeamMemberDoc>(collections.organizerTeamMembers);
+      const member = await team.findOneAndUpdate(
+        { _id: memberId, organizerId },
+        { $set: { role: parsed.data.role, updatedAt: new Date() } },
+        { returnDocument: "after" },
+      );
+      if (!member) {
+        return res.status(404).json({ error: { message: "Team member not found" } });
+      }
+
+      const user = await db.collection<UserDoc>(collections.users).findOne({ _id: member.userId });
+      await recordSecurityEventSafe(req, {
+        action: "team_member_role_changed",
+        actor: requestActor(req),
+        target: user ? toAuditParty(user) : { userId: member.userId },
+        details: { role: member.role },
+      });
+
+      return res.json({ member: toTeamMemberResponse(member, user ?? undefined) });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// organizer removes a team member or withdraws an invite; access ends on the member's next request
+organizersRouter.delete(
+  "/me/team/:memberId",
+  requireAuth,
+  requireRole("organizer"),
+  async (req, res, next) => {
+    try {
+      const authUser = req.user;
+      if (!authUser) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const organizerId = parseObjectId(authUser.id);
+      if (!organizerId) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const memberId = parseObjectId(req.params.memberId);
+      if (!memberId) {
+        return res.status(400).json({ error: { message: "Invalid member id" } });
+      }
+
+      const team = getDb().collection<StoredTeamMemberDoc>(collections.organizerTeamMembers);
+      const removed = await team.findOneAndDelete({ _id: memberId, organizerId });
+      if (!removed) {
+        return res.status(404).json({ error: { message: "Team member not found" } });
+      }
+
+      await recordSecurityEventSafe(req, {
+        action: "team_member_removed",
+        actor: requestActor(req),
+        target: { userId: removed.userId },
+        details: { role: removed.role, status: removed.status },
+      });
+
+      return res.json({ ok: true });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
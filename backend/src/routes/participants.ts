@@ -10,13 +10,41 @@ import {
 import { requireAuth, requireRole } from "../middleware/auth";
 import { isParticipantEligibleForEvent } from "../utils/eligibility";
 import { buildCalendarIcs } from "../utils/calendar";
+import type { StoredAnnouncementDoc } from "../utils/announcements";
+import { getEventSeatsTaken } from "../utils/capacity";
+import { getWaitlistPosition } from "../utils/waitlist";
+import {
+  getEventTeamConfig,
+  loadEventTeamForMember,
+  type EventTeamConfig,
+} from "../utils/eventTeams";
+import { isAwaitingPaymentReview } from "../utils/paymentHolds";
+import { isOnlinePaymentEnabled } from "../payments/providers";
+import type { PaymentDoc } from "../db/models";
+import {
+  type RefundPolicy,
+  type StoredRefundRequestDoc,
+  toRefundRequestResponse,
+} from "../utils/refunds";
+import {
+  eventRequiresApproval,
+  isAwaitingReview,
+  type RegistrationReview,
+} from "../utils/registrationReview";
+import { listUserMemberships, type StoredTeamMemberDoc } from "../utils/organizerTeam";
+import { recordSecurityEventSafe, requestActor } from "../utils/securityAudit";
 
 export const participantsRouter = Router();
 
 type EventType = "NORMAL" | "MERCH";
 type PersistedEventStatus = "DRAFT" | "PUBLISHED" | "CLOSED" | "COMPLETED";
 type DisplayEventStatus = PersistedEventStatus | "ONGOING";
-type ParticipationStatus = "pending" | "confirmed" | "cancelled" | "rejected";
+type ParticipationStatus =
+  | "pending"
+  | "confirmed"
+  | "waitlisted"
+  | "cancelled"
+  | "rejected";
 type ParticipantType = "iiit" | "non-iiit";
 
 type NormalFormFieldType =
@@ -57,8 +85,14 @@ type StoredParticipationDoc = {
   updatedAt: Date;
   eventType: EventType;
   ticketId?: string;
+  waitlistedAt?: Date;
+  teamId?: ObjectId;
+  review?: RegistrationReview;
+  paymentHoldExpiresAt?: Date;
+  paymentHoldExpiredAt?: Date;
   normalResponses?: StoredNormalResponse[] | undefined;
   merchPurchase?: MerchPurchase | undefined;
+  reminderOptOut?: boolean;
 };
 
 type NormalFormField = {
@@ -93,6 +127,9 @@ type StoredEventDoc = {
   status: PersistedEventStatus;
   createdAt: Date;
   updatedAt?: Date;
+  teamConfig?: EventTeamConfig | null;
+  requiresApproval?: boolean;
+  refundPolicy?: RefundPolicy | null;
   normalForm?:
     | {
         fields: NormalFormField[];
@@ -157,6 +194,10 @@ const profilePatchSchema = z.object({
   interests: z.array(z.string().trim().min(1).max(80)).max(30).optional(),
 });
 
+const reminderPreferenceSchema = z.object({
+  enabled: z.boolean(),
+});
+
 const onboardingSchema = z.object({
   interests: z.array(z.string().trim().min(1).max(80)).max(30).default([]),
   followedOrganizerIds: z.array(z.string().trim().min(1)).max(200).default([]),
@@ -848,9 +889,10 @@ function canRegisterNow(event: StoredEventDoc, now: Date): boolean {
   return true;
 }
 
+// full NORMAL events stay open: new registrations join the waitlist instead.
+// team events have no waitlist, so they close once every seat is held
 async function canRegisterForEventDetail(params: {
   event: StoredEventDoc;
-  participations: Collection<StoredParticipationDoc>;
   participantType?: ParticipantType | null;
   now: Date;
 }): Promise<boolean> {
@@ -867,16 +909,17 @@ async function canRegisterForEventDetail(params: {
     return false;
   }
 
-  const activeCount = await params.participations.countDocuments({
-    eventId: params.event._id,
-    status: { $nin: ["cancelled", "rejected"] },
-  });
-
-  if (activeCount >= params.event.regLimit) {
-    return false;
+  if (getEventTeamConfig(params.event)) {
+    if ((await getEventSeatsTaken(params.event._id)) >= params.event.regLimit) {
+      return false;
+    }
   }
 
   if (params.event.type === "MERCH") {
+    if ((await getEventSeatsTaken(params.event._id)) >= params.event.regLimit) {
+      return false;
+    }
+
     const merchConfig = params.event.merchConfig;
     if (!merchConfig) return false;
     if (merchConfig.totalStock <= 0) return false;
@@ -913,6 +956,9 @@ function toParticipantEventResponse(
       canRegisterOverride !== undefined
         ? canRegisterOverride
         : canRegisterNow(event, new Date()),
+    teamConfig: getEventTeamConfig(event),
+    requiresApproval: eventRequiresApproval(event),
+    refundPolicy: event.refundPolicy ?? null,
     normalForm: event.type === "NORMAL" ? event.normalForm : undefined,
     merchConfig: event.type === "MERCH" ? event.merchConfig : undefined,
   };
@@ -922,6 +968,7 @@ function toParticipationItemResponse(
   participation: StoredParticipationDoc,
   event: StoredEventDoc,
   organizerName?: string,
+  waitlistPosition?: number,
 ) {
   return {
     id: participation._id.toString(),
@@ -930,6 +977,15 @@ function toParticipationItemResponse(
     status: participation.status,
     eventType: participation.eventType,
     ticketId: participation.ticketId ?? null,
+    waitlistPosition: waitlistPosition ?? null,
+    teamId: participation.teamId?.toString() ?? null,
+    awaitingReview: isAwaitingReview(event, participation),
+    // the organizer's message on acceptance or rejection, if any
+    reviewMessage: participation.review?.message ?? null,
+    awaitingPaymentReview: isAwaitingPaymentReview(participation),
+    // the seat was released because nobody reviewed the payment in time
+    paymentHoldExpired: participation.paymentHoldExpiredAt !== undefined,
+    remindersEnabled: participation.reminderOptOut !== true,
     createdAt: participation.createdAt,
     updatedAt: participation.updatedAt,
     event: toParticipantEventResponse(event, organizerName),
@@ -998,6 +1054,17 @@ participantsRouter.get(
         organizers.map((organizer) => [organizer._id.toString(), organizer.name]),
       );
 
+      const waitlistPositionById = new Map(
+        await Promise.all(
+          foundParticipations
+            .filter((entry) => entry.status === "waitlisted")
+            .map(
+              async (entry) =>
+                [entry._id.toString(), await getWaitlistPosition(entry)] as const,
+            ),
+        ),
+      );
+
       const items = foundParticipations
         .map((entry) => {
           const event = eventsById.get(entry.eventId.toString());
@@ -1006,6 +1073,7 @@ participantsRouter.get(
             entry,
             event,
             organizerNameById.get(event.organizerId.toString()),
+            waitlistPositionById.get(entry._id.toString()),
           );
         })
         .filter(
@@ -1298,20 +1366,280 @@ participantsRouter.get(
       const canRegister = organizerIsActive
         ? await canRegisterForEventDetail({
             event,
-            participations,
             participantType: participant.participantType ?? null,
             now: new Date(),
           })
         : false;
 
+      const isFull =
+        event.type === "NORMAL" &&
+        (await getEventSeatsTaken(event._id)) >= event.regLimit;
+      const waitlistPosition =
+        latestParticipation?.status === "waitlisted"
+          ? await getWaitlistPosition(latestParticipation)
+          : undefined;
+
+      // inactive participations keep their teamId, but the participant has left that team
+      const myTeam =
+        latestParticipation?.teamId &&
+        (latestParticipation.status === "pending" ||
+          latestParticipation.status === "confirmed")
+          ? await loadEventTeamForMember(latestParticipation.teamId)
+          : null;
+
+      // online payers reopen the checkout from here while their seat is held
+      const myPayment = latestParticipation
+        ? await db
+            .collection<PaymentDoc>(collections.payments)
+            .findOne({ registrationId: latestParticipation._id })
+        : null;
+
+      const myRefund =
+        latestParticipation?.status === "cancelled"
+          ? await db
+              .collection<StoredRefundRequestDoc>(collections.refundRequests)
+              .findOne({ participationId: latestParticipation._id })
+          : null;
+
+      // only announcements this participant was targeted by, without the recipient list
+      const announcements = await db
+        .collection<StoredAnnouncementDoc>(collections.announcements)
+        .find(
+          { eventId, "recipients.userId": participantId },
+          { projection: { recipients: 0 } },
+        )
+        .sort({ createdAt: -1 })
+        .toArray();
+
       return res.json({
-        event: toParticipantEventResponse(event, organizerName, canRegister),
+        event: {
+          ...toParticipantEventResponse(event, organizerName, canRegister),
+          isFull,
+        },
         myParticipation: latestParticipation
-          ? toParticipationItemResponse(latestParticipation, event, organizerName)
+          ? toParticipationItemResponse(
+              latestParticipation,
+              event,
+              organizerName,
+              waitlistPosition,
+            )
           : null,
+        myTeam,
+        myPaymentMethod: myPayment?.method ?? null,
+        onlinePayments: isOnlinePaymentEnabled(),
+        myRefund: myRefund ? toRefundRequestResponse(myRefund) : null,
+        announcements: announcements.map((announcement) => ({
+          id: announcement._id.toString(),
+          title: announcement.title,
+          message: announcement.message,
+          createdAt: announcement.createdAt,
+        })),
       });
     } catch (err) {
       return next(err);
     }
   },
 );
+
+// participant turns reminder emails for one event on or off
+participantsRouter.patch(
+  "/me/events/:eventId/reminders",
+  requireAuth,
+  requireRole("participant"),
+  async (req, res, next) => {
+    try {
+      const authUser = req.user;
+      if (!authUser) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const participantId = parseObjectId(authUser.id);
+      if (!participantId) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const eventId = parseObjectId(req.params.eventId);
+      if (!eventId) {
+        return res.status(400).json({ error: { message: "Invalid event id" } });
+      }
+
+      const parsed = reminderPreferenceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: { message: "Invalid request", details: parsed.error.flatten() },
+        });
+      }
+
+      const participations = getDb().collection<StoredParticipationDoc>(
+        collections.registrations,
+      );
+      const latestParticipation = await participations.findOne(
+        { userId: participantId, eventId },
+        { sort: { createdAt: -1 } },
+      );
+      if (
+        !latestParticipation ||
+        (latestParticipation.status !== "pending" &&
+          latestParticipation.status !== "confirmed")
+      ) {
+        return res
+          .status(404)
+          .json({ error: { message: "No active registration for this event" } });
+      }
+
+      await participations.updateOne(
+        { _id: latestParticipation._id },
+        { $set: { reminderOptOut: !parsed.data.enabled, updatedAt: new Date() } },
+      );
+
+      return res.json({ remindersEnabled: parsed.data.enabled });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// clubs the participant helps run, plus invites waiting for an answer
+participantsRouter.get(
+  "/me/teams",
+  requireAuth,
+  requireRole("participant"),
+  async (req, res, next) => {
+    try {
+      const authUser = req.user;
+      if (!authUser) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const participantId = parseObjectId(authUser.id);
+      if (!participantId) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const memberships = await listUserMemberships(participantId);
+      const organizers =
+        memberships.length > 0
+          ? await getDb()
+              .collection<OrganizerUserDoc>(collections.users)
+              .find({
+                _id: { $in: memberships.map((membership) => membership.organizerId) },
+                role: "organizer",
+              })
+              .toArray()
+          : [];
+      const organizersById = new Map(
+        organizers.map((organizer) => [organizer._id.toString(), organizer]),
+      );
+
+      return res.json({
+        teams: memberships.flatMap((membership) => {
+          const organizer = organizersById.get(membership.organizerId.toString());
+          // disabled clubs drop out of the list until they are enabled again
+          if (!organizer || organizer.isDisabled === true) return [];
+          return [
+            {
+              id: membership._id.toString(),
+              organizerId: organizer._id.toString(),
+              organizerName: organizer.name,
+              role: membership.role,
+              status: membership.status,
+              invitedAt: membership.invitedAt,
+              acceptedAt: membership.acceptedAt ?? null,
+            },
+          ];
+        }),
+      });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// participant accepts a team invite
+participantsRouter.post(
+  "/me/teams/:membershipId/accept",
+  requireAuth,
+  requireRole("participant"),
+  async (req, res, next) => {
+    try {
+      const authUser = req.user;
+      if (!authUser) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const participantId = parseObjectId(authUser.id);
+      if (!participantId) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const membershipId = parseObjectId(req.params.membershipId);
+      if (!membershipId) {
+        return res.status(400).json({ error: { message: "Invalid membership id" } });
+      }
+
+      const now = new Date();
+      const team = getDb().collection<StoredTeamMemberDoc>(collections.organizerTeamMembers);
+      const membership = await team.findOneAndUpdate(
+        { _id: membershipId, userId: participantId, status: "invited" },
+        { $set: { status: "active", acceptedAt: now, updatedAt: now } },
+        { returnDocument: "after" },
+      );
+      if (!membership) {
+        return res.status(404).json({ error: { message: "Invite not found" } });
+      }
+
+      await recordSecurityEventSafe(req, {
+        action: "team_invite_accepted",
+        actor: requestActor(req),
+        target: { userId: membership.organizerId, role: "organizer" },
+        details: { role: membership.role },
+      });
+
+      return res.json({ ok: true });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// participant declines an invite or leaves a team
+participantsRouter.delete(
+  "/me/teams/:membershipId",
+  requireAuth,
+  requireRole("participant"),
+  async (req, res, next) => {
+    try {
+      const authUser = req.user;
+      if (!authUser) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const participantId = parseObjectId(authUser.id);
+      if (!participantId) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const membershipId = parseObjectId(req.params.membershipId);
+      if (!membershipId) {
+        return res.status(400).json({ error: { message: "Invalid membership id" } });
+      }
+
+      const team = getDb().collection<StoredTeamMemberDoc>(collections.organizerTeamMembers);
+      const removed = await team.findOneAndDelete({ _id: membershipId, userId: participantId });
+      if (!removed) {
+        return res.status(404).json({ error: { message: "Team membership not found" } });
+      }
+
+      await recordSecurityEventSafe(req, {
+        action: "team_member_removed",
+        actor: requestActor(req),
+        target: { userId: removed.organizerId, role: "organizer" },
+        details: { role: removed.role, status: removed.status, left: true },
+      });
+
+      return res.json({ ok: true });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
@@ -1,25 +1,81 @@
 import crypto from "node:crypto";
 import fs from "node:fs/promises";
 import path from "node:path";
-import { Router, type Response } from "express";
+import { type Request, Router, type Response } from "express";
 import multer from "multer";
-import { type Collection, ObjectId } from "mongodb";
+import { ObjectId } from "mongodb";
 import { z } from "zod";
 import { env } from "../config/env";
 import { getDb } from "../db/client";
 import { collections } from "../db/collections";
 import { requireAuth, requireRole } from "../middleware/auth";
-import { sendTicketEmailSafe } from "../utils/email";
+import { syncDiscussionAccessSafe } from "../realtime/socket";
+import { resolveOrganizerAccess, type TeamMemberRole } from "../utils/organizerTeam";
+import { queueTicketEmailSafe } from "../utils/emailOutbox";
 import { isParticipantEligibleForEvent } from "../utils/eligibility";
 import { buildTicketDoc, type StoredTicketDoc } from "../utils/tickets";
+import {
+  claimEventTeamSlot,
+  confirmEventTeamIfReady,
+  createEventTeam,
+  discardEventTeam,
+  getEventTeamConfig,
+  loadEventTeamForMember,
+  normalizeTeamInviteCode,
+  releaseEventTeamSlot,
+  type EventTeamConfig,
+  type StoredEventTeamDoc,
+} from "../utils/eventTeams";
+import {
+  releaseEventSeat,
+  reserveEventSeat,
+  restoreMerchStock,
+} from "../utils/capacity";
+import {
+  getWaitlistPosition,
+  promoteWaitlistedParticipationsSafe,
+} from "../utils/waitlist";
+import {
+  approveRegistrationPayment,
+  getPaymentHoldExpiry,
+  isAwaitingPaymentReview,
+  releaseRegistrationPayment,
+  schedulePaymentHoldExpirySafe,
+  startTeamPaymentHolds,
+} from "../utils/paymentHolds";
+import {
+  createRefundRequest,
+  processRefundRequest,
+  type RefundPolicy,
+  toRefundRequestResponse,
+} from "../utils/refunds";
+import {
+  hasPaidPaymentOrder,
+  openPaymentCheckoutSafe,
+  toPaymentOrderResponse,
+} from "../payments/orders";
+import { getActivePaymentProvider } from "../payments/providers";
+import { approveMerchOrder, rejectMerchOrder } from "../utils/merchOrders";
+import {
+  type ApprovalAutoDecision,
+  eventRequiresApproval,
+  isAwaitingReview,
+  type RegistrationReview,
+  reviewRegistration,
+} from "../utils/registrationReview";
 
 export const participationsRouter = Router();
 
 type EventType = "NORMAL" | "MERCH";
 type PersistedEventStatus = "DRAFT" | "PUBLISHED" | "CLOSED" | "COMPLETED";
-type ParticipationStatus = "pending" | "confirmed" | "cancelled" | "rejected";
-type PaymentStatus = "pending" | "approved" | "rejected";
-type PaymentMethod = "upi" | "bank_transfer" | "cash" | "card" | "other";
+type ParticipationStatus =
+  | "pending"
+  | "confirmed"
+  | "waitlisted"
+  | "cancelled"
+  | "rejected";
+type PaymentStatus = "pending" | "approved" | "rejected" | "refunded" | "partially_refunded";
+type PaymentMethod = "upi" | "bank_transfer" | "cash" | "card" | "other" | "online";
 
 type NormalFormFieldType =
   | "text"
@@ -55,8 +111,14 @@ type StoredEventDoc = {
   regFee: number;
   regDeadline: Date;
   regLimit: number;
+  startDate: Date;
   endDate: Date;
   updatedAt?: Date;
+  refundPolicy?: RefundPolicy | null;
+  // null/missing: individual registrations only
+  teamConfig?: EventTeamConfig | null;
+  requiresApproval?: boolean;
+  approvalAutoDecision?: ApprovalAutoDecision | null;
   normalForm?:
     | {
         fields: NormalFormField[];
@@ -106,6 +168,13 @@ type StoredParticipationDoc = {
   updatedAt: Date;
   eventType: EventType;
   ticketId?: string;
+  waitlistedAt?: Date;
+  promotedAt?: Date;
+  teamId?: ObjectId;
+  review?: RegistrationReview;
+  // paid registrations awaiting payment review
+  paymentHoldExpiresAt?: Date;
+  paymentHoldExpiredAt?: Date;
   normalResponses?: StoredNormalResponse[] | undefined;
   merchPurchase?: MerchPurchase | undefined;
 };
@@ -118,6 +187,7 @@ type StoredPaymentDoc = {
   proofUrl?: string;
   status: PaymentStatus;
   createdAt: Date;
+  refundedAmount?: number;
 };
 
 type ParticipantUserDoc = {
@@ -133,17 +203,23 @@ const inactiveParticipationStatuses: ParticipationStatus[] = [
   "rejected",
 ];
 
+// team events take either a teamName (the leader opens a team) or an inviteCode (joining one);
+// paid events take a payment proof upload, or "online" to pay through the payment provider instead
 const registerBodySchema = z.object({
   eventId: z.string().trim().min(1),
   answers: z.record(z.string(), z.unknown()).default({}),
+  teamName: z.string().trim().min(1).max(80).optional(),
+  inviteCode: z.string().trim().min(1).max(20).optional(),
+  paymentOption: z.enum(["proof", "online"]).default("proof"),
 });
 
 const purchaseBodySchema = z.object({
   eventId: z.string().trim().min(1),
   sku: z.string().trim().min(1).max(80),
   quantity: z.coerce.number().int().min(1).max(100).default(1),
+  // "online" pays through the payment provider's checkout instead of a proof upload
   method: z
-    .enum(["upi", "bank_transfer", "cash", "card", "other"])
+    .enum(["upi", "bank_transfer", "cash", "card", "other", "online"])
     .default("upi"),
 });
 
@@ -151,6 +227,27 @@ const resolveMerchPaymentSchema = z.object({
   decision: z.enum(["approve", "reject"]),
 });
 
+// the bank or gateway reference of the payout
+const processRefundSchema = z.object({
+  reference: z.string().trim().min(1).max(120),
+});
+
+// optional note to the participant, included in the ticket or rejection email
+const reviewMessageSchema = z.string().trim().min(1).max(1000).optional();
+
+const reviewParticipationSchema = z.object({
+  message: reviewMessageSchema,
+});
+
+const bulkReviewSchema = z.object({
+  participationIds: z.array(z.string().trim().min(1)).min(1).max(500),
+  decision: z.enum(["accept", "reject"]),
+  message: reviewMessageSchema,
+});
+
+// editors can decide on applications; rejecting anything else stays with finance
+const registrationReviewTeamRoles: TeamMemberRole[] = ["finance", "editor"];
+
 const upload = multer({
   storage: multer.diskStorage({
     destination: (_req, _file, cb) => {
@@ -174,6 +271,22 @@ function parseObjectId(rawId: unknown): ObjectId | null {
   return new ObjectId(rawId);
 }
 
+// admins, the event's organizer, or a member of that organizer's team with one of the given roles
+async function canReviewEventParticipations(
+  authUser: NonNullable<Request["user"]>,
+  event: StoredEventDoc,
+  allowedTeamRoles: readonly TeamMemberRole[] = ["finance"],
+): Promise<boolean> {
+  if (authUser.role === "admin") return true;
+
+  const result = await resolveOrganizerAccess({
+    user: authUser,
+    allowedTeamRoles,
+    organizerId: event.organizerId.toString(),
+  });
+  return result.ok && result.access.organizerId.equals(event.organizerId);
+}
+
 function readAnswersPayload(raw: unknown): Record<string, unknown> {
   if (raw === undefined) return {};
 
@@ -411,6 +524,20 @@ function toParticipationResponse(participation: StoredParticipationDoc) {
     eventType: participation.eventType,
     status: participation.status,
     ticketId: participation.ticketId ?? null,
+    waitlistedAt: participation.waitlistedAt ?? null,
+    teamId: participation.teamId?.toString() ?? null,
+    review: participation.review
+      ? {
+          decision: participation.review.decision,
+          message: participation.review.message,
+          reviewedAt: participation.review.reviewedAt,
+        }
+      : null,
+    // stale once the registration was cancelled or rejected another way
+    paymentHoldExpiresAt: isAwaitingPaymentReview(participation)
+      ? (participation.paymentHoldExpiresAt ?? null)
+      : null,
+    paymentHoldExpiredAt: participation.paymentHoldExpiredAt ?? null,
     createdAt: participation.createdAt,
     updatedAt: participation.updatedAt,
     normalResponses: participation.normalResponses,
@@ -443,47 +570,31 @@ function toPaymentResponse(payment: StoredPaymentDoc) {
     amount: payment.amount,
     proofUrl: payment.proofUrl ?? null,
     createdAt: payment.createdAt,
+    refundedAmount: payment.refundedAmount ?? null,
   };
 }
 
-async function restockMerchIfNeeded(params: {
-  events: Collection<StoredEventDoc>;
-  event: StoredEventDoc;
-  participation: StoredParticipationDoc;
-  now: Date;
-}) {
+async function restockMerchIfNeeded(participation: StoredParticipationDoc) {
   // Stock is decremented only after merch payment approval (ticket issued).
   // Pending or rejected orders without a ticket should not alter stock.
-  if (!params.participation.ticketId) return;
-  if (!params.participation.merchPurchase || !params.event.merchConfig) return;
+  if (!participation.ticketId || !participation.merchPurchase) return;
 
-  const targetSku = params.participation.merchPurchase.sku;
-  const restoreQuantity = params.participation.merchPurchase.quantity;
+  await restoreMerchStock({
+    eventId: participation.eventId,
+    sku: participation.merchPurchase.sku,
+    quantity: participation.merchPurchase.quantity,
+  });
+}
 
-  const nextVariants = params.event.merchConfig.variants.map((variant) =>
-    variant.sku === targetSku
-      ? { ...variant, stock: variant.stock + restoreQuantity }
-      : variant,
-  );
+// frees everything an active participation held once it leaves pending/confirmed
+async function releaseParticipationHoldings(participation: StoredParticipationDoc) {
+  if (participation.status === "waitlisted") return;
 
-  const nextTotalStock = nextVariants.reduce(
-    (sum, variant) => sum + variant.stock,
-    0,
-  );
-
-  await params.events.updateOne(
-    { _id: params.event._id },
-    {
-      $set: {
-        merchConfig: {
-          variants: nextVariants,
-          perParticipantLimit: params.event.merchConfig.perParticipantLimit,
-          totalStock: nextTotalStock,
-        },
-        updatedAt: params.now,
-      },
-    },
-  );
+  await releaseEventTeamSlot(participation);
+  await releaseEventSeat(participation.eventId);
+  await restockMerchIfNeeded(participation);
+  await promoteWaitlistedParticipationsSafe({ eventId: participation.eventId });
+  await syncDiscussionAccessSafe({ eventId: participation.eventId, userId: participation.userId });
 }
 
 // participant registers for a normal event with form answers + optional files
@@ -531,6 +642,9 @@ participationsRouter.post(
       const parsed = registerBodySchema.safeParse({
         eventId: req.body.eventId,
         answers,
+        teamName: req.body.teamName || undefined,
+        inviteCode: req.body.inviteCode || undefined,
+        paymentOption: req.body.paymentOption || undefined,
       });
       if (!parsed.success) {
         return rejectWithCleanup(
@@ -597,6 +711,40 @@ participationsRouter.post(
         return rejectWithCleanup(res, 400, availabilityError, uploadedFiles);
       }
 
+      const teamConfig = getEventTeamConfig(event);
+      const { teamName, inviteCode } = parsed.data;
+      if (!teamConfig && (teamName || inviteCode)) {
+        return rejectWithCleanup(
+          res,
+          400,
+          "This event does not take team registrations",
+          uploadedFiles,
+        );
+      }
+      if (teamConfig && Boolean(teamName) === Boolean(inviteCode)) {
+        return rejectWithCleanup(
+          res,
+          400,
+          "Team events need either a team name to start a team or an invite code to join one",
+          uploadedFiles,
+        );
+      }
+
+      // the online checkout is only offered to individual registrations of events without approval
+      const payOnline = event.regFee > 0 && parsed.data.paymentOption === "online";
+      const paymentProvider = getActivePaymentProvider();
+      if (payOnline && !paymentProvider) {
+        return rejectWithCleanup(res, 400, "Online payments are not enabled", uploadedFiles);
+      }
+      if (payOnline && (teamConfig || eventRequiresApproval(event))) {
+        return rejectWithCleanup(
+          res,
+          400,
+          "Online payment is not available for team or approval registrations",
+          uploadedFiles,
+        );
+      }
+
       if (
         !isParticipantEligibleForEvent({
           eventEligibility: event.eligibility,
@@ -625,19 +773,6 @@ participationsRouter.post(
         );
       }
 
-      const activeCount = await participations.countDocuments({
-        eventId,
-        status: { $nin: inactiveParticipationStatuses },
-      });
-      if (activeCount >= event.regLimit) {
-        return rejectWithCleanup(
-          res,
-          409,
-          "Registration limit reached",
-          uploadedFiles,
-        );
-      }
-
       const paymentProofFiles = uploadedFiles.filter(
         (file) => file.fieldname === "paymentProof",
       );
@@ -654,7 +789,15 @@ participationsRouter.post(
         (file) => file.fieldname !== "paymentProof",
       );
 
-      if (event.regFee > 0) {
+      if (payOnline && paymentProofFile) {
+        return rejectWithCleanup(
+          res,
+          400,
+          "Payment proof is not needed when paying online",
+          uploadedFiles,
+        );
+      }
+      if (event.regFee > 0 && !payOnline) {
         if (!paymentProofFile) {
           return rejectWithCleanup(
             res,
@@ -689,6 +832,242 @@ participationsRouter.post(
 
       const now = new Date();
       const participationId = new ObjectId();
+
+      // team members hold a seat but stay pending until the team reaches its minimum size;
+      // team events have no waitlist, since a queue of individuals cannot complete a team
+      if (teamConfig) {
+        let team: StoredEventTeamDoc | null;
+        if (inviteCode) {
+          team = await claimEventTeamSlot({
+            eventId,
+            inviteCode,
+            maxSize: teamConfig.maxSize,
+            now,
+          });
+          if (!team) {
+            const exists = await db
+              .collection<StoredEventTeamDoc>(collections.eventTeams)
+              .findOne(
+                { eventId, inviteCode: normalizeTeamInviteCode(inviteCode) },
+                { projection: { _id: 1 } },
+              );
+            return rejectWithCleanup(
+              res,
+              exists ? 409 : 404,
+              exists ? "This team is already full" : "No team with this invite code for this event",
+              uploadedFiles,
+            );
+          }
+        } else {
+          team = await createEventTeam({
+            eventId,
+            name: teamName ?? "",
+            leaderId: participantId,
+            now,
+          });
+          if (!team) {
+            return rejectWithCleanup(
+              res,
+              409,
+              "A team with this name is already registered for this event",
+              uploadedFiles,
+            );
+          }
+        }
+
+        const teamId = team._id;
+        const undoTeamSlot = () =>
+          inviteCode
+            ? releaseEventTeamSlot({ _id: participationId, userId: participantId, teamId })
+            : discardEventTeam(teamId);
+
+        if (!(await reserveEventSeat(eventId))) {
+          await undoTeamSlot();
+          return rejectWithCleanup(res, 409, "Event is full", uploadedFiles);
+        }
+
+        const participation: StoredParticipationDoc = {
+          _id: participationId,
+          eventId,
+          userId: participantId,
+          status: "pending",
+          createdAt: now,
+          updatedAt: now,
+          eventType: "NORMAL",
+          teamId,
+          normalResponses: validation.responses,
+        };
+
+        try {
+          await participations.insertOne(participation);
+        } catch (err) {
+          await releaseEventSeat(eventId);
+          await undoTeamSlot();
+          throw err;
+        }
+        if (event.regFee > 0 && paymentProofFile) {
+          // reviewed like an individual payment once the team is confirmed
+          const payment: StoredPaymentDoc = {
+            _id: new ObjectId(),
+            registrationId: participationId,
+            method: "other",
+            amount: event.regFee,
+            proofUrl: buildProofUrl(paymentProofFile.filename),
+            status: "pending",
+            createdAt: now,
+          };
+          await payments.insertOne(payment);
+        }
+
+        await confirmEventTeamIfReady({ teamId, now });
+        if (event.regFee > 0) await startTeamPaymentHolds({ eventId, teamId, now });
+
+        const stored = (await participations.findOne({ _id: participationId })) ?? participation;
+        const ticket = stored.ticketId
+          ? await tickets.findOne({ ticketId: stored.ticketId })
+          : null;
+
+        return res.status(201).json({
+          participation: toParticipationResponse(stored),
+          ticket: ticket ? toTicketResponse(ticket) : null,
+          team: await loadEventTeamForMember(teamId),
+        });
+      }
+
+      // full events still accept registrations, but onto the waitlist;
+      // a non-empty queue means freed seats belong to those already waiting
+      const queueHead = await participations.findOne(
+        { eventId, status: "waitlisted" },
+        { projection: { _id: 1 } },
+      );
+      const hasSeat = !queueHead && (await reserveEventSeat(eventId));
+      if (!hasSeat) {
+        const participation: StoredParticipationDoc = {
+          _id: participationId,
+          eventId,
+          userId: participantId,
+          status: "waitlisted",
+          createdAt: now,
+          updatedAt: now,
+          eventType: "NORMAL",
+          waitlistedAt: now,
+          normalResponses: validation.responses,
+        };
+
+        await participations.insertOne(participation);
+        if (event.regFee > 0 && (paymentProofFile || payOnline)) {
+          // payment stays pending until the participant is promoted off the waitlist;
+          // online payers check out once promoted
+          const payment: StoredPaymentDoc = {
+            _id: new ObjectId(),
+            registrationId: participationId,
+            method: payOnline ? "online" : "other",
+            amount: event.regFee,
+            ...(paymentProofFile ? { proofUrl: buildProofUrl(paymentProofFile.filename) } : {}),
+            status: "pending",
+            createdAt: now,
+          };
+          await payments.insertOne(payment);
+        }
+
+        return res.status(201).json({
+          participation: toParticipationResponse(participation),
+          ticket: null,
+          waitlistPosition: await getWaitlistPosition(participation),
+        });
+      }
+
+      // approval events hold the seat while the registration waits for an organizer's review;
+      // acceptance issues the ticket, or on paid events opens the payment hold finance reviews
+      if (eventRequiresApproval(event)) {
+        const participation: StoredParticipationDoc = {
+          _id: participationId,
+          eventId,
+          userId: participantId,
+          status: "pending",
+          createdAt: now,
+          updatedAt: now,
+          eventType: "NORMAL",
+          normalResponses: validation.responses,
+        };
+
+        try {
+          await participations.insertOne(participation);
+        } catch (err) {
+          await releaseEventSeat(eventId);
+          throw err;
+        }
+        if (event.regFee > 0 && paymentProofFile) {
+          const payment: StoredPaymentDoc = {
+            _id: new ObjectId(),
+            registrationId: participationId,
+            method: "other",
+            amount: event.regFee,
+            proofUrl: buildProofUrl(paymentProofFile.filename),
+            status: "pending",
+            createdAt: now,
+          };
+          await payments.insertOne(payment);
+        }
+
+        return res.status(201).json({
+          participation: toParticipationResponse(participation),
+          ticket: null,
+          awaitingReview: true,
+        });
+      }
+
+      // paid registrations hold the seat until an organizer checks the payment proof (or the
+      // provider reports the online payment), and give it back if the hold runs out first
+      if (event.regFee > 0 && (paymentProofFile || payOnline)) {
+        const participation: StoredParticipationDoc = {
+          _id: participationId,
+          eventId,
+          userId: participantId,
+          status: "pending",
+          createdAt: now,
+          updatedAt: now,
+          eventType: "NORMAL",
+          paymentHoldExpiresAt: getPaymentHoldExpiry(now),
+          normalResponses: validation.responses,
+        };
+
+        try {
+          await participations.insertOne(participation);
+        } catch (err) {
+          await releaseEventSeat(eventId);
+          throw err;
+        }
+        const payment: StoredPaymentDoc = {
+          _id: new ObjectId(),
+          registrationId: participationId,
+          method: payOnline ? "online" : "other",
+          amount: event.regFee,
+          ...(paymentProofFile ? { proofUrl: buildProofUrl(paymentProofFile.filename) } : {}),
+          status: "pending",
+          createdAt: now,
+        };
+        await payments.insertOne(payment);
+        await schedulePaymentHoldExpirySafe(eventId);
+
+        const checkout =
+          payOnline && paymentProvider
+            ? await openPaymentCheckoutSafe({
+                provider: paymentProvider,
+                event,
+                participationId,
+                now,
+              })
+            : null;
+
+        return res.status(201).json({
+          participation: toParticipationResponse(participation),
+          ticket: null,
+          payment: toPaymentResponse(payment),
+          checkout: checkout ? toPaymentOrderResponse(checkout) : null,
+        });
+      }
+
       const ticket = buildTicketDoc({
         eventId,
         userId: participantId,
@@ -709,29 +1088,29 @@ participationsRouter.post(
         normalResponses: validation.responses,
       };
 
-      await participations.insertOne(participation);
-      await tickets.insertOne(ticket);
-      if (event.regFee > 0 && paymentProofFile) {
-        const payment: StoredPaymentDoc = {
-          _id: new ObjectId(),
-          registrationId: participationId,
-          method: "other",
-          amount: event.regFee,
-          proofUrl: buildProofUrl(paymentProofFile.filename),
-          status: "approved",
-          createdAt: now,
-        };
-        await payments.insertOne(payment);
+      try {
+        await participations.insertOne(participation);
+      } catch (err) {
+        await releaseEventSeat(eventId);
+        throw err;
       }
+      await tickets.insertOne(ticket);
 
-      await sendTicketEmailSafe({
-        toEmail: participant.email,
-        toName: participant.name,
-        eventName: event.name,
-        eventType: event.type,
-        ticketId: ticket.ticketId,
-        qrPayload: ticket.qrPayload,
-      });
+      await queueTicketEmailSafe(
+        {
+          toEmail: participant.email,
+          toName: participant.name,
+          eventName: event.name,
+          eventType: event.type,
+          ticketId: ticket.ticketId,
+          qrPayload: ticket.qrPayload,
+        },
+        {
+          eventId: ticket.eventId,
+          userId: ticket.userId,
+          participationId: ticket.participationId,
+        },
+      );
 
       return res.status(201).json({
         participation: toParticipationResponse(participation),
@@ -744,7 +1123,8 @@ participationsRouter.post(
   },
 );
 
-// participant cancels own active participation and releases merch stock if needed
+// participant cancels own active participation, releases merch stock and promotes the waitlist;
+// a paid participation gets a refund request for whatever the event's refund policy grants
 participationsRouter.patch(
   "/:participationId/cancel",
   requireAuth,
@@ -798,16 +1178,23 @@ participationsRouter.patch(
       }
 
       const now = new Date();
-      await participations.updateOne(
-        { _id: participation._id, userId: participantId },
+      // status in the filter keeps concurrent cancel/reject from releasing holdings twice
+      const transition = await participations.updateOne(
+        { _id: participation._id, userId: participantId, status: participation.status },
         { $set: { status: "cancelled", updatedAt: now } },
       );
+      if (transition.modifiedCount !== 1) {
+        return res.status(409).json({
+          error: { message: "Participation was updated concurrently, please retry" },
+        });
+      }
       await payments.updateOne(
         { registrationId: participation._id, status: "pending" },
         { $set: { status: "rejected" } },
       );
 
-      await restockMerchIfNeeded({ events, event, participation, now });
+      await releaseParticipationHoldings(participation);
+      const refund = await createRefundRequest({ event, participation, now });
 
       const updated: StoredParticipationDoc = {
         ...participation,
@@ -815,18 +1202,24 @@ participationsRouter.patch(
         updatedAt: now,
       };
 
-      return res.json({ participation: toParticipationResponse(updated) });
+      return res.json({
+        participation: toParticipationResponse(updated),
+        refund: refund ? toRefundRequestResponse(refund) : null,
+      });
     } catch (err) {
       return next(err);
     }
   },
 );
 
-// organizer/admin rejects participation and releases merch stock when applicable
+// organizer/admin (or a finance team member) rejects participation, releasing merch stock or a waitlist seat
+// and opening a full refund request for an approved payment;
+// registrations awaiting review can also be rejected by editors, with an optional message to the participant
 participationsRouter.patch(
   "/:participationId/reject",
   requireAuth,
-  requireRole("organizer", "admin"),
+  // participants get through only as team members, checked against the event below
+  requireRole("organizer", "admin", "participant"),
   async (req, res, next) => {
     try {
       const authUser = req.user;
@@ -841,6 +1234,13 @@ participationsRouter.patch(
           .json({ error: { message: "Invalid participation id" } });
       }
 
+      const parsed = reviewParticipationSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: { message: "Invalid request", details: parsed.error.flatten() },
+        });
+      }
+
       const db = getDb();
       const participations = db.collection<StoredParticipationDoc>(
         collections.registrations,
@@ -867,24 +1267,54 @@ participationsRouter.patch(
         return res.status(404).json({ error: { message: "Event not found" } });
       }
 
-      if (authUser.role === "organizer") {
-        const organizerId = parseObjectId(authUser.id);
-        if (!organizerId || event.organizerId.toString() !== organizerId.toString()) {
-          return res.status(403).json({ error: { message: "Forbidden" } });
+      const awaitingReview = isAwaitingReview(event, participation);
+      if (
+        !(await canReviewEventParticipations(
+          authUser,
+          event,
+          awaitingReview ? registrationReviewTeamRoles : ["finance"],
+        ))
+      ) {
+        return res.status(403).json({ error: { message: "Forbidden" } });
+      }
+
+      if (awaitingReview) {
+        const outcome = await reviewRegistration({
+          event,
+          participationId: participation._id,
+          decision: "reject",
+          message: parsed.data.message ?? null,
+          reviewedBy: parseObjectId(authUser.id),
+        });
+        if (outcome === "not_awaiting_review") {
+          return res.status(409).json({
+            error: { message: "Participation was updated concurrently, please retry" },
+          });
         }
+
+        const reviewed = (await participations.findOne({ _id: participation._id })) ?? participation;
+        return res.json({ participation: toParticipationResponse(reviewed) });
       }
 
       const now = new Date();
-      await participations.updateOne(
-        { _id: participation._id },
+      const transition = await participations.updateOne(
+        { _id: participation._id, status: participation.status },
         { $set: { status: "rejected", updatedAt: now } },
       );
+      if (transition.modifiedCount !== 1) {
+        return res.status(409).json({
+          error: { message: "Participation was updated concurrently, please retry" },
+        });
+      }
       await payments.updateOne(
         { registrationId: participation._id, status: "pending" },
         { $set: { status: "rejected" } },
       );
 
-      await restockMerchIfNeeded({ events, event, participation, now });
+      await releaseParticipationHoldings(participation);
+      // the refund policy covers participants backing out; turned away by the organizer, they get
+      // an approved payment back in full
+      const refund = await createRefundRequest({ event, participation, percent: 100, now });
 
       const updated: StoredParticipationDoc = {
         ...participation,
@@ -892,14 +1322,190 @@ participationsRouter.patch(
         updatedAt: now,
       };
 
-      return res.json({ participation: toParticipationResponse(updated) });
+      return res.json({
+        participation: toParticipationResponse(updated),
+        refund: refund ? toRefundRequestResponse(refund) : null,
+      });
     } catch (err) {
       return next(err);
     }
   },
 );
 
-// participant submits merch order + payment proof; order starts as pending approval
+// organizer/admin (or an editor or finance team member) accepts a registration awaiting review,
+// issuing its ticket and approving its payment
+participationsRouter.patch(
+  "/:participationId/accept",
+  requireAuth,
+  // participants get through only as team members, checked against the event below
+  requireRole("organizer", "admin", "participant"),
+  async (req, res, next) => {
+    try {
+      const authUser = req.user;
+      if (!authUser) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const participationId = parseObjectId(req.params.participationId);
+      if (!participationId) {
+        return res
+          .status(400)
+          .json({ error: { message: "Invalid participation id" } });
+      }
+
+      const parsed = reviewParticipationSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: { message: "Invalid request", details: parsed.error.flatten() },
+        });
+      }
+
+      const db = getDb();
+      const participations = db.collection<StoredParticipationDoc>(
+        collections.registrations,
+      );
+      const events = db.collection<StoredEventDoc>(collections.events);
+      const tickets = db.collection<StoredTicketDoc>(collections.tickets);
+
+      const participation = await participations.findOne({ _id: participationId });
+      if (!participation) {
+        return res
+          .status(404)
+          .json({ error: { message: "Participation not found" } });
+      }
+
+      const event = await events.findOne({ _id: participation.eventId });
+      if (!event) {
+        return res.status(404).json({ error: { message: "Event not found" } });
+      }
+
+      if (!(await canReviewEventParticipations(authUser, event, registrationReviewTeamRoles))) {
+        return res.status(403).json({ error: { message: "Forbidden" } });
+      }
+
+      if (!isAwaitingReview(event, participation)) {
+        return res.status(409).json({
+          error: { message: "Participation is not awaiting review" },
+        });
+      }
+
+      const outcome = await reviewRegistration({
+        event,
+        participationId: participation._id,
+        decision: "accept",
+        message: parsed.data.message ?? null,
+        reviewedBy: parseObjectId(authUser.id),
+      });
+      if (outcome === "not_awaiting_review") {
+        return res.status(409).json({
+          error: { message: "Participation was updated concurrently, please retry" },
+        });
+      }
+
+      const reviewed = (await participations.findOne({ _id: participation._id })) ?? participation;
+      const ticket = reviewed.ticketId
+        ? await tickets.findOne({ ticketId: reviewed.ticketId })
+        : null;
+
+      return res.json({
+        participation: toParticipationResponse(reviewed),
+        ticket: ticket ? toTicketResponse(ticket) : null,
+      });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// organizer/admin (or an editor or finance team member) accepts or rejects many registrations
+// awaiting review at once; entries already decided are reported back as skipped
+participationsRouter.post(
+  "/events/:eventId/review",
+  requireAuth,
+  requireRole("organizer", "admin", "participant"),
+  async (req, res, next) => {
+    try {
+      const authUser = req.user;
+      if (!authUser) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const eventId = parseObjectId(req.params.eventId);
+      if (!eventId) {
+        return res.status(400).json({ error: { message: "Invalid event id" } });
+      }
+
+      const parsed = bulkReviewSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: { message: "Invalid request", details: parsed.error.flatten() },
+        });
+      }
+
+      const participationIds: ObjectId[] = [];
+      for (const rawId of new Set(parsed.data.participationIds)) {
+        const participationId = parseObjectId(rawId);
+        if (!participationId) {
+          return res
+            .status(400)
+            .json({ error: { message: "Invalid participation id" } });
+        }
+        participationIds.push(participationId);
+      }
+
+      const db = getDb();
+      const event = await db
+        .collection<StoredEventDoc>(collections.events)
+        .findOne({ _id: eventId });
+      if (!event) {
+        return res.status(404).json({ error: { message: "Event not found" } });
+      }
+
+      if (!(await canReviewEventParticipations(authUser, event, registrationReviewTeamRoles))) {
+        return res.status(403).json({ error: { message: "Forbidden" } });
+      }
+
+      if (!eventRequiresApproval(event)) {
+        return res.status(400).json({
+          error: { message: "This event does not require registration approval" },
+        });
+      }
+
+      const reviewedBy = parseObjectId(authUser.id);
+      const now = new Date();
+      const decided: string[] = [];
+      const skipped: string[] = [];
+
+      // one at a time, in request order, so rejections free seats for the waitlist as they go
+      for (const participationId of participationIds) {
+        const outcome = await reviewRegistration({
+          event,
+          participationId,
+          decision: parsed.data.decision,
+          message: parsed.data.message ?? null,
+          reviewedBy,
+          now,
+        });
+        (outcome === "not_awaiting_review" ? skipped : decided).push(
+          participationId.toString(),
+        );
+      }
+
+      return res.json({
+        decision: parsed.data.decision,
+        decidedCount: decided.length,
+        skippedCount: skipped.length,
+        decidedIds: decided,
+        // not found, not part of this event, or no longer awaiting review
+        skippedIds: skipped,
+      });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// participant submits merch order + payment proof (or pays online); order starts as pending
 participationsRouter.post(
   "/purchase",
   requireAuth,
@@ -924,7 +1530,21 @@ participationsRouter.post(
         return rejectWithCleanup(res, 400, "Invalid request", uploadedFiles);
       }
 
-      if (!req.file) {
+      const payOnline = parsed.data.method === "online";
+      const paymentProvider = getActivePaymentProvider();
+      if (payOnline && !paymentProvider) {
+        return rejectWithCleanup(res, 400, "Online payments are not enabled", uploadedFiles);
+      }
+      if (payOnline && req.file) {
+        return rejectWithCleanup(
+          res,
+          400,
+          "Payment proof is not needed when paying online",
+          uploadedFiles,
+        );
+      }
+
+      if (!payOnline && !req.file) {
         return rejectWithCleanup(
           res,
           400,
@@ -933,7 +1553,7 @@ participationsRouter.post(
         );
       }
 
-      if (!req.file.mimetype.startsWith("image/")) {
+      if (req.file && !req.file.mimetype.startsWith("image/")) {
         return rejectWithCleanup(
           res,
           400,
@@ -1015,19 +1635,6 @@ participationsRouter.post(
         );
       }
 
-      const activeCount = await participations.countDocuments({
-        eventId,
-        status: { $nin: inactiveParticipationStatuses },
-      });
-      if (activeCount >= event.regLimit) {
-        return rejectWithCleanup(
-          res,
-          409,
-          "Registration limit reached",
-          uploadedFiles,
-        );
-      }
-
       if (!event.merchConfig) {
         return rejectWithCleanup(
           res,
@@ -1069,6 +1676,9 @@ participationsRouter.post(
 
       const unitPrice = Math.max(0, event.regFee + (variant.priceDelta ?? 0));
       const totalAmount = unitPrice * parsed.data.quantity;
+      if (payOnline && totalAmount <= 0) {
+        return rejectWithCleanup(res, 400, "Free orders cannot be paid online", uploadedFiles);
+      }
       const now = new Date();
       const participationId = new ObjectId();
 
@@ -1080,6 +1690,8 @@ participationsRouter.post(
         createdAt: now,
         updatedAt: now,
         eventType: "MERCH",
+        // online orders give their seat back if the checkout is never completed
+        ...(payOnline ? { paymentHoldExpiresAt: getPaymentHoldExpiry(now) } : {}),
         merchPurchase: {
           sku: variant.sku,
           label: variant.label,
@@ -1094,17 +1706,44 @@ participationsRouter.post(
         registrationId: participationId,
         method: parsed.data.method,
         amount: totalAmount,
-        proofUrl: buildProofUrl(req.file.filename),
+        ...(req.file ? { proofUrl: buildProofUrl(req.file.filename) } : {}),
         status: "pending",
         createdAt: now,
       };
 
-      await participations.insertOne(participation);
+      // pending orders hold a seat against regLimit until rejected or cancelled
+      if (!(await reserveEventSeat(eventId))) {
+        return rejectWithCleanup(
+          res,
+          409,
+          "Registration limit reached",
+          uploadedFiles,
+        );
+      }
+
+      try {
+        await participations.insertOne(participation);
+      } catch (err) {
+        await releaseEventSeat(eventId);
+        throw err;
+      }
       await payments.insertOne(payment);
 
+      let checkout = null;
+      if (payOnline && paymentProvider) {
+        await schedulePaymentHoldExpirySafe(eventId);
+        checkout = await openPaymentCheckoutSafe({
+          provider: paymentProvider,
+          event,
+          participationId,
+          now,
+        });
+      }
+
       return res.status(201).json({
         participation: toParticipationResponse(participation),
         payment: toPaymentResponse(payment),
+        checkout: checkout ? toPaymentOrderResponse(checkout) : null,
       });
     } catch (err) {
       await cleanupUploadedFiles(uploadedFiles);
@@ -1113,11 +1752,88 @@ participationsRouter.post(
   },
 );
 
-// organizer/admin approves or rejects pending merch payment
+// organizer/admin (or a finance team member) records the payout of a cancellation refund
+participationsRouter.patch(
+  "/:participationId/refund",
+  requireAuth,
+  requireRole("organizer", "admin", "participant"),
+  async (req, res, next) => {
+    try {
+      const authUser = req.user;
+      if (!authUser) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const actorId = parseObjectId(authUser.id);
+      if (!actorId) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const participationId = parseObjectId(req.params.participationId);
+      if (!participationId) {
+        return res
+          .status(400)
+          .json({ error: { message: "Invalid participation id" } });
+      }
+
+      const parsed = processRefundSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: { message: "Invalid request", details: parsed.error.flatten() },
+        });
+      }
+
+      const db = getDb();
+      const participation = await db
+        .collection<StoredParticipationDoc>(collections.registrations)
+        .findOne({ _id: participationId });
+      if (!participation) {
+        return res
+          .status(404)
+          .json({ error: { message: "Participation not found" } });
+      }
+
+      const event = await db
+        .collection<StoredEventDoc>(collections.events)
+        .findOne({ _id: participation.eventId });
+      if (!event) {
+        return res.status(404).json({ error: { message: "Event not found" } });
+      }
+
+      if (!(await canReviewEventParticipations(authUser, event))) {
+        return res.status(403).json({ error: { message: "Forbidden" } });
+      }
+
+      const refund = await processRefundRequest({
+        participationId: participation._id,
+        reference: parsed.data.reference,
+        processedBy: actorId,
+      });
+      if (!refund) {
+        return res.status(409).json({
+          error: { message: "No pending refund request for this participation" },
+        });
+      }
+
+      const payment = await db
+        .collection<StoredPaymentDoc>(collections.payments)
+        .findOne({ _id: refund.paymentId });
+
+      return res.json({
+        refund: toRefundRequestResponse(refund),
+        payment: payment ? toPaymentResponse(payment) : null,
+      });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// organizer/admin (or a finance team member) approves or rejects a pending merch or paid registration payment
 participationsRouter.patch(
   "/:participationId/payment",
   requireAuth,
-  requireRole("organizer", "admin"),
+  requireRole("organizer", "admin", "participant"),
   async (req, res, next) => {
     try {
       const authUser = req.user;
@@ -1145,8 +1861,6 @@ participationsRouter.patch(
         collections.registrations,
       );
       const payments = db.collection<StoredPaymentDoc>(collections.payments);
-      const tickets = db.collection<StoredTicketDoc>(collections.tickets);
-      const users = db.collection<ParticipantUserDoc>(collections.users);
 
       const participation = await participations.findOne({ _id: participationId });
       if (!participation) {
@@ -1155,9 +1869,15 @@ participationsRouter.patch(
           .json({ error: { message: "Participation not found" } });
       }
 
-      if (participation.eventType !== "MERCH" || !participation.merchPurchase) {
+      if (
+        participation.eventType === "MERCH"
+          ? !participation.merchPurchase
+          : participation.eventType !== "NORMAL"
+      ) {
         return res.status(400).json({
-          error: { message: "Payment approval is only available for MERCH orders" },
+          error: {
+            message: "Payment approval is only available for MERCH orders and paid registrations",
+          },
         });
       }
 
@@ -1166,11 +1886,8 @@ participationsRouter.patch(
         return res.status(404).json({ error: { message: "Event not found" } });
       }
 
-      if (authUser.role === "organizer") {
-        const organizerId = parseObjectId(authUser.id);
-        if (!organizerId || event.organizerId.toString() !== organizerId.toString()) {
-          return res.status(403).json({ error: { message: "Forbidden" } });
-        }
+      if (!(await canReviewEventParticipations(authUser, event))) {
+        return res.status(403).json({ error: { message: "Forbidden" } });
       }
 
       const payment = await payments.findOne({ registrationId: participation._id });
@@ -1192,129 +1909,103 @@ participationsRouter.patch(
         });
       }
 
+      // online payments settle through the provider's webhook; by hand only once paid but unsettled
+      if (payment.method === "online" && !(await hasPaidPaymentOrder(payment._id))) {
+        return res.status(409).json({
+          error: { message: "Online payments are confirmed by the payment provider" },
+        });
+      }
+
       const now = new Date();
 
-      if (parsed.data.decision === "reject") {
-        await participations.updateOne(
-          { _id: participation._id },
-          { $set: { status: "rejected", updatedAt: now } },
-        );
-        await payments.updateOne(
-          { _id: payment._id },
-          { $set: { status: "rejected" } },
-        );
+      // payments are reviewed against an open hold: approval events open it when the registration
+      // is accepted, team members get it once their team is confirmed
+      if (participation.eventType === "NORMAL") {
+        if (!isAwaitingPaymentReview(participation)) {
+          return res.status(409).json({
+            error: { message: "This registration is not awaiting payment review" },
+          });
+        }
 
-        return res.json({
-          participation: toParticipationResponse({
-            ...participation,
-            status: "rejected",
-            updatedAt: now,
-          }),
-          payment: toPaymentResponse({
-            ...payment,
-            status: "rejected",
-          }),
+        if (parsed.data.decision === "reject") {
+          const released = await releaseRegistrationPayment({
+            eventId: event._id,
+            participationId: participation._id,
+            reason: "rejected",
+            now,
+          });
+          if (!released) {
+            return res.status(409).json({
+              error: { message: "Participation is no longer in pending state" },
+            });
+          }
+          await promoteWaitlistedParticipationsSafe({ eventId: event._id, now });
+
+          const rejected = (await participations.findOne({ _id: participation._id })) ?? participation;
+          return res.json({
+            participation: toParticipationResponse(rejected),
+            payment: toPaymentResponse({ ...payment, status: "rejected" }),
+          });
+        }
+
+        const ticket = await approveRegistrationPayment({
+          event,
+          participationId: participation._id,
+          now,
         });
-      }
+        if (!ticket) {
+          return res.status(409).json({
+            error: { message: "Participation is no longer in pending state" },
+          });
+        }
 
-      if (!event.merchConfig) {
-        return res
-          .status(409)
-          .json({ error: { message: "Merch config is missing for this event" } });
+        const confirmed = (await participations.findOne({ _id: participation._id })) ?? participation;
+        return res.json({
+          participation: toParticipationResponse(confirmed),
+          payment: toPaymentResponse({ ...payment, status: "approved" }),
+          ticket: toTicketResponse(ticket),
+        });
       }
 
-      const targetSku = participation.merchPurchase.sku;
-      const requestedQty = participation.merchPurchase.quantity;
-      const variant = event.merchConfig.variants.find(
-        (entry) => entry.sku === targetSku,
-      );
-      if (!variant) {
-        return res.status(409).json({
-          error: { message: "Merch variant no longer exists for this order" },
+      if (parsed.data.decision === "reject") {
+        const rejected = await rejectMerchOrder({
+          eventId: event._id,
+          participationId: participation._id,
+          now,
         });
-      }
+        if (!rejected) {
+          return res.status(409).json({
+            error: { message: "Participation is no longer in pending state" },
+          });
+        }
 
-      if (variant.stock < requestedQty) {
-        return res.status(409).json({
-          error: { message: "Insufficient stock to approve this order" },
+        const stored = (await participations.findOne({ _id: participation._id })) ?? participation;
+        return res.json({
+          participation: toParticipationResponse(stored),
+          payment: toPaymentResponse({
+            ...payment,
+            status: "rejected",
+          }),
         });
       }
 
-      const nextVariants = event.merchConfig.variants.map((entry) =>
-        entry.sku === targetSku
-          ? { ...entry, stock: entry.stock - requestedQty }
-          : entry,
-      );
-      const nextTotalStock = nextVariants.reduce(
-        (sum, entry) => sum + entry.stock,
-        0,
-      );
-
-      await events.updateOne(
-        { _id: event._id },
-        {
-          $set: {
-            merchConfig: {
-              variants: nextVariants,
-              perParticipantLimit: event.merchConfig.perParticipantLimit,
-              totalStock: nextTotalStock,
-            },
-            updatedAt: now,
-          },
-        },
-      );
-
-      const ticket = buildTicketDoc({
-        eventId: event._id,
-        userId: participation.userId,
+      const approval = await approveMerchOrder({
+        event,
         participationId: participation._id,
-        eventType: "MERCH",
         now,
       });
-
-      await tickets.insertOne(ticket);
-      await participations.updateOne(
-        { _id: participation._id },
-        {
-          $set: {
-            status: "confirmed",
-            ticketId: ticket.ticketId,
-            updatedAt: now,
-          },
-        },
-      );
-      await payments.updateOne(
-        { _id: payment._id },
-        { $set: { status: "approved" } },
-      );
-
-      const participant = await users.findOne({
-        _id: participation.userId,
-        role: "participant",
-      });
-      if (participant) {
-        await sendTicketEmailSafe({
-          toEmail: participant.email,
-          toName: participant.name,
-          eventName: event.name,
-          eventType: event.type,
-          ticketId: ticket.ticketId,
-          qrPayload: ticket.qrPayload,
-        });
+      if ("error" in approval) {
+        return res.status(409).json({ error: { message: approval.error } });
       }
 
+      const confirmed = (await participations.findOne({ _id: participation._id })) ?? participation;
       return res.json({
-        participation: toParticipationResponse({
-          ...participation,
-          status: "confirmed",
-          ticketId: ticket.ticketId,
-          updatedAt: now,
-        }),
+        participation: toParticipationResponse(confirmed),
         payment: toPaymentResponse({
           ...payment,
           status: "approved",
         }),
-        ticket: toTicketResponse(ticket),
+        ticket: toTicketResponse(approval.ticket),
       });
     } catch (err) {
       return next(err);
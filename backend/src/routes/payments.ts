@@ -0,0 +1,285 @@
+import express, { Router } from "express";
+import { ObjectId } from "mongodb";
+import { z } from "zod";
+import { env } from "../config/env";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+import { requireAuth, requireRole } from "../middleware/auth";
+import { sendLocalPaymentWebhook } from "../payments/localProvider";
+import {
+  handlePaymentWebhook,
+  openPaymentCheckout,
+  type StoredPaymentOrderDoc,
+  toPaymentOrderResponse,
+} from "../payments/orders";
+import { getActivePaymentProvider } from "../payments/providers";
+
+export const paymentsRouter = Router();
+
+type PaymentEventDoc = {
+  _id: ObjectId;
+  name: string;
+};
+
+type PaymentParticipationDoc = {
+  _id: ObjectId;
+  eventId: ObjectId;
+  userId: ObjectId;
+  status: "pending" | "confirmed" | "waitlisted" | "cancelled" | "rejected";
+};
+
+const createOrderSchema = z.object({
+  participationId: z.string().trim().min(1),
+});
+
+const localCheckoutSchema = z.object({
+  outcome: z.enum(["pay", "decline"]),
+});
+
+function parseObjectId(rawId: unknown): ObjectId | null {
+  if (typeof rawId !== "string") return null;
+  if (!ObjectId.isValid(rawId)) return null;
+  return new ObjectId(rawId);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+// back to the event page in the app, which reloads the participation's state
+function buildCheckoutReturnUrl(order: StoredPaymentOrderDoc, outcome: "paid" | "declined"): string {
+  return `${env.CLIENT_ORIGIN.replace(/\/+$/, "")}/participant/events/${order.eventId.toString()}?payment=${outcome}`;
+}
+
+function renderLocalCheckoutPage(order: StoredPaymentOrderDoc, notice: string | null): string {
+  const payable = notice === null;
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>Local checkout</title>
+<style>
+body { font-family: system-ui, sans-serif; background: #f4f5f7; margin: 0; padding: 48px 16px; }
+main { max-width: 420px; margin: 0 auto; background: #fff; border-radius: 8px; padding: 24px; box-shadow: 0 1px 4px rgba(0,0,0,.1); }
+.amount { font-size: 2rem; font-weight: 600; margin: 8px 0 16px; }
+.muted { color: #6c757d; font-size: .9rem; }
+.notice { background: #fff3cd; border-radius: 4px; padding: 12px; }
+form { display: flex; gap: 8px; margin-top: 24px; }
+button { flex: 1; padding: 10px; border-radius: 4px; border: 1px solid #0d6efd; font-size: 1rem; cursor: pointer; }
+button[value="pay"] { background: #0d6efd; color: #fff; }
+button[value="decline"] { background: #fff; color: #0d6efd; }
+</style>
+</head>
+<body>
+<main>
+<p class="muted">Local test checkout - no real money moves</p>
+<h1>${escapeHtml(order.description)}</h1>
+<div class="amount">${order.amount}</div>
+<p class="muted">Order ${escapeHtml(order._id.toString())} - pay before ${escapeHtml(order.expiresAt.toISOString())}</p>
+${
+  payable
+    ? `<form method="post">
+<button type="submit" name="outcome" value="pay">Pay</button>
+<button type="submit" name="outcome" value="decline">Decline</button>
+</form>`
+    : `<p class="notice">${escapeHtml(notice)}</p>`
+}
+</main>
+</body>
+</html>`;
+}
+
+// why a local checkout can no longer be paid, or null while it can
+async function getLocalCheckoutNotice(order: StoredPaymentOrderDoc, now: Date): Promise<string | null> {
+  if (order.status === "paid") return "This order has already been paid.";
+  if (order.status !== "open") return "This checkout is no longer open. Start a new one from the event page.";
+  if (order.expiresAt <= now) return "This checkout has expired.";
+
+  const participation = await getDb()
+    .collection<PaymentParticipationDoc>(collections.registrations)
+    .findOne({ _id: order.participationId }, { projection: { status: 1 } });
+  if (participation?.status !== "pending") {
+    return "The registration for this order is no longer awaiting payment.";
+  }
+  return null;
+}
+
+async function loadLocalCheckoutOrder(providerOrderId: unknown): Promise<StoredPaymentOrderDoc | null> {
+  if (getActivePaymentProvider()?.name !== "local" || typeof providerOrderId !== "string") {
+    return null;
+  }
+  return getDb()
+    .collection<StoredPaymentOrderDoc>(collections.paymentOrders)
+    .findOne({ provider: "local", providerOrderId });
+}
+
+// provider webhook; the body arrives raw so its signature can be checked byte for byte
+paymentsRouter.post("/webhooks/:provider", async (req, res, next) => {
+  try {
+    const provider = getActivePaymentProvider();
+    if (!provider || provider.name !== req.params.provider) {
+      return res.status(404).json({ error: { message: "Unknown payment provider" } });
+    }
+
+    if (!Buffer.isBuffer(req.body)) {
+      return res.status(400).json({ error: { message: "Invalid webhook payload" } });
+    }
+
+    const event = provider.parseWebhook(req.body, req.headers);
+    if (!event) {
+      return res.status(400).json({ error: { message: "Invalid webhook signature" } });
+    }
+
+    const result = await handlePaymentWebhook({ provider: provider.name, event });
+    return res.json({ received: true, duplicate: result.duplicate });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// participant opens a checkout for their own online payment (again, after an abandoned one)
+paymentsRouter.post(
+  "/orders",
+  requireAuth,
+  requireRole("participant"),
+  async (req, res, next) => {
+    try {
+      const participantId = parseObjectId(req.user?.id);
+      if (!participantId) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const parsed = createOrderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: { message: "Invalid request", details: parsed.error.flatten() },
+        });
+      }
+
+      const participationId = parseObjectId(parsed.data.participationId);
+      if (!participationId) {
+        return res.status(400).json({ error: { message: "Invalid participation id" } });
+      }
+
+      const provider = getActivePaymentProvider();
+      if (!provider) {
+        return res.status(409).json({ error: { message: "Online payments are not enabled" } });
+      }
+
+      const db = getDb();
+      const participation = await db
+        .collection<PaymentParticipationDoc>(collections.registrations)
+        .findOne({ _id: participationId, userId: participantId });
+      if (!participation) {
+        return res.status(404).json({ error: { message: "Participation not found" } });
+      }
+
+      const event = await db
+        .collection<PaymentEventDoc>(collections.events)
+        .findOne({ _id: participation.eventId }, { projection: { name: 1 } });
+      if (!event) {
+        return res.status(404).json({ error: { message: "Event not found" } });
+      }
+
+      const order = await openPaymentCheckout({ provider, event, participationId });
+      if (!order) {
+        return res.status(409).json({
+          error: { message: "This participation has no online payment awaiting checkout" },
+        });
+      }
+
+      return res.status(201).json({ order: toPaymentOrderResponse(order) });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// participant checks on one of their orders
+paymentsRouter.get(
+  "/orders/:orderId",
+  requireAuth,
+  requireRole("participant"),
+  async (req, res, next) => {
+    try {
+      const participantId = parseObjectId(req.user?.id);
+      if (!participantId) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const orderId = parseObjectId(req.params.orderId);
+      if (!orderId) {
+        return res.status(400).json({ error: { message: "Invalid order id" } });
+      }
+
+      const order = await getDb()
+        .collection<StoredPaymentOrderDoc>(collections.paymentOrders)
+        .findOne({ _id: orderId, userId: participantId });
+      if (!order) {
+        return res.status(404).json({ error: { message: "Order not found" } });
+      }
+
+      return res.json({ order: toPaymentOrderResponse(order) });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// simulated checkout page of the local provider
+paymentsRouter.get("/local/checkout/:providerOrderId", async (req, res, next) => {
+  try {
+    const order = await loadLocalCheckoutOrder(req.params.providerOrderId);
+    if (!order) {
+      return res.status(404).type("text/plain").send("Checkout not found");
+    }
+
+    const notice = await getLocalCheckoutNotice(order, new Date());
+    return res.type("html").send(renderLocalCheckoutPage(order, notice));
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// the local checkout's pay / decline buttons: sends the signed webhook, then returns to the app
+paymentsRouter.post(
+  "/local/checkout/:providerOrderId",
+  express.urlencoded({ extended: false }),
+  async (req, res, next) => {
+    try {
+      const order = await loadLocalCheckoutOrder(req.params.providerOrderId);
+      if (!order) {
+        return res.status(404).type("text/plain").send("Checkout not found");
+      }
+
+      const parsed = localCheckoutSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).type("text/plain").send("Invalid checkout outcome");
+      }
+
+      const notice = await getLocalCheckoutNotice(order, new Date());
+      if (notice) {
+        return res.status(409).type("html").send(renderLocalCheckoutPage(order, notice));
+      }
+
+      await sendLocalPaymentWebhook({
+        type: parsed.data.outcome === "pay" ? "payment.succeeded" : "payment.failed",
+        providerOrderId: order.providerOrderId,
+        amount: order.amount,
+      });
+
+      return res.redirect(
+        303,
+        buildCheckoutReturnUrl(order, parsed.data.outcome === "pay" ? "paid" : "declined"),
+      );
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
@@ -1,10 +1,28 @@
 import { Router } from "express";
 import { ObjectId } from "mongodb";
 import { z } from "zod";
+import { clearSessionCookies } from "../config/cookies";
 import { getDb } from "../db/client";
 import type { UserDoc } from "../db/models";
-import { requireAuth } from "../middleware/auth";
+import { requireAuth, requireRole } from "../middleware/auth";
 import { hashPassword, verifyPassword } from "../utils/password";
+import { recordSecurityEventSafe, requestActor, toAuditParty } from "../utils/securityAudit";
+import {
+  describeUserAgent,
+  listActiveSessions,
+  revokeSession,
+  revokeUserSessions,
+  toSessionResponse,
+} from "../utils/sessions";
+import {
+  confirmTwoFactorSetup,
+  disableTwoFactor,
+  getSecuritySettings,
+  regenerateRecoveryCodes,
+  startTwoFactorSetup,
+  toTwoFactorStatus,
+  verifySecondFactor,
+} from "../utils/twoFactor";
 
 export const securityRouter = Router();
 
@@ -13,6 +31,34 @@ const changePasswordSchema = z.object({
   newPassword: z.string().min(8),
 });
 
+const revokeAllSessionsSchema = z.object({
+  keepCurrent: z.boolean().default(false),
+});
+
+const enableTwoFactorSchema = z.object({
+  code: z.string().trim().min(6).max(10),
+});
+
+const disableTwoFactorSchema = z
+  .object({
+    password: z.string().min(1),
+    code: z.string().trim().min(6).max(10).optional(),
+    recoveryCode: z.string().trim().min(8).max(20).optional(),
+  })
+  .refine((data) => Boolean(data.code) !== Boolean(data.recoveryCode), {
+    message: "Provide either an authentication code or a recovery code",
+    path: ["code"],
+  });
+
+const regenerateRecoveryCodesSchema = z.object({
+  code: z.string().trim().min(6).max(10),
+});
+
+function parseObjectId(value: string): ObjectId | null {
+  if (!ObjectId.isValid(value)) return null;
+  return new ObjectId(value);
+}
+
 securityRouter.post("/change-password", requireAuth, async (req, res, next) => {
   try {
     // validate payload before touching db
@@ -49,6 +95,13 @@ securityRouter.post("/change-password", requireAuth, async (req, res, next) => {
       user.passwordHash,
     );
     if (!isCurrentPasswordValid) {
+      await recordSecurityEventSafe(req, {
+        action: "password_changed",
+        outcome: "failure",
+        actor: toAuditParty(user),
+        target: toAuditParty(user),
+        details: { reason: "bad_current_password" },
+      });
       return res.status(401).json({ error: { message: "Current password is incorrect" } });
     }
 
@@ -60,8 +113,315 @@ securityRouter.post("/change-password", requireAuth, async (req, res, next) => {
       { $set: { passwordHash: newPasswordHash } },
     );
 
-    return res.json({ ok: true });
+    // anyone else holding a session (e.g. whoever knew the old password) is signed out
+    const revokedSessions = await revokeUserSessions({
+      userId: user._id,
+      reason: "password_changed",
+      exceptJti: authUser.sessionId,
+    });
+
+    await recordSecurityEventSafe(req, {
+      action: "password_changed",
+      actor: toAuditParty(user),
+      target: toAuditParty(user),
+      details: { revokedSessions },
+    });
+
+    return res.json({ ok: true, revokedSessions });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// active sessions of the current user, most recently used first
+securityRouter.get("/sessions", requireAuth, async (req, res, next) => {
+  try {
+    const authUser = req.user;
+    if (!authUser) {
+      return res.status(401).json({ error: { message: "Not authenticated" } });
+    }
+
+    const sessions = await listActiveSessions(new ObjectId(authUser.id));
+    return res.json({
+      sessions: sessions.map((session) => toSessionResponse(session, authUser.sessionId)),
+    });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// revoke one session; revoking the current one logs this browser out
+securityRouter.delete("/sessions/:sessionId", requireAuth, async (req, res, next) => {
+  try {
+    const authUser = req.user;
+    if (!authUser) {
+      return res.status(401).json({ error: { message: "Not authenticated" } });
+    }
+
+    const sessionId = parseObjectId(String(req.params.sessionId));
+    if (!sessionId) {
+      return res.status(400).json({ error: { message: "Invalid session id" } });
+    }
+
+    const userId = new ObjectId(authUser.id);
+    const sessions = await listActiveSessions(userId);
+    const target = sessions.find((session) => session._id.equals(sessionId));
+    if (!target) {
+      return res.status(404).json({ error: { message: "Session not found" } });
+    }
+
+    await revokeSession({ filter: { _id: target._id, userId }, reason: "user_revoked" });
+
+    const current = target.jti === authUser.sessionId;
+    if (current) clearSessionCookies(res);
+
+    await recordSecurityEventSafe(req, {
+      action: "sessions_revoked",
+      actor: requestActor(req),
+      target: requestActor(req),
+      details: { revoked: 1, current, device: describeUserAgent(target.userAgent) },
+    });
+
+    return res.json({ ok: true, current });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// "log out everywhere"; keepCurrent signs out only the other devices
+securityRouter.post("/sessions/revoke-all", requireAuth, async (req, res, next) => {
+  try {
+    const parsed = revokeAllSessionsSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: { message: "Invalid request", details: parsed.error.flatten() },
+      });
+    }
+
+    const authUser = req.user;
+    if (!authUser) {
+      return res.status(401).json({ error: { message: "Not authenticated" } });
+    }
+
+    const revoked = await revokeUserSessions({
+      userId: new ObjectId(authUser.id),
+      reason: "user_revoked",
+      ...(parsed.data.keepCurrent ? { exceptJti: authUser.sessionId } : {}),
+    });
+    if (!parsed.data.keepCurrent) clearSessionCookies(res);
+
+    await recordSecurityEventSafe(req, {
+      action: "sessions_revoked",
+      actor: requestActor(req),
+      target: requestActor(req),
+      details: { revoked, keepCurrent: parsed.data.keepCurrent },
+    });
+
+    return res.json({ ok: true, revoked });
   } catch (err) {
     return next(err);
   }
 });
+
+// 2FA status for the current admin/organizer
+securityRouter.get(
+  "/2fa",
+  requireAuth,
+  requireRole("admin", "organizer"),
+  async (req, res, next) => {
+    try {
+      const authUser = req.user;
+      if (!authUser) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const users = getDb().collection<UserDoc>("users");
+      const user = await users.findOne({ _id: new ObjectId(authUser.id) });
+      if (!user) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      return res.json({ twoFactor: toTwoFactorStatus(user, await getSecuritySettings()) });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// start enrolment: returns the secret and its QR code; nothing changes until /2fa/enable
+securityRouter.post(
+  "/2fa/setup",
+  requireAuth,
+  requireRole("admin", "organizer"),
+  async (req, res, next) => {
+    try {
+      const authUser = req.user;
+      if (!authUser) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const users = getDb().collection<UserDoc>("users");
+      const user = await users.findOne({ _id: new ObjectId(authUser.id) });
+      if (!user) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      if (user.twoFactor?.enabled === true) {
+        return res
+          .status(409)
+          .json({ error: { message: "Two-factor authentication is already enabled" } });
+      }
+
+      return res.json(await startTwoFactorSetup(user));
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// confirm enrolment with a code from the app; recovery codes are returned only here
+securityRouter.post(
+  "/2fa/enable",
+  requireAuth,
+  requireRole("admin", "organizer"),
+  async (req, res, next) => {
+    try {
+      const parsed = enableTwoFactorSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: { message: "Invalid request", details: parsed.error.flatten() },
+        });
+      }
+
+      const authUser = req.user;
+      if (!authUser) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const confirmed = await confirmTwoFactorSetup(new ObjectId(authUser.id), parsed.data.code);
+      if (!confirmed) {
+        return res.status(400).json({
+          error: { message: "Invalid authentication code, or the setup has expired" },
+        });
+      }
+
+      await recordSecurityEventSafe(req, {
+        action: "two_factor_enabled",
+        actor: requestActor(req),
+        target: requestActor(req),
+      });
+
+      return res.json({ ok: true, recoveryCodes: confirmed.recoveryCodes });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// turning 2FA off needs the password and a second factor; blocked while admin requires it
+securityRouter.post(
+  "/2fa/disable",
+  requireAuth,
+  requireRole("admin", "organizer"),
+  async (req, res, next) => {
+    try {
+      const parsed = disableTwoFactorSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: { message: "Invalid request", details: parsed.error.flatten() },
+        });
+      }
+
+      const authUser = req.user;
+      if (!authUser) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const users = getDb().collection<UserDoc>("users");
+      const user = await users.findOne({ _id: new ObjectId(authUser.id) });
+      if (!user) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      if (user.twoFactor?.enabled !== true) {
+        return res
+          .status(409)
+          .json({ error: { message: "Two-factor authentication is not enabled" } });
+      }
+
+      const settings = await getSecuritySettings();
+      if (user.role === "organizer" && settings.requireOrganizerTwoFactor) {
+        return res.status(409).json({
+          error: { message: "Two-factor authentication is required for organizer accounts" },
+        });
+      }
+
+      const isPasswordValid = await verifyPassword(parsed.data.password, user.passwordHash);
+      if (!isPasswordValid) {
+        return res.status(401).json({ error: { message: "Password is incorrect" } });
+      }
+
+      const secondFactor = await verifySecondFactor(user, {
+        code: parsed.data.code,
+        recoveryCode: parsed.data.recoveryCode,
+      });
+      if (!secondFactor.ok) {
+        return res.status(401).json({ error: { message: "Invalid authentication code" } });
+      }
+
+      await disableTwoFactor(user._id);
+      await recordSecurityEventSafe(req, {
+        action: "two_factor_disabled",
+        actor: toAuditParty(user),
+        target: toAuditParty(user),
+      });
+
+      return res.json({ ok: true });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// replaces every recovery code; the old ones stop working
+securityRouter.post(
+  "/2fa/recovery-codes",
+  requireAuth,
+  requireRole("admin", "organizer"),
+  async (req, res, next) => {
+    try {
+      const parsed = regenerateRecoveryCodesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: { message: "Invalid request", details: parsed.error.flatten() },
+        });
+      }
+
+      const authUser = req.user;
+      if (!authUser) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      const users = getDb().collection<UserDoc>("users");
+      const user = await users.findOne({ _id: new ObjectId(authUser.id) });
+      if (!user) {
+        return res.status(401).json({ error: { message: "Not authenticated" } });
+      }
+
+      if (user.twoFactor?.enabled !== true) {
+        return res
+          .status(409)
+          .json({ error: { message: "Two-factor authentication is not enabled" } });
+      }
+
+      const secondFactor = await verifySecondFactor(user, { code: parsed.data.code });
+      if (!secondFactor.ok) {
+        return res.status(401).json({ error: { message: "Invalid authentication code" } });
+      }
+
+      return res.json({ recoveryCodes: await regenerateRecoveryCodes(user._id) });
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
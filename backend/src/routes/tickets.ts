@@ -4,6 +4,7 @@ import { getDb } from "../db/client";
 import { collections } from "../db/collections";
 import type { UserDoc } from "../db/models";
 import { requireAuth } from "../middleware/auth";
+import { getTicketSigningJwks } from "../utils/ticketSigning";
 import type { StoredTicketDoc } from "../utils/tickets";
 
 export const ticketsRouter = Router();
@@ -33,6 +34,16 @@ function readParamString(raw: unknown): string | null {
   return null;
 }
 
+// public JWKS so scanners can verify ticket QR signatures offline
+ticketsRouter.get("/signing-keys", async (_req, res, next) => {
+  try {
+    res.setHeader("Cache-Control", "public, max-age=300");
+    return res.json(await getTicketSigningJwks());
+  } catch (err) {
+    return next(err);
+  }
+});
+
 // fetch ticket detail for owner participant, event organizer, or admin
 ticketsRouter.get("/:ticketId", requireAuth, async (req, res, next) => {
   try {
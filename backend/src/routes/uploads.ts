@@ -1,11 +1,12 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import { Router } from "express";
-import { ObjectId } from "mongodb";
+import type { ObjectId } from "mongodb";
 import { env } from "../config/env";
 import { getDb } from "../db/client";
 import { collections } from "../db/collections";
 import { requireAuth } from "../middleware/auth";
+import { resolveOrganizerAccess } from "../utils/organizerTeam";
 
 export const uploadsRouter = Router();
 
@@ -35,12 +36,6 @@ type StoredPaymentDoc = {
   proofUrl?: string;
 };
 
-function parseObjectId(rawId: unknown): ObjectId | null {
-  if (typeof rawId !== "string") return null;
-  if (!ObjectId.isValid(rawId)) return null;
-  return new ObjectId(rawId);
-}
-
 function readParamString(raw: unknown): string | null {
   if (typeof raw === "string") return raw.trim();
   if (Array.isArray(raw) && typeof raw[0] === "string") return raw[0].trim();
@@ -121,12 +116,16 @@ uploadsRouter.get("/:filename", requireAuth, async (req, res, next) => {
 
     const isOwner = participation.userId.toString() === authUser.id;
     let isOrganizer = false;
-    if (authUser.role === "organizer") {
-      const organizerId = parseObjectId(authUser.id);
-      if (organizerId) {
-        const event = await events.findOne({ _id: participation.eventId });
-        isOrganizer =
-          event !== null && event.organizerId.toString() === organizerId.toString();
+    if (authUser.role === "organizer" || authUser.role === "participant") {
+      // team members can open the same files they see in the participants list
+      const event = await events.findOne({ _id: participation.eventId });
+      if (event) {
+        const access = await resolveOrganizerAccess({
+          user: authUser,
+          allowedTeamRoles: ["scanner", "finance", "editor"],
+          organizerId: event.organizerId.toString(),
+        });
+        isOrganizer = access.ok && access.access.organizerId.equals(event.organizerId);
       }
     }
 
@@ -0,0 +1,71 @@
+// auto-decision for approval events: registrations nobody reviewed by the deadline are accepted or rejected
+import type { ObjectId } from "mongodb";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+import type { PersistedEventStatus } from "../utils/eventStatus";
+import {
+  type ApprovalAutoDecision,
+  applyApprovalAutoDecision,
+} from "../utils/registrationReview";
+import {
+  cancelScheduledJobs,
+  registerJobHandler,
+  type ScheduledJobOutcome,
+  upsertScheduledJob,
+} from "./jobs";
+
+export type ApprovalEventDoc = {
+  _id: ObjectId;
+  type: "NORMAL" | "MERCH";
+  status: PersistedEventStatus;
+  requiresApproval?: boolean;
+  approvalAutoDecision?: ApprovalAutoDecision | null;
+};
+
+function getAutoDecision(event: ApprovalEventDoc): ApprovalAutoDecision | null {
+  if (event.type !== "NORMAL" || !event.requiresApproval) return null;
+  return event.approvalAutoDecision ?? null;
+}
+
+export async function syncEventApprovalJobs(event: ApprovalEventDoc): Promise<void> {
+  const autoDecision = getAutoDecision(event);
+  if (event.status === "COMPLETED" || !autoDecision) {
+    await cancelScheduledJobs({ eventId: event._id, types: ["registration_auto_decision"] });
+    return;
+  }
+
+  await upsertScheduledJob({
+    type: "registration_auto_decision",
+    eventId: event._id,
+    runAt: autoDecision.at,
+  });
+}
+
+async function runAutoDecisionJob(
+  eventId: ObjectId,
+  now: Date,
+): Promise<ScheduledJobOutcome> {
+  const event = await getDb()
+    .collection<ApprovalEventDoc>(collections.events)
+    .findOne({ _id: eventId });
+  if (!event) return { status: "skipped", result: "event not found" };
+
+  const autoDecision = getAutoDecision(event);
+  if (!autoDecision) return { status: "skipped", result: "auto-decision was removed" };
+  if (autoDecision.at > now) {
+    return { status: "rescheduled", runAt: autoDecision.at, result: "deadline moved" };
+  }
+
+  const applied = await applyApprovalAutoDecision({ eventId, now });
+  if (!applied) return { status: "skipped", result: "auto-decision was removed" };
+  return {
+    status: "done",
+    result: `${applied.decision === "accept" ? "accepted" : "rejected"} ${applied.decided}`,
+  };
+}
+
+export function registerApprovalJobHandler(): void {
+  registerJobHandler("registration_auto_decision", (job, now) =>
+    runAutoDecisionJob(job.eventId, now),
+  );
+}
@@ -0,0 +1,176 @@
+// event lifecycle jobs: scheduled publish of drafts, close at regDeadline, complete at endDate
+import type { ObjectId } from "mongodb";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+import {
+  announceEventPublished,
+  type PersistedEventStatus,
+  validateOrganizerStatusTransition,
+} from "../utils/eventStatus";
+import {
+  cancelScheduledJobs,
+  registerJobHandler,
+  type ScheduledJobOutcome,
+  upsertScheduledJob,
+} from "./jobs";
+import { syncEventReminderJobs } from "./reminderJobs";
+
+export type SchedulableEventDoc = {
+  _id: ObjectId;
+  name: string;
+  type: "NORMAL" | "MERCH";
+  organizerId: ObjectId;
+  status: PersistedEventStatus;
+  regDeadline: Date;
+  startDate: Date;
+  endDate: Date;
+  scheduledPublishAt?: Date | null;
+  reminderOffsetsMinutes?: number[] | null;
+  updatedAt?: Date;
+};
+
+function getEventsCollection() {
+  return getDb().collection<SchedulableEventDoc>(collections.events);
+}
+
+// validated, compare-and-set status change; false when the transition is not allowed
+// or another writer changed the status first
+async function transitionEventStatus(
+  event: SchedulableEventDoc,
+  nextStatus: PersistedEventStatus,
+  now: Date,
+): Promise<boolean> {
+  if (validateOrganizerStatusTransition(event, nextStatus, now)) return false;
+
+  const result = await getEventsCollection().updateOne(
+    { _id: event._id, status: event.status },
+    {
+      $set: {
+        status: nextStatus,
+        updatedAt: now,
+        ...(nextStatus === "PUBLISHED" ? { scheduledPublishAt: null } : {}),
+      },
+    },
+  );
+  return result.modifiedCount === 1;
+}
+
+// keeps the persisted jobs in line with the event's current dates and status
+export async function syncEventStatusJobs(event: SchedulableEventDoc): Promise<void> {
+  if (event.status === "COMPLETED") {
+    await cancelScheduledJobs({ eventId: event._id });
+    return;
+  }
+
+  if (event.status === "DRAFT" && event.scheduledPublishAt) {
+    await upsertScheduledJob({
+      type: "event_publish",
+      eventId: event._id,
+      runAt: event.scheduledPublishAt,
+    });
+  } else {
+    await cancelScheduledJobs({ eventId: event._id, types: ["event_publish"] });
+  }
+
+  if (event.status === "CLOSED") {
+    await cancelScheduledJobs({ eventId: event._id, types: ["event_close"] });
+  } else {
+    await upsertScheduledJob({
+      type: "event_close",
+      eventId: event._id,
+      runAt: event.regDeadline,
+    });
+  }
+
+  await upsertScheduledJob({
+    type: "event_complete",
+    eventId: event._id,
+    runAt: event.endDate,
+  });
+}
+
+async function runPublishJob(eventId: ObjectId, now: Date): Promise<ScheduledJobOutcome> {
+  const event = await getEventsCollection().findOne({ _id: eventId });
+  if (!event) return { status: "skipped", result: "event not found" };
+  if (event.status !== "DRAFT") {
+    return { status: "done", result: `already ${event.status}` };
+  }
+  if (!event.scheduledPublishAt) {
+    return { status: "skipped", result: "publish schedule was removed" };
+  }
+  if (event.scheduledPublishAt > now) {
+    return {
+      status: "rescheduled",
+      runAt: event.scheduledPublishAt,
+      result: "publish time moved",
+    };
+  }
+
+  if (!(await transitionEventStatus(event, "PUBLISHED", now))) {
+    return { status: "skipped", result: "status changed concurrently" };
+  }
+
+  const published: SchedulableEventDoc = {
+    ...event,
+    status: "PUBLISHED",
+    scheduledPublishAt: null,
+    updatedAt: now,
+  };
+  await announceEventPublished(published);
+  await syncEventStatusJobs(published);
+  await syncEventReminderJobs(published);
+
+  return { status: "done", result: "published" };
+}
+
+async function runCloseJob(eventId: ObjectId, now: Date): Promise<ScheduledJobOutcome> {
+  const event = await getEventsCollection().findOne({ _id: eventId });
+  if (!event) return { status: "skipped", result: "event not found" };
+  if (event.status === "CLOSED" || event.status === "COMPLETED") {
+    return { status: "done", result: `already ${event.status}` };
+  }
+  // re-armed by syncEventStatusJobs when the draft is published
+  if (event.status === "DRAFT") {
+    return { status: "skipped", result: "event is not published" };
+  }
+  if (event.regDeadline > now) {
+    return { status: "rescheduled", runAt: event.regDeadline, result: "deadline moved" };
+  }
+
+  if (!(await transitionEventStatus(event, "CLOSED", now))) {
+    return { status: "skipped", result: "status changed concurrently" };
+  }
+  return { status: "done", result: "closed" };
+}
+
+async function runCompleteJob(eventId: ObjectId, now: Date): Promise<ScheduledJobOutcome> {
+  const event = await getEventsCollection().findOne({ _id: eventId });
+  if (!event) return { status: "skipped", result: "event not found" };
+  if (event.status === "COMPLETED") return { status: "done", result: "already COMPLETED" };
+  if (event.status === "DRAFT") {
+    return { status: "skipped", result: "event is not published" };
+  }
+  if (event.endDate > now) {
+    return { status: "rescheduled", runAt: event.endDate, result: "end date moved" };
+  }
+
+  // PUBLISHED -> COMPLETED is only valid while ongoing, so go through CLOSED like an organizer would
+  let current = event;
+  if (current.status === "PUBLISHED") {
+    if (!(await transitionEventStatus(current, "CLOSED", now))) {
+      return { status: "skipped", result: "status changed concurrently" };
+    }
+    current = { ...current, status: "CLOSED", updatedAt: now };
+  }
+
+  if (!(await transitionEventStatus(current, "COMPLETED", now))) {
+    return { status: "skipped", result: "status changed concurrently" };
+  }
+  return { status: "done", result: "completed" };
+}
+
+export function registerEventStatusJobHandlers(): void {
+  registerJobHandler("event_publish", (job, now) => runPublishJob(job.eventId, now));
+  registerJobHandler("event_close", (job, now) => runCloseJob(job.eventId, now));
+  registerJobHandler("event_complete", (job, now) => runCompleteJob(job.eventId, now));
+}
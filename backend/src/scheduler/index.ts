@@ -0,0 +1,61 @@
+// single entry point used by routes and server startup for everything event-scoped in the job queue
+import type { ObjectId } from "mongodb";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+import {
+  type ApprovalEventDoc,
+  registerApprovalJobHandler,
+  syncEventApprovalJobs,
+} from "./approvalJobs";
+import {
+  registerEventStatusJobHandlers,
+  type SchedulableEventDoc,
+  syncEventStatusJobs,
+} from "./eventStatusJobs";
+import { cancelScheduledJobs } from "./jobs";
+import { registerPaymentHoldJobHandler } from "./paymentHoldJobs";
+import {
+  registerEventReminderJobHandler,
+  type ReminderEventDoc,
+  syncEventReminderJobs,
+} from "./reminderJobs";
+
+type SyncableEventDoc = SchedulableEventDoc & ReminderEventDoc & ApprovalEventDoc;
+
+export function registerJobHandlers(): void {
+  registerEventStatusJobHandlers();
+  registerEventReminderJobHandler();
+  registerApprovalJobHandler();
+  registerPaymentHoldJobHandler();
+}
+
+export async function syncEventJobs(event: SyncableEventDoc): Promise<void> {
+  await syncEventStatusJobs(event);
+  await syncEventReminderJobs(event);
+  await syncEventApprovalJobs(event);
+}
+
+export async function syncEventJobsSafe(event: SyncableEventDoc): Promise<void> {
+  try {
+    await syncEventJobs(event);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "unknown error";
+    console.warn(`event job sync failed: ${message}`);
+  }
+}
+
+export async function cancelEventJobs(eventId: ObjectId): Promise<void> {
+  await cancelScheduledJobs({ eventId });
+}
+
+// startup backfill so events created before a job type existed get their jobs
+export async function ensureEventJobs(): Promise<void> {
+  const events = await getDb()
+    .collection<SyncableEventDoc>(collections.events)
+    .find({ status: { $ne: "COMPLETED" } })
+    .toArray();
+
+  for (const event of events) {
+    await syncEventJobs(event);
+  }
+}
@@ -0,0 +1,258 @@
+// persisted job queue polled by the backend process
+// jobs live in mongo so they survive restarts; each job has a unique key so re-scheduling is an upsert
+import { ObjectId } from "mongodb";
+import { env } from "../config/env";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+
+export type ScheduledJobType =
+  | "event_publish"
+  | "event_close"
+  | "event_complete"
+  | "event_reminder"
+  | "registration_auto_decision"
+  | "payment_hold_expiry";
+
+export type ScheduledJobStatus = "pending" | "running" | "done" | "skipped" | "failed";
+
+export type StoredScheduledJobDoc = {
+  _id: ObjectId;
+  // e.g. "event_close:<eventId>" or "event_reminder:<eventId>:60"; unique
+  key: string;
+  type: ScheduledJobType;
+  eventId: ObjectId;
+  // event_reminder only
+  offsetMinutes?: number;
+  runAt: Date;
+  status: ScheduledJobStatus;
+  attempts: number;
+  lockedUntil?: Date;
+  lastError?: string;
+  result?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  finishedAt?: Date;
+};
+
+// handlers re-read current state, so running a job twice is harmless
+export type ScheduledJobOutcome =
+  | { status: "done" | "skipped"; result: string }
+  | { status: "rescheduled"; runAt: Date; result: string };
+
+export type ScheduledJobHandler = (
+  job: StoredScheduledJobDoc,
+  now: Date,
+) => Promise<ScheduledJobOutcome>;
+
+const JOB_LOCK_MS = 5 * 60 * 1000;
+const MAX_JOB_ATTEMPTS = 5;
+const MAX_JOBS_PER_TICK = 50;
+
+const jobHandlers = new Map<ScheduledJobType, ScheduledJobHandler>();
+let schedulerTimer: NodeJS.Timeout | null = null;
+let tickInProgress = false;
+
+function getJobsCollection() {
+  return getDb().collection<StoredScheduledJobDoc>(collections.scheduledJobs);
+}
+
+export function buildJobKey(
+  type: ScheduledJobType,
+  eventId: ObjectId,
+  offsetMinutes?: number,
+): string {
+  const base = `${type}:${eventId.toString()}`;
+  return offsetMinutes === undefined ? base : `${base}:${offsetMinutes}`;
+}
+
+export function registerJobHandler(
+  type: ScheduledJobType,
+  handler: ScheduledJobHandler,
+): void {
+  jobHandlers.set(type, handler);
+}
+
+// (re)arms a job at runAt; finished ("done") jobs are left alone
+export async function upsertScheduledJob(params: {
+  type: ScheduledJobType;
+  eventId: ObjectId;
+  runAt: Date;
+  offsetMinutes?: number;
+}): Promise<string> {
+  const now = new Date();
+  const key = buildJobKey(params.type, params.eventId, params.offsetMinutes);
+
+  try {
+    await getJobsCollection().updateOne(
+      { key, status: { $ne: "done" } },
+      {
+        $set: {
+          runAt: params.runAt,
+          status: "pending",
+          attempts: 0,
+          updatedAt: now,
+        },
+        $unset: { lockedUntil: "", lastError: "", result: "", finishedAt: "" },
+        $setOnInsert: {
+          _id: new ObjectId(),
+          key,
+          type: params.type,
+          eventId: params.eventId,
+          ...(params.offsetMinutes !== undefined
+            ? { offsetMinutes: params.offsetMinutes }
+            : {}),
+          createdAt: now,
+        },
+      },
+      { upsert: true },
+    );
+  } catch (err) {
+    // upsert collided with the unique key of an already-done job: nothing to re-arm
+    if (
+      err &&
+      typeof err === "object" &&
+      "code" in err &&
+      (err as { code?: number }).code === 11000
+    ) {
+      return key;
+    }
+    throw err;
+  }
+
+  return key;
+}
+
+// removes not-yet-finished jobs (all types when types is omitted), except keepKeys
+export async function cancelScheduledJobs(params: {
+  eventId: ObjectId;
+  types?: ScheduledJobType[];
+  keepKeys?: string[];
+}): Promise<void> {
+  await getJobsCollection().deleteMany({
+    eventId: params.eventId,
+    status: { $in: ["pending", "skipped", "failed"] },
+    ...(params.types ? { type: { $in: params.types } } : {}),
+    ...(params.keepKeys ? { key: { $nin: params.keepKeys } } : {}),
+  });
+}
+
+// atomically leases one due job; expired leases (crashed runs) are picked up again
+async function claimDueJob(now: Date): Promise<StoredScheduledJobDoc | null> {
+  return getJobsCollection().findOneAndUpdate(
+    {
+      $or: [
+        { status: "pending", runAt: { $lte: now } },
+        { status: "running", lockedUntil: { $lt: now } },
+      ],
+    },
+    {
+      $set: {
+        status: "running",
+        lockedUntil: new Date(now.getTime() + JOB_LOCK_MS),
+        updatedAt: now,
+      },
+      $inc: { attempts: 1 },
+    },
+    { sort: { runAt: 1 }, returnDocument: "after" },
+  );
+}
+
+async function runJob(job: StoredScheduledJobDoc, now: Date): Promise<void> {
+  const jobs = getJobsCollection();
+  const handler = jobHandlers.get(job.type);
+
+  try {
+    if (!handler) throw new Error(`no handler registered for ${job.type}`);
+
+    const outcome = await handler(job, now);
+    const finishedAt = new Date();
+
+    if (outcome.status === "rescheduled") {
+      await jobs.updateOne(
+        { _id: job._id, status: "running" },
+        {
+          $set: {
+            status: "pending",
+            runAt: outcome.runAt,
+            attempts: 0,
+            result: outcome.result,
+            updatedAt: finishedAt,
+          },
+          $unset: { lockedUntil: "" },
+        },
+      );
+      return;
+    }
+
+    await jobs.updateOne(
+      { _id: job._id, status: "running" },
+      {
+        $set: {
+          status: outcome.status,
+          result: outcome.result,
+          updatedAt: finishedAt,
+          finishedAt,
+        },
+        $unset: { lockedUntil: "", lastError: "" },
+      },
+    );
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "unknown error";
+    const failedAt = new Date();
+    const exhausted = job.attempts >= MAX_JOB_ATTEMPTS;
+    // 1, 2, 4, 8... minutes between retries
+    const retryAt = new Date(failedAt.getTime() + 2 ** (job.attempts - 1) * 60 * 1000);
+
+    console.warn(`scheduled job ${job.key} failed: ${message}`);
+    await jobs.updateOne(
+      { _id: job._id, status: "running" },
+      {
+        $set: {
+          status: exhausted ? "failed" : "pending",
+          runAt: exhausted ? job.runAt : retryAt,
+          lastError: message,
+          updatedAt: failedAt,
+          ...(exhausted ? { finishedAt: failedAt } : {}),
+        },
+        $unset: { lockedUntil: "" },
+      },
+    );
+  }
+}
+
+export async function runDueJobs(now = new Date()): Promise<number> {
+  let processed = 0;
+
+  while (processed < MAX_JOBS_PER_TICK) {
+    const job = await claimDueJob(now);
+    if (!job) break;
+
+    await runJob(job, now);
+    processed += 1;
+  }
+
+  return processed;
+}
+
+export function startJobScheduler(): void {
+  if (schedulerTimer) return;
+
+  const tick = async () => {
+    if (tickInProgress) return;
+    tickInProgress = true;
+
+    try {
+      await runDueJobs();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "unknown error";
+      console.warn(`job scheduler tick failed: ${message}`);
+    } finally {
+      tickInProgress = false;
+    }
+  };
+
+  void tick();
+  schedulerTimer = setInterval(() => {
+    void tick();
+  }, env.SCHEDULER_POLL_INTERVAL_MS);
+}
@@ -0,0 +1,23 @@
+// releases seats of paid registrations whose payment was not reviewed before the hold ran out
+import type { ObjectId } from "mongodb";
+import { expirePaymentHolds } from "../utils/paymentHolds";
+import { promoteWaitlistedParticipationsSafe } from "../utils/waitlist";
+import { registerJobHandler, type ScheduledJobOutcome } from "./jobs";
+
+async function runPaymentHoldExpiryJob(
+  eventId: ObjectId,
+  now: Date,
+): Promise<ScheduledJobOutcome> {
+  const { expired, nextExpiry } = await expirePaymentHolds({ eventId, now });
+  if (expired > 0) await promoteWaitlistedParticipationsSafe({ eventId, now });
+
+  if (nextExpiry) {
+    return { status: "rescheduled", runAt: nextExpiry, result: `expired ${expired}` };
+  }
+  // not "done": finished jobs are never re-armed, and the next paid registration needs this one
+  return { status: "skipped", result: `expired ${expired}, no holds left` };
+}
+
+export function registerPaymentHoldJobHandler(): void {
+  registerJobHandler("payment_hold_expiry", (job, now) => runPaymentHoldExpiryJob(job.eventId, now));
+}
@@ -0,0 +1,255 @@
+// reminder emails queued for confirmed participants at fixed offsets before an event starts
+// every reminder is claimed in reminder_sends first, so restarts and job retries never queue it twice
+import { ObjectId } from "mongodb";
+import { env } from "../config/env";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+import { buildReminderEmail } from "../utils/email";
+import { queueEmail } from "../utils/emailOutbox";
+import type { PersistedEventStatus } from "../utils/eventStatus";
+import type { StoredTicketDoc } from "../utils/tickets";
+import {
+  cancelScheduledJobs,
+  registerJobHandler,
+  type ScheduledJobOutcome,
+  type StoredScheduledJobDoc,
+  upsertScheduledJob,
+} from "./jobs";
+
+export type ReminderEventDoc = {
+  _id: ObjectId;
+  name: string;
+  status: PersistedEventStatus;
+  startDate: Date;
+  // null/missing falls back to REMINDER_OFFSETS_MINUTES; [] turns reminders off for the event
+  reminderOffsetsMinutes?: number[] | null;
+};
+
+type ReminderParticipationDoc = {
+  _id: ObjectId;
+  eventId: ObjectId;
+  userId: ObjectId;
+  status: "pending" | "confirmed" | "waitlisted" | "cancelled" | "rejected";
+  ticketId?: string;
+  reminderOptOut?: boolean;
+};
+
+type ReminderUserDoc = {
+  _id: ObjectId;
+  email: string;
+  name: string;
+};
+
+// "queued" means handed to the email outbox, which owns retries from there
+type ReminderSendStatus = "sending" | "queued" | "failed";
+
+export type StoredReminderSendDoc = {
+  _id: ObjectId;
+  eventId: ObjectId;
+  participationId: ObjectId;
+  userId: ObjectId;
+  offsetMinutes: number;
+  status: ReminderSendStatus;
+  outboxEmailId?: ObjectId;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  queuedAt?: Date;
+};
+
+function getEventsCollection() {
+  return getDb().collection<ReminderEventDoc>(collections.events);
+}
+
+function getReminderSendsCollection() {
+  return getDb().collection<StoredReminderSendDoc>(collections.reminderSends);
+}
+
+// largest offset first, duplicates removed
+export function resolveReminderOffsets(event: ReminderEventDoc): number[] {
+  const offsets = event.reminderOffsetsMinutes ?? env.REMINDER_OFFSETS_MINUTES;
+  return [...new Set(offsets)].sort((a, b) => b - a);
+}
+
+function getReminderRunAt(startDate: Date, offsetMinutes: number): Date {
+  return new Date(startDate.getTime() - offsetMinutes * 60 * 1000);
+}
+
+export async function syncEventReminderJobs(event: ReminderEventDoc): Promise<void> {
+  if (event.status === "COMPLETED") {
+    await cancelScheduledJobs({ eventId: event._id, types: ["event_reminder"] });
+    return;
+  }
+
+  const keepKeys: string[] = [];
+  for (const offsetMinutes of resolveReminderOffsets(event)) {
+    keepKeys.push(
+      await upsertScheduledJob({
+        type: "event_reminder",
+        eventId: event._id,
+        runAt: getReminderRunAt(event.startDate, offsetMinutes),
+        offsetMinutes,
+      }),
+    );
+  }
+
+  await cancelScheduledJobs({ eventId: event._id, types: ["event_reminder"], keepKeys });
+}
+
+// false when this reminder was already queued (or is being queued) for the participation
+async function claimReminderSend(
+  participation: ReminderParticipationDoc,
+  offsetMinutes: number,
+  now: Date,
+): Promise<boolean> {
+  try {
+    await getReminderSendsCollection().updateOne(
+      {
+        participationId: participation._id,
+        offsetMinutes,
+        status: "failed",
+      },
+      {
+        $set: { status: "sending", updatedAt: now },
+        $unset: { error: "" },
+        $setOnInsert: {
+          _id: new ObjectId(),
+          eventId: participation.eventId,
+          participationId: participation._id,
+          userId: participation.userId,
+          offsetMinutes,
+          createdAt: now,
+        },
+      },
+      { upsert: true },
+    );
+    return true;
+  } catch (err) {
+    // a "sending"/"queued" entry already holds the unique key
+    if (
+      err &&
+      typeof err === "object" &&
+      "code" in err &&
+      (err as { code?: number }).code === 11000
+    ) {
+      return false;
+    }
+    throw err;
+  }
+}
+
+async function runReminderJob(
+  job: StoredScheduledJobDoc,
+  now: Date,
+): Promise<ScheduledJobOutcome> {
+  const offsetMinutes = job.offsetMinutes;
+  if (offsetMinutes === undefined) {
+    return { status: "skipped", result: "job has no reminder offset" };
+  }
+
+  const event = await getEventsCollection().findOne({ _id: job.eventId });
+  if (!event) return { status: "skipped", result: "event not found" };
+  // re-armed by syncEventReminderJobs when the draft is published
+  if (event.status === "DRAFT") {
+    return { status: "skipped", result: "event is not published" };
+  }
+  if (event.status === "COMPLETED" || event.startDate <= now) {
+    return { status: "skipped", result: "event already started" };
+  }
+
+  const offsets = resolveReminderOffsets(event);
+  if (!offsets.includes(offsetMinutes)) {
+    return { status: "skipped", result: "reminder offset was removed" };
+  }
+
+  const runAt = getReminderRunAt(event.startDate, offsetMinutes);
+  if (runAt > now) {
+    return { status: "rescheduled", runAt, result: "start date moved" };
+  }
+
+  // after downtime or a late start-date change several reminders can be due at once; only the nearest goes out
+  const superseded = offsets.some(
+    (offset) => offset < offsetMinutes && getReminderRunAt(event.startDate, offset) <= now,
+  );
+  if (superseded) {
+    return { status: "skipped", result: "superseded by a closer reminder" };
+  }
+
+  const db = getDb();
+  const recipients = await db
+    .collection<ReminderParticipationDoc>(collections.registrations)
+    .find({
+      eventId: event._id,
+      status: "confirmed",
+      ticketId: { $exists: true },
+      reminderOptOut: { $ne: true },
+    })
+    .toArray();
+
+  const tickets = db.collection<StoredTicketDoc>(collections.tickets);
+  const users = db.collection<ReminderUserDoc>(collections.users);
+  const sends = getReminderSendsCollection();
+  const minutesUntilStart = Math.max(
+    1,
+    Math.round((event.startDate.getTime() - now.getTime()) / (60 * 1000)),
+  );
+
+  let queuedCount = 0;
+  let failedCount = 0;
+
+  for (const participation of recipients) {
+    if (!participation.ticketId) continue;
+    if (!(await claimReminderSend(participation, offsetMinutes, now))) continue;
+
+    try {
+      const [ticket, user] = await Promise.all([
+        tickets.findOne({ ticketId: participation.ticketId }),
+        users.findOne({ _id: participation.userId }),
+      ]);
+      if (!ticket || !user) throw new Error("ticket or participant not found");
+
+      const outboxEmailId = await queueEmail({
+        kind: "reminder",
+        email: buildReminderEmail({
+          toEmail: user.email,
+          toName: user.name,
+          eventName: event.name,
+          startDate: event.startDate,
+          offsetMinutes: minutesUntilStart,
+          ticketId: ticket.ticketId,
+          qrPayload: ticket.qrPayload,
+        }),
+        refs: {
+          eventId: event._id,
+          userId: participation.userId,
+          participationId: participation._id,
+        },
+      });
+
+      const queuedAt = new Date();
+      await sends.updateOne(
+        { participationId: participation._id, offsetMinutes },
+        { $set: { status: "queued", outboxEmailId, queuedAt, updatedAt: queuedAt } },
+      );
+      queuedCount += 1;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "unknown error";
+      await sends.updateOne(
+        { participationId: participation._id, offsetMinutes },
+        { $set: { status: "failed", error: message, updatedAt: new Date() } },
+      );
+      failedCount += 1;
+    }
+  }
+
+  // throwing lets the job runner retry with backoff; already-queued reminders are not repeated
+  if (failedCount > 0) {
+    throw new Error(`${failedCount} reminder email(s) failed to queue, ${queuedCount} queued`);
+  }
+
+  return { status: "done", result: `queued ${queuedCount}` };
+}
+
+export function registerEventReminderJobHandler(): void {
+  registerJobHandler("event_reminder", runReminderJob);
+}
@@ -1,10 +1,20 @@
 import fs from "node:fs";
+import http from "node:http";
 import path from "node:path";
 import { app } from "./app";
 import { env } from "./config/env";
 import { connectDb } from "./db/client";
 import { ensureDbIndexes } from "./db/indexes";
+import { attachRealtimeServer } from "./realtime/socket";
+import { ensureEventJobs, registerJobHandlers } from "./scheduler";
+import { startJobScheduler } from "./scheduler/jobs";
+import { migrateLegacyAttendanceCheckpoints } from "./startup/attendanceCheckpoints";
+import { resignLegacyTicketPayloads } from "./startup/resignTickets";
 import { seedFirstAdmin } from "./startup/seedAdmin";
+import { registerAnnouncementEmailListener } from "./utils/announcements";
+import { registerCertificateEmailListener } from "./utils/certificates";
+import { startEmailOutboxWorker } from "./utils/emailOutbox";
+import { ensureTicketSigningKeys } from "./utils/ticketSigning";
 
 async function main() {
   // create file upload directory
@@ -13,9 +23,24 @@ async function main() {
 
   await connectDb();
   await ensureDbIndexes();
+  await migrateLegacyAttendanceCheckpoints();
   await seedFirstAdmin();
+  await ensureTicketSigningKeys();
+  await resignLegacyTicketPayloads();
 
-  app.listen(env.PORT, () => {
+  registerJobHandlers();
+  await ensureEventJobs();
+  startJobScheduler();
+
+  registerAnnouncementEmailListener();
+  registerCertificateEmailListener();
+  startEmailOutboxWorker();
+
+  // socket.io shares the http server (and port) with express
+  const server = http.createServer(app);
+  attachRealtimeServer(server);
+
+  server.listen(env.PORT, () => {
     console.log(`API listening on http://localhost:${env.PORT}`);
   });
 }
@@ -0,0 +1,44 @@
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+
+// same key as DEFAULT_ATTENDANCE_CHECKPOINT in routes/events.ts
+const LEGACY_CHECKPOINT_KEY = "main";
+
+// attendance from before checkpoints was one record per participation; file it under the default
+// checkpoint and drop the old one-per-participation unique index so later checkpoints can be scanned
+export async function migrateLegacyAttendanceCheckpoints(): Promise<void> {
+  const db = getDb();
+  const attendances = db.collection(collections.attendances);
+
+  try {
+    await attendances.dropIndex("participationId_1");
+    console.log("Dropped legacy one-per-participation attendance index.");
+  } catch {
+    // already gone
+  }
+
+  const legacyAttendances = await attendances.updateMany(
+    { checkpointKey: { $exists: false } },
+    [
+      {
+        $set: {
+          checkpointKey: LEGACY_CHECKPOINT_KEY,
+          scanCount: 1,
+          lastScannedAt: "$markedAt",
+        },
+      },
+    ],
+  );
+  await db
+    .collection(collections.attendanceAuditLogs)
+    .updateMany(
+      { checkpointKey: { $exists: false } },
+      { $set: { checkpointKey: LEGACY_CHECKPOINT_KEY } },
+    );
+
+  if (legacyAttendances.modifiedCount > 0) {
+    console.log(
+      `Moved ${legacyAttendances.modifiedCount} legacy attendance records to the default checkpoint.`,
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+import {
+  buildSignedQrPayloadForTicket,
+  type StoredTicketDoc,
+} from "../utils/tickets";
+
+// tickets issued before QR signing carry plain JSON payloads; upgrade them in place
+export async function resignLegacyTicketPayloads(): Promise<void> {
+  const tickets = getDb().collection<StoredTicketDoc>(collections.tickets);
+  const legacyTickets = await tickets
+    .find({ qrPayload: { $regex: "^\\{" } })
+    .toArray();
+
+  if (legacyTickets.length === 0) {
+    return;
+  }
+
+  for (const ticket of legacyTickets) {
+    await tickets.updateOne(
+      { _id: ticket._id },
+      { $set: { qrPayload: buildSignedQrPayloadForTicket(ticket) } },
+    );
+  }
+
+  console.log(`Re-signed ${legacyTickets.length} legacy ticket QR payloads.`);
+}
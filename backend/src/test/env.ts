@@ -0,0 +1,6 @@
+// config/env validates on import; unit tests never reach a server, so placeholders will do.
+// import this before anything that reads env
+process.env.MONGODB_URI ??= "mongodb://127.0.0.1:27017/felicity-test";
+process.env.JWT_SECRET ??= "test-secret-that-is-at-least-thirty-two-characters";
+process.env.CLIENT_ORIGIN ??= "http://localhost:5173";
+process.env.PAYMENT_WEBHOOK_SECRET ??= "test-webhook-secret-that-is-at-least-32-chars";
@@ -0,0 +1,294 @@
+// in-memory stand-in for the Db/Collection calls the utils make, so unit tests run without a
+// server. Filters and update operators are evaluated by mingo; unique indexes come from the real
+// ensureDbIndexes, and options it does not model throw. The positional "$" is resolved from the
+// filter like MongoDB does, except that it updates every matching element rather than the first
+import { find, update } from "mingo";
+import { setDb } from "../db/client";
+import { ensureDbIndexes } from "../db/indexes";
+
+type Doc = Record<string, unknown>;
+type Filter = Record<string, unknown>;
+type Update = Record<string, Record<string, unknown>>;
+type Sort = Record<string, 1 | -1>;
+type Projection = Record<string, 0 | 1>;
+type ReadOptions = { sort?: Sort; projection?: Projection; limit?: number };
+type UpdateOptions = {
+  upsert?: boolean;
+  arrayFilters?: Doc[];
+  returnDocument?: "before" | "after";
+  sort?: Sort;
+  projection?: Projection;
+};
+
+const POSITIONAL_IDENTIFIER = "positional";
+
+// an option this stand-in does not model would silently change what a test proves
+function assertSupportedOptions(method: string, options: object, supported: string[]) {
+  for (const option of Object.keys(options)) {
+    if (!supported.includes(option)) {
+      throw new Error(`memoryDb ${method} does not support the ${option} option`);
+    }
+  }
+}
+
+function isPlainObject(value: unknown): value is Doc {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (Object.getPrototypeOf(value) === Object.prototype || Object.getPrototypeOf(value) === null)
+  );
+}
+
+// callers get copies, like documents read back from a server; ObjectIds and Dates are shared
+function cloneDoc<T>(value: T): T {
+  if (Array.isArray(value)) return value.map((entry) => cloneDoc(entry)) as T;
+  if (!isPlainObject(value)) return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, entry]) => [key, cloneDoc(entry)]),
+  ) as T;
+}
+
+function getPath(doc: Doc, path: string): unknown {
+  return path
+    .split(".")
+    .reduce<unknown>((value, key) => (isPlainObject(value) ? value[key] : undefined), doc);
+}
+
+// rewrites "items.$.field" to "items.$[positional].field" with an array filter taken from the
+// filter's condition on that array
+function resolvePositional(filter: Filter, updateDoc: Update, arrayFilters: Doc[]) {
+  let arrayPath: string | null = null;
+  const rewritten: Update = {};
+  for (const [operator, fields] of Object.entries(updateDoc)) {
+    rewritten[operator] = Object.fromEntries(
+      Object.entries(fields).map(([path, value]) => {
+        const index = path.indexOf(".$");
+        if (index === -1 || path[index + 2] === "[") return [path, value];
+        arrayPath = path.slice(0, index);
+        return [`${arrayPath}.$[${POSITIONAL_IDENTIFIER}]${path.slice(index + 2)}`, value];
+      }),
+    );
+  }
+  if (arrayPath === null) return { updateDoc, arrayFilters };
+
+  const prefix: string = arrayPath;
+  const elementFilter: Doc = {};
+  for (const [path, condition] of Object.entries(filter)) {
+    if (path === prefix && isPlainObject(condition) && "$elemMatch" in condition) {
+      for (const [field, value] of Object.entries(condition.$elemMatch as Doc)) {
+        elementFilter[`${POSITIONAL_IDENTIFIER}.${field}`] = value;
+      }
+    } else if (path.startsWith(`${prefix}.`)) {
+      elementFilter[`${POSITIONAL_IDENTIFIER}.${path.slice(prefix.length + 1)}`] = condition;
+    }
+  }
+  if (Object.keys(elementFilter).length === 0) {
+    throw new Error(`positional update on ${prefix} needs a filter on that array`);
+  }
+  return { updateDoc: rewritten, arrayFilters: [...arrayFilters, elementFilter] };
+}
+
+class DuplicateKeyError extends Error {
+  code = 11000;
+}
+
+export class MemoryCollection {
+  readonly docs: Doc[] = [];
+  private readonly uniqueIndexes: { fields: string[]; sparse: boolean }[] = [];
+
+  constructor(readonly name: string) {}
+
+  async createIndex(
+    spec: Record<string, unknown>,
+    options: { unique?: boolean; sparse?: boolean } = {},
+  ) {
+    if (options.unique) {
+      this.uniqueIndexes.push({ fields: Object.keys(spec), sparse: options.sparse ?? false });
+    }
+    return Object.keys(spec).join("_");
+  }
+
+  private assertUnique(candidate: Doc, ignore?: Doc) {
+    for (const index of this.uniqueIndexes) {
+      const values = index.fields.map((field) => getPath(candidate, field));
+      if (index.sparse && values.some((value) => value === undefined)) continue;
+      // missing fields index as null, so two docs without the field clash too
+      const condition = Object.fromEntries(
+        index.fields.map((field, position) => [field, values[position] ?? null]),
+      );
+      const clash = this.docs.some(
+        (doc) => doc !== ignore && find([doc], condition).all().length > 0,
+      );
+      if (clash) {
+        throw new DuplicateKeyError(`E11000 duplicate key error collection: ${this.name}`);
+      }
+    }
+  }
+
+  // matching stored docs (not copies) in sort order
+  private match(filter: Filter, sort?: Sort): Doc[] {
+    const cursor = find(this.docs, filter);
+    if (sort) cursor.sort(sort);
+    return cursor.all() as Doc[];
+  }
+
+  private project(doc: Doc, projection?: Projection): Doc {
+    if (!projection) return cloneDoc(doc);
+    return cloneDoc(find([doc], {}, projection).all()[0] as Doc);
+  }
+
+  private applyUpdate(
+    doc: Doc,
+    filter: Filter,
+    updateDoc: Update,
+    options: UpdateOptions,
+  ): boolean {
+    const { $setOnInsert: _ignored, ...operators } = updateDoc;
+    const resolved = resolvePositional(filter, operators, options.arrayFilters ?? []);
+    const before = cloneDoc(doc);
+    const changed = update(doc, resolved.updateDoc, resolved.arrayFilters);
+    if (changed.length === 0) return false;
+    try {
+      this.assertUnique(doc, doc);
+    } catch (err) {
+      Object.keys(doc).forEach((key) => delete doc[key]);
+      Object.assign(doc, before);
+      throw err;
+    }
+    return true;
+  }
+
+  private upsert(filter: Filter, updateDoc: Update, options: UpdateOptions): Doc {
+    const doc: Doc = {};
+    for (const [path, value] of Object.entries(filter)) {
+      if (!path.startsWith("$") && !isPlainObject(value)) doc[path] = value;
+    }
+    Object.assign(doc, cloneDoc(updateDoc.$setOnInsert ?? {}));
+    this.applyUpdate(doc, filter, updateDoc, options);
+    this.assertUnique(doc);
+    this.docs.push(doc);
+    return doc;
+  }
+
+  async findOne(filter: Filter = {}, options: ReadOptions = {}) {
+    assertSupportedOptions("findOne", options, ["sort", "projection"]);
+    const doc = this.match(filter, options.sort)[0];
+    return doc ? this.project(doc, options.projection) : null;
+  }
+
+  find(filter: Filter = {}, options: ReadOptions = {}) {
+    assertSupportedOptions("find", options, ["sort", "projection", "limit"]);
+    const cursor = find(this.docs, filter, options.projection);
+    if (options.sort) cursor.sort(options.sort);
+    if (options.limit !== undefined) cursor.limit(options.limit);
+    const chain = {
+      sort(spec: Sort) {
+        cursor.sort(spec);
+        return chain;
+      },
+      limit(count: number) {
+        cursor.limit(count);
+        return chain;
+      },
+      async toArray() {
+        return cloneDoc(cursor.all() as Doc[]);
+      },
+    };
+    return chain;
+  }
+
+  async countDocuments(filter: Filter = {}, options: object = {}) {
+    assertSupportedOptions("countDocuments", options, []);
+    return this.match(filter).length;
+  }
+
+  async insertOne(doc: Doc, options: object = {}) {
+    assertSupportedOptions("insertOne", options, []);
+    const stored = cloneDoc(doc);
+    this.assertUnique(stored);
+    this.docs.push(stored);
+    return { acknowledged: true, insertedId: stored._id };
+  }
+
+  async updateOne(filter: Filter, updateDoc: Update, options: UpdateOptions = {}) {
+    assertSupportedOptions("updateOne", options, ["upsert", "arrayFilters"]);
+    const doc = this.match(filter)[0];
+    if (!doc) {
+      if (!options.upsert) return { matchedCount: 0, modifiedCount: 0, upsertedCount: 0 };
+      const inserted = this.upsert(filter, updateDoc, options);
+      return { matchedCount: 0, modifiedCount: 0, upsertedCount: 1, upsertedId: inserted._id };
+    }
+    const modified = this.applyUpdate(doc, filter, updateDoc, options);
+    return { matchedCount: 1, modifiedCount: modified ? 1 : 0, upsertedCount: 0 };
+  }
+
+  async updateMany(filter: Filter, updateDoc: Update, options: UpdateOptions = {}) {
+    assertSupportedOptions("updateMany", options, ["arrayFilters"]);
+    const matched = this.match(filter);
+    let modifiedCount = 0;
+    for (const doc of matched) {
+      if (this.applyUpdate(doc, filter, updateDoc, options)) modifiedCount += 1;
+    }
+    return { matchedCount: matched.length, modifiedCount, upsertedCount: 0 };
+  }
+
+  async findOneAndUpdate(filter: Filter, updateDoc: Update, options: UpdateOptions = {}) {
+    assertSupportedOptions("findOneAndUpdate", options, [
+      "upsert",
+      "arrayFilters",
+      "returnDocument",
+      "sort",
+      "projection",
+    ]);
+    const doc = this.match(filter, options.sort)[0];
+    if (!doc) {
+      if (!options.upsert) return null;
+      const inserted = this.upsert(filter, updateDoc, options);
+      return options.returnDocument === "after"
+        ? this.project(inserted, options.projection)
+        : null;
+    }
+    const before = this.project(doc, options.projection);
+    this.applyUpdate(doc, filter, updateDoc, options);
+    return options.returnDocument === "after" ? this.project(doc, options.projection) : before;
+  }
+
+  async deleteOne(filter: Filter, options: object = {}) {
+    assertSupportedOptions("deleteOne", options, []);
+    const doc = this.match(filter)[0];
+    if (!doc) return { deletedCount: 0 };
+    this.docs.splice(this.docs.indexOf(doc), 1);
+    return { deletedCount: 1 };
+  }
+
+  async findOneAndDelete(filter: Filter, options: ReadOptions = {}) {
+    assertSupportedOptions("findOneAndDelete", options, ["sort", "projection"]);
+    const doc = this.match(filter, options.sort)[0];
+    if (!doc) return null;
+    this.docs.splice(this.docs.indexOf(doc), 1);
+    return this.project(doc, options.projection);
+  }
+}
+
+export type MemoryDb = {
+  collection(name: string): MemoryCollection;
+};
+
+// fresh, indexed database for one test; getDb() returns it until the next call
+export async function useMemoryDb(): Promise<MemoryDb> {
+  const collections = new Map<string, MemoryCollection>();
+  const memoryDb: MemoryDb = {
+    collection(name) {
+      let collection = collections.get(name);
+      if (!collection) {
+        collection = new MemoryCollection(name);
+        collections.set(name, collection);
+      }
+      return collection;
+    },
+  };
+
+  setDb(memoryDb);
+  await ensureDbIndexes();
+  return memoryDb;
+}
@@ -1,4 +1,6 @@
 import type { UserRole } from "../db/models";
+import type { OrganizerAccess } from "../utils/organizerTeam";
+import type { ScannerDevice } from "../utils/scannerTokens";
 
 declare global {
   // adding types to the global typescript world, NOT a new module export
@@ -6,7 +8,9 @@ declare global {
     // merge with existing Express namespace
     interface Request {
       // merge with existing Request definition
-      user?: { id: string; role: UserRole }; // req.user is an optional field containing user information (optional because before auth middleware runs, req.user doesn't exist)
+      user?: { id: string; role: UserRole; sessionId: string }; // req.user is an optional field containing user information (optional because before auth middleware runs, req.user doesn't exist); sessionId is the jti of the login session behind the token
+      organizerAccess?: OrganizerAccess; // set by requireOrganizerAccess: the club this request acts for, and whether a team member is acting
+      scannerDevice?: ScannerDevice; // set by requireScannerAccess when a paired gate device calls with its scanner token instead of a login
     }
   }
 }
@@ -0,0 +1,185 @@
+import { ObjectId, type UpdateFilter } from "mongodb";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+import { buildAnnouncementEmail } from "./email";
+import {
+  queueEmail,
+  registerEmailOutboxListener,
+  type StoredOutboxEmailDoc,
+} from "./emailOutbox";
+
+// sending: claimed by a delivery pass and handed to the outbox, which reports back on it
+export type AnnouncementDeliveryStatus = "pending" | "sending" | "sent" | "failed" | "skipped";
+
+export type AnnouncementRecipient = {
+  participationId: ObjectId;
+  userId: ObjectId;
+  email: string;
+  name: string;
+  deliveryStatus: AnnouncementDeliveryStatus;
+  deliveryError?: string;
+  deliveredAt?: Date;
+  // set when a delivery pass claims the recipient; the outbox reports back on it
+  outboxEmailId?: ObjectId;
+};
+
+export type AnnouncementAudience = {
+  statuses: string[];
+  attendance: "any" | "present" | "absent";
+};
+
+export type StoredAnnouncementDoc = {
+  _id: ObjectId;
+  eventId: ObjectId;
+  organizerId: ObjectId;
+  title: string;
+  message: string;
+  audience: AnnouncementAudience;
+  emailEnabled: boolean;
+  recipients: AnnouncementRecipient[];
+  createdAt: Date;
+};
+
+type AnnouncementEventDoc = {
+  _id: ObjectId;
+  name: string;
+};
+
+type AnnouncementOrganizerDoc = {
+  _id: ObjectId;
+  name: string;
+};
+
+export function summarizeAnnouncementDelivery(recipients: AnnouncementRecipient[]) {
+  const summary = { total: recipients.length, pending: 0, sent: 0, failed: 0, skipped: 0 };
+  for (const recipient of recipients) {
+    // sending is still undelivered as far as the organizer is concerned
+    summary[recipient.deliveryStatus === "sending" ? "pending" : recipient.deliveryStatus] += 1;
+  }
+  return summary;
+}
+
+// queues an outbox email for every pending recipient that has none yet; each recipient is claimed
+// first, so passes started by a post and a retry at the same time never email anyone twice.
+// delivery status is updated by the outbox listener below
+export async function deliverAnnouncementEmails(announcementId: ObjectId): Promise<void> {
+  const db = getDb();
+  const announcements = db.collection<StoredAnnouncementDoc>(collections.announcements);
+
+  const announcement = await announcements.findOne({ _id: announcementId });
+  if (!announcement || !announcement.emailEnabled) return;
+
+  const event = await db
+    .collection<AnnouncementEventDoc>(collections.events)
+    .findOne({ _id: announcement.eventId });
+  const organizer = await db
+    .collection<AnnouncementOrganizerDoc>(collections.users)
+    .findOne({ _id: announcement.organizerId });
+
+  for (const recipient of announcement.recipients) {
+    if (recipient.deliveryStatus !== "pending" || recipient.outboxEmailId) continue;
+
+    const outboxEmailId = new ObjectId();
+    const claim = await announcements.updateOne(
+      {
+        _id: announcement._id,
+        recipients: {
+          $elemMatch: {
+            participationId: recipient.participationId,
+            deliveryStatus: "pending",
+            outboxEmailId: { $exists: false },
+          },
+        },
+      },
+      {
+        $set: {
+          "recipients.$[r].deliveryStatus": "sending",
+          "recipients.$[r].outboxEmailId": outboxEmailId,
+        },
+      },
+      { arrayFilters: [{ "r.participationId": recipient.participationId }] },
+    );
+    if (claim.modifiedCount !== 1) continue;
+
+    try {
+      await queueEmail({
+        kind: "announcement",
+        email: buildAnnouncementEmail({
+          toEmail: recipient.email,
+          toName: recipient.name,
+          eventName: event?.name ?? "your event",
+          organizerName: organizer?.name ?? "The organizer",
+          title: announcement.title,
+          message: announcement.message,
+        }),
+        refs: {
+          eventId: announcement.eventId,
+          userId: recipient.userId,
+          participationId: recipient.participationId,
+          announcementId: announcement._id,
+        },
+        id: outboxEmailId,
+      });
+    } catch (err) {
+      // hand the recipient back so the next pass can claim it again
+      await announcements.updateOne(
+        { _id: announcement._id },
+        {
+          $set: { "recipients.$[r].deliveryStatus": "pending" },
+          $unset: { "recipients.$[r].outboxEmailId": "" },
+        },
+        { arrayFilters: [{ "r.outboxEmailId": outboxEmailId }] },
+      );
+      throw err;
+    }
+  }
+}
+
+async function syncRecipientFromOutbox(email: StoredOutboxEmailDoc): Promise<void> {
+  if (!email.refs.announcementId) return;
+
+  let recipientUpdate: UpdateFilter<StoredAnnouncementDoc>;
+  if (email.status === "sent") {
+    recipientUpdate = {
+      $set: {
+        "recipients.$[r].deliveryStatus": "sent",
+        "recipients.$[r].deliveredAt": email.sentAt ?? new Date(),
+      },
+      $unset: { "recipients.$[r].deliveryError": "" },
+    };
+  } else if (email.status === "dead") {
+    recipientUpdate = {
+      $set: {
+        "recipients.$[r].deliveryStatus": "failed",
+        "recipients.$[r].deliveryError": email.lastError ?? "unknown error",
+      },
+    };
+  } else {
+    // requeued from the admin outbox or an organizer retry
+    recipientUpdate = {
+      $set: { "recipients.$[r].deliveryStatus": "pending" },
+      $unset: { "recipients.$[r].deliveryError": "" },
+    };
+  }
+
+  await getDb()
+    .collection<StoredAnnouncementDoc>(collections.announcements)
+    .updateOne({ _id: email.refs.announcementId }, recipientUpdate, {
+      arrayFilters: [{ "r.outboxEmailId": email._id }],
+    });
+}
+
+export function registerAnnouncementEmailListener(): void {
+  registerEmailOutboxListener("announcement", syncRecipientFromOutbox);
+}
+
+export async function deliverAnnouncementEmailsSafe(
+  announcementId: ObjectId,
+): Promise<void> {
+  try {
+    await deliverAnnouncementEmails(announcementId);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "unknown error";
+    console.warn(`announcement email delivery failed: ${message}`);
+  }
+}
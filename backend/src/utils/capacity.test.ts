@@ -0,0 +1,122 @@
+import "../test/env";
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { ObjectId } from "mongodb";
+import { collections } from "../db/collections";
+import { type MemoryDb, useMemoryDb } from "../test/memoryDb";
+import {
+  getEventSeatsTaken,
+  releaseEventSeat,
+  reserveEventSeat,
+  reserveMerchStock,
+  restoreMerchStock,
+} from "./capacity";
+
+describe("event seat counter", () => {
+  let db: MemoryDb;
+  const eventId = new ObjectId();
+
+  beforeEach(async () => {
+    db = await useMemoryDb();
+  });
+
+  it("hands out seats up to regLimit and no further", async () => {
+    await db.collection(collections.events).insertOne({ _id: eventId, regLimit: 2, seatsTaken: 0 });
+
+    assert.equal(await reserveEventSeat(eventId), true);
+    assert.equal(await reserveEventSeat(eventId), true);
+    assert.equal(await reserveEventSeat(eventId), false);
+    assert.equal(await getEventSeatsTaken(eventId), 2);
+  });
+
+  it("lets only regLimit of many simultaneous reservations through", async () => {
+    await db.collection(collections.events).insertOne({ _id: eventId, regLimit: 3, seatsTaken: 0 });
+
+    const results = await Promise.all(Array.from({ length: 10 }, () => reserveEventSeat(eventId)));
+
+    assert.equal(results.filter(Boolean).length, 3);
+    assert.equal(await getEventSeatsTaken(eventId), 3);
+  });
+
+  it("gives released seats back without dropping below zero", async () => {
+    await db.collection(collections.events).insertOne({ _id: eventId, regLimit: 1, seatsTaken: 1 });
+
+    await releaseEventSeat(eventId);
+    await releaseEventSeat(eventId);
+
+    assert.equal(await getEventSeatsTaken(eventId), 0);
+    assert.equal(await reserveEventSeat(eventId), true);
+  });
+
+  it("backfills a missing counter from seat-holding registrations only", async () => {
+    await db.collection(collections.events).insertOne({ _id: eventId, regLimit: 3 });
+    const registrations = db.collection(collections.registrations);
+    for (const status of ["pending", "confirmed", "waitlisted", "cancelled", "rejected"]) {
+      await registrations.insertOne({
+        _id: new ObjectId(),
+        eventId,
+        userId: new ObjectId(),
+        status,
+      });
+    }
+
+    assert.equal(await getEventSeatsTaken(eventId), 2);
+    assert.equal(await reserveEventSeat(eventId), true);
+    assert.equal(await reserveEventSeat(eventId), false);
+  });
+});
+
+describe("merch stock", () => {
+  let db: MemoryDb;
+  const eventId = new ObjectId();
+
+  beforeEach(async () => {
+    db = await useMemoryDb();
+    await db.collection(collections.events).insertOne({
+      _id: eventId,
+      regLimit: 100,
+      merchConfig: {
+        perParticipantLimit: 5,
+        totalStock: 5,
+        variants: [
+          { sku: "TEE-S", stock: 2 },
+          { sku: "TEE-M", stock: 3 },
+        ],
+      },
+    });
+  });
+
+  async function readStock() {
+    const event = await db.collection(collections.events).findOne({ _id: eventId });
+    const merchConfig = event?.merchConfig as {
+      totalStock: number;
+      variants: { sku: string; stock: number }[];
+    };
+    return {
+      total: merchConfig.totalStock,
+      bySku: Object.fromEntries(
+        merchConfig.variants.map((variant) => [variant.sku, variant.stock]),
+      ),
+    };
+  }
+
+  it("takes stock from the ordered variant and the total", async () => {
+    assert.equal(await reserveMerchStock({ eventId, sku: "TEE-M", quantity: 2 }), true);
+
+    assert.deepEqual(await readStock(), { total: 3, bySku: { "TEE-S": 2, "TEE-M": 1 } });
+  });
+
+  it("refuses an order larger than the variant's stock, even with stock elsewhere", async () => {
+    assert.equal(await reserveMerchStock({ eventId, sku: "TEE-S", quantity: 3 }), false);
+    assert.equal(await reserveMerchStock({ eventId, sku: "TEE-XL", quantity: 1 }), false);
+
+    assert.deepEqual(await readStock(), { total: 5, bySku: { "TEE-S": 2, "TEE-M": 3 } });
+  });
+
+  it("puts restored stock back on the same variant", async () => {
+    await reserveMerchStock({ eventId, sku: "TEE-S", quantity: 2 });
+    await restoreMerchStock({ eventId, sku: "TEE-S", quantity: 2 });
+
+    assert.deepEqual(await readStock(), { total: 5, bySku: { "TEE-S": 2, "TEE-M": 3 } });
+  });
+});
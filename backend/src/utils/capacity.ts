@@ -0,0 +1,115 @@
+import type { ObjectId } from "mongodb";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+
+type CapacityEventDoc = {
+  _id: ObjectId;
+  regLimit: number;
+  seatsTaken?: number;
+  merchConfig?:
+    | {
+        variants: { sku: string; stock: number }[];
+        perParticipantLimit: number;
+        totalStock: number;
+      }
+    | undefined;
+};
+
+// statuses that occupy a seat against regLimit (waitlisted entries do not)
+export const seatHoldingParticipationStatuses = ["pending", "confirmed"] as const;
+
+function getEventsCollection() {
+  return getDb().collection<CapacityEventDoc>(collections.events);
+}
+
+// events created before the counter existed get it backfilled once from registrations
+async function ensureSeatCounter(eventId: ObjectId): Promise<void> {
+  const events = getEventsCollection();
+  const existing = await events.findOne(
+    { _id: eventId, seatsTaken: { $exists: false } },
+    { projection: { _id: 1 } },
+  );
+  if (!existing) return;
+
+  const seatsTaken = await getDb()
+    .collection(collections.registrations)
+    .countDocuments({
+      eventId,
+      status: { $in: [...seatHoldingParticipationStatuses] },
+    });
+
+  await events.updateOne(
+    { _id: eventId, seatsTaken: { $exists: false } },
+    { $set: { seatsTaken } },
+  );
+}
+
+export async function getEventSeatsTaken(eventId: ObjectId): Promise<number> {
+  await ensureSeatCounter(eventId);
+  const event = await getEventsCollection().findOne(
+    { _id: eventId },
+    { projection: { seatsTaken: 1 } },
+  );
+  return event?.seatsTaken ?? 0;
+}
+
+// atomically takes one seat; false when the event is already at regLimit
+export async function reserveEventSeat(eventId: ObjectId): Promise<boolean> {
+  await ensureSeatCounter(eventId);
+  const result = await getEventsCollection().updateOne(
+    {
+      _id: eventId,
+      seatsTaken: { $exists: true },
+      $expr: { $lt: ["$seatsTaken", "$regLimit"] },
+    },
+    { $inc: { seatsTaken: 1 } },
+  );
+  return result.modifiedCount === 1;
+}
+
+export async function releaseEventSeat(eventId: ObjectId): Promise<void> {
+  await ensureSeatCounter(eventId);
+  await getEventsCollection().updateOne(
+    { _id: eventId, seatsTaken: { $gt: 0 } },
+    { $inc: { seatsTaken: -1 } },
+  );
+}
+
+// atomically decrements one variant's stock; false when stock is insufficient
+export async function reserveMerchStock(params: {
+  eventId: ObjectId;
+  sku: string;
+  quantity: number;
+}): Promise<boolean> {
+  const result = await getEventsCollection().updateOne(
+    {
+      _id: params.eventId,
+      "merchConfig.variants": {
+        $elemMatch: { sku: params.sku, stock: { $gte: params.quantity } },
+      },
+    },
+    {
+      $inc: {
+        "merchConfig.variants.$.stock": -params.quantity,
+        "merchConfig.totalStock": -params.quantity,
+      },
+    },
+  );
+  return result.modifiedCount === 1;
+}
+
+export async function restoreMerchStock(params: {
+  eventId: ObjectId;
+  sku: string;
+  quantity: number;
+}): Promise<void> {
+  await getEventsCollection().updateOne(
+    { _id: params.eventId, "merchConfig.variants.sku": params.sku },
+    {
+      $inc: {
+        "merchConfig.variants.$.stock": params.quantity,
+        "merchConfig.totalStock": params.quantity,
+      },
+    },
+  );
+}
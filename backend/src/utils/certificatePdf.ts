@@ -0,0 +1,202 @@
+// participation certificate pdfs, rendered on demand from the snapshot stored at issue time
+// so a certificate always looks the same no matter what happens to the event or template later
+import PDFDocument from "pdfkit";
+import type { ObjectId } from "mongodb";
+import QRCode from "qrcode";
+import { env } from "../config/env";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+
+export type CertificateDesign = {
+  title: string;
+  // may contain {participantName} {eventName} {organizerName} {eventDate}
+  body: string;
+  signatoryName: string | null;
+  signatoryTitle: string | null;
+  accentColor: string;
+};
+
+export type StoredCertificateDoc = {
+  _id: ObjectId;
+  code: string;
+  eventId: ObjectId;
+  participationId: ObjectId;
+  userId: ObjectId;
+  organizerId: ObjectId;
+  participantName: string;
+  eventName: string;
+  organizerName: string;
+  eventStartDate: Date;
+  eventEndDate: Date;
+  templateId: ObjectId | null;
+  design: CertificateDesign;
+  issuedAt: Date;
+  // set when a certificate email is queued; the outbox reports back through emailedAt
+  outboxEmailId?: ObjectId;
+  emailedAt?: Date;
+};
+
+// what the pdf needs; previews pass made-up values with the same shape
+export type CertificatePdfInput = Pick<
+  StoredCertificateDoc,
+  | "code"
+  | "participantName"
+  | "eventName"
+  | "organizerName"
+  | "eventStartDate"
+  | "eventEndDate"
+  | "design"
+  | "issuedAt"
+>;
+
+export const certificatePlaceholders = [
+  "participantName",
+  "eventName",
+  "organizerName",
+  "eventDate",
+] as const;
+
+export function buildCertificateVerifyUrl(code: string): string {
+  return `${env.CLIENT_ORIGIN.replace(/\/+$/, "")}/certificates/verify/${encodeURIComponent(code)}`;
+}
+
+function formatDay(value: Date): string {
+  return value.toLocaleDateString("en-IN", { day: "numeric", month: "long", year: "numeric" });
+}
+
+export function formatCertificateEventDate(startDate: Date, endDate: Date): string {
+  const start = formatDay(startDate);
+  const end = formatDay(endDate);
+  return start === end ? start : `${start} - ${end}`;
+}
+
+export function fillCertificateText(template: string, input: CertificatePdfInput): string {
+  const values: Record<(typeof certificatePlaceholders)[number], string> = {
+    participantName: input.participantName,
+    eventName: input.eventName,
+    organizerName: input.organizerName,
+    eventDate: formatCertificateEventDate(input.eventStartDate, input.eventEndDate),
+  };
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? values[key as keyof typeof values] : match,
+  );
+}
+
+export async function renderCertificatePdf(input: CertificatePdfInput): Promise<Buffer> {
+  const verifyUrl = buildCertificateVerifyUrl(input.code);
+  const qrPngBuffer = await QRCode.toBuffer(verifyUrl, {
+    type: "png",
+    width: 240,
+    margin: 1,
+    errorCorrectionLevel: "M",
+  });
+
+  const doc = new PDFDocument({
+    size: "A4",
+    layout: "landscape",
+    margin: 0,
+    info: {
+      Title: `${input.design.title} - ${input.participantName}`,
+      Author: input.organizerName,
+      Subject: input.eventName,
+    },
+  });
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const pageWidth = doc.page.width;
+  const pageHeight = doc.page.height;
+  const accent = input.design.accentColor;
+  const contentX = 80;
+  const contentWidth = pageWidth - contentX * 2;
+
+  doc.rect(24, 24, pageWidth - 48, pageHeight - 48).lineWidth(4).stroke(accent);
+  doc.rect(36, 36, pageWidth - 72, pageHeight - 72).lineWidth(1).stroke(accent);
+
+  doc
+    .fillColor(accent)
+    .font("Helvetica-Bold")
+    .fontSize(30)
+    .text(input.design.title, contentX, 90, { width: contentWidth, align: "center" });
+  doc
+    .fillColor("#555555")
+    .font("Helvetica")
+    .fontSize(13)
+    .text("This is to certify that", contentX, 150, { width: contentWidth, align: "center" });
+  doc
+    .fillColor("#111111")
+    .font("Helvetica-Bold")
+    .fontSize(28)
+    .text(input.participantName, contentX, 178, { width: contentWidth, align: "center" });
+  doc
+    .fillColor("#333333")
+    .font("Helvetica")
+    .fontSize(14)
+    .text(fillCertificateText(input.design.body, input), contentX + 40, 232, {
+      width: contentWidth - 80,
+      align: "center",
+      lineGap: 4,
+    });
+
+  const footerY = pageHeight - 150;
+  if (input.design.signatoryName) {
+    doc
+      .moveTo(contentX, footerY + 20)
+      .lineTo(contentX + 220, footerY + 20)
+      .lineWidth(1)
+      .stroke("#888888");
+    doc
+      .fillColor("#111111")
+      .font("Helvetica-Bold")
+      .fontSize(12)
+      .text(input.design.signatoryName, contentX, footerY + 28, { width: 220, align: "center" });
+    doc
+      .fillColor("#555555")
+      .font("Helvetica")
+      .fontSize(10)
+      .text(
+        input.design.signatoryTitle ?? input.organizerName,
+        contentX,
+        footerY + 44,
+        { width: 220, align: "center" },
+      );
+  }
+
+  doc
+    .fillColor("#555555")
+    .font("Helvetica")
+    .fontSize(10)
+    .text(`Issued ${formatDay(input.issuedAt)} by ${input.organizerName}`, contentX, footerY + 76, {
+      width: 360,
+    });
+
+  const qrSize = 90;
+  const qrX = pageWidth - contentX - qrSize;
+  doc.image(qrPngBuffer, qrX, footerY - 10, { width: qrSize, height: qrSize });
+  doc
+    .fillColor("#111111")
+    .font("Courier-Bold")
+    .fontSize(10)
+    .text(input.code, qrX - 60, footerY + qrSize - 4, { width: qrSize + 60, align: "right" });
+  doc
+    .fillColor("#777777")
+    .font("Helvetica")
+    .fontSize(8)
+    .text("Verify at the link in the QR code", qrX - 90, footerY + qrSize + 10, {
+      width: qrSize + 90,
+      align: "right",
+    });
+
+  doc.end();
+  return finished;
+}
+
+export async function findCertificateByCode(code: string): Promise<StoredCertificateDoc | null> {
+  return getDb()
+    .collection<StoredCertificateDoc>(collections.certificates)
+    .findOne({ code: code.trim().toUpperCase() });
+}
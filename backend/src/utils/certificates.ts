@@ -0,0 +1,336 @@
+// participation certificates: issued once per attended participation of a completed event,
+// with organizer templates for the design and bulk emailing through the outbox
+import crypto from "node:crypto";
+import { ObjectId } from "mongodb";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+import {
+  buildCertificateVerifyUrl,
+  type CertificateDesign,
+  type StoredCertificateDoc,
+} from "./certificatePdf";
+import { buildCertificateEmail } from "./email";
+import {
+  queueEmail,
+  registerEmailOutboxListener,
+  type StoredOutboxEmailDoc,
+} from "./emailOutbox";
+
+export type StoredCertificateTemplateDoc = CertificateDesign & {
+  _id: ObjectId;
+  organizerId: ObjectId;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type CertificateEventDoc = {
+  _id: ObjectId;
+  name: string;
+  organizerId: ObjectId;
+  status: string;
+  startDate: Date;
+  endDate: Date;
+  // null/missing uses DEFAULT_CERTIFICATE_DESIGN
+  certificateTemplateId?: ObjectId | null;
+};
+
+export type CertificateParticipationDoc = {
+  _id: ObjectId;
+  eventId: ObjectId;
+  userId: ObjectId;
+  status: string;
+};
+
+type CertificateUserDoc = {
+  _id: ObjectId;
+  email: string;
+  name: string;
+  firstName?: string;
+  lastName?: string;
+};
+
+export type CertificateEligibility =
+  | { eligible: true; participation: CertificateParticipationDoc }
+  | { eligible: false; reason: string };
+
+export const DEFAULT_CERTIFICATE_DESIGN: CertificateDesign = {
+  title: "Certificate of Participation",
+  body: "has participated in {eventName}, organised by {organizerName} on {eventDate}.",
+  signatoryName: null,
+  signatoryTitle: null,
+  accentColor: "#1f4e79",
+};
+
+// no 0/O/1/I so codes survive being read aloud or retyped from paper
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_GROUPS = 3;
+const CODE_GROUP_LENGTH = 4;
+const MAX_CODE_ATTEMPTS = 5;
+
+function generateCertificateCode(): string {
+  const groups: string[] = [];
+  for (let group = 0; group < CODE_GROUPS; group += 1) {
+    let chunk = "";
+    for (let index = 0; index < CODE_GROUP_LENGTH; index += 1) {
+      chunk += CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)];
+    }
+    groups.push(chunk);
+  }
+  return groups.join("-");
+}
+
+function isDuplicateKeyError(err: unknown): err is { keyPattern?: Record<string, unknown> } {
+  return Boolean(err && typeof err === "object" && "code" in err && err.code === 11000);
+}
+
+function resolveParticipantName(user: CertificateUserDoc | null): string {
+  if (!user) return "Participant";
+  const fullName = `${user.firstName ?? ""} ${user.lastName ?? ""}`.trim();
+  return fullName || user.name;
+}
+
+function toDesign(template: StoredCertificateTemplateDoc): CertificateDesign {
+  return {
+    title: template.title,
+    body: template.body,
+    signatoryName: template.signatoryName,
+    signatoryTitle: template.signatoryTitle,
+    accentColor: template.accentColor,
+  };
+}
+
+// the event's template, falling back to the default when it was never set or has been deleted
+export async function resolveEventCertificateDesign(
+  event: CertificateEventDoc,
+): Promise<{ templateId: ObjectId | null; design: CertificateDesign }> {
+  if (!event.certificateTemplateId) {
+    return { templateId: null, design: DEFAULT_CERTIFICATE_DESIGN };
+  }
+
+  const template = await getDb()
+    .collection<StoredCertificateTemplateDoc>(collections.certificateTemplates)
+    .findOne({ _id: event.certificateTemplateId, organizerId: event.organizerId });
+  return template
+    ? { templateId: template._id, design: toDesign(template) }
+    : { templateId: null, design: DEFAULT_CERTIFICATE_DESIGN };
+}
+
+// completed event + confirmed participation + attendance record, same bar as feedback
+export async function checkCertificateEligibility(params: {
+  event: CertificateEventDoc;
+  userId: ObjectId;
+}): Promise<CertificateEligibility> {
+  if (params.event.status !== "COMPLETED") {
+    return { eligible: false, reason: "Certificates are available once the event is completed" };
+  }
+
+  const db = getDb();
+  const participation = await db
+    .collection<CertificateParticipationDoc>(collections.registrations)
+    .findOne({ eventId: params.event._id, userId: params.userId, status: "confirmed" });
+  if (!participation) {
+    return { eligible: false, reason: "Only confirmed participants receive certificates" };
+  }
+
+  const attendance = await db
+    .collection(collections.attendances)
+    .findOne({ participationId: participation._id }, { projection: { _id: 1 } });
+  if (!attendance) {
+    return { eligible: false, reason: "Only participants who attended receive certificates" };
+  }
+
+  return { eligible: true, participation };
+}
+
+// a certificate stays valid only while its participation does; one rejected or cancelled after
+// the certificate was issued no longer verifies
+export async function isCertificateValid(
+  certificate: Pick<StoredCertificateDoc, "participationId">,
+): Promise<boolean> {
+  const participation = await getDb()
+    .collection<CertificateParticipationDoc>(collections.registrations)
+    .findOne(
+      { _id: certificate.participationId, status: "confirmed" },
+      { projection: { _id: 1 } },
+    );
+  return participation !== null;
+}
+
+// confirmed participations of the event with at least one attendance record
+export async function listCertificateEligibleParticipations(
+  eventId: ObjectId,
+): Promise<CertificateParticipationDoc[]> {
+  const db = getDb();
+  const attendedIds: ObjectId[] = await db
+    .collection(collections.attendances)
+    .distinct("participationId", { eventId });
+  if (attendedIds.length === 0) return [];
+
+  return db
+    .collection<CertificateParticipationDoc>(collections.registrations)
+    .find({ _id: { $in: attendedIds }, eventId, status: "confirmed" })
+    .toArray();
+}
+
+// returns the participation's certificate, issuing it on first use. the design and names are
+// copied in so a later template edit or rename never changes a certificate already handed out
+export async function issueCertificate(params: {
+  event: CertificateEventDoc;
+  participation: CertificateParticipationDoc;
+}): Promise<StoredCertificateDoc> {
+  const certificates = getDb().collection<StoredCertificateDoc>(collections.certificates);
+  const existing = await certificates.findOne({ participationId: params.participation._id });
+  if (existing) return existing;
+
+  const db = getDb();
+  const [participant, organizer, { templateId, design }] = await Promise.all([
+    db
+      .collection<CertificateUserDoc>(collections.users)
+      .findOne({ _id: params.participation.userId }),
+    db
+      .collection<CertificateUserDoc>(collections.users)
+      .findOne({ _id: params.event.organizerId }),
+    resolveEventCertificateDesign(params.event),
+  ]);
+
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt += 1) {
+    const certificate: StoredCertificateDoc = {
+      _id: new ObjectId(),
+      code: generateCertificateCode(),
+      eventId: params.event._id,
+      participationId: params.participation._id,
+      userId: params.participation.userId,
+      organizerId: params.event.organizerId,
+      participantName: resolveParticipantName(participant),
+      eventName: params.event.name,
+      organizerName: organizer?.name ?? "The organizer",
+      eventStartDate: params.event.startDate,
+      eventEndDate: params.event.endDate,
+      templateId,
+      design,
+      issuedAt: new Date(),
+    };
+
+    try {
+      await certificates.insertOne(certificate);
+      return certificate;
+    } catch (err) {
+      if (!isDuplicateKeyError(err)) throw err;
+      // a parallel request issued it first
+      if (err.keyPattern?.participationId) {
+        const issued = await certificates.findOne({
+          participationId: params.participation._id,
+        });
+        if (issued) return issued;
+      }
+      // otherwise the code collided; draw another
+    }
+  }
+
+  throw new Error("Could not generate a unique certificate code");
+}
+
+// issues every missing certificate of the event and queues an email per certificate that has
+// not been emailed yet (or every one with resend)
+export async function emailEventCertificates(params: {
+  event: CertificateEventDoc;
+  resend: boolean;
+}): Promise<{ eligible: number; issued: number; queued: number; skipped: number }> {
+  const db = getDb();
+  const certificates = db.collection<StoredCertificateDoc>(collections.certificates);
+  const participations = await listCertificateEligibleParticipations(params.event._id);
+
+  const existingIds = new Set(
+    (
+      await certificates
+        .find({ eventId: params.event._id }, { projection: { participationId: 1 } })
+        .toArray()
+    ).map((certificate) => certificate.participationId.toString()),
+  );
+
+  const users = await db
+    .collection<CertificateUserDoc>(collections.users)
+    .find({ _id: { $in: participations.map((participation) => participation.userId) } })
+    .toArray();
+  const userById = new Map(users.map((user) => [user._id.toString(), user]));
+
+  const result = { eligible: participations.length, issued: 0, queued: 0, skipped: 0 };
+  for (const participation of participations) {
+    if (!existingIds.has(participation._id.toString())) result.issued += 1;
+    const certificate = await issueCertificate({ event: params.event, participation });
+
+    const user = userById.get(participation.userId.toString());
+    if (!user || (certificate.outboxEmailId && !params.resend)) {
+      result.skipped += 1;
+      continue;
+    }
+
+    const outboxEmailId = await queueEmail({
+      kind: "certificate",
+      email: buildCertificateEmail({
+        toEmail: user.email,
+        toName: resolveParticipantName(user),
+        eventName: certificate.eventName,
+        organizerName: certificate.organizerName,
+        certificateCode: certificate.code,
+        verifyUrl: buildCertificateVerifyUrl(certificate.code),
+      }),
+      refs: {
+        eventId: certificate.eventId,
+        userId: certificate.userId,
+        participationId: certificate.participationId,
+        certificateId: certificate._id,
+      },
+    });
+    await certificates.updateOne({ _id: certificate._id }, { $set: { outboxEmailId } });
+    result.queued += 1;
+  }
+
+  return result;
+}
+
+async function markCertificateEmailed(email: StoredOutboxEmailDoc): Promise<void> {
+  if (!email.refs.certificateId || email.status !== "sent") return;
+
+  await getDb()
+    .collection<StoredCertificateDoc>(collections.certificates)
+    .updateOne(
+      { _id: email.refs.certificateId },
+      { $set: { emailedAt: email.sentAt ?? new Date() } },
+    );
+}
+
+export function registerCertificateEmailListener(): void {
+  registerEmailOutboxListener("certificate", markCertificateEmailed);
+}
+
+export function toCertificateResponse(certificate: StoredCertificateDoc) {
+  return {
+    id: certificate._id.toString(),
+    code: certificate.code,
+    eventId: certificate.eventId.toString(),
+    participantName: certificate.participantName,
+    eventName: certificate.eventName,
+    organizerName: certificate.organizerName,
+    eventStartDate: certificate.eventStartDate,
+    eventEndDate: certificate.eventEndDate,
+    issuedAt: certificate.issuedAt,
+    emailedAt: certificate.emailedAt ?? null,
+    verifyUrl: buildCertificateVerifyUrl(certificate.code),
+  };
+}
+
+export function toCertificateTemplateResponse(template: StoredCertificateTemplateDoc) {
+  return {
+    id: template._id.toString(),
+    name: template.name,
+    title: template.title,
+    body: template.body,
+    signatoryName: template.signatoryName,
+    signatoryTitle: template.signatoryTitle,
+    accentColor: template.accentColor,
+    createdAt: template.createdAt,
+    updatedAt: template.updatedAt,
+  };
+}
@@ -0,0 +1,154 @@
+import type { ObjectId } from "mongodb";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+import type { UserRole } from "../db/models";
+import { seatHoldingParticipationStatuses } from "./capacity";
+
+export type StoredDiscussionMessageDoc = {
+  _id: ObjectId;
+  eventId: ObjectId;
+  authorId: ObjectId;
+  authorRole: "participant" | "organizer";
+  authorName: string;
+  // null for thread starters, thread root id for replies (one level of nesting)
+  parentId: ObjectId | null;
+  content: string;
+  pinned: boolean;
+  pinnedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  lastReplyAt?: Date;
+  replyCount: number;
+  deletedAt?: Date;
+  deletedBy?: ObjectId;
+};
+
+export type StoredDiscussionMuteDoc = {
+  _id: ObjectId;
+  eventId: ObjectId;
+  userId: ObjectId;
+  mutedBy: ObjectId;
+  reason?: string;
+  createdAt: Date;
+};
+
+export type DiscussionAccess = {
+  event: { _id: ObjectId; name: string; organizerId: ObjectId };
+  userId: ObjectId;
+  authorRole: "participant" | "organizer";
+  authorName: string;
+  canModerate: boolean;
+};
+
+type DiscussionEventDoc = {
+  _id: ObjectId;
+  name: string;
+  organizerId: ObjectId;
+  status: "DRAFT" | "PUBLISHED" | "CLOSED" | "COMPLETED";
+};
+
+type DiscussionUserDoc = {
+  _id: ObjectId;
+  name: string;
+  firstName?: string;
+  lastName?: string;
+};
+
+function resolveDisplayName(user: DiscussionUserDoc | null): string {
+  if (!user) return "Unknown";
+  const fullName = `${user.firstName ?? ""} ${user.lastName ?? ""}`.trim();
+  return fullName || user.name;
+}
+
+// owning organizer moderates; participants need a pending/confirmed registration
+export async function loadDiscussionAccess(params: {
+  eventId: ObjectId;
+  userId: ObjectId;
+  role: UserRole;
+}): Promise<DiscussionAccess | null> {
+  const db = getDb();
+  const event = await db
+    .collection<DiscussionEventDoc>(collections.events)
+    .findOne({ _id: params.eventId });
+  if (!event) return null;
+
+  const user = await db
+    .collection<DiscussionUserDoc>(collections.users)
+    .findOne({ _id: params.userId });
+
+  if (params.role === "organizer") {
+    if (!event.organizerId.equals(params.userId)) return null;
+
+    return {
+      event: { _id: event._id, name: event.name, organizerId: event.organizerId },
+      userId: params.userId,
+      authorRole: "organizer",
+      authorName: resolveDisplayName(user),
+      canModerate: true,
+    };
+  }
+
+  if (params.role !== "participant" || event.status === "DRAFT") return null;
+
+  const participation = await db.collection(collections.registrations).findOne(
+    {
+      eventId: event._id,
+      userId: params.userId,
+      status: { $in: [...seatHoldingParticipationStatuses] },
+    },
+    { projection: { _id: 1 } },
+  );
+  if (!participation) return null;
+
+  return {
+    event: { _id: event._id, name: event.name, organizerId: event.organizerId },
+    userId: params.userId,
+    authorRole: "participant",
+    authorName: resolveDisplayName(user),
+    canModerate: false,
+  };
+}
+
+type DiscussionAccessListener = (params: { eventId: ObjectId; userId: ObjectId }) => void;
+
+const discussionAccessListeners: DiscussionAccessListener[] = [];
+
+// the realtime server listens here to take users out of discussions they can no longer read
+export function onDiscussionAccessChanged(listener: DiscussionAccessListener): void {
+  discussionAccessListeners.push(listener);
+}
+
+// called once a participation stops holding its seat (rejected, expired hold, ...)
+export function notifyDiscussionAccessChanged(params: { eventId: ObjectId; userId: ObjectId }): void {
+  for (const listener of discussionAccessListeners) listener(params);
+}
+
+export async function isMutedInDiscussion(params: {
+  eventId: ObjectId;
+  userId: ObjectId;
+}): Promise<boolean> {
+  const mute = await getDb()
+    .collection<StoredDiscussionMuteDoc>(collections.discussionMutes)
+    .findOne({ eventId: params.eventId, userId: params.userId }, { projection: { _id: 1 } });
+  return mute !== null;
+}
+
+export function toDiscussionMessageResponse(message: StoredDiscussionMessageDoc) {
+  const isDeleted = message.deletedAt !== undefined;
+
+  return {
+    id: message._id.toString(),
+    eventId: message.eventId.toString(),
+    parentId: message.parentId ? message.parentId.toString() : null,
+    authorId: message.authorId.toString(),
+    authorRole: message.authorRole,
+    authorName: message.authorName,
+    content: isDeleted ? "" : message.content,
+    pinned: message.pinned,
+    replyCount: message.replyCount,
+    isDeleted,
+    createdAt: message.createdAt,
+    updatedAt: message.updatedAt,
+    lastReplyAt: message.lastReplyAt ?? null,
+  };
+}
@@ -2,15 +2,85 @@ import nodemailer, { type Transporter } from "nodemailer";
 import crypto from "node:crypto";
 import QRCode from "qrcode";
 import { env } from "../config/env";
+import { findCertificateByCode, renderCertificatePdf } from "./certificatePdf";
 import type { TicketEventType } from "./tickets";
 
-type TicketEmailInput = {
+export type TicketEmailInput = {
   toEmail: string;
   toName: string;
   eventName: string;
   eventType: TicketEventType;
   ticketId: string;
   qrPayload: string;
+  // set when an organizer accepted the registration with a note
+  organizerMessage?: string | null;
+};
+
+export type ReminderEmailInput = {
+  toEmail: string;
+  toName: string;
+  eventName: string;
+  startDate: Date;
+  offsetMinutes: number;
+  ticketId: string;
+  qrPayload: string;
+};
+
+export type AnnouncementEmailInput = {
+  toEmail: string;
+  toName: string;
+  eventName: string;
+  organizerName: string;
+  title: string;
+  message: string;
+};
+
+export type PasswordResetEmailInput = {
+  toEmail: string;
+  toName: string;
+  resetUrl: string;
+  expiresInMinutes: number;
+};
+
+export type CertificateEmailInput = {
+  toEmail: string;
+  toName: string;
+  eventName: string;
+  organizerName: string;
+  certificateCode: string;
+  verifyUrl: string;
+};
+
+export type RegistrationRejectedEmailInput = {
+  toEmail: string;
+  toName: string;
+  eventName: string;
+  organizerMessage: string | null;
+};
+
+export type AccountLockoutEmailInput = {
+  toEmail: string;
+  toName: string;
+  lockedUntil: Date;
+  failedAttempts: number;
+  ipAddress: string;
+};
+
+// fully rendered message as stored in the outbox; the qr png and certificate pdf are
+// regenerated at send time
+export type RenderedEmail = {
+  toEmail: string;
+  subject: string;
+  text: string;
+  html: string;
+  qrPayload?: string;
+  certificateCode?: string;
+};
+
+type EmailAttachment = {
+  filename: string;
+  contentType: string;
+  content: Buffer;
 };
 
 let transporter: Transporter | null = null;
@@ -73,6 +143,9 @@ function buildTicketEmailText(input: TicketEmailInput): string {
     "",
     `your ${input.eventType.toLowerCase()} ticket is confirmed for ${input.eventName}.`,
     `ticket id: ${input.ticketId}`,
+    ...(input.organizerMessage
+      ? ["", "message from the organizer:", input.organizerMessage]
+      : []),
     "",
     "ticket qr code is attached in this email.",
     "",
@@ -102,6 +175,11 @@ function buildTicketEmailHtml(input: TicketEmailInput): string {
     <p>hello ${safeName},</p>
     <p>your ${input.eventType.toLowerCase()} ticket is confirmed for <strong>${safeEventName}</strong>.</p>
     <p><strong>ticket id:</strong> ${safeTicketId}</p>
+    ${
+      input.organizerMessage
+        ? `<p><strong>message from the organizer:</strong><br />${escapeHtml(input.organizerMessage).replace(/\r?\n/g, "<br />")}</p>`
+        : ""
+    }
     <p><strong>ticket qr code:</strong></p>
     <p><img src="cid:${TICKET_QR_CID}" alt="ticket qr code" width="220" height="220" /></p>
     <p><strong>qr payload:</strong></p>
@@ -122,6 +200,28 @@ function toMimeCrlf(value: string): string {
   return value.replace(/\r?\n/g, "\r\n");
 }
 
+// subjects carry organizer text: a line break would start a new header, and anything outside
+// printable ASCII has to go out as RFC 2047 encoded words (at most 75 characters each)
+function encodeMimeHeader(value: string): string {
+  const singleLine = value.replace(/[\r\n]+/g, " ").trim();
+  if (!/[^\x20-\x7e]/.test(singleLine)) return singleLine;
+
+  const words: string[] = [];
+  let chunk = "";
+  for (const char of singleLine) {
+    if (chunk && Buffer.byteLength(chunk + char, "utf8") > 45) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += char;
+  }
+  if (chunk) words.push(chunk);
+
+  return words
+    .map((word) => `=?UTF-8?B?${Buffer.from(word, "utf8").toString("base64")}?=`)
+    .join("\r\n ");
+}
+
 function splitBase64Lines(input: string, lineLength = 76): string {
   const chunks: string[] = [];
   for (let index = 0; index < input.length; index += lineLength) {
@@ -130,7 +230,7 @@ function splitBase64Lines(input: string, lineLength = 76): string {
   return chunks.join("\r\n");
 }
 
-async function buildTicketQrPngBuffer(input: TicketEmailInput): Promise<Buffer> {
+async function buildTicketQrPngBuffer(input: { qrPayload: string }): Promise<Buffer> {
   return QRCode.toBuffer(input.qrPayload, {
     type: "png",
     width: 360,
@@ -139,18 +239,24 @@ async function buildTicketQrPngBuffer(input: TicketEmailInput): Promise<Buffer>
   });
 }
 
-function buildGmailRawMessage(input: TicketEmailInput, qrPngBuffer: Buffer): string {
-  const subject = `Felicity Ticket - ${input.eventName}`;
-  const textBody = toMimeCrlf(buildTicketEmailText(input));
-  const htmlBody = toMimeCrlf(buildTicketEmailHtml(input));
+// text + html alternatives with the ticket qr png inlined as cid:ticket-qr-code
+function buildGmailRawMessage(params: {
+  toEmail: string;
+  subject: string;
+  text: string;
+  html: string;
+  qrPngBuffer: Buffer;
+}): string {
+  const textBody = toMimeCrlf(params.text);
+  const htmlBody = toMimeCrlf(params.html);
   const relatedBoundary = `related_${crypto.randomBytes(8).toString("hex")}`;
   const alternativeBoundary = `alt_${crypto.randomBytes(8).toString("hex")}`;
-  const qrPngBase64 = splitBase64Lines(qrPngBuffer.toString("base64"));
+  const qrPngBase64 = splitBase64Lines(params.qrPngBuffer.toString("base64"));
 
   return [
     `From: ${env.SMTP_FROM}`,
-    `To: ${input.toEmail}`,
-    `Subject: ${subject}`,
+    `To: ${params.toEmail}`,
+    `Subject: ${encodeMimeHeader(params.subject)}`,
     "MIME-Version: 1.0",
     `Content-Type: multipart/related; boundary="${relatedBoundary}"`,
     "",
@@ -183,6 +289,84 @@ function buildGmailRawMessage(input: TicketEmailInput, qrPngBuffer: Buffer): str
   ].join("\r\n");
 }
 
+function buildGmailAlternativeMessage(params: {
+  toEmail: string;
+  subject: string;
+  text: string;
+  html: string;
+}): string {
+  const alternativeBoundary = `alt_${crypto.randomBytes(8).toString("hex")}`;
+
+  return [
+    `From: ${env.SMTP_FROM}`,
+    `To: ${params.toEmail}`,
+    `Subject: ${encodeMimeHeader(params.subject)}`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${alternativeBoundary}"`,
+    "",
+    `--${alternativeBoundary}`,
+    'Content-Type: text/plain; charset="UTF-8"',
+    "Content-Transfer-Encoding: 7bit",
+    "",
+    toMimeCrlf(params.text),
+    "",
+    `--${alternativeBoundary}`,
+    'Content-Type: text/html; charset="UTF-8"',
+    "Content-Transfer-Encoding: 7bit",
+    "",
+    toMimeCrlf(params.html),
+    "",
+    `--${alternativeBoundary}--`,
+  ].join("\r\n");
+}
+
+// text + html alternatives followed by one regular file attachment
+function buildGmailMixedMessage(params: {
+  toEmail: string;
+  subject: string;
+  text: string;
+  html: string;
+  attachment: EmailAttachment;
+}): string {
+  const mixedBoundary = `mixed_${crypto.randomBytes(8).toString("hex")}`;
+  const alternativeBoundary = `alt_${crypto.randomBytes(8).toString("hex")}`;
+  const { attachment } = params;
+
+  return [
+    `From: ${env.SMTP_FROM}`,
+    `To: ${params.toEmail}`,
+    `Subject: ${encodeMimeHeader(params.subject)}`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/mixed; boundary="${mixedBoundary}"`,
+    "",
+    `--${mixedBoundary}`,
+    `Content-Type: multipart/alternative; boundary="${alternativeBoundary}"`,
+    "",
+    `--${alternativeBoundary}`,
+    'Content-Type: text/plain; charset="UTF-8"',
+    "Content-Transfer-Encoding: 7bit",
+    "",
+    toMimeCrlf(params.text),
+    "",
+    `--${alternativeBoundary}`,
+    'Content-Type: text/html; charset="UTF-8"',
+    "Content-Transfer-Encoding: 7bit",
+    "",
+    toMimeCrlf(params.html),
+    "",
+    `--${alternativeBoundary}--`,
+    "",
+    `--${mixedBoundary}`,
+    `Content-Type: ${attachment.contentType}; name="${attachment.filename}"`,
+    "Content-Transfer-Encoding: base64",
+    `Content-Disposition: attachment; filename="${attachment.filename}"`,
+    "",
+    splitBase64Lines(attachment.content.toString("base64")),
+    "",
+    `--${mixedBoundary}--`,
+  ].join("\r\n");
+}
+
 async function getGmailAccessToken(config: GmailApiConfig): Promise<string> {
   if (gmailTokenCache && gmailTokenCache.expiresAtMs > Date.now() + 30_000) {
     return gmailTokenCache.accessToken;
@@ -232,13 +416,12 @@ async function getGmailAccessToken(config: GmailApiConfig): Promise<string> {
   return data.access_token;
 }
 
-async function sendTicketEmailViaGmailApi(
-  input: TicketEmailInput,
+async function postGmailRawMessage(
+  rawMessage: string,
   config: GmailApiConfig,
-  qrPngBuffer: Buffer,
 ): Promise<void> {
   const accessToken = await getGmailAccessToken(config);
-  const raw = toBase64Url(buildGmailRawMessage(input, qrPngBuffer));
+  const raw = toBase64Url(rawMessage);
 
   const response = await fetch(
     `https://gmail.googleapis.com/gmail/v1/users/${encodeURIComponent(config.user)}/messages/send`,
@@ -260,39 +443,305 @@ async function sendTicketEmailViaGmailApi(
   }
 }
 
-export async function sendTicketEmail(input: TicketEmailInput): Promise<void> {
-  const qrPngBuffer = await buildTicketQrPngBuffer(input);
+export function buildTicketEmail(input: TicketEmailInput): RenderedEmail {
+  return {
+    toEmail: input.toEmail,
+    subject: `Felicity Ticket - ${input.eventName}`,
+    text: buildTicketEmailText(input),
+    html: buildTicketEmailHtml(input),
+    qrPayload: input.qrPayload,
+  };
+}
+
+function buildAnnouncementEmailText(input: AnnouncementEmailInput): string {
+  return [
+    `hello ${input.toName},`,
+    "",
+    `${input.organizerName} posted an announcement for ${input.eventName}:`,
+    "",
+    input.title,
+    "",
+    input.message,
+  ].join("\n");
+}
+
+function buildAnnouncementEmailHtml(input: AnnouncementEmailInput): string {
+  const safeName = escapeHtml(input.toName);
+  const safeOrganizerName = escapeHtml(input.organizerName);
+  const safeEventName = escapeHtml(input.eventName);
+  const safeTitle = escapeHtml(input.title);
+  const safeMessage = escapeHtml(input.message).replace(/\r?\n/g, "<br />");
+
+  return `
+    <p>hello ${safeName},</p>
+    <p>${safeOrganizerName} posted an announcement for <strong>${safeEventName}</strong>:</p>
+    <h3>${safeTitle}</h3>
+    <p>${safeMessage}</p>
+  `.trim();
+}
+
+export function buildAnnouncementEmail(input: AnnouncementEmailInput): RenderedEmail {
+  return {
+    toEmail: input.toEmail,
+    subject: `Felicity Announcement - ${input.eventName}: ${input.title}`,
+    text: buildAnnouncementEmailText(input),
+    html: buildAnnouncementEmailHtml(input),
+  };
+}
+
+function describeReminderOffset(offsetMinutes: number): string {
+  if (offsetMinutes % 1440 === 0) {
+    const days = offsetMinutes / 1440;
+    return `${days} day${days === 1 ? "" : "s"}`;
+  }
+  if (offsetMinutes % 60 === 0) {
+    const hours = offsetMinutes / 60;
+    return `${hours} hour${hours === 1 ? "" : "s"}`;
+  }
+  return `${offsetMinutes} minute${offsetMinutes === 1 ? "" : "s"}`;
+}
+
+function buildReminderEmailText(input: ReminderEmailInput): string {
+  return [
+    `hello ${input.toName},`,
+    "",
+    `reminder: ${input.eventName} starts in about ${describeReminderOffset(input.offsetMinutes)}.`,
+    `starts at: ${input.startDate.toISOString()}`,
+    `ticket id: ${input.ticketId}`,
+    "",
+    "your ticket qr code is attached in this email.",
+    "",
+    "you can turn off reminders for this event from the event page.",
+  ].join("\n");
+}
+
+function buildReminderEmailHtml(input: ReminderEmailInput): string {
+  const safeName = escapeHtml(input.toName);
+  const safeEventName = escapeHtml(input.eventName);
+  const safeTicketId = escapeHtml(input.ticketId);
+
+  return `
+    <p>hello ${safeName},</p>
+    <p>reminder: <strong>${safeEventName}</strong> starts in about ${describeReminderOffset(input.offsetMinutes)}.</p>
+    <p><strong>starts at:</strong> ${input.startDate.toISOString()}</p>
+    <p><strong>ticket id:</strong> ${safeTicketId}</p>
+    <p><img src="cid:${TICKET_QR_CID}" alt="ticket qr code" width="220" height="220" /></p>
+    <p>you can turn off reminders for this event from the event page.</p>
+  `.trim();
+}
+
+export function buildReminderEmail(input: ReminderEmailInput): RenderedEmail {
+  return {
+    toEmail: input.toEmail,
+    subject: `Felicity Reminder - ${input.eventName}`,
+    text: buildReminderEmailText(input),
+    html: buildReminderEmailHtml(input),
+    qrPayload: input.qrPayload,
+  };
+}
+
+function buildPasswordResetEmailText(input: PasswordResetEmailInput): string {
+  return [
+    `hello ${input.toName},`,
+    "",
+    "we received a request to reset your felicity password.",
+    `open this link within ${input.expiresInMinutes} minutes to choose a new one:`,
+    "",
+    input.resetUrl,
+    "",
+    "the link works once. resetting signs you out on every device.",
+    "if you did not ask for this, you can ignore this email.",
+  ].join("\n");
+}
+
+function buildPasswordResetEmailHtml(input: PasswordResetEmailInput): string {
+  const safeName = escapeHtml(input.toName);
+  const safeUrl = escapeHtml(input.resetUrl);
+
+  return `
+    <p>hello ${safeName},</p>
+    <p>we received a request to reset your felicity password.</p>
+    <p>open this link within ${input.expiresInMinutes} minutes to choose a new one:</p>
+    <p><a href="${safeUrl}">${safeUrl}</a></p>
+    <p>the link works once. resetting signs you out on every device.</p>
+    <p>if you did not ask for this, you can ignore this email.</p>
+  `.trim();
+}
+
+export function buildPasswordResetEmail(input: PasswordResetEmailInput): RenderedEmail {
+  return {
+    toEmail: input.toEmail,
+    subject: "Felicity - Reset your password",
+    text: buildPasswordResetEmailText(input),
+    html: buildPasswordResetEmailHtml(input),
+  };
+}
+
+function buildAccountLockoutEmailText(input: AccountLockoutEmailInput): string {
+  return [
+    `hello ${input.toName},`,
+    "",
+    `your felicity account was locked after ${input.failedAttempts} failed sign-in attempts.`,
+    `the last attempt came from ${input.ipAddress || "an unknown address"}.`,
+    `sign-in is blocked until ${input.lockedUntil.toUTCString()}.`,
+    "",
+    "if this was not you, someone may be guessing your password.",
+    "change it once you can sign in again, and consider turning on two-factor authentication.",
+  ].join("\n");
+}
+
+function buildAccountLockoutEmailHtml(input: AccountLockoutEmailInput): string {
+  const safeName = escapeHtml(input.toName);
+  const safeIp = escapeHtml(input.ipAddress || "an unknown address");
+
+  return `
+    <p>hello ${safeName},</p>
+    <p>your felicity account was locked after ${input.failedAttempts} failed sign-in attempts.</p>
+    <p>the last attempt came from ${safeIp}.</p>
+    <p>sign-in is blocked until ${escapeHtml(input.lockedUntil.toUTCString())}.</p>
+    <p>if this was not you, someone may be guessing your password.
+    change it once you can sign in again, and consider turning on two-factor authentication.</p>
+  `.trim();
+}
+
+export function buildAccountLockoutEmail(input: AccountLockoutEmailInput): RenderedEmail {
+  return {
+    toEmail: input.toEmail,
+    subject: "Felicity - Account locked after failed sign-ins",
+    text: buildAccountLockoutEmailText(input),
+    html: buildAccountLockoutEmailHtml(input),
+  };
+}
+
+function buildRegistrationRejectedEmailText(input: RegistrationRejectedEmailInput): string {
+  return [
+    `hello ${input.toName},`,
+    "",
+    `your registration for ${input.eventName} was not accepted.`,
+    ...(input.organizerMessage
+      ? ["", "message from the organizer:", input.organizerMessage]
+      : []),
+  ].join("\n");
+}
+
+function buildRegistrationRejectedEmailHtml(input: RegistrationRejectedEmailInput): string {
+  const safeName = escapeHtml(input.toName);
+  const safeEventName = escapeHtml(input.eventName);
+  const safeMessage = input.organizerMessage
+    ? escapeHtml(input.organizerMessage).replace(/\r?\n/g, "<br />")
+    : null;
+
+  return `
+    <p>hello ${safeName},</p>
+    <p>your registration for <strong>${safeEventName}</strong> was not accepted.</p>
+    ${safeMessage ? `<p><strong>message from the organizer:</strong><br />${safeMessage}</p>` : ""}
+  `.trim();
+}
+
+export function buildRegistrationRejectedEmail(
+  input: RegistrationRejectedEmailInput,
+): RenderedEmail {
+  return {
+    toEmail: input.toEmail,
+    subject: `Felicity Registration Update - ${input.eventName}`,
+    text: buildRegistrationRejectedEmailText(input),
+    html: buildRegistrationRejectedEmailHtml(input),
+  };
+}
+
+function buildCertificateEmailText(input: CertificateEmailInput): string {
+  return [
+    `hello ${input.toName},`,
+    "",
+    `thank you for attending ${input.eventName}.`,
+    `your participation certificate from ${input.organizerName} is attached as a pdf.`,
+    "",
+    `certificate code: ${input.certificateCode}`,
+    `anyone can check it at ${input.verifyUrl}`,
+  ].join("\n");
+}
+
+function buildCertificateEmailHtml(input: CertificateEmailInput): string {
+  const safeName = escapeHtml(input.toName);
+  const safeEventName = escapeHtml(input.eventName);
+  const safeOrganizerName = escapeHtml(input.organizerName);
+  const safeVerifyUrl = escapeHtml(input.verifyUrl);
+
+  return `
+    <p>hello ${safeName},</p>
+    <p>thank you for attending <strong>${safeEventName}</strong>.</p>
+    <p>your participation certificate from ${safeOrganizerName} is attached as a pdf.</p>
+    <p><strong>certificate code:</strong> ${escapeHtml(input.certificateCode)}</p>
+    <p>anyone can check it at <a href="${safeVerifyUrl}">${safeVerifyUrl}</a></p>
+  `.trim();
+}
+
+export function buildCertificateEmail(input: CertificateEmailInput): RenderedEmail {
+  return {
+    toEmail: input.toEmail,
+    subject: `Felicity Certificate - ${input.eventName}`,
+    text: buildCertificateEmailText(input),
+    html: buildCertificateEmailHtml(input),
+    certificateCode: input.certificateCode,
+  };
+}
+
+async function buildCertificateAttachment(code: string): Promise<EmailAttachment> {
+  const certificate = await findCertificateByCode(code);
+  if (!certificate) {
+    throw new Error(`certificate ${code} no longer exists`);
+  }
+
+  return {
+    filename: `certificate-${certificate.code}.pdf`,
+    contentType: "application/pdf",
+    content: await renderCertificatePdf(certificate),
+  };
+}
+
+// delivers one message over the gmail api when configured, smtp otherwise; throws on failure.
+// only the outbox worker should call this so every send is tracked and retried
+export async function sendRenderedEmail(email: RenderedEmail): Promise<void> {
+  const qrPngBuffer = email.qrPayload
+    ? await buildTicketQrPngBuffer({ qrPayload: email.qrPayload })
+    : null;
+  const attachment = email.certificateCode
+    ? await buildCertificateAttachment(email.certificateCode)
+    : null;
+
   const gmailApiConfig = getGmailApiConfig();
   if (gmailApiConfig) {
-    await sendTicketEmailViaGmailApi(input, gmailApiConfig, qrPngBuffer);
+    await postGmailRawMessage(
+      qrPngBuffer
+        ? buildGmailRawMessage({ ...email, qrPngBuffer })
+        : attachment
+          ? buildGmailMixedMessage({ ...email, attachment })
+          : buildGmailAlternativeMessage(email),
+      gmailApiConfig,
+    );
     return;
   }
 
   const mailer = getTransporter();
   await mailer.sendMail({
     from: env.SMTP_FROM,
-    to: input.toEmail,
-    subject: `Felicity Ticket - ${input.eventName}`,
-    text: buildTicketEmailText(input),
-    html: buildTicketEmailHtml(input),
-    attachments: [
-      {
-        filename: "ticket-qr.png",
-        content: qrPngBuffer,
-        contentType: "image/png",
-        cid: TICKET_QR_CID,
-      },
-    ],
+    to: email.toEmail,
+    subject: email.subject,
+    text: email.text,
+    html: email.html,
+    ...(qrPngBuffer
+      ? {
+          attachments: [
+            {
+              filename: "ticket-qr.png",
+              content: qrPngBuffer,
+              contentType: "image/png",
+              cid: TICKET_QR_CID,
+            },
+          ],
+        }
+      : attachment
+        ? { attachments: [attachment] }
+        : {}),
   });
 }
-
-export async function sendTicketEmailSafe(
-  input: TicketEmailInput,
-): Promise<void> {
-  try {
-    await sendTicketEmail(input);
-  } catch (err) {
-    const message = err instanceof Error ? err.message : "unknown error";
-    console.warn(`ticket email send failed: ${message}`);
-  }
-}
@@ -0,0 +1,287 @@
+// durable outbox: every outgoing email is stored first and delivered by a background worker
+// failed sends retry with exponential backoff and end up "dead" for an admin to inspect and resend
+import { type Filter, ObjectId } from "mongodb";
+import { env } from "../config/env";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+import {
+  buildTicketEmail,
+  type RenderedEmail,
+  sendRenderedEmail,
+  type TicketEmailInput,
+} from "./email";
+
+export const emailOutboxKinds = [
+  "ticket",
+  "announcement",
+  "reminder",
+  "password_reset",
+  "security_alert",
+  "certificate",
+  "registration_rejected",
+] as const;
+export type EmailOutboxKind = (typeof emailOutboxKinds)[number];
+
+export const emailOutboxStatuses = ["queued", "sending", "sent", "dead"] as const;
+export type EmailOutboxStatus = (typeof emailOutboxStatuses)[number];
+
+// what the email belongs to, so listeners can update their own delivery state
+export type EmailOutboxRefs = {
+  eventId?: ObjectId;
+  userId?: ObjectId;
+  participationId?: ObjectId;
+  announcementId?: ObjectId;
+  certificateId?: ObjectId;
+};
+
+export type StoredOutboxEmailDoc = RenderedEmail & {
+  _id: ObjectId;
+  kind: EmailOutboxKind;
+  refs: EmailOutboxRefs;
+  status: EmailOutboxStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lockedUntil?: Date;
+  lastError?: string;
+  lastAttemptAt?: Date;
+  resendCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+  sentAt?: Date;
+  deadAt?: Date;
+};
+
+// called after the worker (or an admin resend) moves an email to a new status
+export type EmailOutboxListener = (email: StoredOutboxEmailDoc) => Promise<void>;
+
+const SEND_LOCK_MS = 2 * 60 * 1000;
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+const MAX_EMAILS_PER_TICK = 100;
+
+const outboxListeners = new Map<EmailOutboxKind, EmailOutboxListener>();
+let outboxTimer: NodeJS.Timeout | null = null;
+let tickInProgress = false;
+
+function getOutboxCollection() {
+  return getDb().collection<StoredOutboxEmailDoc>(collections.emailOutbox);
+}
+
+export function registerEmailOutboxListener(
+  kind: EmailOutboxKind,
+  listener: EmailOutboxListener,
+): void {
+  outboxListeners.set(kind, listener);
+}
+
+async function notifyListener(email: StoredOutboxEmailDoc): Promise<void> {
+  const listener = outboxListeners.get(email.kind);
+  if (!listener) return;
+
+  try {
+    await listener(email);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "unknown error";
+    console.warn(`email outbox listener failed: ${message}`);
+  }
+}
+
+// 30s, 1m, 2m, 4m... capped at an hour
+function getRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+}
+
+export async function queueEmail(params: {
+  kind: EmailOutboxKind;
+  email: RenderedEmail;
+  refs?: EmailOutboxRefs;
+  // lets callers record the id before the email exists, so the outbox can never report on it first
+  id?: ObjectId;
+}): Promise<ObjectId> {
+  const now = new Date();
+  const doc: StoredOutboxEmailDoc = {
+    _id: params.id ?? new ObjectId(),
+    kind: params.kind,
+    refs: params.refs ?? {},
+    toEmail: params.email.toEmail,
+    subject: params.email.subject,
+    text: params.email.text,
+    html: params.email.html,
+    ...(params.email.qrPayload ? { qrPayload: params.email.qrPayload } : {}),
+    ...(params.email.certificateCode
+      ? { certificateCode: params.email.certificateCode }
+      : {}),
+    status: "queued",
+    attempts: 0,
+    nextAttemptAt: now,
+    resendCount: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await getOutboxCollection().insertOne(doc);
+  kickEmailOutbox();
+  return doc._id;
+}
+
+export async function queueTicketEmailSafe(
+  input: TicketEmailInput,
+  refs?: EmailOutboxRefs,
+): Promise<void> {
+  try {
+    await queueEmail({
+      kind: "ticket",
+      email: buildTicketEmail(input),
+      ...(refs ? { refs } : {}),
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "unknown error";
+    console.warn(`ticket email queue failed: ${message}`);
+  }
+}
+
+// puts dead (or still-retrying) emails back at the front of the queue with a fresh attempt budget
+export async function requeueOutboxEmails(
+  filter: Filter<StoredOutboxEmailDoc>,
+): Promise<number> {
+  const outbox = getOutboxCollection();
+  const targets = await outbox
+    .find({ $and: [filter, { status: { $in: ["queued", "dead"] } }] })
+    .toArray();
+
+  let requeued = 0;
+  for (const target of targets) {
+    const now = new Date();
+    const updated = await outbox.findOneAndUpdate(
+      { _id: target._id, status: target.status },
+      {
+        $set: {
+          status: "queued",
+          attempts: 0,
+          nextAttemptAt: now,
+          updatedAt: now,
+        },
+        $inc: { resendCount: 1 },
+        $unset: { deadAt: "", lockedUntil: "" },
+      },
+      { returnDocument: "after" },
+    );
+    if (!updated) continue;
+
+    requeued += 1;
+    await notifyListener(updated);
+  }
+
+  if (requeued > 0) kickEmailOutbox();
+  return requeued;
+}
+
+// atomically leases one due email; expired leases (crashed sends) are picked up again
+async function claimDueEmail(now: Date): Promise<StoredOutboxEmailDoc | null> {
+  return getOutboxCollection().findOneAndUpdate(
+    {
+      $or: [
+        { status: "queued", nextAttemptAt: { $lte: now } },
+        { status: "sending", lockedUntil: { $lt: now } },
+      ],
+    },
+    {
+      $set: {
+        status: "sending",
+        lockedUntil: new Date(now.getTime() + SEND_LOCK_MS),
+        lastAttemptAt: now,
+        updatedAt: now,
+      },
+      $inc: { attempts: 1 },
+    },
+    { sort: { nextAttemptAt: 1 }, returnDocument: "after" },
+  );
+}
+
+async function deliverEmail(email: StoredOutboxEmailDoc): Promise<void> {
+  const outbox = getOutboxCollection();
+
+  try {
+    await sendRenderedEmail(email);
+
+    const sentAt = new Date();
+    const updated = await outbox.findOneAndUpdate(
+      { _id: email._id, status: "sending" },
+      {
+        $set: { status: "sent", sentAt, updatedAt: sentAt },
+        $unset: { lockedUntil: "", lastError: "" },
+      },
+      { returnDocument: "after" },
+    );
+    if (updated) await notifyListener(updated);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "unknown error";
+    const failedAt = new Date();
+    const exhausted = email.attempts >= env.EMAIL_OUTBOX_MAX_ATTEMPTS;
+
+    console.warn(`email ${email._id.toString()} (${email.kind}) failed: ${message}`);
+    const updated = await outbox.findOneAndUpdate(
+      { _id: email._id, status: "sending" },
+      {
+        $set: {
+          status: exhausted ? "dead" : "queued",
+          lastError: message,
+          updatedAt: failedAt,
+          ...(exhausted
+            ? { deadAt: failedAt }
+            : {
+                nextAttemptAt: new Date(
+                  failedAt.getTime() + getRetryDelayMs(email.attempts),
+                ),
+              }),
+        },
+        $unset: { lockedUntil: "" },
+      },
+      { returnDocument: "after" },
+    );
+    if (updated && exhausted) await notifyListener(updated);
+  }
+}
+
+export async function processEmailOutbox(): Promise<number> {
+  let processed = 0;
+
+  while (processed < MAX_EMAILS_PER_TICK) {
+    const email = await claimDueEmail(new Date());
+    if (!email) break;
+
+    await deliverEmail(email);
+    processed += 1;
+  }
+
+  return processed;
+}
+
+async function runOutboxTick(): Promise<void> {
+  if (tickInProgress) return;
+  tickInProgress = true;
+
+  try {
+    await processEmailOutbox();
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "unknown error";
+    console.warn(`email outbox tick failed: ${message}`);
+  } finally {
+    tickInProgress = false;
+  }
+}
+
+// deliver freshly queued mail right away instead of waiting for the next poll
+function kickEmailOutbox(): void {
+  if (!outboxTimer) return;
+  void runOutboxTick();
+}
+
+export function startEmailOutboxWorker(): void {
+  if (outboxTimer) return;
+
+  outboxTimer = setInterval(() => {
+    void runOutboxTick();
+  }, env.EMAIL_OUTBOX_POLL_INTERVAL_MS);
+  void runOutboxTick();
+}
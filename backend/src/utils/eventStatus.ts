@@ -0,0 +1,103 @@
+import type { ObjectId } from "mongodb";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+import { postEventAnnouncementToDiscordSafe } from "./discord";
+
+export type PersistedEventStatus = "DRAFT" | "PUBLISHED" | "CLOSED" | "COMPLETED";
+export type DisplayEventStatus = PersistedEventStatus | "ONGOING";
+
+type StatusEventFields = {
+  status: PersistedEventStatus;
+  startDate: Date;
+  endDate: Date;
+};
+
+type PublishedEventFields = {
+  name: string;
+  type: "NORMAL" | "MERCH";
+  organizerId: ObjectId;
+  regDeadline: Date;
+  startDate: Date;
+  endDate: Date;
+};
+
+type AnnouncingOrganizerDoc = {
+  _id: ObjectId;
+  name: string;
+  role: string;
+  discordWebhookUrl?: string;
+};
+
+export function deriveDisplayStatus(
+  event: StatusEventFields,
+  now: Date,
+): DisplayEventStatus {
+  if (
+    event.status === "PUBLISHED" &&
+    now >= event.startDate &&
+    now <= event.endDate
+  ) {
+    return "ONGOING";
+  }
+
+  return event.status;
+}
+
+// shared by the organizer status route and the background scheduler
+export function validateOrganizerStatusTransition(
+  event: StatusEventFields,
+  nextStatus: PersistedEventStatus,
+  now: Date,
+): string | null {
+  if (event.status === nextStatus) return null;
+
+  if (event.status === "COMPLETED") {
+    return "Completed events cannot change status";
+  }
+
+  if (event.status === "DRAFT") {
+    if (nextStatus !== "PUBLISHED") {
+      return "Draft events can only be moved to PUBLISHED";
+    }
+    return null;
+  }
+
+  if (event.status === "PUBLISHED") {
+    if (nextStatus === "CLOSED") return null;
+
+    if (nextStatus === "COMPLETED") {
+      if (deriveDisplayStatus(event, now) === "ONGOING") return null;
+      return "Only ongoing events can be marked completed";
+    }
+
+    return "Published events can only be moved to CLOSED";
+  }
+
+  if (event.status === "CLOSED") {
+    if (nextStatus !== "COMPLETED") {
+      return "Closed events can only be moved to COMPLETED";
+    }
+    return null;
+  }
+
+  return "Invalid event status transition";
+}
+
+// posts the "new event published" message to the organizer's discord webhook, if configured
+export async function announceEventPublished(event: PublishedEventFields): Promise<void> {
+  const organizer = await getDb()
+    .collection<AnnouncingOrganizerDoc>(collections.users)
+    .findOne({ _id: event.organizerId, role: "organizer" });
+
+  if (!organizer?.discordWebhookUrl) return;
+
+  await postEventAnnouncementToDiscordSafe({
+    webhookUrl: organizer.discordWebhookUrl,
+    organizerName: organizer.name,
+    eventName: event.name,
+    eventType: event.type,
+    regDeadline: event.regDeadline,
+    startDate: event.startDate,
+    endDate: event.endDate,
+  });
+}
@@ -0,0 +1,336 @@
+// team registration for NORMAL events: a leader opens a team, teammates join with its invite
+// code, and pending members are confirmed together once the team reaches its minimum size
+import crypto from "node:crypto";
+import { ObjectId } from "mongodb";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+import { queueTicketEmailSafe } from "./emailOutbox";
+import { buildTicketDoc, type StoredTicketDoc } from "./tickets";
+
+export type EventTeamConfig = {
+  minSize: number;
+  maxSize: number;
+};
+
+export type EventTeamStatus = "forming" | "confirmed";
+
+export type StoredEventTeamDoc = {
+  _id: ObjectId;
+  eventId: ObjectId;
+  name: string;
+  // lowercased name; unique per event
+  nameKey: string;
+  inviteCode: string;
+  leaderId: ObjectId;
+  status: EventTeamStatus;
+  // slots claimed by active members, bounded by maxSize when joining
+  memberCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+  confirmedAt?: Date;
+};
+
+type TeamEventDoc = {
+  _id: ObjectId;
+  name: string;
+  type: "NORMAL" | "MERCH";
+  regFee?: number;
+  teamConfig?: EventTeamConfig | null;
+};
+
+type TeamParticipationDoc = {
+  _id: ObjectId;
+  eventId: ObjectId;
+  userId: ObjectId;
+  status: "pending" | "confirmed" | "waitlisted" | "cancelled" | "rejected";
+  createdAt: Date;
+  updatedAt: Date;
+  ticketId?: string;
+  teamId?: ObjectId;
+};
+
+type TeamPaymentDoc = {
+  _id: ObjectId;
+  registrationId: ObjectId;
+  status: "pending" | "approved" | "rejected";
+};
+
+type TeamUserDoc = {
+  _id: ObjectId;
+  email: string;
+  name: string;
+};
+
+const INVITE_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const INVITE_CODE_LENGTH = 8;
+const MAX_INVITE_CODE_ATTEMPTS = 5;
+
+const activeTeamMemberStatuses = ["pending", "confirmed"] as const;
+
+function generateTeamInviteCode(): string {
+  let code = "";
+  for (let index = 0; index < INVITE_CODE_LENGTH; index += 1) {
+    code += INVITE_CODE_ALPHABET[crypto.randomInt(INVITE_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+export function normalizeTeamInviteCode(code: string): string {
+  return code.trim().toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+function toTeamNameKey(name: string): string {
+  return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+// whether the event takes team registrations; MERCH events never do
+export function getEventTeamConfig(event: TeamEventDoc): EventTeamConfig | null {
+  if (event.type !== "NORMAL") return null;
+  return event.teamConfig ?? null;
+}
+
+function getTeamsCollection() {
+  return getDb().collection<StoredEventTeamDoc>(collections.eventTeams);
+}
+
+function isDuplicateKeyError(err: unknown): err is { keyPattern?: Record<string, unknown> } {
+  return Boolean(err && typeof err === "object" && "code" in err && err.code === 11000);
+}
+
+// opens a team with the leader's slot already taken; null when the event has a team by that name
+export async function createEventTeam(params: {
+  eventId: ObjectId;
+  name: string;
+  leaderId: ObjectId;
+  now?: Date;
+}): Promise<StoredEventTeamDoc | null> {
+  const now = params.now ?? new Date();
+  const name = params.name.trim().replace(/\s+/g, " ");
+
+  for (let attempt = 0; attempt < MAX_INVITE_CODE_ATTEMPTS; attempt += 1) {
+    const team: StoredEventTeamDoc = {
+      _id: new ObjectId(),
+      eventId: params.eventId,
+      name,
+      nameKey: toTeamNameKey(name),
+      inviteCode: generateTeamInviteCode(),
+      leaderId: params.leaderId,
+      status: "forming",
+      memberCount: 1,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    try {
+      await getTeamsCollection().insertOne(team);
+      return team;
+    } catch (err) {
+      if (!isDuplicateKeyError(err)) throw err;
+      if (err.keyPattern && "nameKey" in err.keyPattern) return null;
+    }
+  }
+
+  throw new Error("Could not generate a unique team invite code");
+}
+
+// the leader's registration fell through before it was stored
+export async function discardEventTeam(teamId: ObjectId): Promise<void> {
+  await getTeamsCollection().deleteOne({ _id: teamId });
+}
+
+// atomically takes one member slot; null when the code is unknown or the team is full
+export async function claimEventTeamSlot(params: {
+  eventId: ObjectId;
+  inviteCode: string;
+  maxSize: number;
+  now?: Date;
+}): Promise<StoredEventTeamDoc | null> {
+  return getTeamsCollection().findOneAndUpdate(
+    {
+      eventId: params.eventId,
+      inviteCode: normalizeTeamInviteCode(params.inviteCode),
+      memberCount: { $lt: params.maxSize },
+    },
+    { $inc: { memberCount: 1 }, $set: { updatedAt: params.now ?? new Date() } },
+    { returnDocument: "after" },
+  );
+}
+
+// gives back a member's slot; a departing leader hands the team to the longest-standing member
+export async function releaseEventTeamSlot(participation: {
+  _id: ObjectId;
+  userId: ObjectId;
+  teamId?: ObjectId | undefined;
+}): Promise<void> {
+  if (!participation.teamId) return;
+
+  const teams = getTeamsCollection();
+  const now = new Date();
+  const team = await teams.findOneAndUpdate(
+    { _id: participation.teamId, memberCount: { $gt: 0 } },
+    { $inc: { memberCount: -1 }, $set: { updatedAt: now } },
+    { returnDocument: "after" },
+  );
+  if (!team || !team.leaderId.equals(participation.userId)) return;
+
+  const successor = await getDb()
+    .collection<TeamParticipationDoc>(collections.registrations)
+    .findOne(
+      {
+        teamId: team._id,
+        _id: { $ne: participation._id },
+        status: { $in: [...activeTeamMemberStatuses] },
+      },
+      { sort: { createdAt: 1, _id: 1 } },
+    );
+  if (!successor) return;
+
+  await teams.updateOne(
+    { _id: team._id, leaderId: participation.userId },
+    { $set: { leaderId: successor.userId, updatedAt: now } },
+  );
+}
+
+// confirms a forming team once enough members are in, then confirms and tickets every pending
+// member of a confirmed team. Members of paid teams are left pending for their payment review
+// (see startTeamPaymentHolds). safe to call repeatedly: each member flips from pending only once
+export async function confirmEventTeamIfReady(params: {
+  teamId: ObjectId;
+  now?: Date;
+}): Promise<ObjectId[]> {
+  const db = getDb();
+  const teams = getTeamsCollection();
+  const events = db.collection<TeamEventDoc>(collections.events);
+  const participations = db.collection<TeamParticipationDoc>(collections.registrations);
+  const tickets = db.collection<StoredTicketDoc>(collections.tickets);
+  const payments = db.collection<TeamPaymentDoc>(collections.payments);
+  const users = db.collection<TeamUserDoc>(collections.users);
+
+  const now = params.now ?? new Date();
+  const team = await teams.findOne({ _id: params.teamId });
+  if (!team) return [];
+
+  const event = await events.findOne({ _id: team.eventId });
+  const teamConfig = event ? getEventTeamConfig(event) : null;
+  if (!event || !teamConfig) return [];
+
+  if (team.status === "forming") {
+    const activeMembers = await participations.countDocuments({
+      teamId: team._id,
+      status: { $in: [...activeTeamMemberStatuses] },
+    });
+    if (activeMembers < teamConfig.minSize) return [];
+
+    await teams.updateOne(
+      { _id: team._id, status: "forming" },
+      { $set: { status: "confirmed", confirmedAt: now, updatedAt: now } },
+    );
+  }
+  if ((event.regFee ?? 0) > 0) return [];
+
+  const confirmedIds: ObjectId[] = [];
+  for (;;) {
+    const member = await participations.findOneAndUpdate(
+      { teamId: team._id, status: "pending", ticketId: { $exists: false } },
+      { $set: { status: "confirmed", updatedAt: now } },
+      { sort: { createdAt: 1, _id: 1 }, returnDocument: "after" },
+    );
+    if (!member) break;
+
+    const ticket = buildTicketDoc({
+      eventId: event._id,
+      userId: member.userId,
+      participationId: member._id,
+      eventType: "NORMAL",
+      now,
+    });
+
+    await tickets.insertOne(ticket);
+    await participations.updateOne(
+      { _id: member._id },
+      { $set: { ticketId: ticket.ticketId } },
+    );
+    await payments.updateOne(
+      { registrationId: member._id, status: "pending" },
+      { $set: { status: "approved" } },
+    );
+
+    const participant = await users.findOne({ _id: member.userId });
+    if (participant) {
+      await queueTicketEmailSafe(
+        {
+          toEmail: participant.email,
+          toName: participant.name,
+          eventName: event.name,
+          eventType: event.type,
+          ticketId: ticket.ticketId,
+          qrPayload: ticket.qrPayload,
+        },
+        {
+          eventId: ticket.eventId,
+          userId: ticket.userId,
+          participationId: ticket.participationId,
+        },
+      );
+    }
+
+    confirmedIds.push(member._id);
+  }
+
+  return confirmedIds;
+}
+
+export async function loadEventTeamsByIds(
+  teamIds: ObjectId[],
+): Promise<Map<string, StoredEventTeamDoc>> {
+  if (teamIds.length === 0) return new Map();
+
+  const teams = await getTeamsCollection()
+    .find({ _id: { $in: teamIds } })
+    .toArray();
+  return new Map(teams.map((team) => [team._id.toString(), team]));
+}
+
+// the participant's view of their team: everyone still in it, leader first
+export async function loadEventTeamForMember(teamId: ObjectId) {
+  const db = getDb();
+  const team = await getTeamsCollection().findOne({ _id: teamId });
+  if (!team) return null;
+
+  const event = await db
+    .collection<TeamEventDoc>(collections.events)
+    .findOne({ _id: team.eventId }, { projection: { teamConfig: 1, type: 1, name: 1 } });
+  const teamConfig = event ? getEventTeamConfig(event) : null;
+
+  const members = await db
+    .collection<TeamParticipationDoc>(collections.registrations)
+    .find({ teamId, status: { $in: [...activeTeamMemberStatuses] } })
+    .sort({ createdAt: 1, _id: 1 })
+    .toArray();
+  const users = members.length
+    ? await db
+        .collection<TeamUserDoc>(collections.users)
+        .find({ _id: { $in: members.map((member) => member.userId) } })
+        .toArray()
+    : [];
+  const namesById = new Map(users.map((user) => [user._id.toString(), user.name]));
+
+  return {
+    id: team._id.toString(),
+    name: team.name,
+    inviteCode: team.inviteCode,
+    status: team.status,
+    minSize: teamConfig?.minSize ?? null,
+    maxSize: teamConfig?.maxSize ?? null,
+    confirmedAt: team.confirmedAt ?? null,
+    members: members
+      .map((member) => ({
+        userId: member.userId.toString(),
+        name: namesById.get(member.userId.toString()) ?? "Unknown participant",
+        status: member.status,
+        isLeader: member.userId.equals(team.leaderId),
+        joinedAt: member.createdAt,
+      }))
+      .sort((a, b) => Number(b.isLeader) - Number(a.isLeader)),
+  };
+}
@@ -1,5 +1,5 @@
 // jwt helper functions
-// signJwt --> signs a jwt payload with secret jwt key
+// signJwt --> signs a short-lived access token for a session
 // verifyJwt --> verifies if jwt token decodes to give a valid payload
 import jwt, { JwtPayload } from "jsonwebtoken";
 import { env } from "../config/env";
@@ -9,23 +9,37 @@ import { userRoles } from "../db/models";
 export type AuthJwtPayload = {
   userId: string;
   role: UserRole;
+  // sessions.jti; requireAuth rejects the token once that session is revoked
+  jti: string;
 };
 
 export function signJwt(payload: AuthJwtPayload): string {
-  return jwt.sign(payload, env.JWT_SECRET, { expiresIn: "7d" });
+  return jwt.sign({ userId: payload.userId, role: payload.role }, env.JWT_SECRET, {
+    expiresIn: `${env.ACCESS_TOKEN_TTL_MINUTES}m`,
+    jwtid: payload.jti,
+  });
 }
 
 export function verifyJwt(token: string): AuthJwtPayload {
-  const decoded: string | JwtPayload = jwt.verify(token, env.JWT_SECRET);
+  let decoded: string | JwtPayload;
+  try {
+    decoded = jwt.verify(token, env.JWT_SECRET);
+  } catch {
+    // expired, malformed or badly signed tokens all count as unauthenticated
+    throw new Error("Invalid token");
+  }
 
   if (typeof decoded === "string") throw new Error("Invalid token");
 
   const userId: unknown = decoded.userId;
   const role: unknown = decoded.role;
+  const jti: unknown = decoded.jti;
 
   if (typeof userId !== "string") throw new Error("Invalid token");
   if (typeof role !== "string") throw new Error("Invalid token");
   if (!userRoles.includes(role as UserRole)) throw new Error("Invalid token");
+  // tokens from before server-side sessions have no jti and are no longer accepted
+  if (typeof jti !== "string") throw new Error("Invalid token");
 
-  return { userId, role: role as UserRole };
+  return { userId, role: role as UserRole, jti };
 }
@@ -0,0 +1,125 @@
+import "../test/env";
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { ObjectId } from "mongodb";
+import { env } from "../config/env";
+import { collections } from "../db/collections";
+import { type MemoryDb, useMemoryDb } from "../test/memoryDb";
+import {
+  checkLoginThrottle,
+  clearAccountLoginFailures,
+  recordLoginFailure,
+} from "./loginThrottle";
+
+// an empty ip skips the per-IP counter, so account tests don't trip it
+async function failLogins(email: string, count: number, ip = "") {
+  for (let attempt = 0; attempt < count; attempt += 1) {
+    await recordLoginFailure({ email, ip });
+  }
+}
+
+describe("login throttling", () => {
+  let db: MemoryDb;
+
+  beforeEach(async () => {
+    db = await useMemoryDb();
+  });
+
+  it("lets the first few failures retry straight away", async () => {
+    await failLogins("someone@example.com", 2);
+
+    assert.deepEqual(await checkLoginThrottle({ email: "someone@example.com", ip: "" }), {
+      allowed: true,
+    });
+  });
+
+  it("makes further attempts wait, growing with each failure", async () => {
+    await failLogins("someone@example.com", 3);
+    const first = await checkLoginThrottle({ email: "someone@example.com", ip: "" });
+    await failLogins("someone@example.com", 2);
+    const later = await checkLoginThrottle({ email: "someone@example.com", ip: "" });
+
+    assert.equal(first.allowed, false);
+    assert.equal(later.allowed, false);
+    if (first.allowed || later.allowed) return;
+    assert.equal(first.locked, false);
+    assert.equal(first.retryAfterSeconds, 1);
+    assert.equal(later.retryAfterSeconds, 4);
+  });
+
+  it("locks the account out once it reaches the failure limit", async () => {
+    await failLogins("someone@example.com", env.LOGIN_MAX_FAILURES_PER_ACCOUNT);
+
+    const check = await checkLoginThrottle({ email: "someone@example.com", ip: "" });
+    assert.equal(check.allowed, false);
+    if (check.allowed) return;
+    assert.equal(check.locked, true);
+    assert.ok(check.retryAfterSeconds > env.LOGIN_LOCKOUT_MINUTES * 60 - 5);
+    assert.ok(check.retryAfterSeconds <= env.LOGIN_LOCKOUT_MINUTES * 60);
+  });
+
+  it("doubles the lockout each time the account is locked again", async () => {
+    await failLogins("someone@example.com", env.LOGIN_MAX_FAILURES_PER_ACCOUNT * 2);
+
+    const check = await checkLoginThrottle({ email: "someone@example.com", ip: "" });
+    assert.equal(check.allowed, false);
+    if (check.allowed) return;
+    assert.ok(check.retryAfterSeconds > env.LOGIN_LOCKOUT_MINUTES * 60 * 2 - 5);
+  });
+
+  it("matches accounts regardless of email case and spacing", async () => {
+    await failLogins(" Someone@Example.com", env.LOGIN_MAX_FAILURES_PER_ACCOUNT);
+
+    const check = await checkLoginThrottle({ email: "someone@example.com ", ip: "" });
+    assert.equal(check.allowed, false);
+  });
+
+  it("throttles an address guessing many accounts without touching those accounts", async () => {
+    for (let attempt = 0; attempt < 11; attempt += 1) {
+      await recordLoginFailure({ email: `user${attempt}@example.com`, ip: "203.0.113.7" });
+    }
+
+    const fromAddress = await checkLoginThrottle({ email: "other@example.com", ip: "203.0.113.7" });
+    const elsewhere = await checkLoginThrottle({ email: "user1@example.com", ip: "198.51.100.1" });
+    assert.equal(fromAddress.allowed, false);
+    assert.deepEqual(elsewhere, { allowed: true });
+  });
+
+  it("clears the account counter after a successful sign-in", async () => {
+    await failLogins("someone@example.com", env.LOGIN_MAX_FAILURES_PER_ACCOUNT);
+
+    await clearAccountLoginFailures("Someone@example.com");
+
+    assert.deepEqual(await checkLoginThrottle({ email: "someone@example.com", ip: "" }), {
+      allowed: true,
+    });
+  });
+
+  it("emails organizers about a lockout once, but not participants", async () => {
+    const users = db.collection(collections.users);
+    await users.insertOne({
+      _id: new ObjectId(),
+      email: "organizer@example.com",
+      name: "Organizer",
+      role: "organizer",
+    });
+    await users.insertOne({
+      _id: new ObjectId(),
+      email: "participant@example.com",
+      name: "Participant",
+      role: "participant",
+    });
+
+    await failLogins("organizer@example.com", env.LOGIN_MAX_FAILURES_PER_ACCOUNT + 1);
+    await failLogins("participant@example.com", env.LOGIN_MAX_FAILURES_PER_ACCOUNT);
+
+    const alerts = await db
+      .collection(collections.emailOutbox)
+      .find({ kind: "security_alert" })
+      .toArray();
+    assert.deepEqual(
+      alerts.map((alert) => alert.toEmail),
+      ["organizer@example.com"],
+    );
+  });
+});
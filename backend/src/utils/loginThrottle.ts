@@ -0,0 +1,259 @@
+// failed sign-in counters per account (email) and per client IP, kept in mongo so restarts don't reset them.
+// a few failures add a growing wait before the next attempt; more than the limit locks the key out for a while
+import { ObjectId } from "mongodb";
+import { env } from "../config/env";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+import type { UserDoc } from "../db/models";
+import { buildAccountLockoutEmail } from "./email";
+import { queueEmail } from "./emailOutbox";
+
+export const loginThrottleScopes = ["account", "ip"] as const;
+export type LoginThrottleScope = (typeof loginThrottleScopes)[number];
+
+export type StoredLoginThrottleDoc = {
+  _id: ObjectId;
+  scope: LoginThrottleScope;
+  // normalized email for "account", client address for "ip"
+  key: string;
+  failures: number;
+  firstFailureAt: Date;
+  lastFailureAt: Date;
+  lastIp?: string;
+  nextAttemptAt?: Date;
+  lockedUntil?: Date;
+  // lockouts so far; each one doubles the next lockout
+  lockCount: number;
+  updatedAt: Date;
+  expiresAt: Date;
+};
+
+export type LoginThrottleCheck =
+  | { allowed: true }
+  | { allowed: false; locked: boolean; retryAfterSeconds: number };
+
+type ThrottlePolicy = {
+  maxFailures: number;
+  // failures allowed back to back before the progressive wait starts
+  freeFailures: number;
+};
+
+// failures older than this no longer count towards the limit
+const FAILURE_WINDOW_MS = 60 * 60 * 1000;
+const MAX_DELAY_MS = 60 * 1000;
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+// keep the doc (and its lockCount) around for a while after the last failure
+const RETENTION_MS = 2 * 24 * 60 * 60 * 1000;
+
+function getPolicy(scope: LoginThrottleScope): ThrottlePolicy {
+  return scope === "account"
+    ? { maxFailures: env.LOGIN_MAX_FAILURES_PER_ACCOUNT, freeFailures: 3 }
+    : { maxFailures: env.LOGIN_MAX_FAILURES_PER_IP, freeFailures: 10 };
+}
+
+function getThrottlesCollection() {
+  return getDb().collection<StoredLoginThrottleDoc>(collections.loginThrottles);
+}
+
+export function normalizeLoginEmail(email: string): string {
+  return email.toLowerCase().trim();
+}
+
+// 1s, 2s, 4s... after the free failures, capped at a minute
+function getProgressiveDelayMs(failures: number, policy: ThrottlePolicy): number {
+  if (failures < policy.freeFailures) return 0;
+  return Math.min(1000 * 2 ** (failures - policy.freeFailures), MAX_DELAY_MS);
+}
+
+function getLockoutMs(lockCount: number): number {
+  return Math.min(env.LOGIN_LOCKOUT_MINUTES * 60 * 1000 * 2 ** (lockCount - 1), MAX_LOCKOUT_MS);
+}
+
+function getBlockedUntil(doc: StoredLoginThrottleDoc | null, now: Date): Date | null {
+  if (!doc) return null;
+  if (doc.lockedUntil && doc.lockedUntil > now) return doc.lockedUntil;
+  if (doc.nextAttemptAt && doc.nextAttemptAt > now) return doc.nextAttemptAt;
+  return null;
+}
+
+// run before checking the password so a locked key never gets a guess in
+export async function checkLoginThrottle(params: {
+  email: string;
+  ip: string;
+}): Promise<LoginThrottleCheck> {
+  const now = new Date();
+  const docs = await getThrottlesCollection()
+    .find({
+      $or: [
+        { scope: "account", key: normalizeLoginEmail(params.email) },
+        { scope: "ip", key: params.ip },
+      ],
+    })
+    .toArray();
+
+  let blockedUntil: Date | null = null;
+  let locked = false;
+  for (const doc of docs) {
+    const until = getBlockedUntil(doc, now);
+    if (!until) continue;
+    if (doc.lockedUntil && doc.lockedUntil > now) locked = true;
+    if (!blockedUntil || until > blockedUntil) blockedUntil = until;
+  }
+
+  if (!blockedUntil) return { allowed: true };
+  return {
+    allowed: false,
+    locked,
+    retryAfterSeconds: Math.max(1, Math.ceil((blockedUntil.getTime() - now.getTime()) / 1000)),
+  };
+}
+
+// returns the new lockout end when this failure tipped the key over the limit
+async function recordScopedFailure(params: {
+  scope: LoginThrottleScope;
+  key: string;
+  ip: string;
+  now: Date;
+}): Promise<{ lockedUntil: Date; failures: number } | null> {
+  const throttles = getThrottlesCollection();
+  const policy = getPolicy(params.scope);
+  const { now } = params;
+
+  // start a fresh count once the previous failures have aged out
+  await throttles.updateOne(
+    {
+      scope: params.scope,
+      key: params.key,
+      lastFailureAt: { $lt: new Date(now.getTime() - FAILURE_WINDOW_MS) },
+    },
+    { $set: { failures: 0, firstFailureAt: now }, $unset: { nextAttemptAt: "" } },
+  );
+
+  const doc = await throttles.findOneAndUpdate(
+    { scope: params.scope, key: params.key },
+    {
+      $inc: { failures: 1 },
+      $set: {
+        lastFailureAt: now,
+        lastIp: params.ip,
+        updatedAt: now,
+        expiresAt: new Date(now.getTime() + RETENTION_MS),
+      },
+      $setOnInsert: {
+        _id: new ObjectId(),
+        scope: params.scope,
+        key: params.key,
+        firstFailureAt: now,
+        lockCount: 0,
+      },
+    },
+    { upsert: true, returnDocument: "after" },
+  );
+  if (!doc) return null;
+
+  if (doc.failures >= policy.maxFailures) {
+    const lockCount = doc.lockCount + 1;
+    const lockedUntil = new Date(now.getTime() + getLockoutMs(lockCount));
+    // conditional on the count we saw, so two racing failures lock (and email) only once
+    const result = await throttles.updateOne(
+      { _id: doc._id, failures: doc.failures },
+      {
+        $set: { lockedUntil, lockCount, failures: 0, updatedAt: now },
+        $unset: { nextAttemptAt: "" },
+      },
+    );
+    return result.modifiedCount > 0 ? { lockedUntil, failures: doc.failures } : null;
+  }
+
+  const delayMs = getProgressiveDelayMs(doc.failures, policy);
+  if (delayMs > 0) {
+    await throttles.updateOne(
+      { _id: doc._id },
+      { $set: { nextAttemptAt: new Date(now.getTime() + delayMs) } },
+    );
+  }
+
+  return null;
+}
+
+// admins and organizers hear about lockouts on their account; participants just wait it out
+async function notifyAccountLockout(params: {
+  email: string;
+  ip: string;
+  lockedUntil: Date;
+  failures: number;
+}): Promise<void> {
+  const user = await getDb()
+    .collection<UserDoc>(collections.users)
+    .findOne({ email: params.email, role: { $in: ["admin", "organizer"] } });
+  if (!user) return;
+
+  await queueEmail({
+    kind: "security_alert",
+    email: buildAccountLockoutEmail({
+      toEmail: user.email,
+      toName: user.name,
+      lockedUntil: params.lockedUntil,
+      failedAttempts: params.failures,
+      ipAddress: params.ip,
+    }),
+    refs: { userId: user._id },
+  });
+}
+
+export async function recordLoginFailure(params: { email: string; ip: string }): Promise<void> {
+  const now = new Date();
+  const email = normalizeLoginEmail(params.email);
+
+  const accountLock = await recordScopedFailure({
+    scope: "account",
+    key: email,
+    ip: params.ip,
+    now,
+  });
+  if (params.ip) {
+    await recordScopedFailure({ scope: "ip", key: params.ip, ip: params.ip, now });
+  }
+
+  if (accountLock) {
+    try {
+      await notifyAccountLockout({ email, ip: params.ip, ...accountLock });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "unknown error";
+      console.warn(`lockout email queue failed: ${message}`);
+    }
+  }
+}
+
+// a completed sign-in clears the account counter; the IP counter is left alone so one
+// valid login can't reset an address that is guessing other accounts
+export async function clearAccountLoginFailures(email: string): Promise<void> {
+  await getThrottlesCollection().deleteOne({
+    scope: "account",
+    key: normalizeLoginEmail(email),
+  });
+}
+
+export async function listLoginThrottles(params: {
+  scope?: LoginThrottleScope | undefined;
+  activeOnly: boolean;
+  limit: number;
+}): Promise<StoredLoginThrottleDoc[]> {
+  const now = new Date();
+  return getThrottlesCollection()
+    .find({
+      ...(params.scope ? { scope: params.scope } : {}),
+      ...(params.activeOnly
+        ? { $or: [{ lockedUntil: { $gt: now } }, { nextAttemptAt: { $gt: now } }] }
+        : {}),
+    })
+    .sort({ updatedAt: -1 })
+    .limit(params.limit)
+    .toArray();
+}
+
+export async function clearLoginThrottle(
+  throttleId: ObjectId,
+): Promise<StoredLoginThrottleDoc | null> {
+  return getThrottlesCollection().findOneAndDelete({ _id: throttleId });
+}
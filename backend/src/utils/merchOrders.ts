@@ -0,0 +1,164 @@
+// pending merch orders hold a seat until their payment is resolved; approval takes the stock and
+// issues the ticket, rejection gives the seat back
+import type { ObjectId } from "mongodb";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+import { releaseEventSeat, reserveMerchStock, restoreMerchStock } from "./capacity";
+import { notifyDiscussionAccessChanged } from "./discussion";
+import { queueTicketEmailSafe } from "./emailOutbox";
+import { buildTicketDoc, type StoredTicketDoc } from "./tickets";
+
+type MerchOrderEventDoc = {
+  _id: ObjectId;
+  name: string;
+  type: "NORMAL" | "MERCH";
+  merchConfig?:
+    | {
+        variants: { sku: string; stock: number }[];
+      }
+    | undefined;
+};
+
+type MerchOrderParticipationDoc = {
+  _id: ObjectId;
+  eventId: ObjectId;
+  userId: ObjectId;
+  status: "pending" | "confirmed" | "waitlisted" | "cancelled" | "rejected";
+  updatedAt: Date;
+  ticketId?: string;
+  paymentHoldExpiresAt?: Date;
+  merchPurchase?:
+    | {
+        sku: string;
+        quantity: number;
+      }
+    | undefined;
+};
+
+type MerchOrderPaymentDoc = {
+  _id: ObjectId;
+  registrationId: ObjectId;
+  status: "pending" | "approved" | "rejected";
+};
+
+type MerchOrderUserDoc = {
+  _id: ObjectId;
+  email: string;
+  name: string;
+};
+
+export type MerchOrderApproval = { ticket: StoredTicketDoc } | { error: string };
+
+function getParticipationsCollection() {
+  return getDb().collection<MerchOrderParticipationDoc>(collections.registrations);
+}
+
+// takes the ordered stock and confirms the order; the error explains why it could not be approved
+export async function approveMerchOrder(params: {
+  event: MerchOrderEventDoc;
+  participationId: ObjectId;
+  now?: Date;
+}): Promise<MerchOrderApproval> {
+  const db = getDb();
+  const participations = getParticipationsCollection();
+  const now = params.now ?? new Date();
+
+  const participation = await participations.findOne({
+    _id: params.participationId,
+    eventId: params.event._id,
+  });
+  if (!participation || participation.status !== "pending") {
+    return { error: "Participation is no longer in pending state" };
+  }
+
+  const merchPurchase = participation.merchPurchase;
+  if (!merchPurchase) return { error: "Merch order details are missing" };
+  if (!params.event.merchConfig) return { error: "Merch config is missing for this event" };
+
+  const variant = params.event.merchConfig.variants.find(
+    (entry) => entry.sku === merchPurchase.sku,
+  );
+  if (!variant) return { error: "Merch variant no longer exists for this order" };
+
+  // conditional decrement: two approvals racing for the last units cannot both win
+  const stockReserved = await reserveMerchStock({
+    eventId: params.event._id,
+    sku: merchPurchase.sku,
+    quantity: merchPurchase.quantity,
+  });
+  if (!stockReserved) return { error: "Insufficient stock to approve this order" };
+
+  const ticket = buildTicketDoc({
+    eventId: params.event._id,
+    userId: participation.userId,
+    participationId: participation._id,
+    eventType: "MERCH",
+    now,
+  });
+
+  const transition = await participations.updateOne(
+    { _id: participation._id, status: "pending" },
+    {
+      $set: { status: "confirmed", ticketId: ticket.ticketId, updatedAt: now },
+      $unset: { paymentHoldExpiresAt: "" },
+    },
+  );
+  if (transition.modifiedCount !== 1) {
+    await restoreMerchStock({
+      eventId: params.event._id,
+      sku: merchPurchase.sku,
+      quantity: merchPurchase.quantity,
+    });
+    return { error: "Participation is no longer in pending state" };
+  }
+
+  await db.collection<StoredTicketDoc>(collections.tickets).insertOne(ticket);
+  await db
+    .collection<MerchOrderPaymentDoc>(collections.payments)
+    .updateOne({ registrationId: participation._id, status: "pending" }, { $set: { status: "approved" } });
+
+  const participant = await db
+    .collection<MerchOrderUserDoc>(collections.users)
+    .findOne({ _id: participation.userId });
+  if (participant) {
+    await queueTicketEmailSafe(
+      {
+        toEmail: participant.email,
+        toName: participant.name,
+        eventName: params.event.name,
+        eventType: params.event.type,
+        ticketId: ticket.ticketId,
+        qrPayload: ticket.qrPayload,
+      },
+      {
+        eventId: ticket.eventId,
+        userId: ticket.userId,
+        participationId: ticket.participationId,
+      },
+    );
+  }
+
+  return { ticket };
+}
+
+// rejects a pending order and frees its seat; false when it was already resolved
+export async function rejectMerchOrder(params: {
+  eventId: ObjectId;
+  participationId: ObjectId;
+  now?: Date;
+}): Promise<boolean> {
+  const now = params.now ?? new Date();
+
+  const rejected = await getParticipationsCollection().findOneAndUpdate(
+    { _id: params.participationId, eventId: params.eventId, status: "pending" },
+    { $set: { status: "rejected", updatedAt: now }, $unset: { paymentHoldExpiresAt: "" } },
+  );
+  if (!rejected) return false;
+
+  await getDb()
+    .collection<MerchOrderPaymentDoc>(collections.payments)
+    .updateOne({ registrationId: params.participationId, status: "pending" }, { $set: { status: "rejected" } });
+  await releaseEventSeat(params.eventId);
+  notifyDiscussionAccessChanged({ eventId: params.eventId, userId: rejected.userId });
+  return true;
+}
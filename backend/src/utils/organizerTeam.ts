@@ -0,0 +1,131 @@
+// organizer team members: participant accounts invited to help run a club's events with a limited role.
+// the organizer login itself is the owner and keeps full access
+import { ObjectId } from "mongodb";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+import type { UserDoc } from "../db/models";
+
+export const teamMemberRoles = ["scanner", "finance", "editor"] as const;
+export type TeamMemberRole = (typeof teamMemberRoles)[number];
+
+export const teamMemberStatuses = ["invited", "active"] as const;
+export type TeamMemberStatus = (typeof teamMemberStatuses)[number];
+
+export type StoredTeamMemberDoc = {
+  _id: ObjectId;
+  organizerId: ObjectId;
+  userId: ObjectId;
+  role: TeamMemberRole;
+  status: TeamMemberStatus;
+  invitedAt: Date;
+  acceptedAt?: Date;
+  updatedAt: Date;
+};
+
+// who is acting for a club on an organizer route; teamRole is null for the organizer account itself
+export type OrganizerAccess = {
+  organizerId: ObjectId;
+  actorUserId: ObjectId;
+  teamRole: TeamMemberRole | null;
+};
+
+export type OrganizerAccessResult =
+  | { ok: true; access: OrganizerAccess }
+  | { ok: false; status: 403 | 404; message: string };
+
+function getTeamCollection() {
+  return getDb().collection<StoredTeamMemberDoc>(collections.organizerTeamMembers);
+}
+
+function parseObjectId(rawId: unknown): ObjectId | null {
+  if (typeof rawId !== "string" || !ObjectId.isValid(rawId)) return null;
+  return new ObjectId(rawId);
+}
+
+// event routes find the club through the event; the rest name it with ?organizerId=
+export async function resolveOrganizerAccess(params: {
+  user: { id: string; role: UserDoc["role"] };
+  allowedTeamRoles: readonly TeamMemberRole[];
+  eventId?: unknown;
+  organizerId?: unknown;
+}): Promise<OrganizerAccessResult> {
+  const userId = parseObjectId(params.user.id);
+  if (!userId) return { ok: false, status: 403, message: "Forbidden" };
+
+  if (params.user.role === "organizer") {
+    return { ok: true, access: { organizerId: userId, actorUserId: userId, teamRole: null } };
+  }
+  if (params.user.role !== "participant" || params.allowedTeamRoles.length === 0) {
+    return { ok: false, status: 403, message: "Forbidden" };
+  }
+
+  let organizerId: ObjectId | null = null;
+  if (params.eventId !== undefined) {
+    const eventId = parseObjectId(params.eventId);
+    const event = eventId
+      ? await getDb()
+          .collection<{ _id: ObjectId; organizerId: ObjectId }>(collections.events)
+          .findOne({ _id: eventId }, { projection: { organizerId: 1 } })
+      : null;
+    if (!event) return { ok: false, status: 404, message: "Event not found" };
+    organizerId = event.organizerId;
+  } else {
+    organizerId = parseObjectId(params.organizerId);
+  }
+  if (!organizerId) return { ok: false, status: 403, message: "Forbidden" };
+
+  const membership = await findActiveMembership({
+    organizerId,
+    userId,
+    roles: params.allowedTeamRoles,
+  });
+  if (!membership) return { ok: false, status: 403, message: "Forbidden" };
+
+  return {
+    ok: true,
+    access: { organizerId, actorUserId: userId, teamRole: membership.role },
+  };
+}
+
+export async function findActiveMembership(params: {
+  organizerId: ObjectId;
+  userId: ObjectId;
+  roles: readonly TeamMemberRole[];
+}): Promise<StoredTeamMemberDoc | null> {
+  const membership = await getTeamCollection().findOne({
+    organizerId: params.organizerId,
+    userId: params.userId,
+    status: "active",
+    role: { $in: [...params.roles] },
+  });
+  if (!membership) return null;
+
+  // a disabled club takes its team down with it
+  const organizer = await getDb()
+    .collection<UserDoc>(collections.users)
+    .findOne({ _id: params.organizerId, role: "organizer" }, { projection: { isDisabled: 1 } });
+  if (!organizer || organizer.isDisabled === true) return null;
+
+  return membership;
+}
+
+export async function listOrganizerTeam(organizerId: ObjectId): Promise<StoredTeamMemberDoc[]> {
+  return getTeamCollection().find({ organizerId }).sort({ invitedAt: 1 }).toArray();
+}
+
+export async function listUserMemberships(userId: ObjectId): Promise<StoredTeamMemberDoc[]> {
+  return getTeamCollection().find({ userId }).sort({ invitedAt: -1 }).toArray();
+}
+
+export function toTeamMemberResponse(member: StoredTeamMemberDoc, user: UserDoc | undefined) {
+  return {
+    id: member._id.toString(),
+    userId: member.userId.toString(),
+    name: user?.name ?? "Unknown participant",
+    email: user?.email ?? null,
+    role: member.role,
+    status: member.status,
+    invitedAt: member.invitedAt,
+    acceptedAt: member.acceptedAt ?? null,
+  };
+}
@@ -0,0 +1,247 @@
+// paid NORMAL registrations hold their seat as pending while an organizer checks the payment proof
+// (team members from the moment their team is confirmed, approval registrations once accepted);
+// approval issues the ticket, rejection or an expired hold gives the seat back
+import type { ObjectId } from "mongodb";
+import { env } from "../config/env";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+import { upsertScheduledJob } from "../scheduler/jobs";
+import { releaseEventSeat } from "./capacity";
+import { notifyDiscussionAccessChanged } from "./discussion";
+import { queueTicketEmailSafe } from "./emailOutbox";
+import { releaseEventTeamSlot, type StoredEventTeamDoc } from "./eventTeams";
+import { buildTicketDoc, type StoredTicketDoc } from "./tickets";
+
+type HoldEventDoc = {
+  _id: ObjectId;
+  name: string;
+  type: "NORMAL" | "MERCH";
+};
+
+type HoldParticipationDoc = {
+  _id: ObjectId;
+  eventId: ObjectId;
+  userId: ObjectId;
+  status: "pending" | "confirmed" | "waitlisted" | "cancelled" | "rejected";
+  updatedAt: Date;
+  ticketId?: string;
+  teamId?: ObjectId;
+  paymentHoldExpiresAt?: Date;
+  paymentHoldExpiredAt?: Date;
+  // approval events: the organizer's note from accepting the registration
+  review?: { message: string | null };
+};
+
+type HoldPaymentDoc = {
+  _id: ObjectId;
+  registrationId: ObjectId;
+  status: "pending" | "approved" | "rejected";
+};
+
+type HoldUserDoc = {
+  _id: ObjectId;
+  email: string;
+  name: string;
+};
+
+export type PaymentHoldRelease = "rejected" | "expired";
+
+function getParticipationsCollection() {
+  return getDb().collection<HoldParticipationDoc>(collections.registrations);
+}
+
+export function getPaymentHoldExpiry(now: Date): Date {
+  return new Date(now.getTime() + env.PAYMENT_HOLD_HOURS * 60 * 60 * 1000);
+}
+
+export function isAwaitingPaymentReview(participation: {
+  status: HoldParticipationDoc["status"];
+  paymentHoldExpiresAt?: Date | undefined;
+}): boolean {
+  return participation.status === "pending" && participation.paymentHoldExpiresAt !== undefined;
+}
+
+// points the event's expiry job at its earliest open hold
+export async function schedulePaymentHoldExpiry(eventId: ObjectId): Promise<void> {
+  const next = await getParticipationsCollection().findOne(
+    { eventId, status: "pending", paymentHoldExpiresAt: { $exists: true } },
+    { sort: { paymentHoldExpiresAt: 1 }, projection: { paymentHoldExpiresAt: 1 } },
+  );
+  if (!next?.paymentHoldExpiresAt) return;
+
+  await upsertScheduledJob({
+    type: "payment_hold_expiry",
+    eventId,
+    runAt: next.paymentHoldExpiresAt,
+  });
+}
+
+export async function schedulePaymentHoldExpirySafe(eventId: ObjectId): Promise<void> {
+  try {
+    await schedulePaymentHoldExpiry(eventId);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "unknown error";
+    console.warn(`payment hold scheduling failed: ${message}`);
+  }
+}
+
+// puts the pending members of a confirmed paid team under review, the way individual paid
+// registrations are from the start; returns how many holds were opened
+export async function startTeamPaymentHolds(params: {
+  eventId: ObjectId;
+  teamId: ObjectId;
+  now?: Date;
+}): Promise<number> {
+  const now = params.now ?? new Date();
+
+  const team = await getDb()
+    .collection<StoredEventTeamDoc>(collections.eventTeams)
+    .findOne({ _id: params.teamId, status: "confirmed" }, { projection: { _id: 1 } });
+  if (!team) return 0;
+
+  const held = await getParticipationsCollection().updateMany(
+    {
+      eventId: params.eventId,
+      teamId: params.teamId,
+      status: "pending",
+      ticketId: { $exists: false },
+      paymentHoldExpiresAt: { $exists: false },
+    },
+    { $set: { paymentHoldExpiresAt: getPaymentHoldExpiry(now), updatedAt: now } },
+  );
+  if (held.modifiedCount > 0) await schedulePaymentHoldExpirySafe(params.eventId);
+  return held.modifiedCount;
+}
+
+// confirms a held registration and issues its ticket; null when the hold was already resolved
+export async function approveRegistrationPayment(params: {
+  event: HoldEventDoc;
+  participationId: ObjectId;
+  now?: Date;
+}): Promise<StoredTicketDoc | null> {
+  const db = getDb();
+  const participations = getParticipationsCollection();
+  const now = params.now ?? new Date();
+
+  const approved = await participations.findOneAndUpdate(
+    {
+      _id: params.participationId,
+      eventId: params.event._id,
+      status: "pending",
+      paymentHoldExpiresAt: { $exists: true },
+    },
+    { $set: { status: "confirmed", updatedAt: now }, $unset: { paymentHoldExpiresAt: "" } },
+    { returnDocument: "after" },
+  );
+  if (!approved) return null;
+
+  const ticket = buildTicketDoc({
+    eventId: params.event._id,
+    userId: approved.userId,
+    participationId: approved._id,
+    eventType: "NORMAL",
+    now,
+  });
+  await db.collection<StoredTicketDoc>(collections.tickets).insertOne(ticket);
+  await participations.updateOne({ _id: approved._id }, { $set: { ticketId: ticket.ticketId } });
+  await db
+    .collection<HoldPaymentDoc>(collections.payments)
+    .updateOne({ registrationId: approved._id, status: "pending" }, { $set: { status: "approved" } });
+
+  const participant = await db
+    .collection<HoldUserDoc>(collections.users)
+    .findOne({ _id: approved.userId });
+  if (participant) {
+    await queueTicketEmailSafe(
+      {
+        toEmail: participant.email,
+        toName: participant.name,
+        eventName: params.event.name,
+        eventType: params.event.type,
+        ticketId: ticket.ticketId,
+        qrPayload: ticket.qrPayload,
+        organizerMessage: approved.review?.message ?? null,
+      },
+      {
+        eventId: ticket.eventId,
+        userId: ticket.userId,
+        participationId: ticket.participationId,
+      },
+    );
+  }
+
+  return ticket;
+}
+
+// rejects a held registration and frees its seat; false when the hold was already resolved.
+// callers promote the waitlist afterwards
+export async function releaseRegistrationPayment(params: {
+  eventId: ObjectId;
+  participationId: ObjectId;
+  reason: PaymentHoldRelease;
+  now?: Date;
+}): Promise<boolean> {
+  const now = params.now ?? new Date();
+
+  const released = await getParticipationsCollection().findOneAndUpdate(
+    {
+      _id: params.participationId,
+      eventId: params.eventId,
+      status: "pending",
+      paymentHoldExpiresAt:
+        params.reason === "expired" ? { $lte: now } : { $exists: true },
+    },
+    {
+      $set: {
+        status: "rejected",
+        updatedAt: now,
+        ...(params.reason === "expired" ? { paymentHoldExpiredAt: now } : {}),
+      },
+      $unset: { paymentHoldExpiresAt: "" },
+    },
+  );
+  if (!released) return false;
+
+  await getDb()
+    .collection<HoldPaymentDoc>(collections.payments)
+    .updateOne({ registrationId: released._id, status: "pending" }, { $set: { status: "rejected" } });
+  await releaseEventTeamSlot(released);
+  await releaseEventSeat(params.eventId);
+  notifyDiscussionAccessChanged({ eventId: params.eventId, userId: released.userId });
+  return true;
+}
+
+// releases every hold of the event that ran out; returns how many, and when the next one runs out
+export async function expirePaymentHolds(params: {
+  eventId: ObjectId;
+  now?: Date;
+}): Promise<{ expired: number; nextExpiry: Date | null }> {
+  const participations = getParticipationsCollection();
+  const now = params.now ?? new Date();
+  let expired = 0;
+
+  for (;;) {
+    const due = await participations.findOne(
+      { eventId: params.eventId, status: "pending", paymentHoldExpiresAt: { $lte: now } },
+      { sort: { paymentHoldExpiresAt: 1 }, projection: { _id: 1 } },
+    );
+    if (!due) break;
+
+    if (
+      await releaseRegistrationPayment({
+        eventId: params.eventId,
+        participationId: due._id,
+        reason: "expired",
+        now,
+      })
+    ) {
+      expired += 1;
+    }
+  }
+
+  const next = await participations.findOne(
+    { eventId: params.eventId, status: "pending", paymentHoldExpiresAt: { $exists: true } },
+    { sort: { paymentHoldExpiresAt: 1 }, projection: { paymentHoldExpiresAt: 1 } },
+  );
+  return { expired, nextExpiry: next?.paymentHoldExpiresAt ?? null };
+}
@@ -0,0 +1,114 @@
+import "../test/env";
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { ObjectId } from "mongodb";
+import { collections } from "../db/collections";
+import { type MemoryDb, useMemoryDb } from "../test/memoryDb";
+import { createRefundRequest, normalizeRefundPolicy, resolveRefundPercent } from "./refunds";
+
+const HOUR_MS = 60 * 60 * 1000;
+const startDate = new Date("2026-06-01T18:00:00Z");
+const hoursBefore = (hours: number) => new Date(startDate.getTime() - hours * HOUR_MS);
+
+const event = {
+  _id: new ObjectId(),
+  startDate,
+  // deliberately unsorted, as organizers may enter them
+  refundPolicy: {
+    tiers: [
+      { hoursBeforeStart: 24, percent: 50 },
+      { hoursBeforeStart: 168, percent: 100 },
+      { hoursBeforeStart: 72, percent: 75 },
+    ],
+  },
+};
+
+describe("normalizeRefundPolicy", () => {
+  it("orders tiers from the earliest cancellation deadline", () => {
+    assert.deepEqual(
+      normalizeRefundPolicy(event.refundPolicy).tiers.map((tier) => tier.hoursBeforeStart),
+      [168, 72, 24],
+    );
+  });
+});
+
+describe("resolveRefundPercent", () => {
+  it("grants the highest tier the cancellation still qualifies for", () => {
+    assert.equal(resolveRefundPercent(event, hoursBefore(200)), 100);
+    assert.equal(resolveRefundPercent(event, hoursBefore(100)), 75);
+    assert.equal(resolveRefundPercent(event, hoursBefore(30)), 50);
+  });
+
+  it("counts a cancellation exactly at a tier boundary towards that tier", () => {
+    assert.equal(resolveRefundPercent(event, hoursBefore(168)), 100);
+    assert.equal(resolveRefundPercent(event, hoursBefore(72)), 75);
+    assert.equal(resolveRefundPercent(event, hoursBefore(24)), 50);
+  });
+
+  it("grants nothing past the last tier, after the start, or without a policy", () => {
+    assert.equal(resolveRefundPercent(event, hoursBefore(23.99)), 0);
+    assert.equal(resolveRefundPercent(event, new Date(startDate.getTime() + HOUR_MS)), 0);
+    assert.equal(resolveRefundPercent({ ...event, refundPolicy: null }, hoursBefore(500)), 0);
+  });
+});
+
+describe("createRefundRequest", () => {
+  let db: MemoryDb;
+  const participation = { _id: new ObjectId(), eventId: event._id, userId: new ObjectId() };
+
+  beforeEach(async () => {
+    db = await useMemoryDb();
+  });
+
+  async function approvePayment(amount: number) {
+    await db.collection(collections.payments).insertOne({
+      _id: new ObjectId(),
+      registrationId: participation._id,
+      amount,
+      status: "approved",
+    });
+  }
+
+  it("refunds the policy share of the approved payment, rounded to cents", async () => {
+    await approvePayment(99.99);
+
+    const request = await createRefundRequest({ event, participation, now: hoursBefore(30) });
+
+    assert.equal(request?.percent, 50);
+    assert.equal(request?.amount, 50);
+    assert.equal(request?.paymentAmount, 99.99);
+    assert.equal(request?.status, "pending");
+  });
+
+  it("lets the caller override the policy share", async () => {
+    await approvePayment(400);
+
+    const request = await createRefundRequest({
+      event,
+      participation,
+      percent: 100,
+      now: hoursBefore(1),
+    });
+
+    assert.equal(request?.amount, 400);
+  });
+
+  it("opens nothing when the policy grants nothing or no payment was approved", async () => {
+    assert.equal(await createRefundRequest({ event, participation, now: hoursBefore(100) }), null);
+
+    await approvePayment(400);
+    assert.equal(await createRefundRequest({ event, participation, now: hoursBefore(1) }), null);
+    assert.equal(await db.collection(collections.refundRequests).countDocuments(), 0);
+  });
+
+  it("returns the existing request when called twice", async () => {
+    await approvePayment(400);
+
+    const first = await createRefundRequest({ event, participation, now: hoursBefore(100) });
+    const second = await createRefundRequest({ event, participation, now: hoursBefore(30) });
+
+    assert.equal(second?._id.toString(), first?._id.toString());
+    assert.equal(second?.amount, 300);
+    assert.equal(await db.collection(collections.refundRequests).countDocuments(), 1);
+  });
+});
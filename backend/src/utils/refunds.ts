@@ -0,0 +1,195 @@
+// organizer refund policies: cancelling a paid participation opens a refund request for the share the
+// policy grants at that point; organizers (or admins) pay it out and record the reference
+import { ObjectId } from "mongodb";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+
+// the refund applies when cancelling at least hoursBeforeStart hours before the event starts
+export type RefundPolicyTier = {
+  hoursBeforeStart: number;
+  percent: number;
+};
+
+export type RefundPolicy = {
+  tiers: RefundPolicyTier[];
+};
+
+export const refundRequestStatuses = ["pending", "processed"] as const;
+export type RefundRequestStatus = (typeof refundRequestStatuses)[number];
+
+export type StoredRefundRequestDoc = {
+  _id: ObjectId;
+  eventId: ObjectId;
+  participationId: ObjectId;
+  paymentId: ObjectId;
+  userId: ObjectId;
+  // the payment amount and the policy share at cancellation time
+  paymentAmount: number;
+  percent: number;
+  amount: number;
+  status: RefundRequestStatus;
+  requestedAt: Date;
+  processedAt?: Date;
+  processedBy?: ObjectId;
+  reference?: string;
+};
+
+type RefundEventDoc = {
+  _id: ObjectId;
+  startDate: Date;
+  refundPolicy?: RefundPolicy | null;
+};
+
+type RefundParticipationDoc = {
+  _id: ObjectId;
+  eventId: ObjectId;
+  userId: ObjectId;
+};
+
+type RefundPaymentDoc = {
+  _id: ObjectId;
+  registrationId: ObjectId;
+  amount: number;
+  status: "pending" | "approved" | "rejected" | "refunded" | "partially_refunded";
+  refundedAmount?: number;
+  refundedAt?: Date;
+};
+
+function getRefundRequestsCollection() {
+  return getDb().collection<StoredRefundRequestDoc>(collections.refundRequests);
+}
+
+// highest tiers first, so the first tier the cancellation qualifies for wins
+export function normalizeRefundPolicy(policy: RefundPolicy): RefundPolicy {
+  return {
+    tiers: [...policy.tiers].sort((a, b) => b.hoursBeforeStart - a.hoursBeforeStart),
+  };
+}
+
+// share of the payment refunded when cancelling at `now`; 0 without a policy or past every tier
+export function resolveRefundPercent(event: RefundEventDoc, now: Date): number {
+  if (!event.refundPolicy) return 0;
+
+  const hoursBeforeStart = (event.startDate.getTime() - now.getTime()) / (60 * 60 * 1000);
+  const tier = normalizeRefundPolicy(event.refundPolicy).tiers.find(
+    (entry) => hoursBeforeStart >= entry.hoursBeforeStart,
+  );
+  return tier?.percent ?? 0;
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// opens a refund request for a cancelled or rejected participation with an approved payment; null
+// when the policy grants nothing. `percent` overrides the policy, e.g. 100 when the organizer is
+// the one turning the participant away. A repeated call returns the request that already exists
+export async function createRefundRequest(params: {
+  event: RefundEventDoc;
+  participation: RefundParticipationDoc;
+  percent?: number;
+  now?: Date;
+}): Promise<StoredRefundRequestDoc | null> {
+  const now = params.now ?? new Date();
+  const refundRequests = getRefundRequestsCollection();
+
+  const payment = await getDb()
+    .collection<RefundPaymentDoc>(collections.payments)
+    .findOne({ registrationId: params.participation._id, status: "approved" });
+  if (!payment || payment.amount <= 0) return null;
+
+  const percent = params.percent ?? resolveRefundPercent(params.event, now);
+  const amount = roundAmount((payment.amount * percent) / 100);
+  if (amount <= 0) return null;
+
+  const request: StoredRefundRequestDoc = {
+    _id: new ObjectId(),
+    eventId: params.event._id,
+    participationId: params.participation._id,
+    paymentId: payment._id,
+    userId: params.participation.userId,
+    paymentAmount: payment.amount,
+    percent,
+    amount,
+    status: "pending",
+    requestedAt: now,
+  };
+
+  try {
+    await refundRequests.insertOne(request);
+    return request;
+  } catch (err) {
+    if ((err as { code?: number }).code !== 11000) throw err;
+    return refundRequests.findOne({ participationId: params.participation._id });
+  }
+}
+
+// marks a pending request as paid out and moves its payment to refunded or partially_refunded;
+// null when the request was already processed
+export async function processRefundRequest(params: {
+  participationId: ObjectId;
+  reference: string;
+  processedBy: ObjectId;
+  now?: Date;
+}): Promise<StoredRefundRequestDoc | null> {
+  const now = params.now ?? new Date();
+
+  const processed = await getRefundRequestsCollection().findOneAndUpdate(
+    { participationId: params.participationId, status: "pending" },
+    {
+      $set: {
+        status: "processed",
+        processedAt: now,
+        processedBy: params.processedBy,
+        reference: params.reference,
+      },
+    },
+    { returnDocument: "after" },
+  );
+  if (!processed) return null;
+
+  await getDb()
+    .collection<RefundPaymentDoc>(collections.payments)
+    .updateOne(
+      { _id: processed.paymentId },
+      {
+        $set: {
+          status:
+            processed.amount >= processed.paymentAmount ? "refunded" : "partially_refunded",
+          refundedAmount: processed.amount,
+          refundedAt: now,
+        },
+      },
+    );
+
+  return processed;
+}
+
+// money kept from a payment: what was collected minus anything refunded
+export function getRetainedPaymentAmount(payment: {
+  amount: number;
+  status: RefundPaymentDoc["status"];
+  refundedAmount?: number;
+}): number {
+  if (payment.status === "approved") return payment.amount;
+  if (payment.status === "refunded" || payment.status === "partially_refunded") {
+    return roundAmount(payment.amount - (payment.refundedAmount ?? 0));
+  }
+  return 0;
+}
+
+export function toRefundRequestResponse(request: StoredRefundRequestDoc) {
+  return {
+    id: request._id.toString(),
+    eventId: request.eventId.toString(),
+    participationId: request.participationId.toString(),
+    userId: request.userId.toString(),
+    paymentAmount: request.paymentAmount,
+    percent: request.percent,
+    amount: request.amount,
+    status: request.status,
+    requestedAt: request.requestedAt,
+    processedAt: request.processedAt ?? null,
+    reference: request.reference ?? null,
+  };
+}
@@ -0,0 +1,99 @@
+import "../test/env";
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { ObjectId } from "mongodb";
+import { collections } from "../db/collections";
+import { type MemoryDb, useMemoryDb } from "../test/memoryDb";
+import { approveRegistrationPayment } from "./paymentHolds";
+import { reviewRegistration } from "./registrationReview";
+import { ensureTicketSigningKeys } from "./ticketSigning";
+
+const reviewedAt = new Date("2026-03-01T10:00:00Z");
+
+describe("registration review on a paid approval event", () => {
+  let db: MemoryDb;
+  const event = {
+    _id: new ObjectId(),
+    name: "Design Sprint",
+    type: "NORMAL" as const,
+    status: "PUBLISHED",
+    regFee: 200,
+    regLimit: 10,
+    requiresApproval: true,
+    startDate: new Date("2026-04-01T10:00:00Z"),
+    endDate: new Date("2026-04-01T18:00:00Z"),
+  };
+  const participationId = new ObjectId();
+
+  async function readParticipation() {
+    return db.collection(collections.registrations).findOne({ _id: participationId });
+  }
+
+  async function readPaymentStatus() {
+    return (await db.collection(collections.payments).findOne({ registrationId: participationId }))
+      ?.status;
+  }
+
+  beforeEach(async () => {
+    db = await useMemoryDb();
+    await ensureTicketSigningKeys();
+    await db.collection(collections.events).insertOne(event);
+    await db.collection(collections.registrations).insertOne({
+      _id: participationId,
+      eventId: event._id,
+      userId: new ObjectId(),
+      status: "pending",
+      createdAt: reviewedAt,
+      updatedAt: reviewedAt,
+    });
+    await db.collection(collections.payments).insertOne({
+      _id: new ObjectId(),
+      registrationId: participationId,
+      method: "other",
+      amount: event.regFee,
+      status: "pending",
+      createdAt: reviewedAt,
+    });
+  });
+
+  it("accepting opens the payment hold instead of settling the payment", async () => {
+    const outcome = await reviewRegistration({
+      event,
+      participationId,
+      decision: "accept",
+      message: null,
+      reviewedBy: new ObjectId(),
+      now: reviewedAt,
+    });
+
+    assert.equal(outcome, "accepted");
+    const participation = await readParticipation();
+    assert.equal(participation?.status, "pending");
+    assert.equal(participation?.ticketId, undefined);
+    assert.ok(participation?.paymentHoldExpiresAt instanceof Date);
+    assert.equal(await readPaymentStatus(), "pending");
+    assert.equal(
+      await db.collection(collections.tickets).countDocuments({ participationId }),
+      0,
+    );
+  });
+
+  it("issues the ticket once the payment is approved", async () => {
+    await reviewRegistration({
+      event,
+      participationId,
+      decision: "accept",
+      message: null,
+      reviewedBy: new ObjectId(),
+      now: reviewedAt,
+    });
+
+    const ticket = await approveRegistrationPayment({ event, participationId, now: reviewedAt });
+
+    assert.ok(ticket);
+    const participation = await readParticipation();
+    assert.equal(participation?.status, "confirmed");
+    assert.equal(participation?.ticketId, ticket.ticketId);
+    assert.equal(await readPaymentStatus(), "approved");
+  });
+});
@@ -0,0 +1,251 @@
+// selective NORMAL events: registrations wait as pending until an organizer accepts them (ticket
+// issued, or on paid events a payment hold opened for finance) or rejects them; an optional
+// auto-decision settles whatever is still undecided at a set time
+import type { ObjectId } from "mongodb";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+import { releaseEventSeat } from "./capacity";
+import { notifyDiscussionAccessChanged } from "./discussion";
+import { buildRegistrationRejectedEmail } from "./email";
+import { queueEmail, queueTicketEmailSafe } from "./emailOutbox";
+import { getPaymentHoldExpiry, schedulePaymentHoldExpirySafe } from "./paymentHolds";
+import { buildTicketDoc, type StoredTicketDoc } from "./tickets";
+import { promoteWaitlistedParticipationsSafe } from "./waitlist";
+
+export type RegistrationReviewDecision = "accept" | "reject";
+
+export type ApprovalAutoDecision = {
+  at: Date;
+  decision: RegistrationReviewDecision;
+};
+
+export type RegistrationReview = {
+  decision: "accepted" | "rejected";
+  message: string | null;
+  reviewedAt: Date;
+  // null when the event's auto-decision settled it
+  reviewedBy: ObjectId | null;
+};
+
+type ReviewEventDoc = {
+  _id: ObjectId;
+  name: string;
+  type: "NORMAL" | "MERCH";
+  regFee: number;
+  requiresApproval?: boolean;
+  approvalAutoDecision?: ApprovalAutoDecision | null;
+};
+
+type ReviewParticipationDoc = {
+  _id: ObjectId;
+  eventId: ObjectId;
+  userId: ObjectId;
+  status: "pending" | "confirmed" | "waitlisted" | "cancelled" | "rejected";
+  createdAt: Date;
+  updatedAt: Date;
+  ticketId?: string;
+  paymentHoldExpiresAt?: Date;
+  review?: RegistrationReview;
+};
+
+type ReviewPaymentDoc = {
+  _id: ObjectId;
+  registrationId: ObjectId;
+  status: "pending" | "approved" | "rejected";
+};
+
+type ReviewUserDoc = {
+  _id: ObjectId;
+  email: string;
+  name: string;
+};
+
+export type RegistrationReviewOutcome = "accepted" | "rejected" | "not_awaiting_review";
+
+export function eventRequiresApproval(event: ReviewEventDoc): boolean {
+  return event.type === "NORMAL" && event.requiresApproval === true;
+}
+
+// pending registrations of an approval event that nobody has decided on yet
+function awaitingReviewFilter(event: ReviewEventDoc) {
+  return {
+    eventId: event._id,
+    status: "pending" as const,
+    ticketId: { $exists: false },
+    review: { $exists: false },
+  };
+}
+
+export function isAwaitingReview(
+  event: ReviewEventDoc,
+  participation: Pick<ReviewParticipationDoc, "status" | "ticketId" | "review">,
+): boolean {
+  return (
+    eventRequiresApproval(event) &&
+    participation.status === "pending" &&
+    !participation.ticketId &&
+    !participation.review
+  );
+}
+
+// accepts or rejects one registration awaiting review; the status filter keeps a participation
+// from being decided twice when organizers (or the auto-decision) race. accepting a paid
+// registration only opens its payment hold: the ticket follows finance's payment approval
+export async function reviewRegistration(params: {
+  event: ReviewEventDoc;
+  participationId: ObjectId;
+  decision: RegistrationReviewDecision;
+  message: string | null;
+  reviewedBy: ObjectId | null;
+  now?: Date;
+}): Promise<RegistrationReviewOutcome> {
+  const db = getDb();
+  const participations = db.collection<ReviewParticipationDoc>(collections.registrations);
+  const tickets = db.collection<StoredTicketDoc>(collections.tickets);
+  const payments = db.collection<ReviewPaymentDoc>(collections.payments);
+  const users = db.collection<ReviewUserDoc>(collections.users);
+
+  const { event } = params;
+  if (!eventRequiresApproval(event)) return "not_awaiting_review";
+
+  const now = params.now ?? new Date();
+  const review: RegistrationReview = {
+    decision: params.decision === "accept" ? "accepted" : "rejected",
+    message: params.message,
+    reviewedAt: now,
+    reviewedBy: params.reviewedBy,
+  };
+
+  const holdsPayment = params.decision === "accept" && event.regFee > 0;
+  const decided = await participations.findOneAndUpdate(
+    { _id: params.participationId, ...awaitingReviewFilter(event) },
+    {
+      $set: {
+        status: params.decision === "reject" ? "rejected" : holdsPayment ? "pending" : "confirmed",
+        review,
+        updatedAt: now,
+        ...(holdsPayment ? { paymentHoldExpiresAt: getPaymentHoldExpiry(now) } : {}),
+      },
+    },
+    { returnDocument: "after" },
+  );
+  if (!decided) return "not_awaiting_review";
+
+  if (holdsPayment) {
+    await schedulePaymentHoldExpirySafe(event._id);
+    return "accepted";
+  }
+
+  const participant = await users.findOne({ _id: decided.userId });
+
+  if (params.decision === "reject") {
+    await payments.updateOne(
+      { registrationId: decided._id, status: "pending" },
+      { $set: { status: "rejected" } },
+    );
+    await releaseEventSeat(event._id);
+    await promoteWaitlistedParticipationsSafe({ eventId: event._id, now });
+    notifyDiscussionAccessChanged({ eventId: event._id, userId: decided.userId });
+
+    if (participant) {
+      await queueRejectionEmailSafe({
+        toEmail: participant.email,
+        toName: participant.name,
+        eventName: event.name,
+        organizerMessage: params.message,
+        refs: { eventId: event._id, userId: decided.userId, participationId: decided._id },
+      });
+    }
+    return "rejected";
+  }
+
+  const ticket = buildTicketDoc({
+    eventId: event._id,
+    userId: decided.userId,
+    participationId: decided._id,
+    eventType: "NORMAL",
+    now,
+  });
+  await tickets.insertOne(ticket);
+  await participations.updateOne(
+    { _id: decided._id },
+    { $set: { ticketId: ticket.ticketId } },
+  );
+
+  if (participant) {
+    await queueTicketEmailSafe(
+      {
+        toEmail: participant.email,
+        toName: participant.name,
+        eventName: event.name,
+        eventType: event.type,
+        ticketId: ticket.ticketId,
+        qrPayload: ticket.qrPayload,
+        organizerMessage: params.message,
+      },
+      {
+        eventId: ticket.eventId,
+        userId: ticket.userId,
+        participationId: ticket.participationId,
+      },
+    );
+  }
+  return "accepted";
+}
+
+async function queueRejectionEmailSafe(params: {
+  toEmail: string;
+  toName: string;
+  eventName: string;
+  organizerMessage: string | null;
+  refs: { eventId: ObjectId; userId: ObjectId; participationId: ObjectId };
+}): Promise<void> {
+  try {
+    await queueEmail({
+      kind: "registration_rejected",
+      email: buildRegistrationRejectedEmail(params),
+      refs: params.refs,
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "unknown error";
+    console.warn(`registration rejection email queue failed: ${message}`);
+  }
+}
+
+// applies the event's auto-decision to every registration still awaiting review, oldest first.
+// auto-rejecting frees seats and promotes the waitlist; promoted entries are decided in turn
+export async function applyApprovalAutoDecision(params: {
+  eventId: ObjectId;
+  now?: Date;
+}): Promise<{ decision: RegistrationReviewDecision; decided: number } | null> {
+  const db = getDb();
+  const event = await db
+    .collection<ReviewEventDoc>(collections.events)
+    .findOne({ _id: params.eventId });
+  if (!event || !eventRequiresApproval(event) || !event.approvalAutoDecision) return null;
+
+  const participations = db.collection<ReviewParticipationDoc>(collections.registrations);
+  const { decision } = event.approvalAutoDecision;
+  const now = params.now ?? new Date();
+  let decided = 0;
+
+  for (;;) {
+    const next = await participations.findOne(awaitingReviewFilter(event), {
+      sort: { createdAt: 1, _id: 1 },
+      projection: { _id: 1 },
+    });
+    if (!next) break;
+
+    const outcome = await reviewRegistration({
+      event,
+      participationId: next._id,
+      decision,
+      message: null,
+      reviewedBy: null,
+      now,
+    });
+    if (outcome !== "not_awaiting_review") decided += 1;
+  }
+
+  return { decision, decided };
+}
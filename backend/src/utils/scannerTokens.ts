@@ -0,0 +1,157 @@
+// event-scoped scanner tokens for gate devices: a paired phone can scan and look up tickets for one
+// event without an organizer login, until the event ends or the organizer revokes the token
+import crypto from "node:crypto";
+import { ObjectId } from "mongodb";
+import { env } from "../config/env";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+import type { UserDoc } from "../db/models";
+
+export const SCANNER_TOKEN_HEADER = "x-scanner-token";
+
+export type StoredScannerTokenDoc = {
+  _id: ObjectId;
+  eventId: ObjectId;
+  organizerId: ObjectId;
+  // device name shown in the audit trail, e.g. "Gate 2 phone"
+  label: string;
+  tokenHash: string;
+  createdByUserId: ObjectId;
+  createdAt: Date;
+  lastUsedAt?: Date;
+  lastIp?: string;
+  revokedAt?: Date;
+  revokedByUserId?: ObjectId;
+};
+
+// the paired device behind a request; set instead of req.user
+export type ScannerDevice = {
+  tokenId: ObjectId;
+  eventId: ObjectId;
+  organizerId: ObjectId;
+  label: string;
+};
+
+export type ScannerTokenResolution =
+  | { ok: true; device: ScannerDevice }
+  | { ok: false; status: 401 | 403; message: string };
+
+// lastUsedAt only feeds the device list, not worth a write on every scan
+const LAST_USED_WRITE_INTERVAL_MS = 60 * 1000;
+
+function getScannerTokensCollection() {
+  return getDb().collection<StoredScannerTokenDoc>(collections.scannerTokens);
+}
+
+function hashScannerToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// the raw token only travels in the url fragment, so it never shows up in server logs
+export function buildScannerPairingUrl(token: string): string {
+  return `${env.CLIENT_ORIGIN.replace(/\/+$/, "")}/scanner#token=${token}`;
+}
+
+export async function issueScannerToken(params: {
+  eventId: ObjectId;
+  organizerId: ObjectId;
+  label: string;
+  createdByUserId: ObjectId;
+}): Promise<{ doc: StoredScannerTokenDoc; token: string }> {
+  const token = crypto.randomBytes(32).toString("base64url");
+  const doc: StoredScannerTokenDoc = {
+    _id: new ObjectId(),
+    eventId: params.eventId,
+    organizerId: params.organizerId,
+    label: params.label,
+    tokenHash: hashScannerToken(token),
+    createdByUserId: params.createdByUserId,
+    createdAt: new Date(),
+  };
+  await getScannerTokensCollection().insertOne(doc);
+  return { doc, token };
+}
+
+// a token stops working once revoked, once its event has ended, or while the club is disabled.
+// pass eventId to also require the token to belong to that event
+export async function resolveScannerToken(params: {
+  token: unknown;
+  eventId?: unknown;
+  ip: string;
+}): Promise<ScannerTokenResolution> {
+  if (typeof params.token !== "string" || params.token.trim().length === 0) {
+    return { ok: false, status: 401, message: "Invalid or expired scanner token" };
+  }
+
+  const tokens = getScannerTokensCollection();
+  const doc = await tokens.findOne({ tokenHash: hashScannerToken(params.token.trim()) });
+  if (!doc || doc.revokedAt) {
+    return { ok: false, status: 401, message: "Invalid or expired scanner token" };
+  }
+
+  const db = getDb();
+  const [event, organizer] = await Promise.all([
+    db
+      .collection<{ _id: ObjectId; organizerId: ObjectId; endDate: Date }>(collections.events)
+      .findOne({ _id: doc.eventId, organizerId: doc.organizerId }, { projection: { endDate: 1 } }),
+    db
+      .collection<UserDoc>(collections.users)
+      .findOne({ _id: doc.organizerId, role: "organizer" }, { projection: { isDisabled: 1 } }),
+  ]);
+  const now = new Date();
+  if (!event || event.endDate <= now || !organizer || organizer.isDisabled === true) {
+    return { ok: false, status: 401, message: "Invalid or expired scanner token" };
+  }
+
+  if (params.eventId !== undefined) {
+    const eventId =
+      typeof params.eventId === "string" && ObjectId.isValid(params.eventId)
+        ? new ObjectId(params.eventId)
+        : null;
+    if (!eventId || !eventId.equals(doc.eventId)) {
+      return { ok: false, status: 403, message: "Scanner token is not valid for this event" };
+    }
+  }
+
+  if (!doc.lastUsedAt || now.getTime() - doc.lastUsedAt.getTime() > LAST_USED_WRITE_INTERVAL_MS) {
+    await tokens.updateOne({ _id: doc._id }, { $set: { lastUsedAt: now, lastIp: params.ip } });
+  }
+
+  return {
+    ok: true,
+    device: {
+      tokenId: doc._id,
+      eventId: doc.eventId,
+      organizerId: doc.organizerId,
+      label: doc.label,
+    },
+  };
+}
+
+export async function listScannerTokens(eventId: ObjectId): Promise<StoredScannerTokenDoc[]> {
+  return getScannerTokensCollection().find({ eventId }).sort({ createdAt: -1 }).toArray();
+}
+
+export async function revokeScannerToken(params: {
+  eventId: ObjectId;
+  tokenId: ObjectId;
+  revokedByUserId: ObjectId;
+}): Promise<StoredScannerTokenDoc | null> {
+  return getScannerTokensCollection().findOneAndUpdate(
+    { _id: params.tokenId, eventId: params.eventId, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date(), revokedByUserId: params.revokedByUserId } },
+    { returnDocument: "after" },
+  );
+}
+
+export function toScannerTokenResponse(doc: StoredScannerTokenDoc) {
+  return {
+    id: doc._id.toString(),
+    eventId: doc.eventId.toString(),
+    label: doc.label,
+    createdAt: doc.createdAt,
+    lastUsedAt: doc.lastUsedAt ?? null,
+    lastIp: doc.lastIp ?? null,
+    revokedAt: doc.revokedAt ?? null,
+  };
+}
@@ -0,0 +1,217 @@
+// append-only trail of sign-ins, password changes and admin account actions.
+// entries are only ever inserted; nothing in the app updates or deletes them
+import type { Request } from "express";
+import { type Filter, ObjectId } from "mongodb";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+import type { UserDoc, UserRole } from "../db/models";
+import { getClientMeta } from "./sessions";
+
+export const securityAuditActions = [
+  "login_succeeded",
+  "login_failed",
+  "logout",
+  "password_changed",
+  "password_reset_completed",
+  "sessions_revoked",
+  "two_factor_enabled",
+  "two_factor_disabled",
+  "organizer_created",
+  "organizer_disabled",
+  "organizer_enabled",
+  "organizer_archived",
+  "organizer_deleted",
+  "organizer_password_reset_approved",
+  "organizer_password_reset_rejected",
+  "organizer_two_factor_reset",
+  "security_settings_updated",
+  "login_lockout_cleared",
+  "team_member_invited",
+  "team_member_role_changed",
+  "team_member_removed",
+  "team_invite_accepted",
+  "scanner_token_created",
+  "scanner_token_revoked",
+] as const;
+export type SecurityAuditAction = (typeof securityAuditActions)[number];
+
+export const securityAuditOutcomes = ["success", "failure"] as const;
+export type SecurityAuditOutcome = (typeof securityAuditOutcomes)[number];
+
+export type SecurityAuditDetails = Record<string, string | number | boolean>;
+
+// who did it / who it was done to; email and role are copied in so entries
+// still read correctly after the account is renamed or deleted
+export type SecurityAuditParty = {
+  userId?: ObjectId;
+  email?: string;
+  role?: UserRole;
+};
+
+export type StoredSecurityAuditDoc = {
+  _id: ObjectId;
+  action: SecurityAuditAction;
+  outcome: SecurityAuditOutcome;
+  actorUserId?: ObjectId;
+  actorEmail?: string;
+  actorRole?: UserRole;
+  targetUserId?: ObjectId;
+  targetEmail?: string;
+  targetRole?: UserRole;
+  ip: string;
+  userAgent: string;
+  details?: SecurityAuditDetails;
+  createdAt: Date;
+};
+
+export type SecurityAuditQuery = {
+  action?: SecurityAuditAction | undefined;
+  outcome?: SecurityAuditOutcome | undefined;
+  userId?: ObjectId | undefined;
+  email?: string | undefined;
+  ip?: string | undefined;
+  from?: Date | undefined;
+  to?: Date | undefined;
+};
+
+function getAuditCollection() {
+  return getDb().collection<StoredSecurityAuditDoc>(collections.securityAuditLogs);
+}
+
+export function toAuditParty(user: Pick<UserDoc, "_id" | "email" | "role">): SecurityAuditParty {
+  return { userId: user._id, email: user.email, role: user.role };
+}
+
+// the signed-in user behind a request; the email is looked up when the entry is written
+export function requestActor(req: Request): SecurityAuditParty | undefined {
+  if (!req.user || !ObjectId.isValid(req.user.id)) return undefined;
+  return { userId: new ObjectId(req.user.id), role: req.user.role };
+}
+
+async function withEmail(party: SecurityAuditParty | undefined) {
+  if (!party?.userId || party.email) return party;
+
+  const user = await getDb()
+    .collection<UserDoc>(collections.users)
+    .findOne({ _id: party.userId }, { projection: { email: 1, role: 1 } });
+  return user ? toAuditParty(user) : party;
+}
+
+export async function recordSecurityEvent(
+  req: Request,
+  params: {
+    action: SecurityAuditAction;
+    outcome?: SecurityAuditOutcome;
+    actor?: SecurityAuditParty | undefined;
+    target?: SecurityAuditParty | undefined;
+    details?: SecurityAuditDetails;
+  },
+): Promise<void> {
+  const client = getClientMeta(req);
+  const [actor, target] = await Promise.all([withEmail(params.actor), withEmail(params.target)]);
+
+  await getAuditCollection().insertOne({
+    _id: new ObjectId(),
+    action: params.action,
+    outcome: params.outcome ?? "success",
+    ...(actor?.userId ? { actorUserId: actor.userId } : {}),
+    ...(actor?.email ? { actorEmail: actor.email } : {}),
+    ...(actor?.role ? { actorRole: actor.role } : {}),
+    ...(target?.userId ? { targetUserId: target.userId } : {}),
+    ...(target?.email ? { targetEmail: target.email } : {}),
+    ...(target?.role ? { targetRole: target.role } : {}),
+    ip: client.ip,
+    userAgent: client.userAgent,
+    ...(params.details ? { details: params.details } : {}),
+    createdAt: new Date(),
+  });
+}
+
+// auditing must never turn a successful action into a 500
+export async function recordSecurityEventSafe(
+  ...args: Parameters<typeof recordSecurityEvent>
+): Promise<void> {
+  try {
+    await recordSecurityEvent(...args);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "unknown error";
+    console.warn(`security audit write failed: ${message}`);
+  }
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function buildAuditFilter(query: SecurityAuditQuery): Filter<StoredSecurityAuditDoc> {
+  const filter: Filter<StoredSecurityAuditDoc> = {};
+  if (query.action) filter.action = query.action;
+  if (query.outcome) filter.outcome = query.outcome;
+  if (query.ip) filter.ip = query.ip;
+  if (query.from || query.to) {
+    filter.createdAt = {
+      ...(query.from ? { $gte: query.from } : {}),
+      ...(query.to ? { $lte: query.to } : {}),
+    };
+  }
+
+  // user id and email each match either side of an entry
+  const parties: Filter<StoredSecurityAuditDoc>[] = [];
+  if (query.userId) {
+    parties.push({ $or: [{ actorUserId: query.userId }, { targetUserId: query.userId }] });
+  }
+  if (query.email) {
+    const pattern = new RegExp(escapeRegex(query.email), "i");
+    parties.push({ $or: [{ actorEmail: pattern }, { targetEmail: pattern }] });
+  }
+  if (parties.length > 0) filter.$and = parties;
+
+  return filter;
+}
+
+export async function listSecurityAuditLogs(
+  query: SecurityAuditQuery,
+  page: { skip: number; limit: number },
+): Promise<{ logs: StoredSecurityAuditDoc[]; total: number }> {
+  const filter = buildAuditFilter(query);
+  const collection = getAuditCollection();
+
+  const [logs, total] = await Promise.all([
+    collection
+      .find(filter)
+      .sort({ createdAt: -1, _id: -1 })
+      .skip(page.skip)
+      .limit(page.limit)
+      .toArray(),
+    collection.countDocuments(filter),
+  ]);
+  return { logs, total };
+}
+
+export function toSecurityAuditResponse(entry: StoredSecurityAuditDoc) {
+  return {
+    id: entry._id.toString(),
+    action: entry.action,
+    outcome: entry.outcome,
+    actor:
+      entry.actorUserId || entry.actorEmail
+        ? {
+            id: entry.actorUserId?.toString() ?? null,
+            email: entry.actorEmail ?? null,
+            role: entry.actorRole ?? null,
+          }
+        : null,
+    target:
+      entry.targetUserId || entry.targetEmail
+        ? {
+            id: entry.targetUserId?.toString() ?? null,
+            email: entry.targetEmail ?? null,
+            role: entry.targetRole ?? null,
+          }
+        : null,
+    ip: entry.ip,
+    userAgent: entry.userAgent,
+    details: entry.details ?? {},
+    createdAt: entry.createdAt,
+  };
+}
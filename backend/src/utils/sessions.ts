@@ -0,0 +1,306 @@
+// server-side login sessions: every access jwt carries the session jti and is checked against this store,
+// refresh tokens are single-use and rotate on every refresh so a copied one stops working
+import crypto from "node:crypto";
+import type { Request } from "express";
+import { type Filter, ObjectId } from "mongodb";
+import { env } from "../config/env";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+import type { UserRole } from "../db/models";
+import { signJwt } from "./jwt";
+
+export type SessionRevokeReason =
+  | "logout"
+  | "user_revoked"
+  | "password_changed"
+  | "password_reset"
+  | "two_factor_required"
+  | "two_factor_reset"
+  | "refresh_reuse";
+
+export type StoredSessionDoc = {
+  _id: ObjectId;
+  jti: string;
+  userId: ObjectId;
+  role: UserRole;
+  refreshTokenHash: string;
+  // the token that was just rotated out, kept to tell a racing tab from a replayed token
+  previousRefreshTokenHash?: string;
+  refreshedAt?: Date;
+  userAgent: string;
+  ip: string;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: SessionRevokeReason;
+};
+
+export type ClientMeta = {
+  userAgent: string;
+  ip: string;
+};
+
+export type IssuedSession = {
+  session: StoredSessionDoc;
+  accessToken: string;
+  refreshToken: string;
+};
+
+export type RefreshResult =
+  | { status: "rotated"; session: StoredSessionDoc; accessToken: string; refreshToken: string }
+  // a parallel request already rotated this token moments ago; hand out an access token only
+  | { status: "raced"; session: StoredSessionDoc; accessToken: string }
+  | { status: "invalid" };
+
+// two tabs refreshing at the same moment both present the same token
+const REFRESH_RACE_GRACE_MS = 30 * 1000;
+// lastSeenAt is a hint for the sessions list, not worth a write on every request
+const LAST_SEEN_WRITE_INTERVAL_MS = 60 * 1000;
+
+function getSessionsCollection() {
+  return getDb().collection<StoredSessionDoc>(collections.sessions);
+}
+
+function hashRefreshToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function generateRefreshToken(): string {
+  return crypto.randomBytes(32).toString("base64url");
+}
+
+function getRefreshExpiry(now: Date): Date {
+  return new Date(now.getTime() + env.REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+function signSessionJwt(session: StoredSessionDoc): string {
+  return signJwt({
+    userId: session.userId.toString(),
+    role: session.role,
+    jti: session.jti,
+  });
+}
+
+export function getClientMeta(req: Request): ClientMeta {
+  return {
+    userAgent: (req.get("user-agent") ?? "").slice(0, 400),
+    ip: req.ip ?? "",
+  };
+}
+
+// rough "Firefox on Windows" style label for the sessions list
+export function describeUserAgent(userAgent: string): string {
+  if (!userAgent) return "Unknown device";
+
+  const browser =
+    /Edg\//.test(userAgent)
+      ? "Edge"
+      : /OPR\/|Opera/.test(userAgent)
+        ? "Opera"
+        : /Firefox\//.test(userAgent)
+          ? "Firefox"
+          : /Chrome\//.test(userAgent)
+            ? "Chrome"
+            : /Safari\//.test(userAgent)
+              ? "Safari"
+              : null;
+  const os =
+    /Android/.test(userAgent)
+      ? "Android"
+      : /iPhone|iPad|iPod/.test(userAgent)
+        ? "iOS"
+        : /Windows/.test(userAgent)
+          ? "Windows"
+          : /Mac OS X|Macintosh/.test(userAgent)
+            ? "macOS"
+            : /Linux/.test(userAgent)
+              ? "Linux"
+              : null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser ?? os ?? "Unknown device";
+}
+
+export async function createSession(params: {
+  userId: ObjectId;
+  role: UserRole;
+  client: ClientMeta;
+}): Promise<IssuedSession> {
+  const now = new Date();
+  const refreshToken = generateRefreshToken();
+  const session: StoredSessionDoc = {
+    _id: new ObjectId(),
+    jti: crypto.randomUUID(),
+    userId: params.userId,
+    role: params.role,
+    refreshTokenHash: hashRefreshToken(refreshToken),
+    userAgent: params.client.userAgent,
+    ip: params.client.ip,
+    createdAt: now,
+    lastSeenAt: now,
+    expiresAt: getRefreshExpiry(now),
+  };
+
+  await getSessionsCollection().insertOne(session);
+  return { session, accessToken: signSessionJwt(session), refreshToken };
+}
+
+export async function refreshSession(
+  refreshToken: string,
+  client: ClientMeta,
+): Promise<RefreshResult> {
+  const sessions = getSessionsCollection();
+  const tokenHash = hashRefreshToken(refreshToken);
+  const now = new Date();
+  const nextRefreshToken = generateRefreshToken();
+
+  // swapping the hash in the filter makes each refresh token usable exactly once
+  const rotated = await sessions.findOneAndUpdate(
+    { refreshTokenHash: tokenHash, revokedAt: { $exists: false }, expiresAt: { $gt: now } },
+    {
+      $set: {
+        refreshTokenHash: hashRefreshToken(nextRefreshToken),
+        previousRefreshTokenHash: tokenHash,
+        refreshedAt: now,
+        lastSeenAt: now,
+        expiresAt: getRefreshExpiry(now),
+        userAgent: client.userAgent,
+        ip: client.ip,
+      },
+    },
+    { returnDocument: "after" },
+  );
+  if (rotated) {
+    return {
+      status: "rotated",
+      session: rotated,
+      accessToken: signSessionJwt(rotated),
+      refreshToken: nextRefreshToken,
+    };
+  }
+
+  const previous = await sessions.findOne({
+    previousRefreshTokenHash: tokenHash,
+    revokedAt: { $exists: false },
+  });
+  if (!previous) return { status: "invalid" };
+
+  if (
+    previous.refreshedAt &&
+    now.getTime() - previous.refreshedAt.getTime() <= REFRESH_RACE_GRACE_MS
+  ) {
+    return { status: "raced", session: previous, accessToken: signSessionJwt(previous) };
+  }
+
+  // an old refresh token came back after its replacement was issued: assume it was stolen
+  const reused = await sessions.updateOne(
+    { _id: previous._id, revokedAt: { $exists: false } },
+    { $set: { revokedAt: now, revokedReason: "refresh_reuse" } },
+  );
+  if (reused.modifiedCount > 0) notifySessionsRevoked([previous.userId]);
+  return { status: "invalid" };
+}
+
+export async function findActiveSession(jti: string): Promise<StoredSessionDoc | null> {
+  return getSessionsCollection().findOne({
+    jti,
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() },
+  });
+}
+
+export async function touchSession(session: StoredSessionDoc): Promise<void> {
+  const now = new Date();
+  if (now.getTime() - session.lastSeenAt.getTime() < LAST_SEEN_WRITE_INTERVAL_MS) return;
+
+  await getSessionsCollection().updateOne(
+    { _id: session._id },
+    { $set: { lastSeenAt: now } },
+  );
+}
+
+export async function listActiveSessions(userId: ObjectId): Promise<StoredSessionDoc[]> {
+  return getSessionsCollection()
+    .find({ userId, revokedAt: { $exists: false }, expiresAt: { $gt: new Date() } })
+    .sort({ lastSeenAt: -1 })
+    .toArray();
+}
+
+type SessionsRevokedListener = (userIds: ObjectId[]) => void;
+
+const sessionsRevokedListeners: SessionsRevokedListener[] = [];
+
+// the realtime server listens here to drop the sockets of sessions that were signed out
+export function onSessionsRevoked(listener: SessionsRevokedListener): void {
+  sessionsRevokedListeners.push(listener);
+}
+
+function notifySessionsRevoked(userIds: ObjectId[]): void {
+  if (userIds.length === 0) return;
+  for (const listener of sessionsRevokedListeners) listener(userIds);
+}
+
+async function revokeSessions(
+  filter: Filter<StoredSessionDoc>,
+  reason: SessionRevokeReason,
+): Promise<number> {
+  const sessions = getSessionsCollection();
+  const activeFilter: Filter<StoredSessionDoc> = {
+    $and: [filter, { revokedAt: { $exists: false } }],
+  };
+  const userIds = await sessions.distinct("userId", activeFilter);
+  const result = await sessions.updateMany(activeFilter, {
+    $set: { revokedAt: new Date(), revokedReason: reason },
+  });
+  if (result.modifiedCount > 0) notifySessionsRevoked(userIds);
+  return result.modifiedCount;
+}
+
+export async function revokeSession(params: {
+  filter: Filter<StoredSessionDoc>;
+  reason: SessionRevokeReason;
+}): Promise<boolean> {
+  return (await revokeSessions(params.filter, params.reason)) > 0;
+}
+
+// signs the user out everywhere, optionally keeping the session that asked for it
+export async function revokeUserSessions(params: {
+  userId: ObjectId;
+  reason: SessionRevokeReason;
+  exceptJti?: string;
+}): Promise<number> {
+  return revokeSessions(
+    {
+      userId: params.userId,
+      ...(params.exceptJti ? { jti: { $ne: params.exceptJti } } : {}),
+    },
+    params.reason,
+  );
+}
+
+// returns the session that was revoked, so callers know whose it was
+export async function revokeSessionByRefreshToken(
+  refreshToken: string,
+  reason: SessionRevokeReason,
+): Promise<StoredSessionDoc | null> {
+  const revoked = await getSessionsCollection().findOneAndUpdate(
+    { refreshTokenHash: hashRefreshToken(refreshToken), revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date(), revokedReason: reason } },
+  );
+  if (revoked) notifySessionsRevoked([revoked.userId]);
+  return revoked;
+}
+
+export function toSessionResponse(session: StoredSessionDoc, currentJti?: string) {
+  return {
+    id: session._id.toString(),
+    device: describeUserAgent(session.userAgent),
+    userAgent: session.userAgent,
+    ip: session.ip,
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    expiresAt: session.expiresAt,
+    current: session.jti === currentJti,
+  };
+}
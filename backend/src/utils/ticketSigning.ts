@@ -0,0 +1,251 @@
+import crypto from "node:crypto";
+import { ObjectId } from "mongodb";
+import { env } from "../config/env";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+
+type TicketSigningKeyStatus = "active" | "retired";
+
+export type StoredTicketSigningKeyDoc = {
+  _id: ObjectId;
+  kid: string;
+  algorithm: "EdDSA";
+  publicKeyPem: string;
+  // encrypted with JWT_SECRET as passphrase so a DB dump alone cannot mint tickets
+  encryptedPrivateKeyPem: string;
+  status: TicketSigningKeyStatus;
+  createdAt: Date;
+  retiredAt?: Date;
+};
+
+export type TicketQrClaims = {
+  ticketId: string;
+  eventId: string;
+  userId: string;
+  participationId: string;
+  issuedAt: string;
+};
+
+type LoadedSigningKey = {
+  kid: string;
+  publicKey: crypto.KeyObject;
+  privateKey?: crypto.KeyObject;
+};
+
+const PRIVATE_KEY_CIPHER = "aes-256-cbc";
+const JWS_HEADER_TYPE = "felicity-ticket+jws";
+const MANIFEST_JWS_HEADER_TYPE = "felicity-attendance-manifest+jws";
+const UNKNOWN_KID_REFRESH_INTERVAL_MS = 30 * 1000;
+
+let activeSigningKey: LoadedSigningKey | null = null;
+let lastCacheRefreshAt = 0;
+const verificationKeysByKid = new Map<string, LoadedSigningKey>();
+
+function getKeysCollection() {
+  return getDb().collection<StoredTicketSigningKeyDoc>(collections.ticketSigningKeys);
+}
+
+function toBase64Url(value: Buffer | string): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+function generateKid(now: Date): string {
+  const datePart = now.toISOString().slice(0, 10).replace(/-/g, "");
+  return `tk-${datePart}-${crypto.randomBytes(4).toString("hex")}`;
+}
+
+function loadKeyDoc(doc: StoredTicketSigningKeyDoc): LoadedSigningKey {
+  const loaded: LoadedSigningKey = {
+    kid: doc.kid,
+    publicKey: crypto.createPublicKey(doc.publicKeyPem),
+  };
+
+  if (doc.status === "active") {
+    loaded.privateKey = crypto.createPrivateKey({
+      key: doc.encryptedPrivateKeyPem,
+      passphrase: env.JWT_SECRET,
+    });
+  }
+
+  return loaded;
+}
+
+function buildKeyDoc(now: Date): StoredTicketSigningKeyDoc {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync("ed25519", {
+    publicKeyEncoding: { type: "spki", format: "pem" },
+    privateKeyEncoding: {
+      type: "pkcs8",
+      format: "pem",
+      cipher: PRIVATE_KEY_CIPHER,
+      passphrase: env.JWT_SECRET,
+    },
+  });
+
+  return {
+    _id: new ObjectId(),
+    kid: generateKid(now),
+    algorithm: "EdDSA",
+    publicKeyPem: publicKey,
+    encryptedPrivateKeyPem: privateKey,
+    status: "active",
+    createdAt: now,
+  };
+}
+
+async function refreshSigningKeyCache(): Promise<void> {
+  const docs = await getKeysCollection().find({}).sort({ createdAt: 1 }).toArray();
+
+  verificationKeysByKid.clear();
+  activeSigningKey = null;
+  lastCacheRefreshAt = Date.now();
+
+  for (const doc of docs) {
+    const loaded = loadKeyDoc(doc);
+    verificationKeysByKid.set(doc.kid, loaded);
+    if (doc.status === "active") {
+      activeSigningKey = loaded;
+    }
+  }
+}
+
+// called on startup: creates the first key when none exist and warms the cache
+export async function ensureTicketSigningKeys(): Promise<void> {
+  const keys = getKeysCollection();
+  const active = await keys.findOne({ status: "active" });
+  if (!active) {
+    await keys.insertOne(buildKeyDoc(new Date()));
+  }
+
+  await refreshSigningKeyCache();
+}
+
+// new key signs from now on; retired keys stay published so issued tickets keep verifying
+export async function rotateTicketSigningKey(): Promise<StoredTicketSigningKeyDoc> {
+  const keys = getKeysCollection();
+  const now = new Date();
+  const next = buildKeyDoc(now);
+
+  await keys.updateMany(
+    { status: "active" },
+    { $set: { status: "retired", retiredAt: now } },
+  );
+  await keys.insertOne(next);
+  await refreshSigningKeyCache();
+
+  return next;
+}
+
+export async function listTicketSigningKeys(): Promise<StoredTicketSigningKeyDoc[]> {
+  return getKeysCollection().find({}).sort({ createdAt: -1 }).toArray();
+}
+
+// JWKS view for offline scanners (Ed25519 public keys only)
+export async function getTicketSigningJwks() {
+  const docs = await listTicketSigningKeys();
+
+  return {
+    keys: docs.map((doc) => ({
+      ...crypto.createPublicKey(doc.publicKeyPem).export({ format: "jwk" }),
+      kid: doc.kid,
+      alg: doc.algorithm,
+      use: "sig",
+      status: doc.status,
+    })),
+  };
+}
+
+// compact JWS: base64url(header).base64url(claims).base64url(ed25519 signature)
+function signCompactJws(typ: string, claims: unknown): string {
+  if (!activeSigningKey?.privateKey) {
+    throw new Error("Ticket signing key is not loaded");
+  }
+
+  const header = toBase64Url(
+    JSON.stringify({ alg: "EdDSA", typ, kid: activeSigningKey.kid }),
+  );
+  const payload = toBase64Url(JSON.stringify(claims));
+  const signingInput = `${header}.${payload}`;
+  const signature = crypto.sign(
+    null,
+    Buffer.from(signingInput),
+    activeSigningKey.privateKey,
+  );
+
+  return `${signingInput}.${toBase64Url(signature)}`;
+}
+
+export function signTicketQrClaims(claims: TicketQrClaims): string {
+  return signCompactJws(JWS_HEADER_TYPE, claims);
+}
+
+// offline scanners verify the manifest with the same published keys as ticket QRs;
+// the distinct typ keeps a manifest from ever passing as a ticket
+export function signAttendanceManifest(manifest: unknown): string {
+  return signCompactJws(MANIFEST_JWS_HEADER_TYPE, manifest);
+}
+
+function readClaims(raw: unknown): TicketQrClaims | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const claims = raw as Record<string, unknown>;
+
+  const fields = ["ticketId", "eventId", "userId", "participationId", "issuedAt"] as const;
+  for (const field of fields) {
+    if (typeof claims[field] !== "string" || claims[field].length === 0) {
+      return null;
+    }
+  }
+
+  return {
+    ticketId: claims.ticketId as string,
+    eventId: claims.eventId as string,
+    userId: claims.userId as string,
+    participationId: claims.participationId as string,
+    issuedAt: claims.issuedAt as string,
+  };
+}
+
+// returns null for malformed, unknown-key, or tampered payloads
+export async function verifyTicketQrPayload(
+  token: string,
+): Promise<TicketQrClaims | null> {
+  const parts = token.trim().split(".");
+  if (parts.length !== 3) return null;
+  const [encodedHeader, encodedPayload, encodedSignature] = parts as [
+    string,
+    string,
+    string,
+  ];
+
+  try {
+    const header = JSON.parse(
+      Buffer.from(encodedHeader, "base64url").toString("utf8"),
+    ) as { alg?: unknown; typ?: unknown; kid?: unknown };
+    if (header.alg !== "EdDSA" || typeof header.kid !== "string") return null;
+    if (header.typ !== JWS_HEADER_TYPE) return null;
+
+    let key = verificationKeysByKid.get(header.kid);
+    if (
+      !key &&
+      Date.now() - lastCacheRefreshAt > UNKNOWN_KID_REFRESH_INTERVAL_MS
+    ) {
+      // another instance may have rotated since this cache was filled
+      await refreshSigningKeyCache();
+      key = verificationKeysByKid.get(header.kid);
+    }
+    if (!key) return null;
+
+    const isValid = crypto.verify(
+      null,
+      Buffer.from(`${encodedHeader}.${encodedPayload}`),
+      key.publicKey,
+      Buffer.from(encodedSignature, "base64url"),
+    );
+    if (!isValid) return null;
+
+    return readClaims(
+      JSON.parse(Buffer.from(encodedPayload, "base64url").toString("utf8")),
+    );
+  } catch {
+    return null;
+  }
+}
@@ -1,5 +1,6 @@
 import crypto from "node:crypto";
 import { ObjectId } from "mongodb";
+import { signTicketQrClaims } from "./ticketSigning";
 
 export type TicketEventType = "NORMAL" | "MERCH";
 
@@ -35,7 +36,7 @@ function buildTicketQrPayload(params: {
   participationId: ObjectId;
   issuedAt: Date;
 }): string {
-  return JSON.stringify({
+  return signTicketQrClaims({
     ticketId: params.ticketId,
     eventId: params.eventId.toString(),
     userId: params.userId.toString(),
@@ -44,6 +45,22 @@ function buildTicketQrPayload(params: {
   });
 }
 
+// re-signs a stored ticket, keeping its original issue time
+export function buildSignedQrPayloadForTicket(
+  ticket: Pick<
+    StoredTicketDoc,
+    "ticketId" | "eventId" | "userId" | "participationId" | "createdAt"
+  >,
+): string {
+  return buildTicketQrPayload({
+    ticketId: ticket.ticketId,
+    eventId: ticket.eventId,
+    userId: ticket.userId,
+    participationId: ticket.participationId,
+    issuedAt: ticket.createdAt,
+  });
+}
+
 export function buildTicketDoc(input: BuildTicketDocInput): StoredTicketDoc {
   const createdAt = input.now ?? new Date();
   const ticketId = generateTicketId(createdAt);
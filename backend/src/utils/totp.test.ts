@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  buildTotpProvisioningUri,
+  generateTotpSecret,
+  getTotpStep,
+  verifyTotpCode,
+} from "./totp";
+
+// RFC 6238 appendix B: the ASCII secret "12345678901234567890", SHA1 codes cut to six digits
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+const rfcVectors = [
+  { seconds: 59, code: "287082" },
+  { seconds: 1111111109, code: "081804" },
+  { seconds: 1111111111, code: "050471" },
+  { seconds: 1234567890, code: "005924" },
+  { seconds: 2000000000, code: "279037" },
+];
+
+describe("verifyTotpCode", () => {
+  it("accepts the RFC 6238 reference codes and returns their step", () => {
+    for (const vector of rfcVectors) {
+      const now = new Date(vector.seconds * 1000);
+      assert.equal(
+        verifyTotpCode({ secret: RFC_SECRET, code: vector.code, now }),
+        getTotpStep(now),
+      );
+    }
+  });
+
+  it("accepts one step of clock drift either way, but not two", () => {
+    const now = new Date(1111111111 * 1000);
+    const step = getTotpStep(now);
+
+    assert.equal(
+      verifyTotpCode({ secret: RFC_SECRET, code: "050471", now: new Date(now.getTime() + 30_000) }),
+      step,
+    );
+    assert.equal(
+      verifyTotpCode({ secret: RFC_SECRET, code: "050471", now: new Date(now.getTime() - 30_000) }),
+      step,
+    );
+    assert.equal(
+      verifyTotpCode({ secret: RFC_SECRET, code: "050471", now: new Date(now.getTime() + 60_000) }),
+      null,
+    );
+  });
+
+  it("refuses a code from a step that was already used", () => {
+    const now = new Date(1234567890 * 1000);
+    const step = getTotpStep(now);
+
+    assert.equal(
+      verifyTotpCode({ secret: RFC_SECRET, code: "005924", now, afterStep: step - 1 }),
+      step,
+    );
+    assert.equal(
+      verifyTotpCode({ secret: RFC_SECRET, code: "005924", now, afterStep: step }),
+      null,
+    );
+  });
+
+  it("ignores spaces and rejects malformed or wrong codes", () => {
+    const now = new Date(59 * 1000);
+
+    assert.equal(verifyTotpCode({ secret: RFC_SECRET, code: "287 082", now }), getTotpStep(now));
+    assert.equal(verifyTotpCode({ secret: RFC_SECRET, code: "28708", now }), null);
+    assert.equal(verifyTotpCode({ secret: RFC_SECRET, code: "28708a", now }), null);
+    assert.equal(verifyTotpCode({ secret: RFC_SECRET, code: "287083", now }), null);
+  });
+
+  it("reads secrets case-insensitively and with separators", () => {
+    const now = new Date(59 * 1000);
+    const formatted = RFC_SECRET.toLowerCase().replace(/(.{4})/g, "$1 ");
+
+    assert.equal(verifyTotpCode({ secret: formatted, code: "287082", now }), getTotpStep(now));
+  });
+});
+
+describe("generateTotpSecret", () => {
+  it("returns distinct 160-bit base32 secrets", () => {
+    const first = generateTotpSecret();
+    const second = generateTotpSecret();
+
+    assert.match(first, /^[A-Z2-7]{32}$/);
+    assert.notEqual(first, second);
+  });
+});
+
+describe("buildTotpProvisioningUri", () => {
+  it("labels the account with the issuer and spells out the parameters", () => {
+    const uri = new URL(
+      buildTotpProvisioningUri({
+        secret: RFC_SECRET,
+        accountName: "organizer@example.com",
+        issuer: "Felicity",
+      }),
+    );
+
+    assert.equal(uri.protocol, "otpauth:");
+    assert.equal(uri.host, "totp");
+    assert.equal(decodeURIComponent(uri.pathname), "/Felicity:organizer@example.com");
+    assert.equal(uri.searchParams.get("secret"), RFC_SECRET);
+    assert.equal(uri.searchParams.get("issuer"), "Felicity");
+    assert.equal(uri.searchParams.get("digits"), "6");
+    assert.equal(uri.searchParams.get("period"), "30");
+  });
+});
@@ -0,0 +1,114 @@
+// RFC 6238 time-based one-time passwords (HMAC-SHA1, 30s steps, 6 digits), the flavour every authenticator app speaks
+import crypto from "node:crypto";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// accept the previous and next step too, for phones whose clocks drift a little
+const TOTP_WINDOW_STEPS = 1;
+const SECRET_BYTES = 20;
+
+function toBase32(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function fromBase32(encoded: string): Buffer {
+  const cleaned = encoded.toUpperCase().replace(/[\s=-]/g, "");
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 secret");
+
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return toBase32(crypto.randomBytes(SECRET_BYTES));
+}
+
+export function getTotpStep(now: Date): number {
+  return Math.floor(now.getTime() / 1000 / TOTP_STEP_SECONDS);
+}
+
+function generateTotpCode(secret: Buffer, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const digest = crypto.createHmac("sha1", secret).update(counter).digest();
+  // dynamic truncation (RFC 4226 section 5.3)
+  const offset = (digest[digest.length - 1] ?? 0) & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+// returns the matched time step so callers can refuse to accept the same code twice
+export function verifyTotpCode(params: {
+  secret: string;
+  code: string;
+  now: Date;
+  // last step already used for this secret; codes from it or earlier are rejected
+  afterStep?: number;
+}): number | null {
+  const code = params.code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(code)) return null;
+
+  const secret = fromBase32(params.secret);
+  const currentStep = getTotpStep(params.now);
+  const expected = Buffer.from(code);
+
+  for (let delta = -TOTP_WINDOW_STEPS; delta <= TOTP_WINDOW_STEPS; delta += 1) {
+    const step = currentStep + delta;
+    if (params.afterStep !== undefined && step <= params.afterStep) continue;
+
+    const candidate = Buffer.from(generateTotpCode(secret, step));
+    if (crypto.timingSafeEqual(candidate, expected)) return step;
+  }
+
+  return null;
+}
+
+// otpauth:// URI that authenticator apps read from the enrolment QR code
+export function buildTotpProvisioningUri(params: {
+  secret: string;
+  accountName: string;
+  issuer: string;
+}): string {
+  const label = encodeURIComponent(`${params.issuer}:${params.accountName}`);
+  const query = new URLSearchParams({
+    secret: params.secret,
+    issuer: params.issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+
+  return `otpauth://totp/${label}?${query.toString()}`;
+}
@@ -0,0 +1,321 @@
+// TOTP two-factor auth for admin and organizer accounts: enrolment, recovery codes,
+// login challenges between the password and code steps, and the organizer-wide requirement
+import crypto from "node:crypto";
+import { ObjectId } from "mongodb";
+import QRCode from "qrcode";
+import { env } from "../config/env";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+import type {
+  LoginChallengeDoc,
+  LoginChallengePurpose,
+  SecuritySettingsDoc,
+  UserDoc,
+  UserRole,
+} from "../db/models";
+import { buildTotpProvisioningUri, generateTotpSecret, verifyTotpCode } from "./totp";
+
+export type TwoFactorProvisioning = {
+  secret: string;
+  otpauthUri: string;
+  qrDataUrl: string;
+};
+
+export type SecondFactorInput = {
+  code?: string | undefined;
+  recoveryCode?: string | undefined;
+};
+
+export type SecondFactorResult =
+  | { ok: true; method: "totp" | "recovery_code"; recoveryCodesRemaining: number }
+  | { ok: false };
+
+const TOTP_ISSUER = "Felicity";
+const SECRET_CIPHER = "aes-256-gcm";
+const RECOVERY_CODE_COUNT = 10;
+const LOGIN_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+// wrong codes allowed per password login before the user has to start over
+const LOGIN_CHALLENGE_MAX_ATTEMPTS = 5;
+// an unconfirmed enrolment is thrown away after this long
+const PENDING_SETUP_TTL_MS = 15 * 60 * 1000;
+
+const twoFactorRoles: readonly UserRole[] = ["admin", "organizer"];
+
+function getUsersCollection() {
+  return getDb().collection<UserDoc>(collections.users);
+}
+
+function getChallengesCollection() {
+  return getDb().collection<LoginChallengeDoc>(collections.loginChallenges);
+}
+
+function getSettingsCollection() {
+  return getDb().collection<SecuritySettingsDoc>(collections.platformSettings);
+}
+
+// derived from JWT_SECRET like the ticket signing keys, so a DB dump alone can't generate codes
+function getSecretKey(): Buffer {
+  return crypto.createHash("sha256").update(`${env.JWT_SECRET}:totp-secrets`).digest();
+}
+
+function encryptTotpSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(SECRET_CIPHER, getSecretKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString("base64url")).join(".");
+}
+
+function decryptTotpSecret(stored: string): string {
+  const [iv, authTag, ciphertext] = stored.split(".").map((part) => Buffer.from(part, "base64url"));
+  if (!iv || !authTag || !ciphertext) throw new Error("Malformed TOTP secret");
+
+  const decipher = crypto.createDecipheriv(SECRET_CIPHER, getSecretKey(), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// case, spaces and dashes don't matter when typing a recovery code back in
+function hashRecoveryCode(code: string): string {
+  return hashToken(code.toLowerCase().replace(/[\s-]/g, ""));
+}
+
+function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+export function isTwoFactorRole(role: UserRole): boolean {
+  return twoFactorRoles.includes(role);
+}
+
+export async function getSecuritySettings(): Promise<SecuritySettingsDoc> {
+  const stored = await getSettingsCollection().findOne({ _id: "security" });
+  return stored ?? { _id: "security", requireOrganizerTwoFactor: false, updatedAt: new Date(0) };
+}
+
+export async function updateSecuritySettings(params: {
+  requireOrganizerTwoFactor: boolean;
+  adminId?: ObjectId;
+}): Promise<SecuritySettingsDoc> {
+  const updated = await getSettingsCollection().findOneAndUpdate(
+    { _id: "security" },
+    {
+      $set: {
+        requireOrganizerTwoFactor: params.requireOrganizerTwoFactor,
+        updatedAt: new Date(),
+        ...(params.adminId ? { updatedByAdminId: params.adminId } : {}),
+      },
+    },
+    { upsert: true, returnDocument: "after" },
+  );
+  if (!updated) throw new Error("Failed to update security settings");
+  return updated;
+}
+
+// true when the user has to pass (or set up) a second factor before getting a session
+export function isTwoFactorRequiredFor(user: UserDoc, settings: SecuritySettingsDoc): boolean {
+  if (!isTwoFactorRole(user.role)) return false;
+  if (user.twoFactor?.enabled === true) return true;
+  return user.role === "organizer" && settings.requireOrganizerTwoFactor;
+}
+
+// callers make sure 2FA isn't already enabled; re-enrolling goes through disable first
+export async function startTwoFactorSetup(user: UserDoc): Promise<TwoFactorProvisioning> {
+  const secret = generateTotpSecret();
+  const otpauthUri = buildTotpProvisioningUri({
+    secret,
+    accountName: user.email,
+    issuer: TOTP_ISSUER,
+  });
+
+  await getUsersCollection().updateOne(
+    { _id: user._id },
+    {
+      $set: {
+        "twoFactor.enabled": false,
+        "twoFactor.pendingSecretCiphertext": encryptTotpSecret(secret),
+        "twoFactor.pendingCreatedAt": new Date(),
+      },
+    },
+  );
+
+  return { secret, otpauthUri, qrDataUrl: await QRCode.toDataURL(otpauthUri, { margin: 1 }) };
+}
+
+// promotes the pending secret once the user proves their app produces matching codes
+export async function confirmTwoFactorSetup(
+  userId: ObjectId,
+  code: string,
+): Promise<{ recoveryCodes: string[] } | null> {
+  const users = getUsersCollection();
+  const user = await users.findOne({ _id: userId });
+  const pending = user?.twoFactor?.pendingSecretCiphertext;
+  const pendingCreatedAt = user?.twoFactor?.pendingCreatedAt;
+  if (!user || !pending || !pendingCreatedAt) return null;
+
+  const now = new Date();
+  if (now.getTime() - pendingCreatedAt.getTime() > PENDING_SETUP_TTL_MS) return null;
+
+  const step = verifyTotpCode({ secret: decryptTotpSecret(pending), code, now });
+  if (step === null) return null;
+
+  const { codes, hashes } = generateRecoveryCodes();
+  const result = await users.updateOne(
+    { _id: user._id, "twoFactor.pendingSecretCiphertext": pending },
+    {
+      $set: {
+        twoFactor: {
+          enabled: true,
+          secretCiphertext: pending,
+          lastUsedStep: step,
+          recoveryCodeHashes: hashes,
+          enabledAt: now,
+        },
+      },
+    },
+  );
+  if (result.modifiedCount === 0) return null;
+
+  return { recoveryCodes: codes };
+}
+
+export async function verifySecondFactor(
+  user: UserDoc,
+  input: SecondFactorInput,
+): Promise<SecondFactorResult> {
+  const state = user.twoFactor;
+  if (!state?.enabled || !state.secretCiphertext) return { ok: false };
+
+  const users = getUsersCollection();
+
+  if (input.recoveryCode) {
+    const hash = hashRecoveryCode(input.recoveryCode);
+    // $pull in the same write as the match makes every recovery code single-use
+    const updated = await users.findOneAndUpdate(
+      { _id: user._id, "twoFactor.recoveryCodeHashes": hash },
+      { $pull: { "twoFactor.recoveryCodeHashes": hash } },
+      { returnDocument: "after" },
+    );
+    if (!updated) return { ok: false };
+
+    return {
+      ok: true,
+      method: "recovery_code",
+      recoveryCodesRemaining: updated.twoFactor?.recoveryCodeHashes?.length ?? 0,
+    };
+  }
+
+  if (!input.code) return { ok: false };
+
+  const step = verifyTotpCode({
+    secret: decryptTotpSecret(state.secretCiphertext),
+    code: input.code,
+    now: new Date(),
+    ...(state.lastUsedStep !== undefined ? { afterStep: state.lastUsedStep } : {}),
+  });
+  if (step === null) return { ok: false };
+
+  // conditional on the step we read, so two requests racing with one code can't both pass
+  const result = await users.updateOne(
+    {
+      _id: user._id,
+      "twoFactor.lastUsedStep":
+        state.lastUsedStep !== undefined ? state.lastUsedStep : { $exists: false },
+    },
+    { $set: { "twoFactor.lastUsedStep": step } },
+  );
+  if (result.modifiedCount === 0) return { ok: false };
+
+  return {
+    ok: true,
+    method: "totp",
+    recoveryCodesRemaining: state.recoveryCodeHashes?.length ?? 0,
+  };
+}
+
+export async function regenerateRecoveryCodes(userId: ObjectId): Promise<string[]> {
+  const { codes, hashes } = generateRecoveryCodes();
+  await getUsersCollection().updateOne(
+    { _id: userId, "twoFactor.enabled": true },
+    { $set: { "twoFactor.recoveryCodeHashes": hashes } },
+  );
+  return codes;
+}
+
+export async function disableTwoFactor(userId: ObjectId): Promise<boolean> {
+  const result = await getUsersCollection().updateOne(
+    { _id: userId, twoFactor: { $exists: true } },
+    { $unset: { twoFactor: "" } },
+  );
+  return result.modifiedCount > 0;
+}
+
+export function toTwoFactorStatus(user: UserDoc, settings: SecuritySettingsDoc) {
+  return {
+    enabled: user.twoFactor?.enabled === true,
+    enabledAt: user.twoFactor?.enabledAt ?? null,
+    recoveryCodesRemaining: user.twoFactor?.recoveryCodeHashes?.length ?? 0,
+    required: user.role === "organizer" && settings.requireOrganizerTwoFactor,
+  };
+}
+
+export async function createLoginChallenge(params: {
+  userId: ObjectId;
+  purpose: LoginChallengePurpose;
+}): Promise<{ token: string; expiresAt: Date }> {
+  const token = crypto.randomBytes(32).toString("base64url");
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + LOGIN_CHALLENGE_TTL_MS);
+
+  await getChallengesCollection().insertOne({
+    _id: new ObjectId(),
+    userId: params.userId,
+    purpose: params.purpose,
+    tokenHash: hashToken(token),
+    attempts: 0,
+    createdAt: now,
+    expiresAt,
+  });
+
+  return { token, expiresAt };
+}
+
+// open challenge for the token; countAttempt spends one of the limited code attempts
+export async function findLoginChallenge(params: {
+  token: string;
+  purpose: LoginChallengePurpose;
+  countAttempt: boolean;
+}): Promise<LoginChallengeDoc | null> {
+  const filter = {
+    tokenHash: hashToken(params.token),
+    purpose: params.purpose,
+    completedAt: { $exists: false },
+    expiresAt: { $gt: new Date() },
+    attempts: { $lt: LOGIN_CHALLENGE_MAX_ATTEMPTS },
+  };
+
+  if (!params.countAttempt) return getChallengesCollection().findOne(filter);
+
+  return getChallengesCollection().findOneAndUpdate(
+    filter,
+    { $inc: { attempts: 1 } },
+    { returnDocument: "after" },
+  );
+}
+
+export async function completeLoginChallenge(challengeId: ObjectId): Promise<boolean> {
+  const result = await getChallengesCollection().updateOne(
+    { _id: challengeId, completedAt: { $exists: false } },
+    { $set: { completedAt: new Date() } },
+  );
+  return result.modifiedCount > 0;
+}
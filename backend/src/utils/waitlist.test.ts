@@ -0,0 +1,108 @@
+import "../test/env";
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { ObjectId } from "mongodb";
+import { collections } from "../db/collections";
+import { type MemoryDb, useMemoryDb } from "../test/memoryDb";
+import { ensureTicketSigningKeys } from "./ticketSigning";
+import { getWaitlistPosition, promoteWaitlistedParticipations } from "./waitlist";
+
+const MINUTE_MS = 60 * 1000;
+const openedAt = new Date("2026-03-01T10:00:00Z");
+
+describe("waitlist promotion", () => {
+  let db: MemoryDb;
+  const eventId = new ObjectId();
+  let confirmedIds: ObjectId[];
+  let waitlisted: Record<"first" | "second" | "third", ObjectId>;
+
+  async function register(status: string, waitlistedAt?: Date) {
+    const _id = new ObjectId();
+    await db.collection(collections.registrations).insertOne({
+      _id,
+      eventId,
+      userId: new ObjectId(),
+      status,
+      createdAt: openedAt,
+      updatedAt: openedAt,
+      ...(waitlistedAt ? { waitlistedAt } : {}),
+    });
+    return _id;
+  }
+
+  async function readStatus(participationId: ObjectId) {
+    return (await db.collection(collections.registrations).findOne({ _id: participationId }))
+      ?.status;
+  }
+
+  async function cancel(participationId: ObjectId) {
+    await db
+      .collection(collections.registrations)
+      .updateOne({ _id: participationId }, { $set: { status: "cancelled" } });
+  }
+
+  beforeEach(async () => {
+    db = await useMemoryDb();
+    await ensureTicketSigningKeys();
+    await db.collection(collections.events).insertOne({
+      _id: eventId,
+      name: "Hack Night",
+      type: "NORMAL",
+      status: "PUBLISHED",
+      regLimit: 2,
+      regFee: 0,
+      startDate: new Date("2026-04-01T10:00:00Z"),
+      endDate: new Date("2026-04-01T18:00:00Z"),
+    });
+
+    // a full event, and a queue stored out of order so only the sort can get it right
+    confirmedIds = [await register("confirmed"), await register("confirmed")];
+    const third = await register("waitlisted", new Date(openedAt.getTime() + 3 * MINUTE_MS));
+    const first = await register("waitlisted", new Date(openedAt.getTime() + MINUTE_MS));
+    const second = await register("waitlisted", new Date(openedAt.getTime() + 2 * MINUTE_MS));
+    waitlisted = { first, second, third };
+  });
+
+  it("promotes nobody while the event is full", async () => {
+    assert.deepEqual(await promoteWaitlistedParticipations({ eventId, now: openedAt }), []);
+    assert.equal(await readStatus(waitlisted.first), "waitlisted");
+  });
+
+  it("gives a cancelled seat to the longest-waiting participant, with a ticket", async () => {
+    await cancel(confirmedIds[0] as ObjectId);
+
+    const promoted = await promoteWaitlistedParticipations({ eventId, now: openedAt });
+
+    assert.deepEqual(promoted.map(String), [String(waitlisted.first)]);
+    assert.equal(await readStatus(waitlisted.first), "confirmed");
+    assert.equal(await readStatus(waitlisted.second), "waitlisted");
+    assert.equal(await readStatus(waitlisted.third), "waitlisted");
+
+    const participation = await db
+      .collection(collections.registrations)
+      .findOne({ _id: waitlisted.first });
+    const ticket = await db
+      .collection(collections.tickets)
+      .findOne({ participationId: waitlisted.first });
+    assert.ok(ticket);
+    assert.equal(participation?.ticketId, ticket.ticketId);
+  });
+
+  it("fills every freed seat in queue order and moves the rest up", async () => {
+    await cancel(confirmedIds[0] as ObjectId);
+    await cancel(confirmedIds[1] as ObjectId);
+
+    const promoted = await promoteWaitlistedParticipations({ eventId, now: openedAt });
+
+    assert.deepEqual(promoted.map(String), [String(waitlisted.first), String(waitlisted.second)]);
+    assert.equal(await readStatus(waitlisted.third), "waitlisted");
+    assert.equal(
+      await getWaitlistPosition({
+        _id: waitlisted.third,
+        eventId,
+        waitlistedAt: new Date(openedAt.getTime() + 3 * MINUTE_MS),
+      }),
+      1,
+    );
+  });
+});
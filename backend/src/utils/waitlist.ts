@@ -0,0 +1,179 @@
+import { ObjectId } from "mongodb";
+import { getDb } from "../db/client";
+import { collections } from "../db/collections";
+import { releaseEventSeat, reserveEventSeat } from "./capacity";
+import { queueTicketEmailSafe } from "./emailOutbox";
+import { getPaymentHoldExpiry, schedulePaymentHoldExpirySafe } from "./paymentHolds";
+import { buildTicketDoc, type StoredTicketDoc } from "./tickets";
+
+type PersistedEventStatus = "DRAFT" | "PUBLISHED" | "CLOSED" | "COMPLETED";
+type ParticipationStatus =
+  | "pending"
+  | "confirmed"
+  | "waitlisted"
+  | "cancelled"
+  | "rejected";
+
+type WaitlistEventDoc = {
+  _id: ObjectId;
+  name: string;
+  type: "NORMAL" | "MERCH";
+  status: PersistedEventStatus;
+  endDate: Date;
+  regFee: number;
+  requiresApproval?: boolean;
+};
+
+type WaitlistParticipationDoc = {
+  _id: ObjectId;
+  eventId: ObjectId;
+  userId: ObjectId;
+  status: ParticipationStatus;
+  updatedAt: Date;
+  ticketId?: string;
+  waitlistedAt?: Date;
+  promotedAt?: Date;
+  paymentHoldExpiresAt?: Date;
+};
+
+type WaitlistPaymentDoc = {
+  _id: ObjectId;
+  registrationId: ObjectId;
+  status: "pending" | "approved" | "rejected";
+};
+
+type WaitlistUserDoc = {
+  _id: ObjectId;
+  email: string;
+  name: string;
+};
+
+// 1-based queue position; ties on waitlistedAt are broken by _id
+export async function getWaitlistPosition(participation: {
+  _id: ObjectId;
+  eventId: ObjectId;
+  waitlistedAt?: Date | undefined;
+}): Promise<number> {
+  const waitlistedAt = participation.waitlistedAt ?? participation._id.getTimestamp();
+  const ahead = await getDb()
+    .collection<WaitlistParticipationDoc>(collections.registrations)
+    .countDocuments({
+      eventId: participation.eventId,
+      status: "waitlisted",
+      $or: [
+        { waitlistedAt: { $lt: waitlistedAt } },
+        { waitlistedAt, _id: { $lt: participation._id } },
+      ],
+    });
+
+  return ahead + 1;
+}
+
+// fills free seats from the head of the waitlist; returns promoted participation ids.
+// on approval events a promoted entry holds the seat as pending until an organizer reviews it,
+// and on paid events until its payment proof is approved (or the hold expires)
+export async function promoteWaitlistedParticipations(params: {
+  eventId: ObjectId;
+  now?: Date;
+}): Promise<ObjectId[]> {
+  const db = getDb();
+  const events = db.collection<WaitlistEventDoc>(collections.events);
+  const participations = db.collection<WaitlistParticipationDoc>(
+    collections.registrations,
+  );
+  const tickets = db.collection<StoredTicketDoc>(collections.tickets);
+  const payments = db.collection<WaitlistPaymentDoc>(collections.payments);
+  const users = db.collection<WaitlistUserDoc>(collections.users);
+
+  const now = params.now ?? new Date();
+  const event = await events.findOne({ _id: params.eventId });
+  if (!event || event.type !== "NORMAL") return [];
+  if (event.status !== "PUBLISHED" && event.status !== "CLOSED") return [];
+  if (now > event.endDate) return [];
+
+  const promotedIds: ObjectId[] = [];
+  const requiresApproval = event.requiresApproval === true;
+  const holdsPayment = !requiresApproval && event.regFee > 0;
+
+  // the seat is reserved before the flip so concurrent promoters cannot overfill
+  while (await reserveEventSeat(event._id)) {
+    const promoted = await participations.findOneAndUpdate(
+      { eventId: event._id, status: "waitlisted" },
+      {
+        $set: {
+          status: requiresApproval || holdsPayment ? "pending" : "confirmed",
+          promotedAt: now,
+          updatedAt: now,
+          ...(holdsPayment ? { paymentHoldExpiresAt: getPaymentHoldExpiry(now) } : {}),
+        },
+      },
+      { sort: { waitlistedAt: 1, _id: 1 }, returnDocument: "after" },
+    );
+    if (!promoted) {
+      await releaseEventSeat(event._id);
+      break;
+    }
+
+    if (requiresApproval || holdsPayment) {
+      promotedIds.push(promoted._id);
+      continue;
+    }
+
+    const ticket = buildTicketDoc({
+      eventId: event._id,
+      userId: promoted.userId,
+      participationId: promoted._id,
+      eventType: "NORMAL",
+      now,
+    });
+
+    await tickets.insertOne(ticket);
+    await participations.updateOne(
+      { _id: promoted._id },
+      { $set: { ticketId: ticket.ticketId } },
+    );
+    await payments.updateOne(
+      { registrationId: promoted._id, status: "pending" },
+      { $set: { status: "approved" } },
+    );
+
+    const participant = await users.findOne({ _id: promoted.userId });
+    if (participant) {
+      await queueTicketEmailSafe(
+        {
+          toEmail: participant.email,
+          toName: participant.name,
+          eventName: event.name,
+          eventType: event.type,
+          ticketId: ticket.ticketId,
+          qrPayload: ticket.qrPayload,
+        },
+        {
+          eventId: ticket.eventId,
+          userId: ticket.userId,
+          participationId: ticket.participationId,
+        },
+      );
+    }
+
+    promotedIds.push(promoted._id);
+  }
+
+  if (holdsPayment && promotedIds.length > 0) {
+    await schedulePaymentHoldExpirySafe(event._id);
+  }
+
+  return promotedIds;
+}
+
+export async function promoteWaitlistedParticipationsSafe(params: {
+  eventId: ObjectId;
+  now?: Date;
+}): Promise<void> {
+  try {
+    await promoteWaitlistedParticipations(params);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "unknown error";
+    console.warn(`waitlist promotion failed: ${message}`);
+  }
+}
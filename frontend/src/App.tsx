@@ -1,15 +1,25 @@
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import Login from "./pages/Login";
 import Signup from "./pages/Signup";
+import ForgotPassword from "./pages/ForgotPassword";
+import ResetPassword from "./pages/ResetPassword";
+import GateScanner from "./pages/GateScanner";
+import CertificateVerify from "./pages/CertificateVerify";
 import ParticipantDashboard from "./pages/ParticipantDashboard";
 import OrganizerDashboard from "./pages/OrganizerDashboard";
 import CreateEventWizard from "./pages/organizer/CreateEventWizard";
 import OrganizerEventDetail from "./pages/organizer/EventDetail";
 import OngoingEvents from "./pages/organizer/OngoingEvents";
 import OrganizerProfile from "./pages/organizer/OrganizerProfile";
+import TeamMembers from "./pages/organizer/TeamMembers";
+import CertificateTemplates from "./pages/organizer/CertificateTemplates";
 import AdminHome from "./pages/admin/AdminHome";
 import ManageOrganizers from "./pages/admin/ManageOrganizers";
 import AdminPasswordResetRequests from "./pages/admin/AdminPasswordResetRequests";
+import AdminEmailOutbox from "./pages/admin/AdminEmailOutbox";
+import AdminAuditLogs from "./pages/admin/AdminAuditLogs";
+import AdminLoginLockouts from "./pages/admin/AdminLoginLockouts";
+import AdminRefunds from "./pages/admin/AdminRefunds";
 import AppNav from "./components/AppNav";
 import ProtectedRoute from "./components/ProtectedRoute";
 import BrowseEvents from "./pages/participant/BrowseEvents";
@@ -19,6 +29,8 @@ import TicketDetail from "./pages/participant/TicketDetail";
 import Organizers from "./pages/participant/Organizers";
 import OrganizerDetail from "./pages/participant/OrganizerDetail";
 import Profile from "./pages/participant/Profile";
+import Teams from "./pages/participant/Teams";
+import Certificates from "./pages/participant/Certificates";
 import { AuthProvider, useAuth } from "./lib/authState";
 
 function pathForRole(role: "participant" | "organizer" | "admin"): string {
@@ -45,6 +57,11 @@ export default function App() {
           <Route path="/" element={<Navigate to="/login" replace />} />
           <Route path="/login" element={<Login />} />
           <Route path="/signup" element={<Signup />} />
+          <Route path="/forgot-password" element={<ForgotPassword />} />
+          <Route path="/reset-password" element={<ResetPassword />} />
+          <Route path="/scanner" element={<GateScanner />} />
+          <Route path="/certificates/verify" element={<CertificateVerify />} />
+          <Route path="/certificates/verify/:code" element={<CertificateVerify />} />
 
           <Route element={<ProtectedRoute roles={["participant"]} />}>
             <Route path="/participant" element={<ParticipantDashboard />} />
@@ -55,6 +72,9 @@ export default function App() {
             <Route path="/participant/organizers" element={<Organizers />} />
             <Route path="/participant/organizers/:organizerId" element={<OrganizerDetail />} />
             <Route path="/participant/profile" element={<Profile />} />
+            <Route path="/participant/teams" element={<Teams />} />
+            <Route path="/participant/certificates" element={<Certificates />} />
+            <Route path="/participant/teams/events/:eventId" element={<OrganizerEventDetail />} />
           </Route>
 
           <Route element={<ProtectedRoute roles={["organizer"]} />}>
@@ -63,6 +83,8 @@ export default function App() {
             <Route path="/organizer/events/new" element={<CreateEventWizard />} />
             <Route path="/organizer/events/:eventId" element={<OrganizerEventDetail />} />
             <Route path="/organizer/ongoing" element={<OngoingEvents />} />
+            <Route path="/organizer/team" element={<TeamMembers />} />
+            <Route path="/organizer/certificates" element={<CertificateTemplates />} />
           </Route>
 
           <Route element={<ProtectedRoute roles={["admin"]} />}>
@@ -72,6 +94,10 @@ export default function App() {
               path="/admin/password-reset-requests"
               element={<AdminPasswordResetRequests />}
             />
+            <Route path="/admin/email-outbox" element={<AdminEmailOutbox />} />
+            <Route path="/admin/login-lockouts" element={<AdminLoginLockouts />} />
+            <Route path="/admin/refunds" element={<AdminRefunds />} />
+            <Route path="/admin/audit-logs" element={<AdminAuditLogs />} />
           </Route>
 
           <Route path="*" element={<NotFoundRedirect />} />
@@ -14,18 +14,26 @@ const roleMenus: Record<AuthUser["role"], NavItem[]> = {
     { label: "Browse Events", to: "/participant/events" },
     { label: "Clubs/Organizers", to: "/participant/organizers" },
     { label: "My Events", to: "/participant/my-events" },
+    { label: "Teams", to: "/participant/teams" },
+    { label: "Certificates", to: "/participant/certificates" },
     { label: "Profile", to: "/participant/profile" },
   ],
   organizer: [
     { label: "Dashboard", to: "/organizer" },
     { label: "Create Event", to: "/organizer/events/new" },
     { label: "Ongoing Events", to: "/organizer/ongoing" },
+    { label: "Team", to: "/organizer/team" },
+    { label: "Certificates", to: "/organizer/certificates" },
     { label: "Profile", to: "/organizer/profile" },
   ],
   admin: [
     { label: "Dashboard", to: "/admin" },
     { label: "Manage Clubs/Organizers", to: "/admin/organizers" },
     { label: "Password Reset Requests", to: "/admin/password-reset-requests" },
+    { label: "Email Outbox", to: "/admin/email-outbox" },
+    { label: "Refunds", to: "/admin/refunds" },
+    { label: "Login Lockouts", to: "/admin/login-lockouts" },
+    { label: "Audit Log", to: "/admin/audit-logs" },
   ],
 };
 
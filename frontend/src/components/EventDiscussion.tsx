@@ -0,0 +1,525 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Alert, Badge, Button, Card, Form, Spinner } from "react-bootstrap";
+import { apiFetch } from "../lib/api";
+import { connectRealtime } from "../lib/realtime";
+
+type DiscussionMessage = {
+  id: string;
+  eventId: string;
+  parentId: string | null;
+  authorId: string;
+  authorRole: "participant" | "organizer";
+  authorName: string;
+  content: string;
+  pinned: boolean;
+  replyCount: number;
+  isDeleted: boolean;
+  createdAt: string;
+  updatedAt: string;
+  lastReplyAt: string | null;
+};
+
+type DiscussionThread = DiscussionMessage & {
+  replies: DiscussionMessage[];
+};
+
+type DiscussionViewer = {
+  userId: string;
+  role: "participant" | "organizer";
+  canModerate: boolean;
+  isMuted: boolean;
+};
+
+type MutedUser = {
+  userId: string;
+  reason: string | null;
+  createdAt: string;
+};
+
+type DiscussionResponse = {
+  viewer: DiscussionViewer;
+  threads: DiscussionThread[];
+  mutedUsers: MutedUser[];
+};
+
+type MuteUpdate = {
+  userId: string;
+  muted: boolean;
+  reason?: string | null;
+  createdAt?: string;
+};
+
+type EventDiscussionProps = {
+  eventId: string;
+};
+
+async function readErrorMessage(res: Response): Promise<string> {
+  try {
+    const data = await res.json();
+    return data?.error?.message || "Request failed";
+  } catch {
+    return "Request failed";
+  }
+}
+
+function formatDate(value: string): string {
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return "-";
+  return parsed.toLocaleString();
+}
+
+function lastActivity(thread: DiscussionThread): number {
+  return new Date(thread.lastReplyAt ?? thread.createdAt).getTime();
+}
+
+// applies a live message change to thread state, ignoring ones already present
+function mergeMessage(
+  threads: DiscussionThread[],
+  message: DiscussionMessage,
+  mode: "insert" | "update",
+): DiscussionThread[] {
+  if (!message.parentId) {
+    const existing = threads.find((thread) => thread.id === message.id);
+    if (!existing) {
+      return mode === "insert" ? [{ ...message, replies: [] }, ...threads] : threads;
+    }
+    return threads.map((thread) =>
+      thread.id === message.id ? { ...message, replies: thread.replies } : thread,
+    );
+  }
+
+  return threads.map((thread) => {
+    if (thread.id !== message.parentId) return thread;
+
+    const hasReply = thread.replies.some((reply) => reply.id === message.id);
+    if (!hasReply) {
+      return mode === "insert" ? { ...thread, replies: [...thread.replies, message] } : thread;
+    }
+    return {
+      ...thread,
+      replies: thread.replies.map((reply) => (reply.id === message.id ? message : reply)),
+    };
+  });
+}
+
+export default function EventDiscussion({ eventId }: EventDiscussionProps) {
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [viewer, setViewer] = useState<DiscussionViewer | null>(null);
+  const [threads, setThreads] = useState<DiscussionThread[]>([]);
+  const [mutedUsers, setMutedUsers] = useState<MutedUser[]>([]);
+  const [live, setLive] = useState(false);
+
+  const [newThreadContent, setNewThreadContent] = useState("");
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({});
+  const [openReplyId, setOpenReplyId] = useState<string | null>(null);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const loadDiscussion = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await apiFetch(`/api/discussion/events/${eventId}`);
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      const data = (await res.json()) as DiscussionResponse;
+      setViewer(data.viewer);
+      setThreads(data.threads ?? []);
+      setMutedUsers(data.mutedUsers ?? []);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load discussion");
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    void loadDiscussion();
+  }, [loadDiscussion]);
+
+  useEffect(() => {
+    const socket = connectRealtime();
+
+    const joinRoom = () => {
+      socket.emit("discussion:join", { eventId }, (result: { ok: boolean }) => {
+        setLive(result.ok);
+      });
+    };
+
+    socket.on("connect", joinRoom);
+    socket.on("disconnect", () => setLive(false));
+    socket.on("discussion:message", (message: DiscussionMessage) => {
+      setThreads((prev) => mergeMessage(prev, message, "insert"));
+    });
+    socket.on("discussion:message-updated", (message: DiscussionMessage) => {
+      setThreads((prev) => mergeMessage(prev, message, "update"));
+    });
+    socket.on("discussion:message-deleted", (message: DiscussionMessage) => {
+      setThreads((prev) => mergeMessage(prev, message, "update"));
+    });
+    socket.on("discussion:mute-updated", (update: MuteUpdate) => {
+      setViewer((prev) =>
+        prev && prev.userId === update.userId ? { ...prev, isMuted: update.muted } : prev,
+      );
+      setMutedUsers((prev) => {
+        const rest = prev.filter((entry) => entry.userId !== update.userId);
+        if (!update.muted) return rest;
+        return [
+          {
+            userId: update.userId,
+            reason: update.reason ?? null,
+            createdAt: update.createdAt ?? new Date().toISOString(),
+          },
+          ...rest,
+        ];
+      });
+    });
+
+    return () => {
+      socket.emit("discussion:leave", { eventId });
+      socket.disconnect();
+    };
+  }, [eventId]);
+
+  const sortedThreads = useMemo(
+    () =>
+      [...threads].sort((a, b) => {
+        if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+        return lastActivity(b) - lastActivity(a);
+      }),
+    [threads],
+  );
+
+  const mutedUserIds = useMemo(
+    () => new Set(mutedUsers.map((entry) => entry.userId)),
+    [mutedUsers],
+  );
+
+  const authorNames = useMemo(() => {
+    const names = new Map<string, string>();
+    for (const thread of threads) {
+      names.set(thread.authorId, thread.authorName);
+      for (const reply of thread.replies) names.set(reply.authorId, reply.authorName);
+    }
+    return names;
+  }, [threads]);
+
+  async function runAction(key: string, action: () => Promise<Response>) {
+    setBusyKey(key);
+    setError(null);
+
+    try {
+      const res = await action();
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+      return (await res.json()) as unknown;
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : "Request failed");
+      return null;
+    } finally {
+      setBusyKey(null);
+    }
+  }
+
+  async function postMessage(content: string, parentId?: string) {
+    const data = (await runAction(parentId ? `reply-${parentId}` : "new-thread", () =>
+      apiFetch(`/api/discussion/events/${eventId}/messages`, {
+        method: "POST",
+        body: JSON.stringify(parentId ? { content, parentId } : { content }),
+      }),
+    )) as { message?: DiscussionMessage } | null;
+
+    if (!data?.message) return false;
+    setThreads((prev) => mergeMessage(prev, data.message as DiscussionMessage, "insert"));
+    return true;
+  }
+
+  async function submitThread(formEvent: React.FormEvent<HTMLFormElement>) {
+    formEvent.preventDefault();
+    if (await postMessage(newThreadContent)) {
+      setNewThreadContent("");
+    }
+  }
+
+  async function submitReply(threadId: string) {
+    const content = replyDrafts[threadId] ?? "";
+    if (await postMessage(content, threadId)) {
+      setReplyDrafts((prev) => ({ ...prev, [threadId]: "" }));
+      setOpenReplyId(null);
+    }
+  }
+
+  async function togglePin(thread: DiscussionThread) {
+    const data = (await runAction(`pin-${thread.id}`, () =>
+      apiFetch(`/api/discussion/events/${eventId}/messages/${thread.id}/pin`, {
+        method: "PATCH",
+        body: JSON.stringify({ pinned: !thread.pinned }),
+      }),
+    )) as { message?: DiscussionMessage } | null;
+
+    if (data?.message) {
+      setThreads((prev) => mergeMessage(prev, data.message as DiscussionMessage, "update"));
+    }
+  }
+
+  async function deleteMessage(message: DiscussionMessage) {
+    if (!window.confirm("Delete this message?")) return;
+
+    const data = (await runAction(`delete-${message.id}`, () =>
+      apiFetch(`/api/discussion/events/${eventId}/messages/${message.id}`, {
+        method: "DELETE",
+      }),
+    )) as { message?: DiscussionMessage } | null;
+
+    if (data?.message) {
+      setThreads((prev) => mergeMessage(prev, data.message as DiscussionMessage, "update"));
+    }
+  }
+
+  async function setMuted(userId: string, muted: boolean) {
+    const data = (await runAction(`mute-${userId}`, () =>
+      muted
+        ? apiFetch(`/api/discussion/events/${eventId}/mutes`, {
+            method: "POST",
+            body: JSON.stringify({ userId }),
+          })
+        : apiFetch(`/api/discussion/events/${eventId}/mutes/${userId}`, {
+            method: "DELETE",
+          }),
+    )) as { mute?: MuteUpdate } | null;
+
+    if (!data?.mute) return;
+    const update = data.mute;
+    setMutedUsers((prev) => {
+      const rest = prev.filter((entry) => entry.userId !== update.userId);
+      if (!update.muted) return rest;
+      return [
+        {
+          userId: update.userId,
+          reason: update.reason ?? null,
+          createdAt: update.createdAt ?? new Date().toISOString(),
+        },
+        ...rest,
+      ];
+    });
+  }
+
+  function renderMessageActions(message: DiscussionMessage, isThread: boolean) {
+    if (!viewer || message.isDeleted) return null;
+
+    const canDelete = viewer.canModerate || message.authorId === viewer.userId;
+    const canMuteAuthor =
+      viewer.canModerate && message.authorRole === "participant";
+    const authorMuted = mutedUserIds.has(message.authorId);
+
+    return (
+      <div className="d-flex gap-2 flex-wrap">
+        {isThread && viewer.canModerate ? (
+          <Button
+            size="sm"
+            variant="outline-primary"
+            disabled={busyKey === `pin-${message.id}`}
+            onClick={() => {
+              void togglePin(message as DiscussionThread);
+            }}
+          >
+            {message.pinned ? "Unpin" : "Pin"}
+          </Button>
+        ) : null}
+        {canDelete ? (
+          <Button
+            size="sm"
+            variant="outline-danger"
+            disabled={busyKey === `delete-${message.id}`}
+            onClick={() => {
+              void deleteMessage(message);
+            }}
+          >
+            Delete
+          </Button>
+        ) : null}
+        {canMuteAuthor ? (
+          <Button
+            size="sm"
+            variant="outline-secondary"
+            disabled={busyKey === `mute-${message.authorId}`}
+            onClick={() => {
+              void setMuted(message.authorId, !authorMuted);
+            }}
+          >
+            {authorMuted ? "Unmute Author" : "Mute Author"}
+          </Button>
+        ) : null}
+      </div>
+    );
+  }
+
+  function renderMessageBody(message: DiscussionMessage) {
+    return (
+      <>
+        <div className="d-flex gap-2 align-items-center flex-wrap small text-muted mb-1">
+          <span className="fw-semibold text-body">{message.authorName}</span>
+          {message.authorRole === "organizer" ? <Badge bg="primary">Organizer</Badge> : null}
+          {message.pinned ? <Badge bg="warning">Pinned</Badge> : null}
+          <span>{formatDate(message.createdAt)}</span>
+        </div>
+        {message.isDeleted ? (
+          <div className="fst-italic text-muted">This message was deleted.</div>
+        ) : (
+          <div style={{ whiteSpace: "pre-wrap" }}>{message.content}</div>
+        )}
+      </>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="d-flex align-items-center gap-2 mt-3">
+        <Spinner animation="border" size="sm" />
+        <span>Loading discussion...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 d-grid gap-3">
+      {error ? <Alert variant="danger">{error}</Alert> : null}
+
+      <div className="d-flex justify-content-between align-items-center">
+        <h2 className="h6 mb-0">Discussion</h2>
+        <Badge bg={live ? "success" : "secondary"}>{live ? "Live" : "Offline"}</Badge>
+      </div>
+
+      {viewer?.isMuted ? (
+        <Alert variant="warning" className="mb-0">
+          You have been muted by the organizer and cannot post in this discussion.
+        </Alert>
+      ) : (
+        <Form onSubmit={submitThread}>
+          <Form.Group controlId="discussion-new-thread">
+            <Form.Control
+              as="textarea"
+              rows={3}
+              maxLength={2000}
+              placeholder="Start a new thread"
+              value={newThreadContent}
+              onChange={(currentEvent) => setNewThreadContent(currentEvent.target.value)}
+              required
+            />
+          </Form.Group>
+          <div className="mt-2">
+            <Button type="submit" disabled={busyKey === "new-thread"}>
+              {busyKey === "new-thread" ? "Posting..." : "Post Thread"}
+            </Button>
+          </div>
+        </Form>
+      )}
+
+      {viewer?.canModerate && mutedUsers.length > 0 ? (
+        <Card className="border">
+          <Card.Body>
+            <Card.Title className="h6 mb-2">Muted Participants</Card.Title>
+            <div className="d-grid gap-2">
+              {mutedUsers.map((entry) => (
+                <div
+                  key={`muted-${entry.userId}`}
+                  className="d-flex justify-content-between align-items-center gap-2"
+                >
+                  <span>
+                    {authorNames.get(entry.userId) ?? entry.userId}
+                    {entry.reason ? (
+                      <span className="small text-muted"> ({entry.reason})</span>
+                    ) : null}
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="outline-secondary"
+                    disabled={busyKey === `mute-${entry.userId}`}
+                    onClick={() => {
+                      void setMuted(entry.userId, false);
+                    }}
+                  >
+                    Unmute
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </Card.Body>
+        </Card>
+      ) : null}
+
+      {sortedThreads.length === 0 ? (
+        <Card className="border">
+          <Card.Body className="text-muted">No threads yet. Start the conversation.</Card.Body>
+        </Card>
+      ) : (
+        sortedThreads.map((thread) => (
+          <Card
+            className={thread.pinned ? "border border-warning" : "border"}
+            key={`thread-${thread.id}`}
+          >
+            <Card.Body>
+              {renderMessageBody(thread)}
+              <div className="d-flex gap-2 flex-wrap mt-2">
+                {!thread.isDeleted && !viewer?.isMuted ? (
+                  <Button
+                    size="sm"
+                    variant="outline-success"
+                    onClick={() =>
+                      setOpenReplyId((prev) => (prev === thread.id ? null : thread.id))
+                    }
+                  >
+                    Reply
+                  </Button>
+                ) : null}
+                {renderMessageActions(thread, true)}
+              </div>
+
+              {thread.replies.length > 0 ? (
+                <div className="mt-3 ps-3 border-start d-grid gap-3">
+                  {thread.replies.map((reply) => (
+                    <div key={`reply-${reply.id}`}>
+                      {renderMessageBody(reply)}
+                      <div className="mt-1">{renderMessageActions(reply, false)}</div>
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+
+              {openReplyId === thread.id ? (
+                <div className="mt-3">
+                  <Form.Control
+                    as="textarea"
+                    rows={2}
+                    maxLength={2000}
+                    placeholder="Write a reply"
+                    value={replyDrafts[thread.id] ?? ""}
+                    onChange={(currentEvent) =>
+                      setReplyDrafts((prev) => ({
+                        ...prev,
+                        [thread.id]: currentEvent.target.value,
+                      }))
+                    }
+                  />
+                  <Button
+                    size="sm"
+                    className="mt-2"
+                    disabled={
+                      busyKey === `reply-${thread.id}` ||
+                      !(replyDrafts[thread.id] ?? "").trim()
+                    }
+                    onClick={() => {
+                      void submitReply(thread.id);
+                    }}
+                  >
+                    Send Reply
+                  </Button>
+                </div>
+              ) : null}
+            </Card.Body>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { Alert, Button } from "react-bootstrap";
+
+type RecoveryCodesListProps = {
+  codes: string[];
+};
+
+// recovery codes are only ever shown once, right after they are generated
+export default function RecoveryCodesList({ codes }: RecoveryCodesListProps) {
+  return (
+    <div>
+      <Alert variant="warning" className="py-2">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+        authenticator, and they won't be shown again.
+      </Alert>
+      <pre className="border rounded p-2 mb-2 text-center">{codes.join("\n")}</pre>
+      <Button
+        size="sm"
+        variant="outline-secondary"
+        onClick={() => {
+          void navigator.clipboard?.writeText(codes.join("\n"));
+        }}
+      >
+        Copy codes
+      </Button>
+    </div>
+  );
+}
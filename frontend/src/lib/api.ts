@@ -41,8 +41,7 @@ export function resolveApiUrl(pathOrUrl: string): string {
   }
 }
 
-// reusable function that handles API requests from the frontend to the backend
-export async function apiFetch(path: string, options: RequestInit = {}) {
+function rawApiFetch(path: string, options: RequestInit = {}) {
   const isFormDataBody =
     typeof FormData !== "undefined" && options.body instanceof FormData;
 
@@ -55,3 +54,44 @@ export async function apiFetch(path: string, options: RequestInit = {}) {
     },
   });
 }
+
+// a 401 from these means bad credentials, a bad challenge or reset token, or no session at all,
+// not an expired access token
+const NO_REFRESH_PATHS = new Set([
+  "/api/auth/login",
+  "/api/auth/login/2fa",
+  "/api/auth/login/2fa/setup",
+  "/api/auth/login/2fa/setup/confirm",
+  "/api/auth/forgot-password",
+  "/api/auth/reset-password",
+  "/api/auth/signup",
+  "/api/auth/refresh",
+  "/api/auth/logout",
+]);
+
+let refreshInFlight: Promise<boolean> | null = null;
+
+// access tokens are short-lived; trade the refresh cookie for a new one
+// concurrent callers share one request because each refresh token only works once
+export function refreshAuthSession(): Promise<boolean> {
+  if (!refreshInFlight) {
+    refreshInFlight = rawApiFetch("/api/auth/refresh", { method: "POST" })
+      .then((res) => res.ok)
+      .catch(() => false)
+      .finally(() => {
+        refreshInFlight = null;
+      });
+  }
+
+  return refreshInFlight;
+}
+
+// reusable function that handles API requests from the frontend to the backend
+export async function apiFetch(path: string, options: RequestInit = {}) {
+  const res = await rawApiFetch(path, options);
+  if (res.status !== 401 || NO_REFRESH_PATHS.has(path)) return res;
+
+  // expired access token: refresh once and replay the request
+  if (!(await refreshAuthSession())) return res;
+  return rawApiFetch(path, options);
+}
@@ -10,6 +10,23 @@ export type AuthUser = {
   createdAt: string;
 };
 
+// admin/organizer accounts with 2FA get a challenge instead of a session after the password step
+export type LoginChallenge = {
+  purpose: "verify" | "setup";
+  challengeToken: string;
+  expiresAt: string;
+};
+
+export type LoginResult =
+  | { user: AuthUser; twoFactor?: undefined }
+  | { user?: undefined; twoFactor: LoginChallenge };
+
+export type TwoFactorProvisioning = {
+  secret: string;
+  otpauthUri: string;
+  qrDataUrl: string;
+};
+
 async function readErrorMessage(res: Response): Promise<string> {
   try {
     const data = await res.json();
@@ -22,7 +39,7 @@ async function readErrorMessage(res: Response): Promise<string> {
 export async function login(
   email: string,
   password: string,
-): Promise<AuthUser> {
+): Promise<LoginResult> {
   const res = await apiFetch("/api/auth/login", {
     method: "POST",
     body: JSON.stringify({ email, password }),
@@ -31,7 +48,54 @@ export async function login(
   if (!res.ok) throw new Error(await readErrorMessage(res));
 
   const data = await res.json();
-  return data.user as AuthUser;
+  if (data.twoFactor) return { twoFactor: data.twoFactor as LoginChallenge };
+  return { user: data.user as AuthUser };
+}
+
+export async function verifyLoginTwoFactor(
+  challengeToken: string,
+  factor: { code: string } | { recoveryCode: string },
+): Promise<{ user: AuthUser; recoveryCodesRemaining: number }> {
+  const res = await apiFetch("/api/auth/login/2fa", {
+    method: "POST",
+    body: JSON.stringify({ challengeToken, ...factor }),
+  });
+
+  if (!res.ok) throw new Error(await readErrorMessage(res));
+
+  const data = await res.json();
+  return {
+    user: data.user as AuthUser,
+    recoveryCodesRemaining: Number(data.recoveryCodesRemaining ?? 0),
+  };
+}
+
+export async function startLoginTwoFactorSetup(
+  challengeToken: string,
+): Promise<TwoFactorProvisioning> {
+  const res = await apiFetch("/api/auth/login/2fa/setup", {
+    method: "POST",
+    body: JSON.stringify({ challengeToken }),
+  });
+
+  if (!res.ok) throw new Error(await readErrorMessage(res));
+
+  return (await res.json()) as TwoFactorProvisioning;
+}
+
+export async function confirmLoginTwoFactorSetup(
+  challengeToken: string,
+  code: string,
+): Promise<{ user: AuthUser; recoveryCodes: string[] }> {
+  const res = await apiFetch("/api/auth/login/2fa/setup/confirm", {
+    method: "POST",
+    body: JSON.stringify({ challengeToken, code }),
+  });
+
+  if (!res.ok) throw new Error(await readErrorMessage(res));
+
+  const data = await res.json();
+  return { user: data.user as AuthUser, recoveryCodes: (data.recoveryCodes ?? []) as string[] };
 }
 
 export async function getMe(): Promise<AuthUser | null> {
@@ -72,3 +136,24 @@ export async function signup(
   const data = await res.json();
   return data.user as AuthUser;
 }
+
+export async function requestPasswordReset(email: string): Promise<string> {
+  const res = await apiFetch("/api/auth/forgot-password", {
+    method: "POST",
+    body: JSON.stringify({ email }),
+  });
+
+  if (!res.ok) throw new Error(await readErrorMessage(res));
+
+  const data = await res.json();
+  return (data?.message as string | undefined) ?? "Check your inbox for a reset link.";
+}
+
+export async function resetPassword(token: string, newPassword: string): Promise<void> {
+  const res = await apiFetch("/api/auth/reset-password", {
+    method: "POST",
+    body: JSON.stringify({ token, newPassword }),
+  });
+
+  if (!res.ok) throw new Error(await readErrorMessage(res));
+}
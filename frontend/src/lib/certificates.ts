@@ -0,0 +1,37 @@
+// participation certificates shared by the participant pages
+import { apiFetch } from "./api";
+import { readApiErrorMessage } from "./errors";
+
+export type ParticipantCertificate = {
+  id: string;
+  code: string;
+  eventId: string;
+  participantName: string;
+  eventName: string;
+  organizerName: string;
+  eventStartDate: string;
+  eventEndDate: string;
+  issuedAt: string;
+  emailedAt: string | null;
+  verifyUrl: string;
+};
+
+// the pdf needs the auth header, so it is fetched and saved instead of linked
+export async function downloadCertificatePdf(eventId: string): Promise<void> {
+  const res = await apiFetch(`/api/certificates/events/${eventId}/pdf`);
+  if (!res.ok) throw new Error(await readApiErrorMessage(res));
+
+  const blob = await res.blob();
+  const header = res.headers.get("content-disposition") ?? "";
+  const filenameMatch = header.match(/filename="?([^"]+)"?/i);
+  const filename = filenameMatch?.[1] ?? "certificate.pdf";
+
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = filename;
+  document.body.append(anchor);
+  anchor.click();
+  anchor.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,314 @@
+// offline attendance scanning: a signed manifest of valid tickets and a queue of scans taken while
+// the network is down, both kept in localStorage per event until they are synced
+import { apiFetch } from "./api";
+import { readApiErrorMessage } from "./errors";
+
+export type ManifestCheckpoint = {
+  key: string;
+  name: string;
+  scanLimit: number;
+};
+
+export type ManifestTicket = {
+  ticketId: string;
+  participationId: string;
+  userId: string;
+  participantName: string;
+  isPresent: boolean;
+  markedAt: string | null;
+  // counted scans per checkpoint key; missing on manifests saved before checkpoints
+  scanCounts?: Record<string, number>;
+};
+
+export type AttendanceManifest = {
+  // missing on manifests saved before the server kept a record of each download
+  manifestId?: string;
+  eventId: string;
+  eventName: string;
+  generatedAt: string;
+  validUntil: string;
+  checkpoints?: ManifestCheckpoint[];
+  tickets: ManifestTicket[];
+};
+
+type SigningKey = JsonWebKey & { kid?: string };
+
+export type StoredManifest = {
+  jws: string;
+  manifest: AttendanceManifest;
+  keys: SigningKey[];
+  // false when this browser cannot check Ed25519 signatures; scans are still checked on sync
+  verified: boolean;
+};
+
+export type QueuedScan = {
+  clientScanId: string;
+  ticketId: string;
+  qrPayload?: string;
+  checkpointKey?: string;
+  scannedAt: string;
+  // the manifest this scan was checked against; the server bounds the scan time by its download
+  manifestId?: string;
+  participantName: string;
+};
+
+export type OfflineScanCheck =
+  | { status: "queued"; scan: QueuedScan }
+  | { status: "duplicate"; message: string }
+  | { status: "invalid"; message: string };
+
+export type OfflineSyncStatus =
+  | "marked"
+  | "moved_earlier"
+  | "already_marked"
+  | "superseded"
+  | "rejected";
+
+export type OfflineSyncResult = {
+  clientScanId: string;
+  status: OfflineSyncStatus;
+  message: string | null;
+  ticketId: string | null;
+  participantName: string | null;
+  checkpointKey: string | null;
+  scanCount: number | null;
+  markedAt: string | null;
+};
+
+const MANIFEST_STORAGE_PREFIX = "offlineAttendanceManifest:";
+const QUEUE_STORAGE_PREFIX = "offlineAttendanceQueue:";
+// matches the server's per-request limit
+const SYNC_BATCH_SIZE = 500;
+// what the server uses for events without configured checkpoints
+const DEFAULT_CHECKPOINT: ManifestCheckpoint = { key: "main", name: "Entry", scanLimit: 1 };
+
+function base64UrlToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+}
+
+function decodeJwsPart(part: string): unknown {
+  return JSON.parse(new TextDecoder().decode(base64UrlToBytes(part)));
+}
+
+// true/false for a checked signature, null when the browser has no Ed25519 support
+async function verifyJws(jws: string, keys: SigningKey[]): Promise<boolean | null> {
+  const parts = jws.split(".");
+  if (parts.length !== 3) return false;
+  const [encodedHeader, encodedPayload, encodedSignature] = parts as [string, string, string];
+
+  let kid: unknown;
+  try {
+    kid = (decodeJwsPart(encodedHeader) as { kid?: unknown }).kid;
+  } catch {
+    return false;
+  }
+  const jwk = keys.find((key) => key.kid === kid);
+  if (!jwk?.x) return false;
+
+  let key: CryptoKey;
+  try {
+    key = await crypto.subtle.importKey(
+      "jwk",
+      { kty: "OKP", crv: "Ed25519", x: jwk.x },
+      { name: "Ed25519" },
+      false,
+      ["verify"],
+    );
+  } catch {
+    return null;
+  }
+
+  return crypto.subtle.verify(
+    { name: "Ed25519" },
+    key,
+    base64UrlToBytes(encodedSignature),
+    new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`),
+  );
+}
+
+export function getManifestCheckpoints(manifest: AttendanceManifest): ManifestCheckpoint[] {
+  return manifest.checkpoints && manifest.checkpoints.length > 0
+    ? manifest.checkpoints
+    : [DEFAULT_CHECKPOINT];
+}
+
+export function loadOfflineManifest(eventId: string): StoredManifest | null {
+  const raw = window.localStorage.getItem(`${MANIFEST_STORAGE_PREFIX}${eventId}`);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as StoredManifest;
+  } catch {
+    return null;
+  }
+}
+
+export function loadOfflineQueue(eventId: string): QueuedScan[] {
+  const raw = window.localStorage.getItem(`${QUEUE_STORAGE_PREFIX}${eventId}`);
+  if (!raw) return [];
+  try {
+    return JSON.parse(raw) as QueuedScan[];
+  } catch {
+    return [];
+  }
+}
+
+export function saveOfflineQueue(eventId: string, queue: QueuedScan[]): void {
+  if (queue.length === 0) {
+    window.localStorage.removeItem(`${QUEUE_STORAGE_PREFIX}${eventId}`);
+    return;
+  }
+  window.localStorage.setItem(`${QUEUE_STORAGE_PREFIX}${eventId}`, JSON.stringify(queue));
+}
+
+// downloads the manifest with the current signing keys and keeps both for offline use
+export async function downloadOfflineManifest(eventId: string): Promise<StoredManifest> {
+  const [manifestRes, keysRes] = await Promise.all([
+    apiFetch(`/api/events/organizer/${eventId}/attendance/manifest`),
+    apiFetch("/api/tickets/signing-keys"),
+  ]);
+  if (!manifestRes.ok) throw new Error(await readApiErrorMessage(manifestRes));
+  if (!keysRes.ok) throw new Error(await readApiErrorMessage(keysRes));
+
+  const { manifest: jws } = (await manifestRes.json()) as { manifest: string };
+  const { keys } = (await keysRes.json()) as { keys: SigningKey[] };
+
+  const verified = await verifyJws(jws, keys);
+  if (verified === false) {
+    throw new Error("Offline manifest signature could not be verified");
+  }
+
+  const stored: StoredManifest = {
+    jws,
+    manifest: decodeJwsPart(jws.split(".")[1] ?? "") as AttendanceManifest,
+    keys,
+    verified: verified === true,
+  };
+  window.localStorage.setItem(`${MANIFEST_STORAGE_PREFIX}${eventId}`, JSON.stringify(stored));
+  return stored;
+}
+
+// checks a scan against the stored manifest and the checkpoint's scan limit; nothing here needs
+// the network. no checkpointKey means the first checkpoint, as on the server
+export async function checkOfflineScan(
+  stored: StoredManifest,
+  queue: QueuedScan[],
+  input: { ticketId?: string; qrPayload?: string; checkpointKey?: string },
+): Promise<OfflineScanCheck> {
+  const { manifest } = stored;
+  if (new Date(manifest.validUntil).getTime() <= Date.now()) {
+    return { status: "invalid", message: "Offline manifest has expired" };
+  }
+
+  const checkpoints = getManifestCheckpoints(manifest);
+  const checkpoint = input.checkpointKey
+    ? checkpoints.find((entry) => entry.key === input.checkpointKey)
+    : checkpoints[0];
+  if (!checkpoint) {
+    return { status: "invalid", message: "Checkpoint is not in the offline manifest" };
+  }
+
+  let ticket: ManifestTicket | undefined;
+  if (input.qrPayload) {
+    const verified = await verifyJws(input.qrPayload, stored.keys);
+    if (verified === false) {
+      return { status: "invalid", message: "Invalid or unsigned QR payload" };
+    }
+
+    let claims: { ticketId?: unknown; eventId?: unknown; participationId?: unknown };
+    try {
+      claims = decodeJwsPart(input.qrPayload.split(".")[1] ?? "") as typeof claims;
+    } catch {
+      return { status: "invalid", message: "Invalid QR payload" };
+    }
+    if (claims.eventId !== manifest.eventId) {
+      return { status: "invalid", message: "Ticket does not belong to this event" };
+    }
+    ticket = manifest.tickets.find(
+      (entry) =>
+        entry.ticketId === claims.ticketId && entry.participationId === claims.participationId,
+    );
+  } else if (input.ticketId) {
+    ticket = manifest.tickets.find((entry) => entry.ticketId === input.ticketId);
+  }
+
+  if (!ticket) {
+    return { status: "invalid", message: "Ticket is not in the offline manifest" };
+  }
+
+  const queued = queue.filter(
+    (entry) =>
+      entry.ticketId === ticket.ticketId &&
+      (entry.checkpointKey ?? checkpoints[0]?.key) === checkpoint.key,
+  );
+  // manifests from before checkpoints only know whether the ticket was present at all
+  const scannedBefore =
+    ticket.scanCounts?.[checkpoint.key] ??
+    (ticket.scanCounts === undefined && ticket.isPresent ? 1 : 0);
+  if (scannedBefore + queued.length >= checkpoint.scanLimit) {
+    const lastQueued = queued[queued.length - 1];
+    return {
+      status: "duplicate",
+      message: lastQueued
+        ? `${ticket.participantName} has no ${checkpoint.name} scans left (last scanned at ${new Date(
+            lastQueued.scannedAt,
+          ).toLocaleTimeString()}).`
+        : `${ticket.participantName} had no ${checkpoint.name} scans left before going offline.`,
+    };
+  }
+
+  return {
+    status: "queued",
+    scan: {
+      clientScanId: crypto.randomUUID(),
+      ticketId: ticket.ticketId,
+      ...(input.qrPayload ? { qrPayload: input.qrPayload } : {}),
+      checkpointKey: checkpoint.key,
+      scannedAt: new Date().toISOString(),
+      ...(manifest.manifestId ? { manifestId: manifest.manifestId } : {}),
+      participantName: ticket.participantName,
+    },
+  };
+}
+
+// uploads the queue in batches; every scan the server answered for leaves the queue
+export async function syncOfflineQueue(
+  eventId: string,
+  queue: QueuedScan[],
+): Promise<{ results: OfflineSyncResult[]; remaining: QueuedScan[] }> {
+  const results: OfflineSyncResult[] = [];
+  let remaining = queue;
+
+  while (remaining.length > 0) {
+    const batch = remaining.slice(0, SYNC_BATCH_SIZE);
+    const res = await apiFetch(`/api/events/organizer/${eventId}/attendance/sync`, {
+      method: "POST",
+      body: JSON.stringify({
+        scans: batch.map((scan) => ({
+          clientScanId: scan.clientScanId,
+          ...(scan.qrPayload ? { qrPayload: scan.qrPayload } : { ticketId: scan.ticketId }),
+          ...(scan.checkpointKey ? { checkpointKey: scan.checkpointKey } : {}),
+          scannedAt: scan.scannedAt,
+          ...(scan.manifestId ? { manifestId: scan.manifestId } : {}),
+        })),
+      }),
+    });
+    if (!res.ok) throw new Error(await readApiErrorMessage(res));
+
+    const data = (await res.json()) as { results: OfflineSyncResult[] };
+    results.push(...data.results);
+    const answered = new Set(data.results.map((result) => result.clientScanId));
+    remaining = remaining.filter((scan) => !answered.has(scan.clientScanId));
+    saveOfflineQueue(eventId, remaining);
+
+    if (answered.size === 0) break;
+  }
+
+  return { results, remaining };
+}
@@ -0,0 +1,41 @@
+import { io, type Socket } from "socket.io-client";
+import { refreshAuthSession } from "./api";
+
+const API_BASE_URL = (import.meta.env.VITE_API_BASE_URL ?? "").trim();
+
+function getRealtimeOrigin(): string | null {
+  if (!API_BASE_URL) return null;
+  try {
+    // only the origin: socket.io reads a url path as a namespace
+    return new URL(API_BASE_URL).origin;
+  } catch {
+    return null;
+  }
+}
+
+// socket.io shares the API server; auth rides on the same httpOnly cookie as apiFetch
+export function connectRealtime(): Socket {
+  const origin = getRealtimeOrigin();
+  const options = {
+    path: "/api/realtime",
+    withCredentials: true,
+  };
+
+  const socket = origin ? io(origin, options) : io(options);
+
+  // the handshake is rejected once the access cookie expires; refresh it and try once more
+  let retriedAfterRefresh = false;
+  socket.on("connect_error", (err) => {
+    if (retriedAfterRefresh || err.message !== "Not authenticated") return;
+    retriedAfterRefresh = true;
+
+    void refreshAuthSession().then((refreshed) => {
+      if (refreshed) socket.connect();
+    });
+  });
+  socket.on("connect", () => {
+    retriedAfterRefresh = false;
+  });
+
+  return socket;
+}
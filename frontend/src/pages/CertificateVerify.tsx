@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { Alert, Button, Card, Container, Form, Spinner } from "react-bootstrap";
+import { useNavigate, useParams } from "react-router-dom";
+import { apiFetch } from "../lib/api";
+import { readApiErrorMessage } from "../lib/errors";
+
+type VerifiedCertificate = {
+  code: string;
+  participantName: string;
+  eventName: string;
+  organizerName: string;
+  eventStartDate: string;
+  eventEndDate: string;
+  issuedAt: string;
+};
+
+function formatEventDates(certificate: VerifiedCertificate): string {
+  const start = new Date(certificate.eventStartDate).toLocaleDateString();
+  const end = new Date(certificate.eventEndDate).toLocaleDateString();
+  return start === end ? start : `${start} - ${end}`;
+}
+
+// public: anyone with a code (e.g. from a printed certificate) can check it without signing in
+export default function CertificateVerify() {
+  const { code = "" } = useParams();
+  const navigate = useNavigate();
+  const [codeInput, setCodeInput] = useState(code);
+  const [certificate, setCertificate] = useState<VerifiedCertificate | null>(null);
+  const [valid, setValid] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setCodeInput(code);
+    setCertificate(null);
+    setError(null);
+    if (!code) return;
+
+    let cancelled = false;
+    setLoading(true);
+
+    void (async () => {
+      try {
+        const res = await apiFetch(`/api/certificates/verify/${encodeURIComponent(code)}`);
+        if (!res.ok) throw new Error(await readApiErrorMessage(res));
+
+        const data = (await res.json()) as { valid: boolean; certificate: VerifiedCertificate };
+        if (!cancelled) {
+          setCertificate(data.certificate);
+          setValid(data.valid);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to verify certificate");
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [code]);
+
+  function onSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    const trimmed = codeInput.trim().toUpperCase();
+    if (trimmed) navigate(`/certificates/verify/${encodeURIComponent(trimmed)}`);
+  }
+
+  return (
+    <Container className="py-5" style={{ maxWidth: 560 }}>
+      <Card className="border">
+        <Card.Body>
+          <Card.Title className="mb-3">Verify a certificate</Card.Title>
+
+          <Form onSubmit={onSubmit} className="d-flex gap-2 mb-3">
+            <Form.Control
+              placeholder="XXXX-XXXX-XXXX"
+              value={codeInput}
+              onChange={(e) => setCodeInput(e.target.value)}
+              aria-label="Certificate code"
+            />
+            <Button type="submit" disabled={loading}>
+              Verify
+            </Button>
+          </Form>
+
+          {loading ? (
+            <div className="d-flex align-items-center gap-2">
+              <Spinner animation="border" size="sm" />
+              <span>Checking certificate...</span>
+            </div>
+          ) : null}
+
+          {error ? (
+            <Alert variant="danger" className="mb-0">
+              {error}. Check the code for typos; certificates are only valid if they appear here.
+            </Alert>
+          ) : null}
+
+          {certificate && !valid ? (
+            <Alert variant="danger" className="mb-0">
+              <div className="fw-semibold mb-2">Revoked certificate</div>
+              <div>
+                Code <code>{certificate.code}</code> was issued for{" "}
+                <strong>{certificate.eventName}</strong>, but the participation it certifies has
+                since been rejected or cancelled. It is no longer valid.
+              </div>
+            </Alert>
+          ) : null}
+
+          {certificate && valid ? (
+            <Alert variant="success" className="mb-0">
+              <div className="fw-semibold mb-2">Valid certificate</div>
+              <div>
+                <strong>{certificate.participantName}</strong> took part in{" "}
+                <strong>{certificate.eventName}</strong> by {certificate.organizerName} (
+                {formatEventDates(certificate)}).
+              </div>
+              <div className="small mt-2">
+                Code <code>{certificate.code}</code>, issued{" "}
+                {new Date(certificate.issuedAt).toLocaleDateString()}
+              </div>
+            </Alert>
+          ) : null}
+        </Card.Body>
+      </Card>
+    </Container>
+  );
+}
@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { Alert, Button, Card, Container, Form } from "react-bootstrap";
+import { Link } from "react-router-dom";
+import { requestPasswordReset } from "../lib/auth";
+
+export default function ForgotPassword() {
+  const [email, setEmail] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setError(null);
+    setBusy(true);
+
+    try {
+      setSentMessage(await requestPasswordReset(email));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not request a reset link");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Container className="py-5" style={{ maxWidth: 420 }}>
+      <Card className="border">
+        <Card.Body>
+          <Card.Title className="mb-3">Forgot password</Card.Title>
+
+          {error ? <Alert variant="danger">{error}</Alert> : null}
+
+          {sentMessage ? (
+            <>
+              <Alert variant="success">{sentMessage}</Alert>
+              <p className="text-muted small">
+                Organizer accounts can't use this form. Request a reset from your
+                organizer profile or contact an admin.
+              </p>
+              <Link to="/login" className="btn btn-outline-secondary w-100">
+                Back to login
+              </Link>
+            </>
+          ) : (
+            <Form onSubmit={onSubmit}>
+              <p className="text-muted small">
+                Enter the email you signed up with and we'll send you a link to choose a
+                new password.
+              </p>
+
+              <Form.Group className="mb-3" controlId="email">
+                <Form.Label>Email</Form.Label>
+                <Form.Control
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  type="email"
+                  autoComplete="email"
+                  placeholder="you@example.com"
+                  required
+                />
+              </Form.Group>
+
+              <div className="d-grid gap-2">
+                <Button type="submit" disabled={busy}>
+                  {busy ? "Sending..." : "Send reset link"}
+                </Button>
+                <Link to="/login" className="btn btn-outline-secondary">
+                  Back to login
+                </Link>
+              </div>
+            </Form>
+          )}
+        </Card.Body>
+      </Card>
+    </Container>
+  );
+}
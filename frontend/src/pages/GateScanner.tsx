@@ -0,0 +1,494 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Alert, Badge, Button, Card, Col, Container, Form, Row, Spinner } from "react-bootstrap";
+import jsQR from "jsqr";
+import { apiFetch } from "../lib/api";
+import { readApiErrorMessage } from "../lib/errors";
+
+// paired gate devices keep their scanner token here; it only works for one event
+const SCANNER_TOKEN_STORAGE_KEY = "gateScannerToken";
+// a gate phone usually stays at one checkpoint, so the choice survives reloads
+const SCANNER_CHECKPOINT_STORAGE_KEY = "gateScannerCheckpoint";
+// the same qr in front of the camera is ignored for a moment so one ticket isn't submitted twice
+const REPEAT_SCAN_COOLDOWN_MS = 4000;
+
+type Checkpoint = { key: string; name: string; scanLimit: number };
+
+type DeviceInfo = {
+  device: { id: string; label: string };
+  event: {
+    id: string;
+    name: string;
+    startDate: string;
+    endDate: string;
+    attendanceCheckpoints: Checkpoint[];
+  };
+};
+
+type ScanParticipant = { id: string; name: string; email: string | null };
+
+type ScanResult =
+  | {
+      kind: "marked";
+      alreadyMarked: boolean;
+      ticketId: string;
+      participant: ScanParticipant;
+      checkpoint: CheckpointStatus;
+      scanCount: number;
+      markedAt: string;
+    }
+  | {
+      kind: "lookup";
+      ticketId: string;
+      participant: ScanParticipant;
+      participationStatus: string;
+      checkpoint: CheckpointStatus;
+      isPresent: boolean;
+      markedAt: string | null;
+    }
+  | { kind: "error"; message: string };
+
+type CheckpointStatus = Checkpoint & { scansRemaining: number };
+
+type ScanResponse = {
+  alreadyMarked: boolean;
+  checkpoint: CheckpointStatus;
+  attendance: { scanCount: number; markedAt: string };
+  ticket: { id: string };
+  participant: ScanParticipant;
+};
+
+type LookupResponse = {
+  ticket: { id: string };
+  participationStatus: string;
+  checkpoint: CheckpointStatus;
+  attendance: { isPresent: boolean; markedAt: string | null };
+  participant: ScanParticipant;
+};
+
+// a pairing link carries the token in the url fragment; move it into storage and off the address bar
+function takeTokenFromLocation(): string | null {
+  const params = new URLSearchParams(window.location.hash.replace(/^#/, ""));
+  const token = params.get("token")?.trim();
+  if (!token) return null;
+
+  window.history.replaceState(null, "", `${window.location.pathname}${window.location.search}`);
+  return token;
+}
+
+function loadStoredToken(): string | null {
+  const fromLocation = takeTokenFromLocation();
+  if (fromLocation) {
+    window.localStorage.setItem(SCANNER_TOKEN_STORAGE_KEY, fromLocation);
+    return fromLocation;
+  }
+  return window.localStorage.getItem(SCANNER_TOKEN_STORAGE_KEY);
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : "-";
+}
+
+export default function GateScanner() {
+  const [token, setToken] = useState<string | null>(() => loadStoredToken());
+  const [device, setDevice] = useState<DeviceInfo | null>(null);
+  const [loading, setLoading] = useState(Boolean(token));
+  const [pairingError, setPairingError] = useState<string | null>(null);
+  const [ticketIdInput, setTicketIdInput] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<ScanResult | null>(null);
+  const [cameraActive, setCameraActive] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [checkpointKey, setCheckpointKey] = useState(
+    () => window.localStorage.getItem(SCANNER_CHECKPOINT_STORAGE_KEY) ?? "",
+  );
+
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const loopRef = useRef<number | null>(null);
+  const lastPayloadRef = useRef<{ value: string; at: number } | null>(null);
+  const busyRef = useRef(false);
+
+  const checkpoints = device?.event.attendanceCheckpoints ?? [];
+  // a stored key from another event or a removed checkpoint falls back to the first one
+  const checkpoint =
+    checkpoints.find((entry) => entry.key === checkpointKey) ?? checkpoints[0] ?? null;
+  // the camera loop keeps the submitTicket it started with, so it reads the checkpoint from here
+  const checkpointKeyRef = useRef<string | undefined>(undefined);
+  useEffect(() => {
+    checkpointKeyRef.current = checkpoint?.key;
+  }, [checkpoint?.key]);
+
+  const unpair = useCallback((message: string | null) => {
+    window.localStorage.removeItem(SCANNER_TOKEN_STORAGE_KEY);
+    window.localStorage.removeItem(SCANNER_CHECKPOINT_STORAGE_KEY);
+    setToken(null);
+    setDevice(null);
+    setPairingError(message);
+  }, []);
+
+  const scannerFetch = useCallback(
+    async (path: string, options: RequestInit = {}) => {
+      const res = await apiFetch(path, {
+        ...options,
+        headers: { ...(options.headers || {}), "X-Scanner-Token": token ?? "" },
+      });
+      // revoked token or the event is over: this device is done
+      if (res.status === 401 || res.status === 403) {
+        unpair(await readApiErrorMessage(res));
+        return null;
+      }
+      return res;
+    },
+    [token, unpair],
+  );
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+
+    async function loadDevice() {
+      setLoading(true);
+      try {
+        const res = await scannerFetch("/api/events/scanner/device");
+        if (!res || cancelled) return;
+        if (!res.ok) throw new Error(await readApiErrorMessage(res));
+
+        setDevice((await res.json()) as DeviceInfo);
+      } catch (err) {
+        if (!cancelled) {
+          setPairingError(err instanceof Error ? err.message : "Failed to load device");
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    void loadDevice();
+    return () => {
+      cancelled = true;
+    };
+  }, [token, scannerFetch]);
+
+  const stopCamera = useCallback(() => {
+    if (loopRef.current !== null) {
+      window.clearTimeout(loopRef.current);
+      loopRef.current = null;
+    }
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    if (videoRef.current) videoRef.current.srcObject = null;
+    setCameraActive(false);
+  }, []);
+
+  useEffect(() => stopCamera, [stopCamera]);
+
+  const submitTicket = useCallback(
+    async (body: { ticketId?: string; qrPayload?: string }, mode: "scan" | "lookup") => {
+      if (!device || busyRef.current) return;
+      busyRef.current = true;
+      setSubmitting(true);
+
+      try {
+        const res = await scannerFetch(
+          `/api/events/organizer/${device.event.id}/attendance/${mode}`,
+          {
+            method: "POST",
+            body: JSON.stringify({ ...body, checkpointKey: checkpointKeyRef.current }),
+          },
+        );
+        if (!res) return;
+        if (!res.ok) {
+          setResult({ kind: "error", message: await readApiErrorMessage(res) });
+          return;
+        }
+
+        if (mode === "scan") {
+          const data = (await res.json()) as ScanResponse;
+          setResult({
+            kind: "marked",
+            alreadyMarked: data.alreadyMarked,
+            ticketId: data.ticket.id,
+            participant: data.participant,
+            checkpoint: data.checkpoint,
+            scanCount: data.attendance.scanCount,
+            markedAt: data.attendance.markedAt,
+          });
+        } else {
+          const data = (await res.json()) as LookupResponse;
+          setResult({
+            kind: "lookup",
+            ticketId: data.ticket.id,
+            participant: data.participant,
+            participationStatus: data.participationStatus,
+            checkpoint: data.checkpoint,
+            isPresent: data.attendance.isPresent,
+            markedAt: data.attendance.markedAt,
+          });
+        }
+        setTicketIdInput("");
+      } catch (err) {
+        setResult({
+          kind: "error",
+          message: err instanceof Error ? err.message : "Request failed",
+        });
+      } finally {
+        busyRef.current = false;
+        setSubmitting(false);
+      }
+    },
+    [device, scannerFetch],
+  );
+
+  async function startCamera() {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setCameraError("This browser cannot open the camera. Enter ticket ids instead.");
+      return;
+    }
+
+    try {
+      stopCamera();
+      setCameraError(null);
+
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: { ideal: "environment" } },
+        audio: false,
+      });
+      streamRef.current = stream;
+      setCameraActive(true);
+
+      const video = videoRef.current;
+      if (!video) {
+        stopCamera();
+        setCameraError("Scanner video element is unavailable.");
+        return;
+      }
+      video.srcObject = stream;
+      await video.play();
+
+      const canvas = document.createElement("canvas");
+      const context = canvas.getContext("2d", { willReadFrequently: true });
+
+      const scanFrame = () => {
+        const currentVideo = videoRef.current;
+        if (!currentVideo || !context || !streamRef.current) return;
+
+        if (currentVideo.readyState >= HTMLMediaElement.HAVE_ENOUGH_DATA) {
+          canvas.width = currentVideo.videoWidth;
+          canvas.height = currentVideo.videoHeight;
+          context.drawImage(currentVideo, 0, 0, canvas.width, canvas.height);
+          const frame = context.getImageData(0, 0, canvas.width, canvas.height);
+          const payload = jsQR(frame.data, frame.width, frame.height)?.data?.trim();
+
+          const last = lastPayloadRef.current;
+          const now = Date.now();
+          if (
+            payload &&
+            !busyRef.current &&
+            (!last || last.value !== payload || now - last.at > REPEAT_SCAN_COOLDOWN_MS)
+          ) {
+            lastPayloadRef.current = { value: payload, at: now };
+            void submitTicket({ qrPayload: payload }, "scan");
+          }
+        }
+
+        loopRef.current = window.setTimeout(scanFrame, 250);
+      };
+
+      loopRef.current = window.setTimeout(scanFrame, 250);
+    } catch (err) {
+      stopCamera();
+      setCameraError(err instanceof Error ? err.message : "Unable to start camera");
+    }
+  }
+
+  if (!token) {
+    return (
+      <Container className="py-4" style={{ maxWidth: 640 }}>
+        <h1 className="h3 mb-3">Gate Scanner</h1>
+        {pairingError ? <Alert variant="warning">{pairingError}</Alert> : null}
+        <Card className="border">
+          <Card.Body className="text-muted">
+            This device is not paired. Ask the organizer to open the event's Gate Devices tab,
+            create a pairing QR and scan it with this phone's camera.
+          </Card.Body>
+        </Card>
+      </Container>
+    );
+  }
+
+  return (
+    <Container className="py-4" style={{ maxWidth: 640 }}>
+      <div className="d-flex justify-content-between align-items-start mb-3 gap-2">
+        <div>
+          <h1 className="h3 mb-1">Gate Scanner</h1>
+          {device ? (
+            <div className="text-muted small">
+              {device.event.name} - {device.device.label}
+              <div>Paired until {formatDate(device.event.endDate)}</div>
+            </div>
+          ) : null}
+        </div>
+        <Button
+          size="sm"
+          variant="outline-secondary"
+          onClick={() => {
+            stopCamera();
+            unpair(null);
+          }}
+        >
+          Unpair
+        </Button>
+      </div>
+
+      {pairingError ? <Alert variant="warning">{pairingError}</Alert> : null}
+
+      {loading ? (
+        <div className="d-flex align-items-center gap-2">
+          <Spinner animation="border" size="sm" />
+          <span>Checking pairing...</span>
+        </div>
+      ) : device ? (
+        <div className="d-grid gap-3">
+          {result ? (
+            result.kind === "error" ? (
+              <Alert variant="danger" className="mb-0">
+                {result.message}
+              </Alert>
+            ) : result.kind === "marked" ? (
+              <Alert variant={result.alreadyMarked ? "warning" : "success"} className="mb-0">
+                <div className="fw-semibold">{result.participant.name}</div>
+                <div className="small">
+                  {result.checkpoint.name}:{" "}
+                  {result.alreadyMarked
+                    ? result.checkpoint.scanLimit > 1
+                      ? `all ${result.checkpoint.scanLimit} scans used`
+                      : `already checked in at ${formatDate(result.markedAt)}`
+                    : result.checkpoint.scanLimit > 1
+                      ? `scan ${result.scanCount} of ${result.checkpoint.scanLimit}`
+                      : "checked in"}{" "}
+                  ({result.ticketId})
+                </div>
+              </Alert>
+            ) : (
+              <Alert variant="info" className="mb-0">
+                <div className="fw-semibold">{result.participant.name}</div>
+                <div className="small">
+                  {result.ticketId} - registration {result.participationStatus}
+                </div>
+                <div className="small">
+                  {result.isPresent ? (
+                    <Badge bg="success">
+                      {result.checkpoint.name} since {formatDate(result.markedAt)}
+                    </Badge>
+                  ) : (
+                    <Badge bg="secondary">Not scanned at {result.checkpoint.name}</Badge>
+                  )}{" "}
+                  {result.checkpoint.scanLimit > 1
+                    ? `${result.checkpoint.scansRemaining} of ${result.checkpoint.scanLimit} scans left`
+                    : null}
+                </div>
+              </Alert>
+            )
+          ) : null}
+
+          {checkpoints.length > 1 ? (
+            <Form.Group controlId="gate-scanner-checkpoint">
+              <Form.Label className="small mb-1">Checkpoint</Form.Label>
+              <Form.Select
+                value={checkpoint?.key ?? ""}
+                onChange={(currentEvent) => {
+                  setCheckpointKey(currentEvent.target.value);
+                  window.localStorage.setItem(
+                    SCANNER_CHECKPOINT_STORAGE_KEY,
+                    currentEvent.target.value,
+                  );
+                }}
+              >
+                {checkpoints.map((entry) => (
+                  <option key={entry.key} value={entry.key}>
+                    {entry.name}
+                  </option>
+                ))}
+              </Form.Select>
+            </Form.Group>
+          ) : null}
+
+          <Card className="border">
+            <Card.Body>
+              <div className="d-flex justify-content-between align-items-center mb-2">
+                <h2 className="h6 mb-0">Camera</h2>
+                <Button
+                  size="sm"
+                  variant={cameraActive ? "outline-danger" : "primary"}
+                  onClick={() => {
+                    if (cameraActive) {
+                      stopCamera();
+                      return;
+                    }
+                    void startCamera();
+                  }}
+                >
+                  {cameraActive ? "Stop camera" : "Start camera"}
+                </Button>
+              </div>
+              <p className="text-muted small mb-2">
+                Tickets are checked in as soon as their QR is read.
+              </p>
+              {cameraError ? <Alert variant="warning">{cameraError}</Alert> : null}
+              <video
+                ref={videoRef}
+                autoPlay
+                playsInline
+                muted
+                style={{
+                  width: "100%",
+                  border: "1px solid #ced4da",
+                  display: cameraActive ? "block" : "none",
+                }}
+              />
+            </Card.Body>
+          </Card>
+
+          <Card className="border">
+            <Card.Body>
+              <h2 className="h6 mb-2">Ticket ID</h2>
+              <Row className="g-2">
+                <Col xs={12}>
+                  <Form.Control
+                    placeholder="TKT-..."
+                    value={ticketIdInput}
+                    onChange={(currentEvent) => setTicketIdInput(currentEvent.target.value)}
+                  />
+                </Col>
+                <Col xs={6}>
+                  <Button
+                    className="w-100"
+                    variant="outline-secondary"
+                    disabled={submitting || !ticketIdInput.trim()}
+                    onClick={() => {
+                      void submitTicket({ ticketId: ticketIdInput.trim() }, "lookup");
+                    }}
+                  >
+                    Look up
+                  </Button>
+                </Col>
+                <Col xs={6}>
+                  <Button
+                    className="w-100"
+                    variant="success"
+                    disabled={submitting || !ticketIdInput.trim()}
+                    onClick={() => {
+                      void submitTicket({ ticketId: ticketIdInput.trim() }, "scan");
+                    }}
+                  >
+                    Check in
+                  </Button>
+                </Col>
+              </Row>
+            </Card.Body>
+          </Card>
+        </div>
+      ) : null}
+    </Container>
+  );
+}
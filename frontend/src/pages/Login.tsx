@@ -1,7 +1,16 @@
 import { useState } from "react";
 import { Alert, Button, Card, Container, Form } from "react-bootstrap";
 import { Link, Navigate, useNavigate } from "react-router-dom";
-import { login } from "../lib/auth";
+import RecoveryCodesList from "../components/RecoveryCodesList";
+import {
+  confirmLoginTwoFactorSetup,
+  login,
+  startLoginTwoFactorSetup,
+  verifyLoginTwoFactor,
+  type AuthUser,
+  type LoginChallenge,
+  type TwoFactorProvisioning,
+} from "../lib/auth";
 import { useAuth } from "../lib/authState";
 
 function pathForRole(role: string) {
@@ -19,19 +28,49 @@ export default function Login() {
   const [error, setError] = useState<string | null>(null);
   const [busy, setBusy] = useState(false);
 
+  // second step for accounts with two-factor authentication
+  const [challenge, setChallenge] = useState<LoginChallenge | null>(null);
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [provisioning, setProvisioning] = useState<TwoFactorProvisioning | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [pendingUser, setPendingUser] = useState<AuthUser | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
   if (!loading && user) {
     return <Navigate to={pathForRole(user.role)} replace />;
   }
 
+  function finishLogin(nextUser: AuthUser) {
+    setUser(nextUser);
+    navigate(pathForRole(nextUser.role), { replace: true });
+  }
+
+  function restart(message: string | null) {
+    setChallenge(null);
+    setProvisioning(null);
+    setCode("");
+    setUseRecoveryCode(false);
+    setError(message);
+  }
+
   async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
     e.preventDefault();
     setError(null);
     setBusy(true);
 
     try {
-      const user = await login(email, password);
-      setUser(user);
-      navigate(pathForRole(user.role), { replace: true });
+      const result = await login(email, password);
+      if (result.user) {
+        finishLogin(result.user);
+        return;
+      }
+
+      setChallenge(result.twoFactor);
+      setPassword("");
+      if (result.twoFactor.purpose === "setup") {
+        setProvisioning(await startLoginTwoFactorSetup(result.twoFactor.challengeToken));
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : "Login failed");
     } finally {
@@ -39,48 +78,183 @@ export default function Login() {
     }
   }
 
+  async function onSubmitCode(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    if (!challenge) return;
+    setError(null);
+    setBusy(true);
+
+    try {
+      if (challenge.purpose === "setup") {
+        const result = await confirmLoginTwoFactorSetup(challenge.challengeToken, code);
+        setPendingUser(result.user);
+        setRecoveryCodes(result.recoveryCodes);
+        return;
+      }
+
+      const result = await verifyLoginTwoFactor(
+        challenge.challengeToken,
+        useRecoveryCode ? { recoveryCode: code } : { code },
+      );
+      if (useRecoveryCode && result.recoveryCodesRemaining <= 2) {
+        setNotice(
+          `Only ${result.recoveryCodesRemaining} recovery code(s) left. Generate new ones from your profile.`,
+        );
+        setPendingUser(result.user);
+        return;
+      }
+
+      finishLogin(result.user);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Verification failed";
+      if (message.startsWith("Sign-in expired")) {
+        restart(message);
+      } else {
+        setError(message);
+      }
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function renderPasswordStep() {
+    return (
+      <Form onSubmit={onSubmit}>
+        <Form.Group className="mb-3" controlId="email">
+          <Form.Label>Email</Form.Label>
+          <Form.Control
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            type="email"
+            autoComplete="email"
+            placeholder="you@example.com"
+            required
+          />
+        </Form.Group>
+
+        <Form.Group className="mb-3" controlId="password">
+          <Form.Label>Password</Form.Label>
+          <Form.Control
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            type="password"
+            autoComplete="current-password"
+            placeholder="********"
+            required
+          />
+          <div className="text-end mt-1">
+            <Link to="/forgot-password" className="small">
+              Forgot password?
+            </Link>
+          </div>
+        </Form.Group>
+
+        <div className="d-grid gap-2">
+          <Button type="submit" disabled={busy}>
+            {busy ? "Signing in..." : "Sign in"}
+          </Button>
+          <Link to="/signup" className="btn btn-outline-secondary">
+            Create account
+          </Link>
+        </div>
+      </Form>
+    );
+  }
+
+  function renderCodeStep(currentChallenge: LoginChallenge) {
+    const isSetup = currentChallenge.purpose === "setup";
+
+    return (
+      <Form onSubmit={onSubmitCode}>
+        {isSetup ? (
+          <>
+            <p className="small text-muted">
+              Your account requires two-factor authentication. Scan this QR code with an
+              authenticator app, then enter the 6-digit code it shows.
+            </p>
+            {provisioning ? (
+              <div className="text-center mb-3">
+                <img
+                  src={provisioning.qrDataUrl}
+                  alt="Authenticator QR code"
+                  width={180}
+                  height={180}
+                />
+                <div className="small text-muted mt-2">
+                  Can't scan? Enter this key: <code>{provisioning.secret}</code>
+                </div>
+              </div>
+            ) : null}
+          </>
+        ) : (
+          <p className="small text-muted">
+            {useRecoveryCode
+              ? "Enter one of your recovery codes. Each code works only once."
+              : "Enter the 6-digit code from your authenticator app."}
+          </p>
+        )}
+
+        <Form.Group className="mb-3" controlId="two-factor-code">
+          <Form.Label>{useRecoveryCode ? "Recovery code" : "Authentication code"}</Form.Label>
+          <Form.Control
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            inputMode={useRecoveryCode ? "text" : "numeric"}
+            autoComplete="one-time-code"
+            placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+            autoFocus
+            required
+          />
+        </Form.Group>
+
+        <div className="d-grid gap-2">
+          <Button type="submit" disabled={busy || (isSetup && !provisioning)}>
+            {busy ? "Verifying..." : isSetup ? "Enable and sign in" : "Verify"}
+          </Button>
+          {!isSetup ? (
+            <Button
+              variant="link"
+              size="sm"
+              onClick={() => {
+                setUseRecoveryCode((current) => !current);
+                setCode("");
+                setError(null);
+              }}
+            >
+              {useRecoveryCode ? "Use authenticator code instead" : "Use a recovery code"}
+            </Button>
+          ) : null}
+          <Button variant="outline-secondary" onClick={() => restart(null)}>
+            Back
+          </Button>
+        </div>
+      </Form>
+    );
+  }
+
   return (
     <Container className="py-5" style={{ maxWidth: 420 }}>
       <Card className="border">
         <Card.Body>
-          <Card.Title className="mb-3">Login</Card.Title>
+          <Card.Title className="mb-3">
+            {challenge ? "Two-factor authentication" : "Login"}
+          </Card.Title>
 
           {error ? <Alert variant="danger">{error}</Alert> : null}
 
-          <Form onSubmit={onSubmit}>
-            <Form.Group className="mb-3" controlId="email">
-              <Form.Label>Email</Form.Label>
-              <Form.Control
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                type="email"
-                autoComplete="email"
-                placeholder="you@example.com"
-                required
-              />
-            </Form.Group>
-
-            <Form.Group className="mb-3" controlId="password">
-              <Form.Label>Password</Form.Label>
-              <Form.Control
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                type="password"
-                autoComplete="current-password"
-                placeholder="********"
-                required
-              />
-            </Form.Group>
-
-            <div className="d-grid gap-2">
-              <Button type="submit" disabled={busy}>
-                {busy ? "Signing in..." : "Sign in"}
-              </Button>
-              <Link to="/signup" className="btn btn-outline-secondary">
-                Create account
-              </Link>
-            </div>
-          </Form>
+          {pendingUser ? (
+            <>
+              {recoveryCodes ? <RecoveryCodesList codes={recoveryCodes} /> : null}
+              {notice ? <Alert variant="warning">{notice}</Alert> : null}
+              <div className="d-grid mt-3">
+                <Button onClick={() => finishLogin(pendingUser)}>Continue</Button>
+              </div>
+            </>
+          ) : challenge ? (
+            renderCodeStep(challenge)
+          ) : (
+            renderPasswordStep()
+          )}
         </Card.Body>
       </Card>
     </Container>
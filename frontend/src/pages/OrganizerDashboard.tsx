@@ -21,6 +21,9 @@ type OrganizerAnalyticsSummary = {
   rejectedCount: number;
   registrations24h: number;
   estimatedRevenue: number;
+  // collected payments net of processed refunds
+  netRevenue: number;
+  refundedAmount: number;
   attendanceMarked: number;
   attendanceRate: number;
 };
@@ -36,6 +39,7 @@ type OrganizerTopEvent = {
   activeParticipations: number;
   registrations24h: number;
   estimatedRevenue: number;
+  netRevenue: number;
   attendanceMarked: number;
   attendanceRate: number;
 };
@@ -83,6 +87,8 @@ function emptySummary(): OrganizerAnalyticsSummary {
     rejectedCount: 0,
     registrations24h: 0,
     estimatedRevenue: 0,
+    netRevenue: 0,
+    refundedAmount: 0,
     attendanceMarked: 0,
     attendanceRate: 0,
   };
@@ -207,6 +213,10 @@ export default function OrganizerDashboard() {
                     <Card.Body>
                       <div className="text-muted small">Estimated revenue</div>
                       <div className="h4 mb-0">{formatCurrency(summary.estimatedRevenue)}</div>
+                      <div className="small text-muted">
+                        Net collected {formatCurrency(summary.netRevenue)}, refunded{" "}
+                        {formatCurrency(summary.refundedAmount)}
+                      </div>
                     </Card.Body>
                   </Card>
                 </Col>
@@ -298,7 +308,12 @@ export default function OrganizerDashboard() {
                               {event.activeParticipations}/{event.totalParticipations}
                             </td>
                             <td>{event.registrations24h}</td>
-                            <td>{formatCurrency(event.estimatedRevenue)}</td>
+                            <td>
+                              {formatCurrency(event.estimatedRevenue)}
+                              <div className="small text-muted">
+                                net {formatCurrency(event.netRevenue)}
+                              </div>
+                            </td>
                             <td>
                               {event.attendanceMarked} ({event.attendanceRate}%)
                             </td>
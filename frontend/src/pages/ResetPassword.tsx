@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { Alert, Button, Card, Container, Form } from "react-bootstrap";
+import { Link, useSearchParams } from "react-router-dom";
+import { resetPassword } from "../lib/auth";
+import { useAuth } from "../lib/authState";
+
+export default function ResetPassword() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") ?? "";
+  const { setUser } = useAuth();
+
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setError(null);
+
+    if (newPassword.length < 8) {
+      setError("Password must be at least 8 characters");
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    setBusy(true);
+    try {
+      await resetPassword(token, newPassword);
+      // the reset signs the account out everywhere, including this browser
+      setUser(null);
+      setDone(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Password reset failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Container className="py-5" style={{ maxWidth: 420 }}>
+      <Card className="border">
+        <Card.Body>
+          <Card.Title className="mb-3">Choose a new password</Card.Title>
+
+          {!token ? (
+            <>
+              <Alert variant="warning">This reset link is missing its token.</Alert>
+              <Link to="/forgot-password" className="btn btn-outline-secondary w-100">
+                Request a new link
+              </Link>
+            </>
+          ) : done ? (
+            <>
+              <Alert variant="success">
+                Your password has been changed. Sign in with the new password.
+              </Alert>
+              <Link to="/login" className="btn btn-primary w-100">
+                Go to login
+              </Link>
+            </>
+          ) : (
+            <Form onSubmit={onSubmit}>
+              {error ? <Alert variant="danger">{error}</Alert> : null}
+
+              <Form.Group className="mb-3" controlId="newPassword">
+                <Form.Label>New password</Form.Label>
+                <Form.Control
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  type="password"
+                  autoComplete="new-password"
+                  placeholder="At least 8 characters"
+                  required
+                />
+              </Form.Group>
+
+              <Form.Group className="mb-3" controlId="confirmPassword">
+                <Form.Label>Confirm new password</Form.Label>
+                <Form.Control
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  type="password"
+                  autoComplete="new-password"
+                  required
+                />
+              </Form.Group>
+
+              <div className="d-grid gap-2">
+                <Button type="submit" disabled={busy}>
+                  {busy ? "Saving..." : "Set new password"}
+                </Button>
+                <Link to="/forgot-password" className="btn btn-outline-secondary">
+                  Request a new link
+                </Link>
+              </div>
+            </Form>
+          )}
+        </Card.Body>
+      </Card>
+    </Container>
+  );
+}
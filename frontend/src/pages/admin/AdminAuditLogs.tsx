@@ -0,0 +1,374 @@
+import { useCallback, useEffect, useState } from "react";
+import { Alert, Badge, Button, Card, Col, Container, Form, Row, Spinner, Table } from "react-bootstrap";
+import { Link } from "react-router-dom";
+import { apiFetch } from "../../lib/api";
+import { readApiErrorMessage } from "../../lib/errors";
+
+type AuditOutcome = "success" | "failure";
+
+type AuditParty = {
+  id: string | null;
+  email: string | null;
+  role: string | null;
+};
+
+type AuditLogEntry = {
+  id: string;
+  action: string;
+  outcome: AuditOutcome;
+  actor: AuditParty | null;
+  target: AuditParty | null;
+  ip: string;
+  userAgent: string;
+  details: Record<string, string | number | boolean>;
+  createdAt: string;
+};
+
+type AuditFilters = {
+  action: string;
+  outcome: AuditOutcome | "";
+  email: string;
+  ip: string;
+  from: string;
+  to: string;
+};
+
+const AUDIT_ACTIONS: Array<{ value: string; label: string }> = [
+  { value: "login_succeeded", label: "Login succeeded" },
+  { value: "login_failed", label: "Login failed" },
+  { value: "logout", label: "Logout" },
+  { value: "password_changed", label: "Password changed" },
+  { value: "password_reset_completed", label: "Password reset (link)" },
+  { value: "sessions_revoked", label: "Sessions revoked" },
+  { value: "two_factor_enabled", label: "2FA enabled" },
+  { value: "two_factor_disabled", label: "2FA disabled" },
+  { value: "organizer_created", label: "Organizer created" },
+  { value: "organizer_disabled", label: "Organizer disabled" },
+  { value: "organizer_enabled", label: "Organizer enabled" },
+  { value: "organizer_archived", label: "Organizer archived" },
+  { value: "organizer_deleted", label: "Organizer deleted" },
+  { value: "organizer_password_reset_approved", label: "Organizer reset approved" },
+  { value: "organizer_password_reset_rejected", label: "Organizer reset rejected" },
+  { value: "organizer_two_factor_reset", label: "Organizer 2FA reset" },
+  { value: "security_settings_updated", label: "Security settings updated" },
+  { value: "login_lockout_cleared", label: "Lockout cleared" },
+  { value: "team_member_invited", label: "Team member invited" },
+  { value: "team_member_role_changed", label: "Team role changed" },
+  { value: "team_member_removed", label: "Team member removed" },
+  { value: "team_invite_accepted", label: "Team invite accepted" },
+  { value: "scanner_token_created", label: "Gate device paired" },
+  { value: "scanner_token_revoked", label: "Gate device revoked" },
+];
+
+const EMPTY_FILTERS: AuditFilters = {
+  action: "",
+  outcome: "",
+  email: "",
+  ip: "",
+  from: "",
+  to: "",
+};
+
+const PAGE_SIZE = 50;
+
+async function readErrorMessage(res: Response): Promise<string> {
+  return readApiErrorMessage(res);
+}
+
+function actionLabel(action: string): string {
+  return AUDIT_ACTIONS.find((entry) => entry.value === action)?.label ?? action;
+}
+
+function describeParty(party: AuditParty | null): string {
+  if (!party) return "-";
+  const name = party.email ?? party.id ?? "-";
+  return party.role ? `${name} (${party.role})` : name;
+}
+
+function describeDetails(details: AuditLogEntry["details"]): string {
+  return Object.entries(details)
+    .map(([key, value]) => `${key}: ${String(value)}`)
+    .join(", ");
+}
+
+function buildQuery(filters: AuditFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.action) params.set("action", filters.action);
+  if (filters.outcome) params.set("outcome", filters.outcome);
+  if (filters.email.trim()) params.set("email", filters.email.trim());
+  if (filters.ip.trim()) params.set("ip", filters.ip.trim());
+  // date inputs are local days; send the whole day as an ISO range
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  return params;
+}
+
+export default function AdminAuditLogs() {
+  const [logs, setLogs] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [draftFilters, setDraftFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [loading, setLoading] = useState(true);
+  const [downloadingCsv, setDownloadingCsv] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadLogs = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    const params = buildQuery(filters);
+    params.set("page", String(page));
+    params.set("limit", String(PAGE_SIZE));
+
+    try {
+      const res = await apiFetch(`/api/admin/audit-logs?${params.toString()}`);
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      const data = (await res.json()) as { logs?: AuditLogEntry[]; total?: number };
+      setLogs(data.logs ?? []);
+      setTotal(data.total ?? 0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load audit log");
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    void loadLogs();
+  }, [loadLogs]);
+
+  function updateDraft<K extends keyof AuditFilters>(key: K, value: AuditFilters[K]) {
+    setDraftFilters((current) => ({ ...current, [key]: value }));
+  }
+
+  function applyFilters(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setPage(1);
+    setFilters(draftFilters);
+  }
+
+  function resetFilters() {
+    setDraftFilters(EMPTY_FILTERS);
+    setFilters(EMPTY_FILTERS);
+    setPage(1);
+  }
+
+  async function downloadCsv() {
+    setDownloadingCsv(true);
+    setError(null);
+
+    const params = buildQuery(filters);
+    params.set("format", "csv");
+
+    try {
+      const res = await apiFetch(`/api/admin/audit-logs?${params.toString()}`);
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      const blob = await res.blob();
+      const header = res.headers.get("content-disposition") ?? "";
+      const filenameMatch = header.match(/filename="?([^"]+)"?/i);
+      const filename = filenameMatch?.[1] ?? "security-audit-log.csv";
+
+      const url = URL.createObjectURL(blob);
+      const anchor = document.createElement("a");
+      anchor.href = url;
+      anchor.download = filename;
+      document.body.append(anchor);
+      anchor.click();
+      anchor.remove();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to download csv");
+    } finally {
+      setDownloadingCsv(false);
+    }
+  }
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <Container className="py-4">
+      <div className="d-flex justify-content-between align-items-center mb-4">
+        <div>
+          <h1 className="h3 mb-1">Audit Log</h1>
+          <p className="text-muted mb-0">
+            Sign-ins, password changes and admin actions on accounts.
+          </p>
+        </div>
+        <Link to="/admin" className="btn btn-outline-secondary">
+          Back to admin home
+        </Link>
+      </div>
+
+      {error ? <Alert variant="danger">{error}</Alert> : null}
+
+      <Card className="border mb-3">
+        <Card.Body>
+          <Form onSubmit={applyFilters}>
+            <Row className="g-3">
+              <Col md={4}>
+                <Form.Group controlId="audit-action-filter">
+                  <Form.Label>Action</Form.Label>
+                  <Form.Select
+                    value={draftFilters.action}
+                    onChange={(currentEvent) => updateDraft("action", currentEvent.target.value)}
+                  >
+                    <option value="">All actions</option>
+                    {AUDIT_ACTIONS.map((entry) => (
+                      <option key={entry.value} value={entry.value}>
+                        {entry.label}
+                      </option>
+                    ))}
+                  </Form.Select>
+                </Form.Group>
+              </Col>
+              <Col md={2}>
+                <Form.Group controlId="audit-outcome-filter">
+                  <Form.Label>Outcome</Form.Label>
+                  <Form.Select
+                    value={draftFilters.outcome}
+                    onChange={(currentEvent) =>
+                      updateDraft("outcome", currentEvent.target.value as AuditOutcome | "")
+                    }
+                  >
+                    <option value="">Any</option>
+                    <option value="success">Success</option>
+                    <option value="failure">Failure</option>
+                  </Form.Select>
+                </Form.Group>
+              </Col>
+              <Col md={3}>
+                <Form.Group controlId="audit-email-filter">
+                  <Form.Label>Email</Form.Label>
+                  <Form.Control
+                    value={draftFilters.email}
+                    placeholder="Actor or target"
+                    onChange={(currentEvent) => updateDraft("email", currentEvent.target.value)}
+                  />
+                </Form.Group>
+              </Col>
+              <Col md={3}>
+                <Form.Group controlId="audit-ip-filter">
+                  <Form.Label>IP address</Form.Label>
+                  <Form.Control
+                    value={draftFilters.ip}
+                    onChange={(currentEvent) => updateDraft("ip", currentEvent.target.value)}
+                  />
+                </Form.Group>
+              </Col>
+              <Col md={3}>
+                <Form.Group controlId="audit-from-filter">
+                  <Form.Label>From</Form.Label>
+                  <Form.Control
+                    type="date"
+                    value={draftFilters.from}
+                    onChange={(currentEvent) => updateDraft("from", currentEvent.target.value)}
+                  />
+                </Form.Group>
+              </Col>
+              <Col md={3}>
+                <Form.Group controlId="audit-to-filter">
+                  <Form.Label>To</Form.Label>
+                  <Form.Control
+                    type="date"
+                    value={draftFilters.to}
+                    onChange={(currentEvent) => updateDraft("to", currentEvent.target.value)}
+                  />
+                </Form.Group>
+              </Col>
+              <Col md={6} className="d-flex align-items-end justify-content-end gap-2">
+                <Button variant="outline-secondary" onClick={resetFilters}>
+                  Reset
+                </Button>
+                <Button
+                  variant="outline-primary"
+                  disabled={downloadingCsv}
+                  onClick={() => {
+                    void downloadCsv();
+                  }}
+                >
+                  {downloadingCsv ? "Preparing..." : "Export CSV"}
+                </Button>
+                <Button type="submit">Apply filters</Button>
+              </Col>
+            </Row>
+          </Form>
+        </Card.Body>
+      </Card>
+
+      <Card className="border">
+        <Card.Body>
+          {loading ? (
+            <div className="d-flex align-items-center gap-2">
+              <Spinner animation="border" size="sm" />
+              <span>Loading audit log...</span>
+            </div>
+          ) : logs.length === 0 ? (
+            <div className="text-muted">No entries match these filters.</div>
+          ) : (
+            <>
+              <Table responsive hover size="sm" className="align-middle mb-3">
+                <thead>
+                  <tr>
+                    <th>Time</th>
+                    <th>Action</th>
+                    <th>Actor</th>
+                    <th>Target</th>
+                    <th>Client</th>
+                    <th>Details</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {logs.map((entry) => (
+                    <tr key={entry.id}>
+                      <td className="text-nowrap">{new Date(entry.createdAt).toLocaleString()}</td>
+                      <td>
+                        <div>{actionLabel(entry.action)}</div>
+                        {entry.outcome === "failure" ? <Badge bg="danger">Failed</Badge> : null}
+                      </td>
+                      <td>{describeParty(entry.actor)}</td>
+                      <td>{describeParty(entry.target)}</td>
+                      <td>
+                        <div>{entry.ip || "-"}</div>
+                        <div className="small text-muted text-truncate" style={{ maxWidth: 220 }}>
+                          {entry.userAgent || "Unknown device"}
+                        </div>
+                      </td>
+                      <td className="small">{describeDetails(entry.details) || "-"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </Table>
+
+              <div className="d-flex justify-content-between align-items-center">
+                <span className="small text-muted">
+                  {total} entries, page {page} of {pageCount}
+                </span>
+                <div className="d-flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline-secondary"
+                    disabled={page <= 1}
+                    onClick={() => setPage((current) => current - 1)}
+                  >
+                    Previous
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline-secondary"
+                    disabled={page >= pageCount}
+                    onClick={() => setPage((current) => current + 1)}
+                  >
+                    Next
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+        </Card.Body>
+      </Card>
+    </Container>
+  );
+}
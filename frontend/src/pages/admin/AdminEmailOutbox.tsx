@@ -0,0 +1,396 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Alert,
+  Badge,
+  Button,
+  Card,
+  Col,
+  Container,
+  Form,
+  Modal,
+  Row,
+  Spinner,
+  Table,
+} from "react-bootstrap";
+import { Link } from "react-router-dom";
+import { apiFetch } from "../../lib/api";
+import { readApiErrorMessage } from "../../lib/errors";
+
+type OutboxStatus = "queued" | "sending" | "sent" | "dead";
+type OutboxKind =
+  | "ticket"
+  | "announcement"
+  | "reminder"
+  | "password_reset"
+  | "security_alert"
+  | "certificate"
+  | "registration_rejected";
+
+type OutboxEmail = {
+  id: string;
+  kind: OutboxKind;
+  toEmail: string;
+  subject: string;
+  status: OutboxStatus;
+  attempts: number;
+  resendCount: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  lastError: string | null;
+  hasTicketQr: boolean;
+  certificateCode: string | null;
+  eventId: string | null;
+  createdAt: string;
+  sentAt: string | null;
+  deadAt: string | null;
+  text?: string;
+  html?: string;
+  bodyHidden?: boolean;
+};
+
+type OutboxListResponse = {
+  counts?: Record<OutboxStatus, number>;
+  emails?: OutboxEmail[];
+};
+
+const outboxStatuses: OutboxStatus[] = ["queued", "sending", "sent", "dead"];
+const outboxKinds: OutboxKind[] = [
+  "ticket",
+  "announcement",
+  "reminder",
+  "password_reset",
+  "security_alert",
+  "certificate",
+  "registration_rejected",
+];
+
+async function readErrorMessage(res: Response): Promise<string> {
+  return readApiErrorMessage(res);
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : "-";
+}
+
+function statusBadge(status: OutboxStatus) {
+  if (status === "sent") return <Badge bg="success">Sent</Badge>;
+  if (status === "dead") return <Badge bg="danger">Dead</Badge>;
+  if (status === "sending") return <Badge bg="info">Sending</Badge>;
+  return (
+    <Badge bg="warning" text="dark">
+      Queued
+    </Badge>
+  );
+}
+
+export default function AdminEmailOutbox() {
+  const [emails, setEmails] = useState<OutboxEmail[]>([]);
+  const [counts, setCounts] = useState<Record<OutboxStatus, number> | null>(null);
+  const [statusFilter, setStatusFilter] = useState<OutboxStatus | "">("dead");
+  const [kindFilter, setKindFilter] = useState<OutboxKind | "">("");
+  const [recipientFilter, setRecipientFilter] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [actioningId, setActioningId] = useState<string | null>(null);
+  const [resendingAll, setResendingAll] = useState(false);
+  const [selectedEmail, setSelectedEmail] = useState<OutboxEmail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadEmails = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    const params = new URLSearchParams();
+    if (statusFilter) params.set("status", statusFilter);
+    if (kindFilter) params.set("kind", kindFilter);
+    if (recipientFilter.trim()) params.set("toEmail", recipientFilter.trim());
+
+    try {
+      const res = await apiFetch(`/api/admin/email-outbox?${params.toString()}`);
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      const data = (await res.json()) as OutboxListResponse;
+      setEmails(data.emails ?? []);
+      setCounts(data.counts ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load email outbox");
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, kindFilter, recipientFilter]);
+
+  useEffect(() => {
+    void loadEmails();
+  }, [loadEmails]);
+
+  async function openEmail(emailId: string) {
+    setError(null);
+
+    try {
+      const res = await apiFetch(`/api/admin/email-outbox/${emailId}`);
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      const data = (await res.json()) as { email?: OutboxEmail };
+      setSelectedEmail(data.email ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load email");
+    }
+  }
+
+  async function resendEmail(emailId: string) {
+    setActioningId(emailId);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await apiFetch(`/api/admin/email-outbox/${emailId}/resend`, {
+        method: "POST",
+      });
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      setSuccess("Email requeued for delivery.");
+      await loadEmails();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to resend email");
+    } finally {
+      setActioningId(null);
+    }
+  }
+
+  async function resendAllDead() {
+    setResendingAll(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await apiFetch("/api/admin/email-outbox/resend-dead", {
+        method: "POST",
+        body: JSON.stringify(kindFilter ? { kind: kindFilter } : {}),
+      });
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      const data = (await res.json()) as { requeued?: number };
+      setSuccess(`${data.requeued ?? 0} dead email(s) requeued.`);
+      await loadEmails();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to resend emails");
+    } finally {
+      setResendingAll(false);
+    }
+  }
+
+  return (
+    <Container className="py-4">
+      <div className="d-flex justify-content-between align-items-center mb-4">
+        <div>
+          <h1 className="h3 mb-1">Email Outbox</h1>
+          <p className="text-muted mb-0">
+            Track outgoing email delivery, inspect failures, and resend dead messages.
+          </p>
+        </div>
+        <Link to="/admin" className="btn btn-outline-secondary">
+          Back to admin home
+        </Link>
+      </div>
+
+      {error ? <Alert variant="danger">{error}</Alert> : null}
+      {success ? <Alert variant="success">{success}</Alert> : null}
+
+      {counts ? (
+        <Row className="g-3 mb-3">
+          {outboxStatuses.map((status) => (
+            <Col key={`count-${status}`} xs={6} md={3}>
+              <Card className="border h-100">
+                <Card.Body>
+                  <div className="text-muted small text-capitalize">{status}</div>
+                  <div className="h4 mb-0">{counts[status] ?? 0}</div>
+                </Card.Body>
+              </Card>
+            </Col>
+          ))}
+        </Row>
+      ) : null}
+
+      <div className="d-flex gap-2 align-items-end flex-wrap mb-3">
+        <Form.Group controlId="outbox-status-filter">
+          <Form.Label>Status</Form.Label>
+          <Form.Select
+            value={statusFilter}
+            onChange={(currentEvent) =>
+              setStatusFilter(currentEvent.target.value as OutboxStatus | "")
+            }
+          >
+            <option value="">All statuses</option>
+            {outboxStatuses.map((status) => (
+              <option key={`status-${status}`} value={status}>
+                {status}
+              </option>
+            ))}
+          </Form.Select>
+        </Form.Group>
+        <Form.Group controlId="outbox-kind-filter">
+          <Form.Label>Kind</Form.Label>
+          <Form.Select
+            value={kindFilter}
+            onChange={(currentEvent) => setKindFilter(currentEvent.target.value as OutboxKind | "")}
+          >
+            <option value="">All kinds</option>
+            {outboxKinds.map((kind) => (
+              <option key={`kind-${kind}`} value={kind}>
+                {kind}
+              </option>
+            ))}
+          </Form.Select>
+        </Form.Group>
+        <Form.Group controlId="outbox-recipient-filter">
+          <Form.Label>Recipient</Form.Label>
+          <Form.Control
+            type="email"
+            placeholder="exact email address"
+            value={recipientFilter}
+            onChange={(currentEvent) => setRecipientFilter(currentEvent.target.value)}
+          />
+        </Form.Group>
+        <Button
+          variant="outline-danger"
+          disabled={resendingAll || (counts?.dead ?? 0) === 0}
+          onClick={() => {
+            void resendAllDead();
+          }}
+        >
+          {resendingAll ? "Requeueing..." : "Resend all dead"}
+        </Button>
+      </div>
+
+      <Card className="border">
+        <Card.Body>
+          {loading ? (
+            <div className="d-flex align-items-center gap-2">
+              <Spinner animation="border" size="sm" />
+              <span>Loading outbox...</span>
+            </div>
+          ) : emails.length === 0 ? (
+            <div className="text-muted mb-0">No emails match these filters.</div>
+          ) : (
+            <Table responsive hover size="sm" className="align-middle mb-0">
+              <thead>
+                <tr>
+                  <th>Recipient</th>
+                  <th>Subject</th>
+                  <th>Kind</th>
+                  <th>Status</th>
+                  <th>Attempts</th>
+                  <th>Last error</th>
+                  <th>Queued</th>
+                  <th className="text-end">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {emails.map((email) => {
+                  const canResend = email.status === "dead" || email.status === "queued";
+
+                  return (
+                    <tr key={email.id}>
+                      <td>{email.toEmail}</td>
+                      <td>{email.subject}</td>
+                      <td>{email.kind}</td>
+                      <td>
+                        {statusBadge(email.status)}
+                        {email.status === "queued" && email.attempts > 0 ? (
+                          <div className="small text-muted">
+                            retry {formatDate(email.nextAttemptAt)}
+                          </div>
+                        ) : null}
+                      </td>
+                      <td>
+                        {email.attempts}
+                        {email.resendCount > 0 ? (
+                          <span className="small text-muted"> ({email.resendCount} resends)</span>
+                        ) : null}
+                      </td>
+                      <td className="small text-danger">{email.lastError ?? "-"}</td>
+                      <td>{formatDate(email.createdAt)}</td>
+                      <td className="text-end">
+                        <div className="d-flex gap-2 justify-content-end">
+                          <Button
+                            size="sm"
+                            variant="outline-secondary"
+                            onClick={() => {
+                              void openEmail(email.id);
+                            }}
+                          >
+                            View
+                          </Button>
+                          {canResend ? (
+                            <Button
+                              size="sm"
+                              variant="outline-primary"
+                              disabled={actioningId === email.id}
+                              onClick={() => {
+                                void resendEmail(email.id);
+                              }}
+                            >
+                              {actioningId === email.id ? "Resending..." : "Resend"}
+                            </Button>
+                          ) : null}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </Table>
+          )}
+        </Card.Body>
+      </Card>
+
+      <Modal show={selectedEmail !== null} onHide={() => setSelectedEmail(null)} size="lg">
+        <Modal.Header closeButton>
+          <Modal.Title className="h5">{selectedEmail?.subject}</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          {selectedEmail ? (
+            <div className="d-grid gap-2 small">
+              <div>
+                <strong>To:</strong> {selectedEmail.toEmail}
+              </div>
+              <div>
+                <strong>Status:</strong> {statusBadge(selectedEmail.status)}{" "}
+                {selectedEmail.status === "sent"
+                  ? formatDate(selectedEmail.sentAt)
+                  : selectedEmail.status === "dead"
+                    ? formatDate(selectedEmail.deadAt)
+                    : null}
+              </div>
+              <div>
+                <strong>Last attempt:</strong> {formatDate(selectedEmail.lastAttemptAt)}
+              </div>
+              {selectedEmail.lastError ? (
+                <Alert variant="danger" className="mb-0">
+                  {selectedEmail.lastError}
+                </Alert>
+              ) : null}
+              {selectedEmail.hasTicketQr ? (
+                <div className="text-muted">Includes the ticket QR code as an inline image.</div>
+              ) : null}
+              {selectedEmail.certificateCode ? (
+                <div className="text-muted">
+                  Attaches certificate {selectedEmail.certificateCode} as a PDF.
+                </div>
+              ) : null}
+              {selectedEmail.bodyHidden ? (
+                <div className="text-muted">
+                  Body hidden because it contains a live password reset link.
+                </div>
+              ) : (
+                <pre className="border rounded p-2 mb-0" style={{ whiteSpace: "pre-wrap" }}>
+                  {selectedEmail.text}
+                </pre>
+              )}
+            </div>
+          ) : null}
+        </Modal.Body>
+      </Modal>
+    </Container>
+  );
+}
@@ -2,6 +2,8 @@ import { useEffect, useState } from "react";
 import { Alert, Card, Col, Container, Row, Spinner } from "react-bootstrap";
 import { Link } from "react-router-dom";
 import { apiFetch } from "../../lib/api";
+import ActiveSessions from "../common/ActiveSessions";
+import TwoFactorSettings from "../common/TwoFactorSettings";
 
 type OrganizerListResponse = {
   organizers?: Array<{ id: string }>;
@@ -75,6 +77,14 @@ export default function AdminHome() {
           </Card>
         </Col>
       </Row>
+
+      <div className="mt-3">
+        <TwoFactorSettings />
+      </div>
+
+      <div className="mt-3">
+        <ActiveSessions />
+      </div>
     </Container>
   );
 }
@@ -0,0 +1,207 @@
+import { useCallback, useEffect, useState } from "react";
+import { Alert, Badge, Button, Card, Container, Form, Spinner, Table } from "react-bootstrap";
+import { Link } from "react-router-dom";
+import { apiFetch } from "../../lib/api";
+import { readApiErrorMessage } from "../../lib/errors";
+
+type LockoutScope = "account" | "ip";
+type LockoutStatus = "locked" | "delayed" | "idle";
+
+type LoginLockout = {
+  id: string;
+  scope: LockoutScope;
+  key: string;
+  failures: number;
+  lockCount: number;
+  status: LockoutStatus;
+  lockedUntil: string | null;
+  nextAttemptAt: string | null;
+  firstFailureAt: string;
+  lastFailureAt: string;
+  lastIp: string | null;
+  account: { id: string; name: string; role: string } | null;
+};
+
+async function readErrorMessage(res: Response): Promise<string> {
+  return readApiErrorMessage(res);
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : "-";
+}
+
+function statusBadge(lockout: LoginLockout) {
+  if (lockout.status === "locked") return <Badge bg="danger">Locked</Badge>;
+  if (lockout.status === "delayed") {
+    return (
+      <Badge bg="warning" text="dark">
+        Slowed down
+      </Badge>
+    );
+  }
+  return <Badge bg="secondary">Recent failures</Badge>;
+}
+
+export default function AdminLoginLockouts() {
+  const [lockouts, setLockouts] = useState<LoginLockout[]>([]);
+  const [scopeFilter, setScopeFilter] = useState<LockoutScope | "">("");
+  const [activeOnly, setActiveOnly] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [clearingId, setClearingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadLockouts = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    const params = new URLSearchParams({ active: String(activeOnly) });
+    if (scopeFilter) params.set("scope", scopeFilter);
+
+    try {
+      const res = await apiFetch(`/api/admin/login-lockouts?${params.toString()}`);
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      const data = (await res.json()) as { lockouts?: LoginLockout[] };
+      setLockouts(data.lockouts ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load lockouts");
+    } finally {
+      setLoading(false);
+    }
+  }, [scopeFilter, activeOnly]);
+
+  useEffect(() => {
+    void loadLockouts();
+  }, [loadLockouts]);
+
+  async function clearLockout(lockout: LoginLockout) {
+    setClearingId(lockout.id);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await apiFetch(`/api/admin/login-lockouts/${lockout.id}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      setSuccess(`Cleared failed sign-ins for ${lockout.key}.`);
+      await loadLockouts();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to clear lockout");
+    } finally {
+      setClearingId(null);
+    }
+  }
+
+  return (
+    <Container className="py-4">
+      <div className="d-flex justify-content-between align-items-center mb-4">
+        <div>
+          <h1 className="h3 mb-1">Login Lockouts</h1>
+          <p className="text-muted mb-0">
+            Accounts and addresses blocked after repeated failed sign-ins.
+          </p>
+        </div>
+        <Link to="/admin" className="btn btn-outline-secondary">
+          Back to admin home
+        </Link>
+      </div>
+
+      {error ? <Alert variant="danger">{error}</Alert> : null}
+      {success ? <Alert variant="success">{success}</Alert> : null}
+
+      <div className="d-flex gap-3 align-items-end flex-wrap mb-3">
+        <Form.Group controlId="lockout-scope-filter">
+          <Form.Label>Type</Form.Label>
+          <Form.Select
+            value={scopeFilter}
+            onChange={(currentEvent) =>
+              setScopeFilter(currentEvent.target.value as LockoutScope | "")
+            }
+          >
+            <option value="">Accounts and IPs</option>
+            <option value="account">Accounts</option>
+            <option value="ip">IP addresses</option>
+          </Form.Select>
+        </Form.Group>
+        <Form.Check
+          type="switch"
+          id="lockout-active-only"
+          label="Only currently blocked"
+          checked={activeOnly}
+          onChange={(currentEvent) => setActiveOnly(currentEvent.target.checked)}
+        />
+      </div>
+
+      <Card className="border">
+        <Card.Body>
+          {loading ? (
+            <div className="d-flex align-items-center gap-2">
+              <Spinner animation="border" size="sm" />
+              <span>Loading lockouts...</span>
+            </div>
+          ) : lockouts.length === 0 ? (
+            <div className="text-muted">No lockouts right now.</div>
+          ) : (
+            <Table responsive hover size="sm" className="align-middle mb-0">
+              <thead>
+                <tr>
+                  <th>Account / IP</th>
+                  <th>Status</th>
+                  <th>Failures</th>
+                  <th>Blocked until</th>
+                  <th>Last failure</th>
+                  <th className="text-end">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lockouts.map((lockout) => (
+                  <tr key={lockout.id}>
+                    <td>
+                      <div>{lockout.key}</div>
+                      <div className="small text-muted">
+                        {lockout.scope === "ip"
+                          ? "IP address"
+                          : lockout.account
+                            ? `${lockout.account.name} (${lockout.account.role})`
+                            : "No matching account"}
+                      </div>
+                    </td>
+                    <td>{statusBadge(lockout)}</td>
+                    <td>
+                      {lockout.failures}
+                      {lockout.lockCount > 0 ? (
+                        <span className="small text-muted"> ({lockout.lockCount} lockouts)</span>
+                      ) : null}
+                    </td>
+                    <td>{formatDate(lockout.lockedUntil ?? lockout.nextAttemptAt)}</td>
+                    <td>
+                      {formatDate(lockout.lastFailureAt)}
+                      {lockout.scope === "account" && lockout.lastIp ? (
+                        <div className="small text-muted">from {lockout.lastIp}</div>
+                      ) : null}
+                    </td>
+                    <td className="text-end">
+                      <Button
+                        size="sm"
+                        variant="outline-primary"
+                        disabled={clearingId === lockout.id}
+                        onClick={() => {
+                          void clearLockout(lockout);
+                        }}
+                      >
+                        {clearingId === lockout.id ? "Clearing..." : "Clear"}
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          )}
+        </Card.Body>
+      </Card>
+    </Container>
+  );
+}
@@ -0,0 +1,206 @@
+import { useCallback, useEffect, useState } from "react";
+import { Alert, Badge, Button, Card, Container, Form, Spinner, Table } from "react-bootstrap";
+import { Link } from "react-router-dom";
+import { apiFetch } from "../../lib/api";
+import { readApiErrorMessage } from "../../lib/errors";
+
+type RefundStatus = "pending" | "processed";
+
+type RefundRequest = {
+  id: string;
+  eventId: string;
+  participationId: string;
+  eventName: string | null;
+  participantName: string | null;
+  participantEmail: string | null;
+  paymentAmount: number;
+  percent: number;
+  amount: number;
+  status: RefundStatus;
+  requestedAt: string;
+  processedAt: string | null;
+  reference: string | null;
+};
+
+async function readErrorMessage(res: Response): Promise<string> {
+  return readApiErrorMessage(res);
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : "-";
+}
+
+export default function AdminRefunds() {
+  const [refunds, setRefunds] = useState<RefundRequest[]>([]);
+  const [statusFilter, setStatusFilter] = useState<RefundStatus | "">("pending");
+  const [loading, setLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadRefunds = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    const params = new URLSearchParams();
+    if (statusFilter) params.set("status", statusFilter);
+
+    try {
+      const res = await apiFetch(`/api/admin/refunds?${params.toString()}`);
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      const data = (await res.json()) as { refunds?: RefundRequest[] };
+      setRefunds(data.refunds ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load refunds");
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    void loadRefunds();
+  }, [loadRefunds]);
+
+  async function processRefund(refund: RefundRequest) {
+    const referenceInput = window.prompt(
+      `Payout reference for the refund to ${refund.participantName ?? "this participant"}:`,
+      "",
+    );
+    if (referenceInput === null) return;
+
+    const reference = referenceInput.trim();
+    if (!reference) {
+      setError("A payout reference is required to mark a refund as processed.");
+      return;
+    }
+
+    setProcessingId(refund.id);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await apiFetch(`/api/participations/${refund.participationId}/refund`, {
+        method: "PATCH",
+        body: JSON.stringify({ reference }),
+      });
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      setSuccess(`Refund of ${refund.amount} marked as processed.`);
+      await loadRefunds();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to process refund");
+    } finally {
+      setProcessingId(null);
+    }
+  }
+
+  return (
+    <Container className="py-4">
+      <div className="d-flex justify-content-between align-items-center mb-4">
+        <div>
+          <h1 className="h3 mb-1">Refunds</h1>
+          <p className="text-muted mb-0">
+            Refunds owed for cancelled paid participations under each event&apos;s refund policy.
+          </p>
+        </div>
+        <Link to="/admin" className="btn btn-outline-secondary">
+          Back to admin home
+        </Link>
+      </div>
+
+      {error ? <Alert variant="danger">{error}</Alert> : null}
+      {success ? <Alert variant="success">{success}</Alert> : null}
+
+      <div className="d-flex gap-3 align-items-end flex-wrap mb-3">
+        <Form.Group controlId="refund-status-filter">
+          <Form.Label>Status</Form.Label>
+          <Form.Select
+            value={statusFilter}
+            onChange={(currentEvent) =>
+              setStatusFilter(currentEvent.target.value as RefundStatus | "")
+            }
+          >
+            <option value="pending">Pending</option>
+            <option value="processed">Processed</option>
+            <option value="">All</option>
+          </Form.Select>
+        </Form.Group>
+      </div>
+
+      <Card className="border">
+        <Card.Body>
+          {loading ? (
+            <div className="d-flex align-items-center gap-2">
+              <Spinner animation="border" size="sm" />
+              <span>Loading refunds...</span>
+            </div>
+          ) : refunds.length === 0 ? (
+            <div className="text-muted">No refunds to show.</div>
+          ) : (
+            <Table responsive hover size="sm" className="align-middle mb-0">
+              <thead>
+                <tr>
+                  <th>Participant</th>
+                  <th>Event</th>
+                  <th>Refund</th>
+                  <th>Requested</th>
+                  <th>Status</th>
+                  <th className="text-end">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {refunds.map((refund) => (
+                  <tr key={refund.id}>
+                    <td>
+                      <div>{refund.participantName ?? "Unknown participant"}</div>
+                      <div className="small text-muted">{refund.participantEmail ?? "-"}</div>
+                    </td>
+                    <td>{refund.eventName ?? "Deleted event"}</td>
+                    <td>
+                      {refund.amount}
+                      <span className="small text-muted">
+                        {" "}
+                        ({refund.percent}% of {refund.paymentAmount})
+                      </span>
+                    </td>
+                    <td>{formatDate(refund.requestedAt)}</td>
+                    <td>
+                      {refund.status === "processed" ? (
+                        <>
+                          <Badge bg="success">Processed</Badge>
+                          <div className="small text-muted">
+                            {formatDate(refund.processedAt)}
+                            {refund.reference ? ` - ref ${refund.reference}` : ""}
+                          </div>
+                        </>
+                      ) : (
+                        <Badge bg="warning" text="dark">
+                          Pending
+                        </Badge>
+                      )}
+                    </td>
+                    <td className="text-end">
+                      {refund.status === "pending" ? (
+                        <Button
+                          size="sm"
+                          variant="outline-primary"
+                          disabled={processingId === refund.id}
+                          onClick={() => {
+                            void processRefund(refund);
+                          }}
+                        >
+                          {processingId === refund.id ? "Saving..." : "Mark Refunded"}
+                        </Button>
+                      ) : null}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          )}
+        </Card.Body>
+      </Card>
+    </Container>
+  );
+}
@@ -22,6 +22,7 @@ type OrganizerRow = {
   role: string;
   isDisabled: boolean;
   isArchived?: boolean;
+  twoFactorEnabled?: boolean;
   createdAt: string;
 };
 
@@ -59,6 +60,8 @@ export default function ManageOrganizers() {
   const [lastCredentials, setLastCredentials] = useState<CredentialsState | null>(
     null,
   );
+  const [requireTwoFactor, setRequireTwoFactor] = useState(false);
+  const [savingSettings, setSavingSettings] = useState(false);
 
   const loadOrganizers = useCallback(async () => {
     setLoading(true);
@@ -81,6 +84,62 @@ export default function ManageOrganizers() {
     void loadOrganizers();
   }, [loadOrganizers]);
 
+  useEffect(() => {
+    async function loadSecuritySettings() {
+      try {
+        const res = await apiFetch("/api/admin/security-settings");
+        if (!res.ok) throw new Error(await readErrorMessage(res));
+
+        const data = (await res.json()) as {
+          settings?: { requireOrganizerTwoFactor?: boolean };
+        };
+        setRequireTwoFactor(data.settings?.requireOrganizerTwoFactor === true);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load security settings");
+      }
+    }
+
+    void loadSecuritySettings();
+  }, []);
+
+  async function onToggleRequireTwoFactor(nextValue: boolean) {
+    if (
+      nextValue &&
+      !window.confirm(
+        "Organizers without two-factor authentication will be signed out and asked to set it up on their next login. Continue?",
+      )
+    ) {
+      return;
+    }
+
+    setSavingSettings(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await apiFetch("/api/admin/security-settings", {
+        method: "PATCH",
+        body: JSON.stringify({ requireOrganizerTwoFactor: nextValue }),
+      });
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      const data = (await res.json()) as {
+        settings?: { requireOrganizerTwoFactor?: boolean };
+        signedOutOrganizers?: number;
+      };
+      setRequireTwoFactor(data.settings?.requireOrganizerTwoFactor === true);
+      setSuccess(
+        nextValue
+          ? `Two-factor authentication is now required for organizers. ${data.signedOutOrganizers ?? 0} organizer(s) signed out.`
+          : "Two-factor authentication is now optional for organizers.",
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update security settings");
+    } finally {
+      setSavingSettings(false);
+    }
+  }
+
   async function onCreateOrganizer(e: React.FormEvent<HTMLFormElement>) {
     e.preventDefault();
     setError(null);
@@ -114,13 +173,18 @@ export default function ManageOrganizers() {
     }
   }
 
-  async function runAction(path: string, organizerId: string, successMessage: string) {
+  async function runAction(
+    path: string,
+    organizerId: string,
+    successMessage: string,
+    method: "PATCH" | "POST" = "PATCH",
+  ) {
     setActioningId(organizerId);
     setError(null);
     setSuccess(null);
 
     try {
-      const res = await apiFetch(path, { method: "PATCH" });
+      const res = await apiFetch(path, { method });
       if (!res.ok) throw new Error(await readErrorMessage(res));
 
       setSuccess(successMessage);
@@ -231,6 +295,27 @@ export default function ManageOrganizers() {
         </Col>
       </Row>
 
+      <Card className="mb-3">
+        <Card.Body className="d-flex justify-content-between align-items-center gap-3 flex-wrap">
+          <div>
+            <Card.Title className="mb-1">Organizer Security</Card.Title>
+            <div className="text-muted small">
+              When required, organizers must set up an authenticator app before they can sign in.
+            </div>
+          </div>
+          <Form.Check
+            type="switch"
+            id="require-organizer-2fa"
+            label="Require two-factor authentication"
+            checked={requireTwoFactor}
+            disabled={savingSettings}
+            onChange={(e) => {
+              void onToggleRequireTwoFactor(e.target.checked);
+            }}
+          />
+        </Card.Body>
+      </Card>
+
       <Card>
         <Card.Body>
           <Card.Title className="mb-3">Organizer Accounts</Card.Title>
@@ -247,6 +332,7 @@ export default function ManageOrganizers() {
                   <th>Name</th>
                   <th>Email</th>
                   <th>Status</th>
+                  <th>2FA</th>
                   <th>Created</th>
                   <th className="text-end">Actions</th>
                 </tr>
@@ -254,7 +340,7 @@ export default function ManageOrganizers() {
               <tbody>
                 {organizers.length === 0 ? (
                   <tr>
-                    <td colSpan={5} className="text-center text-muted py-4">
+                    <td colSpan={6} className="text-center text-muted py-4">
                       No organizers found.
                     </td>
                   </tr>
@@ -274,6 +360,15 @@ export default function ManageOrganizers() {
                             <Badge bg="success">Active</Badge>
                           )}
                         </td>
+                        <td>
+                          {organizer.twoFactorEnabled ? (
+                            <Badge bg="success">On</Badge>
+                          ) : (
+                            <Badge bg="light" text="dark">
+                              Off
+                            </Badge>
+                          )}
+                        </td>
                         <td>{new Date(organizer.createdAt).toLocaleString()}</td>
                         <td>
                           <div className="d-flex justify-content-end gap-2 flex-wrap">
@@ -328,6 +423,31 @@ export default function ManageOrganizers() {
                               Archive
                             </Button>
 
+                            {organizer.twoFactorEnabled ? (
+                              <Button
+                                size="sm"
+                                variant="outline-secondary"
+                                disabled={busy}
+                                onClick={() => {
+                                  if (
+                                    !window.confirm(
+                                      `Reset two-factor authentication for ${organizer.name}? They will be signed out and must enrol again.`,
+                                    )
+                                  ) {
+                                    return;
+                                  }
+                                  void runAction(
+                                    `/api/admin/organizers/${organizer.id}/2fa/reset`,
+                                    organizer.id,
+                                    "Two-factor authentication reset",
+                                    "POST",
+                                  );
+                                }}
+                              >
+                                Reset 2FA
+                              </Button>
+                            ) : null}
+
                             <Button
                               size="sm"
                               variant="outline-danger"
@@ -0,0 +1,202 @@
+import { useCallback, useEffect, useState } from "react";
+import { Alert, Badge, Button, Card, Spinner } from "react-bootstrap";
+import { useNavigate } from "react-router-dom";
+import { apiFetch } from "../../lib/api";
+import { useAuth } from "../../lib/authState";
+
+type SessionSummary = {
+  id: string;
+  device: string;
+  userAgent: string;
+  ip: string;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean;
+};
+
+async function readErrorMessage(res: Response): Promise<string> {
+  try {
+    const data = await res.json();
+    return data?.error?.message || "Request failed";
+  } catch {
+    return "Request failed";
+  }
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleString();
+}
+
+export default function ActiveSessions() {
+  const navigate = useNavigate();
+  const { setUser } = useAuth();
+
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await apiFetch("/api/security/sessions");
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      const data = (await res.json()) as { sessions?: SessionSummary[] };
+      setSessions(data.sessions ?? []);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load sessions");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadSessions();
+  }, [loadSessions]);
+
+  function signedOutHere() {
+    setUser(null);
+    navigate("/login", { replace: true });
+  }
+
+  async function revokeSession(session: SessionSummary) {
+    setBusyId(session.id);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await apiFetch(`/api/security/sessions/${session.id}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      if (session.current) {
+        signedOutHere();
+        return;
+      }
+
+      setSuccess(`Signed out ${session.device}.`);
+      await loadSessions();
+    } catch (revokeError) {
+      setError(revokeError instanceof Error ? revokeError.message : "Failed to revoke session");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function revokeAll(keepCurrent: boolean) {
+    const confirmed = window.confirm(
+      keepCurrent
+        ? "Sign out every other device?"
+        : "Sign out everywhere, including this browser?",
+    );
+    if (!confirmed) return;
+
+    setBusyId(keepCurrent ? "others" : "all");
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await apiFetch("/api/security/sessions/revoke-all", {
+        method: "POST",
+        body: JSON.stringify({ keepCurrent }),
+      });
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      if (!keepCurrent) {
+        signedOutHere();
+        return;
+      }
+
+      const data = (await res.json()) as { revoked?: number };
+      setSuccess(`Signed out ${data.revoked ?? 0} other session(s).`);
+      await loadSessions();
+    } catch (revokeError) {
+      setError(revokeError instanceof Error ? revokeError.message : "Failed to revoke sessions");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  const otherSessionCount = sessions.filter((session) => !session.current).length;
+
+  return (
+    <Card className="border">
+      <Card.Body>
+        <div className="d-flex justify-content-between align-items-center mb-3 gap-2 flex-wrap">
+          <Card.Title className="h5 mb-0">Active Sessions</Card.Title>
+          <div className="d-flex gap-2">
+            <Button
+              size="sm"
+              variant="outline-secondary"
+              disabled={busyId !== null || otherSessionCount === 0}
+              onClick={() => {
+                void revokeAll(true);
+              }}
+            >
+              {busyId === "others" ? "Signing out..." : "Sign out other devices"}
+            </Button>
+            <Button
+              size="sm"
+              variant="outline-danger"
+              disabled={busyId !== null}
+              onClick={() => {
+                void revokeAll(false);
+              }}
+            >
+              {busyId === "all" ? "Signing out..." : "Log out everywhere"}
+            </Button>
+          </div>
+        </div>
+
+        {error ? <Alert variant="danger">{error}</Alert> : null}
+        {success ? <Alert variant="success">{success}</Alert> : null}
+
+        {loading ? (
+          <div className="d-flex align-items-center gap-2">
+            <Spinner animation="border" size="sm" />
+            <span>Loading sessions...</span>
+          </div>
+        ) : sessions.length === 0 ? (
+          <div className="text-muted">No active sessions.</div>
+        ) : (
+          <div className="d-grid gap-2">
+            {sessions.map((session) => (
+              <Card key={session.id} className="border">
+                <Card.Body className="py-2 d-flex justify-content-between align-items-center gap-2">
+                  <div>
+                    <div className="fw-semibold">
+                      {session.device}{" "}
+                      {session.current ? <Badge bg="success">This browser</Badge> : null}
+                    </div>
+                    <div className="small text-muted">
+                      {session.ip || "Unknown IP"} · last seen {formatDate(session.lastSeenAt)}
+                    </div>
+                    <div className="small text-muted">
+                      Signed in {formatDate(session.createdAt)}
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline-danger"
+                    disabled={busyId !== null}
+                    onClick={() => {
+                      void revokeSession(session);
+                    }}
+                  >
+                    {busyId === session.id ? "Revoking..." : "Revoke"}
+                  </Button>
+                </Card.Body>
+              </Card>
+            ))}
+          </div>
+        )}
+      </Card.Body>
+    </Card>
+  );
+}
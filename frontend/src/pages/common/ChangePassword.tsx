@@ -49,7 +49,13 @@ export default function ChangePassword({ username = "" }: ChangePasswordProps) {
       setCurrentPassword("");
       setNewPassword("");
       setConfirmPassword("");
-      setSuccess("Password updated successfully.");
+      const data = (await res.json()) as { revokedSessions?: number };
+      const revokedSessions = data.revokedSessions ?? 0;
+      setSuccess(
+        revokedSessions > 0
+          ? `Password updated successfully. Signed out ${revokedSessions} other session(s).`
+          : "Password updated successfully.",
+      );
     } catch (submitError) {
       setError(
         submitError instanceof Error ? submitError.message : "Failed to change password",
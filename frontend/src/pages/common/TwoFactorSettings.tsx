@@ -0,0 +1,263 @@
+import { useCallback, useEffect, useState } from "react";
+import { Alert, Badge, Button, Card, Form, Spinner } from "react-bootstrap";
+import RecoveryCodesList from "../../components/RecoveryCodesList";
+import { apiFetch } from "../../lib/api";
+import type { TwoFactorProvisioning } from "../../lib/auth";
+
+type TwoFactorStatus = {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  required: boolean;
+};
+
+type PendingAction = "enable" | "disable" | "regenerate" | null;
+
+async function readErrorMessage(res: Response): Promise<string> {
+  try {
+    const data = await res.json();
+    return data?.error?.message || "Request failed";
+  } catch {
+    return "Request failed";
+  }
+}
+
+export default function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const [action, setAction] = useState<PendingAction>(null);
+  const [provisioning, setProvisioning] = useState<TwoFactorProvisioning | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      const res = await apiFetch("/api/security/2fa");
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      const data = (await res.json()) as { twoFactor?: TwoFactorStatus };
+      setStatus(data.twoFactor ?? null);
+    } catch (loadError) {
+      setError(
+        loadError instanceof Error ? loadError.message : "Failed to load two-factor settings",
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadStatus();
+  }, [loadStatus]);
+
+  function resetForm() {
+    setAction(null);
+    setProvisioning(null);
+    setCode("");
+    setPassword("");
+  }
+
+  async function beginSetup() {
+    setBusy(true);
+    setError(null);
+    setSuccess(null);
+    setRecoveryCodes(null);
+
+    try {
+      const res = await apiFetch("/api/security/2fa/setup", { method: "POST" });
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      setProvisioning((await res.json()) as TwoFactorProvisioning);
+      setAction("enable");
+    } catch (setupError) {
+      setError(setupError instanceof Error ? setupError.message : "Failed to start setup");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function onSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!action) return;
+
+    setBusy(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const path =
+        action === "enable"
+          ? "/api/security/2fa/enable"
+          : action === "disable"
+            ? "/api/security/2fa/disable"
+            : "/api/security/2fa/recovery-codes";
+      const body = action === "disable" ? { password, code } : { code };
+
+      const res = await apiFetch(path, { method: "POST", body: JSON.stringify(body) });
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      const data = (await res.json()) as { recoveryCodes?: string[] };
+      setRecoveryCodes(data.recoveryCodes ?? null);
+      setSuccess(
+        action === "enable"
+          ? "Two-factor authentication enabled."
+          : action === "disable"
+            ? "Two-factor authentication disabled."
+            : "New recovery codes generated. The old ones no longer work.",
+      );
+      resetForm();
+      await loadStatus();
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : "Request failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Card className="border">
+      <Card.Body>
+        <div className="d-flex justify-content-between align-items-center mb-3">
+          <Card.Title className="h5 mb-0">Two-Factor Authentication</Card.Title>
+          {status ? (
+            status.enabled ? (
+              <Badge bg="success">Enabled</Badge>
+            ) : (
+              <Badge bg="secondary">Off</Badge>
+            )
+          ) : null}
+        </div>
+
+        {error ? <Alert variant="danger">{error}</Alert> : null}
+        {success ? <Alert variant="success">{success}</Alert> : null}
+        {recoveryCodes ? (
+          <div className="mb-3">
+            <RecoveryCodesList codes={recoveryCodes} />
+          </div>
+        ) : null}
+
+        {loading ? (
+          <div className="d-flex align-items-center gap-2">
+            <Spinner animation="border" size="sm" />
+            <span>Loading...</span>
+          </div>
+        ) : !status ? null : action ? (
+          <Form onSubmit={onSubmit}>
+            {action === "enable" && provisioning ? (
+              <div className="text-center mb-3">
+                <p className="small text-muted">
+                  Scan with an authenticator app, then enter the 6-digit code it shows.
+                </p>
+                <img
+                  src={provisioning.qrDataUrl}
+                  alt="Authenticator QR code"
+                  width={180}
+                  height={180}
+                />
+                <div className="small text-muted mt-2">
+                  Can't scan? Enter this key: <code>{provisioning.secret}</code>
+                </div>
+              </div>
+            ) : null}
+
+            {action === "disable" ? (
+              <Form.Group className="mb-3" controlId="two-factor-password">
+                <Form.Label>Password</Form.Label>
+                <Form.Control
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                />
+              </Form.Group>
+            ) : null}
+
+            <Form.Group className="mb-3" controlId="two-factor-settings-code">
+              <Form.Label>Authentication code</Form.Label>
+              <Form.Control
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+              />
+            </Form.Group>
+
+            <div className="d-flex justify-content-end gap-2">
+              <Button variant="outline-secondary" onClick={resetForm} disabled={busy}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant={action === "disable" ? "danger" : "primary"}
+                disabled={busy}
+              >
+                {busy
+                  ? "Saving..."
+                  : action === "enable"
+                    ? "Enable"
+                    : action === "disable"
+                      ? "Disable 2FA"
+                      : "Generate new codes"}
+              </Button>
+            </div>
+          </Form>
+        ) : status.enabled ? (
+          <>
+            <p className="small text-muted">
+              Sign-ins ask for a code from your authenticator app.{" "}
+              {status.recoveryCodesRemaining} recovery code(s) left.
+              {status.required ? " Required for organizer accounts by the admin." : ""}
+            </p>
+            <div className="d-flex justify-content-end gap-2">
+              <Button
+                variant="outline-secondary"
+                onClick={() => {
+                  setRecoveryCodes(null);
+                  setAction("regenerate");
+                }}
+              >
+                New recovery codes
+              </Button>
+              <Button
+                variant="outline-danger"
+                disabled={status.required}
+                onClick={() => {
+                  setRecoveryCodes(null);
+                  setAction("disable");
+                }}
+              >
+                Disable
+              </Button>
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="small text-muted">
+              Protect this account with a second step at sign-in using an authenticator app.
+            </p>
+            <div className="d-flex justify-content-end">
+              <Button
+                disabled={busy}
+                onClick={() => {
+                  void beginSetup();
+                }}
+              >
+                {busy ? "Preparing..." : "Set up 2FA"}
+              </Button>
+            </div>
+          </>
+        )}
+      </Card.Body>
+    </Card>
+  );
+}
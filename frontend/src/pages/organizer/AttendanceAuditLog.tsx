@@ -0,0 +1,415 @@
+import { useCallback, useEffect, useState } from "react";
+import { Alert, Badge, Button, Card, Col, Form, Row, Spinner } from "react-bootstrap";
+import { apiFetch } from "../../lib/api";
+import { readApiErrorMessage } from "../../lib/errors";
+import type { AttendanceCheckpoint } from "./AttendanceCheckpoints";
+
+type TeamRole = "scanner" | "finance" | "editor";
+
+export type AttendanceAuditAction =
+  | "scan_mark_present"
+  | "manual_mark_present"
+  | "manual_mark_absent";
+
+export type AttendanceAuditEntry = {
+  id: string;
+  eventId: string;
+  participationId: string;
+  userId: string;
+  participantName: string;
+  actorOrganizerId: string;
+  actorOrganizerName: string | null;
+  actorMember: { id: string; name: string; role: TeamRole | null } | null;
+  device: { id: string; label: string } | null;
+  action: AttendanceAuditAction;
+  reason: string | null;
+  previousIsPresent: boolean;
+  previousMarkedAt: string | null;
+  nextIsPresent: boolean;
+  nextMarkedAt: string | null;
+  createdAt: string;
+  syncedAt: string | null;
+  checkpointKey: string;
+};
+
+type AuditActorOption = {
+  value: string;
+  label: string;
+};
+
+type AuditFilters = {
+  action: AttendanceAuditAction | "";
+  actor: string;
+  participant: string;
+  checkpointKey: string;
+  from: string;
+  to: string;
+};
+
+type AttendanceAuditLogProps = {
+  eventId: string;
+  checkpoints: AttendanceCheckpoint[];
+  // the newest entry the parent knows about; the log reloads when it changes
+  latestEntryId: string | null;
+};
+
+const PAGE_SIZE = 25;
+
+const emptyFilters: AuditFilters = {
+  action: "",
+  actor: "",
+  participant: "",
+  checkpointKey: "",
+  from: "",
+  to: "",
+};
+
+const auditActions: AttendanceAuditAction[] = [
+  "scan_mark_present",
+  "manual_mark_present",
+  "manual_mark_absent",
+];
+
+async function readErrorMessage(res: Response): Promise<string> {
+  return readApiErrorMessage(res);
+}
+
+function formatAttendanceAuditAction(action: AttendanceAuditAction): string {
+  if (action === "scan_mark_present") return "scan marked present";
+  if (action === "manual_mark_present") return "manual override: present";
+  return "manual override: absent";
+}
+
+function formatDate(value: string | null): string {
+  if (!value) return "-";
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return "-";
+  return parsed.toLocaleString();
+}
+
+function describeActor(entry: AttendanceAuditEntry): string {
+  if (entry.device) return `gate device "${entry.device.label}"`;
+  if (entry.actorMember) {
+    return `${entry.actorMember.name} (${entry.actorMember.role ?? "team"}, ${
+      entry.actorOrganizerName ?? entry.actorOrganizerId
+    })`;
+  }
+  return entry.actorOrganizerName ?? entry.actorOrganizerId;
+}
+
+function buildAuditQuery(filters: AuditFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.action) params.set("action", filters.action);
+  if (filters.actor) params.set("actor", filters.actor);
+  if (filters.participant.trim()) params.set("participant", filters.participant.trim());
+  if (filters.checkpointKey) params.set("checkpointKey", filters.checkpointKey);
+  // datetime-local values are local time; the api wants an absolute instant
+  if (filters.from) params.set("from", new Date(filters.from).toISOString());
+  if (filters.to) params.set("to", new Date(filters.to).toISOString());
+  return params;
+}
+
+export default function AttendanceAuditLog({
+  eventId,
+  checkpoints,
+  latestEntryId,
+}: AttendanceAuditLogProps) {
+  const [draftFilters, setDraftFilters] = useState<AuditFilters>(emptyFilters);
+  const [filters, setFilters] = useState<AuditFilters>(emptyFilters);
+  const [page, setPage] = useState(1);
+  const [entries, setEntries] = useState<AttendanceAuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [actors, setActors] = useState<AuditActorOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const checkpointNameByKey = new Map(
+    checkpoints.map((checkpoint) => [checkpoint.key, checkpoint.name]),
+  );
+
+  const loadEntries = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const params = buildAuditQuery(filters);
+      params.set("page", String(page));
+      params.set("limit", String(PAGE_SIZE));
+
+      const res = await apiFetch(
+        `/api/events/organizer/${eventId}/attendance/audit?${params.toString()}`,
+      );
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      const data = (await res.json()) as {
+        entries?: AttendanceAuditEntry[];
+        total?: number;
+        actors?: AuditActorOption[];
+      };
+      setEntries(data.entries ?? []);
+      setTotal(data.total ?? 0);
+      setActors(data.actors ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load attendance audit log");
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId, filters, page]);
+
+  useEffect(() => {
+    void loadEntries();
+  }, [loadEntries, latestEntryId]);
+
+  function updateDraft(changes: Partial<AuditFilters>) {
+    setDraftFilters((current) => ({ ...current, ...changes }));
+  }
+
+  function applyFilters(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setPage(1);
+    setFilters(draftFilters);
+  }
+
+  function clearFilters() {
+    setDraftFilters(emptyFilters);
+    setPage(1);
+    setFilters(emptyFilters);
+  }
+
+  async function downloadCsv() {
+    setDownloading(true);
+    setError(null);
+
+    try {
+      const params = buildAuditQuery(filters);
+      params.set("format", "csv");
+      const res = await apiFetch(
+        `/api/events/organizer/${eventId}/attendance/audit?${params.toString()}`,
+      );
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      const blob = await res.blob();
+      const header = res.headers.get("content-disposition") ?? "";
+      const filenameMatch = header.match(/filename="?([^"]+)"?/i);
+      const filename = filenameMatch?.[1] ?? "attendance-audit.csv";
+
+      const url = URL.createObjectURL(blob);
+      const anchor = document.createElement("a");
+      anchor.href = url;
+      anchor.download = filename;
+      document.body.append(anchor);
+      anchor.click();
+      anchor.remove();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to download csv");
+    } finally {
+      setDownloading(false);
+    }
+  }
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <Card className="border">
+      <Card.Body>
+        <div className="d-flex justify-content-between align-items-start gap-2 flex-wrap mb-2">
+          <div>
+            <h3 className="h6 mb-1">Attendance Audit Log</h3>
+            <p className="text-muted small mb-0">
+              Every scan and manual override, newest first. Filter by participant to settle
+              &quot;I was scanned but marked absent&quot; disputes.
+            </p>
+          </div>
+          <Button
+            size="sm"
+            variant="outline-secondary"
+            disabled={downloading}
+            onClick={() => {
+              void downloadCsv();
+            }}
+          >
+            {downloading ? "Downloading..." : "Export CSV"}
+          </Button>
+        </div>
+
+        <Form onSubmit={applyFilters} className="mb-3">
+          <Row className="g-2 align-items-end">
+            <Col md={4}>
+              <Form.Group controlId="attendance-audit-participant">
+                <Form.Label className="small mb-1">Participant</Form.Label>
+                <Form.Control
+                  size="sm"
+                  placeholder="Name, email or participation id"
+                  value={draftFilters.participant}
+                  onChange={(e) => updateDraft({ participant: e.target.value })}
+                />
+              </Form.Group>
+            </Col>
+            <Col md={4}>
+              <Form.Group controlId="attendance-audit-action">
+                <Form.Label className="small mb-1">Action</Form.Label>
+                <Form.Select
+                  size="sm"
+                  value={draftFilters.action}
+                  onChange={(e) =>
+                    updateDraft({ action: e.target.value as AttendanceAuditAction | "" })
+                  }
+                >
+                  <option value="">All actions</option>
+                  {auditActions.map((action) => (
+                    <option key={action} value={action}>
+                      {formatAttendanceAuditAction(action)}
+                    </option>
+                  ))}
+                </Form.Select>
+              </Form.Group>
+            </Col>
+            <Col md={4}>
+              <Form.Group controlId="attendance-audit-actor">
+                <Form.Label className="small mb-1">Done by</Form.Label>
+                <Form.Select
+                  size="sm"
+                  value={draftFilters.actor}
+                  onChange={(e) => updateDraft({ actor: e.target.value })}
+                >
+                  <option value="">Anyone</option>
+                  {actors.map((actor) => (
+                    <option key={actor.value} value={actor.value}>
+                      {actor.label}
+                    </option>
+                  ))}
+                </Form.Select>
+              </Form.Group>
+            </Col>
+            <Col md={4}>
+              <Form.Group controlId="attendance-audit-checkpoint">
+                <Form.Label className="small mb-1">Checkpoint</Form.Label>
+                <Form.Select
+                  size="sm"
+                  value={draftFilters.checkpointKey}
+                  onChange={(e) => updateDraft({ checkpointKey: e.target.value })}
+                >
+                  <option value="">All checkpoints</option>
+                  {checkpoints.map((checkpoint) => (
+                    <option key={checkpoint.key} value={checkpoint.key}>
+                      {checkpoint.name}
+                    </option>
+                  ))}
+                </Form.Select>
+              </Form.Group>
+            </Col>
+            <Col md={3}>
+              <Form.Group controlId="attendance-audit-from">
+                <Form.Label className="small mb-1">From</Form.Label>
+                <Form.Control
+                  size="sm"
+                  type="datetime-local"
+                  value={draftFilters.from}
+                  onChange={(e) => updateDraft({ from: e.target.value })}
+                />
+              </Form.Group>
+            </Col>
+            <Col md={3}>
+              <Form.Group controlId="attendance-audit-to">
+                <Form.Label className="small mb-1">To</Form.Label>
+                <Form.Control
+                  size="sm"
+                  type="datetime-local"
+                  value={draftFilters.to}
+                  onChange={(e) => updateDraft({ to: e.target.value })}
+                />
+              </Form.Group>
+            </Col>
+            <Col md={2} className="d-flex gap-2">
+              <Button size="sm" type="submit">
+                Apply
+              </Button>
+              <Button size="sm" variant="outline-secondary" onClick={clearFilters}>
+                Clear
+              </Button>
+            </Col>
+          </Row>
+        </Form>
+
+        {error ? <Alert variant="danger">{error}</Alert> : null}
+
+        {loading ? (
+          <div className="d-flex align-items-center gap-2">
+            <Spinner animation="border" size="sm" />
+            <span>Loading audit log...</span>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="text-muted small">No attendance audit entries match.</div>
+        ) : (
+          <div className="border-start border-2 ps-3 d-grid gap-2">
+            {entries.map((entry) => (
+              <div className="small" key={entry.id}>
+                <div className="d-flex justify-content-between align-items-start gap-2 flex-wrap">
+                  <div>
+                    <strong>{entry.participantName}</strong>{" "}
+                    <Badge bg={entry.nextIsPresent ? "success" : "secondary"}>
+                      {entry.previousIsPresent ? "present" : "absent"} {"->"}{" "}
+                      {entry.nextIsPresent ? "present" : "absent"}
+                    </Badge>
+                    <div className="text-muted">
+                      {formatAttendanceAuditAction(entry.action)} at{" "}
+                      {checkpointNameByKey.get(entry.checkpointKey) ?? entry.checkpointKey}
+                    </div>
+                  </div>
+                  <div className="text-muted text-end">
+                    {formatDate(entry.createdAt)}
+                    {entry.syncedAt ? (
+                      <div>offline scan, synced {formatDate(entry.syncedAt)}</div>
+                    ) : null}
+                  </div>
+                </div>
+                {entry.reason ? (
+                  <div>
+                    <strong>Reason:</strong> {entry.reason}
+                  </div>
+                ) : null}
+                <div>
+                  <strong>By:</strong> {describeActor(entry)}
+                </div>
+                {entry.previousMarkedAt !== entry.nextMarkedAt ? (
+                  <div className="text-muted">
+                    Marked at: {formatDate(entry.previousMarkedAt)} {"->"}{" "}
+                    {formatDate(entry.nextMarkedAt)}
+                  </div>
+                ) : null}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {total > PAGE_SIZE ? (
+          <div className="d-flex justify-content-between align-items-center mt-3 small">
+            <span className="text-muted">
+              Page {page} of {pageCount} ({total} entries)
+            </span>
+            <div className="d-flex gap-2">
+              <Button
+                size="sm"
+                variant="outline-secondary"
+                disabled={page <= 1 || loading}
+                onClick={() => setPage((current) => current - 1)}
+              >
+                Previous
+              </Button>
+              <Button
+                size="sm"
+                variant="outline-secondary"
+                disabled={page >= pageCount || loading}
+                onClick={() => setPage((current) => current + 1)}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        ) : null}
+      </Card.Body>
+    </Card>
+  );
+}
@@ -0,0 +1,189 @@
+import { useEffect, useState } from "react";
+import { Alert, Button, Card, Col, Form, Row } from "react-bootstrap";
+import { apiFetch } from "../../lib/api";
+import { readApiErrorMessage } from "../../lib/errors";
+
+export type AttendanceCheckpoint = {
+  key: string;
+  name: string;
+  scanLimit: number;
+};
+
+type CheckpointDraft = AttendanceCheckpoint & {
+  // keys of saved checkpoints are fixed, since scans and csv columns refer to them
+  isNew: boolean;
+};
+
+type AttendanceCheckpointsProps = {
+  eventId: string;
+  checkpoints: AttendanceCheckpoint[];
+  onSaved: () => Promise<void> | void;
+};
+
+async function readErrorMessage(res: Response): Promise<string> {
+  return readApiErrorMessage(res);
+}
+
+function toCheckpointKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40);
+}
+
+function toDrafts(checkpoints: AttendanceCheckpoint[]): CheckpointDraft[] {
+  return checkpoints.map((checkpoint) => ({ ...checkpoint, isNew: false }));
+}
+
+export default function AttendanceCheckpoints({
+  eventId,
+  checkpoints,
+  onSaved,
+}: AttendanceCheckpointsProps) {
+  const [drafts, setDrafts] = useState<CheckpointDraft[]>(() => toDrafts(checkpoints));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDrafts(toDrafts(checkpoints));
+  }, [checkpoints]);
+
+  function updateDraft(index: number, changes: Partial<CheckpointDraft>) {
+    setDrafts((current) =>
+      current.map((draft, draftIndex) => (draftIndex === index ? { ...draft, ...changes } : draft)),
+    );
+  }
+
+  async function saveCheckpoints(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await apiFetch(`/api/events/organizer/${eventId}/attendance/checkpoints`, {
+        method: "PUT",
+        body: JSON.stringify({
+          checkpoints: drafts.map((draft) => ({
+            key: draft.key.trim() || toCheckpointKey(draft.name),
+            name: draft.name.trim(),
+            scanLimit: draft.scanLimit,
+          })),
+        }),
+      });
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      setSuccess("Checkpoints saved.");
+      await onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save checkpoints");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Card className="border">
+      <Card.Body>
+        <h3 className="h6 mb-1">Checkpoints</h3>
+        <p className="text-muted small mb-3">
+          Each checkpoint is scanned separately, e.g. day-wise entry, sessions, meals or exit. The
+          scan limit is how many times one ticket can be scanned there. Checkpoints that already
+          have scans can be renamed but not removed.
+        </p>
+
+        {error ? <Alert variant="danger">{error}</Alert> : null}
+        {success ? <Alert variant="success">{success}</Alert> : null}
+
+        <Form onSubmit={saveCheckpoints}>
+          <div className="d-grid gap-2">
+            {drafts.map((draft, index) => (
+              <Row className="g-2 align-items-end" key={draft.isNew ? `new-${index}` : draft.key}>
+                <Col md={5}>
+                  <Form.Group controlId={`checkpoint-name-${index}`}>
+                    <Form.Label className="small mb-1">Name</Form.Label>
+                    <Form.Control
+                      size="sm"
+                      required
+                      maxLength={80}
+                      placeholder="Day 1 lunch"
+                      value={draft.name}
+                      onChange={(currentEvent) =>
+                        updateDraft(index, { name: currentEvent.target.value })
+                      }
+                    />
+                  </Form.Group>
+                </Col>
+                <Col md={3}>
+                  <Form.Group controlId={`checkpoint-key-${index}`}>
+                    <Form.Label className="small mb-1">Key</Form.Label>
+                    <Form.Control
+                      size="sm"
+                      maxLength={40}
+                      readOnly={!draft.isNew}
+                      placeholder={toCheckpointKey(draft.name) || "day1-lunch"}
+                      value={draft.key}
+                      onChange={(currentEvent) =>
+                        updateDraft(index, { key: currentEvent.target.value })
+                      }
+                    />
+                  </Form.Group>
+                </Col>
+                <Col md={2}>
+                  <Form.Group controlId={`checkpoint-limit-${index}`}>
+                    <Form.Label className="small mb-1">Scan limit</Form.Label>
+                    <Form.Control
+                      size="sm"
+                      type="number"
+                      min={1}
+                      max={50}
+                      required
+                      value={draft.scanLimit}
+                      onChange={(currentEvent) =>
+                        updateDraft(index, { scanLimit: Number(currentEvent.target.value) })
+                      }
+                    />
+                  </Form.Group>
+                </Col>
+                <Col md={2}>
+                  <Button
+                    size="sm"
+                    variant="outline-danger"
+                    className="w-100"
+                    disabled={drafts.length === 1}
+                    onClick={() =>
+                      setDrafts((current) => current.filter((_, draftIndex) => draftIndex !== index))
+                    }
+                  >
+                    Remove
+                  </Button>
+                </Col>
+              </Row>
+            ))}
+          </div>
+
+          <div className="d-flex gap-2 mt-3">
+            <Button
+              size="sm"
+              variant="outline-secondary"
+              disabled={drafts.length >= 30}
+              onClick={() =>
+                setDrafts((current) => [
+                  ...current,
+                  { key: "", name: "", scanLimit: 1, isNew: true },
+                ])
+              }
+            >
+              Add checkpoint
+            </Button>
+            <Button size="sm" type="submit" disabled={saving}>
+              {saving ? "Saving..." : "Save checkpoints"}
+            </Button>
+          </div>
+        </Form>
+      </Card.Body>
+    </Card>
+  );
+}
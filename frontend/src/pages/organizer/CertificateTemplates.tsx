@@ -0,0 +1,387 @@
+import { useCallback, useEffect, useState } from "react";
+import { Alert, Button, Card, Col, Container, Form, Row, Spinner, Table } from "react-bootstrap";
+import { apiFetch } from "../../lib/api";
+import { readApiErrorMessage } from "../../lib/errors";
+
+type CertificateDesign = {
+  title: string;
+  body: string;
+  signatoryName: string | null;
+  signatoryTitle: string | null;
+  accentColor: string;
+};
+
+type CertificateTemplate = CertificateDesign & {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+type TemplateDraft = {
+  name: string;
+  title: string;
+  body: string;
+  signatoryName: string;
+  signatoryTitle: string;
+  accentColor: string;
+};
+
+const placeholders = ["{participantName}", "{eventName}", "{organizerName}", "{eventDate}"];
+
+async function readErrorMessage(res: Response): Promise<string> {
+  return readApiErrorMessage(res);
+}
+
+function toDraft(name: string, design: CertificateDesign): TemplateDraft {
+  return {
+    name,
+    title: design.title,
+    body: design.body,
+    signatoryName: design.signatoryName ?? "",
+    signatoryTitle: design.signatoryTitle ?? "",
+    accentColor: design.accentColor,
+  };
+}
+
+function toDesignPayload(draft: TemplateDraft) {
+  return {
+    title: draft.title.trim(),
+    body: draft.body.trim(),
+    signatoryName: draft.signatoryName.trim() || null,
+    signatoryTitle: draft.signatoryTitle.trim() || null,
+    accentColor: draft.accentColor,
+  };
+}
+
+export default function CertificateTemplates() {
+  const [templates, setTemplates] = useState<CertificateTemplate[]>([]);
+  const [defaultDesign, setDefaultDesign] = useState<CertificateDesign | null>(null);
+  // null = creating a new template
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await apiFetch("/api/certificates/organizer/templates");
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      const data = (await res.json()) as {
+        templates?: CertificateTemplate[];
+        defaultDesign: CertificateDesign;
+      };
+      setTemplates(data.templates ?? []);
+      setDefaultDesign(data.defaultDesign);
+      setDraft((current) => current ?? toDraft("", data.defaultDesign));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load certificate templates");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadTemplates();
+  }, [loadTemplates]);
+
+  function updateDraft(changes: Partial<TemplateDraft>) {
+    setDraft((current) => (current ? { ...current, ...changes } : current));
+  }
+
+  function startNewTemplate() {
+    if (!defaultDesign) return;
+    setEditingId(null);
+    setDraft(toDraft("", defaultDesign));
+    setSuccess(null);
+  }
+
+  function editTemplate(template: CertificateTemplate) {
+    setEditingId(template.id);
+    setDraft(toDraft(template.name, template));
+    setSuccess(null);
+  }
+
+  async function saveTemplate(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!draft) return;
+
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await apiFetch(
+        editingId
+          ? `/api/certificates/organizer/templates/${editingId}`
+          : "/api/certificates/organizer/templates",
+        {
+          method: editingId ? "PUT" : "POST",
+          body: JSON.stringify({ name: draft.name.trim(), ...toDesignPayload(draft) }),
+        },
+      );
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      const data = (await res.json()) as { template: CertificateTemplate };
+      setEditingId(data.template.id);
+      setSuccess(
+        editingId
+          ? "Template saved. Certificates already issued keep their original design."
+          : "Template created. Pick it for an event from the event's Certificates tab.",
+      );
+      await loadTemplates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save template");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function previewDraft() {
+    if (!draft) return;
+
+    setPreviewing(true);
+    setError(null);
+
+    try {
+      const res = await apiFetch("/api/certificates/organizer/templates/preview", {
+        method: "POST",
+        body: JSON.stringify(toDesignPayload(draft)),
+      });
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      const url = URL.createObjectURL(await res.blob());
+      window.open(url, "_blank", "noopener");
+      window.setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to preview certificate");
+    } finally {
+      setPreviewing(false);
+    }
+  }
+
+  async function deleteTemplate(template: CertificateTemplate) {
+    if (
+      !window.confirm(
+        `Delete "${template.name}"? Events using it go back to the default design.`,
+      )
+    ) {
+      return;
+    }
+
+    setDeletingId(template.id);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await apiFetch(`/api/certificates/organizer/templates/${template.id}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      if (editingId === template.id) startNewTemplate();
+      setSuccess(`"${template.name}" deleted.`);
+      await loadTemplates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete template");
+    } finally {
+      setDeletingId(null);
+    }
+  }
+
+  return (
+    <Container className="py-4">
+      <h1 className="h3 mb-1">Certificate Templates</h1>
+      <p className="text-muted mb-4">
+        Attendees of completed events can download a PDF certificate. Events use the default
+        design unless you pick one of these templates for them.
+      </p>
+
+      {error ? <Alert variant="danger">{error}</Alert> : null}
+      {success ? <Alert variant="success">{success}</Alert> : null}
+
+      <Row className="g-3">
+        <Col lg={5}>
+          <Card className="border h-100">
+            <Card.Body>
+              <div className="d-flex justify-content-between align-items-center mb-3">
+                <h2 className="h6 mb-0">Templates</h2>
+                <Button size="sm" variant="outline-primary" onClick={startNewTemplate}>
+                  New template
+                </Button>
+              </div>
+              {loading ? (
+                <div className="d-flex align-items-center gap-2">
+                  <Spinner animation="border" size="sm" />
+                  <span>Loading templates...</span>
+                </div>
+              ) : templates.length === 0 ? (
+                <div className="text-muted small">No templates yet.</div>
+              ) : (
+                <Table responsive hover size="sm" className="align-middle mb-0">
+                  <thead>
+                    <tr>
+                      <th>Name</th>
+                      <th>Updated</th>
+                      <th className="text-end">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {templates.map((template) => (
+                      <tr
+                        key={template.id}
+                        className={template.id === editingId ? "table-active" : undefined}
+                      >
+                        <td>
+                          <span
+                            className="d-inline-block rounded-circle me-2"
+                            style={{
+                              width: 10,
+                              height: 10,
+                              backgroundColor: template.accentColor,
+                            }}
+                          />
+                          {template.name}
+                        </td>
+                        <td>{new Date(template.updatedAt).toLocaleDateString()}</td>
+                        <td className="text-end">
+                          <div className="d-inline-flex gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline-secondary"
+                              onClick={() => editTemplate(template)}
+                            >
+                              Edit
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline-danger"
+                              disabled={deletingId === template.id}
+                              onClick={() => {
+                                void deleteTemplate(template);
+                              }}
+                            >
+                              {deletingId === template.id ? "Deleting..." : "Delete"}
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </Table>
+              )}
+            </Card.Body>
+          </Card>
+        </Col>
+
+        <Col lg={7}>
+          <Card className="border h-100">
+            <Card.Body>
+              <h2 className="h6 mb-3">{editingId ? "Edit Template" : "New Template"}</h2>
+              {draft ? (
+                <Form onSubmit={saveTemplate}>
+                  <Row className="g-3">
+                    <Col md={8}>
+                      <Form.Group controlId="certificate-template-name">
+                        <Form.Label>Template name</Form.Label>
+                        <Form.Control
+                          required
+                          maxLength={80}
+                          placeholder="Hackathon 2026"
+                          value={draft.name}
+                          onChange={(e) => updateDraft({ name: e.target.value })}
+                        />
+                      </Form.Group>
+                    </Col>
+                    <Col md={4}>
+                      <Form.Group controlId="certificate-template-color">
+                        <Form.Label>Accent color</Form.Label>
+                        <Form.Control
+                          type="color"
+                          className="w-100"
+                          value={draft.accentColor}
+                          onChange={(e) => updateDraft({ accentColor: e.target.value })}
+                        />
+                      </Form.Group>
+                    </Col>
+                    <Col md={12}>
+                      <Form.Group controlId="certificate-template-title">
+                        <Form.Label>Title</Form.Label>
+                        <Form.Control
+                          required
+                          maxLength={120}
+                          value={draft.title}
+                          onChange={(e) => updateDraft({ title: e.target.value })}
+                        />
+                      </Form.Group>
+                    </Col>
+                    <Col md={12}>
+                      <Form.Group controlId="certificate-template-body">
+                        <Form.Label>Text below the participant's name</Form.Label>
+                        <Form.Control
+                          as="textarea"
+                          rows={3}
+                          required
+                          maxLength={1000}
+                          value={draft.body}
+                          onChange={(e) => updateDraft({ body: e.target.value })}
+                        />
+                        <Form.Text>Placeholders: {placeholders.join(" ")}</Form.Text>
+                      </Form.Group>
+                    </Col>
+                    <Col md={6}>
+                      <Form.Group controlId="certificate-template-signatory">
+                        <Form.Label>Signatory name (optional)</Form.Label>
+                        <Form.Control
+                          maxLength={80}
+                          value={draft.signatoryName}
+                          onChange={(e) => updateDraft({ signatoryName: e.target.value })}
+                        />
+                      </Form.Group>
+                    </Col>
+                    <Col md={6}>
+                      <Form.Group controlId="certificate-template-signatory-title">
+                        <Form.Label>Signatory title (optional)</Form.Label>
+                        <Form.Control
+                          maxLength={80}
+                          placeholder="Club coordinator"
+                          value={draft.signatoryTitle}
+                          onChange={(e) => updateDraft({ signatoryTitle: e.target.value })}
+                        />
+                      </Form.Group>
+                    </Col>
+                  </Row>
+
+                  <div className="d-flex gap-2 mt-3">
+                    <Button type="submit" disabled={saving}>
+                      {saving ? "Saving..." : editingId ? "Save template" : "Create template"}
+                    </Button>
+                    <Button
+                      variant="outline-secondary"
+                      disabled={previewing}
+                      onClick={() => {
+                        void previewDraft();
+                      }}
+                    >
+                      {previewing ? "Rendering..." : "Preview PDF"}
+                    </Button>
+                  </div>
+                </Form>
+              ) : loading ? null : (
+                <div className="text-muted small">Templates could not be loaded.</div>
+              )}
+            </Card.Body>
+          </Card>
+        </Col>
+      </Row>
+    </Container>
+  );
+}
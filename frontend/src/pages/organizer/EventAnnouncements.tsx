@@ -0,0 +1,352 @@
+import { useCallback, useEffect, useState } from "react";
+import { Alert, Badge, Button, Card, Col, Form, Row, Spinner, Table } from "react-bootstrap";
+import { apiFetch } from "../../lib/api";
+
+type AudienceStatus = "pending" | "confirmed" | "waitlisted" | "cancelled" | "rejected";
+type AudienceAttendance = "any" | "present" | "absent";
+type DeliveryStatus = "pending" | "sending" | "sent" | "failed" | "skipped";
+
+type AnnouncementRecipient = {
+  participationId: string;
+  userId: string;
+  name: string;
+  email: string;
+  deliveryStatus: DeliveryStatus;
+  deliveryError: string | null;
+  deliveredAt: string | null;
+};
+
+type Announcement = {
+  id: string;
+  title: string;
+  message: string;
+  audience: {
+    statuses: AudienceStatus[];
+    attendance: AudienceAttendance;
+  };
+  emailEnabled: boolean;
+  delivery: {
+    total: number;
+    pending: number;
+    sent: number;
+    failed: number;
+    skipped: number;
+  };
+  recipients: AnnouncementRecipient[];
+  createdAt: string;
+};
+
+type EventAnnouncementsProps = {
+  eventId: string;
+};
+
+const audienceStatuses: AudienceStatus[] = [
+  "pending",
+  "confirmed",
+  "waitlisted",
+  "cancelled",
+  "rejected",
+];
+
+async function readErrorMessage(res: Response): Promise<string> {
+  try {
+    const data = await res.json();
+    return data?.error?.message || "Request failed";
+  } catch {
+    return "Request failed";
+  }
+}
+
+function formatDate(value: string): string {
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return "-";
+  return parsed.toLocaleString();
+}
+
+function deliveryBadgeVariant(status: DeliveryStatus): string {
+  if (status === "sent") return "success";
+  if (status === "failed") return "danger";
+  if (status === "pending" || status === "sending") return "warning";
+  return "secondary";
+}
+
+export default function EventAnnouncements({ eventId }: EventAnnouncementsProps) {
+  const [loading, setLoading] = useState(true);
+  const [posting, setPosting] = useState(false);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+
+  const [title, setTitle] = useState("");
+  const [message, setMessage] = useState("");
+  const [statuses, setStatuses] = useState<AudienceStatus[]>([
+    "pending",
+    "confirmed",
+    "waitlisted",
+  ]);
+  const [attendance, setAttendance] = useState<AudienceAttendance>("any");
+  const [sendEmail, setSendEmail] = useState(true);
+
+  const loadAnnouncements = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await apiFetch(`/api/events/organizer/${eventId}/announcements`);
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      const data = (await res.json()) as { announcements?: Announcement[] };
+      setAnnouncements(data.announcements ?? []);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load announcements");
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    void loadAnnouncements();
+  }, [loadAnnouncements]);
+
+  async function postAnnouncement(formEvent: React.FormEvent<HTMLFormElement>) {
+    formEvent.preventDefault();
+    if (statuses.length === 0) {
+      setError("Select at least one participation status.");
+      return;
+    }
+
+    setPosting(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await apiFetch(`/api/events/organizer/${eventId}/announcements`, {
+        method: "POST",
+        body: JSON.stringify({
+          title,
+          message,
+          audience: { statuses, attendance },
+          sendEmail,
+        }),
+      });
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      const data = (await res.json()) as { announcement: Announcement };
+      setSuccess(`Announcement posted to ${data.announcement.delivery.total} participant(s).`);
+      setTitle("");
+      setMessage("");
+      await loadAnnouncements();
+    } catch (postError) {
+      setError(postError instanceof Error ? postError.message : "Failed to post announcement");
+    } finally {
+      setPosting(false);
+    }
+  }
+
+  async function retryFailed(announcementId: string) {
+    setRetryingId(announcementId);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await apiFetch(
+        `/api/events/organizer/${eventId}/announcements/${announcementId}/retry`,
+        { method: "POST" },
+      );
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      setSuccess("Retrying failed deliveries.");
+      await loadAnnouncements();
+    } catch (retryError) {
+      setError(retryError instanceof Error ? retryError.message : "Failed to retry delivery");
+    } finally {
+      setRetryingId(null);
+    }
+  }
+
+  function toggleStatus(status: AudienceStatus, checked: boolean) {
+    setStatuses((prev) =>
+      checked ? [...prev, status] : prev.filter((entry) => entry !== status),
+    );
+  }
+
+  return (
+    <div className="mt-3 d-grid gap-3">
+      {error ? <Alert variant="danger">{error}</Alert> : null}
+      {success ? <Alert variant="success">{success}</Alert> : null}
+
+      <Card className="border">
+        <Card.Body>
+          <Card.Title className="h6 mb-3">New Announcement</Card.Title>
+          <Form onSubmit={postAnnouncement}>
+            <Row className="g-3">
+              <Col xs={12}>
+                <Form.Group controlId="announcement-title">
+                  <Form.Label>Title</Form.Label>
+                  <Form.Control
+                    value={title}
+                    maxLength={160}
+                    onChange={(currentEvent) => setTitle(currentEvent.target.value)}
+                    required
+                  />
+                </Form.Group>
+              </Col>
+              <Col xs={12}>
+                <Form.Group controlId="announcement-message">
+                  <Form.Label>Message</Form.Label>
+                  <Form.Control
+                    as="textarea"
+                    rows={4}
+                    value={message}
+                    maxLength={5000}
+                    onChange={(currentEvent) => setMessage(currentEvent.target.value)}
+                    required
+                  />
+                </Form.Group>
+              </Col>
+              <Col md={6}>
+                <Form.Label>Participation status</Form.Label>
+                <div>
+                  {audienceStatuses.map((status) => (
+                    <Form.Check
+                      inline
+                      key={`audience-${status}`}
+                      id={`audience-${status}`}
+                      type="checkbox"
+                      label={status}
+                      checked={statuses.includes(status)}
+                      onChange={(currentEvent) => toggleStatus(status, currentEvent.target.checked)}
+                    />
+                  ))}
+                </div>
+              </Col>
+              <Col md={3}>
+                <Form.Group controlId="announcement-attendance">
+                  <Form.Label>Attendance</Form.Label>
+                  <Form.Select
+                    value={attendance}
+                    onChange={(currentEvent) =>
+                      setAttendance(currentEvent.target.value as AudienceAttendance)
+                    }
+                  >
+                    <option value="any">any</option>
+                    <option value="present">present only</option>
+                    <option value="absent">absent only</option>
+                  </Form.Select>
+                </Form.Group>
+              </Col>
+              <Col md={3} className="d-flex align-items-end">
+                <Form.Check
+                  id="announcement-send-email"
+                  type="switch"
+                  label="Send email"
+                  checked={sendEmail}
+                  onChange={(currentEvent) => setSendEmail(currentEvent.target.checked)}
+                />
+              </Col>
+            </Row>
+            <div className="mt-3">
+              <Button type="submit" disabled={posting}>
+                {posting ? "Posting..." : "Post Announcement"}
+              </Button>
+            </div>
+          </Form>
+        </Card.Body>
+      </Card>
+
+      {loading ? (
+        <div className="d-flex align-items-center gap-2">
+          <Spinner animation="border" size="sm" />
+          <span>Loading announcements...</span>
+        </div>
+      ) : announcements.length === 0 ? (
+        <Card className="border">
+          <Card.Body className="text-muted">No announcements posted yet.</Card.Body>
+        </Card>
+      ) : (
+        announcements.map((announcement) => (
+          <Card className="border" key={`announcement-${announcement.id}`}>
+            <Card.Body>
+              <div className="d-flex justify-content-between align-items-start gap-2 flex-wrap">
+                <div>
+                  <h3 className="h6 mb-1">{announcement.title}</h3>
+                  <div className="small text-muted mb-2">
+                    {formatDate(announcement.createdAt)} | to{" "}
+                    {announcement.audience.statuses.join(", ")} | attendance:{" "}
+                    {announcement.audience.attendance}
+                  </div>
+                  <div style={{ whiteSpace: "pre-wrap" }}>{announcement.message}</div>
+                </div>
+                <div className="d-flex flex-column gap-2 align-items-end">
+                  <div className="d-flex gap-1 flex-wrap justify-content-end">
+                    <Badge bg="success">sent {announcement.delivery.sent}</Badge>
+                    <Badge bg="warning">pending {announcement.delivery.pending}</Badge>
+                    <Badge bg="danger">failed {announcement.delivery.failed}</Badge>
+                    {announcement.delivery.skipped > 0 ? (
+                      <Badge bg="secondary">in-app only {announcement.delivery.skipped}</Badge>
+                    ) : null}
+                  </div>
+                  <div className="d-flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline-secondary"
+                      onClick={() =>
+                        setExpandedId((prev) => (prev === announcement.id ? null : announcement.id))
+                      }
+                    >
+                      {expandedId === announcement.id ? "Hide Recipients" : "Recipients"}
+                    </Button>
+                    {announcement.delivery.failed > 0 ? (
+                      <Button
+                        size="sm"
+                        variant="outline-danger"
+                        disabled={retryingId === announcement.id}
+                        onClick={() => {
+                          void retryFailed(announcement.id);
+                        }}
+                      >
+                        Retry Failed
+                      </Button>
+                    ) : null}
+                  </div>
+                </div>
+              </div>
+
+              {expandedId === announcement.id ? (
+                <Table responsive size="sm" className="mt-3 mb-0">
+                  <thead>
+                    <tr>
+                      <th>Name</th>
+                      <th>Email</th>
+                      <th>Delivery</th>
+                      <th>Details</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {announcement.recipients.map((recipient) => (
+                      <tr key={`${announcement.id}-${recipient.participationId}`}>
+                        <td>{recipient.name}</td>
+                        <td>{recipient.email}</td>
+                        <td>
+                          <Badge bg={deliveryBadgeVariant(recipient.deliveryStatus)}>
+                            {recipient.deliveryStatus}
+                          </Badge>
+                        </td>
+                        <td className="small text-muted">
+                          {recipient.deliveryError ??
+                            (recipient.deliveredAt ? formatDate(recipient.deliveredAt) : "-")}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </Table>
+              ) : null}
+            </Card.Body>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+import { useMemo, useState } from "react";
+import { Alert, Badge, Button, Card, Form, Table } from "react-bootstrap";
+import { apiFetch } from "../../lib/api";
+import { readApiErrorMessage } from "../../lib/errors";
+
+type ApplicationResponse = {
+  key: string;
+  label: string;
+  value?: string | number | string[];
+  file?: { originalName: string; downloadUrl: string };
+};
+
+// a pending registration on an approval event that nobody has decided on yet
+export type ApplicationEntry = {
+  id: string;
+  createdAt: string;
+  participant: {
+    name: string;
+    email: string | null;
+    participantType: string | null;
+    collegeOrOrganization: string | null;
+  };
+  normalResponses: ApplicationResponse[];
+  payment: { status: string; amount: number; proofUrl: string | null } | null;
+};
+
+type ReviewDecision = "accept" | "reject";
+
+type BulkReviewResult = {
+  decidedCount: number;
+  skippedCount: number;
+};
+
+type EventApplicationsProps = {
+  eventId: string;
+  applications: ApplicationEntry[];
+  autoDecision: { at: string; decision: ReviewDecision } | null;
+  onOpenFile: (url: string, downloadName?: string) => void;
+  onReviewed: () => Promise<void> | void;
+};
+
+async function readErrorMessage(res: Response): Promise<string> {
+  return readApiErrorMessage(res);
+}
+
+function formatAnswer(response: ApplicationResponse): string {
+  if (Array.isArray(response.value)) return response.value.join(", ");
+  if (response.value === undefined || response.value === "") return "-";
+  return String(response.value);
+}
+
+export default function EventApplications({
+  eventId,
+  applications,
+  autoDecision,
+  onOpenFile,
+  onReviewed,
+}: EventApplicationsProps) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [message, setMessage] = useState("");
+  const [busyDecision, setBusyDecision] = useState<ReviewDecision | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // selections can outlive their rows once a reload drops decided applications
+  const selected = useMemo(
+    () => applications.filter((entry) => selectedIds.has(entry.id)).map((entry) => entry.id),
+    [applications, selectedIds],
+  );
+  const allSelected = applications.length > 0 && selected.length === applications.length;
+
+  function toggleSelected(id: string, checked: boolean) {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  }
+
+  async function review(decision: ReviewDecision, participationIds: string[]) {
+    if (participationIds.length === 0) return;
+    const verb = decision === "accept" ? "Accept" : "Reject";
+    if (!window.confirm(`${verb} ${participationIds.length} application(s)?`)) return;
+
+    setBusyDecision(decision);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await apiFetch(`/api/participations/events/${eventId}/review`, {
+        method: "POST",
+        body: JSON.stringify({
+          participationIds,
+          decision,
+          ...(message.trim() ? { message: message.trim() } : {}),
+        }),
+      });
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      const result = (await res.json()) as BulkReviewResult;
+      setSuccess(
+        `${decision === "accept" ? "Accepted" : "Rejected"} ${result.decidedCount} application(s)` +
+          (result.skippedCount > 0 ? `; ${result.skippedCount} were already decided.` : "."),
+      );
+      setSelectedIds(new Set());
+      setMessage("");
+      await onReviewed();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to review applications");
+    } finally {
+      setBusyDecision(null);
+    }
+  }
+
+  return (
+    <div className="mt-3 d-grid gap-3">
+      {error ? <Alert variant="danger" className="mb-0">{error}</Alert> : null}
+      {success ? <Alert variant="success" className="mb-0">{success}</Alert> : null}
+
+      <Card className="border">
+        <Card.Body>
+          <h3 className="h6 mb-2">Review Applications</h3>
+          <p className="text-muted small mb-3">
+            Accepted participants get their ticket by email, on paid events once finance approves
+            their payment; rejected ones are notified and their seat goes to the waitlist. The
+            message is added to either email.
+            {autoDecision ? (
+              <>
+                {" "}
+                Applications still pending at {new Date(autoDecision.at).toLocaleString()} are{" "}
+                {autoDecision.decision === "accept" ? "accepted" : "rejected"} automatically.
+              </>
+            ) : null}
+          </p>
+          <Form.Group controlId="event-applications-message" className="mb-3">
+            <Form.Label>Message to participants (optional)</Form.Label>
+            <Form.Control
+              as="textarea"
+              rows={2}
+              maxLength={1000}
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+            />
+          </Form.Group>
+          <div className="d-flex gap-2 flex-wrap">
+            <Button
+              variant="success"
+              disabled={busyDecision !== null || selected.length === 0}
+              onClick={() => {
+                void review("accept", selected);
+              }}
+            >
+              {busyDecision === "accept" ? "Accepting..." : `Accept selected (${selected.length})`}
+            </Button>
+            <Button
+              variant="outline-danger"
+              disabled={busyDecision !== null || selected.length === 0}
+              onClick={() => {
+                void review("reject", selected);
+              }}
+            >
+              {busyDecision === "reject" ? "Rejecting..." : `Reject selected (${selected.length})`}
+            </Button>
+          </div>
+        </Card.Body>
+      </Card>
+
+      <Card className="border">
+        <Card.Body>
+          {applications.length === 0 ? (
+            <div className="text-muted small">No applications awaiting review.</div>
+          ) : (
+            <Table responsive hover size="sm" className="align-middle mb-0">
+              <thead>
+                <tr>
+                  <th>
+                    <Form.Check
+                      aria-label="Select all applications"
+                      checked={allSelected}
+                      onChange={(e) =>
+                        setSelectedIds(
+                          e.target.checked
+                            ? new Set(applications.map((entry) => entry.id))
+                            : new Set(),
+                        )
+                      }
+                    />
+                  </th>
+                  <th>Participant</th>
+                  <th>Applied</th>
+                  <th>Answers</th>
+                  <th>Payment</th>
+                </tr>
+              </thead>
+              <tbody>
+                {applications.map((entry) => (
+                  <tr key={entry.id}>
+                    <td>
+                      <Form.Check
+                        aria-label={`Select ${entry.participant.name}`}
+                        checked={selectedIds.has(entry.id)}
+                        onChange={(e) => toggleSelected(entry.id, e.target.checked)}
+                      />
+                    </td>
+                    <td>
+                      <div>{entry.participant.name}</div>
+                      <div className="small text-muted">
+                        {entry.participant.email ?? "email unavailable"}
+                        {entry.participant.collegeOrOrganization
+                          ? ` - ${entry.participant.collegeOrOrganization}`
+                          : ""}
+                      </div>
+                    </td>
+                    <td className="small">{new Date(entry.createdAt).toLocaleString()}</td>
+                    <td className="small">
+                      {entry.normalResponses.length === 0
+                        ? "-"
+                        : entry.normalResponses.map((response) => (
+                            <div key={`${entry.id}-${response.key}`}>
+                              <strong>{response.label}:</strong>{" "}
+                              {response.file ? (
+                                <button
+                                  type="button"
+                                  className="btn btn-link btn-sm p-0 align-baseline"
+                                  onClick={() => {
+                                    const file = response.file;
+                                    if (!file) return;
+                                    onOpenFile(file.downloadUrl, file.originalName);
+                                  }}
+                                >
+                                  {response.file.originalName}
+                                </button>
+                              ) : (
+                                formatAnswer(response)
+                              )}
+                            </div>
+                          ))}
+                    </td>
+                    <td>
+                      {entry.payment ? (
+                        <div className="d-flex flex-column align-items-start gap-1">
+                          <Badge bg="warning">{entry.payment.status}</Badge>
+                          {entry.payment.proofUrl ? (
+                            <button
+                              type="button"
+                              className="btn btn-link btn-sm p-0"
+                              onClick={() => {
+                                const proofUrl = entry.payment?.proofUrl;
+                                if (!proofUrl) return;
+                                onOpenFile(proofUrl);
+                              }}
+                            >
+                              View proof
+                            </button>
+                          ) : null}
+                        </div>
+                      ) : (
+                        <span className="small text-muted">free</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          )}
+        </Card.Body>
+      </Card>
+    </div>
+  );
+}
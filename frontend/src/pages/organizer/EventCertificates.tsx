@@ -0,0 +1,269 @@
+import { useCallback, useEffect, useState } from "react";
+import { Alert, Badge, Button, Card, Col, Form, Row, Spinner, Table } from "react-bootstrap";
+import { apiFetch } from "../../lib/api";
+import { readApiErrorMessage } from "../../lib/errors";
+
+type IssuedCertificate = {
+  id: string;
+  code: string;
+  participantName: string;
+  issuedAt: string;
+  emailedAt: string | null;
+  verifyUrl: string;
+};
+
+type EventCertificatesResponse = {
+  eventStatus: string;
+  templateId: string | null;
+  templates: { id: string; name: string }[];
+  summary: {
+    eligible: number;
+    issued: number;
+    emailed: number;
+    emailQueued: number;
+  };
+  certificates: IssuedCertificate[];
+};
+
+type EmailCertificatesResult = {
+  eligible: number;
+  issued: number;
+  queued: number;
+  skipped: number;
+};
+
+type EventCertificatesProps = {
+  eventId: string;
+};
+
+async function readErrorMessage(res: Response): Promise<string> {
+  return readApiErrorMessage(res);
+}
+
+export default function EventCertificates({ eventId }: EventCertificatesProps) {
+  const [data, setData] = useState<EventCertificatesResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [savingTemplate, setSavingTemplate] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [resend, setResend] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadCertificates = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await apiFetch(`/api/certificates/organizer/events/${eventId}`);
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+      setData((await res.json()) as EventCertificatesResponse);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load certificates");
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    void loadCertificates();
+  }, [loadCertificates]);
+
+  async function changeTemplate(templateId: string) {
+    setSavingTemplate(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await apiFetch(`/api/certificates/organizer/events/${eventId}/template`, {
+        method: "PUT",
+        body: JSON.stringify({ templateId: templateId || null }),
+      });
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      setSuccess("Template updated. Certificates issued from now on use it.");
+      await loadCertificates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update template");
+    } finally {
+      setSavingTemplate(false);
+    }
+  }
+
+  async function emailCertificates() {
+    const prompt = resend
+      ? "Email certificates to every attendee, including those who already got one?"
+      : "Email certificates to every attendee who has not received one yet?";
+    if (!window.confirm(prompt)) return;
+
+    setSending(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await apiFetch(`/api/certificates/organizer/events/${eventId}/email`, {
+        method: "POST",
+        body: JSON.stringify({ resend }),
+      });
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      const result = (await res.json()) as EmailCertificatesResult;
+      setSuccess(
+        `Queued ${result.queued} email(s); ${result.skipped} skipped, ${result.issued} certificate(s) newly issued.`,
+      );
+      setResend(false);
+      await loadCertificates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to email certificates");
+    } finally {
+      setSending(false);
+    }
+  }
+
+  if (loading && !data) {
+    return (
+      <div className="mt-3 d-flex align-items-center gap-2">
+        <Spinner animation="border" size="sm" />
+        <span>Loading certificates...</span>
+      </div>
+    );
+  }
+
+  const isCompleted = data?.eventStatus === "COMPLETED";
+
+  return (
+    <div className="mt-3 d-grid gap-3">
+      {error ? <Alert variant="danger" className="mb-0">{error}</Alert> : null}
+      {success ? <Alert variant="success" className="mb-0">{success}</Alert> : null}
+
+      {data ? (
+        <>
+          <Row className="g-3">
+            <Col md={4}>
+              <Card className="border h-100">
+                <Card.Body>
+                  <div className="text-muted small">Eligible attendees</div>
+                  <div className="h4 mb-0">{data.summary.eligible}</div>
+                </Card.Body>
+              </Card>
+            </Col>
+            <Col md={4}>
+              <Card className="border h-100">
+                <Card.Body>
+                  <div className="text-muted small">Certificates issued</div>
+                  <div className="h4 mb-0">{data.summary.issued}</div>
+                </Card.Body>
+              </Card>
+            </Col>
+            <Col md={4}>
+              <Card className="border h-100">
+                <Card.Body>
+                  <div className="text-muted small">Emailed</div>
+                  <div className="h4 mb-0">{data.summary.emailed}</div>
+                  {data.summary.emailQueued > 0 ? (
+                    <div className="small text-muted">{data.summary.emailQueued} in the outbox</div>
+                  ) : null}
+                </Card.Body>
+              </Card>
+            </Col>
+          </Row>
+
+          <Card className="border">
+            <Card.Body>
+              <h3 className="h6 mb-2">Design and Delivery</h3>
+              <p className="text-muted small mb-3">
+                Confirmed participants with an attendance record get a certificate once the event
+                is completed. Manage templates from the Certificates page in the menu.
+              </p>
+              <Row className="g-2 align-items-end">
+                <Col md={6}>
+                  <Form.Group controlId="event-certificate-template">
+                    <Form.Label>Template</Form.Label>
+                    <Form.Select
+                      value={data.templateId ?? ""}
+                      disabled={savingTemplate}
+                      onChange={(e) => {
+                        void changeTemplate(e.target.value);
+                      }}
+                    >
+                      <option value="">Default design</option>
+                      {data.templates.map((template) => (
+                        <option key={template.id} value={template.id}>
+                          {template.name}
+                        </option>
+                      ))}
+                    </Form.Select>
+                  </Form.Group>
+                </Col>
+                <Col md={6}>
+                  <Form.Check
+                    id="event-certificate-resend"
+                    className="mb-2"
+                    label="Also resend to attendees already emailed"
+                    checked={resend}
+                    onChange={(e) => setResend(e.target.checked)}
+                  />
+                  <Button
+                    className="w-100"
+                    disabled={!isCompleted || sending || data.summary.eligible === 0}
+                    onClick={() => {
+                      void emailCertificates();
+                    }}
+                  >
+                    {sending ? "Queueing..." : "Email certificates to all attendees"}
+                  </Button>
+                </Col>
+              </Row>
+              {!isCompleted ? (
+                <div className="small text-muted mt-2">
+                  Certificates can be sent once the event is completed.
+                </div>
+              ) : null}
+            </Card.Body>
+          </Card>
+
+          <Card className="border">
+            <Card.Body>
+              <h3 className="h6 mb-3">Issued Certificates</h3>
+              {data.certificates.length === 0 ? (
+                <div className="text-muted small">No certificates issued yet.</div>
+              ) : (
+                <Table responsive hover size="sm" className="align-middle mb-0">
+                  <thead>
+                    <tr>
+                      <th>Participant</th>
+                      <th>Code</th>
+                      <th>Issued</th>
+                      <th>Email</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.certificates.map((certificate) => (
+                      <tr key={certificate.id}>
+                        <td>{certificate.participantName}</td>
+                        <td>
+                          <a href={certificate.verifyUrl} target="_blank" rel="noreferrer">
+                            <code>{certificate.code}</code>
+                          </a>
+                        </td>
+                        <td>{new Date(certificate.issuedAt).toLocaleString()}</td>
+                        <td>
+                          {certificate.emailedAt ? (
+                            <Badge bg="success">
+                              Sent {new Date(certificate.emailedAt).toLocaleDateString()}
+                            </Badge>
+                          ) : (
+                            <Badge bg="secondary">Not sent</Badge>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </Table>
+              )}
+            </Card.Body>
+          </Card>
+        </>
+      ) : null}
+    </div>
+  );
+}
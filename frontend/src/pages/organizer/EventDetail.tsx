@@ -10,15 +10,35 @@ import {
   Row,
   Spinner,
   Tab,
+  Table,
   Tabs,
 } from "react-bootstrap";
 import { Link, useParams } from "react-router-dom";
 import jsQR from "jsqr";
+import EventDiscussion from "../../components/EventDiscussion";
 import { apiFetch, resolveApiUrl } from "../../lib/api";
+import {
+  checkOfflineScan,
+  downloadOfflineManifest,
+  loadOfflineManifest,
+  loadOfflineQueue,
+  type OfflineSyncResult,
+  type QueuedScan,
+  saveOfflineQueue,
+  type StoredManifest,
+  syncOfflineQueue,
+} from "../../lib/offlineScanning";
+import AttendanceAuditLog, { type AttendanceAuditEntry } from "./AttendanceAuditLog";
+import AttendanceCheckpoints, { type AttendanceCheckpoint } from "./AttendanceCheckpoints";
+import EventAnnouncements from "./EventAnnouncements";
+import EventApplications from "./EventApplications";
+import EventCertificates from "./EventCertificates";
+import EventFeedback from "./EventFeedback";
+import ScannerDevices from "./ScannerDevices";
 
 type EventType = "NORMAL" | "MERCH";
 type EventStatus = "DRAFT" | "PUBLISHED" | "CLOSED" | "COMPLETED" | "ONGOING";
-type ParticipationStatus = "pending" | "confirmed" | "cancelled" | "rejected";
+type ParticipationStatus = "pending" | "confirmed" | "waitlisted" | "cancelled" | "rejected";
 type FieldType = "text" | "textarea" | "number" | "select" | "checkbox" | "file";
 
 type OrganizerEvent = {
@@ -35,6 +55,16 @@ type OrganizerEvent = {
   endDate: string;
   status: EventStatus;
   displayStatus?: EventStatus;
+  attendanceCheckpoints: AttendanceCheckpoint[];
+  teamConfig: { minSize: number; maxSize: number } | null;
+  requiresApproval: boolean;
+  approvalAutoDecision: { at: string; decision: "accept" | "reject" } | null;
+};
+
+type CheckpointAnalytics = AttendanceCheckpoint & {
+  attendedCount: number;
+  totalScans: number;
+  attendanceRate: number;
 };
 
 type EventAnalytics = {
@@ -42,14 +72,18 @@ type EventAnalytics = {
   activeParticipations: number;
   confirmedCount: number;
   pendingCount: number;
+  waitlistedCount: number;
   cancelledCount: number;
   rejectedCount: number;
   normalCount: number;
   merchCount: number;
   registrations24h: number;
   estimatedRevenue: number;
+  refundedAmount: number;
+  netRevenue: number;
   attendanceMarked: number;
   attendanceRate: number;
+  checkpoints: CheckpointAnalytics[];
 };
 
 type ParticipantFieldResponse = {
@@ -84,16 +118,57 @@ type EventParticipant = {
   };
   normalResponses: ParticipantFieldResponse[];
   teamName: string | null;
+  team: {
+    id: string;
+    name: string;
+    status: EventTeam["status"];
+    role: "leader" | "member";
+  } | null;
+  // approval events: pending and not yet accepted or rejected
+  awaitingReview: boolean;
+  review: {
+    decision: "accepted" | "rejected";
+    message: string | null;
+    reviewedAt: string;
+    // null when the event's auto-decision settled it
+    reviewedBy: string | null;
+  } | null;
   payment: {
-    status: "pending" | "approved" | "rejected";
+    status: "pending" | "approved" | "rejected" | "refunded" | "partially_refunded";
     amount: number;
     method: string;
     proofUrl: string | null;
     createdAt: string;
+    refundedAmount: number | null;
+    // latest online checkout of a payment made through the payment provider
+    checkout: {
+      status: "open" | "paid" | "failed" | "superseded";
+      paidAt: string | null;
+      settlementError: string | null;
+    } | null;
+  } | null;
+  // opened when a paid participation was cancelled within the event's refund policy
+  refund: {
+    percent: number;
+    amount: number;
+    status: "pending" | "processed";
+    requestedAt: string;
+    processedAt: string | null;
+    reference: string | null;
   } | null;
+  // paid registrations: set while the seat is held for payment review
+  paymentHoldExpiresAt: string | null;
   attendance: {
+    // present at any checkpoint; markedAt is the earliest scan
     isPresent: boolean;
     markedAt: string | null;
+    checkpoints: Array<
+      AttendanceCheckpoint & {
+        scanCount: number;
+        markedAt: string | null;
+        lastScannedAt: string | null;
+      }
+    >;
   };
   merchPurchase: {
     sku: string;
@@ -104,22 +179,44 @@ type EventParticipant = {
   } | null;
 };
 
+// a registration team on a team event, not the club's organizer team
+type EventTeam = {
+  id: string;
+  name: string;
+  status: "forming" | "confirmed";
+  inviteCode: string;
+  leaderId: string;
+  confirmedAt: string | null;
+  activeMembers: number;
+  participationIds: string[];
+};
+
+type TeamRole = "scanner" | "finance" | "editor";
+
 type EventDetailResponse = {
   event?: OrganizerEvent;
+  teamRole?: TeamRole | null;
   analytics?: EventAnalytics;
   participants?: EventParticipant[];
+  teams?: EventTeam[];
   attendanceAuditTrail?: AttendanceAuditEntry[];
 };
 
+type AttendanceRecord = {
+  id: string;
+  eventId: string;
+  participationId: string;
+  userId: string;
+  checkpointKey: string;
+  scanCount: number;
+  markedAt: string;
+  lastScannedAt: string;
+};
+
 type AttendanceScanResponse = {
   alreadyMarked: boolean;
-  attendance: {
-    id: string;
-    eventId: string;
-    participationId: string;
-    userId: string;
-    markedAt: string;
-  };
+  checkpoint: AttendanceCheckpoint & { scansRemaining: number };
+  attendance: AttendanceRecord;
   ticket: {
     id: string;
     eventId: string;
@@ -132,37 +229,10 @@ type AttendanceScanResponse = {
   };
 };
 
-type AttendanceAuditAction =
-  | "scan_mark_present"
-  | "manual_mark_present"
-  | "manual_mark_absent";
-
-type AttendanceAuditEntry = {
-  id: string;
-  eventId: string;
-  participationId: string;
-  userId: string;
-  participantName: string;
-  actorOrganizerId: string;
-  actorOrganizerName: string | null;
-  action: AttendanceAuditAction;
-  reason: string | null;
-  previousIsPresent: boolean;
-  previousMarkedAt: string | null;
-  nextIsPresent: boolean;
-  nextMarkedAt: string | null;
-  createdAt: string;
-};
-
 type AttendanceOverrideResponse = {
   alreadyInState: boolean;
-  attendance: {
-    id: string;
-    eventId: string;
-    participationId: string;
-    userId: string;
-    markedAt: string;
-  } | null;
+  checkpoint: AttendanceCheckpoint;
+  attendance: AttendanceRecord | null;
   participant: {
     id: string;
     name: string;
@@ -207,12 +277,15 @@ function statusBadgeVariant(status: string):
   | "warning"
   | "danger"
   | "dark"
+  | "info"
   | "primary" {
   if (status === "approved") return "success";
   if (status === "confirmed") return "success";
   if (status === "pending") return "warning";
+  if (status === "waitlisted") return "info";
   if (status === "cancelled") return "secondary";
   if (status === "rejected") return "danger";
+  if (status === "refunded" || status === "partially_refunded") return "info";
   if (status === "PUBLISHED") return "primary";
   if (status === "ONGOING") return "success";
   if (status === "CLOSED") return "warning";
@@ -227,10 +300,17 @@ function formatFieldValue(field: ParticipantFieldResponse): string {
   return String(field.value);
 }
 
-function formatAttendanceAuditAction(action: AttendanceAuditAction): string {
-  if (action === "scan_mark_present") return "scan marked present";
-  if (action === "manual_mark_present") return "manual override: present";
-  return "manual override: absent";
+function describeAttendanceScan(data: AttendanceScanResponse): string {
+  const { checkpoint } = data;
+  const subject = `${data.participant.name} (${data.ticket.id})`;
+  if (data.alreadyMarked) {
+    return checkpoint.scanLimit === 1
+      ? `${subject} was already scanned at ${checkpoint.name}.`
+      : `${subject} has used all ${checkpoint.scanLimit} ${checkpoint.name} scans.`;
+  }
+  return checkpoint.scanLimit === 1
+    ? `${checkpoint.name}: attendance marked for ${subject}.`
+    : `${checkpoint.name}: scan ${data.attendance.scanCount} of ${checkpoint.scanLimit} for ${subject}.`;
 }
 
 async function decodeQrPayloadFromImage(file: File): Promise<string> {
@@ -300,21 +380,47 @@ export default function OrganizerEventDetail() {
   const scannerStreamRef = useRef<MediaStream | null>(null);
   const scannerLoopRef = useRef<number | null>(null);
   const barcodeDetectorRef = useRef<InstanceType<BarcodeDetectorCtor> | null>(null);
+  const [offlineMode, setOfflineMode] = useState(false);
+  const [offlineManifest, setOfflineManifest] = useState<StoredManifest | null>(null);
+  const [offlineQueue, setOfflineQueue] = useState<QueuedScan[]>([]);
+  const [downloadingManifest, setDownloadingManifest] = useState(false);
+  const [syncingOfflineQueue, setSyncingOfflineQueue] = useState(false);
+  const [offlineSyncIssues, setOfflineSyncIssues] = useState<OfflineSyncResult[]>([]);
+  const [scanCheckpointKey, setScanCheckpointKey] = useState("");
 
   const event = detail?.event ?? null;
+  const checkpoints = useMemo(
+    () => event?.attendanceCheckpoints ?? [],
+    [event?.attendanceCheckpoints],
+  );
+  // falls back to the first checkpoint, e.g. after the selected one was removed
+  const scanCheckpoint =
+    checkpoints.find((checkpoint) => checkpoint.key === scanCheckpointKey) ?? checkpoints[0];
+  const checkpointNameByKey = useMemo(
+    () => new Map(checkpoints.map((checkpoint) => [checkpoint.key, checkpoint.name])),
+    [checkpoints],
+  );
   const analytics = detail?.analytics ?? null;
+  // team members only see the parts of the page their role covers; the organizer sees everything
+  const teamRole = detail?.teamRole ?? null;
+  const canUse = (...roles: TeamRole[]) => teamRole === null || roles.includes(teamRole);
   const participants = useMemo(() => detail?.participants ?? [], [detail?.participants]);
-  const attendanceAuditTrail = useMemo(
-    () => detail?.attendanceAuditTrail ?? [],
-    [detail?.attendanceAuditTrail],
+  const teams = useMemo(() => detail?.teams ?? [], [detail?.teams]);
+  const applications = useMemo(
+    () => participants.filter((entry) => entry.awaitingReview),
+    [participants],
+  );
+  const participantsById = useMemo(
+    () => new Map(participants.map((entry) => [entry.id, entry])),
+    [participants],
   );
-  const merchOrders = useMemo(
+  // merch orders, or paid registrations on a NORMAL event
+  const paymentOrders = useMemo(
     () =>
       participants.filter(
         (entry) =>
-          entry.eventType === "MERCH" &&
-          entry.merchPurchase !== null &&
-          entry.payment !== null,
+          entry.payment !== null &&
+          (entry.eventType === "NORMAL" || entry.merchPurchase !== null),
       ),
     [participants],
   );
@@ -355,11 +461,13 @@ export default function OrganizerEventDetail() {
       const participantName = entry.participant.name.toLowerCase();
       const participantEmail = (entry.participant.email ?? "").toLowerCase();
       const ticketId = (entry.ticketId ?? "").toLowerCase();
+      const teamName = (entry.teamName ?? "").toLowerCase();
 
       return (
         participantName.includes(query) ||
         participantEmail.includes(query) ||
-        ticketId.includes(query)
+        ticketId.includes(query) ||
+        teamName.includes(query)
       );
     });
   }, [
@@ -432,6 +540,57 @@ export default function OrganizerEventDetail() {
     void loadDetail();
   }, [loadDetail]);
 
+  useEffect(() => {
+    if (!eventId) return;
+    setOfflineManifest(loadOfflineManifest(eventId));
+    setOfflineQueue(loadOfflineQueue(eventId));
+  }, [eventId]);
+
+  const syncOfflineScans = useCallback(async () => {
+    if (!eventId) return;
+    const queue = loadOfflineQueue(eventId);
+    if (queue.length === 0) return;
+
+    setSyncingOfflineQueue(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const { results, remaining } = await syncOfflineQueue(eventId, queue);
+      setOfflineQueue(remaining);
+
+      const issues = results.filter(
+        (result) => result.status === "rejected" || result.status === "superseded",
+      );
+      const applied = results.filter(
+        (result) => result.status === "marked" || result.status === "moved_earlier",
+      ).length;
+      setOfflineSyncIssues(issues);
+      setSuccess(
+        `Synced ${results.length} offline scans: ${applied} checked in, ${
+          results.length - applied - issues.length
+        } already present, ${issues.length} not applied.`,
+      );
+      await loadDetail();
+    } catch (syncError) {
+      setError(
+        syncError instanceof Error ? syncError.message : "Failed to sync offline scans",
+      );
+    } finally {
+      setSyncingOfflineQueue(false);
+    }
+  }, [eventId, loadDetail]);
+
+  // the venue network is back: push queued scans without waiting for a click
+  useEffect(() => {
+    function onOnline() {
+      void syncOfflineScans();
+    }
+
+    window.addEventListener("online", onOnline);
+    return () => window.removeEventListener("online", onOnline);
+  }, [syncOfflineScans]);
+
   const openProtectedFile = useCallback(
     async (pathOrUrl: string, downloadName?: string) => {
       const resolvedUrl = resolveApiUrl(pathOrUrl);
@@ -540,6 +699,92 @@ export default function OrganizerEventDetail() {
     }
   }
 
+  async function processRefund(participationId: string, participantName: string) {
+    const referenceInput = window.prompt(
+      `Payout reference for the refund to ${participantName} (bank or UPI transaction id):`,
+      "",
+    );
+    if (referenceInput === null) return;
+
+    const reference = referenceInput.trim();
+    if (!reference) {
+      setError("A payout reference is required to mark a refund as processed.");
+      return;
+    }
+
+    setResolvingPaymentId(participationId);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await apiFetch(`/api/participations/${participationId}/refund`, {
+        method: "PATCH",
+        body: JSON.stringify({ reference }),
+      });
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      setSuccess(`Refund for ${participantName} marked as processed.`);
+      await loadDetail();
+    } catch (refundError) {
+      setError(
+        refundError instanceof Error ? refundError.message : "Failed to process refund",
+      );
+    } finally {
+      setResolvingPaymentId(null);
+    }
+  }
+
+  async function downloadManifest() {
+    if (!eventId) return;
+
+    setDownloadingManifest(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const stored = await downloadOfflineManifest(eventId);
+      setOfflineManifest(stored);
+      setSuccess(`Offline manifest saved with ${stored.manifest.tickets.length} tickets.`);
+    } catch (manifestError) {
+      setError(
+        manifestError instanceof Error
+          ? manifestError.message
+          : "Failed to download offline manifest",
+      );
+    } finally {
+      setDownloadingManifest(false);
+    }
+  }
+
+  // checks the scan against the stored manifest and queues it on this device; true when handled
+  async function queueOfflineScan(input: { ticketId?: string; qrPayload?: string }) {
+    if (!eventId) return false;
+    if (!offlineManifest) {
+      setError("Download the offline manifest before scanning offline.");
+      return false;
+    }
+
+    const queue = loadOfflineQueue(eventId);
+    const check = await checkOfflineScan(offlineManifest, queue, {
+      ...input,
+      ...(scanCheckpoint ? { checkpointKey: scanCheckpoint.key } : {}),
+    });
+    if (check.status === "invalid") {
+      setError(check.message);
+      return false;
+    }
+    if (check.status === "duplicate") {
+      setSuccess(check.message);
+      return true;
+    }
+
+    const nextQueue = [...queue, check.scan];
+    saveOfflineQueue(eventId, nextQueue);
+    setOfflineQueue(nextQueue);
+    setSuccess(`Queued offline: ${check.scan.participantName} (${check.scan.ticketId}).`);
+    return true;
+  }
+
   async function markAttendanceByTicketId() {
     if (!eventId) return;
     const ticketId = attendanceTicketIdInput.trim();
@@ -552,22 +797,29 @@ export default function OrganizerEventDetail() {
     setError(null);
     setSuccess(null);
 
+    if (offlineMode) {
+      if (await queueOfflineScan({ ticketId })) setAttendanceTicketIdInput("");
+      setMarkingAttendance(false);
+      return;
+    }
+
     try {
       const res = await apiFetch(`/api/events/organizer/${eventId}/attendance/scan`, {
         method: "POST",
-        body: JSON.stringify({ ticketId }),
+        body: JSON.stringify({ ticketId, checkpointKey: scanCheckpoint?.key }),
       });
       if (!res.ok) throw new Error(await readErrorMessage(res));
 
       const data = (await res.json()) as AttendanceScanResponse;
-      setSuccess(
-        data.alreadyMarked
-          ? `Attendance already marked for ${data.participant.name} (${data.ticket.id}).`
-          : `Attendance marked for ${data.participant.name} (${data.ticket.id}).`,
-      );
+      setSuccess(describeAttendanceScan(data));
       setAttendanceTicketIdInput("");
       await loadDetail();
     } catch (scanError) {
+      // fetch rejects only when the network is unreachable; fall back to the offline queue
+      if (scanError instanceof TypeError && offlineManifest) {
+        if (await queueOfflineScan({ ticketId })) setAttendanceTicketIdInput("");
+        return;
+      }
       setError(scanError instanceof Error ? scanError.message : "Failed to mark attendance");
     } finally {
       setMarkingAttendance(false);
@@ -586,21 +838,27 @@ export default function OrganizerEventDetail() {
     setError(null);
     setSuccess(null);
 
+    if (offlineMode) {
+      if (await queueOfflineScan({ qrPayload })) setAttendanceQrPayloadInput("");
+      setMarkingAttendance(false);
+      return;
+    }
+
     try {
       const res = await apiFetch(`/api/events/organizer/${eventId}/attendance/scan`, {
         method: "POST",
-        body: JSON.stringify({ qrPayload }),
+        body: JSON.stringify({ qrPayload, checkpointKey: scanCheckpoint?.key }),
       });
       if (!res.ok) throw new Error(await readErrorMessage(res));
 
       const data = (await res.json()) as AttendanceScanResponse;
-      setSuccess(
-        data.alreadyMarked
-          ? `Attendance already marked for ${data.participant.name} (${data.ticket.id}).`
-          : `Attendance marked for ${data.participant.name} (${data.ticket.id}).`,
-      );
+      setSuccess(describeAttendanceScan(data));
       await loadDetail();
     } catch (scanError) {
+      if (scanError instanceof TypeError && offlineManifest) {
+        if (await queueOfflineScan({ qrPayload })) setAttendanceQrPayloadInput("");
+        return;
+      }
       setError(scanError instanceof Error ? scanError.message : "Failed to mark attendance");
     } finally {
       setMarkingAttendance(false);
@@ -611,11 +869,12 @@ export default function OrganizerEventDetail() {
     participationId: string,
     present: boolean,
     participantName: string,
+    checkpoint: AttendanceCheckpoint,
   ) {
     if (!eventId) return;
 
     const reasonInput = window.prompt(
-      `Reason for marking ${participantName} as ${present ? "present" : "absent"}:`,
+      `Reason for marking ${participantName} as ${present ? "present" : "absent"} at ${checkpoint.name}:`,
       "",
     );
     if (reasonInput === null) return;
@@ -633,18 +892,18 @@ export default function OrganizerEventDetail() {
     try {
       const res = await apiFetch(`/api/events/organizer/${eventId}/attendance/override`, {
         method: "PATCH",
-        body: JSON.stringify({ participationId, present, reason }),
+        body: JSON.stringify({ participationId, present, reason, checkpointKey: checkpoint.key }),
       });
       if (!res.ok) throw new Error(await readErrorMessage(res));
 
       const data = (await res.json()) as AttendanceOverrideResponse;
       if (data.alreadyInState) {
         setSuccess(
-          `${data.participant.name} is already marked as ${present ? "present" : "absent"}.`,
+          `${data.participant.name} is already marked as ${present ? "present" : "absent"} at ${data.checkpoint.name}.`,
         );
       } else {
         setSuccess(
-          `Manual attendance override saved for ${data.participant.name} (${present ? "present" : "absent"}).`,
+          `Manual attendance override saved for ${data.participant.name} (${present ? "present" : "absent"} at ${data.checkpoint.name}).`,
         );
       }
       await loadDetail();
@@ -771,18 +1030,23 @@ export default function OrganizerEventDetail() {
           <p className="text-muted mb-0">Track participants, export csv, and view event analytics.</p>
         </div>
         <div className="d-flex gap-2 flex-wrap">
-          <Link className="btn btn-outline-secondary" to="/organizer">
-            Back to Dashboard
-          </Link>
-          <Button
-            variant="outline-primary"
-            onClick={() => {
-              void downloadParticipantsCsv();
-            }}
-            disabled={downloadingCsv || loading || !event}
+          <Link
+            className="btn btn-outline-secondary"
+            to={teamRole ? "/participant/teams" : "/organizer"}
           >
-            {downloadingCsv ? "Exporting..." : "Export Participants CSV"}
-          </Button>
+            {teamRole ? "Back to Teams" : "Back to Dashboard"}
+          </Link>
+          {canUse("finance", "editor") ? (
+            <Button
+              variant="outline-primary"
+              onClick={() => {
+                void downloadParticipantsCsv();
+              }}
+              disabled={downloadingCsv || loading || !event}
+            >
+              {downloadingCsv ? "Exporting..." : "Export Participants CSV"}
+            </Button>
+          ) : null}
         </div>
       </div>
 
@@ -867,7 +1131,7 @@ export default function OrganizerEventDetail() {
                           onChange={(currentEvent) =>
                             setParticipantQuery(currentEvent.target.value)
                           }
-                          placeholder="name, email, ticket id"
+                          placeholder="name, email, ticket id, team"
                         />
                       </Form.Group>
                     </Col>
@@ -887,6 +1151,7 @@ export default function OrganizerEventDetail() {
                           <option value="all">all</option>
                           <option value="pending">pending</option>
                           <option value="confirmed">confirmed</option>
+                          <option value="waitlisted">waitlisted</option>
                           <option value="cancelled">cancelled</option>
                           <option value="rejected">rejected</option>
                         </Form.Select>
@@ -953,6 +1218,63 @@ export default function OrganizerEventDetail() {
                 </Card.Body>
               </Card>
 
+              {teams.length > 0 ? (
+                <Card className="border">
+                  <Card.Body>
+                    <h3 className="h6 mb-3">
+                      Teams ({teams.length})
+                      {event?.teamConfig ? (
+                        <span className="text-muted small fw-normal">
+                          {" "}
+                          - {event.teamConfig.minSize} to {event.teamConfig.maxSize} members
+                        </span>
+                      ) : null}
+                    </h3>
+                    <Table responsive size="sm" className="align-middle mb-0">
+                      <thead>
+                        <tr>
+                          <th>Team</th>
+                          <th>Status</th>
+                          <th>Invite Code</th>
+                          <th>Members</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {teams.map((team) => (
+                          <tr key={team.id}>
+                            <td className="fw-semibold">{team.name}</td>
+                            <td>
+                              <Badge bg={team.status === "confirmed" ? "success" : "warning"}>
+                                {team.status}
+                              </Badge>
+                            </td>
+                            <td>
+                              <code>{team.inviteCode}</code>
+                            </td>
+                            <td className="small">
+                              <div className="text-muted">{team.activeMembers} active</div>
+                              {team.participationIds.map((participationId) => {
+                                const member = participantsById.get(participationId);
+                                if (!member) return null;
+                                return (
+                                  <div key={participationId}>
+                                    {member.participant.name}
+                                    {member.team?.role === "leader" ? " (leader)" : ""}
+                                    {member.status !== "pending" && member.status !== "confirmed"
+                                      ? ` - ${member.status}`
+                                      : ""}
+                                  </div>
+                                );
+                              })}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </Table>
+                  </Card.Body>
+                </Card>
+              ) : null}
+
               {filteredParticipants.length === 0 ? (
                 <Card className="border">
                   <Card.Body className="text-muted">
@@ -974,6 +1296,13 @@ export default function OrganizerEventDetail() {
                         </div>
                         <div className="d-flex gap-2">
                           <Badge bg={statusBadgeVariant(entry.status)}>{entry.status}</Badge>
+                          {entry.awaitingReview ? <Badge bg="warning">awaiting review</Badge> : null}
+                          {entry.review ? (
+                            <Badge bg={entry.review.decision === "accepted" ? "success" : "danger"}>
+                              {entry.review.decision}
+                              {entry.review.reviewedBy ? "" : " (auto)"}
+                            </Badge>
+                          ) : null}
                           <Badge bg="info">{entry.eventType}</Badge>
                         </div>
                       </div>
@@ -1011,6 +1340,7 @@ export default function OrganizerEventDetail() {
                         <Card.Body className="py-2 small">
                           <div>
                             <strong>Team:</strong> {entry.teamName ?? "-"}
+                            {entry.team?.role === "leader" ? " (leader)" : ""}
                           </div>
                           <div>
                             <strong>Payment:</strong>{" "}
@@ -1043,38 +1373,67 @@ export default function OrganizerEventDetail() {
                               ? `present (${entry.attendance.markedAt ? formatDate(entry.attendance.markedAt) : "-"})`
                               : "absent"}
                           </div>
-                          {entry.status === "confirmed" ? (
-                            <div className="mt-2 d-flex gap-2 flex-wrap">
-                              <Button
-                                size="sm"
-                                variant="outline-success"
-                                disabled={overridingAttendanceId === entry.id}
-                                onClick={() => {
-                                  void overrideAttendance(
-                                    entry.id,
-                                    true,
-                                    entry.participant.name,
-                                  );
-                                }}
-                              >
-                                Mark Present
-                              </Button>
-                              <Button
-                                size="sm"
-                                variant="outline-secondary"
-                                disabled={overridingAttendanceId === entry.id}
-                                onClick={() => {
-                                  void overrideAttendance(
-                                    entry.id,
-                                    false,
-                                    entry.participant.name,
-                                  );
-                                }}
+                          <div className="mt-1 d-grid gap-1">
+                            {entry.attendance.checkpoints.map((checkpoint) => (
+                              <div
+                                key={`${entry.id}-${checkpoint.key}`}
+                                className="d-flex align-items-center gap-2 flex-wrap"
                               >
-                                Mark Absent
-                              </Button>
-                            </div>
-                          ) : null}
+                                <span>
+                                  {checkpoint.name}:{" "}
+                                  {checkpoint.scanCount > 0
+                                    ? `${
+                                        checkpoint.scanLimit > 1
+                                          ? `${checkpoint.scanCount}/${checkpoint.scanLimit} scans, `
+                                          : ""
+                                      }first ${checkpoint.markedAt ? formatDate(checkpoint.markedAt) : "-"}`
+                                    : "not scanned"}
+                                </span>
+                                {entry.status === "confirmed" && canUse("scanner") ? (
+                                  <>
+                                    <Button
+                                      size="sm"
+                                      variant="outline-success"
+                                      className="py-0"
+                                      disabled={
+                                        overridingAttendanceId === entry.id ||
+                                        checkpoint.scanCount > 0
+                                      }
+                                      onClick={() => {
+                                        void overrideAttendance(
+                                          entry.id,
+                                          true,
+                                          entry.participant.name,
+                                          checkpoint,
+                                        );
+                                      }}
+                                    >
+                                      Mark Present
+                                    </Button>
+                                    <Button
+                                      size="sm"
+                                      variant="outline-secondary"
+                                      className="py-0"
+                                      disabled={
+                                        overridingAttendanceId === entry.id ||
+                                        checkpoint.scanCount === 0
+                                      }
+                                      onClick={() => {
+                                        void overrideAttendance(
+                                          entry.id,
+                                          false,
+                                          entry.participant.name,
+                                          checkpoint,
+                                        );
+                                      }}
+                                    >
+                                      Mark Absent
+                                    </Button>
+                                  </>
+                                ) : null}
+                              </div>
+                            ))}
+                          </div>
                         </Card.Body>
                       </Card>
 
@@ -1121,361 +1480,591 @@ export default function OrganizerEventDetail() {
             </div>
           </Tab>
 
-          <Tab eventKey="attendance" title="Attendance Scanner">
-            <div className="mt-3 d-grid gap-3">
-              <Card className="border">
-                <Card.Body>
-                  <h3 className="h6 mb-3">Mark Attendance</h3>
-                  <p className="text-muted small mb-3">
-                    Scan ticket QR payload, upload QR image, or enter ticket id. Duplicate scans are handled safely.
-                  </p>
+          {event.requiresApproval && canUse("finance", "editor") ? (
+            <Tab eventKey="applications" title={`Applications (${applications.length})`}>
+              <EventApplications
+                eventId={eventId}
+                applications={applications}
+                autoDecision={event.approvalAutoDecision}
+                onOpenFile={(url, downloadName) => {
+                  void openProtectedFile(url, downloadName);
+                }}
+                onReviewed={loadDetail}
+              />
+            </Tab>
+          ) : null}
+
+          {canUse("scanner") ? (
+            <Tab eventKey="attendance" title="Attendance Scanner">
+              <div className="mt-3 d-grid gap-3">
+                {canUse("editor") ? (
+                  <AttendanceCheckpoints
+                    eventId={eventId}
+                    checkpoints={checkpoints}
+                    onSaved={loadDetail}
+                  />
+                ) : null}
 
-                  <Row className="g-2 align-items-end">
-                    <Col lg={8}>
-                      <Form.Group controlId="attendance-ticket-id-input">
-                        <Form.Label>Ticket ID</Form.Label>
-                        <Form.Control
-                          placeholder="TKT-..."
-                          value={attendanceTicketIdInput}
-                          onChange={(currentEvent) =>
-                            setAttendanceTicketIdInput(currentEvent.target.value)
-                          }
-                        />
-                      </Form.Group>
-                    </Col>
-                    <Col lg={4}>
-                      <Button
-                        className="w-100"
-                        variant="outline-primary"
-                        disabled={markingAttendance}
-                        onClick={() => {
-                          void markAttendanceByTicketId();
-                        }}
-                      >
-                        Mark by Ticket ID
-                      </Button>
-                    </Col>
-                  </Row>
+                <Card className="border">
+                  <Card.Body>
+                    <div className="d-flex justify-content-between align-items-start flex-wrap gap-2 mb-2">
+                      <div>
+                        <h3 className="h6 mb-1">Offline Scanning</h3>
+                        <p className="text-muted small mb-0">
+                          Download the ticket manifest while online. In offline mode, scans are checked against it and queued on this device until they are synced.
+                        </p>
+                      </div>
+                      <Form.Check
+                        type="switch"
+                        id="attendance-offline-mode"
+                        label="Offline mode"
+                        checked={offlineMode}
+                        disabled={!offlineManifest}
+                        onChange={(currentEvent) => setOfflineMode(currentEvent.target.checked)}
+                      />
+                    </div>
 
-                  <hr />
+                    <div className="small mb-2">
+                      {offlineManifest
+                        ? `Manifest: ${offlineManifest.manifest.tickets.length} tickets, generated ${formatDate(
+                            offlineManifest.manifest.generatedAt,
+                          )}${offlineManifest.verified ? "" : " (this browser cannot check its signature)"}`
+                        : "No manifest on this device yet."}
+                    </div>
 
-                  <Row className="g-2">
-                    <Col lg={8}>
-                      <Form.Group controlId="attendance-qr-payload-input">
-                        <Form.Label>QR Payload</Form.Label>
-                        <Form.Control
-                          as="textarea"
-                          rows={4}
-                          placeholder='{"ticketId":"TKT-...","eventId":"...","userId":"...","participationId":"..."}'
-                          value={attendanceQrPayloadInput}
-                          onChange={(currentEvent) =>
-                            setAttendanceQrPayloadInput(currentEvent.target.value)
-                          }
-                        />
-                      </Form.Group>
-                      <Form.Group controlId="attendance-qr-image-input" className="mt-2">
-                        <Form.Label>QR Image Upload</Form.Label>
-                        <Form.Control
-                          type="file"
-                          accept="image/*"
-                          onChange={(currentEvent) => {
-                            const fileInput = currentEvent.target as HTMLInputElement;
-                            const file = fileInput.files?.[0] ?? null;
-                            setAttendanceQrImage(file);
-                          }}
-                        />
-                      </Form.Group>
-                    </Col>
-                    <Col lg={4} className="d-grid gap-2">
-                      <Button
-                        variant="outline-dark"
-                        disabled={extractingQrFromImage}
-                        onClick={() => {
-                          void extractQrPayloadFromImage();
-                        }}
-                      >
-                        {extractingQrFromImage
-                          ? "Extracting..."
-                          : "Extract QR from Image"}
-                      </Button>
+                    <div className="d-flex gap-2 flex-wrap">
                       <Button
-                        variant="outline-success"
-                        disabled={markingAttendance}
+                        size="sm"
+                        variant="outline-secondary"
+                        disabled={downloadingManifest}
                         onClick={() => {
-                          void markAttendanceByQrPayload();
+                          void downloadManifest();
                         }}
                       >
-                        Mark by QR Payload
+                        {downloadingManifest
+                          ? "Downloading..."
+                          : offlineManifest
+                            ? "Refresh Manifest"
+                            : "Download Manifest"}
                       </Button>
                       <Button
-                        variant={cameraActive ? "outline-danger" : "outline-secondary"}
+                        size="sm"
+                        variant="outline-primary"
+                        disabled={syncingOfflineQueue || offlineQueue.length === 0}
                         onClick={() => {
-                          if (cameraActive) {
-                            stopCameraScanner();
-                            return;
-                          }
-                          void startCameraScanner();
+                          void syncOfflineScans();
                         }}
-                        disabled={!scannerSupported}
                       >
-                        {cameraActive ? "Stop Camera Scanner" : "Start Camera Scanner"}
+                        {syncingOfflineQueue
+                          ? "Syncing..."
+                          : `Sync Queued Scans (${offlineQueue.length})`}
                       </Button>
-                      {!scannerSupported ? (
-                        <div className="small text-muted">
-                          Browser does not support camera QR detection. Use image upload, ticket id, or pasted payload.
-                        </div>
-                      ) : null}
-                    </Col>
-                  </Row>
-
-                  {scannerError ? <Alert variant="warning" className="mt-3 mb-0">{scannerError}</Alert> : null}
-
-                  {cameraActive ? (
-                    <div className="mt-3">
-                      <video
-                        ref={scannerVideoRef}
-                        autoPlay
-                        playsInline
-                        muted
-                        style={{ width: "100%", maxWidth: "560px", border: "1px solid #ced4da" }}
-                      />
-                    </div>
-                  ) : null}
-                </Card.Body>
-              </Card>
-
-              <Card className="border">
-                <Card.Body>
-                  <h3 className="h6 mb-2">Attendance Audit Trail</h3>
-                  <p className="text-muted small mb-3">
-                    Manual overrides and successful scan-based attendance updates are logged here.
-                  </p>
-
-                  {attendanceAuditTrail.length === 0 ? (
-                    <div className="text-muted small">No attendance audit entries yet.</div>
-                  ) : (
-                    <div className="d-grid gap-2">
-                      {attendanceAuditTrail.map((entry) => (
-                        <Card className="bg-light border" key={entry.id}>
-                          <Card.Body className="py-2 small">
-                            <div className="d-flex justify-content-between align-items-start gap-2 flex-wrap">
-                              <div>
-                                <strong>{entry.participantName}</strong>
-                                <div className="text-muted">{formatAttendanceAuditAction(entry.action)}</div>
-                              </div>
-                              <div className="text-muted">{formatDate(entry.createdAt)}</div>
-                            </div>
-                            <div>
-                              <strong>State:</strong>{" "}
-                              {entry.previousIsPresent ? "present" : "absent"} {"->"}{" "}
-                              {entry.nextIsPresent ? "present" : "absent"}
-                            </div>
-                            {entry.reason ? (
-                              <div>
-                                <strong>Reason:</strong> {entry.reason}
-                              </div>
-                            ) : null}
-                            <div>
-                              <strong>By:</strong>{" "}
-                              {entry.actorOrganizerName ?? entry.actorOrganizerId}
-                            </div>
-                          </Card.Body>
-                        </Card>
-                      ))}
                     </div>
-                  )}
-                </Card.Body>
-              </Card>
-            </div>
-          </Tab>
 
-          <Tab eventKey="merch-orders" title={`Merch Orders (${merchOrders.length})`}>
-            <div className="mt-3 d-grid gap-3">
-              {event.type !== "MERCH" ? (
-                <Card className="border">
-                  <Card.Body className="text-muted">
-                    Merch payment workflow is only available for MERCH events.
+                    {offlineQueue.length > 0 ? (
+                      <ul className="small mt-2 mb-0">
+                        {offlineQueue.map((scan) => (
+                          <li key={scan.clientScanId}>
+                            {scan.participantName} ({scan.ticketId})
+                            {scan.checkpointKey
+                              ? ` - ${checkpointNameByKey.get(scan.checkpointKey) ?? scan.checkpointKey}`
+                              : ""}{" "}
+                            at {formatDate(scan.scannedAt)}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : null}
+
+                    {offlineSyncIssues.length > 0 ? (
+                      <Alert variant="warning" className="small mt-2 mb-0">
+                        <div className="fw-semibold">Not applied on the last sync:</div>
+                        <ul className="mb-0">
+                          {offlineSyncIssues.map((result) => (
+                            <li key={result.clientScanId}>
+                              {result.participantName ?? result.ticketId ?? "Unknown ticket"}:{" "}
+                              {result.message ?? result.status}
+                            </li>
+                          ))}
+                        </ul>
+                      </Alert>
+                    ) : null}
                   </Card.Body>
                 </Card>
-              ) : merchOrders.length === 0 ? (
+
                 <Card className="border">
-                  <Card.Body className="text-muted">No merch orders yet.</Card.Body>
+                  <Card.Body>
+                    <h3 className="h6 mb-3">Mark Attendance</h3>
+                    <p className="text-muted small mb-3">
+                      Scan ticket QR payload, upload QR image, or enter ticket id. Scans beyond a checkpoint's limit are not counted.
+                    </p>
+
+                    <Form.Group controlId="attendance-checkpoint-select" className="mb-3">
+                      <Form.Label>Checkpoint</Form.Label>
+                      <Form.Select
+                        value={scanCheckpoint?.key ?? ""}
+                        onChange={(currentEvent) => setScanCheckpointKey(currentEvent.target.value)}
+                      >
+                        {checkpoints.map((checkpoint) => (
+                          <option key={checkpoint.key} value={checkpoint.key}>
+                            {checkpoint.name}
+                            {checkpoint.scanLimit > 1 ? ` (up to ${checkpoint.scanLimit} scans)` : ""}
+                          </option>
+                        ))}
+                      </Form.Select>
+                    </Form.Group>
+
+                    <Row className="g-2 align-items-end">
+                      <Col lg={8}>
+                        <Form.Group controlId="attendance-ticket-id-input">
+                          <Form.Label>Ticket ID</Form.Label>
+                          <Form.Control
+                            placeholder="TKT-..."
+                            value={attendanceTicketIdInput}
+                            onChange={(currentEvent) =>
+                              setAttendanceTicketIdInput(currentEvent.target.value)
+                            }
+                          />
+                        </Form.Group>
+                      </Col>
+                      <Col lg={4}>
+                        <Button
+                          className="w-100"
+                          variant="outline-primary"
+                          disabled={markingAttendance}
+                          onClick={() => {
+                            void markAttendanceByTicketId();
+                          }}
+                        >
+                          Mark by Ticket ID
+                        </Button>
+                      </Col>
+                    </Row>
+
+                    <hr />
+
+                    <Row className="g-2">
+                      <Col lg={8}>
+                        <Form.Group controlId="attendance-qr-payload-input">
+                          <Form.Label>QR Payload</Form.Label>
+                          <Form.Control
+                            as="textarea"
+                            rows={4}
+                            placeholder='{"ticketId":"TKT-...","eventId":"...","userId":"...","participationId":"..."}'
+                            value={attendanceQrPayloadInput}
+                            onChange={(currentEvent) =>
+                              setAttendanceQrPayloadInput(currentEvent.target.value)
+                            }
+                          />
+                        </Form.Group>
+                        <Form.Group controlId="attendance-qr-image-input" className="mt-2">
+                          <Form.Label>QR Image Upload</Form.Label>
+                          <Form.Control
+                            type="file"
+                            accept="image/*"
+                            onChange={(currentEvent) => {
+                              const fileInput = currentEvent.target as HTMLInputElement;
+                              const file = fileInput.files?.[0] ?? null;
+                              setAttendanceQrImage(file);
+                            }}
+                          />
+                        </Form.Group>
+                      </Col>
+                      <Col lg={4} className="d-grid gap-2">
+                        <Button
+                          variant="outline-dark"
+                          disabled={extractingQrFromImage}
+                          onClick={() => {
+                            void extractQrPayloadFromImage();
+                          }}
+                        >
+                          {extractingQrFromImage
+                            ? "Extracting..."
+                            : "Extract QR from Image"}
+                        </Button>
+                        <Button
+                          variant="outline-success"
+                          disabled={markingAttendance}
+                          onClick={() => {
+                            void markAttendanceByQrPayload();
+                          }}
+                        >
+                          Mark by QR Payload
+                        </Button>
+                        <Button
+                          variant={cameraActive ? "outline-danger" : "outline-secondary"}
+                          onClick={() => {
+                            if (cameraActive) {
+                              stopCameraScanner();
+                              return;
+                            }
+                            void startCameraScanner();
+                          }}
+                          disabled={!scannerSupported}
+                        >
+                          {cameraActive ? "Stop Camera Scanner" : "Start Camera Scanner"}
+                        </Button>
+                        {!scannerSupported ? (
+                          <div className="small text-muted">
+                            Browser does not support camera QR detection. Use image upload, ticket id, or pasted payload.
+                          </div>
+                        ) : null}
+                      </Col>
+                    </Row>
+
+                    {scannerError ? <Alert variant="warning" className="mt-3 mb-0">{scannerError}</Alert> : null}
+
+                    {cameraActive ? (
+                      <div className="mt-3">
+                        <video
+                          ref={scannerVideoRef}
+                          autoPlay
+                          playsInline
+                          muted
+                          style={{ width: "100%", maxWidth: "560px", border: "1px solid #ced4da" }}
+                        />
+                      </div>
+                    ) : null}
+                  </Card.Body>
                 </Card>
-              ) : (
-                merchOrders.map((order) => {
-                  const busy = resolvingPaymentId === order.id;
 
-                  return (
-                    <Card className="border" key={`merch-order-${order.id}`}>
-                      <Card.Body>
-                        <div className="d-flex justify-content-between align-items-start gap-2 flex-wrap">
-                          <div>
-                            <h3 className="h6 mb-1">{order.participant.name}</h3>
-                            <div className="small text-muted mb-1">
-                              {order.participant.email ?? "email unavailable"}
-                            </div>
-                            <div className="small text-muted">
-                              <strong>Order:</strong> {order.merchPurchase?.label} x
-                              {order.merchPurchase?.quantity}
-                            </div>
-                            <div className="small text-muted">
-                              <strong>Amount:</strong>{" "}
-                              {order.payment ? formatCurrency(order.payment.amount) : "-"}
-                            </div>
-                            <div className="small text-muted">
-                              <strong>Payment:</strong> {order.payment?.status ?? "-"} (
-                              {order.payment?.method ?? "-"})
-                            </div>
-                            <div className="small text-muted">
-                              <strong>Ticket:</strong> {order.ticketId ?? "not issued"}
+                <AttendanceAuditLog
+                  eventId={eventId}
+                  checkpoints={checkpoints}
+                  latestEntryId={detail?.attendanceAuditTrail?.[0]?.id ?? null}
+                />
+              </div>
+            </Tab>
+          ) : null}
+
+          {canUse("editor") ? (
+            <Tab eventKey="scanner-devices" title="Gate Devices" mountOnEnter>
+              <ScannerDevices eventId={eventId} />
+            </Tab>
+          ) : null}
+
+          {canUse("finance") ? (
+            <Tab
+              eventKey="merch-orders"
+              title={`${event.type === "MERCH" ? "Merch Orders" : "Payments"} (${paymentOrders.length})`}
+            >
+              <div className="mt-3 d-grid gap-3">
+                {event.type === "NORMAL" && event.regFee <= 0 ? (
+                  <Card className="border">
+                    <Card.Body className="text-muted">
+                      This event is free, so there are no payments to review.
+                    </Card.Body>
+                  </Card>
+                ) : paymentOrders.length === 0 ? (
+                  <Card className="border">
+                    <Card.Body className="text-muted">
+                      {event.type === "MERCH" ? "No merch orders yet." : "No paid registrations yet."}
+                    </Card.Body>
+                  </Card>
+                ) : (
+                  paymentOrders.map((order) => {
+                    const busy = resolvingPaymentId === order.id;
+                    // approval-mode registrations settle their payment with the review, and team members
+                    // only get a payment hold once their team is confirmed; online payments settle through the provider unless a paid checkout could not be applied
+                    const awaitingCheckout =
+                      order.payment?.method === "online" && order.payment.checkout?.status !== "paid";
+                    const canResolve =
+                      !awaitingCheckout &&
+                      (order.eventType === "MERCH"
+                        ? order.payment?.status === "pending"
+                        : order.paymentHoldExpiresAt !== null);
+
+                    return (
+                      <Card className="border" key={`merch-order-${order.id}`}>
+                        <Card.Body>
+                          <div className="d-flex justify-content-between align-items-start gap-2 flex-wrap">
+                            <div>
+                              <h3 className="h6 mb-1">{order.participant.name}</h3>
+                              <div className="small text-muted mb-1">
+                                {order.participant.email ?? "email unavailable"}
+                              </div>
+                              {order.merchPurchase ? (
+                                <div className="small text-muted">
+                                  <strong>Order:</strong> {order.merchPurchase.label} x
+                                  {order.merchPurchase.quantity}
+                                </div>
+                              ) : null}
+                              <div className="small text-muted">
+                                <strong>Amount:</strong>{" "}
+                                {order.payment ? formatCurrency(order.payment.amount) : "-"}
+                              </div>
+                              <div className="small text-muted">
+                                <strong>Payment:</strong> {order.payment?.status ?? "-"} (
+                                {order.payment?.method ?? "-"})
+                              </div>
+                              {order.payment?.checkout ? (
+                                <div className="small text-muted">
+                                  <strong>Checkout:</strong> {order.payment.checkout.status}
+                                  {order.payment.checkout.paidAt
+                                    ? ` on ${formatDate(order.payment.checkout.paidAt)}`
+                                    : ""}
+                                </div>
+                              ) : null}
+                              {order.payment?.checkout?.settlementError ? (
+                                <div className="small text-danger">
+                                  Paid online but not applied: {order.payment.checkout.settlementError}
+                                </div>
+                              ) : null}
+                              <div className="small text-muted">
+                                <strong>Ticket:</strong> {order.ticketId ?? "not issued"}
+                              </div>
+                              {order.paymentHoldExpiresAt ? (
+                                <div className="small text-muted">
+                                  <strong>Seat held until:</strong>{" "}
+                                  {formatDate(order.paymentHoldExpiresAt)}
+                                </div>
+                              ) : null}
+                              {order.refund ? (
+                                <div className="small text-muted">
+                                  <strong>Refund:</strong> {formatCurrency(order.refund.amount)} (
+                                  {order.refund.percent}%) {order.refund.status}
+                                  {order.refund.reference ? ` - ref ${order.refund.reference}` : ""}
+                                </div>
+                              ) : null}
                             </div>
-                          </div>
 
-                          <div className="d-flex flex-column gap-2 align-items-end">
-                            {order.payment?.proofUrl ? (
-                              <button
-                                type="button"
-                                className="btn btn-outline-secondary btn-sm"
-                                disabled={
-                                  openingFileUrl === resolveApiUrl(order.payment?.proofUrl ?? "")
-                                }
-                                onClick={() => {
-                                  const proofUrl = order.payment?.proofUrl;
-                                  if (!proofUrl) return;
-                                  void openProtectedFile(proofUrl);
-                                }}
-                              >
-                                View Proof
-                              </button>
-                            ) : null}
-                            {order.payment?.status === "pending" ? (
-                              <div className="d-flex gap-2">
-                                <Button
-                                  size="sm"
-                                  variant="outline-success"
-                                  disabled={busy}
+                            <div className="d-flex flex-column gap-2 align-items-end">
+                              {order.payment?.proofUrl ? (
+                                <button
+                                  type="button"
+                                  className="btn btn-outline-secondary btn-sm"
+                                  disabled={
+                                    openingFileUrl === resolveApiUrl(order.payment?.proofUrl ?? "")
+                                  }
                                   onClick={() => {
-                                    void resolveMerchPayment(order.id, "approve");
+                                    const proofUrl = order.payment?.proofUrl;
+                                    if (!proofUrl) return;
+                                    void openProtectedFile(proofUrl);
                                   }}
                                 >
-                                  Approve
-                                </Button>
+                                  View Proof
+                                </button>
+                              ) : null}
+                              {canResolve ? (
+                                <div className="d-flex gap-2">
+                                  <Button
+                                    size="sm"
+                                    variant="outline-success"
+                                    disabled={busy}
+                                    onClick={() => {
+                                      void resolveMerchPayment(order.id, "approve");
+                                    }}
+                                  >
+                                    Approve
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="outline-danger"
+                                    disabled={busy}
+                                    onClick={() => {
+                                      void resolveMerchPayment(order.id, "reject");
+                                    }}
+                                  >
+                                    Reject
+                                  </Button>
+                                </div>
+                              ) : (
+                                <Badge bg={statusBadgeVariant(order.payment?.status ?? "pending")}>
+                                  {order.payment?.status ?? "pending"}
+                                </Badge>
+                              )}
+                              {order.refund?.status === "pending" ? (
                                 <Button
                                   size="sm"
-                                  variant="outline-danger"
+                                  variant="outline-primary"
                                   disabled={busy}
                                   onClick={() => {
-                                    void resolveMerchPayment(order.id, "reject");
+                                    void processRefund(order.id, order.participant.name);
                                   }}
                                 >
-                                  Reject
+                                  Mark Refunded
                                 </Button>
-                              </div>
-                            ) : (
-                              <Badge bg={statusBadgeVariant(order.payment?.status ?? "pending")}>
-                                {order.payment?.status ?? "pending"}
-                              </Badge>
-                            )}
+                              ) : null}
+                            </div>
                           </div>
+                        </Card.Body>
+                      </Card>
+                    );
+                  })
+                )}
+              </div>
+            </Tab>
+          ) : null}
+
+          {canUse("editor") ? (
+            <Tab eventKey="announcements" title="Announcements">
+              <EventAnnouncements eventId={eventId} />
+            </Tab>
+          ) : null}
+
+          {teamRole === null ? (
+            <Tab eventKey="discussion" title="Discussion" mountOnEnter unmountOnExit>
+              <EventDiscussion eventId={eventId} />
+            </Tab>
+          ) : null}
+
+          {teamRole === null ? (
+            <Tab eventKey="feedback" title="Feedback" mountOnEnter>
+              <EventFeedback eventId={eventId} />
+            </Tab>
+          ) : null}
+
+          {canUse("editor") ? (
+            <Tab eventKey="certificates" title="Certificates" mountOnEnter>
+              <EventCertificates eventId={eventId} />
+            </Tab>
+          ) : null}
+
+          {canUse("finance", "editor") ? (
+            <Tab eventKey="analytics" title="Analytics">
+              <div className="mt-3">
+                <Row className="g-3">
+                  <Col md={4}>
+                    <Card className="border h-100">
+                      <Card.Body>
+                        <div className="text-muted small">Total participations</div>
+                        <div className="h4 mb-0">{analytics.totalParticipations}</div>
+                      </Card.Body>
+                    </Card>
+                  </Col>
+                  <Col md={4}>
+                    <Card className="border h-100">
+                      <Card.Body>
+                        <div className="text-muted small">Active participations</div>
+                        <div className="h4 mb-0">{analytics.activeParticipations}</div>
+                      </Card.Body>
+                    </Card>
+                  </Col>
+                  <Col md={4}>
+                    <Card className="border h-100">
+                      <Card.Body>
+                        <div className="text-muted small">Registrations (24h)</div>
+                        <div className="h4 mb-0">{analytics.registrations24h}</div>
+                      </Card.Body>
+                    </Card>
+                  </Col>
+                  <Col md={4}>
+                    <Card className="border h-100">
+                      <Card.Body>
+                        <div className="text-muted small">Confirmed / Pending</div>
+                        <div className="h4 mb-0">
+                          {analytics.confirmedCount} / {analytics.pendingCount}
                         </div>
                       </Card.Body>
                     </Card>
-                  );
-                })
-              )}
-            </div>
-          </Tab>
-
-          <Tab eventKey="analytics" title="Analytics">
-            <div className="mt-3">
-              <Row className="g-3">
-                <Col md={4}>
-                  <Card className="border h-100">
-                    <Card.Body>
-                      <div className="text-muted small">Total participations</div>
-                      <div className="h4 mb-0">{analytics.totalParticipations}</div>
-                    </Card.Body>
-                  </Card>
-                </Col>
-                <Col md={4}>
-                  <Card className="border h-100">
-                    <Card.Body>
-                      <div className="text-muted small">Active participations</div>
-                      <div className="h4 mb-0">{analytics.activeParticipations}</div>
-                    </Card.Body>
-                  </Card>
-                </Col>
-                <Col md={4}>
-                  <Card className="border h-100">
-                    <Card.Body>
-                      <div className="text-muted small">Registrations (24h)</div>
-                      <div className="h4 mb-0">{analytics.registrations24h}</div>
-                    </Card.Body>
-                  </Card>
-                </Col>
-                <Col md={4}>
-                  <Card className="border h-100">
-                    <Card.Body>
-                      <div className="text-muted small">Confirmed / Pending</div>
-                      <div className="h4 mb-0">
-                        {analytics.confirmedCount} / {analytics.pendingCount}
-                      </div>
-                    </Card.Body>
-                  </Card>
-                </Col>
-                <Col md={4}>
-                  <Card className="border h-100">
-                    <Card.Body>
-                      <div className="text-muted small">Cancelled / Rejected</div>
-                      <div className="h4 mb-0">
-                        {analytics.cancelledCount} / {analytics.rejectedCount}
-                      </div>
-                    </Card.Body>
-                  </Card>
-                </Col>
-                <Col md={4}>
-                  <Card className="border h-100">
-                    <Card.Body>
-                      <div className="text-muted small">Estimated revenue</div>
-                      <div className="h4 mb-0">{formatCurrency(analytics.estimatedRevenue)}</div>
-                    </Card.Body>
-                  </Card>
-                </Col>
-                <Col md={6}>
-                  <Card className="border h-100">
-                    <Card.Body>
-                      <div className="text-muted small">Normal participations</div>
-                      <div className="h4 mb-0">{analytics.normalCount}</div>
-                    </Card.Body>
-                  </Card>
-                </Col>
-                <Col md={6}>
-                  <Card className="border h-100">
-                    <Card.Body>
-                      <div className="text-muted small">Merch participations</div>
-                      <div className="h4 mb-0">{analytics.merchCount}</div>
-                    </Card.Body>
-                  </Card>
-                </Col>
-                <Col md={6}>
-                  <Card className="border h-100">
-                    <Card.Body>
-                      <div className="text-muted small">Attendance marked</div>
-                      <div className="h4 mb-0">{analytics.attendanceMarked}</div>
-                    </Card.Body>
-                  </Card>
-                </Col>
-                <Col md={6}>
-                  <Card className="border h-100">
-                    <Card.Body>
-                      <div className="text-muted small">Attendance rate</div>
-                      <div className="h4 mb-0">{analytics.attendanceRate}%</div>
-                    </Card.Body>
-                  </Card>
-                </Col>
-              </Row>
-            </div>
-          </Tab>
+                  </Col>
+                  <Col md={4}>
+                    <Card className="border h-100">
+                      <Card.Body>
+                        <div className="text-muted small">Cancelled / Rejected</div>
+                        <div className="h4 mb-0">
+                          {analytics.cancelledCount} / {analytics.rejectedCount}
+                        </div>
+                      </Card.Body>
+                    </Card>
+                  </Col>
+                  <Col md={4}>
+                    <Card className="border h-100">
+                      <Card.Body>
+                        <div className="text-muted small">Waitlisted</div>
+                        <div className="h4 mb-0">{analytics.waitlistedCount}</div>
+                      </Card.Body>
+                    </Card>
+                  </Col>
+                  <Col md={4}>
+                    <Card className="border h-100">
+                      <Card.Body>
+                        <div className="text-muted small">Estimated revenue</div>
+                        <div className="h4 mb-0">{formatCurrency(analytics.estimatedRevenue)}</div>
+                      </Card.Body>
+                    </Card>
+                  </Col>
+                  <Col md={4}>
+                    <Card className="border h-100">
+                      <Card.Body>
+                        <div className="text-muted small">Net collected / refunded</div>
+                        <div className="h4 mb-0">
+                          {formatCurrency(analytics.netRevenue)} /{" "}
+                          {formatCurrency(analytics.refundedAmount)}
+                        </div>
+                      </Card.Body>
+                    </Card>
+                  </Col>
+                  <Col md={6}>
+                    <Card className="border h-100">
+                      <Card.Body>
+                        <div className="text-muted small">Normal participations</div>
+                        <div className="h4 mb-0">{analytics.normalCount}</div>
+                      </Card.Body>
+                    </Card>
+                  </Col>
+                  <Col md={6}>
+                    <Card className="border h-100">
+                      <Card.Body>
+                        <div className="text-muted small">Merch participations</div>
+                        <div className="h4 mb-0">{analytics.merchCount}</div>
+                      </Card.Body>
+                    </Card>
+                  </Col>
+                  <Col md={6}>
+                    <Card className="border h-100">
+                      <Card.Body>
+                        <div className="text-muted small">Attendance marked</div>
+                        <div className="h4 mb-0">{analytics.attendanceMarked}</div>
+                      </Card.Body>
+                    </Card>
+                  </Col>
+                  <Col md={6}>
+                    <Card className="border h-100">
+                      <Card.Body>
+                        <div className="text-muted small">Attendance rate</div>
+                        <div className="h4 mb-0">{analytics.attendanceRate}%</div>
+                      </Card.Body>
+                    </Card>
+                  </Col>
+                  <Col xs={12}>
+                    <Card className="border">
+                      <Card.Body>
+                        <div className="text-muted small mb-2">Attendance by checkpoint</div>
+                        <Table responsive size="sm" className="align-middle mb-0">
+                          <thead>
+                            <tr>
+                              <th>Checkpoint</th>
+                              <th>Participants scanned</th>
+                              <th>Total scans</th>
+                              <th>Rate</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {analytics.checkpoints.map((checkpoint) => (
+                              <tr key={checkpoint.key}>
+                                <td>
+                                  {checkpoint.name}
+                                  {checkpoint.scanLimit > 1 ? (
+                                    <span className="text-muted small">
+                                      {" "}
+                                      (limit {checkpoint.scanLimit})
+                                    </span>
+                                  ) : null}
+                                </td>
+                                <td>{checkpoint.attendedCount}</td>
+                                <td>{checkpoint.totalScans}</td>
+                                <td>{checkpoint.attendanceRate}%</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </Table>
+                      </Card.Body>
+                    </Card>
+                  </Col>
+                </Row>
+              </div>
+            </Tab>
+          ) : null}
         </Tabs>
       )}
     </Container>
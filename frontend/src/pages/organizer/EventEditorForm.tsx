@@ -37,6 +37,23 @@ export type MerchConfig = {
   perParticipantLimit: number;
 };
 
+// team sizes count the leader
+export type TeamConfig = {
+  minSize: number;
+  maxSize: number;
+};
+
+// registrations nobody reviewed by `at` are accepted or rejected automatically
+export type ApprovalAutoDecision = {
+  at: string;
+  decision: "accept" | "reject";
+};
+
+// cancelling at least hoursBeforeStart hours before the start refunds `percent` of the payment
+export type RefundPolicy = {
+  tiers: Array<{ hoursBeforeStart: number; percent: number }>;
+};
+
 export type EventEditorValues = {
   name: string;
   description: string;
@@ -48,6 +65,12 @@ export type EventEditorValues = {
   regLimit: number;
   startDate: string;
   endDate: string;
+  scheduledPublishAt?: string | null;
+  reminderOffsetsMinutes?: number[] | null;
+  teamConfig?: TeamConfig | null;
+  requiresApproval?: boolean;
+  approvalAutoDecision?: ApprovalAutoDecision | null;
+  refundPolicy?: RefundPolicy | null;
   normalForm?: NormalFormConfig;
   merchConfig?: MerchConfig;
 };
@@ -180,6 +203,43 @@ export default function EventEditorForm({
     toDateTimeLocalValue(initialValues?.startDate),
   );
   const [endDate, setEndDate] = useState(toDateTimeLocalValue(initialValues?.endDate));
+  const [scheduledPublishAt, setScheduledPublishAt] = useState(
+    toDateTimeLocalValue(initialValues?.scheduledPublishAt ?? undefined),
+  );
+  const [remindersEnabled, setRemindersEnabled] = useState(
+    initialValues?.reminderOffsetsMinutes?.length !== 0,
+  );
+  const [reminderOffsetsText, setReminderOffsetsText] = useState(
+    initialValues?.reminderOffsetsMinutes?.join(", ") ?? "",
+  );
+
+  const [refundsEnabled, setRefundsEnabled] = useState(Boolean(initialValues?.refundPolicy));
+  const [refundTiersText, setRefundTiersText] = useState(
+    initialValues?.refundPolicy?.tiers
+      .map((tier) => `${tier.hoursBeforeStart}:${tier.percent}`)
+      .join(", ") ?? "",
+  );
+
+  const [teamsEnabled, setTeamsEnabled] = useState(Boolean(initialValues?.teamConfig));
+  const [teamMinSize, setTeamMinSize] = useState(
+    String(initialValues?.teamConfig?.minSize ?? 2),
+  );
+  const [teamMaxSize, setTeamMaxSize] = useState(
+    String(initialValues?.teamConfig?.maxSize ?? 4),
+  );
+
+  const [approvalRequired, setApprovalRequired] = useState(
+    initialValues?.requiresApproval ?? false,
+  );
+  const [autoDecisionEnabled, setAutoDecisionEnabled] = useState(
+    Boolean(initialValues?.approvalAutoDecision),
+  );
+  const [autoDecisionAt, setAutoDecisionAt] = useState(
+    toDateTimeLocalValue(initialValues?.approvalAutoDecision?.at),
+  );
+  const [autoDecision, setAutoDecision] = useState<ApprovalAutoDecision["decision"]>(
+    initialValues?.approvalAutoDecision?.decision ?? "reject",
+  );
 
   const [normalFields, setNormalFields] = useState<NormalFieldDraft[]>(
     buildInitialNormalFields(initialValues),
@@ -288,6 +348,8 @@ export default function EventEditorForm({
 
     let normalForm: NormalFormConfig | undefined;
     let merchConfig: MerchConfig | undefined;
+    let teamConfig: TeamConfig | null = null;
+    let approvalAutoDecision: ApprovalAutoDecision | null = null;
 
     if (type === "NORMAL") {
       if (normalFields.length === 0) {
@@ -332,6 +394,94 @@ export default function EventEditorForm({
         fields: builtFields,
         isFormLocked,
       };
+
+      if (teamsEnabled) {
+        const minSize = Number(teamMinSize);
+        const maxSize = Number(teamMaxSize);
+        if (
+          !Number.isInteger(minSize) ||
+          !Number.isInteger(maxSize) ||
+          minSize < 1 ||
+          maxSize < 2 ||
+          maxSize > 20 ||
+          minSize > maxSize
+        ) {
+          setError("Team sizes must be whole numbers with 1 <= minimum <= maximum <= 20.");
+          return;
+        }
+        teamConfig = { minSize, maxSize };
+      }
+
+      if (approvalRequired && teamsEnabled) {
+        setError("Team events cannot require registration approval.");
+        return;
+      }
+
+      if (approvalRequired && autoDecisionEnabled) {
+        if (!autoDecisionAt) {
+          setError("Pick when undecided registrations should be settled automatically.");
+          return;
+        }
+        if (autoDecisionAt < regDeadline || autoDecisionAt >= endDate) {
+          setError("The auto-decision time must be between the registration deadline and the end date.");
+          return;
+        }
+        approvalAutoDecision = { at: autoDecisionAt, decision: autoDecision };
+      }
+    }
+
+    // [] turns reminders off, null keeps the server default offsets
+    let reminderOffsetsMinutes: number[] | null = null;
+    if (!remindersEnabled) {
+      reminderOffsetsMinutes = [];
+    } else if (reminderOffsetsText.trim() !== "") {
+      const offsets = reminderOffsetsText
+        .split(",")
+        .map((value) => value.trim())
+        .filter((value) => value.length > 0)
+        .map(Number);
+
+      if (
+        offsets.length > 5 ||
+        offsets.some((offset) => !Number.isInteger(offset) || offset < 5 || offset > 43200)
+      ) {
+        setError("Reminder times must be up to 5 whole minute values between 5 and 43200.");
+        return;
+      }
+      reminderOffsetsMinutes = offsets;
+    }
+
+    let refundPolicy: RefundPolicy | null = null;
+    if (refundsEnabled) {
+      const tiers = refundTiersText
+        .split(",")
+        .map((value) => value.trim())
+        .filter((value) => value.length > 0)
+        .map((value) => {
+          const [hours = "", percent = ""] = value.split(":").map((part) => part.trim());
+          return { hoursBeforeStart: Number(hours), percent: Number(percent) };
+        });
+
+      if (
+        tiers.length === 0 ||
+        tiers.length > 5 ||
+        tiers.some(
+          (tier) =>
+            !Number.isInteger(tier.hoursBeforeStart) ||
+            !Number.isInteger(tier.percent) ||
+            tier.hoursBeforeStart < 0 ||
+            tier.hoursBeforeStart > 8760 ||
+            tier.percent < 0 ||
+            tier.percent > 100,
+        ) ||
+        new Set(tiers.map((tier) => tier.hoursBeforeStart)).size !== tiers.length
+      ) {
+        setError(
+          "Refund tiers must be 1 to 5 hours:percent pairs with distinct hours (0-8760) and percents 0-100.",
+        );
+        return;
+      }
+      refundPolicy = { tiers };
     }
 
     if (type === "MERCH") {
@@ -403,9 +553,17 @@ export default function EventEditorForm({
       regDeadline,
       startDate,
       endDate,
+      reminderOffsetsMinutes,
+      approvalAutoDecision,
+      refundPolicy,
       normalForm,
       merchConfig,
     };
+    if (!isPublishedLimited) {
+      values.scheduledPublishAt = scheduledPublishAt || null;
+      values.teamConfig = teamConfig;
+      values.requiresApproval = type === "NORMAL" && approvalRequired;
+    }
 
     await onSubmit(values);
   }
@@ -416,7 +574,8 @@ export default function EventEditorForm({
       {isPublishedLimited ? (
         <Alert variant="info">
           Published events only allow updating description, registration deadline
-          (extension), and registration limit (increase).
+          (extension), registration limit (increase), reminder emails, the approval
+          auto-decision, and the refund policy.
         </Alert>
       ) : null}
 
@@ -555,6 +714,67 @@ export default function EventEditorForm({
           </Form.Group>
         </Col>
 
+        {!isPublishedLimited ? (
+          <Col md={6}>
+            <Form.Group controlId="event-scheduled-publish">
+              <Form.Label>Scheduled Publish (optional)</Form.Label>
+              <Form.Control
+                type="datetime-local"
+                value={scheduledPublishAt}
+                onChange={(currentEvent) => setScheduledPublishAt(currentEvent.target.value)}
+              />
+              <Form.Text muted>
+                Leave empty to publish manually from My Events.
+              </Form.Text>
+            </Form.Group>
+          </Col>
+        ) : null}
+
+        <Col md={6}>
+          <Form.Group controlId="event-reminder-offsets">
+            <Form.Check
+              type="switch"
+              id="event-reminders-enabled"
+              label="Send reminder emails before start"
+              checked={remindersEnabled}
+              onChange={(currentEvent) => setRemindersEnabled(currentEvent.target.checked)}
+            />
+            <Form.Control
+              className="mt-2"
+              value={reminderOffsetsText}
+              onChange={(currentEvent) => setReminderOffsetsText(currentEvent.target.value)}
+              placeholder="e.g. 1440, 60"
+              disabled={!remindersEnabled}
+            />
+            <Form.Text muted>
+              Minutes before start, comma separated. Leave empty for the default (24h and 1h).
+            </Form.Text>
+          </Form.Group>
+        </Col>
+
+        <Col md={6}>
+          <Form.Group controlId="event-refund-policy">
+            <Form.Check
+              type="switch"
+              id="event-refunds-enabled"
+              label="Refund paid cancellations"
+              checked={refundsEnabled}
+              onChange={(currentEvent) => setRefundsEnabled(currentEvent.target.checked)}
+            />
+            <Form.Control
+              className="mt-2"
+              value={refundTiersText}
+              onChange={(currentEvent) => setRefundTiersText(currentEvent.target.value)}
+              placeholder="e.g. 168:100, 48:50"
+              disabled={!refundsEnabled}
+            />
+            <Form.Text muted>
+              Hours before start : percent refunded, comma separated. Later cancellations get no
+              refund.
+            </Form.Text>
+          </Form.Group>
+        </Col>
+
         {type === "NORMAL" ? (
           <Col xs={12}>
             <Card className="border">
@@ -570,6 +790,116 @@ export default function EventEditorForm({
                   disabled
                 />
 
+                <div className="mb-3">
+                  <Form.Check
+                    type="switch"
+                    id="normal-team-registration"
+                    label="Team registration (a leader registers and teammates join with an invite code)"
+                    checked={teamsEnabled}
+                    disabled={isPublishedLimited}
+                    onChange={(currentEvent) => setTeamsEnabled(currentEvent.target.checked)}
+                  />
+                  {teamsEnabled ? (
+                    <Row className="g-2 mt-1">
+                      <Col md={3}>
+                        <Form.Group controlId="normal-team-min-size">
+                          <Form.Label>Min team size</Form.Label>
+                          <Form.Control
+                            type="number"
+                            min={1}
+                            max={20}
+                            step={1}
+                            value={teamMinSize}
+                            disabled={isPublishedLimited}
+                            onChange={(currentEvent) => setTeamMinSize(currentEvent.target.value)}
+                          />
+                        </Form.Group>
+                      </Col>
+                      <Col md={3}>
+                        <Form.Group controlId="normal-team-max-size">
+                          <Form.Label>Max team size</Form.Label>
+                          <Form.Control
+                            type="number"
+                            min={2}
+                            max={20}
+                            step={1}
+                            value={teamMaxSize}
+                            disabled={isPublishedLimited}
+                            onChange={(currentEvent) => setTeamMaxSize(currentEvent.target.value)}
+                          />
+                        </Form.Group>
+                      </Col>
+                      <Col md={6} className="d-flex align-items-end">
+                        <Form.Text muted>
+                          Members get their tickets once the team reaches the minimum size. Each
+                          member takes one seat of the registration limit.
+                        </Form.Text>
+                      </Col>
+                    </Row>
+                  ) : null}
+                </div>
+
+                <div className="mb-3">
+                  <Form.Check
+                    type="switch"
+                    id="normal-requires-approval"
+                    label="Require organizer approval (registrations stay pending until accepted)"
+                    checked={approvalRequired}
+                    disabled={isPublishedLimited || teamsEnabled}
+                    onChange={(currentEvent) => setApprovalRequired(currentEvent.target.checked)}
+                  />
+                  {approvalRequired ? (
+                    <Row className="g-2 mt-1 align-items-end">
+                      <Col md={4}>
+                        <Form.Check
+                          type="switch"
+                          id="normal-approval-auto-decision"
+                          className="mb-2"
+                          label="Decide leftovers automatically"
+                          checked={autoDecisionEnabled}
+                          onChange={(currentEvent) =>
+                            setAutoDecisionEnabled(currentEvent.target.checked)
+                          }
+                        />
+                      </Col>
+                      <Col md={4}>
+                        <Form.Group controlId="normal-approval-auto-decision-at">
+                          <Form.Label>Decide at</Form.Label>
+                          <Form.Control
+                            type="datetime-local"
+                            value={autoDecisionAt}
+                            disabled={!autoDecisionEnabled}
+                            onChange={(currentEvent) => setAutoDecisionAt(currentEvent.target.value)}
+                          />
+                        </Form.Group>
+                      </Col>
+                      <Col md={4}>
+                        <Form.Group controlId="normal-approval-auto-decision-choice">
+                          <Form.Label>Undecided registrations are</Form.Label>
+                          <Form.Select
+                            value={autoDecision}
+                            disabled={!autoDecisionEnabled}
+                            onChange={(currentEvent) =>
+                              setAutoDecision(
+                                currentEvent.target.value as ApprovalAutoDecision["decision"],
+                              )
+                            }
+                          >
+                            <option value="reject">Rejected</option>
+                            <option value="accept">Accepted</option>
+                          </Form.Select>
+                        </Form.Group>
+                      </Col>
+                      <Col xs={12}>
+                        <Form.Text muted>
+                          Pending registrations hold a seat. Tickets go out when you accept them
+                          from the event&apos;s Applications tab.
+                        </Form.Text>
+                      </Col>
+                    </Row>
+                  ) : null}
+                </div>
+
                 {normalFields.map((field, index) => {
                   const needsOptions =
                     field.type === "select" || field.type === "checkbox";
@@ -0,0 +1,199 @@
+import { useCallback, useEffect, useState } from "react";
+import { Alert, Button, Card, Col, Form, ProgressBar, Row, Spinner, Table } from "react-bootstrap";
+import { apiFetch } from "../../lib/api";
+
+type FeedbackEntry = {
+  rating: number;
+  comment: string;
+  submittedOn: string;
+};
+
+type FeedbackSummary = {
+  count: number;
+  averageRating: number | null;
+  distribution: Record<"1" | "2" | "3" | "4" | "5", number>;
+  withComments: number;
+};
+
+type FeedbackResponse = {
+  summary: FeedbackSummary;
+  feedback: FeedbackEntry[];
+};
+
+type EventFeedbackProps = {
+  eventId: string;
+};
+
+const ratingValues = ["5", "4", "3", "2", "1"] as const;
+
+async function readErrorMessage(res: Response): Promise<string> {
+  try {
+    const data = await res.json();
+    return data?.error?.message || "Request failed";
+  } catch {
+    return "Request failed";
+  }
+}
+
+export default function EventFeedback({ eventId }: EventFeedbackProps) {
+  const [loading, setLoading] = useState(true);
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [ratingFilter, setRatingFilter] = useState("");
+  const [data, setData] = useState<FeedbackResponse | null>(null);
+
+  const ratingQuery = ratingFilter ? `?rating=${ratingFilter}` : "";
+
+  const loadFeedback = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await apiFetch(`/api/feedback/organizer/events/${eventId}${ratingQuery}`);
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+      setData((await res.json()) as FeedbackResponse);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load feedback");
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId, ratingQuery]);
+
+  useEffect(() => {
+    void loadFeedback();
+  }, [loadFeedback]);
+
+  async function downloadFeedbackCsv() {
+    setDownloading(true);
+    setError(null);
+
+    try {
+      const res = await apiFetch(
+        `/api/feedback/organizer/events/${eventId}/feedback.csv${ratingQuery}`,
+      );
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      const blob = await res.blob();
+      const header = res.headers.get("content-disposition") ?? "";
+      const filenameMatch = header.match(/filename="?([^"]+)"?/i);
+      const filename = filenameMatch?.[1] ?? "feedback.csv";
+
+      const url = URL.createObjectURL(blob);
+      const anchor = document.createElement("a");
+      anchor.href = url;
+      anchor.download = filename;
+      document.body.append(anchor);
+      anchor.click();
+      anchor.remove();
+      URL.revokeObjectURL(url);
+    } catch (downloadError) {
+      setError(downloadError instanceof Error ? downloadError.message : "Failed to download csv");
+    } finally {
+      setDownloading(false);
+    }
+  }
+
+  const summary = data?.summary;
+
+  return (
+    <div className="mt-3 d-grid gap-3">
+      {error ? <Alert variant="danger">{error}</Alert> : null}
+
+      {summary ? (
+        <Row className="g-3">
+          <Col md={4}>
+            <Card className="border h-100">
+              <Card.Body>
+                <div className="text-muted small">Average rating</div>
+                <div className="h4 mb-0">
+                  {summary.averageRating === null ? "-" : `${summary.averageRating} / 5`}
+                </div>
+                <div className="small text-muted">
+                  {summary.count} response(s), {summary.withComments} with comments
+                </div>
+              </Card.Body>
+            </Card>
+          </Col>
+          <Col md={8}>
+            <Card className="border h-100">
+              <Card.Body>
+                <div className="text-muted small mb-2">Distribution</div>
+                {ratingValues.map((value) => {
+                  const count = summary.distribution[value] ?? 0;
+                  const percent = summary.count > 0 ? (count / summary.count) * 100 : 0;
+                  return (
+                    <div key={`distribution-${value}`} className="d-flex align-items-center gap-2">
+                      <span className="small" style={{ width: "2.5rem" }}>
+                        {value} {"★"}
+                      </span>
+                      <ProgressBar now={percent} className="flex-grow-1" />
+                      <span className="small text-muted" style={{ width: "2rem" }}>
+                        {count}
+                      </span>
+                    </div>
+                  );
+                })}
+              </Card.Body>
+            </Card>
+          </Col>
+        </Row>
+      ) : null}
+
+      <div className="d-flex gap-2 align-items-end flex-wrap">
+        <Form.Group controlId="feedback-rating-filter">
+          <Form.Label>Filter by rating</Form.Label>
+          <Form.Select
+            value={ratingFilter}
+            onChange={(currentEvent) => setRatingFilter(currentEvent.target.value)}
+          >
+            <option value="">All ratings</option>
+            {ratingValues.map((value) => (
+              <option key={`filter-${value}`} value={value}>
+                {value} star{value === "1" ? "" : "s"}
+              </option>
+            ))}
+          </Form.Select>
+        </Form.Group>
+        <Button
+          variant="outline-primary"
+          disabled={downloading}
+          onClick={() => {
+            void downloadFeedbackCsv();
+          }}
+        >
+          {downloading ? "Downloading..." : "Export CSV"}
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="d-flex align-items-center gap-2">
+          <Spinner animation="border" size="sm" />
+          <span>Loading feedback...</span>
+        </div>
+      ) : !data || data.feedback.length === 0 ? (
+        <Card className="border">
+          <Card.Body className="text-muted">No feedback yet.</Card.Body>
+        </Card>
+      ) : (
+        <Table responsive size="sm">
+          <thead>
+            <tr>
+              <th>Rating</th>
+              <th>Comment</th>
+              <th>Submitted</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.feedback.map((entry, index) => (
+              <tr key={`feedback-${index}`}>
+                <td>{"★".repeat(entry.rating)}</td>
+                <td style={{ whiteSpace: "pre-wrap" }}>{entry.comment || "-"}</td>
+                <td>{entry.submittedOn}</td>
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+      )}
+    </div>
+  );
+}
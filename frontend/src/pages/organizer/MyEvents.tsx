@@ -14,9 +14,12 @@ import { Link } from "react-router-dom";
 import EventCard, { type EventCardData, type EventStatus } from "../../components/EventCard";
 import { apiFetch } from "../../lib/api";
 import EventEditorForm, {
+  type ApprovalAutoDecision,
   type EventEditorValues,
   type MerchConfig,
   type NormalFormConfig,
+  type RefundPolicy,
+  type TeamConfig,
 } from "./EventEditorForm";
 
 type OrganizerEvent = EventCardData & {
@@ -24,6 +27,12 @@ type OrganizerEvent = EventCardData & {
   regLimit: number;
   regFee: number;
   eligibility: string;
+  scheduledPublishAt?: string | null;
+  reminderOffsetsMinutes?: number[] | null;
+  teamConfig?: TeamConfig | null;
+  requiresApproval?: boolean;
+  approvalAutoDecision?: ApprovalAutoDecision | null;
+  refundPolicy?: RefundPolicy | null;
   normalForm?: NormalFormConfig;
   merchConfig?: MerchConfig;
 };
@@ -32,8 +41,16 @@ type OrganizerEventsResponse = {
   events?: OrganizerEvent[];
 };
 
+// set when a participant helps run another club's events as a team member
+export type TeamContext = {
+  organizerId: string;
+  organizerName: string;
+  role: "scanner" | "finance" | "editor";
+};
+
 type MyEventsProps = {
   mode?: "all" | "ongoing";
+  team?: TeamContext;
 };
 
 async function readErrorMessage(res: Response): Promise<string> {
@@ -57,6 +74,12 @@ function toEditorValues(event: OrganizerEvent): EventEditorValues {
     regLimit: event.regLimit,
     startDate: event.startDate,
     endDate: event.endDate,
+    scheduledPublishAt: event.scheduledPublishAt ?? null,
+    reminderOffsetsMinutes: event.reminderOffsetsMinutes ?? null,
+    teamConfig: event.teamConfig ?? null,
+    requiresApproval: event.requiresApproval ?? false,
+    approvalAutoDecision: event.approvalAutoDecision ?? null,
+    refundPolicy: event.refundPolicy ?? null,
     normalForm: event.normalForm,
     merchConfig: event.merchConfig,
   };
@@ -79,7 +102,7 @@ function chunkEvents(events: OrganizerEvent[], chunkSize: number): OrganizerEven
   return chunks;
 }
 
-export default function MyEvents({ mode = "all" }: MyEventsProps) {
+export default function MyEvents({ mode = "all", team }: MyEventsProps) {
   const [events, setEvents] = useState<OrganizerEvent[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -102,6 +125,11 @@ export default function MyEvents({ mode = "all" }: MyEventsProps) {
         event.status === "ONGOING",
     );
   }, [events, mode]);
+  const teamOrganizerId = team?.organizerId ?? null;
+  // editors may edit and move events along; creating and deleting stay with the club account
+  const canManage = !team || team.role === "editor";
+  const eventPath = (eventId: string) =>
+    team ? `/participant/teams/events/${eventId}` : `/organizer/events/${eventId}`;
   const carouselSlides = useMemo(
     () => chunkEvents(filteredEvents, 3),
     [filteredEvents],
@@ -113,7 +141,11 @@ export default function MyEvents({ mode = "all" }: MyEventsProps) {
     setError(null);
 
     try {
-      const res = await apiFetch("/api/events/organizer");
+      const res = await apiFetch(
+        teamOrganizerId
+          ? `/api/events/organizer?organizerId=${encodeURIComponent(teamOrganizerId)}`
+          : "/api/events/organizer",
+      );
       if (!res.ok) throw new Error(await readErrorMessage(res));
 
       const data = (await res.json()) as OrganizerEventsResponse;
@@ -123,7 +155,7 @@ export default function MyEvents({ mode = "all" }: MyEventsProps) {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [teamOrganizerId]);
 
   useEffect(() => {
     void loadMyEvents();
@@ -191,6 +223,35 @@ export default function MyEvents({ mode = "all" }: MyEventsProps) {
       if (values.regDeadline !== currentDeadlineValue) {
         updatePayload.regDeadline = values.regDeadline;
       }
+
+      const nextReminderOffsets = values.reminderOffsetsMinutes ?? null;
+      if (
+        JSON.stringify(nextReminderOffsets) !==
+        JSON.stringify(editingEvent.reminderOffsetsMinutes ?? null)
+      ) {
+        updatePayload.reminderOffsetsMinutes = nextReminderOffsets;
+      }
+
+      const nextAutoDecision = values.approvalAutoDecision ?? null;
+      const currentAutoDecision = editingEvent.approvalAutoDecision
+        ? {
+            at: toDateTimeLocalValue(editingEvent.approvalAutoDecision.at),
+            decision: editingEvent.approvalAutoDecision.decision,
+          }
+        : null;
+      if (
+        editingEvent.requiresApproval &&
+        JSON.stringify(nextAutoDecision) !== JSON.stringify(currentAutoDecision)
+      ) {
+        updatePayload.approvalAutoDecision = nextAutoDecision;
+      }
+
+      const nextRefundPolicy = values.refundPolicy ?? null;
+      if (
+        JSON.stringify(nextRefundPolicy) !== JSON.stringify(editingEvent.refundPolicy ?? null)
+      ) {
+        updatePayload.refundPolicy = nextRefundPolicy;
+      }
     } else {
       Object.assign(updatePayload, values);
     }
@@ -225,15 +286,21 @@ export default function MyEvents({ mode = "all" }: MyEventsProps) {
       <div className="d-flex justify-content-between align-items-center mb-3">
         <div>
           <h1 className="h3 mb-1">
-            {mode === "ongoing" ? "Ongoing Events" : "My Events"}
+            {team
+              ? `${team.organizerName} Events`
+              : mode === "ongoing"
+                ? "Ongoing Events"
+                : "My Events"}
           </h1>
           <p className="text-muted mb-0">
-            {mode === "ongoing"
-              ? "Track currently active events and jump into operations."
-              : "Create drafts, publish events, and manage lifecycle."}
+            {team
+              ? `You help run these events as ${team.role}.`
+              : mode === "ongoing"
+                ? "Track currently active events and jump into operations."
+                : "Create drafts, publish events, and manage lifecycle."}
           </p>
         </div>
-        {mode === "all" ? (
+        {team ? null : mode === "all" ? (
           <Link to="/organizer/events/new" className="btn btn-primary">
             Create Draft Event
           </Link>
@@ -257,7 +324,9 @@ export default function MyEvents({ mode = "all" }: MyEventsProps) {
           <Card.Body className="text-muted">
             {mode === "ongoing"
               ? "No ongoing events right now."
-              : "No events yet. Create your first draft."}
+              : team
+                ? "This club has no events yet."
+                : "No events yet. Create your first draft."}
           </Card.Body>
         </Card>
       ) : (
@@ -275,7 +344,7 @@ export default function MyEvents({ mode = "all" }: MyEventsProps) {
                             event={event}
                             actions={
                               <Link
-                                to={`/organizer/events/${event.id}`}
+                                to={eventPath(event.id)}
                                 className="btn btn-outline-primary btn-sm"
                               >
                                 Manage
@@ -296,8 +365,9 @@ export default function MyEvents({ mode = "all" }: MyEventsProps) {
             {filteredEvents.map((event) => {
             const busy = actioningId === event.id;
             const canEdit =
-              event.status === "DRAFT" ||
-              (event.status === "PUBLISHED" && event.displayStatus !== "ONGOING");
+              canManage &&
+              (event.status === "DRAFT" ||
+                (event.status === "PUBLISHED" && event.displayStatus !== "ONGOING"));
 
             return (
               <Col key={event.id} md={6} lg={4}>
@@ -306,7 +376,7 @@ export default function MyEvents({ mode = "all" }: MyEventsProps) {
                   actions={
                     <>
                       <Link
-                        to={`/organizer/events/${event.id}`}
+                        to={eventPath(event.id)}
                         className="btn btn-outline-primary btn-sm"
                       >
                         Open
@@ -324,7 +394,13 @@ export default function MyEvents({ mode = "all" }: MyEventsProps) {
                         </Button>
                       ) : null}
 
-                      {event.status === "DRAFT" ? (
+                      {event.status === "DRAFT" && event.scheduledPublishAt ? (
+                        <span className="small text-muted align-self-center">
+                          Publishes {new Date(event.scheduledPublishAt).toLocaleString()}
+                        </span>
+                      ) : null}
+
+                      {canManage && event.status === "DRAFT" ? (
                         <Button
                           size="sm"
                           variant="outline-success"
@@ -337,7 +413,7 @@ export default function MyEvents({ mode = "all" }: MyEventsProps) {
                         </Button>
                       ) : null}
 
-                      {event.status === "PUBLISHED" ? (
+                      {canManage && event.status === "PUBLISHED" ? (
                         <>
                           <Button
                             size="sm"
@@ -365,7 +441,7 @@ export default function MyEvents({ mode = "all" }: MyEventsProps) {
                         </>
                       ) : null}
 
-                      {event.status === "CLOSED" ? (
+                      {canManage && event.status === "CLOSED" ? (
                         <Button
                           size="sm"
                           variant="outline-dark"
@@ -378,7 +454,7 @@ export default function MyEvents({ mode = "all" }: MyEventsProps) {
                         </Button>
                       ) : null}
 
-                      {event.status === "DRAFT" ? (
+                      {!team && event.status === "DRAFT" ? (
                         <Button
                           size="sm"
                           variant="outline-danger"
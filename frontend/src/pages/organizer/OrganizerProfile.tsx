@@ -2,6 +2,8 @@ import { useCallback, useEffect, useState } from "react";
 import { Alert, Badge, Button, Card, Col, Form, Row, Spinner } from "react-bootstrap";
 import { apiFetch } from "../../lib/api";
 import { organizerCategoryOptions } from "../../lib/organizerCategories";
+import ActiveSessions from "../common/ActiveSessions";
+import TwoFactorSettings from "../common/TwoFactorSettings";
 
 type OrganizerProfileData = {
   id: string;
@@ -387,6 +389,14 @@ export default function OrganizerProfile() {
           )}
         </Card.Body>
       </Card>
+
+      <div className="mt-3">
+        <TwoFactorSettings />
+      </div>
+
+      <div className="mt-3">
+        <ActiveSessions />
+      </div>
     </>
   );
 }
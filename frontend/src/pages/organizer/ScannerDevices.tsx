@@ -0,0 +1,243 @@
+import { useCallback, useEffect, useState } from "react";
+import { Alert, Badge, Button, Card, Col, Form, Modal, Row, Spinner, Table } from "react-bootstrap";
+import { QRCodeCanvas } from "qrcode.react";
+import { apiFetch } from "../../lib/api";
+import { readApiErrorMessage } from "../../lib/errors";
+
+type ScannerToken = {
+  id: string;
+  eventId: string;
+  label: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  lastIp: string | null;
+  revokedAt: string | null;
+};
+
+type PairingInfo = {
+  label: string;
+  pairingUrl: string;
+  validUntil: string;
+};
+
+type ScannerDevicesProps = {
+  eventId: string;
+};
+
+async function readErrorMessage(res: Response): Promise<string> {
+  return readApiErrorMessage(res);
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : "-";
+}
+
+export default function ScannerDevices({ eventId }: ScannerDevicesProps) {
+  const [tokens, setTokens] = useState<ScannerToken[]>([]);
+  const [validUntil, setValidUntil] = useState<string | null>(null);
+  const [label, setLabel] = useState("");
+  const [pairing, setPairing] = useState<PairingInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadTokens = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await apiFetch(`/api/events/organizer/${eventId}/scanner-tokens`);
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      const data = (await res.json()) as { tokens?: ScannerToken[]; validUntil?: string };
+      setTokens(data.tokens ?? []);
+      setValidUntil(data.validUntil ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load scanner devices");
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    void loadTokens();
+  }, [loadTokens]);
+
+  async function pairDevice(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setCreating(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await apiFetch(`/api/events/organizer/${eventId}/scanner-tokens`, {
+        method: "POST",
+        body: JSON.stringify({ label: label.trim() }),
+      });
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      const data = (await res.json()) as {
+        token: ScannerToken;
+        pairingUrl: string;
+        validUntil: string;
+      };
+      setPairing({ label: data.token.label, pairingUrl: data.pairingUrl, validUntil: data.validUntil });
+      setLabel("");
+      await loadTokens();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to pair device");
+    } finally {
+      setCreating(false);
+    }
+  }
+
+  async function revokeToken(token: ScannerToken) {
+    if (!window.confirm(`Revoke scanner access for "${token.label}"?`)) return;
+
+    setRevokingId(token.id);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await apiFetch(`/api/events/organizer/${eventId}/scanner-tokens/${token.id}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      setSuccess(`"${token.label}" can no longer scan.`);
+      await loadTokens();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to revoke device");
+    } finally {
+      setRevokingId(null);
+    }
+  }
+
+  return (
+    <div className="mt-3 d-grid gap-3">
+      {error ? <Alert variant="danger" className="mb-0">{error}</Alert> : null}
+      {success ? <Alert variant="success" className="mb-0">{success}</Alert> : null}
+
+      <Card className="border">
+        <Card.Body>
+          <h3 className="h6 mb-2">Pair a Gate Device</h3>
+          <p className="text-muted small mb-3">
+            Paired phones can only scan and look up tickets for this event, without signing in.
+            Access ends when the event ends{validUntil ? ` (${formatDate(validUntil)})` : ""} or
+            when you revoke it.
+          </p>
+          <Form onSubmit={pairDevice}>
+            <Row className="g-2 align-items-end">
+              <Col md={8}>
+                <Form.Group controlId="scanner-device-label">
+                  <Form.Label>Device name</Form.Label>
+                  <Form.Control
+                    required
+                    maxLength={60}
+                    placeholder="Gate 2 phone"
+                    value={label}
+                    onChange={(currentEvent) => setLabel(currentEvent.target.value)}
+                  />
+                </Form.Group>
+              </Col>
+              <Col md={4}>
+                <Button type="submit" className="w-100" disabled={creating}>
+                  {creating ? "Creating..." : "Create pairing QR"}
+                </Button>
+              </Col>
+            </Row>
+          </Form>
+        </Card.Body>
+      </Card>
+
+      <Card className="border">
+        <Card.Body>
+          <h3 className="h6 mb-3">Paired Devices</h3>
+          {loading ? (
+            <div className="d-flex align-items-center gap-2">
+              <Spinner animation="border" size="sm" />
+              <span>Loading devices...</span>
+            </div>
+          ) : tokens.length === 0 ? (
+            <div className="text-muted small">No devices paired for this event.</div>
+          ) : (
+            <Table responsive hover size="sm" className="align-middle mb-0">
+              <thead>
+                <tr>
+                  <th>Device</th>
+                  <th>Paired</th>
+                  <th>Last used</th>
+                  <th>Status</th>
+                  <th className="text-end">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tokens.map((token) => (
+                  <tr key={token.id}>
+                    <td>{token.label}</td>
+                    <td>{formatDate(token.createdAt)}</td>
+                    <td>
+                      {formatDate(token.lastUsedAt)}
+                      {token.lastIp ? (
+                        <div className="small text-muted">from {token.lastIp}</div>
+                      ) : null}
+                    </td>
+                    <td>
+                      {token.revokedAt ? (
+                        <Badge bg="secondary">Revoked</Badge>
+                      ) : (
+                        <Badge bg="success">Active</Badge>
+                      )}
+                    </td>
+                    <td className="text-end">
+                      {token.revokedAt ? null : (
+                        <Button
+                          size="sm"
+                          variant="outline-danger"
+                          disabled={revokingId === token.id}
+                          onClick={() => {
+                            void revokeToken(token);
+                          }}
+                        >
+                          {revokingId === token.id ? "Revoking..." : "Revoke"}
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          )}
+        </Card.Body>
+      </Card>
+
+      <Modal show={Boolean(pairing)} onHide={() => setPairing(null)} centered>
+        <Modal.Header closeButton>
+          <Modal.Title>Pair {pairing?.label}</Modal.Title>
+        </Modal.Header>
+        <Modal.Body className="text-center">
+          {pairing ? (
+            <>
+              <p className="small text-muted">
+                Scan this with the gate phone's camera, or open the link on it. The code is shown
+                only once; create a new one if the device loses it.
+              </p>
+              <QRCodeCanvas value={pairing.pairingUrl} size={240} includeMargin />
+              <Form.Control
+                readOnly
+                className="mt-3 small"
+                value={pairing.pairingUrl}
+                onFocus={(currentEvent) => currentEvent.target.select()}
+              />
+              <div className="small text-muted mt-2">
+                Valid until {formatDate(pairing.validUntil)}
+              </div>
+            </>
+          ) : null}
+        </Modal.Body>
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+import { useCallback, useEffect, useState } from "react";
+import { Alert, Badge, Button, Card, Col, Container, Form, Row, Spinner, Table } from "react-bootstrap";
+import { Link } from "react-router-dom";
+import { apiFetch } from "../../lib/api";
+import { readApiErrorMessage } from "../../lib/errors";
+
+type TeamRole = "scanner" | "finance" | "editor";
+
+type TeamMember = {
+  id: string;
+  userId: string;
+  name: string;
+  email: string | null;
+  role: TeamRole;
+  status: "invited" | "active";
+  invitedAt: string;
+  acceptedAt: string | null;
+};
+
+const TEAM_ROLES: Array<{ value: TeamRole; label: string; description: string }> = [
+  { value: "scanner", label: "Scanner", description: "Scan tickets and mark attendance" },
+  {
+    value: "finance",
+    label: "Finance",
+    description: "Review payments and export participants",
+  },
+  {
+    value: "editor",
+    label: "Editor",
+    description: "Edit events, post announcements and view analytics",
+  },
+];
+
+async function readErrorMessage(res: Response): Promise<string> {
+  return readApiErrorMessage(res);
+}
+
+export default function TeamMembers() {
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<TeamRole>("scanner");
+  const [loading, setLoading] = useState(true);
+  const [inviting, setInviting] = useState(false);
+  const [actioningId, setActioningId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadMembers = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await apiFetch("/api/organizers/me/team");
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      const data = (await res.json()) as { members?: TeamMember[] };
+      setMembers(data.members ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load team");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadMembers();
+  }, [loadMembers]);
+
+  async function inviteMember(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setInviting(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await apiFetch("/api/organizers/me/team", {
+        method: "POST",
+        body: JSON.stringify({ email: inviteEmail.trim(), role: inviteRole }),
+      });
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      setSuccess(`Invited ${inviteEmail.trim()}. They can accept from their Teams page.`);
+      setInviteEmail("");
+      await loadMembers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to invite member");
+    } finally {
+      setInviting(false);
+    }
+  }
+
+  async function changeRole(member: TeamMember, role: TeamRole) {
+    setActioningId(member.id);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await apiFetch(`/api/organizers/me/team/${member.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ role }),
+      });
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      setSuccess(`${member.name} is now ${role}.`);
+      await loadMembers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to change role");
+    } finally {
+      setActioningId(null);
+    }
+  }
+
+  async function removeMember(member: TeamMember) {
+    if (!window.confirm(`Remove ${member.name} from your team?`)) return;
+
+    setActioningId(member.id);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await apiFetch(`/api/organizers/me/team/${member.id}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      setSuccess(`${member.name} was removed.`);
+      await loadMembers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to remove member");
+    } finally {
+      setActioningId(null);
+    }
+  }
+
+  return (
+    <Container className="py-4">
+      <div className="d-flex justify-content-between align-items-center mb-4">
+        <div>
+          <h1 className="h3 mb-1">Team</h1>
+          <p className="text-muted mb-0">
+            Participant accounts that help run your events with a limited role.
+          </p>
+        </div>
+        <Link to="/organizer" className="btn btn-outline-secondary">
+          Back to Dashboard
+        </Link>
+      </div>
+
+      {error ? <Alert variant="danger">{error}</Alert> : null}
+      {success ? <Alert variant="success">{success}</Alert> : null}
+
+      <Card className="border mb-3">
+        <Card.Body>
+          <Card.Title className="h5 mb-3">Invite a member</Card.Title>
+          <Form onSubmit={inviteMember}>
+            <Row className="g-3 align-items-end">
+              <Col md={5}>
+                <Form.Group controlId="team-invite-email">
+                  <Form.Label>Participant email</Form.Label>
+                  <Form.Control
+                    type="email"
+                    required
+                    value={inviteEmail}
+                    onChange={(currentEvent) => setInviteEmail(currentEvent.target.value)}
+                  />
+                </Form.Group>
+              </Col>
+              <Col md={4}>
+                <Form.Group controlId="team-invite-role">
+                  <Form.Label>Role</Form.Label>
+                  <Form.Select
+                    value={inviteRole}
+                    onChange={(currentEvent) => setInviteRole(currentEvent.target.value as TeamRole)}
+                  >
+                    {TEAM_ROLES.map((entry) => (
+                      <option key={entry.value} value={entry.value}>
+                        {entry.label} - {entry.description}
+                      </option>
+                    ))}
+                  </Form.Select>
+                </Form.Group>
+              </Col>
+              <Col md={3} className="d-flex justify-content-end">
+                <Button type="submit" disabled={inviting}>
+                  {inviting ? "Inviting..." : "Send invite"}
+                </Button>
+              </Col>
+            </Row>
+          </Form>
+        </Card.Body>
+      </Card>
+
+      <Card className="border">
+        <Card.Body>
+          {loading ? (
+            <div className="d-flex align-items-center gap-2">
+              <Spinner animation="border" size="sm" />
+              <span>Loading team...</span>
+            </div>
+          ) : members.length === 0 ? (
+            <div className="text-muted">No team members yet.</div>
+          ) : (
+            <Table responsive hover size="sm" className="align-middle mb-0">
+              <thead>
+                <tr>
+                  <th>Member</th>
+                  <th>Role</th>
+                  <th>Status</th>
+                  <th className="text-end">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {members.map((member) => (
+                  <tr key={member.id}>
+                    <td>
+                      <div>{member.name}</div>
+                      <div className="small text-muted">{member.email ?? "-"}</div>
+                    </td>
+                    <td style={{ maxWidth: 180 }}>
+                      <Form.Select
+                        size="sm"
+                        value={member.role}
+                        disabled={actioningId === member.id}
+                        onChange={(currentEvent) => {
+                          void changeRole(member, currentEvent.target.value as TeamRole);
+                        }}
+                      >
+                        {TEAM_ROLES.map((entry) => (
+                          <option key={entry.value} value={entry.value}>
+                            {entry.label}
+                          </option>
+                        ))}
+                      </Form.Select>
+                    </td>
+                    <td>
+                      {member.status === "active" ? (
+                        <Badge bg="success">Active</Badge>
+                      ) : (
+                        <Badge bg="warning" text="dark">
+                          Invite pending
+                        </Badge>
+                      )}
+                    </td>
+                    <td className="text-end">
+                      <Button
+                        size="sm"
+                        variant="outline-danger"
+                        disabled={actioningId === member.id}
+                        onClick={() => {
+                          void removeMember(member);
+                        }}
+                      >
+                        {member.status === "invited" ? "Withdraw" : "Remove"}
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          )}
+        </Card.Body>
+      </Card>
+    </Container>
+  );
+}
@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useState } from "react";
+import { Alert, Button, Card, Container, Spinner, Table } from "react-bootstrap";
+import { Link } from "react-router-dom";
+import { apiFetch } from "../../lib/api";
+import { downloadCertificatePdf, type ParticipantCertificate } from "../../lib/certificates";
+import { readApiErrorMessage } from "../../lib/errors";
+
+async function readErrorMessage(res: Response): Promise<string> {
+  return readApiErrorMessage(res);
+}
+
+function formatEventDates(certificate: ParticipantCertificate): string {
+  const start = new Date(certificate.eventStartDate).toLocaleDateString();
+  const end = new Date(certificate.eventEndDate).toLocaleDateString();
+  return start === end ? start : `${start} - ${end}`;
+}
+
+export default function Certificates() {
+  const [certificates, setCertificates] = useState<ParticipantCertificate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [downloadingEventId, setDownloadingEventId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCertificates = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await apiFetch("/api/certificates/mine");
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      const data = (await res.json()) as { certificates?: ParticipantCertificate[] };
+      setCertificates(data.certificates ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load certificates");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadCertificates();
+  }, [loadCertificates]);
+
+  async function downloadCertificate(certificate: ParticipantCertificate) {
+    setDownloadingEventId(certificate.eventId);
+    setError(null);
+
+    try {
+      await downloadCertificatePdf(certificate.eventId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to download certificate");
+    } finally {
+      setDownloadingEventId(null);
+    }
+  }
+
+  return (
+    <Container className="py-4">
+      <h1 className="h3 mb-1">Certificates</h1>
+      <p className="text-muted mb-4">
+        Completed events you attended. Share the verification link so others can check a
+        certificate is genuine.
+      </p>
+
+      {error ? <Alert variant="danger">{error}</Alert> : null}
+
+      <Card className="border">
+        <Card.Body>
+          {loading ? (
+            <div className="d-flex align-items-center gap-2">
+              <Spinner animation="border" size="sm" />
+              <span>Loading certificates...</span>
+            </div>
+          ) : certificates.length === 0 ? (
+            <div className="text-muted small">
+              No certificates yet. They appear here once an event you attended is completed.
+            </div>
+          ) : (
+            <Table responsive hover size="sm" className="align-middle mb-0">
+              <thead>
+                <tr>
+                  <th>Event</th>
+                  <th>Organizer</th>
+                  <th>Dates</th>
+                  <th>Code</th>
+                  <th className="text-end">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {certificates.map((certificate) => (
+                  <tr key={certificate.id}>
+                    <td>
+                      <Link to={`/participant/events/${certificate.eventId}`}>
+                        {certificate.eventName}
+                      </Link>
+                    </td>
+                    <td>{certificate.organizerName}</td>
+                    <td>{formatEventDates(certificate)}</td>
+                    <td>
+                      <a href={certificate.verifyUrl} target="_blank" rel="noreferrer">
+                        <code>{certificate.code}</code>
+                      </a>
+                    </td>
+                    <td className="text-end">
+                      <Button
+                        size="sm"
+                        variant="outline-primary"
+                        disabled={downloadingEventId === certificate.eventId}
+                        onClick={() => {
+                          void downloadCertificate(certificate);
+                        }}
+                      >
+                        {downloadingEventId === certificate.eventId ? "Preparing..." : "Download PDF"}
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          )}
+        </Card.Body>
+      </Card>
+    </Container>
+  );
+}
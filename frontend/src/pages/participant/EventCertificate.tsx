@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useState } from "react";
+import { Alert, Button, Card, Spinner } from "react-bootstrap";
+import { apiFetch } from "../../lib/api";
+import { downloadCertificatePdf, type ParticipantCertificate } from "../../lib/certificates";
+import { readApiErrorMessage } from "../../lib/errors";
+
+type CertificateStatus = {
+  eligible: boolean;
+  reason: string | null;
+  certificate: ParticipantCertificate | null;
+};
+
+type EventCertificateProps = {
+  eventId: string;
+};
+
+async function readErrorMessage(res: Response): Promise<string> {
+  return readApiErrorMessage(res);
+}
+
+export default function EventCertificate({ eventId }: EventCertificateProps) {
+  const [loading, setLoading] = useState(true);
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<CertificateStatus | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await apiFetch(`/api/certificates/events/${eventId}/me`);
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+      setStatus((await res.json()) as CertificateStatus);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load certificate");
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    void loadStatus();
+  }, [loadStatus]);
+
+  async function downloadCertificate() {
+    setDownloading(true);
+    setError(null);
+
+    try {
+      await downloadCertificatePdf(eventId);
+      if (!status?.certificate) await loadStatus();
+    } catch (downloadError) {
+      setError(
+        downloadError instanceof Error ? downloadError.message : "Failed to download certificate",
+      );
+    } finally {
+      setDownloading(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="d-flex align-items-center gap-2 mb-3">
+        <Spinner animation="border" size="sm" />
+        <span>Loading certificate...</span>
+      </div>
+    );
+  }
+
+  if (!status) {
+    return error ? <Alert variant="danger">{error}</Alert> : null;
+  }
+
+  if (!status.eligible) {
+    return status.reason ? <Alert variant="secondary">{status.reason}</Alert> : null;
+  }
+
+  return (
+    <Card className="border mb-3">
+      <Card.Body>
+        <Card.Title className="h6 mb-1">Participation Certificate</Card.Title>
+        <div className="small text-muted mb-3">
+          {status.certificate
+            ? `Verification code ${status.certificate.code}. Anyone can check it on the verification page.`
+            : "Your certificate is ready. It gets a verification code the first time you download it."}
+        </div>
+        {error ? <Alert variant="danger">{error}</Alert> : null}
+        <Button
+          onClick={() => {
+            void downloadCertificate();
+          }}
+          disabled={downloading}
+        >
+          {downloading ? "Preparing..." : "Download Certificate (PDF)"}
+        </Button>
+      </Card.Body>
+    </Card>
+  );
+}
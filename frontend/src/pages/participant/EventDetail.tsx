@@ -1,10 +1,25 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { Alert, Button, Card, Col, Container, Form, Row, Spinner, Stack } from "react-bootstrap";
-import { Link, useParams } from "react-router-dom";
+import {
+  Alert,
+  Badge,
+  Button,
+  Card,
+  Col,
+  Container,
+  Form,
+  ListGroup,
+  Row,
+  Spinner,
+  Stack,
+} from "react-bootstrap";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import EventDiscussion from "../../components/EventDiscussion";
 import { apiFetch } from "../../lib/api";
+import EventCertificate from "./EventCertificate";
+import LeaveFeedback from "./LeaveFeedback";
 
 type EventType = "NORMAL" | "MERCH";
-type ParticipationStatus = "pending" | "confirmed" | "cancelled" | "rejected";
+type ParticipationStatus = "pending" | "confirmed" | "waitlisted" | "cancelled" | "rejected";
 
 type NormalFieldType = "text" | "textarea" | "number" | "select" | "checkbox" | "file";
 
@@ -35,6 +50,26 @@ type MerchConfig = {
   totalStock: number;
 };
 
+type TeamConfig = {
+  minSize: number;
+  maxSize: number;
+};
+
+type MyTeam = {
+  id: string;
+  name: string;
+  inviteCode: string;
+  status: "forming" | "confirmed";
+  minSize: number | null;
+  maxSize: number | null;
+  members: {
+    userId: string;
+    name: string;
+    status: ParticipationStatus;
+    isLeader: boolean;
+  }[];
+};
+
 type ParticipantEvent = {
   id: string;
   name: string;
@@ -51,26 +86,64 @@ type ParticipantEvent = {
   status: string;
   displayStatus?: string;
   canRegister?: boolean;
+  isFull?: boolean;
+  teamConfig?: TeamConfig | null;
+  requiresApproval?: boolean;
+  refundPolicy?: { tiers: Array<{ hoursBeforeStart: number; percent: number }> } | null;
   normalForm?: NormalForm;
   merchConfig?: MerchConfig;
 };
 
+type PaymentMethod = "upi" | "bank_transfer" | "cash" | "card" | "other" | "online";
+
 type ParticipantParticipation = {
   id: string;
   status: ParticipationStatus;
   ticketId: string | null;
+  waitlistPosition?: number | null;
+  teamId?: string | null;
+  awaitingReview?: boolean;
+  reviewMessage?: string | null;
+  awaitingPaymentReview?: boolean;
+  paymentHoldExpired?: boolean;
+  remindersEnabled?: boolean;
   eventType: EventType;
 };
 
+type EventAnnouncement = {
+  id: string;
+  title: string;
+  message: string;
+  createdAt: string;
+};
+
 type EventDetailResponse = {
   event?: ParticipantEvent;
   myParticipation?: ParticipantParticipation | null;
+  myTeam?: MyTeam | null;
+  myPaymentMethod?: PaymentMethod | null;
+  // whether paid registrations and orders can be paid through the online checkout
+  onlinePayments?: boolean;
+  // refund requested when the latest participation was cancelled
+  myRefund?: {
+    amount: number;
+    percent: number;
+    status: "pending" | "processed";
+    processedAt: string | null;
+    reference: string | null;
+  } | null;
+  announcements?: EventAnnouncement[];
 };
 
 type ParticipationCreateResponse = {
   participation?: { id: string; status: ParticipationStatus };
-  ticket?: { id: string };
+  ticket?: { id: string } | null;
+  waitlistPosition?: number;
+  awaitingReview?: boolean;
   payment?: { status: "pending" | "approved" | "rejected" };
+  team?: MyTeam | null;
+  // online payments continue on the provider's checkout page
+  checkout?: { checkoutUrl: string } | null;
 };
 
 async function readErrorMessage(res: Response): Promise<string> {
@@ -142,6 +215,9 @@ function isActiveParticipation(status: ParticipationStatus | undefined): boolean
 
 export default function EventDetail() {
   const { eventId = "" } = useParams<{ eventId: string }>();
+  // set by the checkout page when it sends the participant back
+  const [searchParams] = useSearchParams();
+  const checkoutResult = searchParams.get("payment");
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
@@ -151,23 +227,36 @@ export default function EventDetail() {
 
   const [submittingRegister, setSubmittingRegister] = useState(false);
   const [submittingPurchase, setSubmittingPurchase] = useState(false);
+  const [startingCheckout, setStartingCheckout] = useState(false);
   const [downloadingCalendar, setDownloadingCalendar] = useState(false);
+  const [savingReminders, setSavingReminders] = useState(false);
 
   const [answers, setAnswers] = useState<Record<string, string>>({});
   const [checkboxAnswers, setCheckboxAnswers] = useState<Record<string, string[]>>({});
   const [fileAnswers, setFileAnswers] = useState<Record<string, File | null>>({});
   const [normalPaymentProof, setNormalPaymentProof] = useState<File | null>(null);
+  const [normalPaymentOption, setNormalPaymentOption] = useState<"proof" | "online">("proof");
+  const [teamMode, setTeamMode] = useState<"create" | "join">("create");
+  const [teamName, setTeamName] = useState("");
+  const [inviteCode, setInviteCode] = useState("");
 
   const [selectedSku, setSelectedSku] = useState("");
   const [quantity, setQuantity] = useState("1");
-  const [paymentMethod, setPaymentMethod] = useState<
-    "upi" | "bank_transfer" | "cash" | "card" | "other"
-  >("upi");
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("upi");
   const [paymentProof, setPaymentProof] = useState<File | null>(null);
   const [calendarReminderMinutes, setCalendarReminderMinutes] = useState("30");
 
   const event = detail?.event;
+  const announcements = detail?.announcements ?? [];
   const participation = detail?.myParticipation ?? null;
+  const myTeam = detail?.myTeam ?? null;
+  const myRefund = detail?.myRefund ?? null;
+  const onlinePayments = detail?.onlinePayments === true;
+  // the online checkout is only offered to individual registrations of events without approval
+  const canPayNormalOnline = onlinePayments && !event?.teamConfig && !event?.requiresApproval;
+  const payNormalOnline = canPayNormalOnline && normalPaymentOption === "online";
+  const canResumeCheckout =
+    participation?.awaitingPaymentReview === true && detail?.myPaymentMethod === "online";
   const hasActiveParticipation = isActiveParticipation(participation?.status);
   const showExistingParticipationAlert = hasActiveParticipation && participation && !success;
 
@@ -208,7 +297,7 @@ export default function EventDetail() {
   async function submitNormalRegistration(eventForm: React.FormEvent<HTMLFormElement>) {
     eventForm.preventDefault();
     if (!event) return;
-    if (event.regFee > 0 && !normalPaymentProof) {
+    if (event.regFee > 0 && !payNormalOnline && !normalPaymentProof) {
       setError("Payment proof image is required for paid registrations.");
       return;
     }
@@ -230,9 +319,18 @@ export default function EventDetail() {
       for (const [key, file] of Object.entries(fileAnswers)) {
         if (file) formData.append(key, file);
       }
-      if (event.regFee > 0 && normalPaymentProof) {
+      if (event.regFee > 0 && payNormalOnline) {
+        formData.append("paymentOption", "online");
+      } else if (event.regFee > 0 && normalPaymentProof) {
         formData.append("paymentProof", normalPaymentProof);
       }
+      if (event.teamConfig) {
+        if (teamMode === "create") {
+          formData.append("teamName", teamName.trim());
+        } else {
+          formData.append("inviteCode", inviteCode.trim());
+        }
+      }
 
       const res = await apiFetch("/api/participations/register", {
         method: "POST",
@@ -241,9 +339,39 @@ export default function EventDetail() {
       if (!res.ok) throw new Error(await readErrorMessage(res));
 
       const data = (await res.json()) as ParticipationCreateResponse;
+      if (data.checkout) {
+        window.location.assign(data.checkout.checkoutUrl);
+        return;
+      }
       setCreatedTicketId(data.ticket?.id ?? null);
-      setSuccess("Registration submitted and ticket generated.");
+      if (data.participation?.status === "waitlisted") {
+        setSuccess(
+          `Event is full. You are on the waitlist at position ${data.waitlistPosition ?? "-"}.`,
+        );
+      } else if (data.awaitingReview) {
+        setSuccess(
+          `Registration submitted. The organizers review applications and you will get your ticket by email once accepted${event.regFee > 0 ? " and your payment is approved" : ""}.`,
+        );
+      } else if (data.team && data.participation?.status === "pending") {
+        setSuccess(
+          teamMode === "create"
+            ? `Team "${data.team.name}" created. Share invite code ${data.team.inviteCode} with your teammates.`
+            : `You joined team "${data.team.name}". Tickets are issued once the team is complete${event.regFee > 0 ? " and your payment is verified" : ""}.`,
+        );
+      } else if (data.payment?.status === "pending" && !data.ticket && payNormalOnline) {
+        setSuccess(
+          "Registration submitted and your seat is held, but the checkout could not be opened. Use Pay Online to try again.",
+        );
+      } else if (data.payment?.status === "pending" && !data.ticket) {
+        setSuccess(
+          "Registration submitted. Your seat is held while the organizers verify your payment; the ticket is emailed once it is approved.",
+        );
+      } else {
+        setSuccess("Registration submitted and ticket generated.");
+      }
       setNormalPaymentProof(null);
+      setTeamName("");
+      setInviteCode("");
       await loadEvent();
     } catch (submitError) {
       setError(submitError instanceof Error ? submitError.message : "Failed to register");
@@ -255,7 +383,7 @@ export default function EventDetail() {
   async function submitMerchPurchase(eventForm: React.FormEvent<HTMLFormElement>) {
     eventForm.preventDefault();
     if (!event) return;
-    if (!paymentProof) {
+    if (paymentMethod !== "online" && !paymentProof) {
       setError("Payment proof image is required.");
       return;
     }
@@ -270,7 +398,9 @@ export default function EventDetail() {
       formData.append("sku", selectedSku);
       formData.append("quantity", quantity);
       formData.append("method", paymentMethod);
-      formData.append("paymentProof", paymentProof);
+      if (paymentMethod !== "online" && paymentProof) {
+        formData.append("paymentProof", paymentProof);
+      }
 
       const res = await apiFetch("/api/participations/purchase", {
         method: "POST",
@@ -279,9 +409,15 @@ export default function EventDetail() {
       if (!res.ok) throw new Error(await readErrorMessage(res));
 
       const data = (await res.json()) as ParticipationCreateResponse;
+      if (data.checkout) {
+        window.location.assign(data.checkout.checkoutUrl);
+        return;
+      }
       setCreatedTicketId(data.ticket?.id ?? null);
       if (data.ticket?.id) {
         setSuccess("Purchase approved and ticket generated.");
+      } else if (paymentMethod === "online") {
+        setSuccess("Order placed, but the checkout could not be opened. Use Pay Online to try again.");
       } else {
         setSuccess("Purchase submitted for organizer approval.");
       }
@@ -294,6 +430,59 @@ export default function EventDetail() {
     }
   }
 
+  async function resumeCheckout() {
+    if (!participation) return;
+
+    setStartingCheckout(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await apiFetch("/api/payments/orders", {
+        method: "POST",
+        body: JSON.stringify({ participationId: participation.id }),
+      });
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      const data = (await res.json()) as { order?: { checkoutUrl: string } };
+      if (!data.order) throw new Error("Failed to open checkout");
+      window.location.assign(data.order.checkoutUrl);
+    } catch (checkoutError) {
+      setError(checkoutError instanceof Error ? checkoutError.message : "Failed to open checkout");
+      setStartingCheckout(false);
+    }
+  }
+
+  async function updateEmailReminders(enabled: boolean) {
+    if (!event) return;
+
+    setSavingReminders(true);
+    setError(null);
+
+    try {
+      const res = await apiFetch(`/api/participants/me/events/${event.id}/reminders`, {
+        method: "PATCH",
+        body: JSON.stringify({ enabled }),
+      });
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      setDetail((current) =>
+        current?.myParticipation
+          ? {
+              ...current,
+              myParticipation: { ...current.myParticipation, remindersEnabled: enabled },
+            }
+          : current,
+      );
+    } catch (reminderError) {
+      setError(
+        reminderError instanceof Error ? reminderError.message : "Failed to update reminders",
+      );
+    } finally {
+      setSavingReminders(false);
+    }
+  }
+
   async function downloadEventCalendar() {
     if (!event || !participation?.id) return;
 
@@ -395,6 +584,14 @@ export default function EventDetail() {
                   <div>
                     <strong>Fee:</strong> {event.regFee}
                   </div>
+                  {event.refundPolicy ? (
+                    <div>
+                      <strong>Refunds:</strong>{" "}
+                      {event.refundPolicy.tiers
+                        .map((tier) => `${tier.percent}% if cancelled ${tier.hoursBeforeStart}h+ before start`)
+                        .join(", ")}
+                    </div>
+                  ) : null}
                 </Col>
               </Row>
             </Card.Body>
@@ -405,12 +602,135 @@ export default function EventDetail() {
               You already have an active participation ({participation.status}).{" "}
               {participation.ticketId ? (
                 <Link to={`/participant/tickets/${participation.ticketId}`}>Open Ticket</Link>
+              ) : participation.status === "waitlisted" ? (
+                <span>
+                  Waitlist position: {participation.waitlistPosition ?? "-"}. Ticket will be
+                  issued automatically when a seat opens up.
+                </span>
+              ) : participation.awaitingReview ? (
+                <span>Your application is awaiting organizer review.</span>
+              ) : participation.teamId && !participation.awaitingPaymentReview ? (
+                <span>Ticket will be issued once your team reaches its minimum size.</span>
+              ) : canResumeCheckout ? (
+                <span>
+                  Your seat is held until the online payment goes through.{" "}
+                  <Button
+                    size="sm"
+                    variant="primary"
+                    disabled={startingCheckout}
+                    onClick={() => {
+                      void resumeCheckout();
+                    }}
+                  >
+                    {startingCheckout ? "Opening checkout..." : "Pay Online"}
+                  </Button>
+                </span>
               ) : (
                 <span>Ticket will be issued after payment approval.</span>
               )}
             </Alert>
           ) : null}
 
+          {checkoutResult === "paid" && participation?.status === "confirmed" ? (
+            <Alert variant="success">Payment received. Your ticket has been issued.</Alert>
+          ) : checkoutResult === "declined" && canResumeCheckout ? (
+            <Alert variant="warning">
+              The payment was not completed. Your seat stays held for now, so you can try again.
+            </Alert>
+          ) : null}
+
+          {participation?.status === "cancelled" && myRefund ? (
+            <Alert variant={myRefund.status === "processed" ? "success" : "info"}>
+              {myRefund.status === "processed"
+                ? `Your refund of ${myRefund.amount} (${myRefund.percent}%) was paid out${myRefund.reference ? ` (reference ${myRefund.reference})` : ""}.`
+                : `A refund of ${myRefund.amount} (${myRefund.percent}%) is waiting for the organizers to pay it out.`}
+            </Alert>
+          ) : null}
+
+          {participation?.status === "rejected" && participation.paymentHoldExpired ? (
+            <Alert variant="secondary">
+              {detail?.myPaymentMethod === "online"
+                ? "The online payment was not completed in time, so the held seat was released."
+                : "Your payment was not verified in time, so the held seat was released."}
+            </Alert>
+          ) : null}
+
+          {participation?.status === "rejected" && participation.reviewMessage ? (
+            <Alert variant="secondary">
+              <strong>Message from the organizers:</strong> {participation.reviewMessage}
+            </Alert>
+          ) : null}
+
+          {myTeam ? (
+            <Card className="border mb-3">
+              <Card.Body>
+                <div className="d-flex justify-content-between align-items-center mb-2">
+                  <Card.Title className="h6 mb-0">Team: {myTeam.name}</Card.Title>
+                  <Badge bg={myTeam.status === "confirmed" ? "success" : "warning"}>
+                    {myTeam.status === "confirmed" ? "Confirmed" : "Forming"}
+                  </Badge>
+                </div>
+                <div className="small mb-2">
+                  Invite code: <code className="fs-6">{myTeam.inviteCode}</code>
+                  {myTeam.maxSize !== null ? (
+                    <span className="text-muted">
+                      {" "}
+                      ({myTeam.members.length}/{myTeam.maxSize} members
+                      {myTeam.status === "forming" && myTeam.minSize !== null
+                        ? `, ${Math.max(myTeam.minSize - myTeam.members.length, 0)} more needed`
+                        : ""}
+                      )
+                    </span>
+                  ) : null}
+                </div>
+                <ListGroup variant="flush">
+                  {myTeam.members.map((member) => (
+                    <ListGroup.Item
+                      key={member.userId}
+                      className="px-0 d-flex justify-content-between align-items-center"
+                    >
+                      <span>
+                        {member.name}
+                        {member.isLeader ? (
+                          <Badge bg="primary" className="ms-2">
+                            Leader
+                          </Badge>
+                        ) : null}
+                      </span>
+                      <span className="small text-muted">{member.status}</span>
+                    </ListGroup.Item>
+                  ))}
+                </ListGroup>
+              </Card.Body>
+            </Card>
+          ) : null}
+
+          {event.status === "COMPLETED" && participation?.status === "confirmed" ? (
+            <>
+              <EventCertificate eventId={event.id} />
+              <LeaveFeedback eventId={event.id} />
+            </>
+          ) : null}
+
+          {announcements.length > 0 ? (
+            <Card className="border mb-3">
+              <Card.Body>
+                <Card.Title className="h6 mb-3">Announcements</Card.Title>
+                <div className="d-grid gap-3">
+                  {announcements.map((announcement) => (
+                    <div key={`announcement-${announcement.id}`}>
+                      <div className="fw-semibold">{announcement.title}</div>
+                      <div className="small text-muted mb-1">
+                        {formatDate(announcement.createdAt)}
+                      </div>
+                      <div style={{ whiteSpace: "pre-wrap" }}>{announcement.message}</div>
+                    </div>
+                  ))}
+                </div>
+              </Card.Body>
+            </Card>
+          ) : null}
+
           {hasActiveParticipation ? (
             <Card className="border mb-3">
               <Card.Body>
@@ -474,6 +794,19 @@ export default function EventDetail() {
                     </Button>
                   </Col>
                 </Row>
+                {participation?.status === "confirmed" && event.status !== "COMPLETED" ? (
+                  <Form.Check
+                    className="mt-3"
+                    type="switch"
+                    id="email-reminders"
+                    label="Email me reminders with my ticket before the event starts"
+                    checked={participation.remindersEnabled !== false}
+                    disabled={savingReminders}
+                    onChange={(currentEvent) => {
+                      void updateEmailReminders(currentEvent.target.checked);
+                    }}
+                  />
+                ) : null}
               </Card.Body>
             </Card>
           ) : null}
@@ -485,8 +818,74 @@ export default function EventDetail() {
           {!hasActiveParticipation && event.canRegister !== false && event.type === "NORMAL" ? (
             <Card className="border">
               <Card.Body>
-                <Card.Title className="h5 mb-3">Register</Card.Title>
+                <Card.Title className="h5 mb-3">
+                  {event.teamConfig ? "Register Team" : event.isFull ? "Join Waitlist" : "Register"}
+                </Card.Title>
+                {event.requiresApproval ? (
+                  <Alert variant="info">
+                    Registrations for this event are reviewed by the organizers. Your ticket is
+                    issued once your application is accepted
+                    {event.regFee > 0 ? " and your payment is approved" : ""}.
+                  </Alert>
+                ) : null}
+                {event.isFull && !event.teamConfig ? (
+                  <Alert variant="warning">
+                    This event is full. Registering adds you to the waitlist and you will be
+                    promoted automatically when a seat opens up.
+                  </Alert>
+                ) : null}
                 <Form onSubmit={submitNormalRegistration}>
+                  {event.teamConfig ? (
+                    <div className="mb-3">
+                      <div className="small text-muted mb-2">
+                        Teams of {event.teamConfig.minSize}-{event.teamConfig.maxSize}. Every
+                        member registers with their own account; tickets are issued once the
+                        team has {event.teamConfig.minSize} members.
+                      </div>
+                      <Form.Check
+                        inline
+                        type="radio"
+                        id="team-mode-create"
+                        name="team-mode"
+                        label="Start a new team"
+                        checked={teamMode === "create"}
+                        onChange={() => setTeamMode("create")}
+                      />
+                      <Form.Check
+                        inline
+                        type="radio"
+                        id="team-mode-join"
+                        name="team-mode"
+                        label="Join with an invite code"
+                        checked={teamMode === "join"}
+                        onChange={() => setTeamMode("join")}
+                      />
+                      {teamMode === "create" ? (
+                        <Form.Group controlId="team-name" className="mt-2">
+                          <Form.Label>Team name *</Form.Label>
+                          <Form.Control
+                            maxLength={80}
+                            value={teamName}
+                            onChange={(currentEvent) => setTeamName(currentEvent.target.value)}
+                            required
+                          />
+                        </Form.Group>
+                      ) : (
+                        <Form.Group controlId="team-invite-code" className="mt-2">
+                          <Form.Label>Invite code *</Form.Label>
+                          <Form.Control
+                            maxLength={20}
+                            placeholder="From your team leader"
+                            value={inviteCode}
+                            onChange={(currentEvent) =>
+                              setInviteCode(currentEvent.target.value.toUpperCase())
+                            }
+                            required
+                          />
+                        </Form.Group>
+                      )}
+                    </div>
+                  ) : null}
                   <Row className="g-3">
                     {sortedNormalFields.map((field) => (
                       <Col key={field.key} xs={12}>
@@ -610,25 +1009,60 @@ export default function EventDetail() {
                   </Row>
                   {event.regFee > 0 ? (
                     <Row className="g-3 mt-1">
-                      <Col xs={12}>
-                        <Form.Group controlId="normal-payment-proof">
-                          <Form.Label>Payment Proof (image)</Form.Label>
-                          <Form.Control
-                            type="file"
-                            accept="image/*"
-                            required
-                            onChange={(currentEvent) => {
-                              const input = currentEvent.target as HTMLInputElement;
-                              setNormalPaymentProof(input.files?.[0] ?? null);
-                            }}
-                          />
-                        </Form.Group>
-                      </Col>
+                      {canPayNormalOnline ? (
+                        <Col xs={12}>
+                          <Form.Group controlId="normal-payment-option">
+                            <Form.Label>Payment</Form.Label>
+                            <Form.Select
+                              value={normalPaymentOption}
+                              onChange={(currentEvent) =>
+                                setNormalPaymentOption(
+                                  currentEvent.target.value as "proof" | "online",
+                                )
+                              }
+                            >
+                              <option value="proof">Upload payment proof</option>
+                              <option value="online">Pay online</option>
+                            </Form.Select>
+                          </Form.Group>
+                        </Col>
+                      ) : null}
+                      {payNormalOnline ? (
+                        <Col xs={12}>
+                          <Form.Text muted>
+                            You will be sent to the checkout after registering. The ticket is issued
+                            as soon as the payment goes through.
+                          </Form.Text>
+                        </Col>
+                      ) : (
+                        <Col xs={12}>
+                          <Form.Group controlId="normal-payment-proof">
+                            <Form.Label>Payment Proof (image)</Form.Label>
+                            <Form.Control
+                              type="file"
+                              accept="image/*"
+                              required
+                              onChange={(currentEvent) => {
+                                const input = currentEvent.target as HTMLInputElement;
+                                setNormalPaymentProof(input.files?.[0] ?? null);
+                              }}
+                            />
+                          </Form.Group>
+                        </Col>
+                      )}
                     </Row>
                   ) : null}
                   <div className="mt-3">
                     <Button type="submit" disabled={submittingRegister}>
-                      {submittingRegister ? "Submitting..." : "Register"}
+                      {submittingRegister
+                        ? "Submitting..."
+                        : event.teamConfig
+                          ? teamMode === "create"
+                            ? "Create Team"
+                            : "Join Team"
+                          : event.isFull
+                            ? "Join Waitlist"
+                            : "Register"}
                     </Button>
                   </div>
                 </Form>
@@ -677,16 +1111,10 @@ export default function EventDetail() {
                         <Form.Select
                           value={paymentMethod}
                           onChange={(currentEvent) =>
-                            setPaymentMethod(
-                              currentEvent.target.value as
-                                | "upi"
-                                | "bank_transfer"
-                                | "cash"
-                                | "card"
-                                | "other",
-                            )
+                            setPaymentMethod(currentEvent.target.value as PaymentMethod)
                           }
                         >
+                          {onlinePayments ? <option value="online">Pay Online</option> : null}
                           <option value="upi">UPI</option>
                           <option value="bank_transfer">Bank Transfer</option>
                           <option value="cash">Cash</option>
@@ -695,20 +1123,28 @@ export default function EventDetail() {
                         </Form.Select>
                       </Form.Group>
                     </Col>
-                    <Col md={6}>
-                      <Form.Group controlId="merch-payment-proof">
-                        <Form.Label>Payment Proof (image)</Form.Label>
-                        <Form.Control
-                          type="file"
-                          accept="image/*"
-                          required
-                          onChange={(currentEvent) => {
-                            const input = currentEvent.target as HTMLInputElement;
-                            setPaymentProof(input.files?.[0] ?? null);
-                          }}
-                        />
-                      </Form.Group>
-                    </Col>
+                    {paymentMethod === "online" ? (
+                      <Col md={6} className="d-flex align-items-end">
+                        <Form.Text muted>
+                          You will be sent to the checkout after placing the order.
+                        </Form.Text>
+                      </Col>
+                    ) : (
+                      <Col md={6}>
+                        <Form.Group controlId="merch-payment-proof">
+                          <Form.Label>Payment Proof (image)</Form.Label>
+                          <Form.Control
+                            type="file"
+                            accept="image/*"
+                            required
+                            onChange={(currentEvent) => {
+                              const input = currentEvent.target as HTMLInputElement;
+                              setPaymentProof(input.files?.[0] ?? null);
+                            }}
+                          />
+                        </Form.Group>
+                      </Col>
+                    )}
                   </Row>
                   <div className="mt-3">
                     <Button type="submit" disabled={submittingPurchase}>
@@ -719,6 +1155,10 @@ export default function EventDetail() {
               </Card.Body>
             </Card>
           ) : null}
+
+          {participation?.status === "pending" || participation?.status === "confirmed" ? (
+            <EventDiscussion eventId={event.id} />
+          ) : null}
         </>
       )}
     </Container>
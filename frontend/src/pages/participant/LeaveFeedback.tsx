@@ -0,0 +1,136 @@
+import { useCallback, useEffect, useState } from "react";
+import { Alert, Button, Card, Form, Spinner } from "react-bootstrap";
+import { apiFetch } from "../../lib/api";
+
+type FeedbackStatus = {
+  submitted: boolean;
+  eligible: boolean;
+  reason: string | null;
+};
+
+type LeaveFeedbackProps = {
+  eventId: string;
+};
+
+async function readErrorMessage(res: Response): Promise<string> {
+  try {
+    const data = await res.json();
+    return data?.error?.message || "Request failed";
+  } catch {
+    return "Request failed";
+  }
+}
+
+export default function LeaveFeedback({ eventId }: LeaveFeedbackProps) {
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<FeedbackStatus | null>(null);
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState("");
+
+  const loadStatus = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await apiFetch(`/api/feedback/events/${eventId}/me`);
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+      setStatus((await res.json()) as FeedbackStatus);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load feedback status");
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    void loadStatus();
+  }, [loadStatus]);
+
+  async function submitFeedback(formEvent: React.FormEvent<HTMLFormElement>) {
+    formEvent.preventDefault();
+    if (rating < 1) {
+      setError("Select a rating from 1 to 5.");
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const res = await apiFetch(`/api/feedback/events/${eventId}`, {
+        method: "POST",
+        body: JSON.stringify({ rating, comment }),
+      });
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      setStatus({ submitted: true, eligible: false, reason: "Feedback already submitted" });
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : "Failed to submit feedback");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="d-flex align-items-center gap-2 mb-3">
+        <Spinner animation="border" size="sm" />
+        <span>Loading feedback...</span>
+      </div>
+    );
+  }
+
+  if (!status) {
+    return error ? <Alert variant="danger">{error}</Alert> : null;
+  }
+
+  if (status.submitted) {
+    return <Alert variant="success">Thanks! Your anonymous feedback has been recorded.</Alert>;
+  }
+
+  if (!status.eligible) {
+    return status.reason ? <Alert variant="secondary">{status.reason}</Alert> : null;
+  }
+
+  return (
+    <Card className="border mb-3">
+      <Card.Body>
+        <Card.Title className="h6 mb-1">Leave Feedback</Card.Title>
+        <div className="small text-muted mb-3">
+          Feedback is anonymous. The organizer sees your rating and comment, not your name.
+        </div>
+        {error ? <Alert variant="danger">{error}</Alert> : null}
+        <Form onSubmit={submitFeedback}>
+          <Form.Label>Rating</Form.Label>
+          <div className="d-flex gap-2 mb-3">
+            {[1, 2, 3, 4, 5].map((value) => (
+              <Button
+                key={`rating-${value}`}
+                variant={rating >= value ? "warning" : "outline-secondary"}
+                onClick={() => setRating(value)}
+                aria-label={`${value} star${value === 1 ? "" : "s"}`}
+              >
+                {"★"}
+              </Button>
+            ))}
+          </div>
+          <Form.Group controlId="feedback-comment" className="mb-3">
+            <Form.Label>Comment (optional)</Form.Label>
+            <Form.Control
+              as="textarea"
+              rows={3}
+              maxLength={2000}
+              value={comment}
+              onChange={(currentEvent) => setComment(currentEvent.target.value)}
+            />
+          </Form.Group>
+          <Button type="submit" disabled={submitting}>
+            {submitting ? "Submitting..." : "Submit Feedback"}
+          </Button>
+        </Form>
+      </Card.Body>
+    </Card>
+  );
+}
@@ -4,7 +4,7 @@ import { Link } from "react-router-dom";
 import EventCard from "../../components/EventCard";
 import { apiFetch } from "../../lib/api";
 
-type ParticipationStatus = "pending" | "confirmed" | "cancelled" | "rejected";
+type ParticipationStatus = "pending" | "confirmed" | "waitlisted" | "cancelled" | "rejected";
 type EventType = "NORMAL" | "MERCH";
 
 type ParticipationEvent = {
@@ -36,11 +36,16 @@ type ParticipationItem = {
   status: ParticipationStatus;
   eventType: EventType;
   ticketId: string | null;
+  waitlistPosition?: number | null;
   createdAt: string;
   event: ParticipationEvent;
   merchPurchase?: MerchPurchase;
 };
 
+type CancelResponse = {
+  refund?: { amount: number; percent: number } | null;
+};
+
 type MyEventsResponse = {
   upcoming?: ParticipationItem[];
   normal?: ParticipationItem[];
@@ -59,7 +64,7 @@ async function readErrorMessage(res: Response): Promise<string> {
 }
 
 function canCancel(status: ParticipationStatus): boolean {
-  return status === "pending" || status === "confirmed";
+  return status === "pending" || status === "confirmed" || status === "waitlisted";
 }
 
 function formatDate(value: string): string {
@@ -121,7 +126,12 @@ export default function MyEvents() {
       });
       if (!res.ok) throw new Error(await readErrorMessage(res));
 
-      setSuccess("Participation cancelled.");
+      const data = (await res.json()) as CancelResponse;
+      setSuccess(
+        data.refund
+          ? `Participation cancelled. A refund of ${data.refund.amount} (${data.refund.percent}%) was requested; the organizers will pay it out.`
+          : "Participation cancelled.",
+      );
       await loadMyEvents();
     } catch (cancelError) {
       setError(cancelError instanceof Error ? cancelError.message : "Failed to cancel");
@@ -217,7 +227,11 @@ export default function MyEvents() {
                 <div>
                   <strong>Joined:</strong> {formatDate(item.createdAt)}
                 </div>
-                {!item.ticketId ? (
+                {item.status === "waitlisted" ? (
+                  <div>
+                    <strong>Waitlist position:</strong> {item.waitlistPosition ?? "-"}
+                  </div>
+                ) : !item.ticketId ? (
                   <div>
                     <strong>Ticket:</strong> pending approval
                   </div>
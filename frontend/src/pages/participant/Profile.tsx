@@ -2,6 +2,7 @@ import { useCallback, useEffect, useState } from "react";
 import { Alert, Button, Card, Col, Container, Form, Row, Spinner } from "react-bootstrap";
 import { Link } from "react-router-dom";
 import { apiFetch } from "../../lib/api";
+import ActiveSessions from "../common/ActiveSessions";
 import ChangePassword from "../common/ChangePassword";
 import { organizerCategoryLabel } from "../../lib/organizerCategories";
 
@@ -355,6 +356,10 @@ export default function Profile() {
             </Card>
 
             <ChangePassword username={email} />
+
+            <div className="mt-3">
+              <ActiveSessions />
+            </div>
           </Col>
         </Row>
       )}
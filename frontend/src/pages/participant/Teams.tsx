@@ -0,0 +1,211 @@
+import { useCallback, useEffect, useState } from "react";
+import { Alert, Badge, Button, Card, Container, Spinner, Table } from "react-bootstrap";
+import { apiFetch } from "../../lib/api";
+import { readApiErrorMessage } from "../../lib/errors";
+import OrganizerEvents, { type TeamContext } from "../organizer/MyEvents";
+
+type TeamMembership = {
+  id: string;
+  organizerId: string;
+  organizerName: string;
+  role: TeamContext["role"];
+  status: "invited" | "active";
+  invitedAt: string;
+  acceptedAt: string | null;
+};
+
+const ROLE_DESCRIPTIONS: Record<TeamContext["role"], string> = {
+  scanner: "Scan tickets and mark attendance",
+  finance: "Review payments and export participants",
+  editor: "Edit events, post announcements and view analytics",
+};
+
+async function readErrorMessage(res: Response): Promise<string> {
+  return readApiErrorMessage(res);
+}
+
+export default function Teams() {
+  const [teams, setTeams] = useState<TeamMembership[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [actioningId, setActioningId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadTeams = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await apiFetch("/api/participants/me/teams");
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      const data = (await res.json()) as { teams?: TeamMembership[] };
+      setTeams(data.teams ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load teams");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadTeams();
+  }, [loadTeams]);
+
+  async function acceptInvite(team: TeamMembership) {
+    setActioningId(team.id);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await apiFetch(`/api/participants/me/teams/${team.id}/accept`, {
+        method: "POST",
+      });
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      setSuccess(`You joined the ${team.organizerName} team.`);
+      await loadTeams();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to accept invite");
+    } finally {
+      setActioningId(null);
+    }
+  }
+
+  async function leaveTeam(team: TeamMembership) {
+    const prompt =
+      team.status === "invited"
+        ? `Decline the invite from ${team.organizerName}?`
+        : `Leave the ${team.organizerName} team?`;
+    if (!window.confirm(prompt)) return;
+
+    setActioningId(team.id);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await apiFetch(`/api/participants/me/teams/${team.id}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) throw new Error(await readErrorMessage(res));
+
+      if (selectedId === team.id) setSelectedId(null);
+      setSuccess(
+        team.status === "invited" ? "Invite declined." : `You left the ${team.organizerName} team.`,
+      );
+      await loadTeams();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update team");
+    } finally {
+      setActioningId(null);
+    }
+  }
+
+  const selectedTeam = teams.find((team) => team.id === selectedId && team.status === "active");
+
+  return (
+    <>
+      <Container className="py-4">
+        <div className="mb-4">
+          <h1 className="h3 mb-1">Club Teams</h1>
+          <p className="text-muted mb-0">
+            Clubs that invited you to help run their events.
+          </p>
+        </div>
+
+        {error ? <Alert variant="danger">{error}</Alert> : null}
+        {success ? <Alert variant="success">{success}</Alert> : null}
+
+        <Card className="border">
+          <Card.Body>
+            {loading ? (
+              <div className="d-flex align-items-center gap-2">
+                <Spinner animation="border" size="sm" />
+                <span>Loading teams...</span>
+              </div>
+            ) : teams.length === 0 ? (
+              <div className="text-muted">You are not on any club team.</div>
+            ) : (
+              <Table responsive hover size="sm" className="align-middle mb-0">
+                <thead>
+                  <tr>
+                    <th>Club</th>
+                    <th>Role</th>
+                    <th>Status</th>
+                    <th className="text-end">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {teams.map((team) => (
+                    <tr key={team.id}>
+                      <td>{team.organizerName}</td>
+                      <td>
+                        <div className="text-capitalize">{team.role}</div>
+                        <div className="small text-muted">{ROLE_DESCRIPTIONS[team.role]}</div>
+                      </td>
+                      <td>
+                        {team.status === "active" ? (
+                          <Badge bg="success">Active</Badge>
+                        ) : (
+                          <Badge bg="warning" text="dark">
+                            Invited
+                          </Badge>
+                        )}
+                      </td>
+                      <td className="text-end">
+                        <div className="d-flex gap-2 justify-content-end">
+                          {team.status === "invited" ? (
+                            <Button
+                              size="sm"
+                              disabled={actioningId === team.id}
+                              onClick={() => {
+                                void acceptInvite(team);
+                              }}
+                            >
+                              Accept
+                            </Button>
+                          ) : (
+                            <Button
+                              size="sm"
+                              variant="outline-primary"
+                              disabled={selectedId === team.id}
+                              onClick={() => setSelectedId(team.id)}
+                            >
+                              Open events
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="outline-danger"
+                            disabled={actioningId === team.id}
+                            onClick={() => {
+                              void leaveTeam(team);
+                            }}
+                          >
+                            {team.status === "invited" ? "Decline" : "Leave"}
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </Table>
+            )}
+          </Card.Body>
+        </Card>
+      </Container>
+
+      {selectedTeam ? (
+        <OrganizerEvents
+          key={selectedTeam.id}
+          team={{
+            organizerId: selectedTeam.organizerId,
+            organizerName: selectedTeam.organizerName,
+            role: selectedTeam.role,
+          }}
+        />
+      ) : null}
+    </>
+  );
+}